@@ -268,6 +268,63 @@ function resolveConflicts(matches) {
   return resolved;
 }
 
+/**
+ * Apply the `keywords` config: drop disabled built-ins and merge custom
+ * keywords on the shared priority scale (same rules as resolveKeywords in
+ * src/hooks/keyword-detector/index.ts). Needs the built dist/; without it
+ * only the built-in keywords above are detected.
+ */
+async function applyKeywordRegistry(directory, prompt, cleanPrompt, matches) {
+  const unchanged = { kept: matches, customMessages: [] };
+  let loader, detector, taskSize;
+  try {
+    loader = await import('../dist/config/loader.js');
+    detector = await import('../dist/hooks/keyword-detector/index.js');
+    taskSize = await import('../dist/hooks/task-size-detector/index.js');
+  } catch {
+    return unchanged;
+  }
+
+  try {
+    const userConfig = loader.loadJsoncFile(loader.getConfigPaths().user) ?? {};
+    const projectConfig = loader.loadJsoncFile(join(directory, '.claude', 'omc.jsonc')) ?? {};
+    const config = loader.deepMerge(userConfig, projectConfig);
+    if (!config.keywords) return unchanged;
+    // Invalid custom keywords are skipped here; `omc doctor conflicts` reports them
+    const { registry } = detector.buildKeywordRegistry(config.keywords);
+
+    const builtins = matches.filter(m => !registry.disabledBuiltins.has(m.name));
+    if (builtins.some(m => m.name === 'cancel')) return { kept: builtins, customMessages: [] };
+
+    // Built-ins only this script detects (sciomc) rank with custom defaults
+    const merged = detector.mergeKeywordMatches(
+      builtins.map(m => ({
+        type: m.name,
+        priority: detector.getBuiltinKeywordPriority(m.name) || detector.DEFAULT_CUSTOM_KEYWORD_PRIORITY,
+      })),
+      detector.matchCustomKeywords(registry, cleanPrompt),
+    );
+
+    let customKeywords = merged.customKeywords;
+    const sizeConfig = config.taskSizeDetection ?? {};
+    if (customKeywords.some(k => k.heavy) &&
+        sizeConfig.enabled !== false && sizeConfig.suppressHeavyModesForSmallTasks !== false) {
+      const { size } = taskSize.classifyTaskSize(prompt, {
+        smallWordLimit: sizeConfig.smallWordLimit ?? 50,
+        largeWordLimit: sizeConfig.largeWordLimit ?? 200,
+      });
+      if (size === 'small') customKeywords = customKeywords.filter(k => !k.heavy);
+    }
+
+    return {
+      kept: merged.types.map(name => builtins.find(m => m.name === name) ?? { name, args: '' }),
+      customMessages: customKeywords.map(k => detector.formatCustomKeywordMessage(k)).filter(Boolean),
+    };
+  } catch {
+    return unchanged;
+  }
+}
+
 /**
  * Create proper hook output with additionalContext (Claude Code hooks API)
  * The 'message' field is NOT a valid hook output - use hookSpecificOutput.additionalContext
@@ -399,16 +456,23 @@ async function main() {
       matches.push({ name: 'analyze', args: '' });
     }
 
+    // Custom keywords and disabled built-ins from the `keywords` config
+    const { kept, customMessages } = await applyKeywordRegistry(directory, prompt, cleanPrompt, matches);
+    // Custom skill/prompt messages follow the built-in output
+    const withCustomMessages = (context) => [context, ...customMessages].join('\n\n---\n\n');
+
     // No matches - pass through
-    if (matches.length === 0) {
-      console.log(JSON.stringify({ continue: true, suppressOutput: true }));
+    if (kept.length === 0) {
+      console.log(JSON.stringify(customMessages.length > 0
+        ? createHookOutput(customMessages.join('\n\n---\n\n'))
+        : { continue: true, suppressOutput: true }));
       return;
     }
 
     // Deduplicate matches by keyword name before conflict resolution
     const seen = new Set();
     const uniqueMatches = [];
-    for (const m of matches) {
+    for (const m of kept) {
       if (!seen.has(m.name)) {
         seen.add(m.name);
         uniqueMatches.push(m);
@@ -464,19 +528,19 @@ async function main() {
 
       // If ultrathink was the only match, emit message
       if (resolved.length === 0) {
-        console.log(JSON.stringify(createHookOutput(ULTRATHINK_MESSAGE)));
+        console.log(JSON.stringify(createHookOutput(withCustomMessages(ULTRATHINK_MESSAGE))));
         return;
       }
 
       // Otherwise, prepend ultrathink message to skill invocation
       const skillMessage = createMultiSkillInvocation(resolved, prompt);
-      console.log(JSON.stringify(createHookOutput(ULTRATHINK_MESSAGE + skillMessage)));
+      console.log(JSON.stringify(createHookOutput(withCustomMessages(ULTRATHINK_MESSAGE + skillMessage))));
       return;
     }
 
     const skillMatches = resolved;
     if (skillMatches.length > 0) {
-      console.log(JSON.stringify(createHookOutput(createMultiSkillInvocation(skillMatches, prompt))));
+      console.log(JSON.stringify(createHookOutput(withCustomMessages(createMultiSkillInvocation(skillMatches, prompt)))));
     }
   } catch (error) {
     // On any error, allow continuation
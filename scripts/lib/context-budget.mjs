@@ -0,0 +1,40 @@
+/**
+ * Context budget for hook scripts.
+ *
+ * Plans injected context against the session's shared budget
+ * (src/features/context-budget). When dist/ is not built, every candidate
+ * is injected as before.
+ */
+
+import { dirname, join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * @param {string} directory
+ * @param {string | undefined} sessionId
+ * @param {string | undefined} transcriptPath
+ * @param {Array<{source: string, id: string, content: string, priority?: string, trimmable?: boolean}>} candidates
+ * @returns {Promise<Array<{id: string, content: string}>>} entries to inject, in priority order
+ */
+export async function budgetContextEntries(directory, sessionId, transcriptPath, candidates) {
+  try {
+    const { applyContextBudget } = await import(
+      pathToFileURL(join(__dirname, '..', '..', 'dist', 'features', 'context-budget', 'index.js')).href
+    );
+    const plan = applyContextBudget(directory, sessionId, candidates, { transcriptPath });
+    return plan.included.map(({ id, content }) => ({ id, content }));
+  } catch {
+    return candidates.filter((c) => c.content.trim()).map(({ id, content }) => ({ id, content }));
+  }
+}
+
+/**
+ * Like budgetContextEntries, returning only the contents.
+ * @returns {Promise<string[]>} contents to inject, in priority order
+ */
+export async function budgetContext(directory, sessionId, transcriptPath, candidates) {
+  const entries = await budgetContextEntries(directory, sessionId, transcriptPath, candidates);
+  return entries.map((entry) => entry.content);
+}
@@ -9,8 +9,8 @@ async function main() {
 
   try {
     const data = JSON.parse(input);
-    const { processPermissionRequest } = await import('../dist/hooks/permission-handler/index.js');
-    const result = await processPermissionRequest(data);
+    const { handlePermissionRequest } = await import('../dist/hooks/permission-handler/index.js');
+    const result = await handlePermissionRequest(data);
     console.log(JSON.stringify(result));
   } catch (error) {
     console.error('[permission-handler] Error:', error.message);
@@ -12,6 +12,7 @@ import { atomicWriteFileSync } from './lib/atomic-write.mjs';
 const RETRY_WINDOW_MS = 60000; // 60 seconds
 const MAX_ERROR_LENGTH = 500;
 const MAX_INPUT_PREVIEW_LENGTH = 200;
+const SKILL_RECOVERY_RETRY_COUNT = 3;
 
 // Validate that targetPath is contained within basePath (prevent path traversal)
 function isPathContained(targetPath, basePath) {
@@ -110,6 +111,16 @@ function writeErrorState(stateDir, toolName, toolInputPreview, error, retryCount
   } catch {}
 }
 
+// Record a recovery against learned skills injected into this session.
+// usage.ts resolves the log under the OMC root (honoring OMC_STATE_DIR) and
+// checks the lifecycle switch.
+async function recordSkillRecovery(directory, sessionId, toolName) {
+  try {
+    const { recordSkillRecovery: record } = await import('../dist/hooks/learner/usage.js');
+    record(directory, sessionId, `${toolName} failed ${SKILL_RECOVERY_RETRY_COUNT} times`);
+  } catch {}
+}
+
 async function main() {
   try {
     const input = await readStdin();
@@ -149,6 +160,10 @@ async function main() {
     // Write error state
     writeErrorState(stateDir, toolName, inputPreview, error, retryCount);
 
+    if (retryCount === SKILL_RECOVERY_RETRY_COUNT && data.session_id) {
+      await recordSkillRecovery(directory, data.session_id, toolName);
+    }
+
     // Inject continuation guidance so the model analyzes the error instead of stopping.
     // Without this, PostToolUseFailure returns silently and the model may end its turn.
     // The PostToolUse hook (post-tool-verifier.mjs) provides similar guidance for
@@ -41,6 +41,19 @@ try {
   registerProjectMemoryContext = null;
 }
 
+// Context collector and budget, to inject what was registered
+let contextCollector;
+let consumeBudgetedContext;
+try {
+  const collectorMod = await import(pathToFileURL(join(__dirname, '..', 'dist', 'features', 'context-injector', 'collector.js')).href);
+  const budgetMod = await import(pathToFileURL(join(__dirname, '..', 'dist', 'features', 'context-budget', 'index.js')).href);
+  contextCollector = collectorMod.contextCollector;
+  consumeBudgetedContext = budgetMod.consumeBudgetedContext;
+} catch {
+  contextCollector = null;
+  consumeBudgetedContext = null;
+}
+
 /**
  * Main hook execution
  */
@@ -59,7 +72,23 @@ async function main() {
       await registerProjectMemoryContext(sessionId, directory);
     }
 
-    // Return success (context registered via contextCollector, not returned here)
+    // Inject the registered context within the session's budget
+    if (sessionId && contextCollector && consumeBudgetedContext && contextCollector.hasPending(sessionId)) {
+      const plan = consumeBudgetedContext(contextCollector, directory, sessionId, {
+        transcriptPath: data.transcript_path
+      });
+      if (plan.merged) {
+        console.log(JSON.stringify({
+          continue: true,
+          hookSpecificOutput: {
+            hookEventName: 'SessionStart',
+            additionalContext: plan.merged
+          }
+        }));
+        return;
+      }
+    }
+
     console.log(JSON.stringify({
       continue: true,
       suppressOutput: true
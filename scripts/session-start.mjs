@@ -10,6 +10,7 @@ import { existsSync, readFileSync, readdirSync, rmSync, mkdirSync, writeFileSync
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { fileURLToPath, pathToFileURL } from 'url';
+import { budgetContext } from './lib/context-budget.mjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -432,10 +433,18 @@ Please continue working on these tasks.
           // Only inject if there's actual content (not just the placeholder comment)
           const cleanContent = priorityContext.replace(/<!--[\s\S]*?-->/g, '').trim();
           if (cleanContent) {
-            messages.push(`<notepad-context>
+            // Budgeted so a notepad already injected this session is not repeated
+            const [notepadMessage] = await budgetContext(directory, sessionId, data.transcript_path, [{
+              source: 'notepad',
+              id: 'priority-context',
+              content: `<notepad-context>
 [NOTEPAD - Priority Context]
 ${cleanContent}
-</notepad-context>`);
+</notepad-context>`,
+              priority: 'high',
+              trimmable: true
+            }]);
+            if (notepadMessage) messages.push(notepadMessage);
           }
         }
       } catch (err) {
@@ -14,6 +14,7 @@ import { existsSync, readdirSync, readFileSync, realpathSync } from 'fs';
 import { join, basename } from 'path';
 import { homedir } from 'os';
 import { readStdin } from './lib/stdin.mjs';
+import { budgetContextEntries } from './lib/context-budget.mjs';
 import { createRequire } from 'module';
 
 // Try to load the compiled bridge bundle
@@ -170,14 +171,7 @@ function findMatchingSkillsFallback(prompt, directory, sessionId) {
 
   // Sort by score (descending) and limit
   matches.sort((a, b) => b.score - a.score);
-  const selected = matches.slice(0, MAX_SKILLS_PER_SESSION);
-
-  // Mark as injected
-  for (const skill of selected) {
-    alreadyInjected.add(skill.path);
-  }
-
-  return selected;
+  return matches.slice(0, MAX_SKILLS_PER_SESSION);
 }
 
 // =============================================================================
@@ -188,24 +182,54 @@ function findMatchingSkillsFallback(prompt, directory, sessionId) {
 function findMatchingSkills(prompt, directory, sessionId) {
   if (bridge) {
     // Use bridge (RECURSIVE discovery, persistent session cache)
-    const matches = bridge.matchSkillsForInjection(prompt, directory, sessionId, {
+    return bridge.matchSkillsForInjection(prompt, directory, sessionId, {
       maxResults: MAX_SKILLS_PER_SESSION
     });
-
-    // Mark as injected via bridge
-    if (matches.length > 0) {
-      bridge.markSkillsInjected(sessionId, matches.map(s => s.path), directory);
-    }
-
-    return matches;
   }
 
   // Fallback (NON-RECURSIVE, in-memory cache)
   return findMatchingSkillsFallback(prompt, directory, sessionId);
 }
 
-// Format skills for injection
-function formatSkillsMessage(skills) {
+// Mark skills as injected so they are not offered again this session
+function markSkillsInjected(skills, directory, sessionId) {
+  if (skills.length === 0) return;
+  if (bridge) {
+    bridge.markSkillsInjected(sessionId, skills.map(s => s.path), directory);
+    return;
+  }
+
+  if (!injectedCacheFallback.has(sessionId)) {
+    injectedCacheFallback.set(sessionId, new Set());
+  }
+  const alreadyInjected = injectedCacheFallback.get(sessionId);
+  for (const skill of skills) {
+    alreadyInjected.add(skill.path);
+  }
+}
+
+// Format one skill for injection
+function formatSkillBlock(skill) {
+  // Add metadata block for programmatic parsing
+  const metadata = {
+    path: skill.path,
+    triggers: skill.triggers,
+    score: skill.score,
+    scope: skill.scope
+  };
+  return [
+    `### ${skill.name} (${skill.scope})`,
+    `<skill-metadata>${JSON.stringify(metadata)}</skill-metadata>`,
+    '',
+    skill.content,
+    '',
+    '---',
+    ''
+  ].join('\n');
+}
+
+// Wrap formatted skill blocks for injection
+function formatSkillsMessage(blocks) {
   const lines = [
     '<mnemosyne>',
     '',
@@ -214,26 +238,7 @@ function formatSkillsMessage(skills) {
     'The following skills from previous sessions may help:',
     ''
   ];
-
-  for (const skill of skills) {
-    lines.push(`### ${skill.name} (${skill.scope})`);
-
-    // Add metadata block for programmatic parsing
-    const metadata = {
-      path: skill.path,
-      triggers: skill.triggers,
-      score: skill.score,
-      scope: skill.scope
-    };
-    lines.push(`<skill-metadata>${JSON.stringify(metadata)}</skill-metadata>`);
-    lines.push('');
-
-    lines.push(skill.content);
-    lines.push('');
-    lines.push('---');
-    lines.push('');
-  }
-
+  lines.push(...blocks);
   lines.push('</mnemosyne>');
   return lines.join('\n');
 }
@@ -262,22 +267,39 @@ async function main() {
 
     const matchingSkills = findMatchingSkills(prompt, directory, sessionId);
 
+    // Skills share the session's context budget with the other injectors
+    const skillId = (skill) => skill.path || skill.name;
+    const entries = matchingSkills.length > 0
+      ? await budgetContextEntries(directory, sessionId, data.transcript_path, matchingSkills.map(skill => ({
+        source: 'learner',
+        id: skillId(skill),
+        content: formatSkillBlock(skill),
+        priority: 'normal'
+      })))
+      : [];
+    const blocks = entries.map(entry => entry.content);
+
+    // Only skills that made it past the budget count as injected
+    const includedIds = new Set(entries.map(entry => entry.id));
+    const injectedSkills = matchingSkills.filter(skill => includedIds.has(skillId(skill)));
+    markSkillsInjected(injectedSkills, directory, sessionId);
+
     // Record skill activations to flow trace (best-effort)
-    if (matchingSkills.length > 0) {
+    if (injectedSkills.length > 0) {
       try {
         const { recordSkillActivated } = await import('../dist/hooks/subagent-tracker/flow-tracer.js');
-        for (const skill of matchingSkills) {
+        for (const skill of injectedSkills) {
           recordSkillActivated(directory, sessionId, skill.name, skill.scope || 'learned');
         }
       } catch { /* silent - trace is best-effort */ }
     }
 
-    if (matchingSkills.length > 0) {
+    if (blocks.length > 0) {
       console.log(JSON.stringify({
         continue: true,
         hookSpecificOutput: {
           hookEventName: 'UserPromptSubmit',
-          additionalContext: formatSkillsMessage(matchingSkills)
+          additionalContext: formatSkillsMessage(blocks)
         }
       }));
     } else {
@@ -184,6 +184,62 @@ describe('omc config-stop-callback --profile', () => {
   });
 });
 
+describe('omc config-stop-callback --profile (matrix, teams, ntfy, gotify, email)', () => {
+  function setup() {
+    const homeDir = mkdtempSync(join(tmpdir(), 'omc-cli-profile-'));
+    const configPath = join(homeDir, '.claude', '.omc-config.json');
+    mkdirSync(join(homeDir, '.claude'), { recursive: true });
+    writeFileSync(configPath, JSON.stringify({ silentAutoUpdate: false }, null, 2));
+    return { homeDir, configPath };
+  }
+
+  it('creates teams and email platforms in one profile', () => {
+    const { homeDir, configPath } = setup();
+    const teamsUrl = 'https://prod-1.westus.logic.azure.com/workflows/abc/triggers/manual/paths/invoke?sig=x';
+
+    expect(runCli(['config-stop-callback', 'teams', '--profile', 'org', '--enable', '--webhook', teamsUrl], homeDir).status).toBe(0);
+    expect(runCli([
+      'config-stop-callback', 'email',
+      '--profile', 'org',
+      '--enable',
+      '--smtp-host', 'smtp.example.org',
+      '--smtp-port', '465',
+      '--from', 'omc@example.org',
+      '--to', 'a@example.org, b@example.org',
+    ], homeDir).status).toBe(0);
+
+    const profile = readConfig(configPath).notificationProfiles.org;
+    expect(profile.teams).toEqual({ enabled: true, webhookUrl: teamsUrl });
+    expect(profile.email).toEqual({
+      enabled: true,
+      host: 'smtp.example.org',
+      port: 465,
+      from: 'omc@example.org',
+      to: ['a@example.org', 'b@example.org'],
+    });
+
+    const list = runCli(['config-notify-profile', '--list'], homeDir);
+    expect(list.stdout).toContain('teams, email');
+  });
+
+  it('rejects an invalid matrix configuration without writing it', () => {
+    const { homeDir, configPath } = setup();
+
+    const result = runCli([
+      'config-stop-callback', 'matrix',
+      '--profile', 'org',
+      '--enable',
+      '--homeserver', 'http://matrix.example.org',
+      '--token', 'syt_abc',
+      '--room', '!room:example.org',
+    ], homeDir);
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('Matrix homeserver URL must use HTTPS');
+    expect(readConfig(configPath).notificationProfiles).toBeUndefined();
+  });
+});
+
 describe('omc config-notify-profile', () => {
   it('lists all profiles', () => {
     const homeDir = mkdtempSync(join(tmpdir(), 'omc-cli-profile-'));
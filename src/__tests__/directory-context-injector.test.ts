@@ -4,10 +4,24 @@
  * Validates that the directory-readme-injector correctly discovers
  * and injects both README.md and AGENTS.md files (issue #613).
  */
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+
+const mocks = vi.hoisted(() => ({ dropAll: false }));
+
+vi.mock('../features/context-budget/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../features/context-budget/index.js')>();
+  return {
+    ...actual,
+    applyContextBudget: (...[directory, sessionId, candidates, options]: Parameters<typeof actual.applyContextBudget>) =>
+      actual.applyContextBudget(directory, sessionId, candidates, mocks.dropAll
+        ? { ...options, config: { maxTokensPerInjection: 0 } }
+        : options),
+  };
+});
+
 import { createDirectoryReadmeInjectorHook } from '../hooks/directory-readme-injector/index.js';
 import {
   README_FILENAME,
@@ -140,6 +154,22 @@ describe('Directory Context Injector - AGENTS.md support (issue #613)', () => {
       expect(second).not.toContain('Root agents docs');
     });
 
+    it('should offer files the context budget dropped again on a later access', () => {
+      writeFileSync(join(testDir, 'AGENTS.md'), '# Root agents docs');
+      writeFileSync(join(testDir, 'a.ts'), 'const a = 1;');
+
+      const hook = createDirectoryReadmeInjectorHook(testDir);
+
+      mocks.dropAll = true;
+      try {
+        expect(hook.processToolExecution('read', join(testDir, 'a.ts'), sessionId)).toBe('');
+      } finally {
+        mocks.dropAll = false;
+      }
+      expect(hook.processToolExecution('read', join(testDir, 'a.ts'), sessionId)).toContain('Root agents docs');
+      expect(hook.processToolExecution('read', join(testDir, 'a.ts'), sessionId)).toBe('');
+    });
+
     it('should inject both README.md and AGENTS.md from same directory independently', () => {
       writeFileSync(join(testDir, 'README.md'), '# Project README content');
       writeFileSync(join(testDir, 'AGENTS.md'), '# Project AGENTS content');
@@ -257,6 +257,33 @@ Content`;
 
       expect(matches).toHaveLength(3);
     });
+
+    it("should rank paraphrased prompts with the semantic index when enabled", () => {
+      const skillsDir = join(testProjectRoot, ".omc", "skills");
+      mkdirSync(skillsDir, { recursive: true });
+
+      writeFileSync(
+        join(skillsDir, "rollback.md"),
+        "---\nname: Release Rollback\ntriggers:\n  - rollback\n---\nRevert a bad production release by redeploying the previous tag.",
+      );
+      writeFileSync(
+        join(skillsDir, "logging.md"),
+        "---\nname: Error Logging\ntriggers:\n  - production\n---\nAttach a correlation id to every log line.",
+      );
+
+      const prompt = "the production release is broken, how do I revert to the previous tag";
+      const keywordOnly = matchSkillsForInjection(prompt, testProjectRoot, "semantic-off", { semantic: false })
+        .filter((m) => m.scope === "project");
+      expect(keywordOnly.map((m) => m.name)).toEqual(["Error Logging"]);
+
+      const matches = matchSkillsForInjection(prompt, testProjectRoot, "semantic-on", {
+        semantic: true,
+        minConfidence: 35,
+      }).filter((m) => m.scope === "project");
+      expect(matches[0].name).toBe("Release Rollback");
+      expect(matches[0].confidence).toBeGreaterThanOrEqual(35);
+      expect(existsSync(join(testProjectRoot, ".omc", "state", "skill-index.json"))).toBe(true);
+    });
   });
 
   describe("Session Cache", () => {
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Keep audits away from the real user skill directories
+vi.mock('../../hooks/learner/loader.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../hooks/learner/loader.js')>();
+  return {
+    ...actual,
+    loadAllSkills: (projectRoot: string | null) =>
+      actual.loadAllSkills(projectRoot).filter(skill => skill.scope === 'project'),
+  };
+});
+
+// Quarantine at session end is opt-in; the scheduled-pass tests turn it on
+const lifecycleOverrides = vi.hoisted(() => ({ autoQuarantine: false }));
+vi.mock('../../hooks/learner/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../hooks/learner/config.js')>();
+  return {
+    ...actual,
+    loadConfig: () => {
+      const config = actual.loadConfig();
+      return { ...config, lifecycle: { ...config.lifecycle, ...lifecycleOverrides } };
+    },
+  };
+});
+
+import {
+  computeSkillUsageStats,
+  getSkillUsageLogPath,
+  pruneSkillUsageLog,
+  readSkillUsageEvents,
+  recordSkillInjections,
+  recordSkillRecovery,
+  recordSkillSessionEnd,
+} from '../../hooks/learner/usage.js';
+import {
+  auditSkills,
+  quarantineUnhealthySkills,
+  restoreSkill,
+  runScheduledSkillLifecycle,
+} from '../../hooks/learner/lifecycle.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+
+function writeProjectSkill(projectRoot: string, id: string, source = 'extracted'): string {
+  const dir = join(projectRoot, '.omc', 'skills');
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${id}.md`);
+  writeFileSync(path, [
+    '---',
+    `id: ${id}`,
+    `name: ${id}`,
+    `description: Skill ${id}`,
+    `source: ${source}`,
+    `createdAt: "${new Date(START).toISOString()}"`,
+    'triggers:',
+    `  - "${id}"`,
+    '---',
+    '',
+    `Body of ${id}.`,
+  ].join('\n'));
+  return path;
+}
+
+describe('Skill lifecycle', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = mkdtempSync(join(tmpdir(), 'omc-skill-lifecycle-'));
+  });
+
+  afterEach(() => {
+    lifecycleOverrides.autoQuarantine = false;
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('folds injections, recoveries and session outcomes into per-skill stats', () => {
+    const a = '/skills/a.md';
+    const b = '/skills/b.md';
+    recordSkillInjections(projectRoot, 's1', [a], new Date(START));
+    recordSkillRecovery(projectRoot, 's1', 'Bash failed 3 times', new Date(START + 1000));
+    recordSkillSessionEnd(projectRoot, 's1', 'success', new Date(START + 2000));
+    recordSkillInjections(projectRoot, 's2', [a, b], new Date(START + DAY));
+    recordSkillSessionEnd(projectRoot, 's2', 'success', new Date(START + DAY + 1000));
+    recordSkillInjections(projectRoot, 's3', [b], new Date(START + 2 * DAY));
+    recordSkillSessionEnd(projectRoot, 's3', 'failure', new Date(START + 2 * DAY + 1000));
+    // Sessions without injected skills are not tracked
+    recordSkillSessionEnd(projectRoot, 'other', 'failure');
+
+    const stats = computeSkillUsageStats(readSkillUsageEvents(projectRoot));
+    expect(stats.get(a)).toEqual({
+      injections: 2, successes: 1, failures: 1, lastInjectedAt: new Date(START + DAY).toISOString(),
+    });
+    expect(stats.get(b)).toMatchObject({ injections: 2, successes: 1, failures: 1 });
+    expect(readSkillUsageEvents(projectRoot).some(e => e.sessionId === 'other')).toBe(false);
+  });
+
+  it('flags failing and stale skills and quarantines them until restored', () => {
+    const failing = writeProjectSkill(projectRoot, 'flaky-fix');
+    const stale = writeProjectSkill(projectRoot, 'old-trick');
+    const manual = writeProjectSkill(projectRoot, 'hand-written', 'manual');
+    const healthy = writeProjectSkill(projectRoot, 'good-advice');
+
+    for (let i = 0; i < 5; i++) {
+      const at = START + i * DAY;
+      recordSkillInjections(projectRoot, `s${i}`, [failing, healthy], new Date(at));
+      recordSkillSessionEnd(projectRoot, `s${i}`, i < 3 ? 'failure' : 'success', new Date(at + 1000));
+    }
+    for (let i = 5; i < 10; i++) {
+      const at = START + 70 * DAY + i * 1000;
+      recordSkillInjections(projectRoot, `s${i}`, [healthy], new Date(at));
+      recordSkillSessionEnd(projectRoot, `s${i}`, 'success', new Date(at + 500));
+    }
+
+    const report = auditSkills(projectRoot, { now: START + 71 * DAY });
+    const status = Object.fromEntries(report.entries.map(e => [e.id, e.status]));
+    expect(status).toEqual({
+      'flaky-fix': 'failing',
+      'old-trick': 'stale',
+      'hand-written': 'stale',
+      'good-advice': 'healthy',
+    });
+
+    const records = quarantineUnhealthySkills(projectRoot, report);
+    expect(records.map(r => r.skillId).sort()).toEqual(['flaky-fix', 'old-trick']);
+    expect(existsSync(failing)).toBe(false);
+    expect(existsSync(stale)).toBe(false);
+    expect(existsSync(manual)).toBe(true);
+    expect(records[0].quarantinedPath.startsWith(join(projectRoot, '.omc', 'skills-quarantine'))).toBe(true);
+    expect(auditSkills(projectRoot).entries.map(e => e.id).sort()).toEqual(['good-advice', 'hand-written']);
+
+    restoreSkill(projectRoot, 'old-trick');
+    expect(existsSync(stale)).toBe(true);
+    expect(auditSkills(projectRoot).quarantined.map(r => r.skillId)).toEqual(['flaky-fix']);
+    expect(() => restoreSkill(projectRoot, 'old-trick')).toThrow(/No quarantined skill/);
+  });
+
+  it('only quarantines user-scope skills on request', () => {
+    writeProjectSkill(projectRoot, 'shared-trick');
+    recordSkillInjections(projectRoot, 's1', ['/elsewhere.md'], new Date(START));
+    const report = auditSkills(projectRoot, { now: START + 90 * DAY });
+    const userReport = {
+      ...report,
+      entries: report.entries.map(entry => ({ ...entry, scope: 'user' as const })),
+    };
+    expect(userReport.entries.map(e => e.status)).toEqual(['stale']);
+
+    expect(quarantineUnhealthySkills(projectRoot, userReport)).toEqual([]);
+  });
+
+  it('leaves skills in place when autoQuarantine is off', () => {
+    const stale = writeProjectSkill(projectRoot, 'old-trick');
+    recordSkillInjections(projectRoot, 's1', [stale], new Date(START));
+
+    expect(runScheduledSkillLifecycle(projectRoot, START + 200 * DAY)).toEqual([]);
+    expect(existsSync(stale)).toBe(true);
+  });
+
+  it('runs the scheduled pass at most once a day and decays old usage', () => {
+    lifecycleOverrides.autoQuarantine = true;
+    const stale = writeProjectSkill(projectRoot, 'old-trick');
+    recordSkillInjections(projectRoot, 's1', [stale], new Date(START));
+
+    const now = START + 200 * DAY;
+    expect(runScheduledSkillLifecycle(projectRoot, now).map(r => r.skillId)).toEqual(['old-trick']);
+    // The 200-day-old injection is past the 180-day retention window
+    expect(existsSync(getSkillUsageLogPath(projectRoot))).toBe(false);
+
+    restoreSkill(projectRoot, 'old-trick');
+    expect(runScheduledSkillLifecycle(projectRoot, now + 1000)).toEqual([]);
+    expect(existsSync(stale)).toBe(true);
+  });
+
+  it('keeps recent events when pruning', () => {
+    recordSkillInjections(projectRoot, 's1', ['/skills/a.md'], new Date(START));
+    recordSkillInjections(projectRoot, 's2', ['/skills/a.md'], new Date(START + 10 * DAY));
+    expect(pruneSkillUsageLog(projectRoot, 5, START + 11 * DAY)).toBe(1);
+    expect(readSkillUsageEvents(projectRoot).map(e => e.sessionId)).toEqual(['s2']);
+  });
+});
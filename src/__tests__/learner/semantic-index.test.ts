@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const mocks = vi.hoisted(() => ({ semantic: false, debug: false }));
+
+vi.mock('../../hooks/learner/constants.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../hooks/learner/constants.js')>();
+  return {
+    ...actual,
+    get DEBUG_ENABLED() {
+      return mocks.debug;
+    },
+  };
+});
+
+vi.mock('../../hooks/learner/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../hooks/learner/config.js')>();
+  return {
+    ...actual,
+    loadConfig: () => {
+      const config = actual.loadConfig();
+      return { ...config, matching: { ...config.matching, semantic: mocks.semantic } };
+    },
+  };
+});
+
+import {
+  createSkillIndex,
+  indexSkill,
+  querySkillIndex,
+  syncSkillIndex,
+  getSkillIndexPath,
+  loadSkillIndex,
+  registerSkillEmbeddingProvider,
+  unregisterSkillEmbeddingProvider,
+  resolveSkillIndexProvider,
+  type IndexableSkill,
+} from '../../hooks/learner/semantic-index.js';
+import { matchSkills } from '../../hooks/learner/matcher.js';
+import { writeSkill } from '../../hooks/learner/writer.js';
+import { findMatchingSkills } from '../../hooks/learner/loader.js';
+
+const SKILLS: IndexableSkill[] = [
+  {
+    path: '/skills/esm-imports.md',
+    skillId: 'esm-imports',
+    name: 'ESM import resolution',
+    triggers: ['ERR_MODULE_NOT_FOUND'],
+    content: 'Relative imports in ESM TypeScript need explicit .js extensions. Module resolution fails without them.',
+  },
+  {
+    path: '/skills/flaky-tests.md',
+    skillId: 'flaky-tests',
+    name: 'Flaky test isolation',
+    triggers: ['flaky test'],
+    content: 'Tests that pass alone but fail together share global state. Reset mocks and timers between tests.',
+  },
+  {
+    path: '/skills/error-logging.md',
+    skillId: 'error-logging',
+    name: 'Structured error logging',
+    triggers: ['error'],
+    content: 'Log errors with a correlation id and a stable error code for dashboards.',
+  },
+];
+
+describe('Semantic skill index', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = mkdtempSync(join(tmpdir(), 'omc-skill-index-'));
+    mocks.semantic = false;
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  function buildIndex(): ReturnType<typeof createSkillIndex> {
+    const index = createSkillIndex();
+    for (const skill of SKILLS) indexSkill(index, skill);
+    return index;
+  }
+
+  it('ranks paraphrased prompts by BM25 confidence', () => {
+    const matches = querySkillIndex(buildIndex(), 'my tests pass individually but failing when run together');
+    expect(matches[0]).toMatchObject({ id: 'flaky-tests', path: '/skills/flaky-tests.md' });
+    expect(matches[0].confidence).toBeGreaterThan(50);
+    const esm = matches.find(m => m.id === 'esm-imports');
+    expect(esm?.confidence ?? 0).toBeLessThan(matches[0].confidence / 2);
+  });
+
+  it('blends semantic confidence into matchSkills', () => {
+    const inputs = SKILLS.map(s => ({ id: s.skillId!, triggers: s.triggers }));
+    const prompt = 'getting an error: cannot resolve relative import without extension in typescript esm';
+
+    // Keyword-only matching injects the generic "error" skill alone
+    expect(matchSkills(prompt, inputs).map(m => m.skillId)).toEqual(['error-logging']);
+
+    const results = matchSkills(prompt, inputs, { semanticIndex: buildIndex() });
+    expect(results[0]).toMatchObject({ skillId: 'esm-imports', matchType: 'semantic' });
+    const errorSkill = results.find(m => m.skillId === 'error-logging');
+    expect(errorSkill?.confidence ?? 0).toBeLessThan(results[0].confidence);
+  });
+
+  it('persists and incrementally syncs the index', () => {
+    const first = syncSkillIndex(projectRoot, SKILLS);
+    const indexPath = getSkillIndexPath(projectRoot);
+    expect(indexPath).toBe(join(projectRoot, '.omc', 'state', 'skill-index.json'));
+    expect(Object.keys(first.documents)).toHaveLength(3);
+
+    const before = readFileSync(indexPath, 'utf-8');
+    syncSkillIndex(projectRoot, SKILLS);
+    expect(readFileSync(indexPath, 'utf-8')).toBe(before);
+
+    const edited = { ...SKILLS[0], content: 'Completely rewritten body.' };
+    const second = syncSkillIndex(projectRoot, [edited, SKILLS[1]]);
+    expect(Object.keys(second.documents).sort()).toEqual(['/skills/esm-imports.md', '/skills/flaky-tests.md']);
+    expect(second.documents['/skills/esm-imports.md'].hash).not.toBe(first.documents['/skills/esm-imports.md'].hash);
+    expect(second.documents['/skills/flaky-tests.md']).toEqual(first.documents['/skills/flaky-tests.md']);
+  });
+
+  it('uses a registered embedding provider and rebuilds on provider change', () => {
+    const vocabulary = ['import', 'module', 'test', 'flaky', 'error', 'log'];
+    registerSkillEmbeddingProvider({
+      id: 'keyword-vector',
+      embed: text => vocabulary.map(word => (text.toLowerCase().includes(word) ? 1 : 0)),
+    });
+    try {
+      syncSkillIndex(projectRoot, SKILLS);
+      const index = syncSkillIndex(projectRoot, SKILLS, 'keyword-vector');
+      expect(index.provider).toBe('keyword-vector');
+      expect(index.documents['/skills/flaky-tests.md'].vector).toHaveLength(vocabulary.length);
+      expect(loadSkillIndex(projectRoot, 'keyword-vector').provider).toBe('keyword-vector');
+
+      const matches = querySkillIndex(index, 'which module import is broken');
+      expect(matches[0].id).toBe('esm-imports');
+    } finally {
+      unregisterSkillEmbeddingProvider('keyword-vector');
+    }
+  });
+
+  it('loads a configured provider module for hook processes', () => {
+    const modulePath = join(projectRoot, 'provider.cjs');
+    writeFileSync(modulePath, [
+      "const vocabulary = ['import', 'module', 'test', 'flaky', 'error', 'log'];",
+      'module.exports = {',
+      "  id: 'file-vector',",
+      '  embed: text => vocabulary.map(word => (text.toLowerCase().includes(word) ? 1 : 0)),',
+      '};',
+    ].join('\n'));
+    try {
+      expect(resolveSkillIndexProvider('file-vector', modulePath)).toBe('file-vector');
+      const index = syncSkillIndex(projectRoot, SKILLS, 'file-vector');
+      expect(index.documents['/skills/esm-imports.md'].vector).toHaveLength(6);
+    } finally {
+      unregisterSkillEmbeddingProvider('file-vector');
+    }
+  });
+
+  it('falls back to bm25 without warning when the provider is unavailable', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(resolveSkillIndexProvider('quiet-model', join(projectRoot, 'absent.cjs'))).toBe('bm25');
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('warns in debug mode and falls back to bm25 when the provider is unavailable', () => {
+    mocks.debug = true;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(resolveSkillIndexProvider('missing-model')).toBe('bm25');
+      expect(resolveSkillIndexProvider('missing-model')).toBe('bm25');
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('"missing-model" is not available (set matching.providerModule)');
+
+      expect(resolveSkillIndexProvider('other-model', join(projectRoot, 'absent.cjs'))).toBe('bm25');
+      expect(warn.mock.calls.some(call => String(call[0]).includes('Failed to load embedding provider'))).toBe(true);
+    } finally {
+      mocks.debug = false;
+      warn.mockRestore();
+    }
+  });
+
+  it('indexes skills saved by the writer and ranks them when semantic matching is enabled', () => {
+    mocks.semantic = true;
+    const result = writeSkill({
+      problem: 'Vitest workers run out of memory on the CI runner',
+      solution: 'Limit the thread pool with poolOptions.threads.maxThreads and run with --no-file-parallelism.',
+      triggers: ['vitest oom'],
+      targetScope: 'project',
+    }, projectRoot, 'Vitest memory limits');
+    expect(result.success).toBe(true);
+
+    const index = loadSkillIndex(projectRoot);
+    expect(index.documents[result.path!]).toBeDefined();
+
+    const matches = findMatchingSkills('the test workers keep running out of memory in CI', projectRoot)
+      .filter(skill => skill.scope === 'project');
+    expect(matches.map(skill => skill.path)).toEqual([result.path]);
+  });
+
+  it('does not write an index while semantic matching is disabled', () => {
+    writeSkill({
+      problem: 'Vitest workers run out of memory on the CI runner',
+      solution: 'Limit the thread pool with poolOptions.threads.maxThreads and run with --no-file-parallelism.',
+      triggers: ['vitest oom'],
+      targetScope: 'project',
+    }, projectRoot, 'Vitest memory limits');
+    expect(existsSync(getSkillIndexPath(projectRoot))).toBe(false);
+  });
+});
@@ -192,6 +192,55 @@ describe('team cli', () => {
     logSpy.mockRestore();
   });
 
+  it('teamCommand start forwards budget ceilings to runtime-cli', async () => {
+    const write = vi.fn();
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mocks.spawn.mockReturnValue({
+      pid: 8889,
+      stdin: { write, end: vi.fn() },
+      unref: vi.fn(),
+    });
+
+    const { teamCommand } = await import('../team.js');
+    await teamCommand([
+      'start', '--agent', 'claude', '--task', 'overnight migration',
+      '--max-wall-clock-ms', '28800000', '--max-task-retries=4', '--max-cost-usd', '12.5', '--json',
+    ]);
+
+    const stdinPayload = JSON.parse(write.mock.calls[0][0] as string) as { budget?: Record<string, number> };
+    expect(stdinPayload.budget).toEqual({ maxWallClockMs: 28_800_000, maxTaskRetries: 4, maxCostUsd: 12.5 });
+
+    await expect(teamCommand(['start', '--agent', 'claude', '--task', 'x', '--max-cost-usd', '-1']))
+      .rejects.toThrow('Invalid --max-cost-usd value: -1');
+
+    logSpy.mockRestore();
+  });
+
+  it('teamCommand start forwards the autoscale request to runtime-cli', async () => {
+    const write = vi.fn();
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    mocks.spawn.mockReturnValue({
+      pid: 8890,
+      stdin: { write, end: vi.fn() },
+      unref: vi.fn(),
+    });
+
+    const { teamCommand } = await import('../team.js');
+    await teamCommand(['start', '--agent', 'claude', '--task', 'triage', '--autoscale', '--autoscale-max=6', '--json']);
+    await teamCommand(['start', '--agent', 'claude', '--task', 'triage', '--autoscale', '--json']);
+    await teamCommand(['start', '--agent', 'claude', '--task', 'triage', '--no-autoscale', '--json']);
+
+    const payloads = write.mock.calls.map(call => JSON.parse(call[0] as string) as { autoscale?: unknown });
+    expect(payloads.map(p => p.autoscale)).toEqual([{ maxWorkers: 6 }, true, false]);
+
+    await expect(teamCommand(['start', '--agent', 'claude', '--task', 'x', '--no-autoscale', '--autoscale-min', '2']))
+      .rejects.toThrow('Do not combine --no-autoscale');
+
+    logSpy.mockRestore();
+  });
+
   it('teamCommand start without --json outputs non-JSON', async () => {
     const write = vi.fn();
     const end = vi.fn();
@@ -404,6 +453,40 @@ describe('team cli', () => {
     logSpy.mockRestore();
   });
 
+  it('team replay reports state at an index and diffs between points', async () => {
+    const { teamCommand } = await import('../team.js');
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const cwd = mkdtempSync(join(tmpdir(), 'omc-team-cli-replay-'));
+    mkdirSync(join(cwd, '.omc', 'logs'), { recursive: true });
+    const auditLines = [
+      { timestamp: '2026-03-01T00:00:01.000Z', eventType: 'task_claimed', teamName: 'replay-team', workerName: 'worker-1', taskId: '1' },
+      { timestamp: '2026-03-01T00:00:02.000Z', eventType: 'task_completed', teamName: 'replay-team', workerName: 'worker-1', taskId: '1' },
+    ];
+    writeFileSync(
+      join(cwd, '.omc', 'logs', 'team-bridge-replay-team.jsonl'),
+      auditLines.map((line) => JSON.stringify(line)).join('\n') + '\n',
+    );
+
+    await teamCommand(['replay', 'replay-team', '--at', '0', '--json', '--cwd', cwd]);
+    const atPayload = JSON.parse(logSpy.mock.calls[0][0] as string) as {
+      eventCount: number;
+      state: { phase: string; tasks: Record<string, { status: string }> };
+    };
+    expect(atPayload.eventCount).toBe(2);
+    expect(atPayload.state.phase).toBe('executing');
+    expect(atPayload.state.tasks['1'].status).toBe('in_progress');
+
+    await teamCommand(['replay', 'replay-team', '--from=0', '--to=1', '--json', '--cwd', cwd]);
+    const diffPayload = JSON.parse(logSpy.mock.calls[1][0] as string) as { diff: { changes: Array<{ kind: string; from: string; to: string }> } };
+    expect(diffPayload.diff.changes).toContainEqual({ kind: 'phase', from: 'executing', to: 'completed' });
+
+    await expect(teamCommand(['replay', 'replay-team', '--at', '1', '--from', '0'])).rejects.toThrow('not both');
+
+    rmSync(cwd, { recursive: true, force: true });
+    logSpy.mockRestore();
+  });
+
 
   it('team shutdown uses runtime-v2 shutdown when enabled', async () => {
     const { teamCommand } = await import('../team.js');
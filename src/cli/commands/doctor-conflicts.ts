@@ -9,6 +9,11 @@ import { getClaudeConfigDir } from '../../utils/paths.js';
 import { isOmcHook } from '../../installer/index.js';
 import { colors } from '../utils/formatting.js';
 import { listBuiltinSkillNames } from '../../features/builtin-skills/skills.js';
+import { loadConfig } from '../../config/loader.js';
+import { validateCliContractConfig } from '../../team/cli-contract-registry.js';
+import { detectCli } from '../../team/cli-detection.js';
+import { buildKeywordRegistry } from '../../hooks/keyword-detector/index.js';
+import { buildPipelineStagesConfig } from '../../hooks/autopilot/pipeline.js';
 
 export interface ConflictReport {
   hookConflicts: { event: string; command: string; isOmc: boolean }[];
@@ -16,6 +21,9 @@ export interface ConflictReport {
   legacySkills: { name: string; path: string }[];
   envFlags: { disableOmc: boolean; skipHooks: string[] };
   configIssues: { unknownFields: string[] };
+  cliWorkers: { agentType: string; binary: string; errors: string[]; available: boolean }[];
+  customKeywords: { name: string; errors: string[] }[];
+  pipelineStages: { name: string; errors: string[] }[];
   hasConflicts: boolean;
 }
 
@@ -264,6 +272,10 @@ export function checkConfigIssues(): ConflictReport['configIssues'] {
       'permissions',
       'magicKeywords',
       'routing',
+      'cliWorkers',
+      'costAccounting',
+      'keywords',
+      'pipeline',
       // OMCConfig fields (from auto-update.ts / omc-setup)
       'silentAutoUpdate',
       'configuredAt',
@@ -292,6 +304,75 @@ export function checkConfigIssues(): ConflictReport['configIssues'] {
   return { unknownFields };
 }
 
+/**
+ * Validate custom CLI worker contracts (`cliWorkers` in omc config)
+ * and check whether each binary is installed.
+ */
+export function checkCliWorkers(): ConflictReport['cliWorkers'] {
+  let cliWorkers: Record<string, unknown>;
+  try {
+    cliWorkers = loadConfig().cliWorkers ?? {};
+  } catch {
+    return [];
+  }
+
+  return Object.entries(cliWorkers).map(([agentType, entry]) => {
+    const errors = validateCliContractConfig(agentType, entry);
+    const binary = typeof (entry as { binary?: unknown })?.binary === 'string'
+      ? (entry as { binary: string }).binary
+      : '';
+    return {
+      agentType,
+      binary,
+      errors,
+      available: errors.length === 0 && detectCli(binary).available,
+    };
+  });
+}
+
+/**
+ * Validate custom magic keywords (`keywords.custom` in omc config).
+ * Disabled entries are still validated.
+ */
+export function checkCustomKeywords(): ConflictReport['customKeywords'] {
+  let keywords: ReturnType<typeof loadConfig>['keywords'];
+  try {
+    keywords = loadConfig().keywords;
+  } catch {
+    return [];
+  }
+
+  const { rejected } = buildKeywordRegistry(keywords);
+  const rejectedByName = new Map(rejected.map(r => [r.name, r.errors]));
+  return Object.keys(keywords?.custom ?? {}).map(name => ({
+    name,
+    errors: rejectedByName.get(name) ?? [],
+  }));
+}
+
+/**
+ * Validate the autopilot `pipeline` section: custom stage definitions and
+ * the stage order. One entry per custom stage, plus "pipeline.stages" if
+ * the order is invalid.
+ */
+export function checkPipelineStages(): ConflictReport['pipelineStages'] {
+  let pipeline: ReturnType<typeof loadConfig>['pipeline'];
+  try {
+    pipeline = loadConfig().pipeline;
+  } catch {
+    return [];
+  }
+
+  const { rejected } = buildPipelineStagesConfig(pipeline);
+  const rejectedByName = new Map(rejected.map(r => [r.name, r.errors]));
+  const entries = Object.keys(pipeline?.custom ?? {}).map(name => ({
+    name,
+    errors: rejectedByName.get(name) ?? [],
+  }));
+  const orderErrors = rejectedByName.get('pipeline.stages');
+  return orderErrors ? [...entries, { name: 'pipeline.stages', errors: orderErrors }] : entries;
+}
+
 /**
  * Run complete conflict check
  */
@@ -301,6 +382,9 @@ export function runConflictCheck(): ConflictReport {
   const legacySkills = checkLegacySkills();
   const envFlags = checkEnvFlags();
   const configIssues = checkConfigIssues();
+  const cliWorkers = checkCliWorkers();
+  const customKeywords = checkCustomKeywords();
+  const pipelineStages = checkPipelineStages();
 
   // Determine if there are actual conflicts
   const hasConflicts =
@@ -308,8 +392,12 @@ export function runConflictCheck(): ConflictReport {
     legacySkills.length > 0 || // Legacy skills colliding with plugin
     envFlags.disableOmc || // OMC is disabled
     envFlags.skipHooks.length > 0 || // Hooks are being skipped
-    configIssues.unknownFields.length > 0; // Unknown config fields
+    configIssues.unknownFields.length > 0 || // Unknown config fields
+    cliWorkers.some(w => w.errors.length > 0) || // Invalid custom CLI worker contracts
+    customKeywords.some(k => k.errors.length > 0) || // Invalid custom magic keywords
+    pipelineStages.some(s => s.errors.length > 0); // Invalid custom pipeline stages
     // Note: Missing OMC markers is informational (normal for fresh install), not a conflict
+    // Note: A missing custom CLI binary is a warning only (it may be installed per-machine)
 
   return {
     hookConflicts,
@@ -317,6 +405,9 @@ export function runConflictCheck(): ConflictReport {
     legacySkills,
     envFlags,
     configIssues,
+    cliWorkers,
+    customKeywords,
+    pipelineStages,
     hasConflicts
   };
 }
@@ -422,6 +513,59 @@ export function formatReport(report: ConflictReport, json: boolean): string {
     lines.push('');
   }
 
+  // Custom CLI workers
+  if (report.cliWorkers.length > 0) {
+    lines.push(colors.bold('🤖 Custom CLI Workers'));
+    lines.push('');
+    for (const worker of report.cliWorkers) {
+      if (worker.errors.length > 0) {
+        lines.push(`  ${colors.red('✗')} ${worker.agentType}`);
+        for (const error of worker.errors) {
+          lines.push(`    - ${error}`);
+        }
+      } else if (!worker.available) {
+        lines.push(`  ${colors.yellow('⚠')} ${worker.agentType} ${colors.gray(`(${worker.binary} not found)`)}`);
+      } else {
+        lines.push(`  ${colors.green('✓')} ${worker.agentType} ${colors.gray(`(${worker.binary})`)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  // Custom magic keywords
+  if (report.customKeywords.length > 0) {
+    lines.push(colors.bold('🔑 Custom Keywords'));
+    lines.push('');
+    for (const keyword of report.customKeywords) {
+      if (keyword.errors.length > 0) {
+        lines.push(`  ${colors.red('✗')} ${keyword.name}`);
+        for (const error of keyword.errors) {
+          lines.push(`    - ${error}`);
+        }
+      } else {
+        lines.push(`  ${colors.green('✓')} ${keyword.name}`);
+      }
+    }
+    lines.push('');
+  }
+
+  // Custom pipeline stages
+  if (report.pipelineStages.length > 0) {
+    lines.push(colors.bold('🧩 Pipeline Stages'));
+    lines.push('');
+    for (const stage of report.pipelineStages) {
+      if (stage.errors.length > 0) {
+        lines.push(`  ${colors.red('✗')} ${stage.name}`);
+        for (const error of stage.errors) {
+          lines.push(`    - ${error}`);
+        }
+      } else {
+        lines.push(`  ${colors.green('✓')} ${stage.name}`);
+      }
+    }
+    lines.push('');
+  }
+
   // Summary
   lines.push(colors.gray('━'.repeat(60)));
   if (report.hasConflicts) {
@@ -0,0 +1,171 @@
+/**
+ * Notification Profile Platforms - Matrix, Teams, ntfy, Gotify and email
+ *
+ * Builds the profile block for `omc config-stop-callback <type> --profile`
+ * for the platforms that have no legacy stopHookCallbacks form. Secrets can
+ * be left out of the profile and supplied through env vars instead.
+ */
+
+import type {
+  EmailNotificationConfig,
+  GotifyNotificationConfig,
+  MatrixNotificationConfig,
+  NtfyNotificationConfig,
+  TeamsNotificationConfig,
+} from '../../notifications/types.js';
+import {
+  validateEmailConfig,
+  validateGotifyConfig,
+  validateMatrixConfig,
+  validateNtfyConfig,
+  validateTeamsConfig,
+  type ValidationResult,
+} from '../../notifications/validation.js';
+
+export const PROFILE_PLATFORM_TYPES = ['matrix', 'teams', 'ntfy', 'gotify', 'email'] as const;
+export type ProfilePlatformType = typeof PROFILE_PLATFORM_TYPES[number];
+
+export interface ProfilePlatformOptions {
+  token?: string;
+  webhook?: string;
+  homeserver?: string;
+  room?: string;
+  mention?: string;
+  server?: string;
+  topic?: string;
+  priority?: string;
+  smtpHost?: string;
+  smtpPort?: string;
+  smtpUser?: string;
+  from?: string;
+  to?: string;
+}
+
+export type ProfilePlatformResult =
+  | { config: Record<string, unknown> }
+  | { error: string };
+
+export function isProfilePlatformType(type: string): type is ProfilePlatformType {
+  return (PROFILE_PLATFORM_TYPES as readonly string[]).includes(type);
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+function validationError(result: ValidationResult): string | null {
+  return result.valid ? null : result.errors.join('; ');
+}
+
+/**
+ * Merge CLI options into the current platform block. When the platform is
+ * enabled, the result (with env-provided secrets) must pass validation.
+ */
+export function configureProfilePlatform(
+  type: ProfilePlatformType,
+  current: Record<string, unknown> | undefined,
+  enabled: boolean | undefined,
+  options: ProfilePlatformOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): ProfilePlatformResult {
+  const isEnabled = enabled ?? (current?.enabled as boolean | undefined) ?? false;
+  let error: string | null = null;
+  let config: Record<string, unknown>;
+
+  switch (type) {
+    case 'matrix': {
+      const prev = current as Partial<MatrixNotificationConfig> | undefined;
+      const next: Partial<MatrixNotificationConfig> = {
+        ...prev,
+        enabled: isEnabled,
+        homeserverUrl: options.homeserver ?? prev?.homeserverUrl,
+        accessToken: options.token ?? prev?.accessToken,
+        roomId: options.room ?? prev?.roomId,
+        mention: options.mention ?? prev?.mention,
+      };
+      if (isEnabled) {
+        error = validationError(validateMatrixConfig({
+          ...next as MatrixNotificationConfig,
+          accessToken: next.accessToken ?? env.OMC_MATRIX_ACCESS_TOKEN,
+        }));
+      }
+      config = { ...next };
+      break;
+    }
+    case 'teams': {
+      const prev = current as Partial<TeamsNotificationConfig> | undefined;
+      const next: Partial<TeamsNotificationConfig> = {
+        ...prev,
+        enabled: isEnabled,
+        webhookUrl: options.webhook ?? prev?.webhookUrl,
+      };
+      if (isEnabled) error = validationError(validateTeamsConfig(next as TeamsNotificationConfig));
+      config = { ...next };
+      break;
+    }
+    case 'ntfy': {
+      const prev = current as Partial<NtfyNotificationConfig> | undefined;
+      const next: Partial<NtfyNotificationConfig> = {
+        ...prev,
+        enabled: isEnabled,
+        serverUrl: options.server ?? prev?.serverUrl,
+        topic: options.topic ?? prev?.topic,
+        token: options.token ?? prev?.token,
+        priority: parseNumber(options.priority) ?? prev?.priority,
+      };
+      if (isEnabled) error = validationError(validateNtfyConfig(next as NtfyNotificationConfig));
+      config = { ...next };
+      break;
+    }
+    case 'gotify': {
+      const prev = current as Partial<GotifyNotificationConfig> | undefined;
+      const next: Partial<GotifyNotificationConfig> = {
+        ...prev,
+        enabled: isEnabled,
+        serverUrl: options.server ?? prev?.serverUrl,
+        appToken: options.token ?? prev?.appToken,
+        priority: parseNumber(options.priority) ?? prev?.priority,
+      };
+      if (isEnabled) {
+        error = validationError(validateGotifyConfig({
+          ...next,
+          appToken: next.appToken ?? env.OMC_GOTIFY_TOKEN,
+        } as GotifyNotificationConfig));
+      }
+      config = { ...next };
+      break;
+    }
+    case 'email': {
+      const prev = current as Partial<EmailNotificationConfig> | undefined;
+      const to = options.to
+        ?.split(',')
+        .map((address) => address.trim())
+        .filter(Boolean);
+      const next: Partial<EmailNotificationConfig> = {
+        ...prev,
+        enabled: isEnabled,
+        host: options.smtpHost ?? prev?.host,
+        port: parseNumber(options.smtpPort) ?? prev?.port,
+        username: options.smtpUser ?? prev?.username,
+        from: options.from ?? prev?.from,
+        to: to ?? prev?.to,
+      };
+      if (isEnabled) {
+        error = validationError(validateEmailConfig({
+          ...next,
+          password: next.password ?? env.OMC_SMTP_PASSWORD,
+        } as EmailNotificationConfig));
+      }
+      config = { ...next };
+      break;
+    }
+  }
+
+  if (error) return { error };
+  // Keep unset optional fields out of the stored profile
+  return {
+    config: Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)),
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Permissions Command - Dry-run the project permission policy
+ *
+ * `omc permissions check` shows which rule in .omc/permissions.json would
+ * decide a command or file operation, without running anything;
+ * `omc permissions trust` lets the policy's allow rules apply;
+ * `omc permissions log` prints recent decisions made by the hook.
+ */
+
+import chalk from 'chalk';
+import {
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+  readPermissionDecisionLog,
+  trustPermissionPolicy,
+} from '../../hooks/permission-handler/policy.js';
+import type { PermissionDecision } from '../../hooks/permission-handler/policy.js';
+import { evaluateBuiltinCommand, getBuiltinAllowReason } from '../../hooks/permission-handler/index.js';
+import { getActiveModes } from '../../hooks/mode-registry/index.js';
+import { resolveToWorktreeRoot } from '../../lib/worktree-paths.js';
+
+export interface PermissionsCheckOptions {
+  /** Tool name (default: Bash, or Edit when --file is given) */
+  tool?: string;
+  /** File path for file tools */
+  file?: string;
+  /** Comma-separated modes to evaluate as active (default: the modes active now) */
+  mode?: string;
+  json?: boolean;
+  cwd?: string;
+}
+
+export interface PermissionsTrustOptions {
+  cwd?: string;
+}
+
+export interface PermissionsLogOptions {
+  limit?: string;
+  json?: boolean;
+  cwd?: string;
+}
+
+const DECISION_LABEL: Record<PermissionDecision, string> = {
+  allow: chalk.green('ALLOW'),
+  deny: chalk.red('DENY'),
+  ask: chalk.yellow('ASK'),
+};
+
+/**
+ * Run `omc permissions check [command...]`. Returns 0, or 1 when the policy
+ * file is invalid or the input is missing.
+ */
+export async function permissionsCheckCommand(
+  commandArgs: string[],
+  options: PermissionsCheckOptions = {}
+): Promise<number> {
+  const projectRoot = resolveToWorktreeRoot(options.cwd ?? process.cwd());
+  const command = commandArgs.length > 0 ? commandArgs.join(' ') : undefined;
+  if (!command && !options.file) {
+    console.error(chalk.red('Provide a command or --file <path> to check.'));
+    return 1;
+  }
+
+  const { policy, path: policyPath, errors } = loadPermissionPolicy(projectRoot);
+  const toolName = options.tool ?? (options.file && !command ? 'Edit' : 'Bash');
+  const modes: string[] = options.mode
+    ? options.mode.split(',').map(m => m.trim()).filter(Boolean)
+    : getActiveModes(projectRoot);
+
+  const evaluation = policy
+    ? evaluatePermissionPolicy(
+      policy,
+      { toolName, command, filePath: options.file, modes, projectRoot },
+      evaluateBuiltinCommand
+    )
+    : null;
+  const builtinReason = !evaluation && toolName === 'Bash' && command ? getBuiltinAllowReason(command) : null;
+  const result = evaluation
+    ?? (builtinReason
+      ? { decision: 'allow' as const, reason: builtinReason, ruleId: 'builtin' }
+      : { decision: 'ask' as const, reason: 'No matching rule; Claude Code will prompt', ruleId: undefined });
+
+  if (options.json) {
+    console.log(JSON.stringify({ policyPath, policyErrors: errors, tool: toolName, command, file: options.file, modes, ...result }, null, 2));
+    return errors.length > 0 ? 1 : 0;
+  }
+
+  for (const error of errors) console.error(chalk.red(`Policy error: ${error}`));
+  if (!policy && errors.length === 0) {
+    console.log(chalk.gray(`No policy file at ${policyPath}; using built-in rules only.`));
+  }
+  const target = command ?? options.file;
+  console.log(`${DECISION_LABEL[result.decision]} ${toolName} ${target}`);
+  console.log(chalk.gray(`  ${result.ruleId ? `rule ${result.ruleId}: ` : ''}${result.reason}`));
+  if (modes.length > 0) console.log(chalk.gray(`  modes: ${modes.join(', ')}`));
+  return errors.length > 0 ? 1 : 0;
+}
+
+/**
+ * Run `omc permissions trust`. Returns 0, or 1 when there is no policy file
+ * or it is invalid.
+ */
+export async function permissionsTrustCommand(options: PermissionsTrustOptions = {}): Promise<number> {
+  const projectRoot = resolveToWorktreeRoot(options.cwd ?? process.cwd());
+  const result = trustPermissionPolicy(projectRoot);
+  if (!result) {
+    console.error(chalk.red('No .omc/permissions.json to trust.'));
+    return 1;
+  }
+
+  for (const error of result.errors) console.error(chalk.red(`Policy error: ${error}`));
+  if (!result.policy) return 1;
+  const allowRules = result.policy.rules.filter(rule => rule.decision === 'allow').length;
+  console.log(chalk.green(`Trusted ${result.path} (${allowRules} allow rule${allowRules === 1 ? '' : 's'}).`));
+  console.log(chalk.gray('  Edits to the file must be trusted again before its allow rules apply.'));
+  return result.errors.length > 0 ? 1 : 0;
+}
+
+/**
+ * Run `omc permissions log`
+ */
+export async function permissionsLogCommand(options: PermissionsLogOptions = {}): Promise<number> {
+  const projectRoot = resolveToWorktreeRoot(options.cwd ?? process.cwd());
+  const limit = options.limit ? Number(options.limit) : 20;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    console.error(chalk.red(`Invalid --limit: ${options.limit}`));
+    return 1;
+  }
+
+  const entries = readPermissionDecisionLog(projectRoot, limit);
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return 0;
+  }
+  if (entries.length === 0) {
+    console.log('No permission decisions logged.');
+    return 0;
+  }
+  for (const entry of entries) {
+    const target = entry.command ?? entry.filePath ?? '';
+    const rule = entry.ruleId ? chalk.gray(` [${entry.ruleId}]`) : '';
+    console.log(`${chalk.gray(entry.at)} ${DECISION_LABEL[entry.decision]} ${entry.tool} ${target}${rule}`);
+  }
+  return 0;
+}
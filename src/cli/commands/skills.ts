@@ -0,0 +1,109 @@
+/**
+ * Skills Command - Audit and restore learned skills
+ *
+ * `omc skills audit` reports per-skill usage telemetry (injections, session
+ * outcomes) and flags stale or failing skills; `--quarantine` moves them out
+ * of the discovery directories. `omc skills restore <name>` brings one back.
+ */
+
+import chalk from 'chalk';
+import {
+  auditSkills,
+  quarantineUnhealthySkills,
+  restoreSkill,
+} from '../../hooks/learner/lifecycle.js';
+import type { SkillAuditEntry, SkillHealth } from '../../hooks/learner/lifecycle.js';
+import { resolveToWorktreeRoot } from '../../lib/worktree-paths.js';
+
+export interface SkillsAuditOptions {
+  /** Quarantine stale and failing skills (including manual ones) */
+  quarantine?: boolean;
+  json?: boolean;
+  cwd?: string;
+}
+
+export interface SkillsRestoreOptions {
+  cwd?: string;
+}
+
+const STATUS_LABEL: Record<SkillHealth, string> = {
+  healthy: chalk.green('HEALTHY '),
+  unproven: chalk.gray('UNPROVEN'),
+  stale: chalk.yellow('STALE   '),
+  failing: chalk.red('FAILING '),
+};
+
+function formatEntry(entry: SkillAuditEntry): string {
+  const { injections, successes, failures } = entry.stats;
+  const usage = chalk.gray(`${injections} injected, ${successes} ok, ${failures} failed`);
+  return `  ${STATUS_LABEL[entry.status]} ${entry.name} ${chalk.gray(`[${entry.scope}]`)} ${usage}\n           ${chalk.gray(entry.reason)}`;
+}
+
+/**
+ * Run `omc skills audit`. Returns 0, or 1 when quarantining failed.
+ */
+export async function skillsAuditCommand(options: SkillsAuditOptions = {}): Promise<number> {
+  const projectRoot = resolveToWorktreeRoot(options.cwd ?? process.cwd());
+  const report = auditSkills(projectRoot);
+
+  let quarantined: ReturnType<typeof quarantineUnhealthySkills> = [];
+  if (options.quarantine) {
+    try {
+      quarantined = quarantineUnhealthySkills(projectRoot, report, { includeManual: true, includeUserScope: true });
+    } catch (error) {
+      console.error(chalk.red(`Quarantine failed: ${error instanceof Error ? error.message : String(error)}`));
+      return 1;
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, quarantinedNow: quarantined }, null, 2));
+    return 0;
+  }
+
+  console.log(chalk.bold('Learned Skills Audit'));
+  if (report.trackingSince) {
+    console.log(chalk.gray(`Usage tracked since ${report.trackingSince}`));
+  }
+  if (report.entries.length === 0) {
+    console.log('No learned skills found.');
+  }
+  for (const entry of report.entries) console.log(formatEntry(entry));
+
+  const unhealthy = report.entries.filter(e => e.status === 'stale' || e.status === 'failing');
+  console.log('');
+  if (quarantined.length > 0) {
+    console.log(chalk.yellow(`Quarantined ${quarantined.length} skill(s):`));
+    for (const record of quarantined) console.log(`  ${record.name} → ${record.quarantinedPath}`);
+  } else if (unhealthy.length > 0) {
+    console.log(chalk.yellow(`${unhealthy.length} skill(s) are stale or failing. Run with --quarantine to move them aside.`));
+  } else {
+    console.log(chalk.green('No skills need demotion.'));
+  }
+
+  const previously = report.quarantined;
+  if (previously.length > 0) {
+    console.log('');
+    console.log(chalk.bold('In quarantine'));
+    for (const record of previously) {
+      console.log(`  ${record.name} ${chalk.gray(`(${record.reason}, ${record.quarantinedAt})`)}`);
+    }
+    console.log(chalk.gray('Restore with: omc skills restore <name>'));
+  }
+  return 0;
+}
+
+/**
+ * Run `omc skills restore <name>`. Returns 1 when nothing matched.
+ */
+export async function skillsRestoreCommand(name: string, options: SkillsRestoreOptions = {}): Promise<number> {
+  const projectRoot = resolveToWorktreeRoot(options.cwd ?? process.cwd());
+  try {
+    const record = restoreSkill(projectRoot, name);
+    console.log(chalk.green(`Restored ${record.name} → ${record.originalPath}`));
+    return 0;
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    return 1;
+  }
+}
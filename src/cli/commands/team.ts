@@ -5,6 +5,8 @@
  *   omc team [N:agent-type] "task"          Start team (spawns tmux worker panes)
  *   omc team status <team-name>             Monitor team status
  *   omc team shutdown <team-name> [--force] Shutdown team
+ *   omc team resume <team-name> [--dry-run] Resume a crashed team from persisted state
+ *   omc team replay <team-name> [...]       Replay a team run's event timeline
  *   omc team api <operation> --input '...'  Worker CLI API
  */
 
@@ -23,6 +25,8 @@ const TEAM_HELP = `
 Usage: omc team [N:agent-type[:role]] "<task description>"
        omc team status <team-name>
        omc team shutdown <team-name> [--force]
+       omc team resume <team-name> [--dry-run] [--json]
+       omc team replay <team-name> [--at N | --from A --to B] [--timeline] [--step] [--json]
        omc team api <operation> [--input <json>] [--json]
        omc team api --help
 
@@ -32,6 +36,8 @@ Examples:
   omc team 1:gemini:executor "implement feature"
   omc team status fix-failing-tests
   omc team shutdown fix-failing-tests
+  omc team resume fix-failing-tests
+  omc team replay fix-failing-tests --from 0 --to 25
   omc team api send-message --input '{"team_name":"my-team","from_worker":"worker-1","to_worker":"leader-fixed","body":"ACK"}' --json
 
 Roles (optional): architect, executor, planner, analyst, critic, debugger, verifier,
@@ -535,6 +541,8 @@ async function handleTeamApi(args: string[], cwd: string): Promise<void> {
  *   omc team [N:agent-type] "task"          -> Start team
  *   omc team status <team-name>             -> Monitor
  *   omc team shutdown <team-name> [--force] -> Shutdown
+ *   omc team resume <team-name> [...]       -> Crash recovery (job CLI)
+ *   omc team replay <team-name> [...]       -> Timeline replay (job CLI)
  *   omc team api <operation> [--input] ...  -> Worker CLI API
  */
 export async function teamCommand(args: string[]): Promise<void> {
@@ -571,6 +579,13 @@ export async function teamCommand(args: string[]): Promise<void> {
     return;
   }
 
+  // omc team resume|replay <team-name> [...] (implemented by the job CLI)
+  if (subcommand === 'resume' || subcommand === 'replay') {
+    const { teamCommand: jobTeamCommand } = await import('../team.js');
+    await jobTeamCommand(args);
+    return;
+  }
+
   // Default: omc team [N:agent-type] "task" -> Start team
   try {
     const parsed = parseTeamArgs(args);
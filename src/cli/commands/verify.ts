@@ -0,0 +1,107 @@
+/**
+ * Verify Command - Execute the project's real build/test/lint checks
+ *
+ * Detects the commands from package.json, Cargo.toml, pyproject.toml or a
+ * Makefile, runs them with a timeout and records the results as evidence
+ * files under .omc/state/verification/ for ralph, UltraQA and autopilot QA.
+ */
+
+import chalk from 'chalk';
+import {
+  PROJECT_CHECK_IDS,
+  DEFAULT_CHECK_TIMEOUT_MS,
+  detectProjectChecks,
+  runProjectChecks,
+} from '../../features/verification/index.js';
+import type { ProjectCheckId, RecordedCheckEvidence } from '../../features/verification/index.js';
+
+export interface VerifyOptions {
+  /** Comma-separated check ids (default: every detected check) */
+  checks?: string;
+  /** Per-check timeout in seconds */
+  timeout?: string;
+  /** Only list detected commands, do not run them */
+  list?: boolean;
+  json?: boolean;
+  cwd?: string;
+}
+
+function parseChecks(raw: string | undefined): ProjectCheckId[] | undefined | string {
+  if (!raw) return undefined;
+  const ids = raw.split(',').map(s => s.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !(PROJECT_CHECK_IDS as readonly string[]).includes(id));
+  if (unknown.length > 0) {
+    return `Unknown check(s): ${unknown.join(', ')}. Valid: ${PROJECT_CHECK_IDS.join(', ')}`;
+  }
+  return ids as ProjectCheckId[];
+}
+
+function formatResult(evidence: RecordedCheckEvidence): string {
+  const status = evidence.passed
+    ? chalk.green('PASS')
+    : chalk.red(evidence.timedOut ? 'TIMEOUT' : 'FAIL');
+  const counts = evidence.counts
+    ? chalk.gray(` ${evidence.counts.passed} passed, ${evidence.counts.failed} failed, ${evidence.counts.skipped} skipped`)
+    : '';
+  const seconds = (evidence.durationMs / 1000).toFixed(1);
+  return `  ${status} ${evidence.checkId.padEnd(9)} ${evidence.command} ${chalk.gray(`(exit ${evidence.exitCode ?? 'none'}, ${seconds}s)`)}${counts}`;
+}
+
+/**
+ * Run `omc verify`. Returns the process exit code: 0 when every check
+ * passed, 1 when a check failed, nothing was detected or the input was invalid.
+ */
+export async function verifyCommand(options: VerifyOptions = {}): Promise<number> {
+  const cwd = options.cwd ?? process.cwd();
+  const checks = parseChecks(options.checks);
+  if (typeof checks === 'string') {
+    console.error(chalk.red(checks));
+    return 1;
+  }
+  const timeoutSeconds = options.timeout ? Number(options.timeout) : undefined;
+  if (timeoutSeconds !== undefined && (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0)) {
+    console.error(chalk.red(`Invalid --timeout: ${options.timeout}`));
+    return 1;
+  }
+
+  const detected = detectProjectChecks(cwd).filter(c => !checks || checks.includes(c.id));
+  if (options.list) {
+    if (options.json) {
+      console.log(JSON.stringify(detected, null, 2));
+    } else if (detected.length === 0) {
+      console.log('No build/test/lint commands detected.');
+    } else {
+      for (const c of detected) console.log(`  ${c.id.padEnd(9)} ${c.command} ${chalk.gray(`(${c.source})`)}`);
+    }
+    return 0;
+  }
+
+  if (detected.length === 0) {
+    const message = 'No build/test/lint commands detected (looked at package.json, Cargo.toml, pyproject.toml, Makefile).';
+    if (options.json) console.log(JSON.stringify({ passed: false, results: [], error: message }, null, 2));
+    else console.error(chalk.yellow(message));
+    return 1;
+  }
+
+  const results = await runProjectChecks(cwd, {
+    checks: detected.map(c => c.id),
+    timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : DEFAULT_CHECK_TIMEOUT_MS,
+  });
+  const passed = results.every(r => r.passed);
+
+  if (options.json) {
+    console.log(JSON.stringify({ passed, results }, null, 2));
+    return passed ? 0 : 1;
+  }
+
+  console.log(chalk.bold('Verification'));
+  for (const result of results) console.log(formatResult(result));
+  for (const failed of results.filter(r => !r.passed)) {
+    console.log('');
+    console.log(chalk.bold(`${failed.command} (output tail):`));
+    console.log(failed.outputTail);
+  }
+  console.log('');
+  console.log(passed ? chalk.green('All checks passed.') : chalk.red('Verification failed.'));
+  return passed ? 0 : 1;
+}
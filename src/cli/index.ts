@@ -50,6 +50,11 @@ import {
   waitDetectCommand
 } from './commands/wait.js';
 import { doctorConflictsCommand } from './commands/doctor-conflicts.js';
+import { verifyCommand } from './commands/verify.js';
+import { skillsAuditCommand, skillsRestoreCommand } from './commands/skills.js';
+import { permissionsCheckCommand, permissionsLogCommand, permissionsTrustCommand } from './commands/permissions.js';
+import { configureProfilePlatform, isProfilePlatformType, PROFILE_PLATFORM_TYPES } from './commands/notify-platforms.js';
+import { NOTIFICATION_PLATFORMS } from '../notifications/config.js';
 import { teamCommand } from './commands/team.js';
 import {
   teleportCommand,
@@ -390,7 +395,7 @@ Examples:
  */
 const _configStopCallback = program
   .command('config-stop-callback <type>')
-  .description('Configure stop hook callbacks (file/telegram/discord/slack)')
+  .description('Configure stop hook callbacks (file/telegram/discord/slack) and notification profiles')
   .option('--enable', 'Enable callback')
   .option('--disable', 'Disable callback')
   .option('--path <path>', 'File path (supports {session_id}, {date}, {time})')
@@ -399,6 +404,17 @@ const _configStopCallback = program
   .option('--chat <id>', 'Telegram chat ID')
   .option('--webhook <url>', 'Discord webhook URL')
   .option('--channel-id <id>', 'Discord bot channel ID (used with --profile)')
+  .option('--homeserver <url>', 'Matrix homeserver URL (used with --profile)')
+  .option('--room <id>', 'Matrix room ID (used with --profile)')
+  .option('--mention <user>', 'Matrix user ID to mention (used with --profile)')
+  .option('--server <url>', 'ntfy or Gotify server URL (used with --profile)')
+  .option('--topic <topic>', 'ntfy topic (used with --profile)')
+  .option('--priority <n>', 'ntfy (1-5) or Gotify (0-10) priority (used with --profile)')
+  .option('--smtp-host <host>', 'SMTP server host (used with --profile)')
+  .option('--smtp-port <port>', 'SMTP server port (used with --profile)')
+  .option('--smtp-user <user>', 'SMTP username; set the password in OMC_SMTP_PASSWORD (used with --profile)')
+  .option('--from <address>', 'Email sender address (used with --profile)')
+  .option('--to <csv>', 'Email recipient addresses, comma-separated (used with --profile)')
   .option('--tag-list <csv>', 'Replace tag list (comma-separated, telegram/discord only)')
   .option('--add-tag <tag>', 'Append one tag (telegram/discord only)')
   .option('--remove-tag <tag>', 'Remove one tag (telegram/discord only)')
@@ -416,6 +432,11 @@ Profile types (use with --profile):
   discord-bot  Discord Bot API (token + channel ID)
   slack        Slack incoming webhook
   webhook      Generic webhook (POST with JSON body)
+  matrix       Matrix room (homeserver + access token + room ID)
+  teams        Microsoft Teams Workflows webhook (Adaptive Card)
+  ntfy         ntfy push (server + topic, optional token)
+  gotify       Gotify push (server + app token)
+  email        Email over SMTP (password from OMC_SMTP_PASSWORD)
 
 Examples:
   $ omc config-stop-callback file --enable --path ~/.claude/logs/{date}.md
@@ -428,13 +449,17 @@ Examples:
   $ omc config-stop-callback discord --profile work --enable --webhook <url>
   $ omc config-stop-callback telegram --profile work --enable --token <tk> --chat <id>
   $ omc config-stop-callback discord-bot --profile ops --enable --token <tk> --channel-id <id>
+  $ omc config-stop-callback matrix --profile work --enable --homeserver <url> --token <tk> --room <id>
+  $ omc config-stop-callback teams --profile work --enable --webhook <workflows_url>
+  $ omc config-stop-callback ntfy --profile phone --enable --topic <topic>
+  $ omc config-stop-callback email --profile work --enable --smtp-host <host> --smtp-user <user> --from <addr> --to <addr>
 
   # Select profile at launch:
   $ OMC_NOTIFY_PROFILE=work claude`)
   .action(async (type: string, options) => {
     // When --profile is used, route to profile-based config
     if (options.profile) {
-      const profileValidTypes = ['file', 'telegram', 'discord', 'discord-bot', 'slack', 'webhook'];
+      const profileValidTypes = ['file', 'telegram', 'discord', 'discord-bot', 'slack', 'webhook', ...PROFILE_PLATFORM_TYPES];
       if (!profileValidTypes.includes(type)) {
         console.error(chalk.red(`Invalid type for profile: ${type}`));
         console.error(chalk.gray(`Valid types: ${profileValidTypes.join(', ')}`));
@@ -548,6 +573,16 @@ Examples:
           process.exit(1);
           break;
         }
+        default: {
+          if (!isProfilePlatformType(type)) break;
+          const result = configureProfilePlatform(type, profile[type], enabled, options);
+          if ('error' in result) {
+            console.error(chalk.red(`Invalid ${type} configuration: ${result.error}`));
+            process.exit(1);
+          }
+          profile[type] = result.config;
+          break;
+        }
       }
 
       config.notificationProfiles[profileName] = profile;
@@ -737,7 +772,7 @@ Examples:
         console.log(chalk.blue('Notification profiles:'));
         for (const pName of names) {
           const p = profiles[pName];
-          const platforms = ['discord', 'discord-bot', 'telegram', 'slack', 'webhook']
+          const platforms = NOTIFICATION_PLATFORMS
             .filter((plat) => p[plat]?.enabled)
             .join(', ');
           const status = p.enabled !== false ? chalk.green('enabled') : chalk.red('disabled');
@@ -1291,6 +1326,99 @@ Examples:
     process.exit(exitCode);
   });
 
+/**
+ * Verify command - Execute the project's build/test/lint checks
+ * and record the results as verification evidence
+ */
+program
+  .command('verify')
+  .description('Run the project\'s detected build/test/lint checks and record evidence')
+  .option('-c, --checks <ids>', 'Comma-separated checks to run (build,test,lint,typecheck)')
+  .option('-t, --timeout <seconds>', 'Per-check timeout in seconds (default: 600)')
+  .option('-l, --list', 'List detected commands without running them')
+  .option('--json', 'Output as JSON')
+  .addHelpText('after', `
+Examples:
+  $ omc verify                   Run every detected check
+  $ omc verify --checks test     Run only the test command
+  $ omc verify --list            Show the detected commands`)
+  .action(async (options) => {
+    const exitCode = await verifyCommand(options);
+    process.exit(exitCode);
+  });
+
+/**
+ * Skills command - Audit learned skill usage and manage quarantine
+ */
+const skillsCmd = program
+  .command('skills')
+  .description('Audit learned skills and manage quarantined ones');
+
+skillsCmd
+  .command('audit')
+  .description('Report per-skill usage and flag stale or failing skills')
+  .option('-q, --quarantine', 'Move stale and failing skills to quarantine')
+  .option('--json', 'Output as JSON')
+  .addHelpText('after', `
+Examples:
+  $ omc skills audit               Show usage and health for every learned skill
+  $ omc skills audit --quarantine  Quarantine stale and failing skills`)
+  .action(async (options) => {
+    const exitCode = await skillsAuditCommand(options);
+    process.exit(exitCode);
+  });
+
+skillsCmd
+  .command('restore <name>')
+  .description('Restore a quarantined skill by name, id or file name')
+  .action(async (name: string) => {
+    const exitCode = await skillsRestoreCommand(name);
+    process.exit(exitCode);
+  });
+
+/**
+ * Permissions command - Dry-run the project permission policy
+ */
+const permissionsCmd = program
+  .command('permissions')
+  .description('Dry-run the project permission policy and show logged decisions');
+
+permissionsCmd
+  .command('check [command...]')
+  .description('Show which policy rule decides a command or file operation')
+  .option('-t, --tool <name>', 'Tool name (default: Bash, or Edit with --file)')
+  .option('-f, --file <path>', 'File path for file tools')
+  .option('-m, --mode <modes>', 'Comma-separated active modes (ralph,autopilot,ultrawork,team)')
+  .option('--json', 'Output as JSON')
+  .addHelpText('after', `
+Examples:
+  $ omc permissions check make build             Evaluate a Bash command
+  $ omc permissions check -- rm -rf dist         Use -- before commands with flags
+  $ omc permissions check --file infra/main.tf   Evaluate an Edit of a file
+  $ omc permissions check --mode ralph docker compose up`)
+  .action(async (commandArgs: string[], options) => {
+    const exitCode = await permissionsCheckCommand(commandArgs, options);
+    process.exit(exitCode);
+  });
+
+permissionsCmd
+  .command('trust')
+  .description('Let the allow rules of the current policy file apply')
+  .action(async () => {
+    const exitCode = await permissionsTrustCommand();
+    process.exit(exitCode);
+  });
+
+permissionsCmd
+  .command('log')
+  .description('Show recent permission decisions')
+  .option('-n, --limit <count>', 'Number of entries (default: 20)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const exitCode = await permissionsLogCommand(options);
+    process.exit(exitCode);
+  });
+
 /**
  * Setup command - Official CLI entry point for omc-setup
  *
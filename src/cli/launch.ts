@@ -23,6 +23,15 @@ const DISCORD_FLAG = '--discord';
 const SLACK_FLAG = '--slack';
 const WEBHOOK_FLAG = '--webhook';
 
+/** Presence-based flags for the remaining notification platforms, and the env var each sets */
+const PLATFORM_FLAGS: ReadonlyArray<{ flag: string; envVar: string }> = [
+  { flag: '--matrix', envVar: 'OMC_MATRIX' },
+  { flag: '--teams', envVar: 'OMC_TEAMS' },
+  { flag: '--ntfy', envVar: 'OMC_NTFY' },
+  { flag: '--gotify', envVar: 'OMC_GOTIFY' },
+  { flag: '--email', envVar: 'OMC_EMAIL' },
+];
+
 /**
  * Extract the OMC-specific --notify flag from launch args.
  * --notify false  → disable notifications (OMC_NOTIFY=0)
@@ -198,6 +207,28 @@ export function extractWebhookFlag(args: string[]): { webhookEnabled: boolean |
   return { webhookEnabled, remainingArgs };
 }
 
+/**
+ * Extract a presence-based notification platform flag from launch args
+ * (--matrix, --teams, --ntfy, --gotify, --email). Same forms as --webhook:
+ * bare flag enables, --flag=false / --flag=0 disables.
+ *
+ * This flag is stripped before passing args to Claude CLI.
+ */
+export function extractPlatformFlag(args: string[], flag: string): { enabled: boolean | undefined; remainingArgs: string[] } {
+  let enabled: boolean | undefined = undefined;
+  const remainingArgs: string[] = [];
+  for (const arg of args) {
+    if (arg === flag) { enabled = true; continue; }
+    if (arg.startsWith(`${flag}=`)) {
+      const val = arg.slice(flag.length + 1).toLowerCase();
+      enabled = val !== 'false' && val !== '0';
+      continue;
+    }
+    remainingArgs.push(arg);
+  }
+  return { enabled, remainingArgs };
+}
+
 /**
  * Normalize Claude launch arguments
  * Maps --madmax/--yolo to --dangerously-skip-permissions
@@ -404,6 +435,18 @@ export async function launchCommand(args: string[]): Promise<void> {
     process.env.OMC_WEBHOOK = '0';
   }
 
+  // Extract --matrix, --teams, --ntfy, --gotify, --email (presence-based)
+  let argsAfterPlatforms = argsAfterWebhook;
+  for (const { flag, envVar } of PLATFORM_FLAGS) {
+    const { enabled, remainingArgs: rest } = extractPlatformFlag(argsAfterPlatforms, flag);
+    if (enabled === true) {
+      process.env[envVar] = '1';
+    } else if (enabled === false) {
+      process.env[envVar] = '0';
+    }
+    argsAfterPlatforms = rest;
+  }
+
   const cwd = process.cwd();
 
   // Pre-flight: check for nested session
@@ -419,7 +462,7 @@ export async function launchCommand(args: string[]): Promise<void> {
     process.exit(1);
   }
 
-  const normalizedArgs = normalizeClaudeLaunchArgs(argsAfterWebhook);
+  const normalizedArgs = normalizeClaudeLaunchArgs(argsAfterPlatforms);
   const sessionId = `omc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
   // Phase 1: preLaunch
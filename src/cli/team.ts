@@ -9,10 +9,22 @@ import { killWorkerPanes } from '../team/tmux-session.js';
 import { validateTeamName } from '../team/team-name.js';
 import { monitorTeam, resumeTeam, shutdownTeam } from '../team/runtime.js';
 import { readTeamConfig } from '../team/monitor.js';
+import { isKnownCliAgentType, listCliAgentTypes } from '../team/model-contract.js';
+import { hasBudgetLimits, validateBudgetLimits, type TeamBudgetLimits } from '../team/budget-guard.js';
+import type { AutoscalePolicy, AutoscaleRequest } from '../team/scaling-policy.js';
+import {
+  openTeamReplay,
+  formatReplayEntry,
+  formatReplayState,
+  formatReplayDiff,
+  type ReplayCursor,
+  type ReplayDiff,
+  type ReplayEntry,
+  type ReplayState,
+} from '../team/replay.js';
 
 const JOB_ID_PATTERN = /^omc-[a-z0-9]{1,12}$/;
-const VALID_CLI_AGENT_TYPES = new Set(['claude', 'codex', 'gemini']);
-const SUBCOMMANDS = new Set(['start', 'status', 'wait', 'cleanup', 'resume', 'shutdown', 'api', 'help', '--help', '-h']);
+const SUBCOMMANDS = new Set(['start', 'status', 'wait', 'cleanup', 'resume', 'shutdown', 'replay', 'api', 'help', '--help', '-h']);
 
 const SUPPORTED_API_OPERATIONS = new Set([
   'send-message',
@@ -79,6 +91,9 @@ export interface TeamStartInput {
   pollIntervalMs?: number;
   sentinelGateTimeoutMs?: number;
   sentinelGatePollIntervalMs?: number;
+  budget?: TeamBudgetLimits;
+  /** Policy overrides, true to autoscale with the configured policy, false to opt out */
+  autoscale?: AutoscaleRequest;
 }
 
 export interface TeamStartResult {
@@ -275,11 +290,19 @@ function toInt(value: string, flag: string): number {
   return parsed;
 }
 
+function toNonNegativeNumber(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${flag} value: ${value}`);
+  }
+  return parsed;
+}
+
 function normalizeAgentType(value: string): string {
   const normalized = value.trim().toLowerCase();
   if (!normalized) throw new Error('Agent type cannot be empty');
-  if (!VALID_CLI_AGENT_TYPES.has(normalized)) {
-    throw new Error(`Unsupported agent type: ${value}`);
+  if (!isKnownCliAgentType(normalized)) {
+    throw new Error(`Unsupported agent type: ${value}. Supported: ${listCliAgentTypes().join(', ')}`);
   }
   return normalized;
 }
@@ -376,6 +399,8 @@ export async function startTeamJob(input: TeamStartInput): Promise<TeamStartResu
     pollIntervalMs: input.pollIntervalMs,
     sentinelGateTimeoutMs: input.sentinelGateTimeoutMs,
     sentinelGatePollIntervalMs: input.sentinelGatePollIntervalMs,
+    budget: input.budget,
+    autoscale: input.autoscale,
   };
 
   child.stdin.write(JSON.stringify(payload));
@@ -520,8 +545,29 @@ export async function teamStatusByTeamName(teamName: string, cwd = process.cwd()
   };
 }
 
-export async function teamResumeByName(teamName: string, cwd = process.cwd()): Promise<Record<string, unknown>> {
+export async function teamResumeByName(
+  teamName: string,
+  cwd = process.cwd(),
+  options: { dryRun?: boolean } = {},
+): Promise<Record<string, unknown>> {
   validateTeamName(teamName);
+
+  const runtimeV2 = await import('../team/runtime-v2.js');
+  if (runtimeV2.isRuntimeV2Enabled()) {
+    const recovery = await runtimeV2.recoverTeamV2(teamName, cwd, { dryRun: Boolean(options.dryRun) });
+    if (!recovery) {
+      return {
+        teamName,
+        resumed: false,
+        error: 'Team state not found',
+      };
+    }
+    return {
+      resumed: !recovery.dryRun,
+      ...recovery,
+    };
+  }
+
   const runtime = await resumeTeam(teamName, cwd);
   if (!runtime) {
     return {
@@ -590,6 +636,34 @@ export async function teamShutdownByName(teamName: string, options: { cwd?: stri
   };
 }
 
+export interface TeamReplayOptions {
+  cwd?: string;
+  /** Timeline index to reconstruct (default: last event) */
+  at?: number;
+  /** Diff between two indices */
+  from?: number;
+  to?: number;
+  /** Include the full event timeline */
+  timeline?: boolean;
+}
+
+export async function teamReplayByName(teamName: string, options: TeamReplayOptions = {}): Promise<Record<string, unknown>> {
+  validateTeamName(teamName);
+  const cursor = await openTeamReplay(teamName, options.cwd ?? process.cwd());
+  const { timeline } = cursor;
+
+  const result: Record<string, unknown> = { teamName, eventCount: timeline.length };
+  if (options.from != null || options.to != null) {
+    result.diff = cursor.diff(options.from ?? -1, options.to ?? timeline.length - 1);
+  } else {
+    if (options.at != null) cursor.seek(options.at);
+    result.state = cursor.state;
+    result.entry = cursor.entry;
+  }
+  if (options.timeline) result.timeline = timeline;
+  return result;
+}
+
 export async function executeTeamApiOperation(
   operation: string,
   input: Record<string, unknown>,
@@ -668,20 +742,27 @@ export async function teamCleanupCommand(
 export const TEAM_USAGE = `
 Usage:
   omc team start --agent <claude|codex|gemini>[,<agent>...] --task "<task>" [--count N] [--name TEAM] [--cwd DIR] [--json]
+                 [--max-wall-clock-ms MS] [--max-task-retries N] [--max-cost-usd USD]
+                 [--autoscale | --no-autoscale] [--autoscale-min N] [--autoscale-max N]
   omc team status <job_id|team_name> [--json] [--cwd DIR]
   omc team wait <job_id> [--timeout-ms MS] [--json]
   omc team cleanup <job_id> [--grace-ms MS] [--json]
-  omc team resume <team_name> [--json] [--cwd DIR]
+  omc team resume <team_name> [--dry-run] [--json] [--cwd DIR]
   omc team shutdown <team_name> [--force] [--json] [--cwd DIR]
+  omc team replay <team_name> [--at N | --from A --to B] [--timeline] [--step] [--json] [--cwd DIR]
   omc team api <operation> [--input '<json>'] [--json] [--cwd DIR]
   omc team [ralph] <N:agent-type[:role]> "task" [--json] [--cwd DIR]
 
 Examples:
   omc team start --agent codex --count 2 --task "review auth flow"
+  omc team start --agent claude --count 3 --task "migrate tests" --max-cost-usd 20 --max-wall-clock-ms 28800000
+  omc team start --agent claude --count 2 --task "triage flaky tests" --autoscale --autoscale-max 6
   omc team status omc-abc123
   omc team status auth-review
   omc team resume auth-review
   omc team shutdown auth-review --force
+  omc team replay auth-review --at 12
+  omc team replay auth-review --from 0 --to 40
   omc team api list-tasks --input '{"teamName":"auth-review"}' --json
   omc team 3:codex "refactor launch command"
 `.trim();
@@ -702,6 +783,9 @@ function parseStartArgs(args: string[]): StartArgsParsed {
   let pollIntervalMs: number | undefined;
   let sentinelGateTimeoutMs: number | undefined;
   let sentinelGatePollIntervalMs: number | undefined;
+  const budget: TeamBudgetLimits = {};
+  let autoscale: boolean | undefined;
+  const autoscalePolicy: Partial<AutoscalePolicy> = {};
 
   for (let i = 0; i < args.length; i += 1) {
     const token = args[i];
@@ -811,12 +895,81 @@ function parseStartArgs(args: string[]): StartArgsParsed {
       continue;
     }
 
+    if (token === '--max-wall-clock-ms') {
+      if (!next) throw new Error('Missing value after --max-wall-clock-ms');
+      budget.maxWallClockMs = toInt(next, '--max-wall-clock-ms');
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--max-wall-clock-ms=')) {
+      budget.maxWallClockMs = toInt(token.slice('--max-wall-clock-ms='.length), '--max-wall-clock-ms');
+      continue;
+    }
+
+    if (token === '--max-task-retries') {
+      if (!next) throw new Error('Missing value after --max-task-retries');
+      budget.maxTaskRetries = toInt(next, '--max-task-retries');
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--max-task-retries=')) {
+      budget.maxTaskRetries = toInt(token.slice('--max-task-retries='.length), '--max-task-retries');
+      continue;
+    }
+
+    if (token === '--max-cost-usd') {
+      if (!next) throw new Error('Missing value after --max-cost-usd');
+      budget.maxCostUsd = toNonNegativeNumber(next, '--max-cost-usd');
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--max-cost-usd=')) {
+      budget.maxCostUsd = toNonNegativeNumber(token.slice('--max-cost-usd='.length), '--max-cost-usd');
+      continue;
+    }
+
+    if (token === '--autoscale' || token === '--no-autoscale') {
+      autoscale = token === '--autoscale';
+      continue;
+    }
+
+    if (token === '--autoscale-min') {
+      if (!next) throw new Error('Missing value after --autoscale-min');
+      autoscalePolicy.minWorkers = toInt(next, '--autoscale-min');
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--autoscale-min=')) {
+      autoscalePolicy.minWorkers = toInt(token.slice('--autoscale-min='.length), '--autoscale-min');
+      continue;
+    }
+
+    if (token === '--autoscale-max') {
+      if (!next) throw new Error('Missing value after --autoscale-max');
+      autoscalePolicy.maxWorkers = toInt(next, '--autoscale-max');
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--autoscale-max=')) {
+      autoscalePolicy.maxWorkers = toInt(token.slice('--autoscale-max='.length), '--autoscale-max');
+      continue;
+    }
+
     throw new Error(`Unknown argument for "omc team start": ${token}`);
   }
 
   if (count < 1) throw new Error('--count must be >= 1');
+  const budgetErrors = validateBudgetLimits(budget);
+  if (budgetErrors.length > 0) throw new Error(`Invalid budget: ${budgetErrors.join('; ')}`);
   if (agentValues.length === 0) throw new Error('Missing required --agent');
   if (taskValues.length === 0) throw new Error('Missing required --task');
+  if (autoscale === false && Object.keys(autoscalePolicy).length > 0) {
+    throw new Error('Do not combine --no-autoscale with --autoscale-min or --autoscale-max');
+  }
+  // Policy flags imply --autoscale
+  const autoscaleRequest: AutoscaleRequest | undefined = Object.keys(autoscalePolicy).length > 0
+    ? autoscalePolicy
+    : autoscale;
 
   const agentTypes = agentValues.length === 1
     ? Array.from({ length: count }, () => agentValues[0])
@@ -849,6 +1002,8 @@ function parseStartArgs(args: string[]): StartArgsParsed {
       ...(pollIntervalMs != null ? { pollIntervalMs } : {}),
       ...(sentinelGateTimeoutMs != null ? { sentinelGateTimeoutMs } : {}),
       ...(sentinelGatePollIntervalMs != null ? { sentinelGatePollIntervalMs } : {}),
+      ...(hasBudgetLimits(budget) ? { budget } : {}),
+      ...(autoscaleRequest !== undefined ? { autoscale: autoscaleRequest } : {}),
     },
     json,
   };
@@ -948,11 +1103,13 @@ function parseTeamTargetArgs(args: string[], command: 'resume' | 'shutdown'): {
   json: boolean;
   cwd?: string;
   force?: boolean;
+  dryRun?: boolean;
 } {
   let teamName: string | undefined;
   let json = false;
   let cwd: string | undefined;
   let force = false;
+  let dryRun = false;
 
   for (let i = 0; i < args.length; i += 1) {
     const token = args[i];
@@ -980,6 +1137,10 @@ function parseTeamTargetArgs(args: string[], command: 'resume' | 'shutdown'): {
       force = true;
       continue;
     }
+    if (command === 'resume' && token === '--dry-run') {
+      dryRun = true;
+      continue;
+    }
 
     throw new Error(`Unknown argument for "omc team ${command}": ${token}`);
   }
@@ -993,9 +1154,156 @@ function parseTeamTargetArgs(args: string[], command: 'resume' | 'shutdown'): {
     json,
     ...(cwd ? { cwd } : {}),
     ...(command === 'shutdown' ? { force } : {}),
+    ...(command === 'resume' ? { dryRun } : {}),
   };
 }
 
+function parseReplayArgs(args: string[]): {
+  teamName: string;
+  json: boolean;
+  step: boolean;
+  options: TeamReplayOptions;
+} {
+  let teamName: string | undefined;
+  let json = false;
+  let step = false;
+  const options: TeamReplayOptions = {};
+
+  const readIndex = (flag: string, value: string | undefined): number => {
+    if (value == null) throw new Error(`Missing value after ${flag}`);
+    return toInt(value, flag);
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const token = args[i];
+    const next = args[i + 1];
+
+    if (!token.startsWith('-') && !teamName) {
+      teamName = token;
+      continue;
+    }
+    if (token === '--json') {
+      json = true;
+      continue;
+    }
+    if (token === '--step') {
+      step = true;
+      continue;
+    }
+    if (token === '--timeline') {
+      options.timeline = true;
+      continue;
+    }
+    if (token === '--cwd') {
+      if (!next) throw new Error('Missing value after --cwd');
+      options.cwd = next;
+      i += 1;
+      continue;
+    }
+    if (token.startsWith('--cwd=')) {
+      options.cwd = token.slice('--cwd='.length);
+      continue;
+    }
+
+    const indexFlag = (['--at', '--from', '--to'] as const).find(
+      (flag) => token === flag || token.startsWith(`${flag}=`),
+    );
+    if (indexFlag) {
+      const inline = token.startsWith(`${indexFlag}=`);
+      const value = readIndex(indexFlag, inline ? token.slice(indexFlag.length + 1) : next);
+      if (!inline) i += 1;
+      options[indexFlag.slice(2) as 'at' | 'from' | 'to'] = value;
+      continue;
+    }
+
+    throw new Error(`Unknown argument for "omc team replay": ${token}`);
+  }
+
+  if (!teamName) {
+    throw new Error('Missing required <team_name> for "omc team replay".');
+  }
+  if (options.at != null && (options.from != null || options.to != null)) {
+    throw new Error('Use either --at or --from/--to for "omc team replay", not both.');
+  }
+
+  return { teamName, json, step, options };
+}
+
+const REPLAY_STEP_HELP = 'Commands: [enter]/n next, p prev, g <N> goto, d <A> <B> diff, q quit';
+
+/** Interactive step-through over a team timeline (reads commands from stdin). */
+async function runReplayStepper(cursor: ReplayCursor, start?: number): Promise<void> {
+  const { createInterface } = await import('readline');
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: 'replay> ' });
+  const total = cursor.timeline.length;
+  const show = () => {
+    if (cursor.entry) console.log(formatReplayEntry(cursor.entry));
+    console.log(formatReplayState(cursor.state, total));
+  };
+
+  cursor.seek(start ?? -1);
+  console.log(REPLAY_STEP_HELP);
+  show();
+  rl.prompt();
+  try {
+    // The line iterator buffers piped input and ends cleanly on EOF
+    for await (const line of rl) {
+      const [command = 'n', ...argv] = line.trim().split(/\s+/).filter(Boolean);
+      if (command === 'q' || command === 'quit') return;
+      if (command === 'n' || command === 'next') {
+        const before = cursor.index;
+        cursor.forward();
+        if (cursor.index === before) console.log('(end of timeline)');
+        show();
+      } else if (command === 'p' || command === 'prev') {
+        cursor.back();
+        show();
+      } else if ((command === 'g' || command === 'goto') && /^-?\d+$/.test(argv[0] ?? '')) {
+        cursor.seek(Number(argv[0]));
+        show();
+      } else if ((command === 'd' || command === 'diff') && argv.length === 2 && argv.every((a) => /^-?\d+$/.test(a))) {
+        console.log(formatReplayDiff(cursor.diff(Number(argv[0]), Number(argv[1]))));
+      } else {
+        console.log(REPLAY_STEP_HELP);
+      }
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+export async function teamReplayCommand(
+  teamName: string,
+  options: TeamReplayOptions = {},
+  outputOptions: { json?: boolean; step?: boolean } = {},
+): Promise<void> {
+  if (outputOptions.step) {
+    validateTeamName(teamName);
+    const cursor = await openTeamReplay(teamName, options.cwd ?? process.cwd());
+    await runReplayStepper(cursor, options.at);
+    return;
+  }
+
+  const result = await teamReplayByName(teamName, options);
+  if (outputOptions.json) {
+    output(result, true);
+    return;
+  }
+
+  const lines: string[] = [];
+  const timeline = (result.timeline as ReplayEntry[] | undefined) ?? [];
+  for (const entry of timeline) lines.push(formatReplayEntry(entry));
+  if (timeline.length > 0) lines.push('');
+  if (result.diff) {
+    lines.push(formatReplayDiff(result.diff as ReplayDiff));
+  } else {
+    if (result.entry) lines.push(formatReplayEntry(result.entry as ReplayEntry));
+    lines.push(formatReplayState(result.state as ReplayState, result.eventCount as number));
+  }
+  console.log(lines.join('\n'));
+}
+
 function parseApiArgs(args: string[]): {
   operation: string;
   input: Record<string, unknown>;
@@ -1158,7 +1466,7 @@ export async function teamCommand(argv: string[]): Promise<void> {
 
   if (command === 'resume') {
     const parsed = parseTeamTargetArgs(rest, 'resume');
-    const result = await teamResumeByName(parsed.teamName, parsed.cwd ?? process.cwd());
+    const result = await teamResumeByName(parsed.teamName, parsed.cwd ?? process.cwd(), { dryRun: parsed.dryRun });
     output(result, parsed.json);
     return;
   }
@@ -1173,6 +1481,12 @@ export async function teamCommand(argv: string[]): Promise<void> {
     return;
   }
 
+  if (command === 'replay') {
+    const parsed = parseReplayArgs(rest);
+    await teamReplayCommand(parsed.teamName, parsed.options, { json: parsed.json, step: parsed.step });
+    return;
+  }
+
   if (command === 'api') {
     if (rest.length === 0 || rest[0] === 'help' || rest[0] === '--help' || rest[0] === '-h') {
       console.log(TEAM_API_USAGE);
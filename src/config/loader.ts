@@ -137,6 +137,14 @@ export const DEFAULT_CONFIG: PluginConfig = {
     largeWordLimit: 200,
     suppressHeavyModesForSmallTasks: true,
   },
+  // Shared token budget for injected context
+  contextBudget: {
+    enabled: true,
+    maxTokensPerInjection: 6000,
+    maxSessionTokens: 40000,
+    compactionThreshold: 0.85,
+    lowHeadroomTurns: 5,
+  },
 };
 
 /**
@@ -719,6 +727,146 @@ export function generateConfigSchema(): object {
             }
           }
         }
+      },
+      keywords: {
+        type: 'object',
+        description: 'User-defined magic keywords for the keyword-detector hook',
+        properties: {
+          disabled: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Built-in keywords to turn off (e.g. "tdd")'
+          },
+          custom: {
+            type: 'object',
+            description: 'Custom keywords keyed by name. Set triggers or pattern, and exactly one of skill, prompt or mode',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                triggers: { type: 'array', items: { type: 'string' }, description: 'Words or phrases matched case-insensitively on word boundaries' },
+                pattern: { type: 'string', description: 'Case-insensitive regular expression, instead of triggers' },
+                skill: { type: 'string', description: 'Skill to invoke' },
+                args: { type: 'string', description: 'Arguments for the skill' },
+                prompt: { type: 'string', description: 'Text injected into context' },
+                mode: { type: 'string', description: 'Built-in mode to activate (e.g. ralph)' },
+                priority: { type: 'number', default: 500, description: 'Lower wins; built-ins are 10, 20, 30, ... (cancel, ralph, autopilot, ...)' },
+                heavy: { type: 'boolean', default: false, description: 'Suppress for small tasks' },
+                exclusive: { type: 'boolean', default: false, description: 'Suppress every lower-priority keyword when matched' },
+                enabled: { type: 'boolean', default: true },
+                description: { type: 'string' }
+              }
+            }
+          }
+        }
+      },
+      pipeline: {
+        type: 'object',
+        description: 'Autopilot pipeline stage order and custom stages',
+        properties: {
+          stages: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Ordered stage ids: ralplan, execution, ralph, qa or a custom stage id'
+          },
+          custom: {
+            type: 'object',
+            description: 'Custom stages keyed by id, run by the generic stage adapter',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                prompt: { type: 'string', description: 'Stage instructions; supports {{idea}}, {{directory}}, {{specPath}}, {{planPath}}' },
+                signal: { type: 'string', description: 'Completion signal (UPPER_SNAKE_CASE). Default: PIPELINE_<ID>_COMPLETE' },
+                skipIf: {
+                  type: 'object',
+                  properties: {
+                    env: { type: 'string', description: 'Skip when this environment variable is set' },
+                    missingFile: { type: 'string', description: 'Skip when this project file does not exist' }
+                  }
+                },
+                verify: {
+                  type: 'object',
+                  properties: {
+                    command: { type: 'string', description: 'Must exit 0 before the stage can complete' },
+                    timeoutSeconds: { type: 'number', default: 600 }
+                  },
+                  required: ['command']
+                }
+              },
+              required: ['prompt']
+            }
+          }
+        }
+      },
+      cliWorkers: {
+        type: 'object',
+        description: 'Custom CLI worker contracts for omc team, keyed by agent type',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            binary: { type: 'string', description: 'Command name on PATH or absolute path' },
+            installInstructions: { type: 'string' },
+            launchArgs: { type: 'array', items: { type: 'string' } },
+            modelFlag: { type: 'string', description: 'Flag used to pass the model, e.g. --model' },
+            supportsPromptMode: { type: 'boolean', default: false },
+            promptModeFlag: { type: 'string' },
+            outputParser: { type: 'string', enum: ['text', 'jsonl-last-message', 'json-field'], default: 'text' },
+            outputField: { type: 'string', default: 'result' },
+            capabilities: { type: 'array', items: { type: 'string' } }
+          },
+          required: ['binary']
+        }
+      },
+      contextBudget: {
+        type: 'object',
+        description: 'Shared token budget for context injected by hooks',
+        properties: {
+          enabled: { type: 'boolean', default: true },
+          maxTokensPerInjection: { type: 'number', default: 6000, description: 'Tokens a single injection may add' },
+          maxSessionTokens: { type: 'number', default: 40000, description: 'Tokens all injectors may add between compactions' },
+          compactionThreshold: { type: 'number', default: 0.85, description: 'Context usage ratio at which compaction is expected' },
+          lowHeadroomTurns: { type: 'number', default: 5, description: 'Below this many predicted turns before compaction, inject only critical and high priority context' }
+        }
+      },
+      costAccounting: {
+        type: 'object',
+        description: 'Team cost accounting: token estimates and model price overrides',
+        properties: {
+          charsPerToken: {
+            type: 'number',
+            default: 4,
+            description: 'Characters per token when a CLI does not report usage'
+          },
+          prices: {
+            type: 'object',
+            description: 'USD per million tokens, keyed by model name or prefix',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                input: { type: 'number' },
+                output: { type: 'number' },
+                cacheRead: { type: 'number' },
+                cacheWrite: { type: 'number' }
+              },
+              required: ['input', 'output']
+            }
+          }
+        }
+      },
+      teamAutoscale: {
+        type: 'object',
+        description: 'Policy-driven autoscaling of omc team workers (also requires OMC_TEAM_SCALING_ENABLED=1)',
+        properties: {
+          enabled: { type: 'boolean', default: false, description: 'Autoscale every team started by omc team start or omc_run_team_start' },
+          minWorkers: { type: 'number', default: 1 },
+          maxWorkers: { type: 'number', default: 20, description: 'Also capped by the team\'s max_workers' },
+          tasksPerWorker: { type: 'number', default: 2, description: 'Ready tasks per healthy worker before adding capacity' },
+          scaleUpStep: { type: 'number', default: 2, description: 'Maximum workers added in one cycle' },
+          idleDrainAfterMs: { type: 'number', default: 300000, description: 'Drain a worker idle this long with no ready work' },
+          cooldownMs: { type: 'number', default: 60000, description: 'Minimum time between two scaling actions' },
+          workerHourlyCostUsd: { type: 'number', description: 'Estimated cost of one running worker per hour' },
+          maxHourlyCostUsd: { type: 'number', description: 'Hourly budget for the whole team; requires workerHourlyCostUsd' }
+        }
       }
     }
   };
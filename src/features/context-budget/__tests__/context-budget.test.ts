@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CLAUDE_DEFAULT_CONTEXT_LIMIT } from '../../../hooks/preemptive-compaction/constants.js';
+import {
+  allocateBudget,
+  applyContextBudget,
+  forecastCompaction,
+  planContextBudget,
+  readContextBudgetLedger,
+  readTranscriptUsage,
+  resetContextBudgetLedger,
+  DEFAULT_CONTEXT_BUDGET_CONFIG,
+} from '../index.js';
+import type { ContextCandidate } from '../types.js';
+
+const paragraph = (word: string) => `${word} `.repeat(40).trim();
+
+describe('context budget', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omc-context-budget-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function writeTranscript(usedTokens: number): string {
+    const path = join(cwd, 'transcript.jsonl');
+    writeFileSync(path, [
+      JSON.stringify({ type: 'user', message: { content: 'hi' } }),
+      JSON.stringify({ type: 'assistant', message: { usage: { input_tokens: usedTokens - 100, output_tokens: 100 } } }),
+      '',
+    ].join('\n'));
+    return path;
+  }
+
+  describe('planContextBudget', () => {
+    it('takes candidates in priority order and drops what does not fit', () => {
+      const candidates: ContextCandidate[] = [
+        { source: 'learner', id: 'low', content: 'x'.repeat(400), priority: 'low' },
+        { source: 'rules-injector', id: 'high', content: 'y'.repeat(400), priority: 'high' },
+      ];
+      const plan = planContextBudget(candidates, { budgetTokens: 150, minPriority: 'low' });
+      expect(plan.included.map((e) => e.id)).toEqual(['high']);
+      expect(plan.dropped).toMatchObject([{ id: 'low', reason: 'budget', tokens: 100 }]);
+      expect(plan.usedTokens).toBe(100);
+    });
+
+    it('always includes critical candidates', () => {
+      const plan = planContextBudget(
+        [{ source: 'session-restore', id: 'ralph', content: 'z'.repeat(4000), priority: 'critical' }],
+        { budgetTokens: 0, minPriority: 'high' }
+      );
+      expect(plan.included).toHaveLength(1);
+      expect(plan.dropped).toEqual([]);
+    });
+
+    it('drops paragraphs another source already injected', () => {
+      const shared = paragraph('shared');
+      const plan = planContextBudget([
+        { source: 'directory-agents', id: 'AGENTS.md', content: `# Agents\n\n${shared}` },
+        { source: 'directory-readme', id: 'README.md', content: `# Readme\n\n${shared}\n\n${paragraph('unique')}` },
+        { source: 'project-memory', id: 'copy', content: shared },
+      ], { budgetTokens: 5000, minPriority: 'low' });
+
+      expect(plan.included.map((e) => e.id)).toEqual(['AGENTS.md', 'README.md']);
+      expect(plan.included[1].content).toBe(`# Readme\n\n${paragraph('unique')}`);
+      expect(plan.dropped).toMatchObject([{ id: 'copy', reason: 'duplicate' }]);
+    });
+
+    it('trims trimmable candidates to the remaining budget', () => {
+      const content = Array.from({ length: 200 }, (_, i) => `line ${i} ${'w'.repeat(30)}`).join('\n');
+      const plan = planContextBudget(
+        [{ source: 'rules-injector', id: 'rules', content, trimmable: true }],
+        { budgetTokens: 300, minPriority: 'low' }
+      );
+      expect(plan.included[0].trimmed).toBe(true);
+      expect(plan.included[0].tokens).toBeLessThanOrEqual(300);
+      expect(plan.included[0].content).toMatch(/\[\.\.\. truncated by context budget\]$/);
+      expect(plan.dropped).toMatchObject([{ id: 'rules', reason: 'trimmed' }]);
+    });
+
+    it('drops candidates below the minimum priority', () => {
+      const plan = planContextBudget(
+        [{ source: 'learner', id: 'skill', content: 'skill body', priority: 'normal' }],
+        { budgetTokens: 1000, minPriority: 'high' }
+      );
+      expect(plan.included).toEqual([]);
+      expect(plan.dropped).toMatchObject([{ id: 'skill', reason: 'low-headroom' }]);
+    });
+  });
+
+  describe('forecast and allocation', () => {
+    it('predicts turns until compaction from usage growth', () => {
+      const samples = [
+        { at: '', usedTokens: 100_000 },
+        { at: '', usedTokens: 110_000 },
+        // Compaction: earlier samples no longer count
+        { at: '', usedTokens: 40_000 },
+        { at: '', usedTokens: 60_000 },
+      ];
+      const forecast = forecastCompaction(80_000, 200_000, samples, 0.85);
+      expect(forecast.tokensPerTurn).toBe(20_000);
+      expect(forecast.headroomTokens).toBe(90_000);
+      expect(forecast.turnsUntilCompaction).toBe(4);
+    });
+
+    it('restricts injection to high priority when compaction is near', () => {
+      const forecast = forecastCompaction(150_000, 200_000, [{ at: '', usedTokens: 130_000 }], 0.85);
+      const allocation = allocateBudget(DEFAULT_CONTEXT_BUDGET_CONFIG, { injectedTokens: 0 }, forecast);
+      expect(allocation.minPriority).toBe('high');
+      expect(allocation.budgetTokens).toBe(2000);
+    });
+
+    it('caps the budget by the tokens left for the session', () => {
+      const allocation = allocateBudget(DEFAULT_CONTEXT_BUDGET_CONFIG, { injectedTokens: 39_000 }, null);
+      expect(allocation).toEqual({ budgetTokens: 1000, minPriority: 'low' });
+    });
+  });
+
+  describe('applyContextBudget', () => {
+    it('records injections and deduplicates across hooks until compaction', () => {
+      const rules: ContextCandidate = { source: 'rules-injector', id: 'style.md', content: paragraph('rule') };
+
+      const first = applyContextBudget(cwd, 'session-1', [rules], { config: { enabled: true } });
+      expect(first.merged).toBe(rules.content);
+
+      const ledger = readContextBudgetLedger(cwd, 'session-1');
+      expect(ledger.bySource).toEqual({ 'rules-injector': first.usedTokens });
+      expect(ledger.hashes.length).toBeGreaterThan(0);
+
+      const second = applyContextBudget(cwd, 'session-1', [rules], { config: { enabled: true } });
+      expect(second.merged).toBe('');
+      expect(readContextBudgetLedger(cwd, 'session-1').dropped).toMatchObject([{ id: 'style.md', reason: 'duplicate' }]);
+
+      resetContextBudgetLedger(cwd, 'session-1');
+      const reset = readContextBudgetLedger(cwd, 'session-1');
+      expect(reset).toMatchObject({ injectedTokens: 0, hashes: [], compactions: 1 });
+      expect(reset.dropped).toHaveLength(1);
+
+      const third = applyContextBudget(cwd, 'session-1', [rules], { config: { enabled: true } });
+      expect(third.merged).toBe(rules.content);
+    });
+
+    it('uses transcript usage to drop normal priority context near compaction', () => {
+      const transcriptPath = writeTranscript(Math.floor(CLAUDE_DEFAULT_CONTEXT_LIMIT * 0.9));
+      const plan = applyContextBudget(cwd, 'session-2', [
+        { source: 'session-restore', id: 'ralph', content: 'keep going', priority: 'critical' },
+        { source: 'learner', id: 'skill', content: 'skill body' },
+      ], { transcriptPath, config: { enabled: true } });
+
+      expect(plan.forecast?.usageRatio).toBeCloseTo(0.9);
+      expect(plan.included.map((e) => e.id)).toEqual(['ralph']);
+      expect(plan.dropped).toMatchObject([{ id: 'skill', reason: 'low-headroom' }]);
+      expect(readContextBudgetLedger(cwd, 'session-2').usageSamples).toHaveLength(1);
+    });
+
+    it('injects everything when disabled', () => {
+      const plan = applyContextBudget(cwd, 'session-3', [
+        { source: 'learner', id: 'a', content: 'x'.repeat(40_000) },
+      ], { config: { enabled: false } });
+      expect(plan.included).toHaveLength(1);
+      expect(readContextBudgetLedger(cwd, 'session-3').injectedTokens).toBe(0);
+    });
+  });
+
+  it('reads the latest usage from a transcript', () => {
+    expect(readTranscriptUsage(writeTranscript(12_345))).toBe(12_345);
+    expect(readTranscriptUsage(join(cwd, 'missing.jsonl'))).toBeNull();
+  });
+});
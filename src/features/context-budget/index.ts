@@ -0,0 +1,190 @@
+/**
+ * Context Budget Module
+ *
+ * Shared token budget for every hook that injects context. Injectors hand
+ * their candidates to applyContextBudget(), which:
+ *
+ * - forecasts compaction from the transcript's reported usage,
+ * - sizes the injection from the per-injection and per-session limits and
+ *   the headroom left before compaction,
+ * - drops content another source (or an earlier hook) already injected,
+ * - takes candidates by priority, trimming or dropping what does not fit,
+ * - records injected hashes, token totals and drops in a per-session ledger.
+ *
+ * The ledger is reset on PreCompact so context can be injected again after
+ * the conversation is summarized.
+ */
+
+import { loadConfig } from '../../config/loader.js';
+import { CLAUDE_DEFAULT_CONTEXT_LIMIT, DEFAULT_THRESHOLD } from '../../hooks/preemptive-compaction/constants.js';
+import { validateSessionId } from '../../lib/worktree-paths.js';
+import type { ContextCollector } from '../context-injector/collector.js';
+import {
+  readContextBudgetLedger,
+  readTranscriptUsage,
+  recordInjection,
+  writeContextBudgetLedger,
+} from './ledger.js';
+import {
+  CONTEXT_SEPARATOR,
+  allocateBudget,
+  forecastCompaction,
+  planContextBudget,
+} from './planner.js';
+import { estimateTokens } from '../../hooks/preemptive-compaction/index.js';
+import type {
+  ContextBudgetConfig,
+  ContextBudgetPlan,
+  ContextCandidate,
+  ContextForecast,
+} from './types.js';
+
+export const DEFAULT_CONTEXT_BUDGET_CONFIG: ContextBudgetConfig = {
+  enabled: true,
+  maxTokensPerInjection: 6000,
+  maxSessionTokens: 40000,
+  compactionThreshold: DEFAULT_THRESHOLD,
+  lowHeadroomTurns: 5,
+};
+
+/**
+ * Budget settings from the plugin config, over the defaults
+ */
+export function getContextBudgetConfig(): ContextBudgetConfig {
+  try {
+    return { ...DEFAULT_CONTEXT_BUDGET_CONFIG, ...(loadConfig().contextBudget ?? {}) };
+  } catch {
+    return DEFAULT_CONTEXT_BUDGET_CONFIG;
+  }
+}
+
+export interface ApplyContextBudgetOptions {
+  /** Transcript to read current context usage from */
+  transcriptPath?: string;
+  /** Overrides for the configured budget */
+  config?: Partial<ContextBudgetConfig>;
+  now?: Date;
+}
+
+function hasLedger(sessionId: string | undefined): sessionId is string {
+  if (!sessionId) return false;
+  try {
+    validateSessionId(sessionId);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Plan one injection against the session's budget and record the result.
+ * Without a valid session ID the budget still applies, but nothing is
+ * remembered across hooks.
+ */
+export function applyContextBudget(
+  directory: string,
+  sessionId: string | undefined,
+  candidates: ContextCandidate[],
+  options: ApplyContextBudgetOptions = {}
+): ContextBudgetPlan {
+  const config = { ...getContextBudgetConfig(), ...options.config };
+  const now = options.now ?? new Date();
+
+  if (!config.enabled) {
+    const included = candidates
+      .filter((c) => c.content.trim())
+      .map((c) => ({
+        source: c.source,
+        id: c.id,
+        priority: c.priority ?? 'normal',
+        content: c.content,
+        tokens: estimateTokens(c.content),
+        trimmed: false,
+      }));
+    const usedTokens = included.reduce((sum, e) => sum + e.tokens, 0);
+    return {
+      included,
+      dropped: [],
+      usedTokens,
+      budgetTokens: usedTokens,
+      merged: included.map((e) => e.content).join(CONTEXT_SEPARATOR),
+      forecast: null,
+    };
+  }
+
+  const persistent = hasLedger(sessionId);
+  const ledger = persistent
+    ? readContextBudgetLedger(directory, sessionId)
+    : { sessionId: '', injectedTokens: 0, bySource: {}, hashes: [], dropped: [], usageSamples: [], compactions: 0, updatedAt: '' };
+
+  const usedTokens = readTranscriptUsage(options.transcriptPath);
+  const forecast: ContextForecast | null = usedTokens === null
+    ? null
+    : forecastCompaction(usedTokens, CLAUDE_DEFAULT_CONTEXT_LIMIT, ledger.usageSamples, config.compactionThreshold);
+
+  const { budgetTokens, minPriority } = allocateBudget(config, ledger, forecast);
+  const plan = planContextBudget(candidates, {
+    budgetTokens,
+    minPriority,
+    seenHashes: ledger.hashes,
+    now,
+  });
+
+  if (persistent) {
+    const sample = usedTokens === null ? undefined : { at: now.toISOString(), usedTokens };
+    writeContextBudgetLedger(directory, recordInjection(ledger, plan.included, plan.dropped, plan.newHashes, sample));
+  }
+
+  return {
+    included: plan.included,
+    dropped: plan.dropped,
+    usedTokens: plan.usedTokens,
+    budgetTokens,
+    merged: plan.included.map((e) => e.content).join(CONTEXT_SEPARATOR),
+    forecast,
+  };
+}
+
+/**
+ * Consume everything registered with a context collector for the session
+ * and plan it against the budget.
+ */
+export function consumeBudgetedContext(
+  collector: ContextCollector,
+  directory: string,
+  sessionId: string,
+  options: ApplyContextBudgetOptions = {}
+): ContextBudgetPlan {
+  const pending = collector.consume(sessionId);
+  return applyContextBudget(
+    directory,
+    sessionId,
+    pending.entries.map((entry) => ({
+      source: entry.source,
+      id: entry.id,
+      content: entry.content,
+      priority: entry.priority,
+      trimmable: entry.trimmable,
+    })),
+    options
+  );
+}
+
+export {
+  readContextBudgetLedger,
+  writeContextBudgetLedger,
+  resetContextBudgetLedger,
+  getContextBudgetLedgerPath,
+  readTranscriptUsage,
+} from './ledger.js';
+export { planContextBudget, forecastCompaction, allocateBudget, contentHash } from './planner.js';
+export type {
+  ContextBudgetConfig,
+  ContextBudgetLedger,
+  ContextBudgetPlan,
+  ContextCandidate,
+  ContextForecast,
+  DroppedContext,
+  DropReason,
+  PlannedContext,
+} from './types.js';
@@ -0,0 +1,138 @@
+/**
+ * Context Budget Ledger
+ *
+ * Hooks run as separate processes, so the budget state they share lives in
+ * a per-session file: what was injected (as hashes, never content), how
+ * many tokens each source used and what was dropped.
+ */
+
+import { closeSync, existsSync, openSync, readFileSync, readSync, statSync } from 'fs';
+import { atomicWriteJsonSync } from '../../lib/atomic-write.js';
+import { resolveSessionStatePath } from '../../lib/worktree-paths.js';
+import type { ContextBudgetLedger, DroppedContext, UsageSample } from './types.js';
+
+const LEDGER_STATE_NAME = 'context-budget';
+const MAX_HASHES = 2000;
+const MAX_DROPPED = 50;
+const MAX_USAGE_SAMPLES = 20;
+
+/** Bytes read from the end of the transcript to find the latest usage */
+const TRANSCRIPT_TAIL_BYTES = 64 * 1024;
+
+export function getContextBudgetLedgerPath(directory: string, sessionId: string): string {
+  return resolveSessionStatePath(LEDGER_STATE_NAME, sessionId, directory);
+}
+
+function emptyLedger(sessionId: string): ContextBudgetLedger {
+  return {
+    sessionId,
+    injectedTokens: 0,
+    bySource: {},
+    hashes: [],
+    dropped: [],
+    usageSamples: [],
+    compactions: 0,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the session's ledger (an empty one when missing or unreadable)
+ */
+export function readContextBudgetLedger(directory: string, sessionId: string): ContextBudgetLedger {
+  const ledgerPath = getContextBudgetLedgerPath(directory, sessionId);
+  if (!existsSync(ledgerPath)) return emptyLedger(sessionId);
+  try {
+    const parsed = JSON.parse(readFileSync(ledgerPath, 'utf-8')) as Partial<ContextBudgetLedger>;
+    return { ...emptyLedger(sessionId), ...parsed, sessionId };
+  } catch {
+    return emptyLedger(sessionId);
+  }
+}
+
+export function writeContextBudgetLedger(directory: string, ledger: ContextBudgetLedger): void {
+  const bounded: ContextBudgetLedger = {
+    ...ledger,
+    hashes: ledger.hashes.slice(-MAX_HASHES),
+    dropped: ledger.dropped.slice(-MAX_DROPPED),
+    usageSamples: ledger.usageSamples.slice(-MAX_USAGE_SAMPLES),
+    updatedAt: new Date().toISOString(),
+  };
+  atomicWriteJsonSync(getContextBudgetLedgerPath(directory, ledger.sessionId), bounded);
+}
+
+/**
+ * Fold one injection into the ledger
+ */
+export function recordInjection(
+  ledger: ContextBudgetLedger,
+  injected: Array<{ source: string; tokens: number }>,
+  dropped: DroppedContext[],
+  newHashes: string[],
+  sample?: UsageSample
+): ContextBudgetLedger {
+  const bySource = { ...ledger.bySource };
+  let injectedTokens = ledger.injectedTokens;
+  for (const entry of injected) {
+    bySource[entry.source] = (bySource[entry.source] ?? 0) + entry.tokens;
+    injectedTokens += entry.tokens;
+  }
+  return {
+    ...ledger,
+    injectedTokens,
+    bySource,
+    hashes: [...ledger.hashes, ...newHashes],
+    dropped: [...ledger.dropped, ...dropped],
+    usageSamples: sample ? [...ledger.usageSamples, sample] : ledger.usageSamples,
+  };
+}
+
+/**
+ * Start a fresh budget after compaction: injected content was summarized
+ * away, so it may be injected again. Drops are kept for inspection.
+ */
+export function resetContextBudgetLedger(directory: string, sessionId: string): void {
+  const ledger = readContextBudgetLedger(directory, sessionId);
+  writeContextBudgetLedger(directory, {
+    ...emptyLedger(sessionId),
+    dropped: ledger.dropped,
+    compactions: ledger.compactions + 1,
+  });
+}
+
+/**
+ * Tokens in context as of the last assistant message in the transcript,
+ * or null when the transcript reports no usage.
+ */
+export function readTranscriptUsage(transcriptPath: string | undefined): number | null {
+  if (!transcriptPath || !existsSync(transcriptPath)) return null;
+
+  let fd = -1;
+  try {
+    const size = statSync(transcriptPath).size;
+    const length = Math.min(size, TRANSCRIPT_TAIL_BYTES);
+    if (length === 0) return null;
+    const buffer = Buffer.alloc(length);
+    fd = openSync(transcriptPath, 'r');
+    readSync(fd, buffer, 0, length, size - length);
+
+    const lines = buffer.toString('utf-8').split('\n');
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!lines[i].includes('"usage"')) continue;
+      try {
+        const entry = JSON.parse(lines[i]) as { message?: { usage?: Record<string, unknown> } };
+        const usage = entry.message?.usage;
+        if (!usage) continue;
+        const count = (key: string) => (typeof usage[key] === 'number' ? (usage[key] as number) : 0);
+        return count('input_tokens') + count('cache_read_input_tokens') + count('cache_creation_input_tokens') + count('output_tokens');
+      } catch {
+        // First line of the tail is usually cut mid-record
+      }
+    }
+    return null;
+  } catch {
+    return null;
+  } finally {
+    if (fd !== -1) closeSync(fd);
+  }
+}
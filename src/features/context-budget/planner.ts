@@ -0,0 +1,230 @@
+/**
+ * Context Budget Planner
+ *
+ * Pure planning: forecast when the session will compact, size the budget
+ * for one injection, then pick candidates by priority, dropping content
+ * that was already injected (whole or paragraph by paragraph) and trimming
+ * or dropping what does not fit.
+ */
+
+import { createHash } from 'crypto';
+import { estimateTokens } from '../../hooks/preemptive-compaction/index.js';
+import { CHARS_PER_TOKEN } from '../../hooks/preemptive-compaction/constants.js';
+import type { ContextPriority } from '../context-injector/types.js';
+import type {
+  ContextBudgetConfig,
+  ContextBudgetLedger,
+  ContextCandidate,
+  ContextForecast,
+  DroppedContext,
+  PlannedContext,
+  UsageSample,
+} from './types.js';
+
+/** Priority ordering - lower number = higher priority */
+const PRIORITY_ORDER: Record<ContextPriority, number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+/** Separator between merged context entries (matches the context collector) */
+export const CONTEXT_SEPARATOR = '\n\n---\n\n';
+
+/** Paragraphs shorter than this are headers or glue and never deduplicated */
+const MIN_DEDUP_BLOCK_CHARS = 80;
+
+/** Trimming below this many tokens leaves nothing useful */
+const MIN_TRIM_TOKENS = 200;
+
+/** Share of the headroom before compaction one injection may use */
+const HEADROOM_SHARE = 0.1;
+
+/** Usage samples used to estimate growth per turn */
+const GROWTH_WINDOW = 5;
+
+/**
+ * Hash normalized text so whitespace differences do not defeat deduplication
+ */
+export function contentHash(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+function splitBlocks(content: string): string[] {
+  return content.split(/\n[ \t]*\n/);
+}
+
+/**
+ * Average growth per turn over the recent samples. A drop in usage means
+ * the session compacted, so only samples after the last drop count.
+ */
+function averageGrowth(samples: UsageSample[]): number | null {
+  let start = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].usedTokens < samples[i - 1].usedTokens) start = i;
+  }
+  const recent = samples.slice(start).slice(-(GROWTH_WINDOW + 1));
+  if (recent.length < 2) return null;
+  const growth = (recent[recent.length - 1].usedTokens - recent[0].usedTokens) / (recent.length - 1);
+  return growth > 0 ? growth : null;
+}
+
+/**
+ * Predict how many turns are left before the session reaches the
+ * compaction threshold.
+ */
+export function forecastCompaction(
+  usedTokens: number,
+  contextLimit: number,
+  samples: UsageSample[],
+  compactionThreshold: number
+): ContextForecast {
+  const headroomTokens = Math.max(0, Math.floor(contextLimit * compactionThreshold) - usedTokens);
+  const tokensPerTurn = averageGrowth([...samples, { at: '', usedTokens }]);
+  return {
+    usedTokens,
+    contextLimit,
+    usageRatio: contextLimit > 0 ? usedTokens / contextLimit : 0,
+    headroomTokens,
+    tokensPerTurn: tokensPerTurn === null ? null : Math.round(tokensPerTurn),
+    turnsUntilCompaction: tokensPerTurn === null ? null : Math.floor(headroomTokens / tokensPerTurn),
+  };
+}
+
+/**
+ * Tokens and the lowest priority one injection may use. Without a
+ * forecast only the configured limits apply.
+ */
+export function allocateBudget(
+  config: ContextBudgetConfig,
+  ledger: Pick<ContextBudgetLedger, 'injectedTokens'>,
+  forecast: ContextForecast | null
+): { budgetTokens: number; minPriority: ContextPriority } {
+  let budgetTokens = Math.min(
+    config.maxTokensPerInjection,
+    Math.max(0, config.maxSessionTokens - ledger.injectedTokens)
+  );
+  let minPriority: ContextPriority = 'low';
+
+  if (forecast) {
+    budgetTokens = Math.min(budgetTokens, Math.floor(forecast.headroomTokens * HEADROOM_SHARE));
+    const nearCompaction = forecast.usageRatio >= config.compactionThreshold
+      || (forecast.turnsUntilCompaction !== null && forecast.turnsUntilCompaction < config.lowHeadroomTurns);
+    if (nearCompaction) minPriority = 'high';
+  }
+
+  return { budgetTokens, minPriority };
+}
+
+/**
+ * Cut content at a line boundary so it fits in `tokens`
+ */
+function trimToTokens(content: string, tokens: number): string {
+  const marker = '\n[... truncated by context budget]';
+  const maxChars = tokens * CHARS_PER_TOKEN - marker.length;
+  const cut = content.slice(0, maxChars);
+  const lastNewline = cut.lastIndexOf('\n');
+  return (lastNewline > maxChars / 2 ? cut.slice(0, lastNewline) : cut) + marker;
+}
+
+export interface PlanOptions {
+  budgetTokens: number;
+  minPriority: ContextPriority;
+  /** Hashes already injected this session */
+  seenHashes?: Iterable<string>;
+  now?: Date;
+}
+
+export interface PlanResult {
+  included: PlannedContext[];
+  dropped: DroppedContext[];
+  usedTokens: number;
+  /** Hashes of the included content, to add to the ledger */
+  newHashes: string[];
+}
+
+/**
+ * Pick candidates for one injection. Critical candidates are always
+ * included; the rest are taken in priority order (then registration
+ * order) while they fit.
+ */
+export function planContextBudget(candidates: ContextCandidate[], options: PlanOptions): PlanResult {
+  const at = (options.now ?? new Date()).toISOString();
+  const seen = new Set(options.seenHashes ?? []);
+  const newHashes: string[] = [];
+  const included: PlannedContext[] = [];
+  const dropped: DroppedContext[] = [];
+  let remaining = options.budgetTokens;
+
+  const ordered = candidates
+    .map((candidate, index) => ({ candidate, index, priority: candidate.priority ?? 'normal' }))
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.index - b.index);
+
+  const remember = (hash: string) => {
+    if (!seen.has(hash)) {
+      seen.add(hash);
+      newHashes.push(hash);
+    }
+  };
+
+  for (const { candidate, priority } of ordered) {
+    const { source, id } = candidate;
+    const drop = (tokens: number, reason: DroppedContext['reason']) =>
+      dropped.push({ source, id, priority, tokens, reason, at });
+    const fullTokens = estimateTokens(candidate.content);
+
+    if (PRIORITY_ORDER[priority] > PRIORITY_ORDER[options.minPriority]) {
+      drop(fullTokens, 'low-headroom');
+      continue;
+    }
+
+    // Whole-entry duplicates, then paragraphs another source already injected
+    const fullHash = contentHash(candidate.content);
+    if (!candidate.content.trim() || (seen.has(fullHash) && priority !== 'critical')) {
+      drop(fullTokens, 'duplicate');
+      continue;
+    }
+    const blocks = splitBlocks(candidate.content);
+    const substantial = blocks.filter((block) => block.trim().length >= MIN_DEDUP_BLOCK_CHARS);
+    const kept = priority === 'critical'
+      ? blocks
+      : blocks.filter((block) => block.trim().length < MIN_DEDUP_BLOCK_CHARS || !seen.has(contentHash(block)));
+    const keptSubstantial = kept.filter((block) => block.trim().length >= MIN_DEDUP_BLOCK_CHARS);
+    if (substantial.length > 0 && keptSubstantial.length === 0) {
+      drop(fullTokens, 'duplicate');
+      continue;
+    }
+
+    let content = kept.length === blocks.length ? candidate.content : kept.join('\n\n');
+    let tokens = estimateTokens(content);
+    let trimmed = false;
+
+    if (priority !== 'critical' && tokens > remaining) {
+      if (!candidate.trimmable || remaining < MIN_TRIM_TOKENS) {
+        drop(tokens, 'budget');
+        continue;
+      }
+      content = trimToTokens(content, remaining);
+      const trimmedTokens = estimateTokens(content);
+      drop(tokens - trimmedTokens, 'trimmed');
+      tokens = trimmedTokens;
+      trimmed = true;
+    }
+
+    included.push({ source, id, priority, content, tokens, trimmed });
+    remaining = Math.max(0, remaining - tokens);
+    remember(fullHash);
+    for (const block of splitBlocks(content)) {
+      if (block.trim().length >= MIN_DEDUP_BLOCK_CHARS) remember(contentHash(block));
+    }
+  }
+
+  return {
+    included,
+    dropped,
+    usedTokens: included.reduce((sum, entry) => sum + entry.tokens, 0),
+    newHashes,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Context Budget Types
+ *
+ * Type definitions for the shared budget that injected context (rules,
+ * READMEs, project memory, notepad, learned skills, session restore) is
+ * planned against.
+ */
+
+import type { ContextPriority, ContextSourceType } from '../context-injector/types.js';
+
+/**
+ * Resolved budget settings (see PluginConfig.contextBudget)
+ */
+export interface ContextBudgetConfig {
+  /** Route injections through the budget. When false, everything is injected as-is */
+  enabled: boolean;
+  /** Tokens a single injection may add */
+  maxTokensPerInjection: number;
+  /** Tokens all injectors may add between compactions */
+  maxSessionTokens: number;
+  /** Usage ratio at which compaction is expected */
+  compactionThreshold: number;
+  /** Below this many predicted turns before compaction only critical and high priority context is injected */
+  lowHeadroomTurns: number;
+}
+
+/**
+ * Context an injector wants to add
+ */
+export interface ContextCandidate {
+  source: ContextSourceType;
+  /** Identifier within the source, shown in the ledger */
+  id: string;
+  content: string;
+  /** Default: normal. Critical context is never dropped */
+  priority?: ContextPriority;
+  /**
+   * Allow cutting the content short instead of dropping it. Leave unset
+   * for content inside delimiters, which trimming would leave unclosed.
+   */
+  trimmable?: boolean;
+}
+
+export type DropReason = 'duplicate' | 'budget' | 'low-headroom' | 'trimmed';
+
+/**
+ * Context that was not injected, or only partly
+ */
+export interface DroppedContext {
+  source: ContextSourceType;
+  id: string;
+  priority: ContextPriority;
+  /** Tokens that were not injected */
+  tokens: number;
+  reason: DropReason;
+  at: string;
+}
+
+/**
+ * Context selected for injection
+ */
+export interface PlannedContext {
+  source: ContextSourceType;
+  id: string;
+  priority: ContextPriority;
+  content: string;
+  tokens: number;
+  trimmed: boolean;
+}
+
+export interface ContextBudgetPlan {
+  included: PlannedContext[];
+  dropped: DroppedContext[];
+  /** Tokens of included context */
+  usedTokens: number;
+  /** Tokens this injection was allowed */
+  budgetTokens: number;
+  /** Included content joined for injection ('' when nothing is left) */
+  merged: string;
+  forecast: ContextForecast | null;
+}
+
+/**
+ * Where the session is headed, from the transcript's reported usage
+ */
+export interface ContextForecast {
+  usedTokens: number;
+  contextLimit: number;
+  usageRatio: number;
+  /** Tokens left before the compaction threshold */
+  headroomTokens: number;
+  /** Average context growth per recorded turn, when known */
+  tokensPerTurn: number | null;
+  /** Turns left before compaction at the current growth rate, when known */
+  turnsUntilCompaction: number | null;
+}
+
+export interface UsageSample {
+  at: string;
+  usedTokens: number;
+}
+
+/**
+ * Per-session record of injected and dropped context.
+ * Stored at .omc/state/sessions/{sessionId}/context-budget-state.json.
+ */
+export interface ContextBudgetLedger {
+  sessionId: string;
+  /** Tokens injected since the session started or last compacted */
+  injectedTokens: number;
+  /** Tokens injected per source since the last compaction */
+  bySource: Record<string, number>;
+  /** Hashes of injected content and paragraphs, for deduplication across sources and hooks */
+  hashes: string[];
+  /** Most recent drops, newest last */
+  dropped: DroppedContext[];
+  /** Most recent usage readings, oldest first */
+  usageSamples: UsageSample[];
+  /** Number of compactions seen */
+  compactions: number;
+  updatedAt: string;
+}
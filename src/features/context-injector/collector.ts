@@ -49,6 +49,7 @@ export class ContextCollector {
       content: options.content,
       priority: options.priority ?? 'normal',
       timestamp: Date.now(),
+      trimmable: options.trimmable,
       metadata: options.metadata,
     };
 
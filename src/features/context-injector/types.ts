@@ -22,6 +22,8 @@ export type ContextSourceType =
   | 'learner'
   | 'beads'
   | 'project-memory'
+  | 'notepad'
+  | 'session-restore'
   | 'custom';
 
 /**
@@ -44,6 +46,8 @@ export interface ContextEntry {
   priority: ContextPriority;
   /** Timestamp when registered */
   timestamp: number;
+  /** May be cut short by the context budget instead of dropped */
+  trimmable?: boolean;
   /** Optional metadata for debugging/logging */
   metadata?: Record<string, unknown>;
 }
@@ -60,6 +64,8 @@ export interface RegisterContextOptions {
   content: string;
   /** Priority for ordering (default: normal) */
   priority?: ContextPriority;
+  /** May be cut short by the context budget instead of dropped (default: false) */
+  trimmable?: boolean;
   /** Optional metadata */
   metadata?: Record<string, unknown>;
 }
@@ -101,6 +101,21 @@ export {
   type InjectionResult
 } from './context-injector/index.js';
 
+// Context Budget - shared token budget for injected context
+export {
+  applyContextBudget,
+  consumeBudgetedContext,
+  getContextBudgetConfig,
+  readContextBudgetLedger,
+  resetContextBudgetLedger,
+  DEFAULT_CONTEXT_BUDGET_CONFIG,
+  type ContextBudgetConfig,
+  type ContextBudgetLedger,
+  type ContextBudgetPlan,
+  type ContextCandidate,
+  type ContextForecast
+} from './context-budget/index.js';
+
 // Background Agent - background task management
 export {
   // Classes
@@ -268,6 +283,11 @@ export {
   checkEvidence,
   formatReport,
   validateChecklist,
+  detectProjectChecks,
+  runProjectChecks,
+  parseTestCounts,
+  readAllCheckEvidence,
+  formatEvidenceSummary,
   // Constants
   STANDARD_CHECKS,
   // Types
@@ -279,7 +299,11 @@ export {
   type VerificationSummary,
   type ValidationResult,
   type VerificationOptions,
-  type ReportOptions
+  type ReportOptions,
+  type ProjectCheckId,
+  type ProjectCheckCommand,
+  type TestCounts,
+  type RecordedCheckEvidence
 } from './verification/index.js';
 
 // Task Decomposer - task decomposition and file ownership
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { detectProjectChecks } from '../project-checks.js';
+import { parseTestCounts } from '../output-parsers.js';
+import { executeCommand, runProjectChecks } from '../executor.js';
+import { readCheckEvidence, formatEvidenceSummary } from '../evidence-store.js';
+import { checkEvidence, STANDARD_CHECKS } from '../index.js';
+
+describe('verification project checks', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omc-verify-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('detectProjectChecks', () => {
+    it('uses package.json scripts with the lockfile package manager', () => {
+      writeFileSync(join(cwd, 'package.json'), JSON.stringify({
+        scripts: { build: 'tsc', test: 'vitest run', lint: 'eslint src', typecheck: 'tsc --noEmit' },
+      }));
+      writeFileSync(join(cwd, 'pnpm-lock.yaml'), '');
+      expect(detectProjectChecks(cwd)).toEqual([
+        { id: 'build', command: 'pnpm run build', source: 'package.json' },
+        { id: 'test', command: 'pnpm test', source: 'package.json' },
+        { id: 'lint', command: 'pnpm run lint', source: 'package.json' },
+        { id: 'typecheck', command: 'pnpm run typecheck', source: 'package.json' },
+      ]);
+    });
+
+    it('skips the npm placeholder test script and fills gaps from later sources', () => {
+      writeFileSync(join(cwd, 'package.json'), JSON.stringify({
+        scripts: { build: 'tsc', test: 'echo "Error: no test specified" && exit 1' },
+      }));
+      writeFileSync(join(cwd, 'Makefile'), 'VERSION := 1\ntest: build\n\tnode test.js\nlint:\n\teslint .\n');
+      expect(detectProjectChecks(cwd).map(c => [c.id, c.command])).toEqual([
+        ['build', 'npm run build'],
+        ['test', 'make test'],
+        ['lint', 'make lint'],
+      ]);
+    });
+
+    it('detects Rust and Python projects', () => {
+      writeFileSync(join(cwd, 'Cargo.toml'), '[package]\nname = "x"\n');
+      expect(detectProjectChecks(cwd).map(c => c.command)).toEqual([
+        'cargo build', 'cargo test', 'cargo clippy -- -D warnings', 'cargo check',
+      ]);
+
+      rmSync(join(cwd, 'Cargo.toml'));
+      writeFileSync(join(cwd, 'pyproject.toml'), '[tool.pytest.ini_options]\n[tool.ruff]\n[tool.mypy]\n');
+      expect(detectProjectChecks(cwd).map(c => [c.id, c.command])).toEqual([
+        ['test', 'python -m pytest'],
+        ['lint', 'ruff check .'],
+        ['typecheck', 'python -m mypy .'],
+      ]);
+    });
+  });
+
+  describe('parseTestCounts', () => {
+    it('parses vitest summaries', () => {
+      const output = ' Test Files  1 failed | 3 passed (4)\n      Tests  2 failed | 40 passed | 1 skipped (43)\n';
+      expect(parseTestCounts(output)).toEqual({ runner: 'vitest', passed: 40, failed: 2, skipped: 1 });
+    });
+
+    it('parses jest summaries', () => {
+      const output = 'Test Suites: 1 failed, 4 passed, 5 total\nTests:       1 failed, 2 skipped, 10 passed, 13 total\n';
+      expect(parseTestCounts(output)).toEqual({ runner: 'jest', passed: 10, failed: 1, skipped: 2 });
+    });
+
+    it('parses pytest summaries, counting errors as failures', () => {
+      const output = '\x1b[31m===== 1 failed, 7 passed, 2 skipped, 1 error in 0.42s =====\x1b[0m\n';
+      expect(parseTestCounts(output)).toEqual({ runner: 'pytest', passed: 7, failed: 2, skipped: 2 });
+    });
+
+    it('sums cargo test results across binaries', () => {
+      const output = [
+        'test result: ok. 5 passed; 0 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.01s',
+        'test result: FAILED. 2 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.02s',
+      ].join('\n');
+      expect(parseTestCounts(output)).toEqual({ runner: 'cargo', passed: 7, failed: 1, skipped: 1 });
+    });
+
+    it('returns null for unrecognised output', () => {
+      expect(parseTestCounts('all good')).toBeNull();
+    });
+  });
+
+  describe('executeCommand', () => {
+    it('captures exit code and output without leaking caller secrets', async () => {
+      process.env.OMC_VERIFY_TEST_SECRET = 'hunter2';
+      try {
+        const result = await executeCommand(
+          'node -e "console.log(process.env.OMC_VERIFY_TEST_SECRET ?? \'unset\', process.env.CI); process.exit(3)"',
+          { cwd },
+        );
+        expect(result).toMatchObject({ exitCode: 3, timedOut: false, truncated: false });
+        expect(result.output.trim()).toBe('unset 1');
+      } finally {
+        delete process.env.OMC_VERIFY_TEST_SECRET;
+      }
+    });
+
+    it('kills commands that exceed the timeout', async () => {
+      const result = await executeCommand('node -e "setTimeout(() => {}, 60000)"', { cwd, timeoutMs: 300 });
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBeNull();
+      expect(result.durationMs).toBeLessThan(10000);
+    });
+  });
+
+  describe('runProjectChecks', () => {
+    it('fails a test check whose output reports failures despite exit 0 and records evidence', async () => {
+      writeFileSync(join(cwd, 'package.json'), JSON.stringify({
+        scripts: {
+          test: 'node -e "console.log(\'Tests:       1 failed, 4 passed, 5 total\')"',
+          lint: 'node -e "process.exit(0)"',
+        },
+      }));
+      mkdirSync(join(cwd, '.omc'));
+
+      const results = await runProjectChecks(cwd, { timeoutMs: 30000 });
+      expect(results.map(r => [r.checkId, r.passed])).toEqual([['test', false], ['lint', true]]);
+      expect(results[0].counts).toEqual({ runner: 'jest', passed: 4, failed: 1, skipped: 0 });
+
+      const stored = readCheckEvidence(cwd, 'test');
+      expect(stored).toMatchObject({ command: 'npm test', exitCode: 0, passed: false });
+      const summary = formatEvidenceSummary([stored!], Date.parse(stored!.recordedAt));
+      expect(summary).toContain('- test: FAILED `npm test` exit=0 (4 passed, 1 failed, 0 skipped), 0m ago');
+    }, 60000);
+  });
+
+  describe('checkEvidence', () => {
+    it('rejects test evidence that was not produced by a command', () => {
+      const result = checkEvidence(STANDARD_CHECKS.TEST, { type: 'test_pass', passed: true, timestamp: new Date() });
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual(['Tests Pass evidence was not produced by an executed command']);
+    });
+  });
+});
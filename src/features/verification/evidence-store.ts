@@ -0,0 +1,73 @@
+/**
+ * Verification Evidence Store
+ *
+ * Executed check results are written to .omc/state/verification/{check}.json
+ * (latest run per check). Ralph's architect verification, UltraQA and the
+ * autopilot QA stage read these files instead of trusting a "tests pass"
+ * claim in the transcript.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getOmcRoot } from '../../lib/worktree-paths.js';
+import { atomicWriteJsonSync } from '../../lib/atomic-write.js';
+import { PROJECT_CHECK_IDS } from './project-checks.js';
+import type { ProjectCheckId, RecordedCheckEvidence } from './types.js';
+
+/** Evidence older than this is reported as stale */
+export const EVIDENCE_MAX_AGE_MS = 30 * 60 * 1000;
+
+export function getEvidenceDir(cwd: string): string {
+  return join(getOmcRoot(cwd), 'state', 'verification');
+}
+
+export function writeCheckEvidence(cwd: string, evidence: RecordedCheckEvidence): void {
+  atomicWriteJsonSync(join(getEvidenceDir(cwd), `${evidence.checkId}.json`), evidence);
+}
+
+export function readCheckEvidence(cwd: string, checkId: ProjectCheckId): RecordedCheckEvidence | null {
+  const path = join(getEvidenceDir(cwd), `${checkId}.json`);
+  if (!existsSync(path)) return null;
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as RecordedCheckEvidence;
+    return data.checkId === checkId && typeof data.passed === 'boolean' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Latest evidence for every check that has been run, in check order */
+export function readAllCheckEvidence(cwd: string): RecordedCheckEvidence[] {
+  return PROJECT_CHECK_IDS.flatMap(id => readCheckEvidence(cwd, id) ?? []);
+}
+
+export function isEvidenceStale(evidence: RecordedCheckEvidence, maxAgeMs = EVIDENCE_MAX_AGE_MS, now = Date.now()): boolean {
+  const recordedAt = Date.parse(evidence.recordedAt);
+  return !Number.isFinite(recordedAt) || now - recordedAt > maxAgeMs;
+}
+
+function describeEvidence(evidence: RecordedCheckEvidence, now: number): string {
+  const status = evidence.timedOut ? 'TIMED OUT' : evidence.passed ? 'PASSED' : 'FAILED';
+  const counts = evidence.counts
+    ? ` (${evidence.counts.passed} passed, ${evidence.counts.failed} failed, ${evidence.counts.skipped} skipped)`
+    : '';
+  const minutes = Math.max(0, Math.round((now - Date.parse(evidence.recordedAt)) / 60000));
+  const stale = isEvidenceStale(evidence, EVIDENCE_MAX_AGE_MS, now) ? ' [STALE]' : '';
+  return `- ${evidence.checkId}: ${status} \`${evidence.command}\` exit=${evidence.exitCode ?? 'none'}${counts}, ${minutes}m ago${stale}`;
+}
+
+/**
+ * Markdown summary of recorded evidence for prompt injection.
+ * Tells the agent to run `omc verify` when nothing was recorded.
+ */
+export function formatEvidenceSummary(evidence: RecordedCheckEvidence[], now = Date.now()): string {
+  if (evidence.length === 0) {
+    return 'No executed check evidence recorded. Run `omc verify` to execute the project\'s build/test/lint commands.';
+  }
+  const lines = evidence.map(e => describeEvidence(e, now));
+  const failing = evidence.filter(e => !e.passed);
+  for (const e of failing) {
+    lines.push('', `Output of failing \`${e.command}\` (tail):`, '```', e.outputTail, '```');
+  }
+  return lines.join('\n');
+}
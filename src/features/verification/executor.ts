@@ -0,0 +1,166 @@
+/**
+ * Check Executor
+ *
+ * Runs verification commands in a child process that cannot outlive its
+ * timeout or leak the caller's secrets:
+ * - own process group, killed as a whole (SIGKILL) when the timeout expires
+ * - stdin closed, so commands cannot block waiting for input
+ * - allowlisted environment plus CI=1 / NO_COLOR=1 for non-interactive output
+ * - output capped to the last MAX_OUTPUT_BYTES
+ *
+ * runProjectChecks() ties detection, execution and count parsing together and
+ * records the results as evidence files.
+ */
+
+import { spawn } from 'child_process';
+import { detectProjectChecks } from './project-checks.js';
+import { parseTestCounts } from './output-parsers.js';
+import { writeCheckEvidence } from './evidence-store.js';
+import type {
+  CommandExecution,
+  ProjectCheckCommand,
+  ProjectCheckId,
+  RecordedCheckEvidence,
+} from './types.js';
+
+export const DEFAULT_CHECK_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const OUTPUT_TAIL_LINES = 40;
+
+/** Environment variables passed through to check commands */
+const ENV_ALLOWLIST = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TZ',
+  'TMPDIR', 'TMP', 'TEMP',
+  // Windows
+  'SystemRoot', 'ComSpec', 'PATHEXT', 'APPDATA', 'LOCALAPPDATA', 'USERPROFILE', 'ProgramFiles',
+  // Toolchains
+  'NVM_DIR', 'VOLTA_HOME', 'PNPM_HOME', 'CARGO_HOME', 'RUSTUP_HOME', 'VIRTUAL_ENV', 'PYENV_ROOT',
+  'CONDA_PREFIX', 'GOPATH', 'GOROOT', 'JAVA_HOME',
+];
+
+/** Allowlisted environment for check commands, forced non-interactive. */
+export function buildSandboxEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of ENV_ALLOWLIST) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return { ...env, CI: '1', NO_COLOR: '1', FORCE_COLOR: '0' };
+}
+
+/**
+ * Run a shell command with a hard timeout. Never rejects: spawn failures
+ * are reported as exitCode null with the error in the output.
+ */
+export function executeCommand(
+  command: string,
+  options: { cwd?: string; timeoutMs?: number } = {},
+): Promise<CommandExecution> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+  const startedAt = Date.now();
+  const useProcessGroup = process.platform !== 'win32';
+
+  return new Promise((resolve) => {
+    let output = '';
+    let truncated = false;
+    let timedOut = false;
+    let settled = false;
+
+    const append = (chunk: Buffer) => {
+      output += chunk.toString('utf-8');
+      if (output.length > MAX_OUTPUT_BYTES) {
+        output = output.slice(-MAX_OUTPUT_BYTES);
+        truncated = true;
+      }
+    };
+
+    const finish = (exitCode: number | null, signal: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({
+        command,
+        exitCode,
+        signal,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output,
+        truncated,
+      });
+    };
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: useProcessGroup,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: buildSandboxEnv(),
+      windowsHide: true,
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (useProcessGroup && child.pid) process.kill(-child.pid, 'SIGKILL');
+        else child.kill('SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, timeoutMs);
+
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+    child.on('error', (err) => {
+      output += `${output ? '\n' : ''}${err.message}`;
+      finish(null, null);
+    });
+    child.on('close', (code, signal) => finish(code, signal));
+  });
+}
+
+function tail(output: string): string {
+  return output.trimEnd().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+}
+
+/**
+ * Execute one detected check and turn the result into evidence.
+ * Test checks fail on parsed failures even when the command exited 0.
+ */
+export async function runProjectCheck(
+  check: ProjectCheckCommand | (Omit<ProjectCheckCommand, 'source'> & { source: 'custom' }),
+  options: { cwd?: string; timeoutMs?: number } = {},
+): Promise<RecordedCheckEvidence> {
+  const execution = await executeCommand(check.command, options);
+  const counts = check.id === 'test' ? parseTestCounts(execution.output) : null;
+  const passed = execution.exitCode === 0 && !execution.timedOut && (!counts || counts.failed === 0);
+  return {
+    checkId: check.id,
+    command: check.command,
+    source: check.source,
+    passed,
+    exitCode: execution.exitCode,
+    timedOut: execution.timedOut,
+    durationMs: execution.durationMs,
+    ...(counts ? { counts } : {}),
+    outputTail: tail(execution.output),
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Detect and run the project's checks sequentially, recording each result
+ * as an evidence file unless `record` is false.
+ */
+export async function runProjectChecks(
+  cwd: string,
+  options: { checks?: ProjectCheckId[]; timeoutMs?: number; record?: boolean } = {},
+): Promise<RecordedCheckEvidence[]> {
+  const wanted = options.checks ? new Set(options.checks) : null;
+  const results: RecordedCheckEvidence[] = [];
+  for (const check of detectProjectChecks(cwd)) {
+    if (wanted && !wanted.has(check.id)) continue;
+    const evidence = await runProjectCheck(check, { cwd, timeoutMs: options.timeoutMs });
+    if (options.record !== false) writeCheckEvidence(cwd, evidence);
+    results.push(evidence);
+  }
+  return results;
+}
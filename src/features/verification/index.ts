@@ -5,8 +5,9 @@
  * Provides a single source of truth for verification requirements and execution.
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { detectProjectCheck } from './project-checks.js';
+import { executeCommand, runProjectCheck } from './executor.js';
+import { writeCheckEvidence } from './evidence-store.js';
 import type {
   VerificationProtocol,
   VerificationCheck,
@@ -16,13 +17,22 @@ import type {
   VerificationSummary,
   ValidationResult,
   VerificationOptions,
-  ReportOptions
+  ReportOptions,
+  ProjectCheckId
 } from './types.js';
 
-const execAsync = promisify(exec);
+/** Evidence types that must come from an executed command, by project check */
+const COMMAND_EVIDENCE_CHECKS: Partial<Record<VerificationEvidenceType, ProjectCheckId>> = {
+  build_success: 'build',
+  test_pass: 'test',
+  lint_clean: 'lint'
+};
 
 /**
- * Standard verification checks used across workflows
+ * Standard verification checks used across workflows.
+ * BUILD/TEST/LINT leave `command` undefined; the real command is detected
+ * from the project (package.json, Cargo.toml, pyproject.toml, Makefile)
+ * when the check runs.
  */
 export const STANDARD_CHECKS = {
   BUILD: {
@@ -122,36 +132,53 @@ async function runSingleCheck(
   check: VerificationCheck,
   options: VerificationOptions = {}
 ): Promise<VerificationEvidence> {
-  const { cwd, timeout = 60000 } = options;
-
-  // If check has a command, run it
-  if (check.command) {
-    try {
-      const { stdout, stderr } = await execAsync(check.command, {
-        cwd,
-        timeout
-      });
-
-      return {
-        type: check.evidenceType,
-        passed: true,
-        command: check.command,
-        output: stdout || stderr,
-        timestamp: new Date()
-      };
-    } catch (error) {
-      const err = error as Error & { stdout?: string; stderr?: string };
+  const { cwd = process.cwd(), timeout = 60000 } = options;
+  const projectCheckId = COMMAND_EVIDENCE_CHECKS[check.evidenceType];
+
+  // Build/test/lint run the explicit command or the one detected from the project
+  if (projectCheckId) {
+    const detected = check.command ? null : detectProjectCheck(cwd, projectCheckId);
+    const command = check.command ?? detected?.command;
+    if (command) {
+      const recorded = await runProjectCheck(
+        { id: projectCheckId, command, source: detected?.source ?? 'custom' },
+        { cwd, timeoutMs: timeout }
+      );
+      if (options.recordEvidence) {
+        writeCheckEvidence(cwd, recorded);
+      }
       return {
         type: check.evidenceType,
-        passed: false,
-        command: check.command,
-        output: err.stdout || err.stderr,
-        error: err.message,
-        timestamp: new Date()
+        passed: recorded.passed,
+        command,
+        output: recorded.outputTail,
+        ...(recorded.passed ? {} : { error: describeFailure(recorded.timedOut, recorded.exitCode, timeout) }),
+        timestamp: new Date(recorded.recordedAt),
+        metadata: {
+          exitCode: recorded.exitCode,
+          durationMs: recorded.durationMs,
+          source: recorded.source,
+          ...(recorded.counts ? { counts: recorded.counts } : {})
+        }
       };
     }
   }
 
+  // If check has a command, run it
+  if (check.command) {
+    const execution = await executeCommand(check.command, { cwd, timeoutMs: timeout });
+    const passed = execution.exitCode === 0 && !execution.timedOut;
+    return {
+      type: check.evidenceType,
+      passed,
+      command: check.command,
+      output: execution.output,
+      ...(passed ? {} : { error: describeFailure(execution.timedOut, execution.exitCode, timeout) }),
+      timestamp: new Date(),
+      metadata: { exitCode: execution.exitCode, durationMs: execution.durationMs }
+    };
+  }
+
   // Manual verification checks (no command)
   return {
     type: check.evidenceType,
@@ -161,6 +188,12 @@ async function runSingleCheck(
   };
 }
 
+function describeFailure(timedOut: boolean, exitCode: number | null, timeout: number): string {
+  if (timedOut) return `Timed out after ${timeout}ms`;
+  if (exitCode === 0) return 'Test runner reported failures';
+  return exitCode === null ? 'Command did not run' : `Exited with code ${exitCode}`;
+}
+
 /**
  * Execute all verification checks
  */
@@ -262,6 +295,12 @@ export function checkEvidence(
     issues.push(`Evidence type mismatch: expected ${check.evidenceType}, got ${evidence.type}`);
   }
 
+  // Build/test/lint outcomes only count when a command was actually executed
+  if (COMMAND_EVIDENCE_CHECKS[check.evidenceType] && !evidence.command) {
+    issues.push(`${check.name} evidence was not produced by an executed command`);
+    recommendations.push('Run `omc verify` to execute the project checks instead of reporting results');
+  }
+
   // Check if passed
   if (!evidence.passed) {
     issues.push(`Check failed: ${check.name}`);
@@ -517,5 +556,24 @@ export type {
   VerificationSummary,
   ValidationResult,
   VerificationOptions,
-  ReportOptions
+  ReportOptions,
+  ProjectCheckId,
+  ProjectCheckSource,
+  ProjectCheckCommand,
+  TestCounts,
+  CommandExecution,
+  RecordedCheckEvidence
 } from './types.js';
+
+export { PROJECT_CHECK_IDS, detectProjectChecks, detectProjectCheck } from './project-checks.js';
+export { parseTestCounts } from './output-parsers.js';
+export { DEFAULT_CHECK_TIMEOUT_MS, executeCommand, runProjectCheck, runProjectChecks } from './executor.js';
+export {
+  EVIDENCE_MAX_AGE_MS,
+  getEvidenceDir,
+  writeCheckEvidence,
+  readCheckEvidence,
+  readAllCheckEvidence,
+  isEvidenceStale,
+  formatEvidenceSummary
+} from './evidence-store.js';
@@ -0,0 +1,79 @@
+/**
+ * Test Runner Output Parsers
+ *
+ * Extract pass/fail counts from the summary lines printed by common test
+ * runners. Counts let verification reject a zero exit code that hides
+ * failures (e.g. a wrapper script that swallows the runner's status).
+ */
+
+import type { TestCounts } from './types.js';
+
+const ANSI_RE = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+function count(summary: string, words: string[]): number {
+  let total = 0;
+  for (const word of words) {
+    const re = new RegExp(`(\\d+)\\s+${word}\\b`, 'gi');
+    for (const match of summary.matchAll(re)) total += Number(match[1]);
+  }
+  return total;
+}
+
+/** cargo test: one `test result:` line per test binary, summed */
+function parseCargo(output: string): TestCounts | null {
+  const lines = [...output.matchAll(/^test result: \w+\. (.*)$/gm)].map(m => m[1]);
+  if (lines.length === 0) return null;
+  const summary = lines.join('\n');
+  return {
+    runner: 'cargo',
+    passed: count(summary, ['passed']),
+    failed: count(summary, ['failed']),
+    skipped: count(summary, ['ignored']),
+  };
+}
+
+/** jest: `Tests:       1 failed, 2 skipped, 10 passed, 13 total` */
+function parseJest(output: string): TestCounts | null {
+  const match = output.match(/^Tests:\s+(.*\d+ total.*)$/m);
+  if (!match) return null;
+  return {
+    runner: 'jest',
+    passed: count(match[1], ['passed']),
+    failed: count(match[1], ['failed']),
+    skipped: count(match[1], ['skipped', 'todo']),
+  };
+}
+
+/** vitest: ` Tests  1 failed | 10 passed | 2 skipped (13)` */
+function parseVitest(output: string): TestCounts | null {
+  const match = output.match(/^\s*Tests\s{2,}(.*\(\d+\))\s*$/m);
+  if (!match) return null;
+  return {
+    runner: 'vitest',
+    passed: count(match[1], ['passed']),
+    failed: count(match[1], ['failed']),
+    skipped: count(match[1], ['skipped', 'todo']),
+  };
+}
+
+/** pytest: `==== 2 failed, 10 passed, 1 skipped in 0.12s ====` (last one wins) */
+function parsePytest(output: string): TestCounts | null {
+  const matches = [...output.matchAll(/^=+ (.*\d+ (?:passed|failed|errors?|skipped|no tests ran).*) in [\d.]+s.*=+$/gm)];
+  if (matches.length === 0) return null;
+  const summary = matches[matches.length - 1][1];
+  return {
+    runner: 'pytest',
+    passed: count(summary, ['passed', 'xpassed']),
+    failed: count(summary, ['failed', 'errors?']),
+    skipped: count(summary, ['skipped', 'xfailed', 'deselected']),
+  };
+}
+
+/**
+ * Parse test counts from runner output.
+ * Returns null when no known summary line is present.
+ */
+export function parseTestCounts(output: string): TestCounts | null {
+  const clean = output.replace(ANSI_RE, '').replace(/\r/g, '');
+  return parseCargo(clean) ?? parseJest(clean) ?? parseVitest(clean) ?? parsePytest(clean);
+}
@@ -0,0 +1,130 @@
+/**
+ * Project Check Detection
+ *
+ * Finds the real build/test/lint/typecheck commands for a project from its
+ * manifest files, so verification runs what the project actually uses
+ * instead of relying on the model to pick (or claim to have run) a command.
+ *
+ * Sources are consulted in order and the first one to provide a check wins:
+ * package.json scripts, Cargo.toml, pyproject.toml, Makefile targets, and
+ * finally tsconfig.json for a bare `tsc --noEmit` typecheck.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ProjectCheckCommand, ProjectCheckId } from './types.js';
+
+export const PROJECT_CHECK_IDS: readonly ProjectCheckId[] = ['build', 'test', 'lint', 'typecheck'];
+
+/** The script `npm init` writes when no tests exist */
+const NPM_PLACEHOLDER_TEST = /no test specified/i;
+
+function readText(path: string): string | null {
+  try {
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
+
+function detectPackageManager(cwd: string): 'npm' | 'pnpm' | 'yarn' | 'bun' {
+  if (existsSync(join(cwd, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (existsSync(join(cwd, 'yarn.lock'))) return 'yarn';
+  if (existsSync(join(cwd, 'bun.lockb')) || existsSync(join(cwd, 'bun.lock'))) return 'bun';
+  return 'npm';
+}
+
+function fromPackageJson(cwd: string): ProjectCheckCommand[] {
+  const text = readText(join(cwd, 'package.json'));
+  if (!text) return [];
+  let scripts: Record<string, unknown>;
+  try {
+    scripts = (JSON.parse(text) as { scripts?: Record<string, unknown> }).scripts ?? {};
+  } catch {
+    return [];
+  }
+
+  const pm = detectPackageManager(cwd);
+  const run = (script: string) => (pm === 'yarn' ? `yarn ${script}` : `${pm} run ${script}`);
+  const has = (script: string) => typeof scripts[script] === 'string' && (scripts[script] as string).trim() !== '';
+  const commands: ProjectCheckCommand[] = [];
+
+  if (has('build')) commands.push({ id: 'build', command: run('build'), source: 'package.json' });
+  if (has('test') && !NPM_PLACEHOLDER_TEST.test(scripts.test as string)) {
+    commands.push({ id: 'test', command: pm === 'bun' ? 'bun run test' : `${pm} test`, source: 'package.json' });
+  }
+  if (has('lint')) commands.push({ id: 'lint', command: run('lint'), source: 'package.json' });
+  const typecheck = ['typecheck', 'type-check', 'tsc'].find(has);
+  if (typecheck) commands.push({ id: 'typecheck', command: run(typecheck), source: 'package.json' });
+  return commands;
+}
+
+function fromCargoToml(cwd: string): ProjectCheckCommand[] {
+  if (!existsSync(join(cwd, 'Cargo.toml'))) return [];
+  return [
+    { id: 'build', command: 'cargo build', source: 'Cargo.toml' },
+    { id: 'test', command: 'cargo test', source: 'Cargo.toml' },
+    { id: 'lint', command: 'cargo clippy -- -D warnings', source: 'Cargo.toml' },
+    { id: 'typecheck', command: 'cargo check', source: 'Cargo.toml' },
+  ];
+}
+
+function fromPyproject(cwd: string): ProjectCheckCommand[] {
+  const text = readText(join(cwd, 'pyproject.toml'));
+  if (text === null) return [];
+  const commands: ProjectCheckCommand[] = [];
+  if (/\[tool\.pytest|\bpytest\b/.test(text) || existsSync(join(cwd, 'tests'))) {
+    commands.push({ id: 'test', command: 'python -m pytest', source: 'pyproject.toml' });
+  }
+  if (/\[tool\.ruff|\bruff\b/.test(text)) {
+    commands.push({ id: 'lint', command: 'ruff check .', source: 'pyproject.toml' });
+  } else if (/\bflake8\b/.test(text)) {
+    commands.push({ id: 'lint', command: 'python -m flake8', source: 'pyproject.toml' });
+  }
+  if (/\[tool\.mypy|\bmypy\b/.test(text)) {
+    commands.push({ id: 'typecheck', command: 'python -m mypy .', source: 'pyproject.toml' });
+  } else if (/\[tool\.pyright|\bpyright\b/.test(text)) {
+    commands.push({ id: 'typecheck', command: 'pyright', source: 'pyproject.toml' });
+  }
+  return commands;
+}
+
+function fromMakefile(cwd: string): ProjectCheckCommand[] {
+  const text = readText(join(cwd, 'Makefile')) ?? readText(join(cwd, 'makefile'));
+  if (text === null) return [];
+  const commands: ProjectCheckCommand[] = [];
+  for (const id of PROJECT_CHECK_IDS) {
+    // A rule line `target:` (but not a `target := value` assignment)
+    if (new RegExp(`^${id}\\s*:(?!=)`, 'm').test(text)) {
+      commands.push({ id, command: `make ${id}`, source: 'Makefile' });
+    }
+  }
+  return commands;
+}
+
+function fromTsconfig(cwd: string): ProjectCheckCommand[] {
+  if (!existsSync(join(cwd, 'tsconfig.json'))) return [];
+  return [{ id: 'typecheck', command: 'npx --no-install tsc --noEmit', source: 'tsconfig.json' }];
+}
+
+/**
+ * Detect the project's check commands, at most one per check id,
+ * in PROJECT_CHECK_IDS order.
+ */
+export function detectProjectChecks(cwd: string): ProjectCheckCommand[] {
+  const found = new Map<ProjectCheckId, ProjectCheckCommand>();
+  const sources = [fromPackageJson, fromCargoToml, fromPyproject, fromMakefile, fromTsconfig];
+  for (const detect of sources) {
+    for (const command of detect(cwd)) {
+      if (!found.has(command.id)) found.set(command.id, command);
+    }
+  }
+  return PROJECT_CHECK_IDS.flatMap(id => found.get(id) ?? []);
+}
+
+/**
+ * Detected command for a single check, or null when the project has none.
+ */
+export function detectProjectCheck(cwd: string, id: ProjectCheckId): ProjectCheckCommand | null {
+  return detectProjectChecks(cwd).find(c => c.id === id) ?? null;
+}
@@ -140,6 +140,8 @@ export interface VerificationOptions {
   skipOptional?: boolean;
   /** Custom working directory */
   cwd?: string;
+  /** Persist executed build/test/lint results as evidence files */
+  recordEvidence?: boolean;
 }
 
 /**
@@ -155,3 +157,71 @@ export interface ReportOptions {
   /** Whether to colorize output (for terminal) */
   colorize?: boolean;
 }
+
+/**
+ * Project checks that can be detected and executed
+ */
+export type ProjectCheckId = 'build' | 'test' | 'lint' | 'typecheck';
+
+/**
+ * Project file a check command was detected from
+ */
+export type ProjectCheckSource = 'package.json' | 'Cargo.toml' | 'pyproject.toml' | 'Makefile' | 'tsconfig.json';
+
+/**
+ * A real build/test/lint command detected from project files
+ */
+export interface ProjectCheckCommand {
+  /** Which check this command performs */
+  id: ProjectCheckId;
+  /** Shell command to run from the project root */
+  command: string;
+  /** File the command was detected from */
+  source: ProjectCheckSource;
+}
+
+/**
+ * Pass/fail counts parsed from test runner output
+ */
+export interface TestCounts {
+  /** Runner whose summary line was recognised */
+  runner: 'vitest' | 'jest' | 'pytest' | 'cargo';
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Outcome of running a command in the sandboxed executor
+ */
+export interface CommandExecution {
+  command: string;
+  /** Exit code, or null when killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  /** Whether the command was killed for exceeding its timeout */
+  timedOut: boolean;
+  durationMs: number;
+  /** Combined stdout/stderr (tail only when truncated) */
+  output: string;
+  truncated: boolean;
+}
+
+/**
+ * Evidence file written after a project check was actually executed
+ */
+export interface RecordedCheckEvidence {
+  checkId: ProjectCheckId;
+  command: string;
+  source: ProjectCheckSource | 'custom';
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Parsed test counts (test checks only, when the runner was recognised) */
+  counts?: TestCounts;
+  /** Last lines of output for diagnosis */
+  outputTail: string;
+  /** ISO timestamp of when the command finished */
+  recordedAt: string;
+}
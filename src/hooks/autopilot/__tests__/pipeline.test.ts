@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync } from 'fs';
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -19,7 +19,12 @@ import {
   getPipelineStatus,
   formatPipelineHUD,
   hasPipelineTracking,
+  buildPipelineStagesConfig,
+  generatePipelinePrompt,
+  writePipelineTracking,
 } from '../pipeline.js';
+import { checkAutopilot } from '../enforcement.js';
+import { checkStageVerification, readStageVerification } from '../stage-verification.js';
 
 import {
   DEFAULT_PIPELINE_CONFIG,
@@ -470,3 +475,137 @@ describe('Pipeline Orchestrator (with state)', () => {
     });
   });
 });
+
+describe('Custom pipeline stages', () => {
+  const securityStage = {
+    name: 'Security Review',
+    prompt: 'Review the changes for: {{idea}}',
+    verify: { command: 'node -e "process.exit(1)"', timeoutSeconds: 30 },
+  };
+
+  describe('buildPipelineStagesConfig', () => {
+    it('keeps valid stages and reports invalid definitions and unknown ids', () => {
+      const { config, rejected } = buildPipelineStagesConfig({
+        stages: ['ralplan', 'security-review', 'execution', 'typo', 'security-review'],
+        custom: {
+          'security-review': securityStage,
+          qa: { prompt: 'shadow' },
+          broken: { prompt: '', signal: 'PIPELINE_QA_COMPLETE' } as never,
+          clash: { prompt: 'x', signal: 'PIPELINE_RALPH_COMPLETE' },
+        },
+      });
+
+      expect(config.stages).toEqual(['ralplan', 'security-review', 'execution']);
+      expect(Object.keys(config.customStages ?? {})).toEqual(['security-review']);
+      expect(rejected).toEqual([
+        { name: 'qa', errors: ['stage id "qa" is a built-in stage'] },
+        { name: 'broken', errors: ['prompt must be a non-empty string'] },
+        { name: 'clash', errors: ['signal PIPELINE_RALPH_COMPLETE is already used by stage "ralph"'] },
+        { name: 'pipeline.stages', errors: ['unknown stage "typo"', 'stage "security-review" is listed more than once'] },
+      ]);
+    });
+  });
+
+  it('orders custom stages, maps their signals and honours skip conditions', () => {
+    const config = resolvePipelineConfig({
+      stages: ['execution', 'security-review', 'docs'],
+      customStages: {
+        'security-review': securityStage,
+        docs: { prompt: 'Update docs', skipIf: { missingFile: 'docs' } },
+      },
+    });
+    const dir = mkdtempSync(join(tmpdir(), 'pipeline-custom-'));
+    try {
+      const tracking = buildPipelineTracking(config, dir);
+      expect(tracking.stages.map(s => [s.id, s.status])).toEqual([
+        ['execution', 'pending'],
+        ['security-review', 'pending'],
+        ['docs', 'skipped'],
+      ]);
+      expect(getSignalToStageMap(config).get('PIPELINE_SECURITY_REVIEW_COMPLETE')).toBe('security-review');
+      expect(formatPipelineHUD(tracking)).toContain('[..] Security Review');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('with state', () => {
+    let testDir: string;
+    let configDir: string;
+    const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+    const sessionId = 'custom-stage-session';
+
+    function writeTranscript(content: string): void {
+      const dir = join(configDir, 'sessions', sessionId);
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, 'transcript.md'), content);
+    }
+
+    beforeEach(() => {
+      testDir = mkdtempSync(join(tmpdir(), 'pipeline-custom-state-'));
+      configDir = mkdtempSync(join(tmpdir(), 'pipeline-custom-claude-'));
+      process.env.CLAUDE_CONFIG_DIR = configDir;
+    });
+
+    afterEach(() => {
+      if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+      else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+      rmSync(testDir, { recursive: true, force: true });
+      rmSync(configDir, { recursive: true, force: true });
+    });
+
+    /** Wait for the detached verify runner to write its result. */
+    async function waitForVerification(stage: string): Promise<void> {
+      const deadline = Date.now() + 20_000;
+      while (readStageVerification(testDir, stage)?.status !== 'done') {
+        if (Date.now() > deadline) throw new Error(`verification for ${stage} did not finish`);
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    it('times out verify commands in the background runner', async () => {
+      expect(checkStageVerification(testDir, 'slow', 'node -e "setTimeout(() => {}, 60000)"', 1).pending).toBe(true);
+      expect(checkStageVerification(testDir, 'slow', 'node -e "setTimeout(() => {}, 60000)"', 1).details)
+        .toContain('is running in the background');
+      await waitForVerification('slow');
+      const result = checkStageVerification(testDir, 'slow', 'node -e "setTimeout(() => {}, 60000)"', 1);
+      expect(result).toMatchObject({ passed: false });
+      expect(result.details).toContain('timed out after 1s');
+      expect(readStageVerification(testDir, 'slow')).toBeNull();
+    }, 30000);
+
+    it('renders the prompt template and holds the stage until verify passes', async () => {
+      initPipeline(testDir, 'add login', sessionId, undefined, {
+        stages: ['security-review', 'qa'],
+        customStages: { 'security-review': securityStage },
+      });
+
+      const prompt = generatePipelinePrompt(testDir, sessionId);
+      expect(prompt).toContain('## PIPELINE STAGE: SECURITY REVIEW');
+      expect(prompt).toContain('Review the changes for: add login');
+      expect(prompt).toContain('Signal: PIPELINE_SECURITY_REVIEW_COMPLETE');
+
+      writeTranscript('done\nPIPELINE_SECURITY_REVIEW_COMPLETE\n');
+      const started = await checkAutopilot(sessionId, testDir);
+      expect(started?.shouldBlock).toBe(true);
+      expect(started?.message).toContain('runs in the background');
+      await waitForVerification('security-review');
+
+      const blocked = await checkAutopilot(sessionId, testDir);
+      expect(blocked?.shouldBlock).toBe(true);
+      expect(blocked?.message).toContain('stage verification failed');
+      expect(blocked?.message).toContain('exited 1');
+      expect(readPipelineTracking(readAutopilotState(testDir, sessionId)!)?.stages[0].status).toBe('active');
+
+      const tracking = readPipelineTracking(readAutopilotState(testDir, sessionId)!)!;
+      tracking.pipelineConfig.customStages!['security-review'].verify!.command = 'node -e "process.exit(0)"';
+      writePipelineTracking(testDir, tracking, sessionId);
+
+      expect((await checkAutopilot(sessionId, testDir))?.message).toContain('runs in the background');
+      await waitForVerification('security-review');
+      const advanced = await checkAutopilot(sessionId, testDir);
+      expect(advanced?.message).toContain('SECURITY-REVIEW -> QA');
+      expect(readPipelineTracking(readAutopilotState(testDir, sessionId)!)?.stages[0].status).toBe('complete');
+    }, 30000);
+  });
+});
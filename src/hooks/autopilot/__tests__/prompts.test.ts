@@ -1,4 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import {
   getExpansionPrompt,
   getDirectPlanningPrompt,
@@ -65,6 +68,20 @@ describe('Prompt Generation', () => {
       expect(prompt).toContain('Lint');
       expect(prompt).toContain('Test');
     });
+
+    it('lists the checks detected in the project directory', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'omc-qa-prompt-'));
+      try {
+        writeFileSync(join(dir, 'package.json'), JSON.stringify({ scripts: { build: 'tsc', test: 'vitest run' } }));
+        const prompt = getPhasePrompt('qa', { directory: dir });
+        expect(prompt).toContain('omc verify --checks build  # runs: npm run build (from package.json)');
+        expect(prompt).toContain('omc verify --checks test  # runs: npm test (from package.json)');
+        expect(prompt).not.toContain('--checks lint');
+        expect(getQAPrompt()).not.toContain('Detected checks');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('getValidationPrompt', () => {
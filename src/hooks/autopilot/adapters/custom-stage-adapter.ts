@@ -0,0 +1,162 @@
+/**
+ * Custom Stage Adapter
+ *
+ * Generic adapter for stages declared under `pipeline.custom` in the user or
+ * project config (~/.config/claude-omc/config.jsonc, .claude/omc.jsonc):
+ *
+ *   "pipeline": {
+ *     "stages": ["ralplan", "execution", "security-review", "ralph", "qa"],
+ *     "custom": {
+ *       "security-review": {
+ *         "name": "Security Review",
+ *         "prompt": "Review every change made for: {{idea}}. Fix high-severity findings.",
+ *         "skipIf": { "env": "OMC_SKIP_SECURITY_REVIEW" },
+ *         "verify": { "command": "npm audit --audit-level=high", "timeoutSeconds": 120 }
+ *       }
+ *     }
+ *   }
+ *
+ * The stage prompt is rendered from the template, completion is signalled by
+ * `signal` (default PIPELINE_<ID>_COMPLETE), and the optional verify command
+ * must exit 0 before the pipeline advances. The verify command runs in the
+ * background (stage-verification.ts) because enforcement runs in the Stop hook.
+ */
+
+import { existsSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import type { CustomStageConfig } from '../../../shared/types.js';
+import type { PipelineStageAdapter, PipelineContext, StageVerificationResult } from '../pipeline-types.js';
+import { checkStageVerification } from '../stage-verification.js';
+
+const STAGE_ID_RE = /^[a-z][a-z0-9-]{0,31}$/;
+const SIGNAL_RE = /^[A-Z][A-Z0-9_]{2,63}$/;
+const DEFAULT_VERIFY_TIMEOUT_SECONDS = 600;
+
+/** Default completion signal for a custom stage id */
+export function defaultStageSignal(id: string): string {
+  return `PIPELINE_${id.toUpperCase().replace(/-/g, '_')}_COMPLETE`;
+}
+
+/**
+ * Validate a custom stage definition.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateCustomStageConfig(
+  id: string,
+  config: unknown,
+  reservedIds: readonly string[],
+): string[] {
+  const errors: string[] = [];
+  if (!STAGE_ID_RE.test(id)) {
+    errors.push(`stage id "${id}" must match ${STAGE_ID_RE}`);
+  }
+  if (reservedIds.includes(id)) {
+    errors.push(`stage id "${id}" is a built-in stage`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    errors.push('stage must be an object');
+    return errors;
+  }
+
+  const c = config as Record<string, unknown>;
+  if (typeof c.prompt !== 'string' || !c.prompt.trim()) {
+    errors.push('prompt must be a non-empty string');
+  }
+  if (c.name !== undefined && (typeof c.name !== 'string' || !c.name.trim())) {
+    errors.push('name must be a non-empty string');
+  }
+  if (c.signal !== undefined && (typeof c.signal !== 'string' || !SIGNAL_RE.test(c.signal))) {
+    errors.push(`signal must match ${SIGNAL_RE}`);
+  }
+  if (c.skipIf !== undefined) {
+    const skipIf = c.skipIf as Record<string, unknown> | null;
+    if (!skipIf || typeof skipIf !== 'object' || Array.isArray(skipIf)) {
+      errors.push('skipIf must be an object');
+    } else {
+      for (const field of ['env', 'missingFile'] as const) {
+        if (skipIf[field] !== undefined && (typeof skipIf[field] !== 'string' || !(skipIf[field] as string).trim())) {
+          errors.push(`skipIf.${field} must be a non-empty string`);
+        }
+      }
+    }
+  }
+  if (c.verify !== undefined) {
+    const verify = c.verify as Record<string, unknown> | null;
+    if (!verify || typeof verify !== 'object' || Array.isArray(verify)) {
+      errors.push('verify must be an object');
+    } else {
+      if (typeof verify.command !== 'string' || !verify.command.trim()) {
+        errors.push('verify.command must be a non-empty string');
+      }
+      if (verify.timeoutSeconds !== undefined
+        && (typeof verify.timeoutSeconds !== 'number' || !(verify.timeoutSeconds > 0))) {
+        errors.push('verify.timeoutSeconds must be a positive number');
+      }
+    }
+  }
+  return errors;
+}
+
+function renderPrompt(template: string, context: PipelineContext): string {
+  const values: Record<string, string> = {
+    idea: context.idea,
+    directory: context.directory,
+    specPath: context.specPath || '.omc/autopilot/spec.md',
+    planPath: context.planPath || '.omc/plans/autopilot-impl.md',
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Build an adapter for a validated custom stage definition.
+ */
+export function createCustomStageAdapter(id: string, config: CustomStageConfig): PipelineStageAdapter {
+  const name = config.name ?? id;
+  const completionSignal = config.signal ?? defaultStageSignal(id);
+  const verify = config.verify;
+
+  const adapter: PipelineStageAdapter = {
+    id,
+    name,
+    completionSignal,
+
+    shouldSkip(_config, directory?: string): boolean {
+      const skipIf = config.skipIf;
+      if (!skipIf) return false;
+      if (skipIf.env && process.env[skipIf.env]) return true;
+      if (skipIf.missingFile && directory) {
+        const path = isAbsolute(skipIf.missingFile) ? skipIf.missingFile : join(directory, skipIf.missingFile);
+        if (!existsSync(path)) return true;
+      }
+      return false;
+    },
+
+    getPrompt(context: PipelineContext): string {
+      const gate = verify
+        ? `\nBefore signalling completion, make sure \`${verify.command}\` exits 0 — the pipeline runs it and stays in this stage until it passes.\n`
+        : '';
+      return `## PIPELINE STAGE: ${name.toUpperCase()}
+
+${renderPrompt(config.prompt, context)}
+${gate}
+### Completion
+
+When this stage is complete:
+
+Signal: ${completionSignal}
+`;
+    },
+  };
+
+  if (verify) {
+    adapter.verify = async (context: PipelineContext): Promise<StageVerificationResult> =>
+      checkStageVerification(
+        context.directory,
+        id,
+        verify.command,
+        verify.timeoutSeconds ?? DEFAULT_VERIFY_TIMEOUT_SECONDS,
+      );
+  }
+
+  return adapter;
+}
@@ -9,8 +9,10 @@ export { ralplanAdapter, RALPLAN_COMPLETION_SIGNAL } from './ralplan-adapter.js'
 export { executionAdapter, EXECUTION_COMPLETION_SIGNAL } from './execution-adapter.js';
 export { ralphAdapter, RALPH_COMPLETION_SIGNAL } from './ralph-adapter.js';
 export { qaAdapter, QA_COMPLETION_SIGNAL } from './qa-adapter.js';
+export { createCustomStageAdapter, validateCustomStageConfig, defaultStageSignal } from './custom-stage-adapter.js';
 
-import type { PipelineStageAdapter } from '../pipeline-types.js';
+import type { PipelineStageAdapter, PipelineConfig } from '../pipeline-types.js';
+import { createCustomStageAdapter } from './custom-stage-adapter.js';
 import { ralplanAdapter } from './ralplan-adapter.js';
 import { executionAdapter } from './execution-adapter.js';
 import { ralphAdapter } from './ralph-adapter.js';
@@ -34,3 +36,14 @@ export const ALL_ADAPTERS: readonly PipelineStageAdapter[] = [
 export function getAdapterById(id: string): PipelineStageAdapter | undefined {
   return ALL_ADAPTERS.find(a => a.id === id);
 }
+
+/**
+ * Look up the adapter for a stage in a given pipeline: a built-in adapter,
+ * or a generic adapter for a custom stage defined in the config.
+ */
+export function resolveStageAdapter(id: string, config?: PipelineConfig): PipelineStageAdapter | undefined {
+  const builtin = getAdapterById(id);
+  if (builtin) return builtin;
+  const custom = config?.customStages?.[id];
+  return custom ? createCustomStageAdapter(id, custom) : undefined;
+}
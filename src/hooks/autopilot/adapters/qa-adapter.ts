@@ -9,6 +9,7 @@
 
 import type { PipelineStageAdapter, PipelineConfig, PipelineContext } from '../pipeline-types.js';
 import { getQAPrompt } from '../prompts.js';
+import { formatEvidenceSummary, readAllCheckEvidence } from '../../../features/verification/evidence-store.js';
 
 export const QA_COMPLETION_SIGNAL = 'PIPELINE_QA_COMPLETE';
 
@@ -21,15 +22,20 @@ export const qaAdapter: PipelineStageAdapter = {
     return !config.qa;
   },
 
-  getPrompt(_context: PipelineContext): string {
+  getPrompt(context: PipelineContext): string {
     return `## PIPELINE STAGE: QA (Quality Assurance)
 
 Run build/lint/test cycling until all checks pass.
 
-${getQAPrompt()}
+${getQAPrompt(context.directory)}
+
+### Recorded Check Evidence
+
+${formatEvidenceSummary(readAllCheckEvidence(context.directory))}
 
 ### Completion
 
+Only signal completion after \`omc verify\` has recorded PASSED evidence for every detected check.
 When all QA checks pass:
 
 Signal: ${QA_COMPLETION_SIGNAL}
@@ -194,7 +194,7 @@ export async function checkAutopilot(
   // for signal detection and stage transitions instead of legacy phases.
   // ====================================================================
   if (hasPipelineTracking(state)) {
-    return checkPipelineAutopilot(state, sessionId, workingDir);
+    return await checkPipelineAutopilot(state, sessionId, workingDir);
   }
 
   // ====================================================================
@@ -261,7 +261,8 @@ function generateContinuationPrompt(
   const phasePrompt = getPhasePrompt(state.phase, {
     idea: state.originalIdea,
     specPath: state.expansion.spec_path || `${OmcPaths.AUTOPILOT}/spec.md`,
-    planPath: state.planning.plan_path || `${OmcPaths.PLANS}/autopilot-impl.md`
+    planPath: state.planning.plan_path || `${OmcPaths.PLANS}/autopilot-impl.md`,
+    directory,
   });
 
   const continuationPrompt = `<autopilot-continuation>
@@ -307,11 +308,11 @@ IMPORTANT: When the phase is complete, output the appropriate signal:
  * Pipeline-aware enforcement for autopilot states that have pipeline tracking.
  * Uses the pipeline orchestrator for signal detection and stage transitions.
  */
-function checkPipelineAutopilot(
+async function checkPipelineAutopilot(
   state: AutopilotState,
   sessionId: string | undefined,
   directory: string
-): AutopilotEnforcementResult | null {
+): Promise<AutopilotEnforcementResult | null> {
   const tracking = readPipelineTracking(state);
   if (!tracking) return null;
 
@@ -325,9 +326,25 @@ function checkPipelineAutopilot(
     };
   }
 
+  const context = {
+    idea: state.originalIdea,
+    directory: state.project_path || directory,
+    sessionId,
+    specPath: state.expansion.spec_path || '.omc/autopilot/spec.md',
+    planPath: state.planning.plan_path || '.omc/plans/autopilot-impl.md',
+    config: tracking.pipelineConfig,
+  };
+
   // Check if the current stage's completion signal has been emitted
   const completionSignal = getCurrentCompletionSignal(tracking);
-  if (completionSignal && sessionId && detectPipelineSignal(sessionId, completionSignal)) {
+  const signalled = !!completionSignal && !!sessionId && detectPipelineSignal(sessionId, completionSignal);
+
+  // A stage with a verification gate only completes once its command passes
+  const verification = signalled && currentAdapter.verify
+    ? await currentAdapter.verify(context)
+    : null;
+
+  if (signalled && (!verification || verification.passed)) {
     // Current stage complete — advance to next stage
     const { adapter: nextAdapter, phase: nextPhase } = advanceStage(directory, sessionId);
 
@@ -352,7 +369,8 @@ function checkPipelineAutopilot(
     // Generate transition + next stage prompt
     const transitionMsg = generateTransitionPrompt(
       currentAdapter.id,
-      nextAdapter.id
+      nextAdapter.id,
+      tracking.pipelineConfig
     );
 
     // Re-read tracking to get updated state
@@ -360,15 +378,6 @@ function checkPipelineAutopilot(
     const updatedTracking = updatedState ? readPipelineTracking(updatedState) : null;
     const hudLine = updatedTracking ? formatPipelineHUD(updatedTracking) : '';
 
-    const context = {
-      idea: state.originalIdea,
-      directory: state.project_path || directory,
-      sessionId,
-      specPath: state.expansion.spec_path || '.omc/autopilot/spec.md',
-      planPath: state.planning.plan_path || '.omc/plans/autopilot-impl.md',
-      config: tracking.pipelineConfig,
-    };
-
     const stagePrompt = nextAdapter.getPrompt(context);
 
     return {
@@ -407,16 +416,12 @@ ${stagePrompt}
   );
   const hudLine = updatedTracking ? formatPipelineHUD(updatedTracking) : '';
 
-  const context = {
-    idea: state.originalIdea,
-    directory: state.project_path || directory,
-    sessionId,
-    specPath: state.expansion.spec_path || '.omc/autopilot/spec.md',
-    planPath: state.planning.plan_path || '.omc/plans/autopilot-impl.md',
-    config: tracking.pipelineConfig,
-  };
-
   const stagePrompt = currentAdapter.getPrompt(context);
+  const status = verification?.pending
+    ? `Completion signal received. The stage verification runs in the background and the stage advances once it passes: ${verification.details} Finish any remaining work for this stage or wait for the result.`
+    : verification && !verification.passed
+      ? `You signalled completion, but the stage verification failed. Fix the problem before signalling again.\n\n${verification.details}`
+      : 'Your previous response did not signal stage completion. Continue working on the current stage.';
 
   const continuationPrompt = `<autopilot-pipeline-continuation>
 ${errorGuidance ? errorGuidance + '\n' : ''}
@@ -424,7 +429,7 @@ ${hudLine}
 
 [AUTOPILOT PIPELINE - STAGE: ${currentAdapter.name.toUpperCase()} | ITERATION ${state.iteration}/${state.max_iterations}]
 
-Your previous response did not signal stage completion. Continue working on the current stage.
+${status}
 
 ${stagePrompt}
 
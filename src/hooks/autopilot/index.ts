@@ -101,6 +101,7 @@ export {
 
 // Pipeline types
 export type {
+  BuiltinPipelineStageId,
   PipelineStageId,
   PipelineTerminalState,
   PipelinePhase,
@@ -110,6 +111,7 @@ export type {
   PipelineConfig,
   PipelineContext,
   PipelineStageAdapter,
+  StageVerificationResult,
   PipelineStageState,
   PipelineTracking,
 } from './pipeline-types.js';
@@ -123,6 +125,9 @@ export {
 // Pipeline orchestrator
 export {
   resolvePipelineConfig,
+  buildPipelineStagesConfig,
+  loadConfiguredPipeline,
+  getStageOrder,
   getDeprecationWarning,
   buildPipelineTracking,
   getActiveAdapters,
@@ -147,6 +152,10 @@ export {
 export {
   ALL_ADAPTERS,
   getAdapterById,
+  resolveStageAdapter,
+  createCustomStageAdapter,
+  validateCustomStageConfig,
+  defaultStageSignal,
   ralplanAdapter,
   executionAdapter,
   ralphAdapter,
@@ -8,15 +8,20 @@
  * @see https://github.com/Yeachan-Heo/oh-my-claudecode/issues/1130
  */
 
+import type { CustomStageConfig } from '../../shared/types.js';
+
 // ============================================================================
 // STAGE IDENTIFIERS
 // ============================================================================
 
 /**
- * Pipeline stage identifiers in execution order.
+ * Built-in pipeline stage identifiers in execution order.
  * Each stage is optional and can be skipped via configuration.
  */
-export type PipelineStageId = 'ralplan' | 'execution' | 'ralph' | 'qa';
+export type BuiltinPipelineStageId = 'ralplan' | 'execution' | 'ralph' | 'qa';
+
+/** Built-in or custom (config-defined) stage identifier */
+export type PipelineStageId = BuiltinPipelineStageId | (string & {});
 
 /** Terminal pipeline states */
 export type PipelineTerminalState = 'complete' | 'failed' | 'cancelled';
@@ -28,7 +33,7 @@ export type PipelinePhase = PipelineStageId | PipelineTerminalState;
 export type StageStatus = 'pending' | 'active' | 'complete' | 'failed' | 'skipped';
 
 /** The canonical stage execution order */
-export const STAGE_ORDER: readonly PipelineStageId[] = [
+export const STAGE_ORDER: readonly BuiltinPipelineStageId[] = [
   'ralplan',
   'execution',
   'ralph',
@@ -75,6 +80,10 @@ export interface PipelineConfig {
   verification: VerificationConfig | false;
   /** Whether to run the QA stage (build/lint/test cycling) */
   qa: boolean;
+  /** Stage order (built-in and custom ids). Default: STAGE_ORDER then custom stages */
+  stages?: PipelineStageId[];
+  /** Custom stage definitions from the `pipeline.custom` config section */
+  customStages?: Record<string, CustomStageConfig>;
 }
 
 /** Default pipeline configuration (matches current autopilot behavior) */
@@ -122,14 +131,30 @@ export interface PipelineStageAdapter {
   readonly name: string;
   /** Signal string that Claude emits to indicate stage completion */
   readonly completionSignal: string;
-  /** Check if this stage should be skipped based on pipeline config */
-  shouldSkip(config: PipelineConfig): boolean;
+  /** Check if this stage should be skipped based on pipeline config (and project directory) */
+  shouldSkip(config: PipelineConfig, directory?: string): boolean;
   /** Generate the prompt to inject for this stage */
   getPrompt(context: PipelineContext): string;
   /** Optional: perform setup actions when entering this stage (e.g. start ralph state) */
   onEnter?(context: PipelineContext): void;
   /** Optional: perform cleanup actions when leaving this stage */
   onExit?(context: PipelineContext): void;
+  /**
+   * Optional: gate run after the completion signal; the stage only completes when it passes.
+   * Runs inside the Stop hook, so long commands must report `pending` rather than block.
+   */
+  verify?(context: PipelineContext): Promise<StageVerificationResult>;
+}
+
+/** Outcome of a stage's completion gate */
+export interface StageVerificationResult {
+  passed: boolean;
+  /** The command is still running in the background; neither pass nor fail yet */
+  pending?: boolean;
+  /** Command that was run */
+  command: string;
+  /** Short description of the failure and output tail for the continuation prompt */
+  details: string;
 }
 
 // ============================================================================
@@ -5,8 +5,10 @@
  * into a single sequenced workflow: RALPLAN -> EXECUTION -> RALPH -> QA.
  *
  * Each stage is implemented by a PipelineStageAdapter and can be skipped
- * via PipelineConfig. The orchestrator manages state transitions, signal
- * detection, and prompt generation.
+ * via PipelineConfig. The `pipeline` config section can reorder stages and
+ * add custom ones backed by the generic adapter (adapters/custom-stage-adapter.ts).
+ * The orchestrator manages state transitions, signal detection, and prompt
+ * generation.
  *
  * @see https://github.com/Yeachan-Heo/oh-my-claudecode/issues/1130
  */
@@ -22,7 +24,9 @@ import type {
   StageStatus,
 } from './pipeline-types.js';
 import { DEFAULT_PIPELINE_CONFIG, STAGE_ORDER, DEPRECATED_MODE_ALIASES } from './pipeline-types.js';
-import { ALL_ADAPTERS, getAdapterById } from './adapters/index.js';
+import { ALL_ADAPTERS, resolveStageAdapter, validateCustomStageConfig, defaultStageSignal } from './adapters/index.js';
+import { loadConfig } from '../../config/loader.js';
+import type { PipelineStagesConfig } from '../../shared/types.js';
 import {
   readAutopilotState,
   writeAutopilotState,
@@ -58,11 +62,83 @@ export function resolvePipelineConfig(
     if (userConfig.execution !== undefined) config.execution = userConfig.execution;
     if (userConfig.verification !== undefined) config.verification = userConfig.verification;
     if (userConfig.qa !== undefined) config.qa = userConfig.qa;
+    if (userConfig.stages !== undefined) config.stages = userConfig.stages;
+    if (userConfig.customStages !== undefined) config.customStages = userConfig.customStages;
   }
 
   return config;
 }
 
+/**
+ * Turn the `pipeline` config section into stage order and custom stage
+ * definitions. Invalid custom stages and unknown or duplicate stage ids are
+ * dropped and returned so callers can report them.
+ */
+export function buildPipelineStagesConfig(
+  pipeline: PipelineStagesConfig | null | undefined
+): { config: Pick<PipelineConfig, 'stages' | 'customStages'>; rejected: Array<{ name: string; errors: string[] }> } {
+  const rejected: Array<{ name: string; errors: string[] }> = [];
+  const customStages: NonNullable<PipelineConfig['customStages']> = {};
+  const signals = new Map<string, string>(ALL_ADAPTERS.map(a => [a.completionSignal, a.id]));
+
+  for (const [id, entry] of Object.entries(pipeline?.custom ?? {})) {
+    const errors = validateCustomStageConfig(id, entry, STAGE_ORDER);
+    if (errors.length === 0) {
+      const signal = entry.signal ?? defaultStageSignal(id);
+      const owner = signals.get(signal);
+      if (owner) errors.push(`signal ${signal} is already used by stage "${owner}"`);
+      else signals.set(signal, id);
+    }
+    if (errors.length > 0) {
+      rejected.push({ name: id, errors });
+      continue;
+    }
+    customStages[id] = entry;
+  }
+
+  const config: Pick<PipelineConfig, 'stages' | 'customStages'> = {};
+  if (Object.keys(customStages).length > 0) config.customStages = customStages;
+
+  if (pipeline?.stages !== undefined) {
+    const known = new Set<string>([...STAGE_ORDER, ...Object.keys(customStages)]);
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    if (!Array.isArray(pipeline.stages)) {
+      errors.push('stages must be an array of stage ids');
+    } else {
+      for (const id of pipeline.stages) {
+        if (typeof id !== 'string' || !known.has(id)) errors.push(`unknown stage "${String(id)}"`);
+        else if (seen.has(id)) errors.push(`stage "${id}" is listed more than once`);
+        else seen.add(id);
+      }
+      config.stages = [...seen];
+    }
+    if (errors.length > 0) rejected.push({ name: 'pipeline.stages', errors });
+  }
+
+  return { config, rejected };
+}
+
+/**
+ * Stage order and custom stages from the user/project config.
+ * Returns an empty object when the config cannot be loaded.
+ */
+export function loadConfiguredPipeline(): Pick<PipelineConfig, 'stages' | 'customStages'> {
+  try {
+    return buildPipelineStagesConfig(loadConfig().pipeline).config;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Ordered stage ids for a pipeline: the configured order, or the built-in
+ * order followed by custom stages in definition order.
+ */
+export function getStageOrder(config: PipelineConfig): PipelineStageId[] {
+  return config.stages ?? [...STAGE_ORDER, ...Object.keys(config.customStages ?? {})];
+}
+
 /**
  * Check if the invocation is from a deprecated mode and return the deprecation warning.
  */
@@ -80,12 +156,12 @@ export function getDeprecationWarning(mode: string): string | null {
 /**
  * Build the initial pipeline tracking state from a resolved config.
  * Creates stage entries for all stages, marking skipped stages as 'skipped'.
+ * `directory` is used by custom stages whose skip condition checks project files.
  */
-export function buildPipelineTracking(config: PipelineConfig): PipelineTracking {
-  const _adapters = getActiveAdapters(config);
-  const stages: PipelineStageState[] = STAGE_ORDER.map(stageId => {
-    const adapter = getAdapterById(stageId);
-    const isActive = adapter && !adapter.shouldSkip(config);
+export function buildPipelineTracking(config: PipelineConfig, directory?: string): PipelineTracking {
+  const stages: PipelineStageState[] = getStageOrder(config).map(stageId => {
+    const adapter = resolveStageAdapter(stageId, config);
+    const isActive = adapter && !adapter.shouldSkip(config, directory);
     return {
       id: stageId,
       status: isActive ? 'pending' as StageStatus : 'skipped' as StageStatus,
@@ -106,8 +182,10 @@ export function buildPipelineTracking(config: PipelineConfig): PipelineTracking
 /**
  * Get the ordered list of active (non-skipped) adapters for a given config.
  */
-export function getActiveAdapters(config: PipelineConfig): PipelineStageAdapter[] {
-  return ALL_ADAPTERS.filter(adapter => !adapter.shouldSkip(config));
+export function getActiveAdapters(config: PipelineConfig, directory?: string): PipelineStageAdapter[] {
+  return getStageOrder(config)
+    .map(id => resolveStageAdapter(id, config))
+    .filter((adapter): adapter is PipelineStageAdapter => !!adapter && !adapter.shouldSkip(config, directory));
 }
 
 /**
@@ -160,15 +238,18 @@ export function initPipeline(
   pipelineConfig?: Partial<PipelineConfig>,
   deprecatedMode?: string
 ): AutopilotState | null {
-  // Resolve pipeline config
+  // Resolve pipeline config; stage layout comes from the user/project config unless given explicitly
   const resolvedConfig = resolvePipelineConfig(pipelineConfig, deprecatedMode);
+  if (!resolvedConfig.stages && !resolvedConfig.customStages) {
+    Object.assign(resolvedConfig, loadConfiguredPipeline());
+  }
 
   // Initialize the base autopilot state
   const state = initAutopilot(directory, idea, sessionId, autopilotConfig);
   if (!state) return null;
 
   // Build and attach pipeline tracking
-  const tracking = buildPipelineTracking(resolvedConfig);
+  const tracking = buildPipelineTracking(resolvedConfig, directory);
 
   // Mark the first active stage as active
   if (tracking.currentStageIndex >= 0 && tracking.currentStageIndex < tracking.stages.length) {
@@ -204,7 +285,7 @@ export function getCurrentStageAdapter(tracking: PipelineTracking): PipelineStag
     return getNextStageAdapter(tracking);
   }
 
-  return getAdapterById(currentStage.id) ?? null;
+  return resolveStageAdapter(currentStage.id, tracking.pipelineConfig) ?? null;
 }
 
 /**
@@ -216,7 +297,7 @@ export function getNextStageAdapter(tracking: PipelineTracking): PipelineStageAd
 
   for (let i = currentStageIndex + 1; i < stages.length; i++) {
     if (stages[i].status !== 'skipped') {
-      return getAdapterById(stages[i].id) ?? null;
+      return resolveStageAdapter(stages[i].id, tracking.pipelineConfig) ?? null;
     }
   }
 
@@ -249,7 +330,7 @@ export function advanceStage(
     currentStage.completedAt = new Date().toISOString();
 
     // Call onExit if the adapter supports it
-    const currentAdapter = getAdapterById(currentStage.id);
+    const currentAdapter = resolveStageAdapter(currentStage.id, tracking.pipelineConfig);
     if (currentAdapter?.onExit) {
       const context = buildContext(state, tracking);
       currentAdapter.onExit(context);
@@ -279,7 +360,7 @@ export function advanceStage(
   writePipelineTracking(directory, tracking, sessionId);
 
   // Call onEnter if the adapter supports it
-  const nextAdapter = getAdapterById(stages[nextIndex].id)!;
+  const nextAdapter = resolveStageAdapter(stages[nextIndex].id, tracking.pipelineConfig)!;
   if (nextAdapter.onEnter) {
     const context = buildContext(state, tracking);
     nextAdapter.onEnter(context);
@@ -343,18 +424,23 @@ export function getCurrentCompletionSignal(tracking: PipelineTracking): string |
   const { stages, currentStageIndex } = tracking;
   if (currentStageIndex < 0 || currentStageIndex >= stages.length) return null;
 
-  const adapter = getAdapterById(stages[currentStageIndex].id);
+  const adapter = resolveStageAdapter(stages[currentStageIndex].id, tracking.pipelineConfig);
   return adapter?.completionSignal ?? null;
 }
 
 /**
- * Map from all pipeline completion signals to their stage IDs.
+ * Map from all pipeline completion signals to their stage IDs,
+ * including the custom stages of `config` when given.
  */
-export function getSignalToStageMap(): Map<string, PipelineStageId> {
+export function getSignalToStageMap(config?: PipelineConfig): Map<string, PipelineStageId> {
   const map = new Map<string, PipelineStageId>();
   for (const adapter of ALL_ADAPTERS) {
     map.set(adapter.completionSignal, adapter.id);
   }
+  for (const id of Object.keys(config?.customStages ?? {})) {
+    const adapter = resolveStageAdapter(id, config);
+    if (adapter) map.set(adapter.completionSignal, adapter.id);
+  }
   return map;
 }
 
@@ -388,7 +474,8 @@ export function generatePipelinePrompt(
  */
 export function generateTransitionPrompt(
   fromStage: PipelineStageId,
-  toStage: PipelineStageId | 'complete'
+  toStage: PipelineStageId | 'complete',
+  config?: PipelineConfig
 ): string {
   if (toStage === 'complete') {
     return `## PIPELINE COMPLETE
@@ -399,7 +486,7 @@ Signal: AUTOPILOT_COMPLETE
 `;
   }
 
-  const toAdapter = getAdapterById(toStage);
+  const toAdapter = resolveStageAdapter(toStage, config);
   const toName = toAdapter?.name ?? toStage;
 
   return `## PIPELINE STAGE TRANSITION: ${fromStage.toUpperCase()} -> ${toStage.toUpperCase()}
@@ -463,7 +550,7 @@ export function formatPipelineHUD(tracking: PipelineTracking): string {
   const parts: string[] = [];
 
   for (const stage of tracking.stages) {
-    const adapter = getAdapterById(stage.id);
+    const adapter = resolveStageAdapter(stage.id, tracking.pipelineConfig);
     const name = adapter?.name ?? stage.id;
     switch (stage.status) {
       case 'complete':
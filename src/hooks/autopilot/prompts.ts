@@ -5,6 +5,8 @@
  * for Claude to execute. This is the core of the agent invocation mechanism.
  */
 
+import { getGoalCommand, type UltraQAGoalType } from '../ultraqa/index.js';
+
 /**
  * Generate the expansion phase prompt (Phase 0)
  * Analyst extracts requirements, Architect creates technical spec
@@ -209,15 +211,32 @@ When all tasks from the plan are complete: EXECUTION_COMPLETE
 }
 
 /**
- * Generate the QA phase prompt (Phase 3)
+ * List the checks `omc verify` detected for the project, one line per goal.
+ */
+function formatDetectedChecks(directory: string): string {
+  const goals: UltraQAGoalType[] = ['build', 'lint', 'typecheck', 'tests'];
+  const detected = goals
+    .map(goal => getGoalCommand(goal, directory))
+    .filter(command => command.startsWith('omc verify'));
+  if (detected.length === 0) return '';
+  return `\nDetected checks for this project:\n\`\`\`\n${detected.join('\n')}\n\`\`\`\n`;
+}
+
+/**
+ * Generate the QA phase prompt (Phase 3).
+ * When a directory is given, lists the project's detected check commands.
  */
-export function getQAPrompt(): string {
+export function getQAPrompt(directory?: string): string {
   return `## AUTOPILOT PHASE 3: QUALITY ASSURANCE
 
 Run UltraQA cycles until build/lint/tests pass.
 
 ### QA Sequence
 
+Run \`omc verify\` first: it detects the project's real build/lint/test commands,
+runs them and records evidence in \`.omc/state/verification/\`. Use \`omc verify --checks test\`
+to re-run a single check. The commands below are fallbacks for projects it cannot detect.
+${directory ? formatDetectedChecks(directory) : ''}
 1. **Build**: Run the project's build command:
    - JavaScript/TypeScript: \`npm run build\` (or yarn/pnpm equivalent)
    - Python: \`python -m build\` (if applicable)
@@ -258,7 +277,7 @@ Task(
 )
 \`\`\`
 
-3. **Re-run** - Verify the fix worked
+3. **Re-run** - Verify the fix worked with \`omc verify\`
 4. **Repeat** - Until pass or max cycles (5)
 
 ### Exit Conditions
@@ -372,6 +391,8 @@ export function getPhasePrompt(
     idea?: string;
     specPath?: string;
     planPath?: string;
+    /** Project root, used to list detected QA checks */
+    directory?: string;
   }
 ): string {
   switch (phase) {
@@ -382,7 +403,7 @@ export function getPhasePrompt(
     case 'execution':
       return getExecutionPrompt(context.planPath || '.omc/plans/autopilot-impl.md');
     case 'qa':
-      return getQAPrompt();
+      return getQAPrompt(context.directory);
     case 'validation':
       return getValidationPrompt(context.specPath || '.omc/autopilot/spec.md');
     default:
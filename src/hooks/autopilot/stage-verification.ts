@@ -0,0 +1,203 @@
+/**
+ * Background Stage Verification
+ *
+ * A custom stage's `verify` command comes from user or project config and
+ * may run for minutes, but pipeline enforcement runs inside the Stop hook,
+ * which has a 10s timeout. The command is therefore started in a detached
+ * runner process; each Stop hook checks the runner's result file and the
+ * stage only advances once a finished run reports a pass.
+ *
+ * The runner uses the same sandbox as the check executor: own process group,
+ * stdin closed, allowlisted environment and a hard timeout.
+ *
+ * State: .omc/state/pipeline-verify/{stageId}.json
+ */
+
+import { existsSync, readFileSync, unlinkSync } from 'fs';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import { OmcPaths } from '../../lib/worktree-paths.js';
+import { atomicWriteJsonSync } from '../../lib/atomic-write.js';
+import { buildSandboxEnv } from '../../features/verification/executor.js';
+import type { StageVerificationResult } from './pipeline-types.js';
+
+const VERIFY_OUTPUT_TAIL_LINES = 30;
+/** Extra time a runner gets past its timeout before it is presumed dead */
+const RUNNER_GRACE_SECONDS = 30;
+
+export interface StageVerificationRecord {
+  /** Unique per run, so a superseded runner cannot overwrite a newer record */
+  runId: string;
+  stage: string;
+  command: string;
+  timeoutSeconds: number;
+  status: 'running' | 'done';
+  startedAt: string;
+  finishedAt?: string;
+  exitCode?: number | null;
+  timedOut?: boolean;
+  output?: string;
+}
+
+/**
+ * Runner executed with `node -e`. Self-contained (no imports from this
+ * package) so it works from both the compiled and the bundled hooks.
+ */
+const RUNNER_SCRIPT = `
+const { spawn } = require('child_process');
+const { readFileSync, renameSync, writeFileSync } = require('fs');
+const file = process.env.OMC_STAGE_VERIFY_FILE;
+const record = JSON.parse(readFileSync(file, 'utf-8'));
+const useProcessGroup = process.platform !== 'win32';
+let output = '';
+let timedOut = false;
+let settled = false;
+const append = (chunk) => { output = (output + chunk.toString('utf-8')).slice(-65536); };
+const env = { ...process.env };
+delete env.OMC_STAGE_VERIFY_FILE;
+const child = spawn(record.command, {
+  shell: true,
+  detached: useProcessGroup,
+  stdio: ['ignore', 'pipe', 'pipe'],
+  env,
+  windowsHide: true,
+});
+child.stdout.on('data', append);
+child.stderr.on('data', append);
+const timer = setTimeout(() => {
+  timedOut = true;
+  try { useProcessGroup ? process.kill(-child.pid, 'SIGKILL') : child.kill('SIGKILL'); } catch {}
+}, record.timeoutSeconds * 1000);
+const finish = (exitCode) => {
+  if (settled) return;
+  settled = true;
+  clearTimeout(timer);
+  try {
+    if (JSON.parse(readFileSync(file, 'utf-8')).runId !== record.runId) return;
+  } catch { return; }
+  const done = { ...record, status: 'done', finishedAt: new Date().toISOString(), exitCode, timedOut, output };
+  writeFileSync(file + '.tmp', JSON.stringify(done, null, 2));
+  renameSync(file + '.tmp', file);
+};
+child.on('error', (err) => { append(String(err)); finish(null); });
+child.on('close', (code) => finish(timedOut ? null : code));
+`;
+
+export function getStageVerificationPath(directory: string, stage: string): string {
+  return join(directory, OmcPaths.STATE, 'pipeline-verify', `${stage}.json`);
+}
+
+export function readStageVerification(directory: string, stage: string): StageVerificationRecord | null {
+  const path = getStageVerificationPath(directory, stage);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as StageVerificationRecord;
+  } catch {
+    return null;
+  }
+}
+
+export function clearStageVerification(directory: string, stage: string): void {
+  try {
+    unlinkSync(getStageVerificationPath(directory, stage));
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Start a detached run of the verify command and record it as running.
+ * Returns null when the runner could not be spawned.
+ */
+export function startStageVerification(
+  directory: string,
+  stage: string,
+  command: string,
+  timeoutSeconds: number,
+): StageVerificationRecord | null {
+  const path = getStageVerificationPath(directory, stage);
+  const record: StageVerificationRecord = {
+    runId: randomUUID(),
+    stage,
+    command,
+    timeoutSeconds,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  };
+  atomicWriteJsonSync(path, record);
+
+  try {
+    const child = spawn(process.execPath, ['-e', RUNNER_SCRIPT], {
+      cwd: directory,
+      detached: true,
+      stdio: 'ignore',
+      env: { ...buildSandboxEnv(), OMC_STAGE_VERIFY_FILE: path },
+      windowsHide: true,
+    });
+    child.on('error', () => { /* reported through the missing result */ });
+    child.unref();
+    if (!child.pid) {
+      clearStageVerification(directory, stage);
+      return null;
+    }
+    return record;
+  } catch {
+    clearStageVerification(directory, stage);
+    return null;
+  }
+}
+
+function formatFinishedRun(record: StageVerificationRecord): StageVerificationResult {
+  const passed = record.exitCode === 0 && !record.timedOut;
+  const reason = record.timedOut
+    ? `timed out after ${record.timeoutSeconds}s`
+    : `exited ${record.exitCode ?? 'without a status'}`;
+  const tail = (record.output ?? '').trimEnd().split('\n').slice(-VERIFY_OUTPUT_TAIL_LINES).join('\n');
+  return {
+    passed,
+    command: record.command,
+    details: passed ? '' : `\`${record.command}\` ${reason}:\n\`\`\`\n${tail}\n\`\`\``,
+  };
+}
+
+/**
+ * Non-blocking verification gate for a stage. Returns the result of a
+ * finished run (consuming it, so the next signal re-runs the command), or a
+ * pending result after starting or while waiting for a background run.
+ */
+export function checkStageVerification(
+  directory: string,
+  stage: string,
+  command: string,
+  timeoutSeconds: number,
+  now: number = Date.now(),
+): StageVerificationResult {
+  const record = readStageVerification(directory, stage);
+  if (record && record.command === command) {
+    if (record.status === 'done') {
+      clearStageVerification(directory, stage);
+      return formatFinishedRun(record);
+    }
+    const elapsedSeconds = Math.max(0, Math.round((now - Date.parse(record.startedAt)) / 1000));
+    if (elapsedSeconds < record.timeoutSeconds + RUNNER_GRACE_SECONDS) {
+      return {
+        passed: false,
+        pending: true,
+        command,
+        details: `\`${command}\` is running in the background (started ${elapsedSeconds}s ago).`,
+      };
+    }
+    // The runner died without writing a result: start over
+  }
+
+  if (!startStageVerification(directory, stage, command, timeoutSeconds)) {
+    return { passed: false, command, details: `\`${command}\` could not be started.` };
+  }
+  return {
+    passed: false,
+    pending: true,
+    command,
+    details: `\`${command}\` started in the background.`,
+  };
+}
@@ -19,7 +19,7 @@ import { dirname, join } from "path";
 import { resolveToWorktreeRoot, getOmcRoot } from "../lib/worktree-paths.js";
 
 // Hot-path imports: needed on every/most hook invocations (keyword-detector, pre/post-tool-use)
-import { removeCodeBlocks, getAllKeywordsWithSizeCheck, applyRalplanGate, sanitizeForKeywordDetection, NON_LATIN_SCRIPT_PATTERN } from "./keyword-detector/index.js";
+import { removeCodeBlocks, getAllKeywordsWithSizeCheck, applyRalplanGate, sanitizeForKeywordDetection, NON_LATIN_SCRIPT_PATTERN, buildKeywordRegistry, formatCustomKeywordMessage } from "./keyword-detector/index.js";
 import { processOrchestratorPreTool, processOrchestratorPostTool } from "./omc-orchestrator/index.js";
 import { normalizeHookInput } from "./bridge-normalize.js";
 import {
@@ -53,6 +53,7 @@ import type { SetupInput } from "./setup/index.js";
 import type { PermissionRequestInput } from "./permission-handler/index.js";
 import type { SessionEndInput } from "./session-end/index.js";
 import type { StopContext } from "./todo-continuation/index.js";
+import type { ContextCandidate } from "../features/context-budget/index.js";
 // Security: wrap untrusted file content to prevent prompt injection
 import { wrapUntrustedFileContent } from "../agents/prompt-helpers.js";
 
@@ -445,9 +446,18 @@ async function processKeywordDetector(input: HookInput): Promise<HookOutput> {
     // Silent failure - don't break keyword detection
   }
 
-  // Load config for task-size detection settings
+  // A new prompt ends the idle period used for notification mention escalation
+  if (sessionId) {
+    import("../notifications/throttle.js").then(({ markSessionActive }) =>
+      markSessionActive(sessionId)
+    ).catch(() => {});
+  }
+
+  // Load config for task-size detection settings and custom keywords
   const config = loadConfig();
   const taskSizeConfig = config.taskSizeDetection ?? {};
+  // Invalid custom keywords are skipped here; `omc doctor conflicts` reports them
+  const { registry } = buildKeywordRegistry(config.keywords);
 
   // Get all keywords with optional task-size filtering (issue #790)
   const sizeCheckResult = getAllKeywordsWithSizeCheck(cleanedText, {
@@ -455,6 +465,7 @@ async function processKeywordDetector(input: HookInput): Promise<HookOutput> {
     smallWordLimit: taskSizeConfig.smallWordLimit ?? 50,
     largeWordLimit: taskSizeConfig.largeWordLimit ?? 200,
     suppressHeavyModesForSmallTasks: taskSizeConfig.suppressHeavyModesForSmallTasks !== false,
+    registry,
   });
 
   // Apply ralplan-first gate BEFORE task-size suppression (issue #997).
@@ -481,8 +492,9 @@ async function processKeywordDetector(input: HookInput): Promise<HookOutput> {
     keywords = sizeCheckResult.keywords;
 
     // Notify user when heavy modes were suppressed for a small task
-    if (sizeCheckResult.suppressedKeywords.length > 0 && sizeCheckResult.taskSizeResult) {
-      const suppressed = sizeCheckResult.suppressedKeywords.join(', ');
+    const allSuppressed = [...sizeCheckResult.suppressedKeywords, ...sizeCheckResult.suppressedCustomKeywords];
+    if (allSuppressed.length > 0 && sizeCheckResult.taskSizeResult) {
+      const suppressed = allSuppressed.join(', ');
       const reason = sizeCheckResult.taskSizeResult.reason;
       messages.push(
         `[TASK-SIZE: SMALL] Heavy orchestration mode(s) suppressed: ${suppressed}.\n` +
@@ -508,7 +520,13 @@ async function processKeywordDetector(input: HookInput): Promise<HookOutput> {
     });
   }
 
+  // Custom skill/prompt keywords from the `keywords` config, after built-in modes
+  const customMessages = sizeCheckResult.customKeywords
+    .map(formatCustomKeywordMessage)
+    .filter((m): m is string => m !== null);
+
   if (keywords.length === 0) {
+    messages.push(...customMessages);
     if (messages.length > 0) {
       return { continue: true, message: messages.join('\n\n---\n\n') };
     }
@@ -598,6 +616,7 @@ async function processKeywordDetector(input: HookInput): Promise<HookOutput> {
         break;
     }
   }
+  messages.push(...customMessages);
 
   // Return combined message with delimiter
   if (messages.length === 0) {
@@ -697,6 +716,12 @@ async function processPersistentMode(input: HookInput): Promise<HookOutput> {
         }
       }
 
+      // Send held digests and idle reminders that are due, even when no
+      // notification goes out this turn and the reply listener is not running
+      import("../notifications/index.js").then(({ flushAllDueNotifications }) =>
+        flushAllDueNotifications()
+      ).catch(() => {});
+
       // IMPORTANT: Do NOT clean up reply-listener/session-registry on Stop hooks.
       // Stop can fire for normal "idle" turns while the session is still active.
       // Reply cleanup is handled in the true SessionEnd hook only.
@@ -771,6 +796,7 @@ async function processSessionStart(input: HookInput): Promise<HookOutput> {
   const { readUltraworkState } = await import("./ultrawork/index.js");
   const { checkIncompleteTodos } = await import("./todo-continuation/index.js");
   const { buildAgentsOverlay } = await import("./agents-overlay.js");
+  const { applyContextBudget } = await import("../features/context-budget/index.js");
 
   // Trigger silent auto-update check (non-blocking, checks config internally)
   initSilentAutoUpdate();
@@ -809,13 +835,14 @@ async function processSessionStart(input: HookInput): Promise<HookOutput> {
     }).catch(() => {});
   }
 
-  const messages: string[] = [];
+  // Session restore notices are critical and never dropped by the context budget
+  const candidates: ContextCandidate[] = [];
 
   // Inject startup codebase map (issue #804) — first context item so agents orient quickly
   try {
     const overlayResult = buildAgentsOverlay(directory);
     if (overlayResult.message) {
-      messages.push(overlayResult.message);
+      candidates.push({ source: "session-context", id: "codebase-map", content: overlayResult.message, trimmable: true });
     }
   } catch {
     // Non-blocking: codebase map failure must never break session start
@@ -824,7 +851,7 @@ async function processSessionStart(input: HookInput): Promise<HookOutput> {
   // Check for active autopilot state - only restore if it belongs to this session
   const autopilotState = readAutopilotState(directory);
   if (autopilotState?.active && autopilotState.session_id === sessionId) {
-    messages.push(`<session-restore>
+    candidates.push({ source: "session-restore", id: "autopilot", priority: "critical", content: `<session-restore>
 
 [AUTOPILOT MODE RESTORED]
 
@@ -838,13 +865,13 @@ Continue autopilot execution until complete.
 
 ---
 
-`);
+` });
   }
 
   // Check for active ultrawork state - only restore if it belongs to this session
   const ultraworkState = readUltraworkState(directory);
   if (ultraworkState?.active && ultraworkState.session_id === sessionId) {
-    messages.push(`<session-restore>
+    candidates.push({ source: "session-restore", id: "ultrawork", priority: "critical", content: `<session-restore>
 
 [ULTRAWORK MODE RESTORED]
 
@@ -857,7 +884,7 @@ Continue working in ultrawork mode until all tasks are complete.
 
 ---
 
-`);
+` });
   }
 
   const teamState = readTeamStagedState(directory, sessionId);
@@ -866,7 +893,7 @@ Continue working in ultrawork mode until all tasks are complete.
     const stage = getTeamStage(teamState);
 
     if (isTeamStateTerminal(teamState)) {
-      messages.push(`<session-restore>
+      candidates.push({ source: "session-restore", id: "team", priority: "critical", content: `<session-restore>
 
 [TEAM MODE TERMINAL STATE DETECTED]
 
@@ -877,9 +904,9 @@ If this is expected, run normal cleanup/cancel completion flow and clear stale T
 
 ---
 
-`);
+` });
     } else {
-      messages.push(`<session-restore>
+      candidates.push({ source: "session-restore", id: "team", priority: "critical", content: `<session-restore>
 
 [TEAM MODE RESTORED]
 
@@ -893,7 +920,7 @@ Resume from this stage and continue the staged Team workflow.
 
 ---
 
-`);
+` });
     }
   }
 
@@ -908,9 +935,10 @@ Resume from this stage and continue the staged Team workflow.
         if (agentsContent.length > MAX_AGENTS_CHARS) {
           agentsContent = agentsContent.slice(0, MAX_AGENTS_CHARS);
         }
-        // Security: wrap untrusted file content to prevent prompt injection
+        // Security: wrap untrusted file content to prevent prompt injection.
+        // Not trimmable: a cut would drop the closing delimiters.
         const wrappedContent = wrapUntrustedFileContent(agentsMdPath, agentsContent);
-        messages.push(`<session-restore>
+        candidates.push({ source: "directory-agents", id: agentsMdPath, content: `<session-restore>
 
 [ROOT AGENTS.md LOADED]
 
@@ -922,7 +950,7 @@ ${wrappedContent}
 
 ---
 
-`);
+` });
       }
     } catch {
       // Skip if file can't be read
@@ -932,7 +960,7 @@ ${wrappedContent}
   // Check for incomplete todos
   const todoResult = await checkIncompleteTodos(sessionId, directory);
   if (todoResult.count > 0) {
-    messages.push(`<session-restore>
+    candidates.push({ source: "session-restore", id: "todos", priority: "critical", content: `<session-restore>
 
 [PENDING TASKS DETECTED]
 
@@ -943,9 +971,13 @@ Please continue working on these tasks.
 
 ---
 
-`);
+` });
   }
 
+  const transcriptPath = (input as unknown as Record<string, unknown>).transcript_path;
+  const messages = applyContextBudget(directory, sessionId, candidates, {
+    transcriptPath: typeof transcriptPath === "string" ? transcriptPath : undefined,
+  }).included.map((entry) => entry.content);
   if (messages.length > 0) {
     return {
       continue: true,
@@ -1375,6 +1407,7 @@ async function processAutopilot(input: HookInput): Promise<HookOutput> {
     idea: state.originalIdea,
     specPath: state.expansion.spec_path || ".omc/autopilot/spec.md",
     planPath: state.planning.plan_path || ".omc/plans/autopilot-impl.md",
+    directory,
   };
 
   const phasePrompt = getPhasePrompt(state.phase, context);
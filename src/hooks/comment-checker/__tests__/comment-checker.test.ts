@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { checkForComments, tokenizeComments } from '../index.js';
+
+function kinds(content: string, filePath: string): Array<[string, string | undefined]> {
+  const { comments } = checkForComments(filePath, content);
+  return comments.map((c) => [c.text, c.kind]);
+}
+
+describe('comment checker tokenizer', () => {
+  it('ignores comment markers inside strings, templates and regex literals', () => {
+    const source = [
+      'const url = "https://example.com/a"; // fetch the page',
+      'const tpl = `# not ${"// nested"} a comment`;',
+      'const re = /\\/\\/ not a comment/g;',
+      "const ratio = total / count; // per item",
+    ].join('\n');
+    const found = tokenizeComments(source, 'ts')!.map((c) => [c.lineNumber, c.body]);
+    expect(found).toEqual([[1, 'fetch the page'], [4, 'per item']]);
+  });
+
+  it('recognizes Python docstrings and skips hashes in strings', () => {
+    const source = [
+      '"""Module docstring."""',
+      'import os',
+      '',
+      'def handler(event):',
+      '    """Handle an event."""',
+      '    tag = "#channel"',
+      '    value = f"{tag}#1"  # keep the suffix stable',
+      '    return value',
+    ].join('\n');
+    const found = tokenizeComments(source, 'py')!.map((c) => [c.lineNumber, c.style, c.isDoc]);
+    expect(found).toEqual([[1, 'docstring', true], [5, 'docstring', true], [7, 'line', false]]);
+  });
+
+  it('handles Rust nested blocks, raw strings and lifetimes', () => {
+    const source = [
+      '/// Parses input.',
+      "fn parse<'a>(s: &'a str) -> char {",
+      '    let raw = r#"// not "a" comment"#;',
+      '    /* outer /* inner */ still outer */',
+      "    '/'",
+      '}',
+    ].join('\n');
+    const found = tokenizeComments(source, 'rust')!.map((c) => [c.lineNumber, c.isDoc]);
+    expect(found).toEqual([[1, true], [4, false]]);
+  });
+});
+
+describe('checkForComments', () => {
+  it('does not flag Python pragmas, docstrings or license headers', () => {
+    const source = [
+      '#!/usr/bin/env python3',
+      '# Copyright 2026 Example Corp.',
+      '# Licensed under the Apache License, Version 2.0',
+      '# -*- coding: utf-8 -*-',
+      '"""Service entry point."""',
+      'import os  # noqa: F401',
+      'from typing import Any  # type: ignore[attr-defined]',
+      'x = compute()  # pragma: no cover',
+      'y = 1  # pylint: disable=invalid-name',
+      '# TODO(ops): move to settings',
+      '#   once the config service ships',
+      '',
+      '# fall back to the default region',
+      'z = 2',
+    ].join('\n');
+    const result = checkForComments('service/app.py', source);
+    expect(result.comments.map((c) => c.text)).toEqual(['# fall back to the default region']);
+  });
+
+  it('classifies TypeScript directives, JSDoc and narrative comments', () => {
+    const source = [
+      '/**',
+      ' * Public API.',
+      ' */',
+      'export function run(): void {',
+      '  // @ts-expect-error legacy typing',
+      '  legacy();',
+      '  // eslint-disable-next-line no-console',
+      '  console.log("x");',
+      '  // increment the counter',
+      '  count++;',
+      '}',
+    ].join('\n');
+    expect(kinds(source, 'src/run.ts')).toEqual([['// increment the counter', 'narrative']]);
+    const all = tokenizeComments(source, 'ts')!;
+    expect(all.map((c) => c.isDoc)).toEqual([true, false, false, false]);
+  });
+
+  it('treats Go build tags and declaration comments as non-narrative', () => {
+    const source = [
+      '//go:build linux',
+      '',
+      '// Package worker runs jobs.',
+      'package worker',
+      '',
+      '// Run starts the loop.',
+      'func Run() {',
+      '\tfor { //nolint:staticcheck',
+      '\t\t// wait for the next tick',
+      '\t}',
+      '}',
+    ].join('\n');
+    expect(kinds(source, 'worker/run.go')).toEqual([['// wait for the next tick', 'narrative']]);
+  });
+
+  it('only flags comments added by an edit', () => {
+    const oldString = [
+      '    // existing note',
+      '    total = a + b',
+    ].join('\n');
+    const newString = [
+      '    // existing note',
+      '    // explain the new branch',
+      '    total = a + b + c',
+    ].join('\n');
+    const result = checkForComments('Calc.java', undefined, oldString, newString);
+    expect(result.comments.map((c) => c.text)).toEqual(['// explain the new branch']);
+  });
+
+  it('diffs a Write against the previous file content', () => {
+    const previous = 'public class A {\n  // keep in sync with B\n}\n';
+    const next = 'public class A {\n  // keep in sync with B\n  // cache the result\n  int x;\n}\n';
+    const result = checkForComments('A.java', next, previous);
+    expect(result.count).toBe(1);
+    expect(result.comments[0].text).toBe('// cache the result');
+  });
+
+  it('accepts BDD steps only in test files', () => {
+    const source = '// Given a user\nconst user = make();\n';
+    expect(checkForComments('src/__tests__/user.test.ts', source).hasComments).toBe(false);
+    expect(checkForComments('src/user.ts', source).hasComments).toBe(true);
+  });
+
+  it('keeps regex detection for languages without a tokenizer', () => {
+    const result = checkForComments('deploy.sh', 'echo hi # say hello\n');
+    expect(result.comments.map((c) => c.text)).toEqual(['# say hello']);
+    expect(result.comments[0].kind).toBeUndefined();
+  });
+});
@@ -191,3 +191,105 @@ export const EXTENSION_TO_LANGUAGE: Record<string, string> = {
   '.sql': 'sql',
   '.lua': 'lua',
 };
+
+const JS_DIRECTIVES = [
+  /^@ts-(?:expect-error|ignore|nocheck|check)\b/,
+  /^eslint(?:-disable(?:-next-line|-line)?|-enable|-env)?\b/,
+  /^(?:prettier|biome|deno-lint|dprint)-ignore\b/,
+  /^(?:istanbul|c8|v8) ignore\b/,
+  /^@jsx(?:ImportSource|Frag|Runtime)?\b/,
+  /^<reference\s/,
+  /^(?:globals?|jshint|jslint)\s/,
+  /^webpack[A-Z]\w*\s*:/,
+  /^@vite-ignore\b/,
+  /^[@#]__(?:PURE|NO_SIDE_EFFECTS)__/,
+  /^#?(?:end)?region\b/,
+];
+
+const JAVA_DIRECTIVES = [
+  /^noinspection\b/,
+  /^checkstyle:(?:off|on)\b/i,
+  /^NOPMD\b/,
+  /^\$NON-NLS/,
+  /^@formatter:(?:off|on)\b/,
+  /^(?:end)?region\b/,
+];
+
+const C_DIRECTIVES = [
+  /^NOLINT/,
+  /^clang-format (?:off|on)\b/,
+  /^cppcheck-suppress\b/,
+  /^ReSharper (?:disable|restore)\b/,
+  /^fall ?through\b/i,
+];
+
+/**
+ * Directives recognized in every tokenized language
+ */
+export const COMMON_DIRECTIVE_PATTERNS = [
+  /^NOSONAR\b/i,
+  /^@generated\b/,
+  /^Code generated .* DO NOT EDIT\.$/,
+];
+
+/**
+ * Pragmas, linter and type checker directives per tokenized language.
+ * Matched against the comment body (markers stripped).
+ */
+export const DIRECTIVE_PATTERNS: Record<string, RegExp[]> = {
+  js: JS_DIRECTIVES,
+  ts: JS_DIRECTIVES,
+  jsx: JS_DIRECTIVES,
+  tsx: JS_DIRECTIVES,
+  java: JAVA_DIRECTIVES,
+  kotlin: [...JAVA_DIRECTIVES, /^@Suppress\b/],
+  c: C_DIRECTIVES,
+  cpp: C_DIRECTIVES,
+  cs: [...C_DIRECTIVES, /^(?:pragma|csharpier-ignore)\b/],
+  swift: [/^swiftlint:(?:disable|enable)\b/, /^(?:MARK|sourcery):/],
+  go: [
+    /^go:\w+/,
+    /^\+build\b/,
+    /^nolint\b/,
+    /^lint:(?:ignore|file-ignore)\b/,
+    /^(?:export|extern|line)\s/,
+  ],
+  rust: [/^rustfmt::skip\b/, /^SAFETY:/],
+  py: [
+    /^noqa\b/i,
+    /^type:/,
+    /^(?:pyright|mypy|pylint|ruff|isort|fmt|flake8|pytype|pyre-\w+)\s*:/,
+    /^pyre-(?:ignore|fixme|strict|unsafe)\b/,
+    /^pragma:/,
+    /^nosec\b/,
+    /^-\*-.*-\*-$/,
+    /^(?:vim?|ex):/,
+    /^(?:en)?coding[:=]/,
+    /^(?:end)?region\b/,
+  ],
+};
+
+/**
+ * License and copyright header text
+ */
+export const LICENSE_PATTERN = /\b(?:copyright|licen[cs]ed? under|license|all rights reserved)\b|\(c\)\s*\d{4}|©/i;
+
+/**
+ * License markers recognized anywhere in a file
+ */
+export const LICENSE_MARKER_PATTERN = /SPDX-License-Identifier:|@license\b|@preserve\b/;
+
+/**
+ * Task markers at the start of a comment
+ */
+export const TODO_PATTERN = /^@?(?:TODO|FIXME|HACK|XXX)\b/i;
+
+/**
+ * BDD step comments in test files (Given/When/Then, Arrange/Act/Assert)
+ */
+export const BDD_COMMENT_PATTERN = /^(?:given|when|then|and|but|arrange|act|assert)\b(?:\s*(?:&|and)\s*then\b)?/i;
+
+/**
+ * Test file paths where BDD step comments are expected
+ */
+export const TEST_FILE_PATTERN = /(?:^|[/\\])(?:__tests__|tests?|spec)[/\\]|[._-](?:test|spec)\.[^/\\]+$|(?:^|[/\\])test_[^/\\]+\.py$|_test\.(?:go|py)$/;
@@ -2,12 +2,30 @@
  * Comment Checker Filters
  *
  * Filters to determine which comments should be flagged vs skipped.
+ * Tokenized languages are classified by `classifyComments`; the regex
+ * filters below remain for the other languages.
  *
  * Adapted from oh-my-opencode's comment-checker hook.
  */
 
-import { BDD_KEYWORDS, TYPE_CHECKER_PREFIXES } from './constants.js';
-import type { CommentInfo, FilterResult, CommentFilter } from './types.js';
+import {
+  BDD_KEYWORDS,
+  TYPE_CHECKER_PREFIXES,
+  DIRECTIVE_PATTERNS,
+  COMMON_DIRECTIVE_PATTERNS,
+  LICENSE_PATTERN,
+  LICENSE_MARKER_PATTERN,
+  TODO_PATTERN,
+  BDD_COMMENT_PATTERN,
+  TEST_FILE_PATTERN,
+} from './constants.js';
+import type {
+  CommentInfo,
+  CommentKind,
+  FilterResult,
+  CommentFilter,
+  SourceComment,
+} from './types.js';
 
 /**
  * Filter for shebang comments (#!/usr/bin/env ...)
@@ -142,3 +160,88 @@ export function applyFilters(comments: CommentInfo[]): CommentInfo[] {
     return true;
   });
 }
+
+/**
+ * Whether a comment body is a pragma or linter/type checker directive.
+ * Python directives may trail another comment (`# why  # noqa: E501`).
+ */
+function isDirective(comment: SourceComment, language: string): boolean {
+  const patterns = [...(DIRECTIVE_PATTERNS[language] ?? []), ...COMMON_DIRECTIVE_PATTERNS];
+  const segments = language === 'py'
+    ? comment.body.split('#').map((segment) => segment.trim())
+    : [comment.body];
+  return segments.some((segment) => patterns.some((pattern) => pattern.test(segment)));
+}
+
+/**
+ * Consecutive full-line comments form one group (a license header or a
+ * multi-line TODO spans several `//` lines).
+ */
+function groupLineComments(comments: SourceComment[]): SourceComment[][] {
+  const groups: SourceComment[][] = [];
+  for (const comment of comments) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (
+      previous &&
+      comment.style === 'line' && previous.style === 'line' &&
+      !comment.trailing && !previous.trailing &&
+      comment.lineNumber === previous.endLine + 1
+    ) {
+      group.push(comment);
+    } else {
+      groups.push([comment]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Classify tokenized comments. Only `narrative` comments need justification;
+ * docstrings, license headers, directives, TODOs, shebangs and BDD steps in
+ * test files are recognized and left alone.
+ */
+export function classifyComments(
+  comments: SourceComment[],
+  language: string,
+  filePath: string
+): CommentInfo[] {
+  const isTestFile = TEST_FILE_PATTERN.test(filePath);
+  const results: CommentInfo[] = [];
+
+  for (const group of groupLineComments(comments)) {
+    const groupText = group.map((c) => c.body).join('\n');
+    const isLicense = group[0].inHeader && LICENSE_PATTERN.test(groupText);
+    const isTodo = TODO_PATTERN.test(group[0].body);
+
+    for (const comment of group) {
+      let kind: CommentKind;
+      if (comment.lineNumber === 1 && comment.text.startsWith('#!')) {
+        kind = 'shebang';
+      } else if (isDirective(comment, language)) {
+        kind = 'directive';
+      } else if (isLicense || LICENSE_MARKER_PATTERN.test(comment.body)) {
+        kind = 'license';
+      } else if (isTodo || TODO_PATTERN.test(comment.body)) {
+        kind = 'todo';
+      } else if (comment.isDoc) {
+        kind = 'docstring';
+      } else if (isTestFile && BDD_COMMENT_PATTERN.test(comment.body)) {
+        kind = 'bdd';
+      } else {
+        kind = 'narrative';
+      }
+
+      results.push({
+        text: comment.text,
+        lineNumber: comment.lineNumber,
+        filePath,
+        commentType: comment.style,
+        isDocstring: comment.isDoc,
+        kind,
+      });
+    }
+  }
+
+  return results;
+}
@@ -6,7 +6,9 @@
  *
  * Adapted from oh-my-opencode's comment-checker hook.
  * Instead of using an external CLI binary, this implementation does
- * comment detection directly in TypeScript.
+ * comment detection directly in TypeScript: a tokenizer for TS/JS, Python,
+ * Go, Rust, Java and other C-family languages, and regex patterns for the
+ * rest.
  */
 
 import * as fs from 'fs';
@@ -17,7 +19,8 @@ import {
   LINE_COMMENT_PATTERNS,
   EXTENSION_TO_LANGUAGE,
 } from './constants.js';
-import { applyFilters } from './filters.js';
+import { applyFilters, classifyComments } from './filters.js';
+import { tokenizeComments } from './tokenizer.js';
 import type { CommentInfo, CommentCheckResult, PendingCall } from './types.js';
 
 const DEBUG = process.env.COMMENT_CHECKER_DEBUG === '1';
@@ -40,8 +43,12 @@ function getLanguageFromPath(filePath: string): string | undefined {
   return EXTENSION_TO_LANGUAGE[ext];
 }
 
+/** Largest existing file read before a Write to diff against */
+const MAX_PREVIOUS_CONTENT_BYTES = 1024 * 1024;
+
 /**
- * Detect comments in content using regex patterns
+ * Detect comments in content, using the language tokenizer when available
+ * and regex patterns otherwise
  */
 function detectComments(content: string, filePath: string): CommentInfo[] {
   const language = getLanguageFromPath(filePath);
@@ -50,6 +57,11 @@ function detectComments(content: string, filePath: string): CommentInfo[] {
     return [];
   }
 
+  const tokenized = tokenizeComments(content, language);
+  if (tokenized) {
+    return classifyComments(tokenized, language, filePath);
+  }
+
   const pattern = LINE_COMMENT_PATTERNS[language];
   if (!pattern) {
     debugLog('no pattern for language:', language);
@@ -120,16 +132,50 @@ function extractCommentsFromEdit(
   const newComments = detectComments(newString, filePath);
 
   if (oldString) {
-    const oldComments = detectComments(oldString, filePath);
-    const oldTexts = new Set(oldComments.map((c) => c.text));
+    // Each existing comment accounts for one occurrence, so a duplicated
+    // comment is still reported
+    const normalize = (text: string) => text.replace(/\s+/g, ' ');
+    const remaining = new Map<string, number>();
+    for (const comment of detectComments(oldString, filePath)) {
+      const key = normalize(comment.text);
+      remaining.set(key, (remaining.get(key) ?? 0) + 1);
+    }
 
-    // Filter out comments that existed before
-    return newComments.filter((c) => !oldTexts.has(c.text));
+    return newComments.filter((c) => {
+      const key = normalize(c.text);
+      const count = remaining.get(key) ?? 0;
+      if (count === 0) return true;
+      remaining.set(key, count - 1);
+      return false;
+    });
   }
 
   return newComments;
 }
 
+/**
+ * Keep comments that need justification: narrative comments from the
+ * tokenizer, and regex-detected comments that pass the filters
+ */
+function selectFlaggedComments(comments: CommentInfo[]): CommentInfo[] {
+  return comments.filter((comment) =>
+    comment.kind ? comment.kind === 'narrative' : applyFilters([comment]).length > 0
+  );
+}
+
+/**
+ * Read a file's current content before a Write replaces it
+ */
+function readPreviousContent(filePath: string): string | undefined {
+  try {
+    const stat = fs.statSync(filePath);
+    if (!stat.isFile() || stat.size > MAX_PREVIOUS_CONTENT_BYTES) return undefined;
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Format comments for output message
  */
@@ -159,7 +205,9 @@ function formatCommentMessage(comments: CommentInfo[]): string {
 }
 
 /**
- * Check content for comments
+ * Check content for comments.
+ * For a Write, `oldString` may carry the file's previous content so that
+ * only newly added comments are flagged.
  */
 export function checkForComments(
   filePath: string,
@@ -171,8 +219,10 @@ export function checkForComments(
   let allComments: CommentInfo[] = [];
 
   if (content) {
-    // Write tool - check entire content
-    allComments = extractCommentsFromContent(content, filePath);
+    // Write tool - check entire content, or what changed from the old file
+    allComments = oldString
+      ? extractCommentsFromEdit(content, filePath, oldString)
+      : extractCommentsFromContent(content, filePath);
   } else if (newString) {
     // Edit tool - check new content
     allComments = extractCommentsFromEdit(newString, filePath, oldString);
@@ -188,8 +238,8 @@ export function checkForComments(
     }
   }
 
-  // Apply filters to remove acceptable comments
-  const flaggedComments = applyFilters(allComments);
+  // Remove docstrings, directives, license headers and other acceptable comments
+  const flaggedComments = selectFlaggedComments(allComments);
 
   debugLog(
     `found ${allComments.length} comments, ${flaggedComments.length} flagged after filtering`
@@ -301,6 +351,7 @@ export function createCommentCheckerHook(config?: CommentCheckerConfig) {
       pendingCalls.set(callId, {
         filePath,
         content,
+        previousContent: toolLower === 'write' ? readPreviousContent(filePath) : undefined,
         oldString,
         newString,
         edits,
@@ -392,7 +443,7 @@ export function createCommentCheckerHook(config?: CommentCheckerConfig) {
       const result = checkForComments(
         pendingCall.filePath,
         pendingCall.content,
-        pendingCall.oldString,
+        pendingCall.content ? pendingCall.previousContent : pendingCall.oldString,
         pendingCall.newString,
         pendingCall.edits
       );
@@ -408,10 +459,13 @@ export function createCommentCheckerHook(config?: CommentCheckerConfig) {
 }
 
 // Re-export types
-export type { CommentInfo, CommentCheckResult, PendingCall } from './types.js';
+export type { CommentInfo, CommentKind, CommentCheckResult, PendingCall, SourceComment } from './types.js';
 
 // Re-export filters
-export { applyFilters } from './filters.js';
+export { applyFilters, classifyComments } from './filters.js';
+
+// Re-export tokenizer
+export { tokenizeComments } from './tokenizer.js';
 
 // Re-export constants
 export {
@@ -420,4 +474,5 @@ export {
   HOOK_MESSAGE_HEADER,
   LINE_COMMENT_PATTERNS,
   EXTENSION_TO_LANGUAGE,
+  DIRECTIVE_PATTERNS,
 } from './constants.js';
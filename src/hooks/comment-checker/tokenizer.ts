@@ -0,0 +1,413 @@
+/**
+ * Comment Checker Tokenizer
+ *
+ * Single-pass lexer that finds comments and docstrings per language. It
+ * skips string, template and regex literals so that `#` inside a Python
+ * string or `//` inside a URL is never reported, and it marks doc comments
+ * by syntax (JSDoc, Rust `///`, Python docstrings, Go declaration comments).
+ */
+
+import type { SourceComment } from './types.js';
+
+/**
+ * Lexical rules for one language
+ */
+interface LanguageSyntax {
+  lineComments: string[];
+  blockComment?: { open: string; close: string; nested?: boolean };
+  /** Line comment markers that open a doc comment */
+  docLineMarkers?: string[];
+  /** Block comment openers that open a doc comment */
+  docBlockMarkers?: string[];
+  /** Delimiters of strings with backslash escapes */
+  quotes: string[];
+  /** Delimiters of strings without escapes (Go raw strings) */
+  rawQuotes?: string[];
+  /** Triple-quoted strings (Python, Kotlin, Java text blocks) */
+  tripleQuotes?: string[];
+  /** Strings may span lines without a continuation */
+  multilineStrings?: boolean;
+  templateLiterals?: boolean;
+  regexLiterals?: boolean;
+  /** Rust raw strings (r#"..."#), char literals and lifetimes */
+  rustLiterals?: boolean;
+  /** String prefixes such as r, b, f (Python) */
+  stringPrefixes?: RegExp;
+  pythonDocstrings?: boolean;
+  goDocComments?: boolean;
+}
+
+const C_BLOCK = { open: '/*', close: '*/' };
+
+const JS_SYNTAX: LanguageSyntax = {
+  lineComments: ['//'],
+  blockComment: C_BLOCK,
+  docBlockMarkers: ['/**'],
+  quotes: ['"', "'"],
+  templateLiterals: true,
+  regexLiterals: true,
+};
+
+const C_SYNTAX: LanguageSyntax = {
+  lineComments: ['//'],
+  blockComment: C_BLOCK,
+  docLineMarkers: ['///'],
+  docBlockMarkers: ['/**', '/*!'],
+  quotes: ['"', "'"],
+};
+
+const JAVA_SYNTAX: LanguageSyntax = {
+  lineComments: ['//'],
+  blockComment: C_BLOCK,
+  docBlockMarkers: ['/**'],
+  quotes: ['"', "'"],
+  tripleQuotes: ['"""'],
+};
+
+/**
+ * Languages with a tokenizer. Other languages fall back to regex detection.
+ */
+export const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  js: JS_SYNTAX,
+  ts: JS_SYNTAX,
+  jsx: JS_SYNTAX,
+  tsx: JS_SYNTAX,
+  java: JAVA_SYNTAX,
+  kotlin: { ...JAVA_SYNTAX, blockComment: { ...C_BLOCK, nested: true } },
+  c: C_SYNTAX,
+  cpp: C_SYNTAX,
+  cs: C_SYNTAX,
+  swift: {
+    ...C_SYNTAX,
+    blockComment: { ...C_BLOCK, nested: true },
+    tripleQuotes: ['"""'],
+  },
+  go: {
+    lineComments: ['//'],
+    blockComment: C_BLOCK,
+    quotes: ['"', "'"],
+    rawQuotes: ['`'],
+    goDocComments: true,
+  },
+  rust: {
+    lineComments: ['//'],
+    blockComment: { ...C_BLOCK, nested: true },
+    docLineMarkers: ['///', '//!'],
+    docBlockMarkers: ['/**', '/*!'],
+    quotes: ['"'],
+    multilineStrings: true,
+    rustLiterals: true,
+  },
+  py: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    tripleQuotes: ['"""', "'''"],
+    stringPrefixes: /^(?:[rRuUbBfF]|[rR][bBfF]|[bBfF][rR])$/,
+    pythonDocstrings: true,
+  },
+};
+
+/** Characters after which `/` starts a regex literal rather than a division */
+const REGEX_PRECEDERS = new Set('(,=:[!&|?{};+-*%<>~^'.split(''));
+const REGEX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+const GO_DECLARATION = /^(?:func|type|var|const|package)\b/;
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+
+/**
+ * Strip comment markers and leading `*` gutters.
+ */
+function commentBody(text: string, style: SourceComment['style']): string {
+  if (style === 'line') {
+    return text.replace(/^(?:\/\/+!?|#+)/, '').trim();
+  }
+  if (style === 'block') {
+    return text
+      .replace(/^\/\*+!?/, '')
+      .replace(/\*+\/$/, '')
+      .split('\n')
+      .map((line) => line.replace(/^\s*\*(?!\/)\s?/, '').trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+  return text.replace(/^[A-Za-z]*("""|'''|"|')/, '').replace(/("""|'''|"|')$/, '').trim();
+}
+
+/**
+ * Find comments and docstrings in source text.
+ * Returns null when the language has no tokenizer.
+ */
+export function tokenizeComments(content: string, language: string): SourceComment[] | null {
+  const syntax = LANGUAGE_SYNTAX[language];
+  if (!syntax) return null;
+
+  const src = content.replace(/\r\n?/g, '\n');
+  const n = src.length;
+  const comments: SourceComment[] = [];
+
+  let i = 0;
+  let line = 1;
+  let lineHasCode = false;
+  let seenCode = false;
+  let lastChar = '';
+  let lastWord: string | null = null;
+  let inTemplate = false;
+  const templateBraces: number[] = [];
+
+  const advanceTo = (end: number): void => {
+    for (let k = i; k < end && k < n; k++) {
+      if (src[k] === '\n') line++;
+    }
+    i = Math.min(end, n);
+  };
+
+  const markCode = (char: string, word: string | null = null): void => {
+    lineHasCode = true;
+    seenCode = true;
+    lastChar = char;
+    lastWord = word;
+  };
+
+  const pushComment = (start: number, end: number, style: SourceComment['style'], isDoc: boolean): void => {
+    const text = src.slice(start, end);
+    const startLine = line;
+    const trailing = lineHasCode;
+    const inHeader = !seenCode;
+    advanceTo(end);
+    comments.push({
+      text: text.trim(),
+      body: commentBody(text.trim(), style),
+      lineNumber: startLine,
+      endLine: line,
+      style,
+      isDoc,
+      trailing,
+      inHeader,
+    });
+  };
+
+  /** End index of a quoted string starting at `start` (after any prefix) */
+  const scanQuoted = (start: number, quote: string, escapes: boolean, multiline: boolean): number => {
+    let j = start + quote.length;
+    while (j < n) {
+      if (escapes && src[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (src.startsWith(quote, j)) return j + quote.length;
+      // Unterminated single-line string: resync at end of line
+      if (src[j] === '\n' && !multiline) return j;
+      j++;
+    }
+    return n;
+  };
+
+  /** End index of a block comment, honouring nesting where the language allows it */
+  const scanBlock = (start: number, open: string, close: string, nested: boolean): number => {
+    let depth = 1;
+    let j = start + open.length;
+    while (j < n) {
+      if (nested && src.startsWith(open, j)) {
+        depth++;
+        j += open.length;
+      } else if (src.startsWith(close, j)) {
+        depth--;
+        j += close.length;
+        if (depth === 0) return j;
+      } else {
+        j++;
+      }
+    }
+    return n;
+  };
+
+  /** End index of a regex literal, or -1 when `/` is not a regex */
+  const scanRegex = (start: number): number => {
+    let j = start + 1;
+    let inClass = false;
+    while (j < n) {
+      const c = src[j];
+      if (c === '\\') {
+        j += 2;
+        continue;
+      }
+      if (c === '\n') return -1;
+      if (c === '[') inClass = true;
+      else if (c === ']') inClass = false;
+      else if (c === '/' && !inClass) {
+        j++;
+        while (j < n && /[a-z]/i.test(src[j])) j++;
+        return j;
+      }
+      j++;
+    }
+    return -1;
+  };
+
+  /** Consume a string literal at `start` (prefix already included) */
+  const consumeString = (start: number, quoteAt: number): void => {
+    const triple = syntax.tripleQuotes?.find((q) => src.startsWith(q, quoteAt));
+    const raw = syntax.rawQuotes?.find((q) => src[quoteAt] === q);
+    const quote = triple ?? raw ?? syntax.quotes.find((q) => src[quoteAt] === q);
+    if (!quote) {
+      i = quoteAt + 1;
+      return;
+    }
+
+    const end = scanQuoted(quoteAt, quote, !raw, Boolean(triple || raw || syntax.multilineStrings));
+    const startsStatement = !lineHasCode;
+    const isDocstring = Boolean(syntax.pythonDocstrings) && startsStatement && (!seenCode || lastChar === ':');
+    i = start;
+    if (isDocstring) {
+      pushComment(start, end, 'docstring', true);
+    } else {
+      advanceTo(end);
+    }
+    markCode(quote);
+  };
+
+  while (i < n) {
+    const ch = src[i];
+
+    if (inTemplate) {
+      if (ch === '\\') {
+        advanceTo(i + 2);
+      } else if (ch === '`') {
+        i++;
+        inTemplate = false;
+        markCode('`');
+      } else if (ch === '$' && src[i + 1] === '{') {
+        i += 2;
+        templateBraces.push(0);
+        inTemplate = false;
+        markCode('{');
+      } else {
+        advanceTo(i + 1);
+      }
+      continue;
+    }
+
+    if (ch === '\n') {
+      line++;
+      lineHasCode = false;
+      i++;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\f' || ch === '\v') {
+      i++;
+      continue;
+    }
+
+    const block = syntax.blockComment;
+    if (block && src.startsWith(block.open, i)) {
+      const end = scanBlock(i, block.open, block.close, Boolean(block.nested));
+      const text = src.slice(i, end);
+      const isDoc = Boolean(syntax.docBlockMarkers?.some((m) => text.startsWith(m)))
+        && !text.startsWith('/**/') && !/^\/\*{3,}/.test(text);
+      pushComment(i, end, 'block', isDoc);
+      continue;
+    }
+
+    if (syntax.lineComments.some((m) => src.startsWith(m, i))) {
+      const newline = src.indexOf('\n', i);
+      const end = newline === -1 ? n : newline;
+      const text = src.slice(i, end);
+      const isDoc = Boolean(syntax.docLineMarkers?.some((m) => text.startsWith(m) && !text.startsWith(m + '/')));
+      pushComment(i, end, 'line', isDoc);
+      continue;
+    }
+
+    if (syntax.templateLiterals && ch === '`') {
+      i++;
+      inTemplate = true;
+      continue;
+    }
+
+    if (syntax.rustLiterals && ch === "'") {
+      // Char literal ('a', '\n', '\u{1F600}') or lifetime ('a)
+      const charLiteral = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/u.exec(src.slice(i, i + 12));
+      advanceTo(i + (charLiteral ? charLiteral[0].length : 1));
+      markCode("'");
+      continue;
+    }
+
+    if (syntax.quotes.includes(ch) || syntax.rawQuotes?.includes(ch)) {
+      consumeString(i, i);
+      continue;
+    }
+
+    if (syntax.regexLiterals && ch === '/') {
+      const regexAllowed = lastWord !== null ? REGEX_KEYWORDS.has(lastWord) : (lastChar === '' || REGEX_PRECEDERS.has(lastChar));
+      const end = regexAllowed ? scanRegex(i) : -1;
+      if (end !== -1) {
+        i = end;
+        markCode('/');
+        continue;
+      }
+    }
+
+    if (IDENTIFIER_START.test(ch)) {
+      let j = i + 1;
+      while (j < n && IDENTIFIER_PART.test(src[j])) j++;
+      const word = src.slice(i, j);
+
+      if (syntax.rustLiterals && /^b?r$/.test(word) && /^#*"/.test(src.slice(j, j + 256))) {
+        const hashes = /^#*/.exec(src.slice(j))![0];
+        const close = '"' + hashes;
+        const bodyStart = j + hashes.length + 1;
+        const closeAt = src.indexOf(close, bodyStart);
+        advanceTo(closeAt === -1 ? n : closeAt + close.length);
+        markCode('"');
+        continue;
+      }
+      if (syntax.stringPrefixes?.test(word) && syntax.quotes.includes(src[j])) {
+        consumeString(i, j);
+        continue;
+      }
+
+      i = j;
+      markCode(word[word.length - 1], word);
+      continue;
+    }
+
+    if (templateBraces.length > 0) {
+      const top = templateBraces.length - 1;
+      if (ch === '{') {
+        templateBraces[top]++;
+      } else if (ch === '}') {
+        if (templateBraces[top] === 0) {
+          templateBraces.pop();
+          i++;
+          inTemplate = true;
+          continue;
+        }
+        templateBraces[top]--;
+      }
+    }
+
+    i++;
+    markCode(ch);
+  }
+
+  if (syntax.goDocComments) {
+    markGoDocComments(src.split('\n'), comments);
+  }
+  return comments;
+}
+
+/**
+ * Go doc comments are the line comments directly above a declaration.
+ */
+function markGoDocComments(lines: string[], comments: SourceComment[]): void {
+  for (const comment of comments) {
+    if (comment.trailing || comment.style !== 'line') continue;
+    let next = comment.endLine;
+    while (next < lines.length && lines[next].trim().startsWith('//')) next++;
+    if (next < lines.length && GO_DECLARATION.test(lines[next])) {
+      comment.isDoc = true;
+    }
+  }
+}
@@ -11,6 +11,39 @@
  */
 export type CommentType = 'line' | 'block' | 'docstring';
 
+/**
+ * What a comment is for. Only `narrative` comments are flagged.
+ */
+export type CommentKind =
+  | 'narrative'
+  | 'docstring'
+  | 'license'
+  | 'directive'
+  | 'todo'
+  | 'shebang'
+  | 'bdd';
+
+/**
+ * Comment found by the tokenizer (before classification)
+ */
+export interface SourceComment {
+  /** Comment text including markers */
+  text: string;
+  /** Comment text with markers and gutters stripped */
+  body: string;
+  /** First line (1-based) */
+  lineNumber: number;
+  /** Last line (1-based) */
+  endLine: number;
+  style: CommentType;
+  /** Doc comment by the language's syntax (JSDoc, Rust ///, Python docstring, Go declaration comment) */
+  isDoc: boolean;
+  /** Code precedes the comment on its line */
+  trailing: boolean;
+  /** No code precedes the comment in the text */
+  inHeader: boolean;
+}
+
 /**
  * Information about a detected comment
  */
@@ -25,6 +58,8 @@ export interface CommentInfo {
   commentType: CommentType;
   /** Whether this is a docstring */
   isDocstring: boolean;
+  /** Classification from the language tokenizer (unset for regex-detected comments) */
+  kind?: CommentKind;
   /** Additional metadata */
   metadata?: Record<string, string>;
 }
@@ -37,6 +72,8 @@ export interface PendingCall {
   filePath: string;
   /** New file content (for Write tool) */
   content?: string;
+  /** File content before a Write, so only new comments are flagged */
+  previousContent?: string;
   /** Old string being replaced (for Edit tool) */
   oldString?: string;
   /** New string replacement (for Edit tool) */
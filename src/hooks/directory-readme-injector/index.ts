@@ -16,6 +16,8 @@ import {
   clearInjectedPaths,
 } from './storage.js';
 import { CONTEXT_FILENAMES, TRACKED_TOOLS } from './constants.js';
+import { applyContextBudget } from '../../features/context-budget/index.js';
+import type { ContextCandidate } from '../../features/context-budget/index.js';
 
 // Re-export submodules
 export * from './types.js';
@@ -126,7 +128,8 @@ export function createDirectoryReadmeInjectorHook(workingDirectory: string) {
    */
   function processFilePathForContextFiles(
     filePath: string,
-    sessionID: string
+    sessionID: string,
+    transcriptPath?: string
   ): string {
     const resolved = resolveFilePath(filePath);
     if (!resolved) return '';
@@ -135,7 +138,7 @@ export function createDirectoryReadmeInjectorHook(workingDirectory: string) {
     const cache = getSessionCache(sessionID);
     const contextPaths = findContextFilesUp(dir);
 
-    let output = '';
+    const candidates: ContextCandidate[] = [];
 
     for (const contextPath of contextPaths) {
       // Track by full file path to allow both README.md and AGENTS.md
@@ -151,18 +154,27 @@ export function createDirectoryReadmeInjectorHook(workingDirectory: string) {
           : '';
 
         const label = getContextLabel(contextPath);
-        output += `\n\n[${label}: ${contextPath}]\n${result}${truncationNotice}`;
-        cache.add(contextPath);
+        candidates.push({
+          source: contextPath.endsWith('AGENTS.md') ? 'directory-agents' : 'directory-readme',
+          id: contextPath,
+          content: `\n\n[${label}: ${contextPath}]\n${result}${truncationNotice}`,
+          priority: 'normal',
+          trimmable: true,
+        });
       } catch {
         // Skip files that can't be read
       }
     }
 
-    if (output) {
+    if (candidates.length === 0) return '';
+
+    // Only files the budget keeps are marked injected
+    const plan = applyContextBudget(workingDirectory, sessionID, candidates, { transcriptPath });
+    if (plan.included.length > 0) {
+      for (const entry of plan.included) cache.add(entry.id);
       saveInjectedPaths(sessionID, cache);
     }
-
-    return output;
+    return plan.included.map((entry) => entry.content).join('');
   }
 
   return {
@@ -172,13 +184,14 @@ export function createDirectoryReadmeInjectorHook(workingDirectory: string) {
     processToolExecution: (
       toolName: string,
       filePath: string,
-      sessionID: string
+      sessionID: string,
+      transcriptPath?: string
     ): string => {
       if (!TRACKED_TOOLS.includes(toolName.toLowerCase())) {
         return '';
       }
 
-      return processFilePathForContextFiles(filePath, sessionID);
+      return processFilePathForContextFiles(filePath, sessionID, transcriptPath);
     },
 
     /**
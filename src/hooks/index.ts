@@ -548,6 +548,15 @@ export {
   saveConfig as saveLearnerConfig,
   getConfigValue as getLearnerConfigValue,
   setConfigValue as setLearnerConfigValue,
+  registerSkillEmbeddingProvider,
+  unregisterSkillEmbeddingProvider,
+  loadSkillEmbeddingProviderModule,
+  syncSkillIndex,
+  querySkillIndex,
+  auditSkills,
+  quarantineSkill,
+  restoreSkill,
+  recordSkillRecovery,
   // Constants
   USER_SKILLS_DIR,
   PROJECT_SKILLS_SUBDIR,
@@ -569,7 +578,12 @@ export {
   type PromotionCandidate,
   type LearnerConfig,
   type WriteSkillResult,
-  type SkillParseResult
+  type SkillParseResult,
+  type SkillEmbeddingProvider,
+  type SemanticSkillMatch,
+  type SkillAuditReport,
+  type SkillAuditEntry,
+  type QuarantineRecord
 } from './learner/index.js';
 
 // Autopilot
@@ -768,8 +782,15 @@ export {
   handlePermissionRequest,
   isSafeCommand,
   isActiveModeRunning,
+  loadPermissionPolicy,
+  trustPermissionPolicy,
+  evaluatePermissionPolicy,
+  readPermissionDecisionLog,
   type PermissionRequestInput,
-  type HookOutput as PermissionHookOutput
+  type HookOutput as PermissionHookOutput,
+  type PermissionRule,
+  type PermissionPolicy,
+  type PolicyEvaluation
 } from './permission-handler/index.js';
 
 export {
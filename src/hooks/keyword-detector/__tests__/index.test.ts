@@ -11,6 +11,13 @@ import {
   isUnderspecifiedForExecution,
   applyRalplanGate,
   NON_LATIN_SCRIPT_PATTERN,
+  buildKeywordRegistry,
+  resolveKeywords,
+  getBuiltinKeywordPriority,
+  formatCustomKeywordMessage,
+  hasNestedQuantifier,
+  mergeKeywordMatches,
+  validateCustomKeywordConfig,
 } from '../index.js';
 
 // Mock isTeamEnabled
@@ -1416,3 +1423,100 @@ World`);
     });
   });
 });
+
+describe('custom keyword registry', () => {
+  const { registry, rejected } = buildKeywordRegistry({
+    disabled: ['tdd'],
+    custom: {
+      hotfix: { triggers: ['hotfix', 'hot fix'], skill: 'hotfix', args: '--fast', priority: 25, heavy: true },
+      migration: { pattern: '\\bmigrat(e|ion)s?\\b', prompt: 'Follow docs/MIGRATIONS.md step by step.' },
+      grind: { triggers: ['grind'], mode: 'ralph' },
+      freeze: { triggers: ['code freeze'], prompt: 'Only critical fixes are allowed.', priority: 15, exclusive: true },
+      retired: { triggers: ['retired'], prompt: 'unused', enabled: false },
+      ralph: { triggers: ['loop'], skill: 'loop' },
+      broken: { triggers: [], pattern: '(', skill: 'x', prompt: 'y' },
+    },
+  });
+
+  it('rejects invalid and built-in names with reasons', () => {
+    expect(rejected.map(r => r.name)).toEqual(['ralph', 'broken']);
+    expect(rejected[0].errors[0]).toContain('is built in');
+    expect(rejected[1].errors).toEqual([
+      'triggers must be a non-empty array of non-empty strings',
+      expect.stringContaining('pattern is not a valid regular expression'),
+      'exactly one of skill, prompt or mode is required',
+    ]);
+    expect(registry.custom.map(k => k.name)).toEqual(['hotfix', 'migration', 'grind', 'freeze']);
+  });
+
+  it('matches triggers on word boundaries and phrases across whitespace', () => {
+    expect(resolveKeywords('please do a hot  fix for login', registry).customKeywords.map(k => k.name)).toEqual(['hotfix']);
+    expect(resolveKeywords('hotfixes are tracked elsewhere', registry).customKeywords).toEqual([]);
+    expect(resolveKeywords('run the migrations', registry).customKeywords.map(k => k.name)).toEqual(['migration']);
+    expect(resolveKeywords('see `hotfix` in code', registry).customKeywords).toEqual([]);
+  });
+
+  it('orders custom keywords by priority and maps modes to built-ins', () => {
+    const resolved = resolveKeywords('migration hotfix, grind until done', registry);
+    expect(resolved.customKeywords.map(k => k.name)).toEqual(['hotfix', 'migration']);
+    expect(resolved.keywords).toEqual(['ralph']);
+    expect(getBuiltinKeywordPriority('cancel')).toBe(10);
+    expect(getBuiltinKeywordPriority('ralph')).toBe(20);
+  });
+
+  it('disables built-ins and lets exclusive keywords suppress lower priorities', () => {
+    expect(resolveKeywords('tdd the parser', registry).keywords).toEqual([]);
+    const frozen = resolveKeywords('code freeze: ralph hotfix the release', registry);
+    expect(frozen.keywords).toEqual([]);
+    expect(frozen.customKeywords.map(k => k.name)).toEqual(['freeze']);
+    expect(resolveKeywords('cancelomc the hotfix', registry)).toEqual({ keywords: ['cancel'], customKeywords: [] });
+  });
+
+  it('suppresses heavy custom keywords for small tasks', () => {
+    const result = getAllKeywordsWithSizeCheck('quick: hotfix the typo and migrate', { registry });
+    expect(result.customKeywords.map(k => k.name)).toEqual(['migration']);
+    expect(result.suppressedCustomKeywords).toEqual(['hotfix']);
+  });
+
+  it('builds skill and prompt messages', () => {
+    const [hotfix, migration, grind] = registry.custom;
+    expect(formatCustomKeywordMessage(hotfix)).toContain('[MAGIC KEYWORD: HOTFIX]');
+    expect(formatCustomKeywordMessage(hotfix)).toContain('Skill: hotfix\nArguments: --fast');
+    expect(formatCustomKeywordMessage(migration)).toBe('[MAGIC KEYWORD: MIGRATION]\n\nFollow docs/MIGRATIONS.md step by step.');
+    expect(formatCustomKeywordMessage(grind)).toBeNull();
+  });
+
+  it('rejects patterns that can backtrack catastrophically', () => {
+    expect(hasNestedQuantifier('(a+)+$')).toBe(true);
+    expect(hasNestedQuantifier('^(\\w+\\s?)*$')).toBe(true);
+    expect(hasNestedQuantifier('((ab)*c)+')).toBe(true);
+    expect(hasNestedQuantifier('(x|y{2,})*')).toBe(true);
+    expect(hasNestedQuantifier('\\bmigrat(e|ion)s?\\b')).toBe(false);
+    expect(hasNestedQuantifier('(foo)+ bar\\d+')).toBe(false);
+    expect(hasNestedQuantifier('[(a+)]+')).toBe(false);
+    expect(hasNestedQuantifier('\\(a+\\)+')).toBe(false);
+
+    expect(validateCustomKeywordConfig('slow', { pattern: '(a+)+b', prompt: 'x' }, ['ralph']))
+      .toEqual([expect.stringContaining('nested quantifiers')]);
+    expect(validateCustomKeywordConfig('long', { pattern: 'a'.repeat(201), prompt: 'x' }, ['ralph']))
+      .toEqual(['pattern must be at most 200 characters']);
+  });
+
+  it('merges custom matches into built-in matches found elsewhere', () => {
+    const [hotfix, migration, grind, freeze] = registry.custom;
+    const merged = mergeKeywordMatches(
+      [{ type: 'sciomc', priority: 500 }, { type: 'ralph', priority: 20 }],
+      [migration, grind, hotfix],
+    );
+    expect(merged.types).toEqual(['ralph', 'sciomc']);
+    expect(merged.customKeywords).toEqual([hotfix, migration]);
+
+    expect(mergeKeywordMatches([{ type: 'ultrawork', priority: 50 }], [freeze, hotfix]))
+      .toEqual({ types: [], customKeywords: [freeze] });
+  });
+
+  it('leaves built-in behaviour unchanged without a registry', () => {
+    expect(getAllKeywords('tdd the parser')).toEqual(['tdd']);
+    expect(getAllKeywordsWithSizeCheck('hotfix now').customKeywords).toEqual([]);
+  });
+});
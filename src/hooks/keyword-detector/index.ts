@@ -14,6 +14,27 @@ import {
   type TaskSizeResult,
   type TaskSizeThresholds,
 } from '../task-size-detector/index.js';
+import type { KeywordRegistryConfig } from '../../shared/types.js';
+import {
+  buildKeywordRegistry as buildRegistry,
+  matchCustomKeywords,
+  mergeKeywordMatches,
+  type CustomKeyword,
+  type KeywordRegistry,
+} from './registry.js';
+
+export {
+  DEFAULT_CUSTOM_KEYWORD_PRIORITY,
+  MAX_CUSTOM_PATTERN_LENGTH,
+  validateCustomKeywordConfig,
+  hasNestedQuantifier,
+  matchCustomKeywords,
+  mergeKeywordMatches,
+  formatCustomKeywordMessage,
+  type CustomKeyword,
+  type CustomKeywordAction,
+  type KeywordRegistry,
+} from './registry.js';
 
 export type KeywordType =
   | 'cancel'      // Priority 1
@@ -69,6 +90,24 @@ const KEYWORD_PRIORITY: KeywordType[] = [
   'ultrathink', 'deepsearch', 'analyze', 'deep-interview', 'codex', 'gemini'
 ];
 
+/**
+ * Priority of a built-in keyword on the scale shared with custom keywords:
+ * 10, 20, 30, ... in KEYWORD_PRIORITY order (lower wins).
+ */
+export function getBuiltinKeywordPriority(type: KeywordType): number {
+  return (KEYWORD_PRIORITY.indexOf(type) + 1) * 10;
+}
+
+/**
+ * Build the custom keyword registry from the `keywords` config section.
+ * Invalid entries are skipped and returned in `rejected`.
+ */
+export function buildKeywordRegistry(
+  config: KeywordRegistryConfig | null | undefined,
+): ReturnType<typeof buildRegistry> {
+  return buildRegistry(config, KEYWORD_PRIORITY);
+}
+
 /**
  * Remove code blocks from text to prevent false positives
  * Handles both fenced code blocks and inline code
@@ -129,7 +168,8 @@ export function extractPromptText(
  */
 export function detectKeywordsWithType(
   text: string,
-  _agentName?: string
+  _agentName?: string,
+  registry?: KeywordRegistry
 ): DetectedKeyword[] {
   const detected: DetectedKeyword[] = [];
   const cleanedText = sanitizeForKeywordDetection(text);
@@ -140,6 +180,9 @@ export function detectKeywordsWithType(
     if (type === 'team') {
       continue;
     }
+    if (registry?.disabledBuiltins.has(type)) {
+      continue;
+    }
 
     const pattern = KEYWORD_PATTERNS[type];
     const match = cleanedText.match(pattern);
@@ -164,25 +207,56 @@ export function hasKeyword(text: string): boolean {
 }
 
 /**
- * Get all detected keywords with conflict resolution applied
+ * Detected keywords after conflict resolution: built-in mode types plus
+ * custom skill/prompt keywords from the registry.
  */
-export function getAllKeywords(text: string): KeywordType[] {
-  const detected = detectKeywordsWithType(text);
-
-  if (detected.length === 0) return [];
+export interface ResolvedKeywords {
+  keywords: KeywordType[];
+  customKeywords: CustomKeyword[];
+}
 
-  let types = [...new Set(detected.map(d => d.type))];
+/**
+ * Detect built-in and custom keywords and resolve conflicts:
+ * - cancel suppresses everything
+ * - an exclusive custom keyword suppresses every lower-priority match
+ * - team beats autopilot
+ * - custom `mode` keywords activate their built-in mode
+ */
+export function resolveKeywords(text: string, registry?: KeywordRegistry): ResolvedKeywords {
+  const detected = detectKeywordsWithType(text, undefined, registry);
+  const customMatches = registry && registry.custom.length > 0
+    ? matchCustomKeywords(registry, sanitizeForKeywordDetection(text))
+    : [];
+
+  if (detected.length === 0 && customMatches.length === 0) {
+    return { keywords: [], customKeywords: [] };
+  }
 
   // Exclusive: cancel suppresses everything
-  if (types.includes('cancel')) return ['cancel'];
+  if (detected.some(d => d.type === 'cancel')) {
+    return { keywords: ['cancel'], customKeywords: [] };
+  }
+
+  const merged = mergeKeywordMatches(
+    detected.map(d => ({ type: d.type, priority: getBuiltinKeywordPriority(d.type) })),
+    customMatches,
+  );
+  const types = new Set<KeywordType>(merged.types);
 
   // Mutual exclusion: team beats autopilot
-  if (types.includes('team') && types.includes('autopilot')) {
-    types = types.filter(t => t !== 'autopilot');
+  if (types.has('team') && types.has('autopilot')) {
+    types.delete('autopilot');
   }
 
   // Sort by priority order
-  return KEYWORD_PRIORITY.filter(k => types.includes(k));
+  return { keywords: KEYWORD_PRIORITY.filter(k => types.has(k)), customKeywords: merged.customKeywords };
+}
+
+/**
+ * Get all detected keywords with conflict resolution applied
+ */
+export function getAllKeywords(text: string, registry?: KeywordRegistry): KeywordType[] {
+  return resolveKeywords(text, registry).keywords;
 }
 
 /**
@@ -197,6 +271,8 @@ export interface TaskSizeFilterOptions {
   largeWordLimit?: number;
   /** Suppress heavy modes for small tasks. Default: true */
   suppressHeavyModesForSmallTasks?: boolean;
+  /** Custom keywords and disabled built-ins from config */
+  registry?: KeywordRegistry;
 }
 
 /**
@@ -206,6 +282,10 @@ export interface TaskSizeAwareKeywordsResult {
   keywords: KeywordType[];
   taskSizeResult: TaskSizeResult | null;
   suppressedKeywords: KeywordType[];
+  /** Matched custom skill/prompt keywords, in priority order */
+  customKeywords: CustomKeyword[];
+  /** Names of heavy custom keywords suppressed for a small task */
+  suppressedCustomKeywords: string[];
 }
 
 /**
@@ -224,12 +304,14 @@ export function getAllKeywordsWithSizeCheck(
     smallWordLimit = 50,
     largeWordLimit = 200,
     suppressHeavyModesForSmallTasks = true,
+    registry,
   } = options;
 
-  const keywords = getAllKeywords(text);
+  const { keywords, customKeywords } = resolveKeywords(text, registry);
+  const unsuppressed = { customKeywords, suppressedCustomKeywords: [] as string[] };
 
-  if (!enabled || !suppressHeavyModesForSmallTasks || keywords.length === 0) {
-    return { keywords, taskSizeResult: null, suppressedKeywords: [] };
+  if (!enabled || !suppressHeavyModesForSmallTasks || (keywords.length === 0 && customKeywords.length === 0)) {
+    return { keywords, taskSizeResult: null, suppressedKeywords: [], ...unsuppressed };
   }
 
   const thresholds: TaskSizeThresholds = { smallWordLimit, largeWordLimit };
@@ -237,7 +319,7 @@ export function getAllKeywordsWithSizeCheck(
 
   // Only suppress heavy modes for small tasks
   if (taskSizeResult.size !== 'small') {
-    return { keywords, taskSizeResult, suppressedKeywords: [] };
+    return { keywords, taskSizeResult, suppressedKeywords: [], ...unsuppressed };
   }
 
   const suppressedKeywords: KeywordType[] = [];
@@ -253,6 +335,8 @@ export function getAllKeywordsWithSizeCheck(
     keywords: filteredKeywords,
     taskSizeResult,
     suppressedKeywords,
+    customKeywords: customKeywords.filter(k => !k.heavy),
+    suppressedCustomKeywords: customKeywords.filter(k => k.heavy).map(k => k.name),
   };
 }
 
@@ -0,0 +1,284 @@
+/**
+ * Custom Keyword Registry
+ *
+ * User-defined magic keywords declared under `keywords` in the user or
+ * project config (~/.config/claude-omc/config.jsonc, .claude/omc.jsonc):
+ *
+ *   "keywords": {
+ *     "disabled": ["tdd"],
+ *     "custom": {
+ *       "hotfix": { "triggers": ["hotfix", "hot fix"], "skill": "hotfix", "priority": 25, "heavy": true },
+ *       "migration": { "pattern": "\\bmigrat(e|ion)\\b", "prompt": "Follow docs/MIGRATIONS.md." },
+ *       "grind": { "triggers": ["grind"], "mode": "ralph" }
+ *     }
+ *   }
+ *
+ * Each keyword maps to exactly one action: a skill to invoke, a prompt to
+ * inject, or a built-in mode to activate. Project entries are deep-merged over
+ * user entries, so a project can re-prioritise or disable (`enabled: false`)
+ * a keyword defined at user level.
+ *
+ * Priorities share one scale with the built-ins: built-in keywords take
+ * 10, 20, 30, ... in KEYWORD_PRIORITY order (cancel = 10, ralph = 20, ...)
+ * and custom keywords default to DEFAULT_CUSTOM_KEYWORD_PRIORITY. Lower
+ * values win. An `exclusive` keyword suppresses every lower-priority match.
+ */
+
+import type { KeywordRegistryConfig } from '../../shared/types.js';
+import type { KeywordType } from './index.js';
+
+export const DEFAULT_CUSTOM_KEYWORD_PRIORITY = 500;
+
+const KEYWORD_NAME_RE = /^[a-z][a-z0-9-]{0,31}$/;
+
+/** Patterns run on every prompt inside a short hook timeout */
+export const MAX_CUSTOM_PATTERN_LENGTH = 200;
+
+/** What a custom keyword does when it matches */
+export type CustomKeywordAction =
+  | { kind: 'skill'; skill: string; args?: string }
+  | { kind: 'prompt'; prompt: string }
+  | { kind: 'mode'; mode: KeywordType };
+
+/** A validated custom keyword */
+export interface CustomKeyword {
+  name: string;
+  pattern: RegExp;
+  priority: number;
+  /** Suppressed for small tasks, like heavy built-in modes (mode keywords follow their mode) */
+  heavy: boolean;
+  exclusive: boolean;
+  action: CustomKeywordAction;
+  description?: string;
+}
+
+/** Custom keywords plus built-ins turned off by config */
+export interface KeywordRegistry {
+  custom: CustomKeyword[];
+  disabledBuiltins: Set<KeywordType>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Word-boundary, case-insensitive pattern for literal trigger phrases */
+function triggersToPattern(triggers: string[]): RegExp {
+  const alternatives = triggers.map(t => escapeRegExp(t.trim()).replace(/\s+/g, '\\s+'));
+  return new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'i');
+}
+
+/**
+ * Whether a regex source repeats a group that itself contains a `*`, `+` or
+ * `{n,m}` quantifier, e.g. `(a+)+` or `(\w+\s?)*`: the classic catastrophic
+ * backtracking shape.
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = [];
+  let closedGroupRepeats = false;
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    const afterGroup = closedGroupRepeats;
+    closedGroupRepeats = false;
+
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+    if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groups.push(false);
+    } else if (ch === ')') {
+      const repeats = groups.pop() ?? false;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+      closedGroupRepeats = repeats;
+    } else if (ch === '*' || ch === '+' || (ch === '{' && /^\{\d+(,\d*)?\}/.test(source.slice(i)))) {
+      if (afterGroup) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Validate a custom keyword definition.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateCustomKeywordConfig(
+  name: string,
+  config: unknown,
+  builtinTypes: readonly string[],
+): string[] {
+  const errors: string[] = [];
+  if (!KEYWORD_NAME_RE.test(name)) {
+    errors.push(`keyword name "${name}" must match ${KEYWORD_NAME_RE}`);
+  }
+  if (builtinTypes.includes(name)) {
+    errors.push(`keyword "${name}" is built in; disable it and map a new keyword with "mode" instead`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    errors.push('keyword must be an object');
+    return errors;
+  }
+
+  const c = config as Record<string, unknown>;
+  const hasTriggers = c.triggers !== undefined;
+  if (hasTriggers && (!Array.isArray(c.triggers) || c.triggers.length === 0
+    || c.triggers.some(t => typeof t !== 'string' || !t.trim()))) {
+    errors.push('triggers must be a non-empty array of non-empty strings');
+  }
+  if (c.pattern !== undefined) {
+    if (typeof c.pattern !== 'string' || !c.pattern) {
+      errors.push('pattern must be a non-empty string');
+    } else if (c.pattern.length > MAX_CUSTOM_PATTERN_LENGTH) {
+      errors.push(`pattern must be at most ${MAX_CUSTOM_PATTERN_LENGTH} characters`);
+    } else if (hasNestedQuantifier(c.pattern)) {
+      errors.push('pattern must not repeat a group that contains + or * (nested quantifiers backtrack catastrophically)');
+    } else {
+      try {
+        new RegExp(c.pattern, 'i');
+      } catch (err) {
+        errors.push(`pattern is not a valid regular expression: ${(err as Error).message}`);
+      }
+    }
+  }
+  if (!hasTriggers && c.pattern === undefined) {
+    errors.push('one of triggers or pattern is required');
+  }
+
+  const actions = (['skill', 'prompt', 'mode'] as const).filter(field => c[field] !== undefined);
+  if (actions.length !== 1) {
+    errors.push('exactly one of skill, prompt or mode is required');
+  }
+  for (const field of ['skill', 'prompt', 'args', 'description'] as const) {
+    if (c[field] !== undefined && (typeof c[field] !== 'string' || !(c[field] as string).trim())) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (c.args !== undefined && c.skill === undefined) {
+    errors.push('args is only valid with skill');
+  }
+  if (c.mode !== undefined && (typeof c.mode !== 'string' || !builtinTypes.includes(c.mode) || c.mode === 'team')) {
+    errors.push(`mode must be a built-in keyword other than team: ${builtinTypes.filter(t => t !== 'team').join(', ')}`);
+  }
+  if (c.priority !== undefined && (typeof c.priority !== 'number' || !Number.isFinite(c.priority))) {
+    errors.push('priority must be a number');
+  }
+  for (const field of ['heavy', 'exclusive', 'enabled'] as const) {
+    if (c[field] !== undefined && typeof c[field] !== 'boolean') {
+      errors.push(`${field} must be a boolean`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Build the registry from the `keywords` config section.
+ * Invalid entries are skipped and returned so callers can report them;
+ * entries with `enabled: false` are skipped silently.
+ */
+export function buildKeywordRegistry(
+  config: KeywordRegistryConfig | null | undefined,
+  builtinTypes: readonly KeywordType[],
+): { registry: KeywordRegistry; rejected: Array<{ name: string; errors: string[] }> } {
+  const rejected: Array<{ name: string; errors: string[] }> = [];
+  const custom: CustomKeyword[] = [];
+
+  for (const [name, entry] of Object.entries(config?.custom ?? {})) {
+    const errors = validateCustomKeywordConfig(name, entry, builtinTypes);
+    if (errors.length > 0) {
+      rejected.push({ name, errors });
+      continue;
+    }
+    if (entry.enabled === false) continue;
+
+    const action: CustomKeywordAction = entry.skill !== undefined
+      ? { kind: 'skill', skill: entry.skill, ...(entry.args ? { args: entry.args } : {}) }
+      : entry.prompt !== undefined
+        ? { kind: 'prompt', prompt: entry.prompt }
+        : { kind: 'mode', mode: entry.mode as KeywordType };
+
+    custom.push({
+      name,
+      pattern: entry.pattern !== undefined ? new RegExp(entry.pattern, 'i') : triggersToPattern(entry.triggers ?? []),
+      priority: entry.priority ?? DEFAULT_CUSTOM_KEYWORD_PRIORITY,
+      heavy: entry.heavy ?? false,
+      exclusive: entry.exclusive ?? false,
+      action,
+      ...(entry.description ? { description: entry.description } : {}),
+    });
+  }
+
+  const disabledBuiltins = new Set(
+    (config?.disabled ?? []).filter((t): t is KeywordType => (builtinTypes as readonly string[]).includes(t)),
+  );
+  return { registry: { custom, disabledBuiltins }, rejected };
+}
+
+/**
+ * Custom keywords whose pattern matches sanitized prompt text.
+ */
+export function matchCustomKeywords(registry: KeywordRegistry, cleanedText: string): CustomKeyword[] {
+  return registry.custom.filter(k => k.pattern.test(cleanedText));
+}
+
+/**
+ * Order built-in and custom matches on the shared priority scale (stable:
+ * built-ins first on ties) and cut everything below an exclusive keyword.
+ * Returns the built-in types to activate, including modes named by custom
+ * `mode` keywords, and the custom skill/prompt keywords, in priority order.
+ */
+export function mergeKeywordMatches<T extends string>(
+  builtins: Array<{ type: T; priority: number }>,
+  customMatches: CustomKeyword[],
+): { types: Array<T | KeywordType>; customKeywords: CustomKeyword[] } {
+  type Match = { priority: number; builtin?: T; custom?: CustomKeyword };
+  let matches: Match[] = [
+    ...builtins.map(b => ({ priority: b.priority, builtin: b.type })),
+    ...customMatches.map(k => ({ priority: k.priority, custom: k })),
+  ].sort((a, b) => a.priority - b.priority);
+
+  const exclusiveIndex = matches.findIndex(m => m.custom?.exclusive);
+  if (exclusiveIndex !== -1) {
+    const cutoff = matches[exclusiveIndex].priority;
+    matches = matches.filter(m => m.priority <= cutoff);
+  }
+
+  const types: Array<T | KeywordType> = [];
+  const customKeywords: CustomKeyword[] = [];
+  for (const match of matches) {
+    const type = match.builtin ?? (match.custom?.action.kind === 'mode' ? match.custom.action.mode : undefined);
+    if (type !== undefined) {
+      if (!types.includes(type)) types.push(type);
+    } else if (match.custom) {
+      customKeywords.push(match.custom);
+    }
+  }
+  return { types, customKeywords };
+}
+
+/**
+ * Build the context message for a matched skill or prompt keyword.
+ * Mode keywords are handled by the built-in mode they map to.
+ */
+export function formatCustomKeywordMessage(keyword: CustomKeyword): string | null {
+  const header = `[MAGIC KEYWORD: ${keyword.name.toUpperCase()}]`;
+  switch (keyword.action.kind) {
+    case 'skill': {
+      const args = keyword.action.args ? `\nArguments: ${keyword.action.args}` : '';
+      return `${header}\n\nYou MUST invoke the skill using the Skill tool:\n\nSkill: ${keyword.action.skill}${args}\n\n` +
+        'IMPORTANT: Invoke the skill IMMEDIATELY. Do not proceed without loading the skill instructions.';
+    }
+    case 'prompt':
+      return `${header}\n\n${keyword.action.prompt}`;
+    case 'mode':
+      return null;
+  }
+}
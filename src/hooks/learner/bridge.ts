@@ -19,6 +19,14 @@ import {
 import { join, dirname, basename } from "path";
 import { homedir } from "os";
 import { OmcPaths } from "../../lib/worktree-paths.js";
+import { loadConfig } from "./config.js";
+import {
+  combineConfidence,
+  querySkillIndex,
+  resolveSkillIndexProvider,
+  syncSkillIndex,
+} from "./semantic-index.js";
+import { recordSkillInjections } from "./usage.js";
 
 // Re-export constants
 export const USER_SKILLS_DIR = join(
@@ -79,7 +87,10 @@ function getCachedLevenshtein(str1: string, str2: string): number {
 /** Cached skill metadata for faster matching */
 interface CachedSkillData {
   path: string;
+  skillId?: string;
   name: string;
+  description?: string;
+  tags?: string[];
   triggers: string[];
   triggersLower: string[];
   matching: "exact" | "fuzzy" | undefined;
@@ -130,7 +141,10 @@ function getSkillMetadataCache(projectRoot: string): CachedSkillData[] {
 
       skills.push({
         path: candidate.path,
+        skillId: parsed.metadata.id,
         name,
+        description: parsed.metadata.description,
+        tags: parsed.metadata.tags,
         triggers,
         triggersLower: triggers.map((t) => t.toLowerCase()),
         matching: parsed.metadata.matching,
@@ -204,6 +218,8 @@ export interface MatchedSkill {
   scope: "user" | "project";
   triggers: string[];
   matching?: "exact" | "fuzzy";
+  /** Blended keyword/semantic confidence (0-100), set when semantic matching is on */
+  confidence?: number;
 }
 
 interface SessionState {
@@ -303,6 +319,7 @@ export function markSkillsInjected(
   };
 
   writeSessionState(projectRoot, state);
+  recordSkillInjections(projectRoot, sessionId, paths);
 }
 
 // =============================================================================
@@ -647,20 +664,59 @@ function fuzzyMatchTrigger(prompt: string, trigger: string): number {
   return Math.round(bestScore);
 }
 
+/**
+ * Semantic confidence per skill path from the persisted skill index.
+ */
+function getSemanticScores(
+  projectRoot: string,
+  skills: CachedSkillData[],
+  prompt: string,
+  provider: string,
+): Map<string, number> {
+  const index = syncSkillIndex(
+    projectRoot,
+    skills.map((skill) => ({
+      path: skill.path,
+      skillId: skill.skillId,
+      name: skill.name,
+      description: skill.description,
+      triggers: skill.triggers,
+      tags: skill.tags,
+      content: skill.content,
+    })),
+    provider,
+  );
+  const ranked = querySkillIndex(index, prompt, { maxResults: skills.length });
+  return new Map(ranked.map((match) => [match.path, match.confidence]));
+}
+
 /**
  * Find matching skills for injection based on prompt triggers.
  *
  * Options:
  * - fuzzyThreshold: minimum score for fuzzy match (default: 60)
  * - maxResults: maximum skills to return (default: 5)
+ * - semantic: blend in the semantic skill index (default: learner config `matching.semantic`)
+ * - minConfidence: minimum blended confidence when semantic (default: `matching.minConfidence`)
  */
 export function matchSkillsForInjection(
   prompt: string,
   projectRoot: string,
   sessionId: string,
-  options: { fuzzyThreshold?: number; maxResults?: number } = {},
+  options: {
+    fuzzyThreshold?: number;
+    maxResults?: number;
+    semantic?: boolean;
+    minConfidence?: number;
+  } = {},
 ): MatchedSkill[] {
-  const { fuzzyThreshold = 60, maxResults = 5 } = options;
+  const matching = loadConfig().matching;
+  const {
+    fuzzyThreshold = 60,
+    maxResults = 5,
+    semantic = matching.semantic,
+    minConfidence = matching.minConfidence,
+  } = options;
   const promptLower = prompt.toLowerCase();
 
   const alreadyInjected = new Set(
@@ -669,6 +725,14 @@ export function matchSkillsForInjection(
 
   // Use cached skill metadata instead of re-reading files each time
   const cachedSkills = getSkillMetadataCache(projectRoot);
+  const semanticScores = semantic
+    ? getSemanticScores(
+      projectRoot,
+      cachedSkills,
+      prompt,
+      resolveSkillIndexProvider(matching.provider, matching.providerModule),
+    )
+    : null;
   const matches: MatchedSkill[] = [];
 
   for (const skill of cachedSkills) {
@@ -676,10 +740,12 @@ export function matchSkillsForInjection(
 
     const useFuzzy = skill.matching === "fuzzy";
     let totalScore = 0;
+    let keywordConfidence = 0;
 
     for (const triggerLower of skill.triggersLower) {
       if (promptLower.includes(triggerLower)) {
         totalScore += 10;
+        keywordConfidence = 100;
         continue;
       }
 
@@ -687,24 +753,37 @@ export function matchSkillsForInjection(
         const fuzzyScore = fuzzyMatchTrigger(promptLower, triggerLower);
         if (fuzzyScore >= fuzzyThreshold) {
           totalScore += Math.round(fuzzyScore / 10);
+          keywordConfidence = Math.max(keywordConfidence, fuzzyScore);
         }
       }
     }
 
-    if (totalScore > 0) {
-      matches.push({
-        path: skill.path,
-        name: skill.name,
-        content: skill.content,
-        score: totalScore,
-        scope: skill.scope,
-        triggers: skill.triggers,
-        matching: skill.matching,
-      });
+    let confidence: number | undefined;
+    if (semanticScores) {
+      confidence = combineConfidence(
+        keywordConfidence,
+        semanticScores.get(skill.path) ?? 0,
+      );
+      if (confidence === 0 || confidence < minConfidence) continue;
+    } else if (totalScore === 0) {
+      continue;
     }
+
+    matches.push({
+      path: skill.path,
+      name: skill.name,
+      content: skill.content,
+      score: totalScore,
+      scope: skill.scope,
+      triggers: skill.triggers,
+      matching: skill.matching,
+      ...(confidence !== undefined ? { confidence } : {}),
+    });
   }
 
-  // Sort by score (descending) and limit
-  matches.sort((a, b) => b.score - a.score);
+  // Sort by confidence when semantic, otherwise by score (descending), and limit
+  matches.sort(
+    (a, b) => (b.confidence ?? 0) - (a.confidence ?? 0) || b.score - a.score,
+  );
   return matches.slice(0, maxResults);
 }
@@ -39,6 +39,32 @@ export interface LearnerConfig {
     /** Days before auto-prune (if enabled) */
     pruneDays: number;
   };
+  /** Skill matching configuration */
+  matching: {
+    /** Rank skills with the local semantic index (semantic-index.ts) */
+    semantic: boolean;
+    /** 'bm25' or the id of a registered embedding provider */
+    provider: string;
+    /** Absolute path of a CommonJS module exporting the provider, loaded in hook processes */
+    providerModule?: string;
+    /** Minimum confidence (0-100) for a skill to be injected */
+    minConfidence: number;
+  };
+  /** Skill lifecycle configuration (lifecycle.ts) */
+  lifecycle: {
+    /** Record usage telemetry (injections, session outcomes) */
+    enabled: boolean;
+    /** Move stale or failing project skills to quarantine at session end (opt-in) */
+    autoQuarantine: boolean;
+    /** Days without an injection before a skill is stale */
+    staleDays: number;
+    /** Sessions with an outcome required before judging failure rate */
+    minSessions: number;
+    /** Failure rate (0-1) at which a skill is demoted */
+    maxFailureRate: number;
+    /** Days of usage events kept; older events decay out of the stats */
+    retentionDays: number;
+  };
 }
 
 const DEFAULT_CONFIG: LearnerConfig = {
@@ -58,6 +84,19 @@ const DEFAULT_CONFIG: LearnerConfig = {
     autoPrune: false,
     pruneDays: 90,
   },
+  matching: {
+    semantic: false,
+    provider: 'bm25',
+    minConfidence: 35,
+  },
+  lifecycle: {
+    enabled: true,
+    autoQuarantine: false,
+    staleDays: 60,
+    minSessions: 5,
+    maxFailureRate: 0.6,
+    retentionDays: 180,
+  },
 };
 
 const CONFIG_PATH = join(getClaudeConfigDir(), 'omc', 'learner.json');
@@ -124,6 +163,14 @@ function mergeConfig(
       ...defaults.storage,
       ...partial.storage,
     },
+    matching: {
+      ...defaults.matching,
+      ...partial.matching,
+    },
+    lifecycle: {
+      ...defaults.lifecycle,
+      ...partial.lifecycle,
+    },
   };
 }
 
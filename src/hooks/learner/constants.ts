@@ -16,6 +16,12 @@ export const GLOBAL_SKILLS_DIR = join(homedir(), '.omc', 'skills');
 /** Project-level skills subdirectory */
 export const PROJECT_SKILLS_SUBDIR = OmcPaths.SKILLS;
 
+/** Quarantined user skills (outside every discovery directory) */
+export const USER_SKILLS_QUARANTINE_DIR = join(homedir(), '.omc', 'skills-quarantine');
+
+/** Quarantined project skills subdirectory */
+export const PROJECT_SKILLS_QUARANTINE_SUBDIR = `${OmcPaths.ROOT}/skills-quarantine`;
+
 /** Maximum recursion depth for skill file discovery */
 export const MAX_RECURSION_DEPTH = 10;
 
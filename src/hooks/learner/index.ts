@@ -9,6 +9,7 @@ import { contextCollector } from "../../features/context-injector/index.js";
 import { loadAllSkills, findMatchingSkills } from "./loader.js";
 import { MAX_SKILLS_PER_SESSION } from "./constants.js";
 import { loadConfig } from "./config.js";
+import { recordSkillInjections } from "./usage.js";
 import type { LearnedSkill } from "./types.js";
 
 // Re-export submodules
@@ -24,6 +25,9 @@ export * from "./detection-hook.js";
 export * from "./promotion.js";
 export * from "./config.js";
 export * from "./matcher.js";
+export * from "./semantic-index.js";
+export * from "./usage.js";
+export * from "./lifecycle.js";
 export * from "./auto-invoke.js";
 // Note: auto-learner exports are renamed to avoid collision with ralph's recordPattern
 export {
@@ -135,6 +139,13 @@ export function processMessageForSkills(
       skillIds: newSkills.map((s) => s.metadata.id),
     },
   });
+  if (projectRoot) {
+    recordSkillInjections(
+      projectRoot,
+      sessionId,
+      newSkills.map((s) => s.path),
+    );
+  }
 
   return { injected: newSkills.length, skills: newSkills };
 }
@@ -0,0 +1,272 @@
+/**
+ * Skill Lifecycle
+ *
+ * Audits learned skills against usage telemetry (usage.ts) and demotes the
+ * ones that are never matched or correlate with failing sessions by moving
+ * them to a quarantine folder outside every discovery directory:
+ *
+ *   project skills → .omc/skills-quarantine/
+ *   user skills    → ~/.omc/skills-quarantine/
+ *
+ * Quarantined skills are recorded in .omc/state/skill-lifecycle.json and can
+ * be restored with `omc skills restore <name>`.
+ */
+
+import { existsSync, mkdirSync, renameSync, statSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { loadConfig } from './config.js';
+import type { LearnerConfig } from './config.js';
+import { loadAllSkills } from './loader.js';
+import {
+  PROJECT_SKILLS_QUARANTINE_SUBDIR,
+  USER_SKILLS_QUARANTINE_DIR,
+} from './constants.js';
+import {
+  computeSkillUsageStats,
+  pruneSkillUsageLog,
+  readSkillLifecycleState,
+  readSkillUsageEvents,
+  writeSkillLifecycleState,
+} from './usage.js';
+import type { QuarantineRecord, SkillLifecycleState, SkillUsageStats } from './usage.js';
+import type { LearnedSkill } from './types.js';
+
+export type SkillHealth = 'healthy' | 'unproven' | 'stale' | 'failing';
+
+export interface SkillAuditEntry {
+  path: string;
+  relativePath: string;
+  id: string;
+  name: string;
+  scope: 'user' | 'project';
+  source: LearnedSkill['metadata']['source'];
+  stats: SkillUsageStats;
+  /** Failed sessions / sessions with an outcome (0 when none) */
+  failureRate: number;
+  status: SkillHealth;
+  reason: string;
+}
+
+export interface SkillAuditReport {
+  generatedAt: string;
+  trackingSince?: string;
+  entries: SkillAuditEntry[];
+  quarantined: QuarantineRecord[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minimum interval between automatic audits */
+const AUTO_AUDIT_INTERVAL_MS = DAY_MS;
+
+/**
+ * Classify a skill from its usage stats.
+ * `referenceAt` is when the skill could first have been used (the later of
+ * its creation and the start of tracking).
+ */
+export function classifySkill(
+  stats: SkillUsageStats,
+  referenceAt: number,
+  config: LearnerConfig['lifecycle'],
+  now: number = Date.now()
+): { status: SkillHealth; reason: string } {
+  const sessions = stats.successes + stats.failures;
+  const failureRate = sessions > 0 ? stats.failures / sessions : 0;
+
+  if (sessions >= config.minSessions && failureRate >= config.maxFailureRate) {
+    return {
+      status: 'failing',
+      reason: `${stats.failures}/${sessions} sessions hit a recovery or failed verification after injection`,
+    };
+  }
+
+  const lastUsed = stats.lastInjectedAt ? Date.parse(stats.lastInjectedAt) : referenceAt;
+  const idleDays = Math.floor((now - lastUsed) / DAY_MS);
+  if (idleDays >= config.staleDays) {
+    return {
+      status: 'stale',
+      reason: stats.lastInjectedAt
+        ? `last injected ${idleDays} days ago`
+        : `never injected in ${idleDays} days`,
+    };
+  }
+
+  if (sessions === 0) {
+    return { status: 'unproven', reason: 'no completed sessions yet' };
+  }
+  return { status: 'healthy', reason: `${stats.successes}/${sessions} sessions succeeded` };
+}
+
+function skillCreatedAt(skill: LearnedSkill): number {
+  const created = skill.metadata.createdAt ? Date.parse(skill.metadata.createdAt) : NaN;
+  if (!Number.isNaN(created)) return created;
+  try {
+    return statSync(skill.path).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Audit every discoverable skill for a project.
+ */
+export function auditSkills(projectRoot: string, options: { now?: number } = {}): SkillAuditReport {
+  const now = options.now ?? Date.now();
+  const config = loadConfig().lifecycle;
+  const state = readSkillLifecycleState(projectRoot);
+  const trackingSince = state ? Date.parse(state.trackingSince) : now;
+  const usage = computeSkillUsageStats(readSkillUsageEvents(projectRoot));
+
+  const entries = loadAllSkills(projectRoot).map((skill): SkillAuditEntry => {
+    const stats = usage.get(skill.path) ?? { injections: 0, successes: 0, failures: 0 };
+    const sessions = stats.successes + stats.failures;
+    const referenceAt = Math.max(skillCreatedAt(skill), trackingSince);
+    const { status, reason } = classifySkill(stats, referenceAt, config, now);
+    return {
+      path: skill.path,
+      relativePath: skill.relativePath,
+      id: skill.metadata.id,
+      name: skill.metadata.name,
+      scope: skill.scope,
+      source: skill.metadata.source,
+      stats,
+      failureRate: sessions > 0 ? stats.failures / sessions : 0,
+      status,
+      // Usage is logged per project, so a user skill's stats cover this project only
+      reason: skill.scope === 'user' ? `${reason} (in this project)` : reason,
+    };
+  });
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    trackingSince: state?.trackingSince,
+    entries,
+    quarantined: state?.quarantined ?? [],
+  };
+}
+
+function getQuarantineDir(scope: 'user' | 'project', projectRoot: string): string {
+  return scope === 'project'
+    ? join(projectRoot, PROJECT_SKILLS_QUARANTINE_SUBDIR)
+    : USER_SKILLS_QUARANTINE_DIR;
+}
+
+function uniquePath(path: string): string {
+  if (!existsSync(path)) return path;
+  const ext = extname(path);
+  const stem = path.slice(0, path.length - ext.length);
+  for (let i = 2; ; i++) {
+    const candidate = `${stem}-${i}${ext}`;
+    if (!existsSync(candidate)) return candidate;
+  }
+}
+
+function loadState(projectRoot: string, now: number): SkillLifecycleState {
+  return readSkillLifecycleState(projectRoot)
+    ?? { trackingSince: new Date(now).toISOString(), quarantined: [] };
+}
+
+/**
+ * Move an audited skill to quarantine and record it.
+ */
+export function quarantineSkill(
+  projectRoot: string,
+  entry: Pick<SkillAuditEntry, 'path' | 'relativePath' | 'id' | 'name' | 'scope' | 'reason'>,
+  now: number = Date.now()
+): QuarantineRecord {
+  const quarantinedPath = uniquePath(join(getQuarantineDir(entry.scope, projectRoot), entry.relativePath));
+  mkdirSync(dirname(quarantinedPath), { recursive: true });
+  renameSync(entry.path, quarantinedPath);
+
+  const record: QuarantineRecord = {
+    originalPath: entry.path,
+    quarantinedPath,
+    name: entry.name,
+    skillId: entry.id,
+    reason: entry.reason,
+    quarantinedAt: new Date(now).toISOString(),
+  };
+  const state = loadState(projectRoot, now);
+  state.quarantined.push(record);
+  writeSkillLifecycleState(projectRoot, state);
+  return record;
+}
+
+/**
+ * Quarantine every stale or failing skill from an audit.
+ * Automatic runs leave hand-written (`source: manual`) skills alone, and
+ * user-scope skills too: their usage is only known for this project.
+ */
+export function quarantineUnhealthySkills(
+  projectRoot: string,
+  report: SkillAuditReport,
+  options: { includeManual?: boolean; includeUserScope?: boolean; now?: number } = {}
+): QuarantineRecord[] {
+  const records: QuarantineRecord[] = [];
+  for (const entry of report.entries) {
+    if (entry.status !== 'stale' && entry.status !== 'failing') continue;
+    if (entry.source === 'manual' && !options.includeManual) continue;
+    if (entry.scope === 'user' && !options.includeUserScope) continue;
+    records.push(quarantineSkill(projectRoot, entry, options.now));
+  }
+  return records;
+}
+
+/**
+ * Restore a quarantined skill by name, id, file name or path.
+ */
+export function restoreSkill(projectRoot: string, nameOrPath: string): QuarantineRecord {
+  const state = readSkillLifecycleState(projectRoot);
+  const wanted = nameOrPath.toLowerCase();
+  const index = (state?.quarantined ?? []).findIndex(record =>
+    record.name.toLowerCase() === wanted ||
+    record.skillId?.toLowerCase() === wanted ||
+    basename(record.originalPath).toLowerCase() === wanted ||
+    record.originalPath === nameOrPath ||
+    record.quarantinedPath === nameOrPath
+  );
+  if (!state || index === -1) {
+    throw new Error(`No quarantined skill matches "${nameOrPath}"`);
+  }
+
+  const record = state.quarantined[index];
+  if (existsSync(record.originalPath)) {
+    throw new Error(`Cannot restore: ${record.originalPath} already exists`);
+  }
+  mkdirSync(dirname(record.originalPath), { recursive: true });
+  renameSync(record.quarantinedPath, record.originalPath);
+
+  state.quarantined.splice(index, 1);
+  writeSkillLifecycleState(projectRoot, state);
+  return record;
+}
+
+/**
+ * Session-end maintenance: at most once a day, quarantine stale or failing
+ * project skills (when `lifecycle.autoQuarantine` is set) and prune usage
+ * events past the retention window.
+ */
+export function runScheduledSkillLifecycle(
+  projectRoot: string,
+  now: number = Date.now()
+): QuarantineRecord[] {
+  const config = loadConfig().lifecycle;
+  if (!config.enabled) return [];
+
+  const state = readSkillLifecycleState(projectRoot);
+  if (!state) return [];
+  if (state.lastAutoAuditAt && now - Date.parse(state.lastAutoAuditAt) < AUTO_AUDIT_INTERVAL_MS) {
+    return [];
+  }
+
+  pruneSkillUsageLog(projectRoot, config.retentionDays, now);
+  const records = config.autoQuarantine
+    ? quarantineUnhealthySkills(projectRoot, auditSkills(projectRoot, { now }), { now })
+    : [];
+
+  writeSkillLifecycleState(projectRoot, {
+    ...loadState(projectRoot, now),
+    lastAutoAuditAt: new Date(now).toISOString(),
+  });
+  return records;
+}
@@ -10,6 +10,10 @@ import { relative, normalize } from 'path';
 import { findSkillFiles } from './finder.js';
 import { parseSkillFile } from './parser.js';
 import { DEBUG_ENABLED } from './constants.js';
+import { loadConfig } from './config.js';
+import { matchSkills } from './matcher.js';
+import { resolveSkillIndexProvider, syncSkillIndex } from './semantic-index.js';
+import type { IndexableSkill } from './semantic-index.js';
 import type { LearnedSkill, SkillMetadata } from './types.js';
 
 /**
@@ -76,8 +80,53 @@ export function loadSkillById(skillId: string, projectRoot: string | null): Lear
   return skills.find(s => s.metadata.id === skillId) || null;
 }
 
+/**
+ * Map a loaded skill to the fields indexed by the semantic index.
+ */
+export function toIndexableSkill(skill: LearnedSkill): IndexableSkill {
+  return {
+    path: skill.path,
+    skillId: skill.metadata.id,
+    name: skill.metadata.name,
+    description: skill.metadata.description,
+    triggers: skill.metadata.triggers,
+    tags: skill.metadata.tags,
+    content: skill.content,
+  };
+}
+
+/**
+ * Rank skills with the semantic index blended into trigger matching.
+ * Only skills at or above `matching.minConfidence` are returned.
+ */
+function findSemanticMatchingSkills(
+  message: string,
+  projectRoot: string | null,
+  skills: LearnedSkill[],
+  limit: number
+): LearnedSkill[] {
+  const { provider, providerModule, minConfidence } = loadConfig().matching;
+  const semanticIndex = syncSkillIndex(
+    projectRoot,
+    skills.map(toIndexableSkill),
+    resolveSkillIndexProvider(provider, providerModule),
+  );
+  const byId = new Map(skills.map(skill => [skill.metadata.id, skill]));
+
+  return matchSkills(
+    message,
+    skills.map(skill => ({
+      id: skill.metadata.id,
+      triggers: skill.metadata.triggers,
+      tags: skill.metadata.tags,
+    })),
+    { threshold: minConfidence, maxResults: limit, semanticIndex }
+  ).map(match => byId.get(match.skillId)!);
+}
+
 /**
  * Find skills matching keywords in user message.
+ * Uses the semantic index when `matching.semantic` is enabled.
  */
 export function findMatchingSkills(
   message: string,
@@ -85,6 +134,10 @@ export function findMatchingSkills(
   limit: number = 5
 ): LearnedSkill[] {
   const skills = loadAllSkills(projectRoot);
+  if (loadConfig().matching.semantic) {
+    return findSemanticMatchingSkills(message, projectRoot, skills, limit);
+  }
+
   const messageLower = message.toLowerCase();
 
   const scored = skills.map(skill => {
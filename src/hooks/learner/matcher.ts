@@ -1,6 +1,9 @@
 // Smart skill matcher with fuzzy matching, pattern detection, and confidence scoring
 // No external dependencies - uses built-in only
 
+import { combineConfidence, querySkillIndex } from './semantic-index.js';
+import type { SkillIndex } from './semantic-index.js';
+
 export interface MatchResult {
   skillId: string;
   confidence: number; // 0-100
@@ -24,6 +27,7 @@ interface SkillInput {
 interface MatchOptions {
   threshold?: number; // Minimum confidence score (default: 30)
   maxResults?: number; // Maximum results to return (default: 10)
+  semanticIndex?: SkillIndex; // Blend in semantic confidence for indexed skills (matched by skill id)
 }
 
 /**
@@ -34,7 +38,7 @@ export function matchSkills(
   skills: SkillInput[],
   options: MatchOptions = {}
 ): MatchResult[] {
-  const { threshold = 30, maxResults = 10 } = options;
+  const { threshold = 30, maxResults = 10, semanticIndex } = options;
   const trimmedPrompt = prompt.trim();
 
   // Early return for empty or whitespace-only prompts
@@ -46,6 +50,18 @@ export function matchSkills(
   const context = extractContext(prompt);
   const results: MatchResult[] = [];
 
+  // Semantic confidence per indexed skill id (0 when indexed but unrelated)
+  const semanticScores = new Map<string, number>();
+  if (semanticIndex) {
+    for (const doc of Object.values(semanticIndex.documents)) {
+      semanticScores.set(doc.skillId ?? doc.path, 0);
+    }
+    const ranked = querySkillIndex(semanticIndex, trimmedPrompt, { maxResults: semanticScores.size });
+    for (const match of ranked) {
+      semanticScores.set(match.id, match.confidence);
+    }
+  }
+
   for (const skill of skills) {
     const allTriggers = [...skill.triggers, ...(skill.tags || [])];
     const matches: Array<{
@@ -77,22 +93,31 @@ export function matchSkills(
       }
     }
 
+    let confidence = 0;
+    let matchType: MatchResult['matchType'] = 'semantic';
     if (matches.length > 0) {
       // Calculate overall confidence based on best matches
       const bestMatch = matches.reduce((a, b) => (a.score > b.score ? a : b));
       const avgScore =
         matches.reduce((sum, m) => sum + m.score, 0) / matches.length;
-      const confidence = Math.round(bestMatch.score * 0.7 + avgScore * 0.3);
-
-      if (confidence >= threshold) {
-        results.push({
-          skillId: skill.id,
-          confidence,
-          matchedTriggers: matches.map((m) => m.trigger),
-          matchType: bestMatch.type,
-          context,
-        });
-      }
+      confidence = Math.round(bestMatch.score * 0.7 + avgScore * 0.3);
+      matchType = bestMatch.type;
+    }
+
+    const semantic = semanticScores.get(skill.id);
+    if (semantic !== undefined) {
+      if (semantic > confidence) matchType = 'semantic';
+      confidence = combineConfidence(confidence, semantic);
+    }
+
+    if (confidence > 0 && confidence >= threshold) {
+      results.push({
+        skillId: skill.id,
+        confidence,
+        matchedTriggers: matches.map((m) => m.trigger),
+        matchType,
+        context,
+      });
     }
   }
 
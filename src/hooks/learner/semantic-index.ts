@@ -0,0 +1,482 @@
+/**
+ * Semantic Skill Index
+ *
+ * Local retrieval index over learned skills (name, description, triggers,
+ * tags and body) so paraphrased prompts still find the right skill.
+ * BM25 is the built-in scorer; a local embedding model can be plugged in
+ * with registerSkillEmbeddingProvider() and selected via the learner config
+ * (`matching.provider`). Hook processes load it from `matching.providerModule`.
+ *
+ * The index is persisted to .omc/state/skill-index.json (~/.omc/state for
+ * user-only contexts) and updated incrementally: documents are re-indexed
+ * only when their content hash changes.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { homedir } from 'os';
+import { isAbsolute, join } from 'path';
+import { getOmcRoot } from '../../lib/worktree-paths.js';
+import { atomicWriteJsonSync } from '../../lib/atomic-write.js';
+import { DEBUG_ENABLED } from './constants.js';
+
+/** Built-in lexical scorer id */
+export const DEFAULT_SKILL_INDEX_PROVIDER = 'bm25';
+
+const INDEX_VERSION = 1;
+const INDEX_FILENAME = 'skill-index.json';
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 document-length normalization */
+const BM25_B = 0.75;
+
+/** Triggers and names are repeated so they outweigh body text */
+const TRIGGER_WEIGHT = 3;
+const NAME_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does',
+  'for', 'from', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'not', 'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'their', 'then',
+  'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'why',
+  'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Skill fields that feed the index.
+ */
+export interface IndexableSkill {
+  /** Absolute path to the skill file (document key) */
+  path: string;
+  /** Skill id from frontmatter, when present */
+  skillId?: string;
+  name: string;
+  description?: string;
+  triggers: string[];
+  tags?: string[];
+  /** Skill body (without frontmatter) */
+  content: string;
+}
+
+/**
+ * Local embedding model. `embed` must be synchronous because skill matching
+ * runs inside prompt hooks; wrap native/WASM models accordingly.
+ */
+export interface SkillEmbeddingProvider {
+  /** Identifier referenced by `matching.provider` in learner config */
+  id: string;
+  embed(text: string): number[];
+}
+
+export interface SkillIndexDocument {
+  path: string;
+  skillId?: string;
+  /** Hash of the indexed text; unchanged documents are not re-indexed */
+  hash: string;
+  /** Token count (for BM25 length normalization) */
+  length: number;
+  /** Term frequencies */
+  terms: Record<string, number>;
+  /** Embedding vector (only when indexed with an embedding provider) */
+  vector?: number[];
+}
+
+export interface SkillIndex {
+  version: number;
+  /** Provider used to build vectors ('bm25' when lexical only) */
+  provider: string;
+  documents: Record<string, SkillIndexDocument>;
+  updatedAt: string;
+}
+
+/**
+ * Ranked semantic match.
+ */
+export interface SemanticSkillMatch {
+  /** Skill id when known, otherwise the skill path */
+  id: string;
+  path: string;
+  /** 0-100 */
+  confidence: number;
+}
+
+export interface SkillIndexQueryOptions {
+  /** Minimum confidence to return (default: 0) */
+  minConfidence?: number;
+  /** Maximum results (default: 10) */
+  maxResults?: number;
+}
+
+const embeddingProviders = new Map<string, SkillEmbeddingProvider>();
+
+/**
+ * Register a local embedding model for skill matching.
+ */
+export function registerSkillEmbeddingProvider(provider: SkillEmbeddingProvider): void {
+  if (provider.id === DEFAULT_SKILL_INDEX_PROVIDER) {
+    throw new Error(`"${DEFAULT_SKILL_INDEX_PROVIDER}" is the built-in provider id`);
+  }
+  embeddingProviders.set(provider.id, provider);
+}
+
+export function unregisterSkillEmbeddingProvider(id: string): void {
+  embeddingProviders.delete(id);
+}
+
+const warnedProviders = new Set<string>();
+
+function isEmbeddingProvider(value: unknown): value is SkillEmbeddingProvider {
+  const candidate = value as Partial<SkillEmbeddingProvider> | null;
+  return !!candidate && typeof candidate.id === 'string' && typeof candidate.embed === 'function';
+}
+
+/**
+ * Load and register an embedding provider from a CommonJS module exporting
+ * it as `module.exports` or `exports.default`. Skill matching runs in hook
+ * processes where nothing calls registerSkillEmbeddingProvider(), so this is
+ * how a configured provider reaches them. Returns the provider id, or null
+ * when the module cannot be loaded.
+ */
+export function loadSkillEmbeddingProviderModule(modulePath: string): string | null {
+  const resolved = modulePath.startsWith('~/') ? join(homedir(), modulePath.slice(2)) : modulePath;
+  if (!isAbsolute(resolved)) {
+    if (DEBUG_ENABLED) {
+      console.warn(`[learner] matching.providerModule must be an absolute path: ${modulePath}`);
+    }
+    return null;
+  }
+  try {
+    const loaded = createRequire(resolved)(resolved) as unknown;
+    const provider = isEmbeddingProvider(loaded)
+      ? loaded
+      : (loaded as { default?: unknown } | null)?.default;
+    if (!isEmbeddingProvider(provider)) {
+      if (DEBUG_ENABLED) {
+        console.warn(`[learner] ${modulePath} does not export an embedding provider ({ id, embed })`);
+      }
+      return null;
+    }
+    registerSkillEmbeddingProvider(provider);
+    return provider.id;
+  } catch (error) {
+    if (DEBUG_ENABLED) {
+      console.warn(`[learner] Failed to load embedding provider from ${modulePath}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Resolve the configured provider id to one usable in this process, loading
+ * `providerModule` when the provider is not registered yet. Unavailable
+ * providers fall back to bm25, with a debug warning (once per process).
+ */
+export function resolveSkillIndexProvider(provider: string, providerModule?: string): string {
+  if (!provider || provider === DEFAULT_SKILL_INDEX_PROVIDER || embeddingProviders.has(provider)) {
+    return provider || DEFAULT_SKILL_INDEX_PROVIDER;
+  }
+  if (providerModule && !warnedProviders.has(provider)) {
+    const loadedId = loadSkillEmbeddingProviderModule(providerModule);
+    if (loadedId && loadedId !== provider && DEBUG_ENABLED) {
+      console.warn(`[learner] ${providerModule} provides "${loadedId}", not "${provider}"`);
+    }
+  }
+  if (embeddingProviders.has(provider)) return provider;
+  if (!warnedProviders.has(provider)) {
+    warnedProviders.add(provider);
+    if (DEBUG_ENABLED) {
+      console.warn(
+        `[learner] Embedding provider "${provider}" is not available${providerModule ? '' : ' (set matching.providerModule)'}, using ${DEFAULT_SKILL_INDEX_PROVIDER}`,
+      );
+    }
+  }
+  return DEFAULT_SKILL_INDEX_PROVIDER;
+}
+
+/**
+ * Resolve a provider id to an embedding provider.
+ * Returns null for bm25 and for unregistered ids (which fall back to bm25).
+ */
+function resolveEmbeddingProvider(id: string | undefined): SkillEmbeddingProvider | null {
+  if (!id || id === DEFAULT_SKILL_INDEX_PROVIDER) return null;
+  const provider = embeddingProviders.get(id);
+  if (!provider && DEBUG_ENABLED) {
+    console.warn(`[learner] Embedding provider "${id}" is not registered, using ${DEFAULT_SKILL_INDEX_PROVIDER}`);
+  }
+  return provider ?? null;
+}
+
+/**
+ * Light suffix stripping so "caching", "cached" and "caches" share a term.
+ */
+function stem(token: string): string {
+  if (token.length <= 3) return token;
+  let s = token;
+  if (s.endsWith('ies') && s.length > 4) s = `${s.slice(0, -3)}y`;
+  else if (/(?:ss|sh|ch|x|z)es$/.test(s)) s = s.slice(0, -2);
+  else if (s.endsWith('s') && !s.endsWith('ss')) s = s.slice(0, -1);
+  if (s.endsWith('ing') && s.length > 5) s = s.slice(0, -3);
+  else if (s.endsWith('ed') && s.length > 4) s = s.slice(0, -2);
+  if (s.endsWith('e') && s.length > 3) s = s.slice(0, -1);
+  return s;
+}
+
+/**
+ * Tokenize text into normalized index terms.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+function repeat(text: string, times: number): string {
+  return Array(times).fill(text).join(' ');
+}
+
+function buildDocumentText(skill: IndexableSkill): string {
+  return [
+    repeat(skill.name, NAME_WEIGHT),
+    skill.description ?? '',
+    repeat(skill.triggers.join(' '), TRIGGER_WEIGHT),
+    (skill.tags ?? []).join(' '),
+    skill.content,
+  ].join('\n');
+}
+
+/**
+ * Create an empty index for a provider.
+ */
+export function createSkillIndex(provider: string = DEFAULT_SKILL_INDEX_PROVIDER): SkillIndex {
+  return { version: INDEX_VERSION, provider, documents: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Add or refresh a skill in the index.
+ * Returns false when the document was already up to date.
+ */
+export function indexSkill(index: SkillIndex, skill: IndexableSkill): boolean {
+  const text = buildDocumentText(skill);
+  const hash = createHash('sha256').update(text).digest('hex').slice(0, 16);
+  const provider = resolveEmbeddingProvider(index.provider);
+  const existing = index.documents[skill.path];
+  if (existing && existing.hash === hash && existing.skillId === skill.skillId
+    && (!provider || existing.vector)) {
+    return false;
+  }
+
+  const tokens = tokenize(text);
+  const terms: Record<string, number> = {};
+  for (const token of tokens) terms[token] = (terms[token] ?? 0) + 1;
+
+  const document: SkillIndexDocument = { path: skill.path, hash, length: tokens.length, terms };
+  if (skill.skillId) document.skillId = skill.skillId;
+  if (provider) document.vector = provider.embed(text);
+
+  index.documents[skill.path] = document;
+  index.updatedAt = new Date().toISOString();
+  return true;
+}
+
+/**
+ * Remove a skill from the index. Returns false when it was not indexed.
+ */
+export function removeSkillFromIndex(index: SkillIndex, path: string): boolean {
+  if (!index.documents[path]) return false;
+  delete index.documents[path];
+  index.updatedAt = new Date().toISOString();
+  return true;
+}
+
+/**
+ * Path of the persisted index for a project (or the user scope when null).
+ */
+export function getSkillIndexPath(projectRoot: string | null): string {
+  const root = projectRoot ? getOmcRoot(projectRoot) : join(homedir(), '.omc');
+  return join(root, 'state', INDEX_FILENAME);
+}
+
+/**
+ * Load the persisted index. A missing, unreadable or outdated file, or one
+ * built with a different provider, yields an empty index.
+ */
+export function loadSkillIndex(
+  projectRoot: string | null,
+  provider: string = DEFAULT_SKILL_INDEX_PROVIDER
+): SkillIndex {
+  const indexPath = getSkillIndexPath(projectRoot);
+  if (!existsSync(indexPath)) return createSkillIndex(provider);
+
+  try {
+    const data = JSON.parse(readFileSync(indexPath, 'utf-8')) as SkillIndex;
+    if (data.version !== INDEX_VERSION || data.provider !== provider || !data.documents) {
+      return createSkillIndex(provider);
+    }
+    return data;
+  } catch (error) {
+    if (DEBUG_ENABLED) {
+      console.error('[learner] Error loading skill index:', error);
+    }
+    return createSkillIndex(provider);
+  }
+}
+
+export function saveSkillIndex(projectRoot: string | null, index: SkillIndex): void {
+  try {
+    atomicWriteJsonSync(getSkillIndexPath(projectRoot), index);
+  } catch (error) {
+    if (DEBUG_ENABLED) {
+      console.error('[learner] Error saving skill index:', error);
+    }
+  }
+}
+
+/**
+ * Bring the persisted index in line with the current skill set:
+ * new or edited skills are (re-)indexed, deleted ones dropped.
+ * Writes the index only when something changed.
+ */
+export function syncSkillIndex(
+  projectRoot: string | null,
+  skills: IndexableSkill[],
+  provider: string = DEFAULT_SKILL_INDEX_PROVIDER
+): SkillIndex {
+  const index = loadSkillIndex(projectRoot, provider);
+  let changed = false;
+
+  const livePaths = new Set(skills.map((s) => s.path));
+  for (const path of Object.keys(index.documents)) {
+    if (!livePaths.has(path)) changed = removeSkillFromIndex(index, path) || changed;
+  }
+  for (const skill of skills) {
+    changed = indexSkill(index, skill) || changed;
+  }
+
+  if (changed) saveSkillIndex(projectRoot, index);
+  return index;
+}
+
+/**
+ * Incrementally index a single skill (used by the writer after saving).
+ */
+export function updateSkillIndexEntry(
+  projectRoot: string | null,
+  skill: IndexableSkill,
+  provider: string = DEFAULT_SKILL_INDEX_PROVIDER
+): void {
+  const index = loadSkillIndex(projectRoot, provider);
+  if (indexSkill(index, skill)) saveSkillIndex(projectRoot, index);
+}
+
+/**
+ * BM25 confidence: the document's BM25 score relative to that of an
+ * average-length document containing every indexed query term once,
+ * capped at 100. Query terms the index has never seen are ignored.
+ */
+function scoreBm25(documents: SkillIndexDocument[], queryTerms: string[]): Map<string, number> {
+  const scores = new Map<string, number>();
+  if (documents.length === 0) return scores;
+
+  const docFreq = new Map<string, number>();
+  let totalLength = 0;
+  for (const doc of documents) {
+    totalLength += doc.length;
+    for (const term of queryTerms) {
+      if (doc.terms[term]) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    }
+  }
+
+  const n = documents.length;
+  const avgLength = totalLength / n || 1;
+  const idf = new Map<string, number>();
+  let reference = 0;
+  for (const [term, df] of docFreq) {
+    const weight = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    idf.set(term, weight);
+    reference += weight;
+  }
+  if (reference === 0) return scores;
+
+  for (const doc of documents) {
+    let score = 0;
+    for (const [term, weight] of idf) {
+      const tf = doc.terms[term];
+      if (!tf) continue;
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength);
+      score += (weight * tf * (BM25_K1 + 1)) / (tf + norm);
+    }
+    if (score > 0) {
+      scores.set(doc.path, Math.min(100, Math.round((score / reference) * 100)));
+    }
+  }
+  return scores;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function scoreEmbedding(
+  documents: SkillIndexDocument[],
+  provider: SkillEmbeddingProvider,
+  prompt: string
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  const query = provider.embed(prompt);
+  for (const doc of documents) {
+    if (!doc.vector) continue;
+    const similarity = cosineSimilarity(query, doc.vector);
+    if (similarity > 0) scores.set(doc.path, Math.round(Math.min(1, similarity) * 100));
+  }
+  return scores;
+}
+
+/**
+ * Rank indexed skills against a prompt.
+ */
+export function querySkillIndex(
+  index: SkillIndex,
+  prompt: string,
+  options: SkillIndexQueryOptions = {}
+): SemanticSkillMatch[] {
+  const { minConfidence = 0, maxResults = 10 } = options;
+  if (!prompt.trim()) return [];
+
+  const documents = Object.values(index.documents);
+  const provider = resolveEmbeddingProvider(index.provider);
+  const scores = provider
+    ? scoreEmbedding(documents, provider, prompt)
+    : scoreBm25(documents, [...new Set(tokenize(prompt))]);
+
+  const matches: SemanticSkillMatch[] = [];
+  for (const doc of documents) {
+    const confidence = scores.get(doc.path);
+    if (confidence === undefined || confidence < minConfidence) continue;
+    matches.push({ id: doc.skillId ?? doc.path, path: doc.path, confidence });
+  }
+
+  return matches
+    .sort((a, b) => b.confidence - a.confidence || a.path.localeCompare(b.path))
+    .slice(0, maxResults);
+}
+
+/**
+ * Blend keyword and semantic confidence (both 0-100).
+ * A literal trigger hit with an unrelated body is pulled down toward the
+ * semantic score, while a strong paraphrase keeps its semantic score.
+ */
+export function combineConfidence(keyword: number, semantic: number): number {
+  return Math.max(semantic, Math.round((keyword + semantic) / 2));
+}
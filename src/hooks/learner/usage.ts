@@ -0,0 +1,292 @@
+/**
+ * Skill Usage Telemetry
+ *
+ * Append-only event log (.omc/state/skill-usage.jsonl) recording when
+ * learned skills are injected and how the session went afterwards:
+ *
+ *   {"type":"injected","sessionId":"s1","skill":"/abs/skill.md","at":"..."}
+ *   {"type":"recovery","sessionId":"s1","reason":"tool-failure","at":"..."}
+ *   {"type":"session-end","sessionId":"s1","outcome":"success","at":"..."}
+ *
+ * Several hook processes append concurrently, so events are never rewritten
+ * in place; stats are folded from the log on demand (see lifecycle.ts).
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { getOmcRoot } from '../../lib/worktree-paths.js';
+import { atomicWriteJsonSync } from '../../lib/atomic-write.js';
+import { loadConfig } from './config.js';
+import { DEBUG_ENABLED } from './constants.js';
+
+export type SkillSessionOutcome = 'success' | 'failure';
+
+export type SkillUsageEvent =
+  | { type: 'injected'; sessionId: string; skill: string; at: string }
+  | { type: 'recovery'; sessionId: string; reason: string; at: string }
+  | { type: 'session-end'; sessionId: string; outcome: SkillSessionOutcome; at: string };
+
+/**
+ * Per-skill usage folded from the event log.
+ */
+export interface SkillUsageStats {
+  /** Times the skill was injected */
+  injections: number;
+  /** Sessions that ended successfully after the skill was injected */
+  successes: number;
+  /** Sessions that hit a recovery or failed verification after injection */
+  failures: number;
+  /** Most recent injection (ISO timestamp) */
+  lastInjectedAt?: string;
+}
+
+/**
+ * Skill moved out of the discovery directories.
+ */
+export interface QuarantineRecord {
+  originalPath: string;
+  quarantinedPath: string;
+  name: string;
+  skillId?: string;
+  reason: string;
+  quarantinedAt: string;
+}
+
+/**
+ * Lifecycle bookkeeping (.omc/state/skill-lifecycle.json).
+ */
+export interface SkillLifecycleState {
+  /** When telemetry started; skills are never judged stale before staleDays past this */
+  trackingSince: string;
+  /** Last automatic audit (throttles session-end demotion) */
+  lastAutoAuditAt?: string;
+  quarantined: QuarantineRecord[];
+}
+
+const USAGE_LOG_FILENAME = 'skill-usage.jsonl';
+const LIFECYCLE_STATE_FILENAME = 'skill-lifecycle.json';
+
+export function getSkillUsageLogPath(projectRoot: string): string {
+  return join(getOmcRoot(projectRoot), 'state', USAGE_LOG_FILENAME);
+}
+
+export function getSkillLifecycleStatePath(projectRoot: string): string {
+  return join(getOmcRoot(projectRoot), 'state', LIFECYCLE_STATE_FILENAME);
+}
+
+/**
+ * Read lifecycle state. Returns null before telemetry has started.
+ */
+export function readSkillLifecycleState(projectRoot: string): SkillLifecycleState | null {
+  const statePath = getSkillLifecycleStatePath(projectRoot);
+  if (!existsSync(statePath)) return null;
+  try {
+    const data = JSON.parse(readFileSync(statePath, 'utf-8')) as SkillLifecycleState;
+    return typeof data.trackingSince === 'string'
+      ? { ...data, quarantined: Array.isArray(data.quarantined) ? data.quarantined : [] }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeSkillLifecycleState(projectRoot: string, state: SkillLifecycleState): void {
+  atomicWriteJsonSync(getSkillLifecycleStatePath(projectRoot), state);
+}
+
+/**
+ * Append events to the usage log. Telemetry failures never break hooks.
+ */
+export function appendSkillUsageEvents(projectRoot: string, events: SkillUsageEvent[]): void {
+  if (events.length === 0) return;
+  try {
+    const logPath = getSkillUsageLogPath(projectRoot);
+    mkdirSync(dirname(logPath), { recursive: true });
+    appendFileSync(logPath, events.map((e) => JSON.stringify(e)).join('\n') + '\n');
+    if (!readSkillLifecycleState(projectRoot)) {
+      writeSkillLifecycleState(projectRoot, { trackingSince: events[0].at, quarantined: [] });
+    }
+  } catch (error) {
+    if (DEBUG_ENABLED) {
+      console.error('[learner] Error writing skill usage:', error);
+    }
+  }
+}
+
+/**
+ * Record skills injected into a session.
+ */
+export function recordSkillInjections(
+  projectRoot: string,
+  sessionId: string,
+  skillPaths: string[],
+  now: Date = new Date()
+): void {
+  if (!sessionId || !loadConfig().lifecycle.enabled) return;
+  const at = now.toISOString();
+  appendSkillUsageEvents(
+    projectRoot,
+    skillPaths.map((skill) => ({ type: 'injected', sessionId, skill, at }))
+  );
+}
+
+/**
+ * Read all usage events, skipping malformed lines.
+ */
+export function readSkillUsageEvents(projectRoot: string): SkillUsageEvent[] {
+  const logPath = getSkillUsageLogPath(projectRoot);
+  if (!existsSync(logPath)) return [];
+
+  const events: SkillUsageEvent[] = [];
+  for (const line of readFileSync(logPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as SkillUsageEvent;
+      if (event && typeof event.sessionId === 'string' && typeof event.at === 'string') {
+        events.push(event);
+      }
+    } catch {
+      // Torn or corrupt line
+    }
+  }
+  return events;
+}
+
+function sessionHasInjections(projectRoot: string, sessionId: string): boolean {
+  return readSkillUsageEvents(projectRoot)
+    .some((e) => e.type === 'injected' && e.sessionId === sessionId);
+}
+
+/**
+ * Record a recovery (repeated tool failure, error recovery) in a session.
+ * Only sessions that received skills are tracked.
+ */
+export function recordSkillRecovery(
+  projectRoot: string,
+  sessionId: string,
+  reason: string,
+  now: Date = new Date()
+): void {
+  if (!sessionId || !loadConfig().lifecycle.enabled) return;
+  if (!sessionHasInjections(projectRoot, sessionId)) return;
+  appendSkillUsageEvents(projectRoot, [{ type: 'recovery', sessionId, reason, at: now.toISOString() }]);
+}
+
+/**
+ * Record how a session that received skills ended.
+ */
+export function recordSkillSessionEnd(
+  projectRoot: string,
+  sessionId: string,
+  outcome: SkillSessionOutcome,
+  now: Date = new Date()
+): void {
+  if (!sessionId || !loadConfig().lifecycle.enabled) return;
+  if (!sessionHasInjections(projectRoot, sessionId)) return;
+  appendSkillUsageEvents(projectRoot, [{ type: 'session-end', sessionId, outcome, at: now.toISOString() }]);
+}
+
+/**
+ * Fold events into per-skill stats (keyed by skill path).
+ * Each session counts once per skill: a failure when it hit a recovery after
+ * the skill's first injection or ended with outcome "failure", a success when
+ * it ended cleanly. Sessions still running count only as injections.
+ */
+export function computeSkillUsageStats(events: SkillUsageEvent[]): Map<string, SkillUsageStats> {
+  interface SessionTrace {
+    firstInjection: Map<string, number>;
+    recoveries: number[];
+    outcome?: SkillSessionOutcome;
+  }
+
+  const stats = new Map<string, SkillUsageStats>();
+  const sessions = new Map<string, SessionTrace>();
+
+  for (const event of events) {
+    let trace = sessions.get(event.sessionId);
+    if (!trace) {
+      trace = { firstInjection: new Map(), recoveries: [] };
+      sessions.set(event.sessionId, trace);
+    }
+    const at = Date.parse(event.at);
+
+    if (event.type === 'injected') {
+      const entry = stats.get(event.skill) ?? { injections: 0, successes: 0, failures: 0 };
+      entry.injections++;
+      if (!entry.lastInjectedAt || event.at > entry.lastInjectedAt) entry.lastInjectedAt = event.at;
+      stats.set(event.skill, entry);
+      if (!trace.firstInjection.has(event.skill)) trace.firstInjection.set(event.skill, at);
+    } else if (event.type === 'recovery') {
+      trace.recoveries.push(at);
+    } else if (event.type === 'session-end') {
+      trace.outcome = event.outcome;
+    }
+  }
+
+  for (const trace of sessions.values()) {
+    for (const [skill, since] of trace.firstInjection) {
+      const entry = stats.get(skill)!;
+      if (trace.outcome === 'failure' || trace.recoveries.some((t) => t >= since)) {
+        entry.failures++;
+      } else if (trace.outcome === 'success') {
+        entry.successes++;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Drop events older than the retention window so old usage decays out of
+ * the stats. The log is moved aside first so concurrent appends land in a
+ * fresh file and are not lost.
+ */
+export function pruneSkillUsageLog(
+  projectRoot: string,
+  retentionDays: number,
+  now: number = Date.now()
+): number {
+  const logPath = getSkillUsageLogPath(projectRoot);
+  if (!existsSync(logPath)) return 0;
+
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  const events = readSkillUsageEvents(projectRoot);
+  if (!events.some((e) => Date.parse(e.at) < cutoff)) return 0;
+
+  const asidePath = `${logPath}.${process.pid}.prune`;
+  try {
+    renameSync(logPath, asidePath);
+    const kept: string[] = [];
+    let dropped = 0;
+    for (const line of readFileSync(asidePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as SkillUsageEvent;
+        if (Date.parse(event.at) < cutoff) {
+          dropped++;
+          continue;
+        }
+      } catch {
+        dropped++;
+        continue;
+      }
+      kept.push(line);
+    }
+    if (kept.length > 0) appendFileSync(logPath, kept.join('\n') + '\n');
+    unlinkSync(asidePath);
+    return dropped;
+  } catch (error) {
+    if (DEBUG_ENABLED) {
+      console.error('[learner] Error pruning skill usage:', error);
+    }
+    return 0;
+  }
+}
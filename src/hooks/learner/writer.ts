@@ -10,6 +10,8 @@ import { ensureSkillsDir, getSkillsDir } from './finder.js';
 import { generateSkillFrontmatter } from './parser.js';
 import { validateExtractionRequest } from './validator.js';
 import { DEBUG_ENABLED } from './constants.js';
+import { loadConfig } from './config.js';
+import { resolveSkillIndexProvider, updateSkillIndexEntry } from './semantic-index.js';
 import type { SkillMetadata, SkillExtractionRequest, QualityValidation } from './types.js';
 
 /**
@@ -32,6 +34,37 @@ function sanitizeFilename(name: string): string {
     .slice(0, 50);
 }
 
+/**
+ * Add a freshly written skill to the semantic index (when enabled).
+ * Indexing failures never fail the write; the next sync catches up.
+ */
+function indexWrittenSkill(
+  projectRoot: string | null,
+  filePath: string,
+  metadata: SkillMetadata,
+  body: string
+): void {
+  const { semantic, provider, providerModule } = loadConfig().matching;
+  if (!semantic) return;
+
+  try {
+    updateSkillIndexEntry(projectRoot, {
+      path: filePath,
+      skillId: metadata.id,
+      name: metadata.name,
+      description: metadata.description,
+      triggers: metadata.triggers,
+      tags: metadata.tags,
+      // Same trimmed body the loader parses back, so the next sync is a no-op
+      content: body.trim(),
+    }, resolveSkillIndexProvider(provider, providerModule));
+  } catch (e) {
+    if (DEBUG_ENABLED) {
+      console.error('[learner] Error updating skill index:', e);
+    }
+  }
+}
+
 /**
  * Result of skill writing operation.
  */
@@ -85,9 +118,7 @@ export function writeSkill(
 
   // Generate content
   const frontmatter = generateSkillFrontmatter(metadata);
-  const content = `${frontmatter}
-
-# Problem
+  const body = `# Problem
 
 ${request.problem}
 
@@ -95,6 +126,9 @@ ${request.problem}
 
 ${request.solution}
 `;
+  const content = `${frontmatter}
+
+${body}`;
 
   // Write to file
   const filename = `${sanitizeFilename(skillName)}.md`;
@@ -112,6 +146,7 @@ ${request.solution}
 
   try {
     writeFileSync(filePath, content);
+    indexWrittenSkill(projectRoot, filePath, metadata, body);
     return {
       success: true,
       path: filePath,
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { processPermissionRequest } from '../index.js';
+import type { PermissionRequestInput } from '../index.js';
+import {
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+  parsePermissionPolicy,
+  readPermissionDecisionLog,
+  trustPermissionPolicy,
+} from '../policy.js';
+import type { PermissionPolicy } from '../policy.js';
+import { getStateFilePath } from '../../mode-registry/index.js';
+
+const POLICY = {
+  rules: [
+    { id: 'no-rm-rf', decision: 'deny', command: 'rm', args: ['-*r*', '--recursive'], reason: 'No recursive deletes' },
+    { id: 'no-network', decision: 'deny', command: [['curl'], ['wget']], reason: 'No network access' },
+    { id: 'make', decision: 'allow', command: 'make *' },
+    { id: 'compose', decision: 'allow', command: 'docker compose {up,build}', modes: ['ralph'] },
+    { id: 'infra', decision: 'ask', tools: ['Edit', 'Write'], paths: ['infra/**'] },
+    { id: 'confirm-status', decision: 'ask', command: 'git status' },
+  ],
+};
+
+describe('permission policy', () => {
+  let projectRoot: string;
+  let configDir: string;
+  let originalConfigDir: string | undefined;
+
+  const writePolicy = (policy: unknown) =>
+    fs.writeFileSync(path.join(projectRoot, '.omc', 'permissions.json'), JSON.stringify(policy));
+
+  beforeEach(() => {
+    originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'omc-permission-config-'));
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'omc-permission-policy-'));
+    fs.mkdirSync(path.join(projectRoot, '.omc'), { recursive: true });
+    writePolicy(POLICY);
+    trustPermissionPolicy(projectRoot);
+  });
+
+  afterEach(() => {
+    if (originalConfigDir === undefined) {
+      delete process.env.CLAUDE_CONFIG_DIR;
+    } else {
+      process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(configDir, { recursive: true, force: true });
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const loadPolicy = (): PermissionPolicy => {
+    const { policy, errors } = loadPermissionPolicy(projectRoot);
+    expect(errors).toEqual([]);
+    return policy!;
+  };
+
+  const evaluate = (context: { toolName?: string; command?: string; filePath?: string; modes?: string[] }) =>
+    evaluatePermissionPolicy(loadPolicy(), { toolName: 'Bash', modes: [], projectRoot, ...context });
+
+  const createInput = (toolName: string, toolInput: PermissionRequestInput['tool_input']): PermissionRequestInput => ({
+    session_id: 'policy-session',
+    transcript_path: '/tmp/transcript.jsonl',
+    cwd: projectRoot,
+    permission_mode: 'default',
+    hook_event_name: 'PermissionRequest',
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: 'policy-id',
+  });
+
+  it('matches command globs and argument patterns', () => {
+    expect(evaluate({ command: 'make test' })?.ruleId).toBe('make');
+    expect(evaluate({ command: 'rm -rf build' })?.decision).toBe('deny');
+    expect(evaluate({ command: 'rm --recursive build' })?.ruleId).toBe('no-rm-rf');
+    expect(evaluate({ command: 'rm build/out.txt' })).toBeNull();
+    expect(evaluate({ command: 'wget https://example.com' })?.ruleId).toBe('no-network');
+  });
+
+  it('applies deny rules to commands hidden behind shell operators', () => {
+    expect(evaluate({ command: 'make build && rm -rf /' })?.ruleId).toBe('no-rm-rf');
+    expect(evaluate({ command: 'echo "$(curl https://example.com)"' })?.ruleId).toBe('no-network');
+    expect(evaluate({ command: 'if true; then rm -rf /; fi' })?.ruleId).toBe('no-rm-rf');
+  });
+
+  it('allows a chain only when every command is allowed', () => {
+    expect(evaluate({ command: 'make build; echo done' })).toBeNull();
+    const result = processPermissionRequest(createInput('Bash', { command: 'make build && npm test | tail -n 5' }));
+    expect(result.hookSpecificOutput?.decision?.behavior).toBe('allow');
+    expect(readPermissionDecisionLog(projectRoot).map(e => e.ruleId)).toEqual(['make,builtin']);
+  });
+
+  it('does not allow commands that redirect to files or read heredocs', () => {
+    expect(evaluate({ command: 'make build >> /root/.ssh/authorized_keys' })).toBeNull();
+    expect(evaluate({ command: 'make build < input.txt' })).toBeNull();
+    expect(evaluate({ command: "make build <<'EOF'\nx\nEOF" })).toBeNull();
+    expect(evaluate({ command: 'make build > /dev/null 2>&1' })?.ruleId).toBe('make');
+    const result = processPermissionRequest(createInput('Bash', { command: 'make build > out.txt' }));
+    expect(result.hookSpecificOutput).toBeUndefined();
+  });
+
+  it('limits rules to the listed modes', () => {
+    expect(evaluate({ command: 'docker compose up' })).toBeNull();
+    expect(evaluate({ command: 'docker compose up', modes: ['ralph'] })?.decision).toBe('allow');
+    expect(evaluate({ command: 'docker compose down', modes: ['ralph'] })).toBeNull();
+  });
+
+  it('matches file tools by project-relative path', () => {
+    expect(evaluate({ toolName: 'Edit', filePath: path.join(projectRoot, 'infra', 'prod', 'main.tf') })?.decision).toBe('ask');
+    expect(evaluate({ toolName: 'Edit', filePath: 'src/index.ts' })).toBeNull();
+  });
+
+  it('reports invalid rules', () => {
+    const { policy, errors } = parsePermissionPolicy({
+      rules: [{ decision: 'maybe', command: 'ls' }, { decision: 'allow', command: [] }, { decision: 'allow', tool: 'Read' }],
+    });
+    expect(policy?.rules).toHaveLength(1);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('rejects allow rules without criteria', () => {
+    const { policy, errors } = parsePermissionPolicy({
+      rules: [{ decision: 'allow' }, { decision: 'allow', modes: ['ralph'] }, { decision: 'deny', reason: 'never' }],
+    });
+    expect(policy?.rules.map(r => r.decision)).toEqual(['deny']);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('ignores allow rules until the edited policy is trusted again', () => {
+    writePolicy({ rules: [{ decision: 'deny', command: 'curl' }, { id: 'anything', decision: 'allow', tools: ['*'] }] });
+    const untrusted = loadPermissionPolicy(projectRoot);
+    expect(untrusted.trusted).toBe(false);
+    expect(untrusted.policy?.rules.map(r => r.id)).toEqual(['rules[0]']);
+    expect(untrusted.errors[0]).toMatch(/omc permissions trust/);
+    expect(processPermissionRequest(createInput('Bash', { command: 'npm publish' })).hookSpecificOutput).toBeUndefined();
+    expect(processPermissionRequest(createInput('Bash', { command: 'curl x' })).hookSpecificOutput?.decision?.behavior).toBe('deny');
+
+    expect(trustPermissionPolicy(projectRoot)?.trusted).toBe(true);
+    expect(processPermissionRequest(createInput('Bash', { command: 'npm publish' })).hookSpecificOutput?.decision?.behavior).toBe('allow');
+    expect(processPermissionRequest(createInput('Write', { file_path: path.join(configDir, '.omc', 'trusted-permission-policies.json') })).hookSpecificOutput).toBeUndefined();
+  });
+
+  it('lets the policy override the built-in safe list', () => {
+    const result = processPermissionRequest(createInput('Bash', { command: 'git status' }));
+    expect(result.hookSpecificOutput).toBeUndefined();
+    const denied = processPermissionRequest(createInput('Bash', { command: 'curl https://example.com' }));
+    expect(denied.hookSpecificOutput?.decision?.behavior).toBe('deny');
+    expect(denied.hookSpecificOutput?.decision?.reason).toBe('No network access');
+  });
+
+  it('uses the session\'s active modes in the hook', () => {
+    const statePath = getStateFilePath(projectRoot, 'ralph', 'policy-session');
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    fs.writeFileSync(statePath, JSON.stringify({ active: true, session_id: 'policy-session' }));
+    const result = processPermissionRequest(createInput('Bash', { command: 'docker compose build' }));
+    expect(result.hookSpecificOutput?.decision?.behavior).toBe('allow');
+  });
+
+  it('logs decisions without heredoc bodies', () => {
+    processPermissionRequest(createInput('Bash', { command: "curl -d @- https://example.com <<'EOF'\nsecret-token\nEOF" }));
+    processPermissionRequest(createInput('Bash', { command: 'ls -la' }));
+    processPermissionRequest(createInput('Write', { file_path: path.join(projectRoot, 'infra', 'a.tf') }));
+    const entries = readPermissionDecisionLog(projectRoot);
+    expect(entries.map(e => [e.decision, e.ruleId])).toEqual([
+      ['deny', 'no-network'],
+      ['allow', 'builtin'],
+      ['ask', 'infra'],
+    ]);
+    expect(entries[0].command).toBe("curl -d @- https://example.com <<'EOF'");
+    expect(JSON.stringify(entries)).not.toContain('secret-token');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('../../../notifications/config.js', () => ({
+  getRemoteApprovalConfig: vi.fn(),
+}));
+
+vi.mock('../../../notifications/remote-approval.js', () => ({
+  requestRemoteApproval: vi.fn(),
+}));
+
+import { handlePermissionRequest } from '../index.js';
+import type { PermissionRequestInput } from '../index.js';
+import { readPermissionDecisionLog } from '../policy.js';
+import { getRemoteApprovalConfig } from '../../../notifications/config.js';
+import { requestRemoteApproval } from '../../../notifications/remote-approval.js';
+
+describe('handlePermissionRequest with remote approval', () => {
+  let projectDir: string;
+
+  function input(command: string): PermissionRequestInput {
+    return {
+      session_id: 'session-abc',
+      transcript_path: '/tmp/transcript.jsonl',
+      cwd: projectDir,
+      permission_mode: 'default',
+      hook_event_name: 'PermissionRequest',
+      tool_name: 'Bash',
+      tool_input: { command },
+      tool_use_id: 'tool-1',
+    };
+  }
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'omc-remote-decision-'));
+    vi.mocked(getRemoteApprovalConfig).mockReturnValue({ enabled: true, timeoutSeconds: 60, onTimeout: 'ask' });
+    vi.mocked(requestRemoteApproval).mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('does not ask remotely when the request is already decided locally', async () => {
+    const output = await handlePermissionRequest(input('git status'));
+    expect(output.hookSpecificOutput?.decision?.behavior).toBe('allow');
+    expect(requestRemoteApproval).not.toHaveBeenCalled();
+  });
+
+  it('allows or denies with the remote decision and logs it', async () => {
+    fs.mkdirSync(path.join(projectDir, '.omc'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, '.omc', 'permissions.json'), JSON.stringify({ version: 1, rules: [] }));
+
+    vi.mocked(requestRemoteApproval).mockResolvedValueOnce({ status: 'approved', decidedBy: 'slack:U1' });
+    const approved = await handlePermissionRequest(input('npm publish'));
+    expect(approved.hookSpecificOutput?.decision).toEqual({ behavior: 'allow', reason: 'Approved remotely by slack:U1' });
+    expect(requestRemoteApproval).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'session-abc', toolName: 'Bash', toolInput: { command: 'npm publish' } }),
+      expect.objectContaining({ timeoutSeconds: 60 }),
+    );
+
+    vi.mocked(requestRemoteApproval).mockResolvedValueOnce({ status: 'denied', decidedBy: 'telegram:42' });
+    const denied = await handlePermissionRequest(input('rm -rf build'));
+    expect(denied.hookSpecificOutput?.decision?.behavior).toBe('deny');
+
+    const log = readPermissionDecisionLog(projectDir).filter((entry) => entry.ruleId === 'remote');
+    expect(log.map((entry) => entry.decision)).toEqual(['allow', 'deny']);
+  });
+
+  it('falls back to the terminal prompt on timeout unless onTimeout is deny', async () => {
+    vi.mocked(requestRemoteApproval).mockResolvedValue({ status: 'timeout' });
+    expect(await handlePermissionRequest(input('npm publish'))).toEqual({ continue: true });
+
+    vi.mocked(getRemoteApprovalConfig).mockReturnValue({ enabled: true, timeoutSeconds: 60, onTimeout: 'deny' });
+    const output = await handlePermissionRequest(input('npm publish'));
+    expect(output.hookSpecificOutput?.decision).toEqual({ behavior: 'deny', reason: 'No remote decision within 60s' });
+  });
+
+  it('keeps the terminal prompt when remote approval is off or fails', async () => {
+    vi.mocked(getRemoteApprovalConfig).mockReturnValue(null);
+    expect(await handlePermissionRequest(input('npm publish'))).toEqual({ continue: true });
+
+    vi.mocked(getRemoteApprovalConfig).mockReturnValue({ enabled: true, timeoutSeconds: 60, onTimeout: 'deny' });
+    vi.mocked(requestRemoteApproval).mockRejectedValue(new Error('registry locked'));
+    expect(await handlePermissionRequest(input('npm publish'))).toEqual({ continue: true });
+  });
+});
@@ -1,6 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { getOmcRoot } from '../../lib/worktree-paths.js';
+import { getActiveModes } from '../mode-registry/index.js';
+import {
+  appendPermissionDecisionLog,
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+} from './policy.js';
+import type { PermissionDecision, PolicyEvaluation } from './policy.js';
+import { isSafeRedirect, parseShellCommand } from './shell-parser.js';
+import type { ShellCommand } from './shell-parser.js';
 
 export interface PermissionRequestInput {
   session_id: string;
@@ -44,18 +53,83 @@ const SAFE_PATTERNS = [
   // REMOVED: cat, head, tail - they allow reading arbitrary files
 ];
 
-// Shell metacharacters that enable command chaining and injection
-// See GitHub Issue #146 for full list of dangerous characters
-// Note: Quotes ("') intentionally excluded - they're needed for paths with spaces
-// and command substitution is already caught by $ detection
-const DANGEROUS_SHELL_CHARS = /[;&|`$()<>\n\r\t\0\\{}\[\]*?~!#]/;
+interface PipeFilterSpec {
+  /** Non-option arguments allowed, so no file operand can be smuggled in */
+  maxOperands: number;
+  /** Short options without a value (digits cover `head -20`) */
+  flags: string;
+  /** Short options that take a value, attached (`-n5`) or as the next argument */
+  valueFlags?: string;
+  /** Long options without a value, or with an attached `=value` only */
+  longOptions?: readonly string[];
+  /** Long options that take a value, as `--opt=value` or the next argument */
+  longValueOptions?: readonly string[];
+}
 
-// Heredoc operator detection (<<, <<-, <<~, with optional quoting of delimiter)
-const HEREDOC_PATTERN = /<<[-~]?\s*['"]?\w+['"]?/;
+/**
+ * Filters that are safe on the receiving end of a pipe, where they only see
+ * the previous command's output (`git log | head`). Only the listed options
+ * are accepted: anything else (`sort --compress-program`, `tail -f`,
+ * `wc --files0-from`, `grep -r`) makes the command unsafe. grep's one
+ * operand is its pattern, unless -e/--regexp already supplied it.
+ */
+const SAFE_PIPE_FILTERS: Record<string, PipeFilterSpec> = {
+  head: {
+    maxOperands: 0,
+    flags: '0123456789qvz',
+    valueFlags: 'nc',
+    longOptions: ['quiet', 'silent', 'verbose', 'zero-terminated'],
+    longValueOptions: ['lines', 'bytes'],
+  },
+  tail: {
+    maxOperands: 0,
+    flags: '0123456789qvz',
+    valueFlags: 'nc',
+    longOptions: ['quiet', 'silent', 'verbose', 'zero-terminated'],
+    longValueOptions: ['lines', 'bytes'],
+  },
+  wc: {
+    maxOperands: 0,
+    flags: 'clmwL',
+    longOptions: ['bytes', 'chars', 'lines', 'words', 'max-line-length'],
+  },
+  uniq: {
+    maxOperands: 0,
+    flags: 'cdDiuz',
+    valueFlags: 'fsw',
+    longOptions: ['count', 'repeated', 'all-repeated', 'group', 'ignore-case', 'unique', 'zero-terminated'],
+    longValueOptions: ['skip-fields', 'skip-chars', 'check-chars'],
+  },
+  sort: {
+    maxOperands: 0,
+    flags: 'bdfgiMhnRrsuVcCz',
+    valueFlags: 'kt',
+    longOptions: [
+      'ignore-leading-blanks', 'dictionary-order', 'ignore-case', 'general-numeric-sort',
+      'ignore-nonprinting', 'month-sort', 'human-numeric-sort', 'numeric-sort', 'random-sort',
+      'reverse', 'version-sort', 'stable', 'unique', 'zero-terminated', 'check', 'sort',
+    ],
+    longValueOptions: ['key', 'field-separator'],
+  },
+  grep: {
+    maxOperands: 1,
+    flags: 'EFGPiyvwxclLoqsbHhnTZzaIU',
+    valueFlags: 'emABC',
+    longOptions: [
+      'extended-regexp', 'fixed-strings', 'basic-regexp', 'perl-regexp', 'ignore-case',
+      'no-ignore-case', 'invert-match', 'word-regexp', 'line-regexp', 'count', 'color', 'colour',
+      'files-with-matches', 'files-without-match', 'only-matching', 'quiet', 'silent',
+      'no-messages', 'byte-offset', 'with-filename', 'no-filename', 'line-number', 'initial-tab',
+      'null', 'null-data', 'text',
+    ],
+    longValueOptions: ['regexp', 'max-count', 'after-context', 'before-context', 'context', 'label', 'binary-files'],
+  },
+};
 
 /**
  * Patterns that are safe to auto-allow even when they contain heredoc content.
- * Matched against the first line of the command (before the heredoc body).
+ * Matched against the command's arguments, where the heredoc body is replaced
+ * by a placeholder.
  * Issue #608: Prevents full heredoc body from being stored in settings.local.json.
  */
 const SAFE_HEREDOC_PATTERNS = [
@@ -64,18 +138,106 @@ const SAFE_HEREDOC_PATTERNS = [
 ];
 
 /**
- * Check if a command matches safe patterns
+ * Split filter arguments into operands and the names of the options used,
+ * skipping option values. Handles bundled (`-iex`), attached (`-ex`) and
+ * `--opt=value` forms. Returns null when an option is not on the filter's
+ * allowlist.
  */
-export function isSafeCommand(command: string): boolean {
-  const trimmed = command.trim();
+function parsePipeFilterArgs(
+  args: string[],
+  spec: PipeFilterSpec,
+): { operands: string[]; options: Set<string> } | null {
+  const operands: string[] = [];
+  const options = new Set<string>();
 
-  // SECURITY: Reject ANY command with shell metacharacters
-  // These allow command chaining that bypasses safe pattern checks
-  if (DANGEROUS_SHELL_CHARS.test(trimmed)) {
-    return false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const name = arg.slice(2, eq === -1 ? undefined : eq);
+      if (spec.longValueOptions?.includes(name)) {
+        if (eq === -1) i++;
+      } else if (!spec.longOptions?.includes(name)) {
+        return null;
+      }
+      options.add(name);
+      continue;
+    }
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        const flag = arg[j];
+        options.add(flag);
+        if (spec.valueFlags?.includes(flag)) {
+          // The rest of the bundle is the value, or else the next argument
+          if (j === arg.length - 1) i++;
+          break;
+        }
+        if (!spec.flags.includes(flag)) return null;
+      }
+      continue;
+    }
+    operands.push(arg);
   }
+  return { operands, options };
+}
+
+/** Operands that name a file rather than a pattern or count */
+function looksLikePath(operand: string): boolean {
+  return operand.includes('/') || operand.startsWith('~');
+}
+
+function isSafePipeFilter(argv: string[]): boolean {
+  if (!Object.hasOwn(SAFE_PIPE_FILTERS, argv[0])) return false;
+  const filter = SAFE_PIPE_FILTERS[argv[0]];
+  const parsed = parsePipeFilterArgs(argv.slice(1), filter);
+  if (!parsed) return false;
+
+  let maxOperands = filter.maxOperands;
+  if (argv[0] === 'grep' && (parsed.options.has('e') || parsed.options.has('regexp'))) {
+    maxOperands = 0;
+  }
+  if (parsed.operands.some(looksLikePath)) return false;
+  return parsed.operands.length <= maxOperands;
+}
 
-  return SAFE_PATTERNS.some(pattern => pattern.test(trimmed));
+/**
+ * Check one simple command against the safe list. Arguments that merely look
+ * like expansions (quoted `$` or backticks) are still rejected.
+ */
+function isSafeSimpleCommand(command: ShellCommand): boolean {
+  if (command.heredoc || !command.redirects.every(isSafeRedirect)) return false;
+  if (command.argv.length === 0 || command.argv.some(arg => /[$`]/.test(arg))) return false;
+  if (command.piped && isSafePipeFilter(command.argv)) return true;
+  const line = command.argv.join(' ');
+  return SAFE_PATTERNS.some(pattern => pattern.test(line));
+}
+
+/**
+ * Check one simple command that reads a heredoc against the safe heredoc list
+ */
+function isSafeHeredocCommand(command: ShellCommand): boolean {
+  if (!command.heredoc) return false;
+  const otherRedirects = command.redirects.filter(r => r.op !== '<<' && r.op !== '<<-');
+  if (!otherRedirects.every(isSafeRedirect)) return false;
+  const line = command.argv.join(' ');
+  return SAFE_HEREDOC_PATTERNS.some(pattern => pattern.test(line));
+}
+
+/**
+ * Check if a command matches safe patterns. Pipelines and `&&`/`||`/`;`
+ * chains are split and every command must be safe on its own; command
+ * substitution, expansions, globs and file redirections are never safe.
+ */
+export function isSafeCommand(command: string): boolean {
+  const { commands, error } = parseShellCommand(command);
+  if (error || commands.length === 0) {
+    return false;
+  }
+  return commands.every(isSafeSimpleCommand);
 }
 
 /**
@@ -85,28 +247,35 @@ export function isSafeCommand(command: string): boolean {
  * Code's native permission flow and the user approves "Always allow", the entire
  * heredoc body (potentially hundreds of lines) gets stored in settings.local.json.
  *
- * This function detects heredoc commands and checks whether the base command
- * (first line) matches known-safe patterns, allowing auto-approval without
- * polluting settings.local.json.
+ * The parser consumes heredoc bodies (including `"$(cat <<'EOF' ... EOF)"`),
+ * so only the commands around them are checked: at least one must be a safe
+ * heredoc command and the rest must be safe commands.
  */
 export function isHeredocWithSafeBase(command: string): boolean {
-  const trimmed = command.trim();
-
   // Heredoc commands from Claude Code are always multi-line
-  if (!trimmed.includes('\n')) {
+  if (!command.trim().includes('\n')) {
     return false;
   }
 
-  // Must contain a heredoc operator
-  if (!HEREDOC_PATTERN.test(trimmed)) {
+  const { commands, error } = parseShellCommand(command);
+  if (error || !commands.some(c => c.heredoc)) {
     return false;
   }
+  return commands.every(c => isSafeHeredocCommand(c) || isSafeSimpleCommand(c));
+}
 
-  // Extract the first line as the base command
-  const firstLine = trimmed.split('\n')[0].trim();
-
-  // Check if the first line starts with a safe pattern
-  return SAFE_HEREDOC_PATTERNS.some(pattern => pattern.test(firstLine));
+/**
+ * Built-in decision for one command of a chain, used by the permission
+ * policy for commands no rule matches.
+ */
+export function evaluateBuiltinCommand(command: ShellCommand): PolicyEvaluation | null {
+  if (isSafeSimpleCommand(command)) {
+    return { decision: 'allow', reason: 'Safe read-only or test command', ruleId: 'builtin' };
+  }
+  if (isSafeHeredocCommand(command)) {
+    return { decision: 'allow', reason: 'Safe command with heredoc content', ruleId: 'builtin' };
+  }
+  return null;
 }
 
 /**
@@ -149,58 +318,182 @@ export function isActiveModeRunning(directory: string): boolean {
   return false;
 }
 
-/**
- * Process permission request and decide whether to auto-allow
- */
-export function processPermissionRequest(input: PermissionRequestInput): HookOutput {
-  // Only process Bash tool for command auto-approval
-  // Normalize tool name - handle both proxy_ prefixed and unprefixed versions
-  const toolName = input.tool_name.replace(/^proxy_/, '');
-  if (toolName !== 'Bash') {
-    return { continue: true };
-  }
-
-  const command = input.tool_input.command;
-  if (!command || typeof command !== 'string') {
+function decisionOutput(behavior: PermissionDecision, reason: string): HookOutput {
+  // "ask" falls through to the normal permission prompt
+  if (behavior === 'ask') {
     return { continue: true };
   }
+  return {
+    continue: true,
+    hookSpecificOutput: {
+      hookEventName: 'PermissionRequest',
+      decision: { behavior, reason },
+    },
+  };
+}
 
+/**
+ * Built-in auto-approval for Bash commands (safe list and safe heredocs).
+ * Returns the approval reason, or null when the command is not covered.
+ */
+export function getBuiltinAllowReason(command: string): string | null {
   // Auto-allow safe commands
   if (isSafeCommand(command)) {
-    return {
-      continue: true,
-      hookSpecificOutput: {
-        hookEventName: 'PermissionRequest',
-        decision: {
-          behavior: 'allow',
-          reason: 'Safe read-only or test command',
-        },
-      },
-    };
+    return 'Safe read-only or test command';
   }
 
   // Auto-allow heredoc commands with safe base commands (Issue #608)
   // This prevents the full heredoc body from being stored in settings.local.json
   if (isHeredocWithSafeBase(command)) {
-    return {
-      continue: true,
-      hookSpecificOutput: {
-        hookEventName: 'PermissionRequest',
-        decision: {
-          behavior: 'allow',
-          reason: 'Safe command with heredoc content',
-        },
-      },
-    };
+    return 'Safe command with heredoc content';
+  }
+
+  return null;
+}
+
+/**
+ * Process permission request and decide whether to auto-allow.
+ * The project's permission policy (.omc/permissions.json) is consulted
+ * first; requests it does not match fall back to the built-in safe list.
+ */
+function describeRequest(input: PermissionRequestInput): { toolName: string; command?: string; filePath?: string } {
+  // Normalize tool name - handle both proxy_ prefixed and unprefixed versions
+  const toolName = input.tool_name.replace(/^proxy_/, '');
+  const rawCommand = input.tool_input.command;
+  const command = typeof rawCommand === 'string' && rawCommand ? rawCommand : undefined;
+  const rawPath = input.tool_input.file_path ?? input.tool_input.notebook_path ?? input.tool_input.path;
+  const filePath = typeof rawPath === 'string' ? rawPath : undefined;
+  return { toolName, command, filePath };
+}
+
+export function processPermissionRequest(input: PermissionRequestInput): HookOutput {
+  const { toolName, command, filePath } = describeRequest(input);
+  const projectRoot = input.cwd;
+
+  const { policy } = loadPermissionPolicy(projectRoot);
+  const modes: string[] = policy ? getActiveModes(projectRoot, input.session_id) : [];
+  const log = (decision: PermissionDecision, reason: string, ruleId?: string) => {
+    if (policy?.log === false) return;
+    appendPermissionDecisionLog(projectRoot, {
+      sessionId: input.session_id,
+      tool: toolName,
+      command,
+      filePath,
+      decision,
+      reason,
+      ruleId,
+      modes,
+    });
+  };
+
+  if (policy) {
+    const evaluation = evaluatePermissionPolicy(
+      policy,
+      { toolName, command, filePath, modes, projectRoot },
+      evaluateBuiltinCommand
+    );
+    if (evaluation) {
+      log(evaluation.decision, evaluation.reason, evaluation.ruleId);
+      return decisionOutput(evaluation.decision, evaluation.reason);
+    }
+  }
+
+  // Only the Bash tool has built-in auto-approval
+  const builtinReason = toolName === 'Bash' && command ? getBuiltinAllowReason(command) : null;
+  if (builtinReason) {
+    if (policy) log('allow', builtinReason, 'builtin');
+    return decisionOutput('allow', builtinReason);
   }
 
   // Default: let normal permission flow handle it
+  if (policy) log('ask', 'No matching policy rule');
   return { continue: true };
 }
 
 /**
- * Main hook entry point
+ * Ask for a decision in chat when remote approval is configured
+ * (notifications.reply.remoteApproval). Returns null to keep the terminal
+ * prompt: remote approval is off, unavailable, or timed out with onTimeout "ask".
+ */
+export async function requestRemoteDecision(input: PermissionRequestInput): Promise<HookOutput | null> {
+  const { getRemoteApprovalConfig } = await import('../../notifications/config.js');
+  const config = getRemoteApprovalConfig();
+  if (!config) return null;
+
+  const { toolName, command, filePath } = describeRequest(input);
+  const { requestRemoteApproval } = await import('../../notifications/remote-approval.js');
+  const outcome = await requestRemoteApproval(
+    { sessionId: input.session_id, projectPath: input.cwd, toolName, toolInput: input.tool_input },
+    config
+  );
+
+  let decision: PermissionDecision;
+  let reason: string;
+  if (outcome.status === 'approved' || outcome.status === 'denied') {
+    decision = outcome.status === 'approved' ? 'allow' : 'deny';
+    reason = `${outcome.status === 'approved' ? 'Approved' : 'Denied'} remotely by ${outcome.decidedBy ?? 'unknown'}`;
+  } else if (outcome.status === 'timeout' && config.onTimeout === 'deny') {
+    decision = 'deny';
+    reason = `No remote decision within ${config.timeoutSeconds}s`;
+  } else {
+    return null;
+  }
+
+  const { policy } = loadPermissionPolicy(input.cwd);
+  if (policy && policy.log !== false) {
+    appendPermissionDecisionLog(input.cwd, {
+      sessionId: input.session_id,
+      tool: toolName,
+      command,
+      filePath,
+      decision,
+      reason,
+      ruleId: 'remote',
+      modes: getActiveModes(input.cwd, input.session_id),
+    });
+  }
+  return decisionOutput(decision, reason);
+}
+
+/**
+ * Main hook entry point. Requests that would reach the terminal prompt are
+ * offered for remote approval first.
  */
 export async function handlePermissionRequest(input: PermissionRequestInput): Promise<HookOutput> {
-  return processPermissionRequest(input);
+  const output = processPermissionRequest(input);
+  if (output.hookSpecificOutput) {
+    return output;
+  }
+  try {
+    return (await requestRemoteDecision(input)) ?? output;
+  } catch {
+    // Remote approval is best-effort; fall back to the terminal prompt
+    return output;
+  }
 }
+
+export {
+  loadPermissionPolicy,
+  parsePermissionPolicy,
+  evaluatePermissionPolicy,
+  readPermissionDecisionLog,
+  getPermissionPolicyPath,
+  getPermissionDecisionLogPath,
+  getPermissionTrustStorePath,
+  trustPermissionPolicy,
+} from './policy.js';
+export { parseShellCommand, HEREDOC_PLACEHOLDER } from './shell-parser.js';
+export type {
+  ShellCommand,
+  ShellRedirect,
+  ShellParseResult,
+  ShellParseError,
+} from './shell-parser.js';
+export type {
+  PermissionDecision,
+  PermissionRule,
+  PermissionPolicy,
+  PermissionRequestContext,
+  PolicyEvaluation,
+  PermissionDecisionLogEntry,
+} from './policy.js';
@@ -0,0 +1,512 @@
+/**
+ * Permission Policy
+ *
+ * Per-project policy-as-code for the PermissionRequest hook. Rules live in
+ * `.omc/permissions.json` at the project root and are evaluated in order;
+ * the first matching rule decides:
+ *
+ * {
+ *   "rules": [
+ *     { "id": "no-rm-rf", "decision": "deny", "command": "rm", "args": ["-*r*", "--recursive"],
+ *       "reason": "Recursive deletes are never auto-approved" },
+ *     { "decision": "deny", "command": [["curl"], ["wget"], ["ssh"]], "reason": "No network access" },
+ *     { "decision": "allow", "command": "make *" },
+ *     { "decision": "allow", "command": "docker compose {up,build,run,logs,ps}", "modes": ["ralph", "autopilot"] },
+ *     { "decision": "ask", "tools": ["Edit", "Write"], "paths": ["infra/**"] }
+ *   ]
+ * }
+ *
+ * Chained Bash commands (`make build && npm test`) are evaluated one command
+ * at a time. Requests no rule matches fall back to the built-in safe command
+ * list.
+ *
+ * The agent can write the policy file, so its allow rules only apply once
+ * `omc permissions trust` has recorded the file's hash outside the project.
+ * Until then, and again after any edit, only deny and ask rules are used.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getOmcRoot, OmcPaths } from '../../lib/worktree-paths.js';
+import { getClaudeConfigDir } from '../../utils/paths.js';
+import { isSafeRedirect, parseShellCommand } from './shell-parser.js';
+import type { ShellCommand } from './shell-parser.js';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * A policy rule. Every criterion that is set must match.
+ */
+export interface PermissionRule {
+  /** Identifier shown in decision logs and dry runs */
+  id?: string;
+  decision: PermissionDecision;
+  reason?: string;
+  /** Tool name globs (default: any tool) */
+  tools?: string[];
+  /**
+   * Command argv prefixes (Bash only), one glob per argument; `**` matches
+   * the remaining arguments. Any prefix may match.
+   */
+  commands?: string[][];
+  /** Globs of which at least one argument after the command name must match (Bash only) */
+  args?: string[];
+  /** File path globs relative to the project root (file tools only) */
+  paths?: string[];
+  /** Active modes the rule is limited to (ralph, autopilot, ultrawork, team) */
+  modes?: string[];
+}
+
+export interface PermissionPolicy {
+  rules: PermissionRule[];
+  /** Write decisions to .omc/logs/permission-decisions.jsonl (default: true) */
+  log: boolean;
+}
+
+export interface PolicyLoadResult {
+  policy: PermissionPolicy | null;
+  path: string;
+  errors: string[];
+  /** Whether the file's current content was trusted with `omc permissions trust` */
+  trusted: boolean;
+}
+
+/**
+ * What a permission request asks for
+ */
+export interface PermissionRequestContext {
+  toolName: string;
+  command?: string;
+  filePath?: string;
+  /** Active execution modes */
+  modes: string[];
+  projectRoot: string;
+}
+
+export interface PolicyEvaluation {
+  decision: PermissionDecision;
+  reason: string;
+  ruleId: string;
+}
+
+export interface PermissionDecisionLogEntry {
+  at: string;
+  sessionId?: string;
+  tool: string;
+  /** First line of the command, truncated (heredoc bodies are never stored) */
+  command?: string;
+  filePath?: string;
+  decision: PermissionDecision;
+  reason: string;
+  /** Matching policy rule, "builtin" for the safe command list, or "remote" for chat approval */
+  ruleId?: string;
+  modes: string[];
+}
+
+export const PERMISSION_POLICY_FILENAME = 'permissions.json';
+const DECISION_LOG_FILENAME = 'permission-decisions.jsonl';
+const TRUST_STORE_FILENAME = 'trusted-permission-policies.json';
+const MAX_LOGGED_COMMAND_LENGTH = 200;
+const DECISIONS: PermissionDecision[] = ['allow', 'deny', 'ask'];
+
+export function getPermissionPolicyPath(projectRoot: string): string {
+  return path.join(projectRoot, OmcPaths.ROOT, PERMISSION_POLICY_FILENAME);
+}
+
+export function getPermissionDecisionLogPath(projectRoot: string): string {
+  return path.join(getOmcRoot(projectRoot), 'logs', DECISION_LOG_FILENAME);
+}
+
+/**
+ * Hashes of trusted policy files, keyed by policy path. Kept in the Claude
+ * config directory so it is not part of the project the agent works in.
+ */
+export function getPermissionTrustStorePath(): string {
+  return path.join(getClaudeConfigDir(), '.omc', TRUST_STORE_FILENAME);
+}
+
+function hashPolicy(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function readTrustStore(): Record<string, string> {
+  try {
+    const store = JSON.parse(fs.readFileSync(getPermissionTrustStorePath(), 'utf-8'));
+    return store && typeof store === 'object' && !Array.isArray(store) ? store : {};
+  } catch {
+    return {};
+  }
+}
+
+function toStringList(value: unknown): string[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value as string[];
+  return null;
+}
+
+/**
+ * Normalize `command`: "make *", ["make", "*"] or [["curl"], "wget"]
+ */
+function toCommandList(value: unknown): string[][] | undefined | null {
+  if (value === undefined) return undefined;
+  const split = (s: string) => s.trim().split(/\s+/).filter(Boolean);
+  if (typeof value === 'string') return [split(value)];
+  if (!Array.isArray(value)) return null;
+  if (value.every((v) => typeof v === 'string')) return [value as string[]];
+  const prefixes: string[][] = [];
+  for (const entry of value) {
+    if (typeof entry === 'string') prefixes.push(split(entry));
+    else if (Array.isArray(entry) && entry.every((v) => typeof v === 'string')) prefixes.push(entry);
+    else return null;
+  }
+  return prefixes;
+}
+
+function parseRule(raw: unknown, index: number, errors: string[]): PermissionRule | null {
+  const label = `rules[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${label}: must be an object`);
+    return null;
+  }
+  const r = raw as Record<string, unknown>;
+  if (!DECISIONS.includes(r.decision as PermissionDecision)) {
+    errors.push(`${label}: decision must be one of ${DECISIONS.join(', ')}`);
+    return null;
+  }
+
+  const tools = toStringList(r.tools ?? r.tool);
+  const commands = toCommandList(r.command ?? r.commands);
+  const args = toStringList(r.args);
+  const paths = toStringList(r.paths ?? r.path);
+  const modes = toStringList(r.modes ?? r.mode);
+  const invalid = Object.entries({ tools, command: commands, args, paths, modes })
+    .filter(([, v]) => v === null)
+    .map(([k]) => k);
+  if (invalid.length > 0) {
+    errors.push(`${label}: invalid ${invalid.join(', ')}`);
+    return null;
+  }
+  if (commands?.some((prefix) => prefix.length === 0)) {
+    errors.push(`${label}: command must not be empty`);
+    return null;
+  }
+  if (r.decision === 'allow' && !tools && !commands && !args && !paths) {
+    errors.push(`${label}: allow rules need tools, command, args or paths`);
+    return null;
+  }
+
+  return {
+    id: typeof r.id === 'string' ? r.id : undefined,
+    decision: r.decision as PermissionDecision,
+    reason: typeof r.reason === 'string' ? r.reason : undefined,
+    tools: tools ?? undefined,
+    commands: commands ?? undefined,
+    args: args ?? undefined,
+    paths: paths ?? undefined,
+    modes: modes ?? undefined,
+  };
+}
+
+/**
+ * Parse a policy document. Invalid rules are reported and skipped.
+ */
+export function parsePermissionPolicy(raw: unknown): { policy: PermissionPolicy | null; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as Record<string, unknown>).rules)) {
+    return { policy: null, errors: ['policy must be an object with a "rules" array'] };
+  }
+  const doc = raw as { rules: unknown[]; log?: unknown };
+  const rules = doc.rules
+    .map((rule, index) => parseRule(rule, index, errors))
+    .filter((rule): rule is PermissionRule => rule !== null);
+  return { policy: { rules, log: doc.log !== false }, errors };
+}
+
+/**
+ * Load the project's policy file. Returns a null policy when there is none
+ * or it cannot be parsed. Allow rules are dropped, with an error, unless the
+ * file's current content is trusted.
+ */
+export function loadPermissionPolicy(projectRoot: string): PolicyLoadResult {
+  const policyPath = getPermissionPolicyPath(projectRoot);
+  if (!fs.existsSync(policyPath)) {
+    return { policy: null, path: policyPath, errors: [], trusted: false };
+  }
+  try {
+    const content = fs.readFileSync(policyPath, 'utf-8');
+    const { policy, errors } = parsePermissionPolicy(JSON.parse(content));
+    const trusted = readTrustStore()[policyPath] === hashPolicy(content);
+    if (!policy || trusted || !policy.rules.some((rule) => rule.decision === 'allow')) {
+      return { policy, errors, path: policyPath, trusted };
+    }
+    // Keep the ids of the remaining rules as they are in the file
+    const rules = policy.rules
+      .map((rule, index) => ({ ...rule, id: describeRule(rule, index) }))
+      .filter((rule) => rule.decision !== 'allow');
+    return {
+      policy: { ...policy, rules },
+      errors: [...errors, `allow rules are ignored until the policy is trusted; run "omc permissions trust"`],
+      path: policyPath,
+      trusted,
+    };
+  } catch (error) {
+    return {
+      policy: null,
+      path: policyPath,
+      errors: [`cannot parse ${policyPath}: ${error instanceof Error ? error.message : String(error)}`],
+      trusted: false,
+    };
+  }
+}
+
+/**
+ * Trust the policy file's current content, so its allow rules apply. Any
+ * later edit has to be trusted again. Returns the load result of the newly
+ * trusted file, or null when there is no policy file.
+ */
+export function trustPermissionPolicy(projectRoot: string): PolicyLoadResult | null {
+  const policyPath = getPermissionPolicyPath(projectRoot);
+  if (!fs.existsSync(policyPath)) return null;
+  const storePath = getPermissionTrustStorePath();
+  const store = readTrustStore();
+  store[policyPath] = hashPolicy(fs.readFileSync(policyPath, 'utf-8'));
+  fs.mkdirSync(path.dirname(storePath), { recursive: true });
+  fs.writeFileSync(storePath, JSON.stringify(store, null, 2) + '\n', { mode: 0o600 });
+  return loadPermissionPolicy(projectRoot);
+}
+
+/**
+ * Convert a glob to a regex: `**` crosses `/`, `*` and `?` do not (unless
+ * `crossSlash` is set, for command arguments), `{a,b}` is an alternation.
+ */
+function globToRegExp(glob: string, crossSlash = false): RegExp {
+  const star = crossSlash ? '.*' : '[^/]*';
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      out += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (c === '*') {
+      out += star;
+    } else if (c === '?') {
+      out += crossSlash ? '.' : '[^/]';
+    } else if (c === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        out += '\\{';
+      } else {
+        out += `(?:${glob.slice(i + 1, close).split(',').map((alt) => alt.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, star)).join('|')})`;
+        i = close;
+      }
+    } else {
+      out += c.replace(/[.+^$()|[\]\\}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+function matchesAnyGlob(value: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(value));
+}
+
+function matchesArg(value: string, glob: string): boolean {
+  return globToRegExp(glob, true).test(value);
+}
+
+function matchesCommandPrefix(argv: string[], prefix: string[]): boolean {
+  for (let i = 0; i < prefix.length; i++) {
+    if (prefix[i] === '**') return true;
+    if (i >= argv.length || !matchesArg(argv[i], prefix[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Whitespace-split every segment of a compound command. Used only to match
+ * deny and ask rules against commands the shell parser rejects, so a denied
+ * command cannot hide behind a subshell or substitution.
+ */
+function looseCommandSegments(command: string): string[][] {
+  return command
+    .split(/[;&|\n()`{}]+|\$\(/)
+    .map((segment) => segment.trim().split(/\s+/).map((t) => t.replace(/^['"]|['"]$/g, '')).filter(Boolean))
+    .filter((argv) => argv.length > 0);
+}
+
+/**
+ * Shell keywords that may precede a command (`then rm -rf /`)
+ */
+const LEADING_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', 'time']);
+
+function stripLeadingKeywords(argv: string[]): string[] {
+  let start = 0;
+  while (start < argv.length - 1 && LEADING_KEYWORDS.has(argv[start])) start++;
+  return argv.slice(start);
+}
+
+function matchesArgv(rule: PermissionRule, argv: string[]): boolean {
+  return (!rule.commands || rule.commands.some((prefix) => matchesCommandPrefix(argv, prefix))) &&
+    (!rule.args || argv.slice(1).some((arg) => rule.args!.some((glob) => matchesArg(arg, glob))));
+}
+
+/**
+ * Check every criterion except the command itself
+ */
+function ruleMatchesRequest(rule: PermissionRule, context: PermissionRequestContext): boolean {
+  if (rule.tools && !matchesAnyGlob(context.toolName, rule.tools)) return false;
+  if (rule.modes && !rule.modes.some((mode) => context.modes.includes(mode))) return false;
+
+  if (rule.paths) {
+    if (!context.filePath) return false;
+    const absolute = path.resolve(context.projectRoot, context.filePath);
+    const relative = path.relative(context.projectRoot, absolute).split(path.sep).join('/');
+    if (!matchesAnyGlob(relative, rule.paths) && !matchesAnyGlob(absolute, rule.paths)) return false;
+  }
+
+  if ((rule.commands || rule.args) && context.command === undefined) return false;
+  return true;
+}
+
+function describeRule(rule: PermissionRule, index: number): string {
+  return rule.id ?? `rules[${index}]`;
+}
+
+function toEvaluation(rule: PermissionRule, index: number): PolicyEvaluation {
+  const ruleId = describeRule(rule, index);
+  return {
+    decision: rule.decision,
+    reason: rule.reason ?? `Permission policy rule ${ruleId}`,
+    ruleId,
+  };
+}
+
+/**
+ * Whether a request names the trust store, which allow rules must never
+ * let the agent change
+ */
+function touchesTrustStore(context: PermissionRequestContext, words: string[]): boolean {
+  if (context.filePath && path.resolve(context.projectRoot, context.filePath) === getPermissionTrustStorePath()) {
+    return true;
+  }
+  return words.some((word) => word.includes(TRUST_STORE_FILENAME));
+}
+
+/**
+ * First rule matching one command of a chain. Allow rules only match
+ * commands that neither read a heredoc nor redirect to or from a file, so
+ * `make build >> ~/.ssh/authorized_keys` is not allowed by `make *`.
+ */
+function evaluateCommand(
+  policy: PermissionPolicy,
+  context: PermissionRequestContext,
+  command?: ShellCommand
+): PolicyEvaluation | null {
+  const words = stripLeadingKeywords(command?.argv ?? []);
+  const touchesFiles = (command !== undefined && (command.heredoc || !command.redirects.every(isSafeRedirect)))
+    || touchesTrustStore(context, words);
+  for (let index = 0; index < policy.rules.length; index++) {
+    const rule = policy.rules[index];
+    if (rule.decision === 'allow' && touchesFiles) continue;
+    if (!ruleMatchesRequest(rule, context)) continue;
+    if ((rule.commands || rule.args) && !matchesArgv(rule, words)) continue;
+    return toEvaluation(rule, index);
+  }
+  return null;
+}
+
+/**
+ * Combine per-command decisions: any deny wins, then any ask; the chain is
+ * allowed only when every command is.
+ */
+function combineEvaluations(evaluations: Array<PolicyEvaluation | null>): PolicyEvaluation | null {
+  const decided = evaluations.filter((e): e is PolicyEvaluation => e !== null);
+  const deny = decided.find((e) => e.decision === 'deny');
+  if (deny) return deny;
+  const ask = decided.find((e) => e.decision === 'ask');
+  if (ask) return ask;
+  if (decided.length === 0 || decided.length < evaluations.length) return null;
+
+  const ruleIds = [...new Set(decided.map((e) => e.ruleId))];
+  if (ruleIds.length === 1) return decided[0];
+  return {
+    decision: 'allow',
+    reason: [...new Set(decided.map((e) => e.reason))].join('; '),
+    ruleId: ruleIds.join(','),
+  };
+}
+
+/**
+ * Evaluate a request against the policy. Returns null when no rule matches.
+ *
+ * Bash commands are split into simple commands (see shell-parser.ts) and
+ * each one is evaluated on its own; `fallback` decides commands no rule
+ * matches, so a chain can mix policy rules and the built-in safe list.
+ * Commands the parser rejects can only be matched by deny and ask rules.
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy,
+  context: PermissionRequestContext,
+  fallback?: (command: ShellCommand) => PolicyEvaluation | null
+): PolicyEvaluation | null {
+  if (context.command === undefined) {
+    return evaluateCommand(policy, context);
+  }
+
+  const { commands, error } = parseShellCommand(context.command);
+  if (!error && commands.length > 0) {
+    return combineEvaluations(commands.map((command) =>
+      evaluateCommand(policy, context, command) ?? fallback?.(command) ?? null
+    ));
+  }
+
+  const segments = looseCommandSegments(context.command);
+  for (let index = 0; index < policy.rules.length; index++) {
+    const rule = policy.rules[index];
+    if (rule.decision === 'allow' || !ruleMatchesRequest(rule, context)) continue;
+    const matches = rule.commands || rule.args
+      ? segments.some((argv) => matchesArgv(rule, stripLeadingKeywords(argv)))
+      : true;
+    if (matches) return toEvaluation(rule, index);
+  }
+  return null;
+}
+
+/**
+ * Append a decision to the project's permission decision log
+ */
+export function appendPermissionDecisionLog(
+  projectRoot: string,
+  entry: Omit<PermissionDecisionLogEntry, 'at'>,
+  now: Date = new Date()
+): void {
+  try {
+    const logPath = getPermissionDecisionLogPath(projectRoot);
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    const command = entry.command?.split('\n')[0].slice(0, MAX_LOGGED_COMMAND_LENGTH);
+    fs.appendFileSync(logPath, JSON.stringify({ at: now.toISOString(), ...entry, command }) + '\n');
+  } catch {
+    // Logging must never affect the permission decision
+  }
+}
+
+/**
+ * Read the most recent decisions, newest last
+ */
+export function readPermissionDecisionLog(projectRoot: string, limit = 50): PermissionDecisionLogEntry[] {
+  const logPath = getPermissionDecisionLogPath(projectRoot);
+  if (!fs.existsSync(logPath)) return [];
+  const entries: PermissionDecisionLogEntry[] = [];
+  for (const line of fs.readFileSync(logPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as PermissionDecisionLogEntry);
+    } catch {
+      // Skip torn lines
+    }
+  }
+  return entries.slice(-limit);
+}
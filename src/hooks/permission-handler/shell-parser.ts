@@ -0,0 +1,358 @@
+/**
+ * Shell Command Parser
+ *
+ * A small POSIX shell tokenizer for permission decisions. It splits a
+ * command line on `&&`, `||`, `;`, newlines and pipes into simple commands
+ * so each one can be checked on its own, instead of rejecting every
+ * command that contains a metacharacter.
+ *
+ * Only static syntax is accepted. Anything whose meaning depends on the
+ * shell at run time (parameter expansion, globs, brace and tilde expansion,
+ * subshells, background jobs) is reported as unsupported, and command
+ * substitution is reported separately so callers never approve it. The one
+ * exception is `$(cat <<'EOF' ... EOF)`, which only produces literal text.
+ *
+ * Heredoc bodies are consumed but never stored: a resolved heredoc shows up
+ * as HEREDOC_PLACEHOLDER in argv, so they cannot leak into logs or settings.
+ */
+
+export type ShellParseErrorKind = 'substitution' | 'unsupported' | 'syntax';
+
+export interface ShellParseError {
+  kind: ShellParseErrorKind;
+  message: string;
+}
+
+export interface ShellRedirect {
+  /** Explicit file descriptor, e.g. 2 in `2>&1` */
+  fd?: number;
+  /** `<`, `>`, `>>`, `>|`, `<>`, `>&`, `<&`, `&>`, `&>>`, `<<`, `<<-` or `<<<` */
+  op: string;
+  /** Target word; the delimiter for heredocs */
+  target: string;
+}
+
+export interface ShellCommand {
+  argv: string[];
+  redirects: ShellRedirect[];
+  /** Stdin comes from the previous command in a pipeline */
+  piped: boolean;
+  /** Reads a heredoc, directly or through `$(cat <<EOF ...)` */
+  heredoc: boolean;
+}
+
+export interface ShellParseResult {
+  commands: ShellCommand[];
+  /** Set when the command cannot be evaluated statically; commands is then empty */
+  error?: ShellParseError;
+}
+
+export const HEREDOC_PLACEHOLDER = '<heredoc>';
+
+const WORD_BREAK = new Set([' ', ';', '&', '|', '(', ')', '<', '>', '\n']);
+const CONTROL_CHARS = /[\t\r\0\v\f]/;
+
+interface PendingHeredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  /** Quoted delimiters disable expansion in the body */
+  quoted: boolean;
+}
+
+class ShellSyntaxError extends Error {
+  constructor(public readonly kind: ShellParseErrorKind, message: string) {
+    super(message);
+  }
+}
+
+class ShellParser {
+  private pos = 0;
+  private pending: PendingHeredoc[] = [];
+
+  constructor(private readonly src: string) {}
+
+  parse(): ShellCommand[] {
+    const commands = this.parseList(0);
+    if (this.pos < this.src.length) {
+      throw new ShellSyntaxError('syntax', `Unexpected "${this.src[this.pos]}"`);
+    }
+    if (this.pending.length > 0) {
+      throw new ShellSyntaxError('syntax', `Unterminated heredoc "${this.pending[0].delimiter}"`);
+    }
+    return commands;
+  }
+
+  /**
+   * Parse a command list up to end of input, or up to the `)` closing a
+   * command substitution when depth > 0.
+   */
+  private parseList(depth: number): ShellCommand[] {
+    const commands: ShellCommand[] = [];
+    let piped = false;
+    let needCommand = false;
+
+    for (;;) {
+      this.skipBlanks();
+      const c = this.src[this.pos];
+      if (c === undefined || (c === ')' && depth > 0)) break;
+      if (c === '\n') {
+        this.pos++;
+        this.readHeredocBodies();
+        // A pipe or `&&` may continue on the next line
+        continue;
+      }
+      if (c === ')') throw new ShellSyntaxError('syntax', 'Unexpected ")"');
+      if (c === '(' || c === '{') throw new ShellSyntaxError('unsupported', 'Subshells and command groups are not supported');
+      if (c === '#') throw new ShellSyntaxError('unsupported', 'Comments are not supported');
+
+      const command = this.parseSimpleCommand(piped);
+      if (command.argv.length === 0 && command.redirects.length === 0) {
+        throw new ShellSyntaxError('syntax', `Unexpected "${this.src[this.pos]}"`);
+      }
+      commands.push(command);
+      needCommand = false;
+      piped = false;
+
+      this.skipBlanks();
+      const op = this.readOperator();
+      if (op === '&') throw new ShellSyntaxError('unsupported', 'Background jobs are not supported');
+      if (op === '|' || op === '|&') piped = true;
+      if (op && op !== ';') needCommand = true;
+    }
+
+    if (needCommand) throw new ShellSyntaxError('syntax', 'Command list ends with an operator');
+    return commands;
+  }
+
+  private readOperator(): string | null {
+    for (const op of ['&&', '||', '|&', '|', ';', '&']) {
+      if (this.src.startsWith(op, this.pos)) {
+        this.pos += op.length;
+        return op;
+      }
+    }
+    return null;
+  }
+
+  private parseSimpleCommand(piped: boolean): ShellCommand {
+    const command: ShellCommand = { argv: [], redirects: [], piped, heredoc: false };
+
+    for (;;) {
+      this.skipBlanks();
+      const c = this.src[this.pos];
+      if (c === undefined || c === '\n' || c === ';' || c === '|' || c === ')') break;
+      if (c === '&' && this.src[this.pos + 1] !== '>') break;
+      if (c === '(') throw new ShellSyntaxError('unsupported', 'Subshells are not supported');
+
+      const redirect = this.readRedirect();
+      if (redirect) {
+        command.redirects.push(redirect);
+        if (redirect.op === '<<' || redirect.op === '<<-') command.heredoc = true;
+        continue;
+      }
+
+      const word = this.readWord();
+      command.argv.push(word.value);
+      if (word.heredoc) command.heredoc = true;
+    }
+    return command;
+  }
+
+  private readRedirect(): ShellRedirect | null {
+    const match = /^(\d*)(&>>|&>|<<<|<<-|<<|<>|<&|>&|>>|>\||<|>)/.exec(this.src.slice(this.pos, this.pos + 8));
+    if (!match) return null;
+    const [text, fdText, op] = match;
+    if (fdText && op.startsWith('&')) return null;
+    this.pos += text.length;
+
+    this.skipBlanks();
+    if (op === '<<' || op === '<<-') {
+      const start = this.pos;
+      const word = this.readWord();
+      const raw = this.src.slice(start, this.pos);
+      this.pending.push({ delimiter: word.value, stripTabs: op === '<<-', quoted: /['"\\]/.test(raw) });
+      return { fd: fdText ? Number(fdText) : undefined, op, target: word.value };
+    }
+
+    const c = this.src[this.pos];
+    if (c === undefined || WORD_BREAK.has(c)) {
+      throw new ShellSyntaxError('syntax', `Missing target for "${op}"`);
+    }
+    const word = this.readWord();
+    return { fd: fdText ? Number(fdText) : undefined, op, target: word.value };
+  }
+
+  private readWord(): { value: string; heredoc: boolean } {
+    let value = '';
+    let heredoc = false;
+    const start = this.pos;
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (WORD_BREAK.has(c)) break;
+
+      if (c === "'") {
+        const close = this.src.indexOf("'", this.pos + 1);
+        if (close === -1) throw new ShellSyntaxError('syntax', 'Unterminated single quote');
+        value += this.src.slice(this.pos + 1, close);
+        this.pos = close + 1;
+      } else if (c === '"') {
+        const quoted = this.readDoubleQuoted();
+        value += quoted.value;
+        heredoc = heredoc || quoted.heredoc;
+      } else if (c === '\\') {
+        // Only line continuations; other escapes are rejected outright
+        if (this.src[this.pos + 1] !== '\n') {
+          throw new ShellSyntaxError('unsupported', 'Backslash escapes outside quotes are not supported');
+        }
+        this.pos += 2;
+      } else if (c === '$') {
+        if (this.src[this.pos + 1] === '(') {
+          value += this.readSubstitution();
+          heredoc = true;
+        } else if (this.isExpansionStart(this.pos + 1)) {
+          throw new ShellSyntaxError('unsupported', 'Parameter expansion is not supported');
+        } else {
+          value += c;
+          this.pos++;
+        }
+      } else if (c === '`') {
+        throw new ShellSyntaxError('substitution', 'Command substitution is not allowed');
+      } else if (CONTROL_CHARS.test(c)) {
+        throw new ShellSyntaxError('unsupported', 'Control characters are not supported');
+      } else if ('*?[]{}!'.includes(c) || (c === '~' && this.pos === start) || (c === '#' && this.pos === start)) {
+        throw new ShellSyntaxError('unsupported', `Unquoted "${c}" is not supported`);
+      } else {
+        value += c;
+        this.pos++;
+      }
+    }
+
+    if (this.pos === start) throw new ShellSyntaxError('syntax', `Unexpected "${this.src[this.pos] ?? 'end of input'}"`);
+    return { value, heredoc };
+  }
+
+  private readDoubleQuoted(): { value: string; heredoc: boolean } {
+    let value = '';
+    let heredoc = false;
+    this.pos++;
+
+    for (;;) {
+      const c = this.src[this.pos];
+      if (c === undefined) throw new ShellSyntaxError('syntax', 'Unterminated double quote');
+      if (c === '"') {
+        this.pos++;
+        return { value, heredoc };
+      }
+      if (c === '\\' && '"\\$`\n'.includes(this.src[this.pos + 1] ?? '')) {
+        if (this.src[this.pos + 1] !== '\n') value += this.src[this.pos + 1];
+        this.pos += 2;
+      } else if (c === '$' && this.src[this.pos + 1] === '(') {
+        value += this.readSubstitution();
+        heredoc = true;
+      } else if (c === '$' && this.isExpansionStart(this.pos + 1)) {
+        throw new ShellSyntaxError('unsupported', 'Parameter expansion is not supported');
+      } else if (c === '`') {
+        throw new ShellSyntaxError('substitution', 'Command substitution is not allowed');
+      } else {
+        value += c;
+        this.pos++;
+      }
+    }
+  }
+
+  private isExpansionStart(index: number): boolean {
+    const next = this.src[index];
+    return next !== undefined && /[A-Za-z0-9_{@*#?$!'"-]/.test(next);
+  }
+
+  /**
+   * Read `$( ... )`. Only `$(cat <<DELIM ... DELIM)` is accepted; it resolves
+   * to HEREDOC_PLACEHOLDER without keeping the body.
+   */
+  private readSubstitution(): string {
+    if (this.src[this.pos + 2] === '(') {
+      throw new ShellSyntaxError('unsupported', 'Arithmetic expansion is not supported');
+    }
+    this.pos += 2;
+    const inner = this.parseList(1);
+    if (this.src[this.pos] !== ')') throw new ShellSyntaxError('syntax', 'Unterminated command substitution');
+    if (this.pending.length > 0) {
+      throw new ShellSyntaxError('syntax', `Unterminated heredoc "${this.pending[0].delimiter}"`);
+    }
+    this.pos++;
+
+    const [only] = inner;
+    const isHeredocCat = inner.length === 1
+      && only.argv.length === 1
+      && only.argv[0] === 'cat'
+      && only.redirects.length === 1
+      && only.heredoc;
+    if (!isHeredocCat) {
+      throw new ShellSyntaxError('substitution', 'Command substitution is not allowed');
+    }
+    return HEREDOC_PLACEHOLDER;
+  }
+
+  /**
+   * Consume the bodies of heredocs opened on the line that just ended
+   */
+  private readHeredocBodies(): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const heredoc of pending) {
+      for (;;) {
+        if (this.pos >= this.src.length) {
+          throw new ShellSyntaxError('syntax', `Unterminated heredoc "${heredoc.delimiter}"`);
+        }
+        const newline = this.src.indexOf('\n', this.pos);
+        const end = newline === -1 ? this.src.length : newline;
+        const line = this.src.slice(this.pos, end);
+        this.pos = newline === -1 ? end : end + 1;
+
+        const candidate = heredoc.stripTabs ? line.replace(/^\t+/, '') : line;
+        if (candidate === heredoc.delimiter) break;
+        if (!heredoc.quoted && /\$\(|`/.test(line)) {
+          throw new ShellSyntaxError('substitution', 'Command substitution in heredoc is not allowed');
+        }
+      }
+    }
+  }
+
+  private skipBlanks(): void {
+    for (;;) {
+      if (this.src[this.pos] === ' ') {
+        this.pos++;
+      } else if (this.src[this.pos] === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Redirections that neither read nor write files: fd duplication and
+ * /dev/null.
+ */
+export function isSafeRedirect(redirect: ShellRedirect): boolean {
+  if (redirect.op === '>&' || redirect.op === '<&') {
+    return /^(\d+|-)$/.test(redirect.target);
+  }
+  return ['>', '>>', '&>', '&>>'].includes(redirect.op) && redirect.target === '/dev/null';
+}
+
+/**
+ * Parse a shell command line into simple commands
+ */
+export function parseShellCommand(command: string): ShellParseResult {
+  try {
+    return { commands: new ShellParser(command.trim()).parse() };
+  } catch (error) {
+    if (error instanceof ShellSyntaxError) {
+      return { commands: [], error: { kind: error.kind, message: error.message } };
+    }
+    throw error;
+  }
+}
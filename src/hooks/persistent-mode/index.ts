@@ -45,6 +45,7 @@ import {
   isAutopilotActive
 } from '../autopilot/index.js';
 import { checkAutopilot } from '../autopilot/enforcement.js';
+import { formatEvidenceSummary, readAllCheckEvidence } from '../../features/verification/evidence-store.js';
 import { readTeamPipelineState } from '../team-pipeline/state.js';
 import type { TeamPipelinePhase } from '../team-pipeline/types.js';
 
@@ -523,7 +524,8 @@ async function checkRalphLoop(
     // Get current story for story-aware verification
     const prdInfo = getPrdCompletionStatus(workingDir);
     const currentStory = prdInfo.nextStory ?? undefined;
-    const verificationPrompt = getArchitectVerificationPrompt(verificationState, currentStory);
+    const checkEvidence = formatEvidenceSummary(readAllCheckEvidence(workingDir));
+    const verificationPrompt = getArchitectVerificationPrompt(verificationState, currentStory, checkEvidence);
     return {
       shouldBlock: true,
       message: verificationPrompt,
@@ -20,6 +20,7 @@ import {
 import { promises as fsPromises } from "fs";
 import { join } from "path";
 import { getOmcRoot } from '../../lib/worktree-paths.js';
+import { resetContextBudgetLedger } from '../../features/context-budget/index.js';
 import { initJobDb, getActiveJobs, getRecentJobs, getJobStats } from '../../lib/job-state-db.js';
 
 // ============================================================================
@@ -484,6 +485,15 @@ async function doProcessPreCompact(
     }
   }
 
+  // Compaction summarizes injected context away; let injectors start over
+  if (input.session_id) {
+    try {
+      resetContextBudgetLedger(directory, input.session_id);
+    } catch (error) {
+      console.error("[PreCompact] Error resetting context budget:", error);
+    }
+  }
+
   // Format summary for context injection
   const summary = formatCompactSummary(checkpoint);
 
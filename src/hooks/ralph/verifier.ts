@@ -169,8 +169,14 @@ export function recordArchitectFeedback(
 /**
  * Generate architect verification prompt
  * When a currentStory is provided, includes its specific acceptance criteria for targeted verification.
+ * When checkEvidence is provided (see formatEvidenceSummary), the architect judges build/test/lint
+ * claims against the recorded command results instead of the transcript.
  */
-export function getArchitectVerificationPrompt(state: VerificationState, currentStory?: UserStory): string {
+export function getArchitectVerificationPrompt(
+  state: VerificationState,
+  currentStory?: UserStory,
+  checkEvidence?: string
+): string {
   const storySection = currentStory ? `
 **Current Story: ${currentStory.id} - ${currentStory.title}**
 ${currentStory.description}
@@ -179,6 +185,13 @@ ${currentStory.description}
 ${currentStory.acceptanceCriteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}
 
 IMPORTANT: Verify EACH acceptance criterion above is met. Do not verify based on general impressions — check each criterion individually with concrete evidence.
+` : '';
+
+  const evidenceSection = checkEvidence ? `
+**Executed Check Evidence (from \`omc verify\`):**
+${checkEvidence}
+
+Claims that the build, tests or lint pass are only valid if backed by PASSED, non-stale evidence above. If evidence is missing, stale or failing, run \`omc verify\` before deciding.
 ` : '';
 
   return `<ralph-verification>
@@ -194,7 +207,7 @@ ${state.original_task}
 ${state.completion_claim}
 
 ${state.architect_feedback ? `**Previous Architect Feedback (rejected):**\n${state.architect_feedback}\n` : ''}
-${storySection}
+${storySection}${evidenceSection}
 ## MANDATORY VERIFICATION STEPS
 
 1. **Spawn Architect Agent** for verification:
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+
+const mocks = vi.hoisted(() => ({ home: '', dropAll: false }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return { ...actual, homedir: () => mocks.home };
+});
+
+vi.mock('../../../features/context-budget/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../features/context-budget/index.js')>();
+  return {
+    ...actual,
+    applyContextBudget: (...[directory, sessionId, candidates, options]: Parameters<typeof actual.applyContextBudget>) =>
+      actual.applyContextBudget(directory, sessionId, candidates, mocks.dropAll
+        ? { ...options, config: { maxTokensPerInjection: 0 } }
+        : options),
+  };
+});
+
+import { createRulesInjectorHook } from '../index.js';
+import { findRuleFiles } from '../finder.js';
+import { parseRuleFrontmatter } from '../parser.js';
+import { shouldApplyRule } from '../matcher.js';
+
+describe('rules injector formats', () => {
+  let root: string;
+
+  function write(relPath: string, content: string): void {
+    const path = join(root, relPath);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'omc-rules-'));
+    mocks.home = join(root, 'home');
+    root = join(root, 'project');
+    mkdirSync(join(root, '.git'), { recursive: true });
+    write('src/api/handler.ts', '');
+  });
+
+  afterEach(() => {
+    mocks.dropAll = false;
+    rmSync(dirname(root), { recursive: true, force: true });
+  });
+
+  describe('shouldApplyRule', () => {
+    it('treats description-only Cursor rules as agent-requested', () => {
+      const { metadata } = parseRuleFrontmatter('---\ndescription: Database conventions\nglobs:\nalwaysApply: false\n---\nUse migrations.');
+      expect(shouldApplyRule(metadata, '/p/src/a.ts', '/p', 'cursor')).toEqual({
+        applies: true, reason: 'agent-requested', agentRequested: true,
+      });
+      expect(shouldApplyRule(metadata, '/p/src/a.ts', '/p', 'claude')).toEqual({ applies: false });
+    });
+
+    it('honours Windsurf triggers', () => {
+      const always = parseRuleFrontmatter('---\ntrigger: always_on\n---\nx').metadata;
+      const manual = parseRuleFrontmatter('---\ntrigger: manual\nglobs: **/*.ts\n---\nx').metadata;
+      const model = parseRuleFrontmatter('---\ntrigger: model_decision\ndescription: Auth flows\n---\nx').metadata;
+      expect(shouldApplyRule(always, '/p/a.ts', '/p', 'windsurf').applies).toBe(true);
+      expect(shouldApplyRule(manual, '/p/a.ts', '/p', 'windsurf').applies).toBe(false);
+      expect(shouldApplyRule(model, '/p/a.ts', '/p', 'windsurf').agentRequested).toBe(true);
+    });
+  });
+
+  it('finds Cursor, Windsurf and nested AGENTS.md rules in precedence order', () => {
+    write('.cursor/rules/ts.mdc', '---\nglobs: src/**/*.ts\n---\nCursor TS rule');
+    write('.claude/rules/ts.md', '---\nglobs: src/**/*.ts\n---\nClaude TS rule');
+    write('.windsurfrules', 'Windsurf rule');
+    write('AGENTS.md', 'Root agents');
+    write('src/api/AGENTS.md', 'API agents');
+    write('src/other/AGENTS.md', 'Unrelated agents');
+
+    const candidates = findRuleFiles(root, mocks.home, join(root, 'src/api/handler.ts'));
+    expect(candidates.map(c => [c.path.slice(root.length + 1), c.format, c.distance])).toEqual([
+      ['src/api/AGENTS.md', 'agents-md', 0],
+      ['.claude/rules/ts.md', 'claude', 2],
+      ['.cursor/rules/ts.mdc', 'cursor', 2],
+      ['.windsurfrules', 'windsurf', 2],
+      ['AGENTS.md', 'agents-md', 2],
+    ]);
+  });
+
+  it('injects matching rules once, deduplicating identical content across formats', () => {
+    write('.cursor/rules/style.mdc', '---\nalwaysApply: true\n---\nPrefer named exports.\n');
+    write('AGENTS.md', 'Prefer named exports.\r\n');
+    write('.cursor/rules/db.mdc', '---\ndescription: Database migration conventions\n---\nAlways add a down migration.');
+    write('.cursor/rules/manual.mdc', '---\nalwaysApply: false\n---\nOnly when @-mentioned.');
+
+    const hook = createRulesInjectorHook(root);
+    const rules = hook.getRulesForFile(join(root, 'src/api/handler.ts'));
+    expect(rules.map(r => [r.relativePath, r.matchReason])).toEqual([
+      [join('.cursor', 'rules', 'db.mdc'), 'agent-requested'],
+      [join('.cursor', 'rules', 'style.mdc'), 'alwaysApply'],
+    ]);
+    expect(rules[0].content).toContain('Database migration conventions');
+    expect(rules[0].content).not.toContain('down migration');
+
+    const sessionId = 'rules-format-test';
+    const first = hook.processToolExecution('read', join(root, 'src/api/handler.ts'), sessionId);
+    expect(first).toContain('Prefer named exports.');
+    expect(first.match(/Prefer named exports/g)).toHaveLength(1);
+    expect(hook.processToolExecution('edit', join(root, 'src/api/handler.ts'), sessionId)).toBe('');
+    hook.clearSession(sessionId);
+  });
+
+  it('offers rules the context budget dropped again on a later call', () => {
+    write('.cursor/rules/style.mdc', '---\nalwaysApply: true\n---\nPrefer named exports.\n');
+    const hook = createRulesInjectorHook(root);
+    const sessionId = 'rules-budget-test';
+
+    mocks.dropAll = true;
+    expect(hook.processToolExecution('read', join(root, 'src/api/handler.ts'), sessionId)).toBe('');
+    mocks.dropAll = false;
+    expect(hook.processToolExecution('read', join(root, 'src/api/handler.ts'), sessionId)).toContain('Prefer named exports.');
+    expect(hook.processToolExecution('read', join(root, 'src/api/handler.ts'), sessionId)).toBe('');
+    hook.clearSession(sessionId);
+  });
+});
@@ -8,6 +8,7 @@
 
 import { join } from 'path';
 import { homedir } from 'os';
+import type { RuleFormat } from './types.js';
 
 /** Storage directory for rules injector state */
 export const OMC_STORAGE_DIR = join(homedir(), '.omc');
@@ -27,14 +28,34 @@ export const PROJECT_MARKERS = [
 export const PROJECT_RULE_SUBDIRS: [string, string][] = [
   ['.github', 'instructions'],
   ['.cursor', 'rules'],
+  ['.windsurf', 'rules'],
   ['.claude', 'rules'],
 ];
 
-/** Single-file rules that always apply */
+/** Single-file rules at the project root that always apply */
 export const PROJECT_RULE_FILES: string[] = [
   '.github/copilot-instructions.md',
+  '.windsurfrules',
 ];
 
+/** Directory-scoped instruction files, collected from every directory up to the project root */
+export const NESTED_RULE_FILES: string[] = [
+  'AGENTS.md',
+];
+
+/**
+ * Precedence between formats found at the same directory distance
+ * (lower wins and is injected first). Native Claude rules beat
+ * imported formats; AGENTS.md is the most generic and goes last.
+ */
+export const RULE_FORMAT_PRIORITY: Record<RuleFormat, number> = {
+  claude: 0,
+  cursor: 1,
+  windsurf: 2,
+  copilot: 3,
+  'agents-md': 4,
+};
+
 /** Pattern for GitHub instructions files */
 export const GITHUB_INSTRUCTIONS_PATTERN = /\.instructions\.md$/;
 
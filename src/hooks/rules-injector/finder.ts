@@ -12,16 +12,18 @@ import {
   realpathSync,
   statSync,
 } from 'fs';
-import { dirname, join, relative } from 'path';
+import { basename, dirname, join, relative } from 'path';
 import {
   GITHUB_INSTRUCTIONS_PATTERN,
+  NESTED_RULE_FILES,
   PROJECT_MARKERS,
   PROJECT_RULE_FILES,
   PROJECT_RULE_SUBDIRS,
   RULE_EXTENSIONS,
+  RULE_FORMAT_PRIORITY,
   USER_RULE_DIR,
 } from './constants.js';
-import type { RuleFileCandidate } from './types.js';
+import type { RuleFileCandidate, RuleFormat } from './types.js';
 
 /**
  * Check if a directory is a GitHub instructions directory.
@@ -40,6 +42,29 @@ function isValidRuleFile(fileName: string, dir: string): boolean {
   return RULE_EXTENSIONS.some((ext) => fileName.endsWith(ext));
 }
 
+/**
+ * Determine a rule file's format from its location.
+ */
+export function detectRuleFormat(filePath: string): RuleFormat {
+  const normalized = filePath.replace(/\\/g, '/');
+  if (NESTED_RULE_FILES.includes(basename(normalized))) return 'agents-md';
+  if (normalized.includes('/.cursor/rules/')) return 'cursor';
+  if (normalized.includes('/.windsurf/rules/') || normalized.endsWith('/.windsurfrules')) return 'windsurf';
+  if (normalized.includes('/.github/')) return 'copilot';
+  return 'claude';
+}
+
+/**
+ * Check that a path is an existing regular file.
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Find project root by walking up from startPath.
  * Checks for PROJECT_MARKERS (.git, package.json, etc.)
@@ -150,10 +175,30 @@ export function calculateDistance(
   }
 }
 
+/**
+ * Rule precedence: project rules before global ones, closer directories
+ * first, then RULE_FORMAT_PRIORITY. Content-hash deduplication keeps the
+ * first occurrence, so a Cursor rule copied into .claude/rules is only
+ * injected once, from the native file.
+ */
+export function compareRuleCandidates(
+  a: Pick<RuleFileCandidate, 'isGlobal' | 'distance' | 'format'>,
+  b: Pick<RuleFileCandidate, 'isGlobal' | 'distance' | 'format'>
+): number {
+  if (a.isGlobal !== b.isGlobal) {
+    return a.isGlobal ? 1 : -1;
+  }
+  if (a.distance !== b.distance) {
+    return a.distance - b.distance;
+  }
+  return RULE_FORMAT_PRIORITY[a.format] - RULE_FORMAT_PRIORITY[b.format];
+}
+
 /**
  * Find all rule files for a given context.
- * Searches from currentFile upward to projectRoot for rule directories,
- * then user-level directory (~/.claude/rules).
+ * Searches from currentFile upward to projectRoot for rule directories and
+ * AGENTS.md files, then project-root single files (.windsurfrules,
+ * copilot-instructions.md), then user-level directory (~/.claude/rules).
  */
 export function findRuleFiles(
   projectRoot: string | null,
@@ -184,10 +229,29 @@ export function findRuleFiles(
           realPath,
           isGlobal: false,
           distance,
+          format: detectRuleFormat(filePath),
         });
       }
     }
 
+    // Directory-scoped AGENTS.md applies to everything below its directory
+    for (const fileName of NESTED_RULE_FILES) {
+      const filePath = join(currentDir, fileName);
+      if (!isFile(filePath)) continue;
+      const realPath = safeRealpathSync(filePath);
+      if (seenRealPaths.has(realPath)) continue;
+      seenRealPaths.add(realPath);
+
+      candidates.push({
+        path: filePath,
+        realPath,
+        isGlobal: false,
+        distance,
+        isSingleFile: true,
+        format: 'agents-md',
+      });
+    }
+
     // Stop at project root or filesystem root
     if (projectRoot && currentDir === projectRoot) break;
     const parentDir = dirname(currentDir);
@@ -196,30 +260,24 @@ export function findRuleFiles(
     distance++;
   }
 
-  // Check for single-file rules at project root
+  // Check for single-file rules at project root (ranked at the root's distance)
   if (projectRoot) {
+    const rootDistance = currentDir === projectRoot ? distance : 0;
     for (const ruleFile of PROJECT_RULE_FILES) {
       const filePath = join(projectRoot, ruleFile);
-      if (existsSync(filePath)) {
-        try {
-          const stat = statSync(filePath);
-          if (stat.isFile()) {
-            const realPath = safeRealpathSync(filePath);
-            if (!seenRealPaths.has(realPath)) {
-              seenRealPaths.add(realPath);
-              candidates.push({
-                path: filePath,
-                realPath,
-                isGlobal: false,
-                distance: 0,
-                isSingleFile: true,
-              });
-            }
-          }
-        } catch {
-          // Skip if file can't be read
-        }
-      }
+      if (!isFile(filePath)) continue;
+      const realPath = safeRealpathSync(filePath);
+      if (seenRealPaths.has(realPath)) continue;
+      seenRealPaths.add(realPath);
+
+      candidates.push({
+        path: filePath,
+        realPath,
+        isGlobal: false,
+        distance: rootDistance,
+        isSingleFile: true,
+        format: detectRuleFormat(filePath),
+      });
     }
   }
 
@@ -238,16 +296,12 @@ export function findRuleFiles(
       realPath,
       isGlobal: true,
       distance: 9999, // Global rules always have max distance
+      format: detectRuleFormat(filePath),
     });
   }
 
-  // Sort by distance (closest first, then global rules last)
-  candidates.sort((a, b) => {
-    if (a.isGlobal !== b.isGlobal) {
-      return a.isGlobal ? 1 : -1;
-    }
-    return a.distance - b.distance;
-  });
+  // Sort by distance (closest first, then global rules last); formats break ties
+  candidates.sort(compareRuleCandidates);
 
   return candidates;
 }
@@ -2,15 +2,16 @@
  * Rules Injector Hook
  *
  * Automatically injects relevant rule files when Claude accesses files.
- * Supports project-level (.claude/rules, .github/instructions) and
- * user-level (~/.claude/rules) rule files.
+ * Supports project-level (.claude/rules, .github/instructions, .cursor/rules,
+ * .windsurf/rules, .windsurfrules, nested AGENTS.md) and user-level
+ * (~/.claude/rules) rule files.
  *
  * Ported from oh-my-opencode's rules-injector hook.
  */
 
 import { readFileSync } from 'fs';
 import { homedir } from 'os';
-import { isAbsolute, relative, resolve } from 'path';
+import { basename, isAbsolute, relative, resolve } from 'path';
 import { findProjectRoot, findRuleFiles } from './finder.js';
 import {
   createContentHash,
@@ -25,7 +26,8 @@ import {
   saveInjectedRules,
 } from './storage.js';
 import { TRACKED_TOOLS } from './constants.js';
-import type { RuleToInject } from './types.js';
+import { applyContextBudget } from '../../features/context-budget/index.js';
+import type { RuleFileCandidate, RuleToInject } from './types.js';
 
 // Re-export all submodules
 export * from './types.js';
@@ -43,6 +45,65 @@ interface SessionCache {
   realPaths: Set<string>;
 }
 
+/**
+ * A matched rule that has not been marked injected yet.
+ */
+interface PendingRule {
+  rule: RuleToInject;
+  realPath: string;
+  contentHash: string;
+}
+
+/**
+ * Match reason for single-file rules, which apply without frontmatter.
+ */
+function singleFileMatchReason(candidate: RuleFileCandidate): string {
+  if (candidate.format === 'agents-md') return 'AGENTS.md (directory scope)';
+  const name = basename(candidate.path).replace(/^\./, '').replace(/\.md$/, '');
+  return `${name} (always apply)`;
+}
+
+/**
+ * Read a rule candidate and decide whether it applies to the target file.
+ * Agent-requested rules are reduced to their description plus a pointer to
+ * the file, so the agent can read the full rule only when it is relevant.
+ */
+function resolveRule(
+  candidate: RuleFileCandidate,
+  targetPath: string,
+  projectRoot: string | null
+): { rule: RuleToInject; contentHash: string } | null {
+  const rawContent = readFileSync(candidate.path, 'utf-8');
+  const { metadata, body } = parseRuleFrontmatter(rawContent);
+  const relativePath = projectRoot
+    ? relative(projectRoot, candidate.path)
+    : candidate.path;
+
+  let matchReason: string;
+  let content = body;
+  if (candidate.isSingleFile) {
+    matchReason = singleFileMatchReason(candidate);
+  } else {
+    const matchResult = shouldApplyRule(metadata, targetPath, projectRoot, candidate.format);
+    if (!matchResult.applies) return null;
+    matchReason = matchResult.reason ?? 'matched';
+    if (matchResult.agentRequested) {
+      content = `${metadata.description}\nRead ${candidate.path} if this applies to the current task.`;
+    }
+  }
+
+  return {
+    rule: {
+      relativePath,
+      matchReason,
+      content,
+      distance: candidate.distance,
+      format: candidate.format,
+    },
+    contentHash: createContentHash(content),
+  };
+}
+
 /**
  * Create a rules injector hook for Claude Code.
  *
@@ -66,12 +127,13 @@ export function createRulesInjectorHook(workingDirectory: string) {
   }
 
   /**
-   * Process a file path and return rules to inject.
+   * Process a file path and return rules to inject. Rules are not marked
+   * injected until they survive the context budget.
    */
   function processFilePathForRules(
     filePath: string,
     sessionId: string
-  ): RuleToInject[] {
+  ): PendingRule[] {
     const resolved = resolveFilePath(filePath);
     if (!resolved) return [];
 
@@ -80,65 +142,69 @@ export function createRulesInjectorHook(workingDirectory: string) {
     const home = homedir();
 
     const ruleFileCandidates = findRuleFiles(projectRoot, home, resolved);
-    const toInject: RuleToInject[] = [];
+    const toInject: PendingRule[] = [];
+    const seenRealPaths = new Set(cache.realPaths);
+    const seenContentHashes = new Set(cache.contentHashes);
 
     for (const candidate of ruleFileCandidates) {
-      if (isDuplicateByRealPath(candidate.realPath, cache.realPaths)) continue;
+      if (isDuplicateByRealPath(candidate.realPath, seenRealPaths)) continue;
 
       try {
-        const rawContent = readFileSync(candidate.path, 'utf-8');
-        const { metadata, body } = parseRuleFrontmatter(rawContent);
-
-        let matchReason: string;
-        if (candidate.isSingleFile) {
-          matchReason = 'copilot-instructions (always apply)';
-        } else {
-          const matchResult = shouldApplyRule(metadata, resolved, projectRoot);
-          if (!matchResult.applies) continue;
-          matchReason = matchResult.reason ?? 'matched';
-        }
+        const resolvedRule = resolveRule(candidate, resolved, projectRoot);
+        if (!resolvedRule) continue;
+        const { rule, contentHash } = resolvedRule;
+        if (isDuplicateByContentHash(contentHash, seenContentHashes)) continue;
 
-        const contentHash = createContentHash(body);
-        if (isDuplicateByContentHash(contentHash, cache.contentHashes)) continue;
+        toInject.push({ rule, realPath: candidate.realPath, contentHash });
 
-        const relativePath = projectRoot
-          ? relative(projectRoot, candidate.path)
-          : candidate.path;
-
-        toInject.push({
-          relativePath,
-          matchReason,
-          content: body,
-          distance: candidate.distance,
-        });
-
-        cache.realPaths.add(candidate.realPath);
-        cache.contentHashes.add(contentHash);
+        seenRealPaths.add(candidate.realPath);
+        seenContentHashes.add(contentHash);
       } catch {
         // Skip files that can't be read
       }
     }
 
-    if (toInject.length > 0) {
-      // Sort by distance (closest first)
-      toInject.sort((a, b) => a.distance - b.distance);
-      saveInjectedRules(sessionId, cache);
-    }
-
+    // Candidates are already in precedence order (closest first)
     return toInject;
   }
 
   /**
-   * Format rules for injection into output.
+   * Format rules for injection into output, within the session's context
+   * budget. Only rules the budget keeps are marked injected, so dropped
+   * rules are offered again on a later tool call.
    */
-  function formatRulesForInjection(rules: RuleToInject[]): string {
-    if (rules.length === 0) return '';
-
-    let output = '';
-    for (const rule of rules) {
-      output += `\n\n[Rule: ${rule.relativePath}]\n[Match: ${rule.matchReason}]\n${rule.content}`;
+  function formatRulesForInjection(
+    pending: PendingRule[],
+    sessionId: string,
+    transcriptPath?: string
+  ): string {
+    if (pending.length === 0) return '';
+
+    const plan = applyContextBudget(
+      workingDirectory,
+      sessionId,
+      pending.map(({ rule }) => ({
+        source: 'rules-injector' as const,
+        id: rule.relativePath,
+        content: `\n\n[Rule: ${rule.relativePath}]\n[Match: ${rule.matchReason}]\n${rule.content}`,
+        priority: 'high' as const,
+        trimmable: true,
+      })),
+      { transcriptPath }
+    );
+
+    const includedIds = new Set(plan.included.map((entry) => entry.id));
+    const injected = pending.filter(({ rule }) => includedIds.has(rule.relativePath));
+    if (injected.length > 0) {
+      const cache = getSessionCache(sessionId);
+      for (const { realPath, contentHash } of injected) {
+        cache.realPaths.add(realPath);
+        cache.contentHashes.add(contentHash);
+      }
+      saveInjectedRules(sessionId, cache);
     }
-    return output;
+
+    return plan.included.map((entry) => entry.content).join('');
   }
 
   return {
@@ -148,14 +214,15 @@ export function createRulesInjectorHook(workingDirectory: string) {
     processToolExecution: (
       toolName: string,
       filePath: string,
-      sessionId: string
+      sessionId: string,
+      transcriptPath?: string
     ): string => {
       if (!TRACKED_TOOLS.includes(toolName.toLowerCase())) {
         return '';
       }
 
       const rules = processFilePathForRules(filePath, sessionId);
-      return formatRulesForInjection(rules);
+      return formatRulesForInjection(rules, sessionId, transcriptPath);
     },
 
     /**
@@ -170,37 +237,22 @@ export function createRulesInjectorHook(workingDirectory: string) {
 
       const ruleFileCandidates = findRuleFiles(projectRoot, home, resolved);
       const rules: RuleToInject[] = [];
+      const seenHashes = new Set<string>();
 
       for (const candidate of ruleFileCandidates) {
         try {
-          const rawContent = readFileSync(candidate.path, 'utf-8');
-          const { metadata, body } = parseRuleFrontmatter(rawContent);
-
-          let matchReason: string;
-          if (candidate.isSingleFile) {
-            matchReason = 'copilot-instructions (always apply)';
-          } else {
-            const matchResult = shouldApplyRule(metadata, resolved, projectRoot);
-            if (!matchResult.applies) continue;
-            matchReason = matchResult.reason ?? 'matched';
-          }
-
-          const relativePath = projectRoot
-            ? relative(projectRoot, candidate.path)
-            : candidate.path;
-
-          rules.push({
-            relativePath,
-            matchReason,
-            content: body,
-            distance: candidate.distance,
-          });
+          const resolvedRule = resolveRule(candidate, resolved, projectRoot);
+          if (!resolvedRule) continue;
+          if (isDuplicateByContentHash(resolvedRule.contentHash, seenHashes)) continue;
+          seenHashes.add(resolvedRule.contentHash);
+          rules.push(resolvedRule.rule);
         } catch {
           // Skip files that can't be read
         }
       }
 
-      return rules.sort((a, b) => a.distance - b.distance);
+      // Candidates are already in precedence order
+      return rules;
     },
 
     /**
@@ -8,7 +8,7 @@
 
 import { createHash } from 'crypto';
 import { relative } from 'path';
-import type { RuleMetadata, MatchResult } from './types.js';
+import type { RuleMetadata, MatchResult, RuleFormat } from './types.js';
 
 /**
  * Simple glob pattern matcher.
@@ -27,26 +27,38 @@ function matchGlob(pattern: string, filePath: string): boolean {
   return regex.test(filePath);
 }
 
+/**
+ * Agent-requested rules have a description but no file trigger: Cursor
+ * rules with only a description, Windsurf rules with trigger model_decision.
+ */
+function isAgentRequested(metadata: RuleMetadata, format: RuleFormat, hasGlobs: boolean): boolean {
+  if (!metadata.description) return false;
+  if (format === 'windsurf') return metadata.trigger === 'model_decision';
+  return format === 'cursor' && !hasGlobs;
+}
+
 /**
  * Check if a rule should apply to the current file based on metadata.
  */
 export function shouldApplyRule(
   metadata: RuleMetadata,
   currentFilePath: string,
-  projectRoot: string | null
+  projectRoot: string | null,
+  format: RuleFormat = 'claude'
 ): MatchResult {
-  if (metadata.alwaysApply === true) {
+  if (metadata.alwaysApply === true || metadata.trigger === 'always_on') {
     return { applies: true, reason: 'alwaysApply' };
   }
-
-  const globs = metadata.globs;
-  if (!globs) {
+  if (metadata.trigger === 'manual') {
     return { applies: false };
   }
 
-  const patterns = Array.isArray(globs) ? globs : [globs];
+  const globs = metadata.globs;
+  const patterns = !globs ? [] : Array.isArray(globs) ? globs : [globs];
   if (patterns.length === 0) {
-    return { applies: false };
+    return isAgentRequested(metadata, format, false)
+      ? { applies: true, reason: 'agent-requested', agentRequested: true }
+      : { applies: false };
   }
 
   const relativePath = projectRoot
@@ -62,7 +74,9 @@ export function shouldApplyRule(
     }
   }
 
-  return { applies: false };
+  return isAgentRequested(metadata, format, true)
+    ? { applies: true, reason: 'agent-requested', agentRequested: true }
+    : { applies: false };
 }
 
 /**
@@ -74,9 +88,12 @@ export function isDuplicateByRealPath(realPath: string, cache: Set<string>): boo
 
 /**
  * Create SHA-256 hash of content, truncated to 16 chars.
+ * Line endings and surrounding whitespace are normalized so the same rule
+ * kept in several formats (e.g. .mdc and AGENTS.md) hashes identically.
  */
 export function createContentHash(content: string): string {
-  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+  const normalized = content.replace(/\r\n/g, '\n').trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
 }
 
 /**
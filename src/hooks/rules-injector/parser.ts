@@ -17,6 +17,7 @@ import type { RuleMetadata, RuleFrontmatterResult } from './types.js';
  * - Multi-line array with dashes
  * - Comma-separated: globs: "**\/*.py, src/**\/*.ts"
  * - Claude Code 'paths' field (alias for globs)
+ * - Windsurf 'trigger' field (always_on, glob, model_decision, manual)
  */
 export function parseRuleFrontmatter(content: string): RuleFrontmatterResult {
   const frontmatterRegex = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/;
@@ -61,6 +62,8 @@ function parseYamlContent(yamlContent: string): RuleMetadata {
       metadata.description = parseStringValue(rawValue);
     } else if (key === 'alwaysApply') {
       metadata.alwaysApply = rawValue === 'true';
+    } else if (key === 'trigger') {
+      metadata.trigger = parseStringValue(rawValue);
     } else if (key === 'globs' || key === 'paths' || key === 'applyTo') {
       const { value, consumed } = parseArrayOrStringValue(rawValue, lines, i);
       // Merge paths into globs (Claude Code compatibility)
@@ -2,11 +2,18 @@
  * Rules Injector Types
  *
  * Type definitions for rule file parsing and injection.
- * Supports Claude Code format (globs, paths) and GitHub Copilot format (applyTo).
+ * Supports Claude Code format (globs, paths), GitHub Copilot format (applyTo),
+ * Cursor .mdc rules, Windsurf rules and nested AGENTS.md files.
  *
  * Ported from oh-my-opencode's rules-injector hook.
  */
 
+/**
+ * Rule file format, derived from where the file was found.
+ * Determines how frontmatter is interpreted and breaks precedence ties.
+ */
+export type RuleFormat = 'claude' | 'cursor' | 'windsurf' | 'copilot' | 'agents-md';
+
 /**
  * Rule file metadata from YAML frontmatter.
  * Supports multiple formats for compatibility.
@@ -18,6 +25,8 @@ export interface RuleMetadata {
   globs?: string | string[];
   /** Whether this rule always applies regardless of file path */
   alwaysApply?: boolean;
+  /** Windsurf activation mode: always_on, glob, model_decision or manual */
+  trigger?: string;
 }
 
 /**
@@ -56,6 +65,8 @@ export interface RuleFileCandidate {
   distance: number;
   /** Single-file rules (e.g., .github/copilot-instructions.md) always apply */
   isSingleFile?: boolean;
+  /** Rule file format */
+  format: RuleFormat;
 }
 
 /**
@@ -84,6 +95,8 @@ export interface RuleToInject {
   content: string;
   /** Directory distance */
   distance: number;
+  /** Rule file format */
+  format: RuleFormat;
 }
 
 /**
@@ -94,6 +107,11 @@ export interface MatchResult {
   applies: boolean;
   /** Reason for match (e.g., "glob: *.ts") */
   reason?: string;
+  /**
+   * Rule is only described to the agent (Cursor "Agent Requested",
+   * Windsurf "model_decision"); its body is read on demand.
+   */
+  agentRequested?: boolean;
 }
 
 /**
@@ -9,6 +9,7 @@ vi.mock('../callbacks.js', () => ({
 
 vi.mock('../../../notifications/index.js', () => ({
   notify: vi.fn(async () => undefined),
+  flushAllDueNotifications: vi.fn(async () => undefined),
 }));
 
 vi.mock('../../../tools/python-repl/bridge-manager.js', () => ({
@@ -22,6 +23,7 @@ vi.mock('../../../tools/python-repl/bridge-manager.js', () => ({
 
 import { processSessionEnd } from '../index.js';
 import { cleanupBridgeSessions } from '../../../tools/python-repl/bridge-manager.js';
+import { flushAllDueNotifications } from '../../../notifications/index.js';
 
 describe('processSessionEnd python bridge cleanup', () => {
   let tmpDir: string;
@@ -63,6 +65,8 @@ describe('processSessionEnd python bridge cleanup', () => {
     expect(cleanupBridgeSessions).toHaveBeenCalledTimes(1);
     const calledWith = vi.mocked(cleanupBridgeSessions).mock.calls[0]?.[0] as string[];
     expect(calledWith.sort()).toEqual(['bridge-A', 'bridge-B'].sort());
+    // Held digests go out even when no session-end notification is sent
+    expect(flushAllDueNotifications).toHaveBeenCalledWith(true);
   });
 });
 
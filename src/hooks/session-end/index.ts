@@ -1,8 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
+import { execFileSync } from 'child_process';
 import { triggerStopCallbacks } from './callbacks.js';
 import { notify } from '../../notifications/index.js';
+import type { NotificationAgentSummary } from '../../notifications/types.js';
 import { cleanupBridgeSessions } from '../../tools/python-repl/bridge-manager.js';
 import { resolveToWorktreeRoot, getOmcRoot, validateSessionId, isValidTranscriptPath } from '../../lib/worktree-paths.js';
 import { SESSION_END_MODE_STATE_FILES, SESSION_METRICS_MODE_FILES } from '../../lib/mode-names.js';
@@ -54,6 +56,68 @@ function getAgentCounts(directory: string): { spawned: number; completed: number
   }
 }
 
+/** Caps on list sizes sent to notification templates */
+const MAX_NOTIFY_CHANGED_FILES = 50;
+const MAX_NOTIFY_TODOS = 20;
+
+/**
+ * Read per-agent type, status and duration for notification templates.
+ * Must run before cleanupTransientState removes the tracking file.
+ */
+function getAgentSummaries(directory: string): NotificationAgentSummary[] {
+  const trackingPath = path.join(getOmcRoot(directory), 'state', 'subagent-tracking.json');
+
+  try {
+    const tracking = JSON.parse(fs.readFileSync(trackingPath, 'utf-8'));
+    if (!Array.isArray(tracking.agents)) {
+      return [];
+    }
+    return tracking.agents.map((a: any) => ({
+      type: String(a.agent_type ?? 'unknown'),
+      status: a.status === 'completed' || a.status === 'failed' ? a.status : 'running',
+      durationMs: typeof a.duration_ms === 'number' ? a.duration_ms : undefined,
+    }));
+  } catch (_error) {
+    return [];
+  }
+}
+
+/**
+ * List files with uncommitted changes (including untracked files)
+ */
+function getChangedFiles(directory: string): string[] {
+  try {
+    const output = execFileSync('git', ['status', '--porcelain'], {
+      cwd: directory,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 5000,
+    });
+
+    return output
+      .split('\n')
+      .filter((line) => line.length > 3)
+      // "XY path" or "XY old -> new" for renames
+      .map((line) => line.slice(3).split(' -> ').pop()!)
+      .slice(0, MAX_NOTIFY_CHANGED_FILES);
+  } catch (_error) {
+    return [];
+  }
+}
+
+/**
+ * Content of todos and tasks left unfinished in this session
+ */
+async function getIncompleteTodoContents(directory: string, sessionId: string): Promise<string[]> {
+  try {
+    const { checkIncompleteTodos } = await import('../todo-continuation/index.js');
+    const result = await checkIncompleteTodos(sessionId, directory);
+    return result.todos.map((todo) => todo.content).slice(0, MAX_NOTIFY_TODOS);
+  } catch (_error) {
+    return [];
+  }
+}
+
 /**
  * Detect which modes were used during the session
  */
@@ -414,6 +478,7 @@ export async function processSessionEnd(input: SessionEndInput): Promise<HookOut
   // Record and export session metrics to disk
   const metrics = recordSessionMetrics(directory, input);
   exportSessionSummary(directory, metrics);
+  const agents = getAgentSummaries(directory);
 
   // Clean up transient state files
   cleanupTransientState(directory);
@@ -434,6 +499,14 @@ export async function processSessionEnd(input: SessionEndInput): Promise<HookOut
     // Ignore cleanup errors
   }
 
+  // Record how the session went for learned skills it received, then run
+  // the scheduled lifecycle pass (demotion, usage decay)
+  try {
+    await recordSkillSessionOutcome(directory, input.session_id, metrics.started_at);
+  } catch {
+    // Skill telemetry failures should never block session end
+  }
+
   // Trigger stop hook callbacks (#395)
   await triggerStopCallbacks(metrics, {
     session_id: input.session_id,
@@ -451,12 +524,24 @@ export async function processSessionEnd(input: SessionEndInput): Promise<HookOut
       modesUsed: metrics.modes_used,
       reason: metrics.reason,
       timestamp: metrics.ended_at,
+      changedFiles: getChangedFiles(directory),
+      incompleteTodos: await getIncompleteTodoContents(directory, input.session_id),
+      agents,
       profileName: process.env.OMC_NOTIFY_PROFILE,
     });
   } catch {
     // Notification failures should never block session end
   }
 
+  // Send the pending digest and due reminders, including ones notify() did
+  // not reach because session-end notifications are disabled
+  try {
+    const { flushAllDueNotifications } = await import('../../notifications/index.js');
+    await flushAllDueNotifications(true);
+  } catch {
+    // Notification failures should never block session end
+  }
+
 
   // Clean up reply session registry and stop daemon if no active sessions remain
   try {
@@ -479,6 +564,27 @@ export async function processSessionEnd(input: SessionEndInput): Promise<HookOut
   return { continue: true };
 }
 
+/**
+ * Close out skill usage telemetry for a session. The session counts as a
+ * failure when a project check (build/test/lint) failed after it started.
+ */
+async function recordSkillSessionOutcome(
+  directory: string,
+  sessionId: string,
+  startedAt: string | undefined,
+): Promise<void> {
+  const { readAllCheckEvidence, isEvidenceStale } = await import('../../features/verification/evidence-store.js');
+  const { recordSkillSessionEnd } = await import('../learner/usage.js');
+  const { runScheduledSkillLifecycle } = await import('../learner/lifecycle.js');
+
+  const failedCheck = readAllCheckEvidence(directory).some(evidence =>
+    !evidence.passed &&
+    (startedAt ? evidence.recordedAt >= startedAt : !isEvidenceStale(evidence))
+  );
+  recordSkillSessionEnd(directory, sessionId, failedCheck ? 'failure' : 'success');
+  runScheduledSkillLifecycle(directory);
+}
+
 /**
  * Main hook entry point
  */
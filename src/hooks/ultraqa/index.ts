@@ -7,6 +7,8 @@
 
 import { readRalphState } from '../ralph/index.js';
 import { writeModeState, readModeState, clearModeStateFile } from '../../lib/mode-state-io.js';
+import { detectProjectCheck } from '../../features/verification/project-checks.js';
+import type { ProjectCheckId } from '../../features/verification/types.js';
 
 export type UltraQAGoalType = 'tests' | 'build' | 'lint' | 'typecheck' | 'custom';
 
@@ -230,9 +232,18 @@ function normalizeFailure(failure: string): string {
 }
 
 /**
- * Get goal command based on goal type
+ * Get goal command based on goal type.
+ * When a directory is given and the project defines a command for the goal,
+ * returns `omc verify` for that check, which runs the real command and
+ * records evidence.
  */
-export function getGoalCommand(goalType: UltraQAGoalType): string {
+export function getGoalCommand(goalType: UltraQAGoalType, directory?: string): string {
+  const checkId: ProjectCheckId | null = goalType === 'tests' ? 'test' : goalType === 'custom' ? null : goalType;
+  const detected = directory && checkId ? detectProjectCheck(directory, checkId) : null;
+  if (detected) {
+    return `omc verify --checks ${detected.id}  # runs: ${detected.command} (from ${detected.source})`;
+  }
+
   switch (goalType) {
     case 'tests':
       return '# Run the project test command (e.g., npm test, pytest, go test ./..., cargo test)';
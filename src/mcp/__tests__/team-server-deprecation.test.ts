@@ -41,6 +41,22 @@ describe('team-server MCP deprecation envelope CLI argument mapping', () => {
     expect(payload.cli_replacement).toContain('--task "review auth flow"');
   });
 
+  it('maps the autoscale argument to autoscale flags', () => {
+    const replacement = (autoscale: unknown) => {
+      const envelope = createDeprecatedCliOnlyEnvelopeWithArgs('omc_run_team_start', {
+        teamName: 'alpha-team',
+        agentTypes: ['claude'],
+        tasks: [{ subject: 'S1', description: 'triage' }],
+        cwd: '/tmp/project',
+        autoscale,
+      });
+      return (JSON.parse(envelope.content[0].text) as Record<string, string>).cli_replacement;
+    };
+    expect(replacement(true)).toMatch(/ --autoscale$/);
+    expect(replacement(false)).toMatch(/ --no-autoscale$/);
+    expect(replacement({ minWorkers: 1, maxWorkers: 4 })).toMatch(/ --autoscale --autoscale-min 1 --autoscale-max 4$/);
+  });
+
   it('maps wait/cleanup tool args to timeout/grace flags', () => {
     const waitEnvelope = createDeprecatedCliOnlyEnvelopeWithArgs('omc_run_team_wait', {
       job_id: 'omc-abc123',
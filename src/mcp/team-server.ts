@@ -104,6 +104,16 @@ function buildCliReplacement(toolName: DeprecatedTeamToolName, args: unknown): s
       flags.push('--task', '"<task>"');
     }
 
+    const autoscale = parsed.autoscale;
+    if (autoscale === true) flags.push('--autoscale');
+    if (autoscale === false) flags.push('--no-autoscale');
+    if (typeof autoscale === 'object' && autoscale !== null) {
+      const { minWorkers, maxWorkers } = autoscale as { minWorkers?: unknown; maxWorkers?: unknown };
+      flags.push('--autoscale');
+      if (typeof minWorkers === 'number' && Number.isFinite(minWorkers)) flags.push('--autoscale-min', String(Math.floor(minWorkers)));
+      if (typeof maxWorkers === 'number' && Number.isFinite(maxWorkers)) flags.push('--autoscale-max', String(Math.floor(maxWorkers)));
+    }
+
     return flags.join(' ');
   }
 
@@ -201,6 +211,19 @@ const startSchema = z.object({
     description: z.string().describe('Full task description'),
   })).describe('Tasks to distribute to workers'),
   cwd: z.string().describe('Working directory (absolute path)'),
+  autoscale: z.union([
+    z.boolean(),
+    z.object({
+      minWorkers: z.number().optional(),
+      maxWorkers: z.number().optional(),
+      tasksPerWorker: z.number().optional(),
+      scaleUpStep: z.number().optional(),
+      idleDrainAfterMs: z.number().optional(),
+      cooldownMs: z.number().optional(),
+      workerHourlyCostUsd: z.number().optional(),
+      maxHourlyCostUsd: z.number().optional(),
+    }),
+  ]).optional().describe('Autoscale workers: true for the configured policy, policy overrides, or false to opt out (default: teamAutoscale.enabled in config; requires OMC_TEAM_SCALING_ENABLED=1)'),
 });
 
 const statusSchema = z.object({
@@ -452,6 +475,14 @@ const TOOLS = [
           description: 'Tasks to distribute to workers',
         },
         cwd: { type: 'string', description: 'Working directory (absolute path)' },
+        autoscale: {
+          type: ['boolean', 'object'],
+          properties: {
+            minWorkers: { type: 'number' },
+            maxWorkers: { type: 'number' },
+          },
+          description: 'Autoscale workers: true, false, or { minWorkers, maxWorkers } (default: teamAutoscale.enabled in config)',
+        },
       },
       required: ['teamName', 'agentTypes', 'tasks', 'cwd'],
     },
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DiscordGatewayClient, respondToDiscordInteraction } from "../discord-gateway.js";
+
+describe("DiscordGatewayClient", () => {
+  const config = { botToken: "discord-bot-token", channelId: "123456789012345678" };
+  const mockHandler = vi.fn();
+  const mockLog = vi.fn();
+
+  let mockWsInstance: {
+    readyState: number;
+    addEventListener: ReturnType<typeof vi.fn>;
+    removeEventListener: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+    send: ReturnType<typeof vi.fn>;
+  };
+  let originalWebSocket: typeof globalThis.WebSocket;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockWsInstance = {
+      readyState: 1, // OPEN
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      close: vi.fn(),
+      send: vi.fn(),
+    };
+    originalWebSocket = globalThis.WebSocket;
+    // Must use regular function (not arrow) so `new WebSocket()` returns mockWsInstance
+    (globalThis as unknown as Record<string, unknown>).WebSocket = Object.assign(
+      vi.fn(function () { return mockWsInstance; }),
+      { OPEN: 1, CLOSED: 3, CONNECTING: 0, CLOSING: 2 },
+    );
+    mockHandler.mockReset();
+    mockLog.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    (globalThis as unknown as Record<string, unknown>).WebSocket = originalWebSocket;
+  });
+
+  function startClient() {
+    const client = new DiscordGatewayClient(config, mockHandler, mockLog);
+    client.start();
+    const messageCall = mockWsInstance.addEventListener.mock.calls.find(
+      (call: unknown[]) => call[0] === "message",
+    );
+    const receive = (payload: unknown) =>
+      (messageCall![1] as (event: { data?: unknown }) => void)({ data: JSON.stringify(payload) });
+    return { client, receive };
+  }
+
+  function sent(): Array<{ op: number; d?: unknown }> {
+    return mockWsInstance.send.mock.calls.map((call: unknown[]) => JSON.parse(call[0] as string));
+  }
+
+  it("identifies on HELLO and heartbeats with the last sequence", () => {
+    const { receive } = startClient();
+    receive({ op: 10, d: { heartbeat_interval: 1000 } });
+    expect(sent()[0]).toMatchObject({ op: 2, d: { token: "discord-bot-token", intents: 0 } });
+
+    receive({ op: 0, t: "READY", s: 1, d: {} });
+    vi.advanceTimersByTime(1000);
+    expect(sent()[1]).toEqual({ op: 1, d: 1 });
+  });
+
+  it("dispatches button presses from the configured channel", async () => {
+    const { receive } = startClient();
+    const interaction = {
+      id: "int-1",
+      token: "int-token",
+      type: 3,
+      channel_id: config.channelId,
+      member: { user: { id: "111111111111111111" } },
+      data: { custom_id: "omc-approval:approve:3f9a1c2e" },
+      message: { id: "msg-1", content: "# Permission Needed" },
+    };
+
+    receive({ op: 0, t: "INTERACTION_CREATE", s: 2, d: interaction });
+    receive({ op: 0, t: "INTERACTION_CREATE", s: 3, d: { ...interaction, channel_id: "999" } });
+    receive({ op: 0, t: "INTERACTION_CREATE", s: 4, d: { ...interaction, type: 2 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockHandler).toHaveBeenCalledTimes(1);
+    expect(mockHandler).toHaveBeenCalledWith({
+      id: "int-1",
+      token: "int-token",
+      channelId: config.channelId,
+      userId: "111111111111111111",
+      customId: "omc-approval:approve:3f9a1c2e",
+      messageId: "msg-1",
+      messageContent: "# Permission Needed",
+    });
+  });
+
+  it("stops heartbeating and removes listeners on stop()", () => {
+    const { client, receive } = startClient();
+    receive({ op: 10, d: { heartbeat_interval: 1000 } });
+    client.stop();
+    vi.advanceTimersByTime(5000);
+
+    expect(sent()).toHaveLength(1); // IDENTIFY only
+    expect(mockWsInstance.removeEventListener).toHaveBeenCalledTimes(3);
+    expect(mockWsInstance.close).toHaveBeenCalled();
+  });
+
+  it("updates the message and removes the buttons when answering", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await respondToDiscordInteraction({ id: "int-1", token: "int-token" }, "Approved", true);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://discord.com/api/v10/interactions/int-1/int-token/callback");
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      type: 7,
+      data: { content: "Approved", components: [] },
+    });
+  });
+});
@@ -1437,3 +1437,77 @@ describe("sendWebhook reply channel context", () => {
     expect(body).not.toHaveProperty("thread_id");
   });
 });
+
+describe("rich platform messages", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const blocks = [{ type: "section", text: { type: "mrkdwn", text: "*Done*" } }];
+  const embeds = [{ title: "Done" }];
+
+  it("sends Slack blocks with the message as fallback text", async () => {
+    const config: NotificationConfig = {
+      enabled: true,
+      slack: { enabled: true, webhookUrl: "https://hooks.slack.com/services/T00/B00/xxx" },
+    };
+    await dispatchNotifications(config, "session-end", basePayload, new Map([
+      ["slack", { message: basePayload.message, slackBlocks: blocks }],
+    ]));
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+    expect(body.text).toBe(basePayload.message);
+    expect(body.blocks).toEqual(blocks);
+  });
+
+  it("prepends the mention to Slack blocks", async () => {
+    const config: NotificationConfig = {
+      enabled: true,
+      slack: { enabled: true, webhookUrl: "https://hooks.slack.com/services/T00/B00/xxx", mention: "<!here>" },
+    };
+    await dispatchNotifications(config, "session-end", basePayload, new Map([
+      ["slack", { message: basePayload.message, slackBlocks: blocks }],
+    ]));
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+    expect(body.text).toBe(`<!here>\n${basePayload.message}`);
+    expect(body.blocks).toEqual([
+      { type: "section", text: { type: "mrkdwn", text: "<!here>" } },
+      ...blocks,
+    ]);
+  });
+
+  it("sends Discord embeds with only the mention as content", async () => {
+    const config: DiscordNotificationConfig = {
+      enabled: true,
+      webhookUrl: "https://discord.com/api/webhooks/123/abc",
+      mention: "<@12345678901234567>",
+    };
+    await sendDiscord(config, { ...basePayload, discordEmbeds: embeds });
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+    expect(body.content.trim()).toBe("<@12345678901234567>");
+    expect(body.embeds).toEqual(embeds);
+  });
+
+  it("uses the template parse mode for Telegram", async () => {
+    const { request } = await import("https");
+    vi.mocked(request).mockClear();
+    const config: TelegramNotificationConfig = {
+      enabled: true,
+      botToken: "123456:ABCdef",
+      chatId: "999",
+      parseMode: "Markdown",
+    };
+    await sendTelegram(config, { ...basePayload, message: "<b>Done</b>", telegramParseMode: "HTML" });
+    const req = vi.mocked(request).mock.results[0].value as { write: ReturnType<typeof vi.fn> };
+    expect(JSON.parse(req.write.mock.calls[0][0] as string)).toMatchObject({
+      text: "<b>Done</b>",
+      parse_mode: "HTML",
+    });
+  });
+});
@@ -19,6 +19,7 @@ import {
   getHookConfig,
   resetHookConfigCache,
   resolveEventTemplate,
+  resolveEventTemplateFormat,
   mergeHookConfigIntoNotificationConfig,
 } from "../hook-config.js";
 import type { HookNotificationConfig } from "../hook-config-types.js";
@@ -190,6 +191,33 @@ describe("hook-config reader", () => {
     });
   });
 
+  describe("resolveEventTemplateFormat", () => {
+    const config: HookNotificationConfig = {
+      version: 1,
+      enabled: true,
+      events: {
+        "session-end": {
+          enabled: true,
+          template: "Event: {{duration}}",
+          platforms: {
+            slack: { template: "[]", format: "blocks" },
+            telegram: { format: "html" },
+          },
+        },
+      },
+    };
+
+    it("returns the format of the platform override template", () => {
+      expect(resolveEventTemplateFormat(config, "session-end", "slack")).toBe("blocks");
+    });
+
+    it("falls back to text when the override has no template", () => {
+      expect(resolveEventTemplateFormat(config, "session-end", "telegram")).toBe("text");
+      expect(resolveEventTemplateFormat(config, "session-end", "discord")).toBe("text");
+      expect(resolveEventTemplateFormat(null, "session-end", "slack")).toBe("text");
+    });
+  });
+
   // -----------------------------------------------------------------------
   // mergeHookConfigIntoNotificationConfig
   // -----------------------------------------------------------------------
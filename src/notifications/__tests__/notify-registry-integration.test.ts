@@ -26,6 +26,7 @@ vi.mock("../config.js", () => ({
   getVerbosity: () => "session",
   isEventAllowedByVerbosity: () => true,
   shouldIncludeTmuxTail: () => false,
+  getDeliveryRules: () => null,
   parseMentionAllowedMentions: () => ({
     users: undefined,
     roles: undefined,
@@ -0,0 +1,318 @@
+/**
+ * Tests for the Matrix, Microsoft Teams, ntfy, Gotify and email platforms:
+ * senders, validation, env-derived config and activation gating.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { NotificationConfig, NotificationPayload } from "../types.js";
+
+vi.mock("../smtp.js", () => ({
+  sendMail: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+  sendMatrix,
+  sendTeams,
+  sendNtfy,
+  sendGotify,
+  sendEmail,
+  dispatchNotifications,
+} from "../dispatcher.js";
+import { sendMail } from "../smtp.js";
+import {
+  validateMatrixConfig,
+  validateTeamsConfig,
+  validateNtfyConfig,
+  validateGotifyConfig,
+  validateEmailConfig,
+} from "../validation.js";
+import { buildConfigFromEnv, getEnabledPlatforms, isEventEnabled } from "../config.js";
+
+const payload: NotificationPayload = {
+  event: "session-end",
+  sessionId: "sess-1",
+  message: "Session finished",
+  timestamp: "2026-01-01T00:00:00.000Z",
+  projectName: "demo",
+};
+
+const TEAMS_URL =
+  "https://prod-12.westus.logic.azure.com/workflows/abc/triggers/manual/paths/invoke?api-version=2016-06-01&sig=secret";
+
+function mockFetch(body: unknown = {}, status = 200) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function requestBody(fetchMock: ReturnType<typeof vi.fn>) {
+  return JSON.parse(fetchMock.mock.calls[0][1].body);
+}
+
+describe("sendMatrix", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const config = {
+    enabled: true,
+    homeserverUrl: "https://matrix.example.org/",
+    accessToken: "syt_bot_abc_123",
+    roomId: "!room:example.org",
+  };
+
+  it("PUTs an m.room.message and returns the event ID", async () => {
+    const fetchMock = mockFetch({ event_id: "$event1" });
+    const result = await sendMatrix(config, payload);
+
+    expect(result).toEqual({ platform: "matrix", success: true, messageId: "$event1" });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(
+      /^https:\/\/matrix\.example\.org\/_matrix\/client\/v3\/rooms\/!room%3Aexample\.org\/send\/m\.room\.message\/omc-/,
+    );
+    expect(init.method).toBe("PUT");
+    expect(init.headers.Authorization).toBe("Bearer syt_bot_abc_123");
+    expect(requestBody(fetchMock)).toEqual({
+      msgtype: "m.text",
+      body: "Session finished",
+      "m.mentions": {},
+    });
+  });
+
+  it("mentions only the configured user", async () => {
+    const fetchMock = mockFetch({ event_id: "$event2" });
+    await sendMatrix({ ...config, mention: "@alice:example.org" }, payload);
+    const body = requestBody(fetchMock);
+    expect(body.body).toBe("@alice:example.org\nSession finished");
+    expect(body["m.mentions"]).toEqual({ user_ids: ["@alice:example.org"] });
+  });
+
+  it("rejects an invalid room ID without sending", async () => {
+    const fetchMock = mockFetch();
+    const result = await sendMatrix({ ...config, roomId: "#alias:example.org" }, payload);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("room ID");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendTeams", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("posts an Adaptive Card with the message and facts", async () => {
+    const fetchMock = mockFetch({}, 202);
+    const result = await sendTeams({ enabled: true, webhookUrl: TEAMS_URL }, payload);
+
+    expect(result).toEqual({ platform: "teams", success: true });
+    const body = requestBody(fetchMock);
+    const card = body.attachments[0];
+    expect(card.contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(card.content.type).toBe("AdaptiveCard");
+    expect(card.content.body[1]).toMatchObject({ type: "TextBlock", text: "Session finished" });
+    expect(card.content.body[2].facts).toEqual([
+      { title: "Event", value: "session-end" },
+      { title: "Project", value: "demo" },
+      { title: "Session", value: "sess-1" },
+    ]);
+  });
+
+  it("rejects webhook URLs outside Workflows and Office hosts", async () => {
+    const fetchMock = mockFetch();
+    const result = await sendTeams({ enabled: true, webhookUrl: "https://example.com/hook" }, payload);
+    expect(result.success).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("redacts the webhook signature from errors", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error(`request to ${TEAMS_URL} failed`)));
+    const result = await sendTeams({ enabled: true, webhookUrl: TEAMS_URL }, payload);
+    expect(result.success).toBe(false);
+    expect(result.error).not.toContain("secret");
+    expect(result.error).toContain("sig=****");
+  });
+});
+
+describe("sendNtfy", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("publishes JSON to ntfy.sh by default", async () => {
+    const fetchMock = mockFetch({ id: "abc" });
+    const result = await sendNtfy({ enabled: true, topic: "omc-alerts", tags: ["robot"] }, payload);
+
+    expect(result.success).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toBe("https://ntfy.sh");
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    expect(requestBody(fetchMock)).toEqual({
+      topic: "omc-alerts",
+      title: "demo: session-end",
+      message: "Session finished",
+      priority: 3,
+      tags: ["robot"],
+      markdown: true,
+    });
+  });
+
+  it("sends the access token for protected topics", async () => {
+    const fetchMock = mockFetch();
+    await sendNtfy(
+      { enabled: true, serverUrl: "https://ntfy.example.org", topic: "ops", token: "tk_abc123", priority: 5 },
+      payload,
+    );
+    expect(fetchMock.mock.calls[0][0]).toBe("https://ntfy.example.org");
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe("Bearer tk_abc123");
+    expect(requestBody(fetchMock).priority).toBe(5);
+  });
+});
+
+describe("sendGotify", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("posts to /message with the app token header", async () => {
+    const fetchMock = mockFetch({ id: 7 });
+    const result = await sendGotify(
+      { enabled: true, serverUrl: "https://gotify.example.org/", appToken: "AbC.123" },
+      payload,
+    );
+
+    expect(result.success).toBe(true);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://gotify.example.org/message");
+    expect(init.headers["X-Gotify-Key"]).toBe("AbC.123");
+    expect(requestBody(fetchMock)).toMatchObject({ title: "demo: session-end", priority: 5 });
+  });
+});
+
+describe("sendEmail", () => {
+  beforeEach(() => vi.mocked(sendMail).mockClear());
+
+  const config = {
+    enabled: true,
+    host: "smtp.example.org",
+    username: "bot",
+    password: "hunter2",
+    from: "omc@example.org",
+    to: ["dev@example.org"],
+  };
+
+  it("submits over STARTTLS on 587 by default", async () => {
+    const result = await sendEmail(config, payload);
+    expect(result).toEqual({ platform: "email", success: true });
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ host: "smtp.example.org", port: 587, secure: false, username: "bot" }),
+      { from: "omc@example.org", to: ["dev@example.org"], subject: "[omc] demo: session-end", text: "Session finished" },
+    );
+  });
+
+  it("uses implicit TLS on port 465", async () => {
+    await sendEmail({ ...config, port: 465 }, payload);
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ port: 465, secure: true }), expect.anything());
+  });
+
+  it("reports SMTP failures", async () => {
+    vi.mocked(sendMail).mockRejectedValueOnce(new Error("AUTH failed: 535 Authentication failed"));
+    const result = await sendEmail(config, payload);
+    expect(result).toEqual({ platform: "email", success: false, error: "AUTH failed: 535 Authentication failed" });
+  });
+});
+
+describe("platform validation", () => {
+  it("requires HTTPS except for localhost", () => {
+    expect(validateGotifyConfig({ enabled: true, serverUrl: "http://gotify.example.org", appToken: "a" }).valid).toBe(false);
+    expect(validateGotifyConfig({ enabled: true, serverUrl: "http://localhost:8080", appToken: "a" }).valid).toBe(true);
+    expect(validateNtfyConfig({ enabled: true, serverUrl: "https://user:pw@ntfy.sh", topic: "t" }).valid).toBe(false);
+  });
+
+  it("checks identifiers and ranges", () => {
+    expect(validateMatrixConfig({
+      enabled: true, homeserverUrl: "https://m.org", accessToken: "syt_x", roomId: "!r:m.org", mention: "alice",
+    }).errors).toEqual(["Matrix mention must be a user ID like @user:server"]);
+    expect(validateNtfyConfig({ enabled: true, topic: "bad topic", priority: 9 }).errors).toHaveLength(2);
+    expect(validateGotifyConfig({ enabled: true, serverUrl: "https://g.org", appToken: "a", priority: 11 }).valid).toBe(false);
+    expect(validateTeamsConfig({ enabled: true, webhookUrl: "https://x.webhook.office.com/webhookb2/1" }).valid).toBe(true);
+  });
+
+  it("rejects email header injection", () => {
+    const base = { enabled: true, host: "smtp.example.org", from: "omc@example.org", to: ["dev@example.org"] };
+    expect(validateEmailConfig(base).valid).toBe(true);
+    expect(validateEmailConfig({ ...base, to: ["dev@example.org\r\nBcc: x@evil.test"] }).valid).toBe(false);
+    expect(validateEmailConfig({ ...base, subjectPrefix: "[omc]\r\nX-Injected: 1" }).valid).toBe(false);
+    expect(validateEmailConfig({ ...base, username: "bot" }).errors).toEqual([
+      "SMTP username and password must be set together",
+    ]);
+  });
+});
+
+describe("env config and gating", () => {
+  beforeEach(() => {
+    for (const name of [
+      "OMC_DISCORD_NOTIFIER_BOT_TOKEN", "OMC_DISCORD_WEBHOOK_URL", "OMC_TELEGRAM_BOT_TOKEN",
+      "OMC_TELEGRAM_NOTIFIER_BOT_TOKEN", "OMC_SLACK_WEBHOOK_URL", "OMC_SLACK_BOT_TOKEN",
+      "OMC_MATRIX", "OMC_TEAMS", "OMC_NTFY", "OMC_GOTIFY", "OMC_EMAIL",
+    ]) {
+      vi.stubEnv(name, "");
+    }
+  });
+
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("builds platform configs from env vars", () => {
+    vi.stubEnv("OMC_MATRIX_HOMESERVER", "https://matrix.example.org");
+    vi.stubEnv("OMC_MATRIX_ACCESS_TOKEN", "syt_abc");
+    vi.stubEnv("OMC_MATRIX_ROOM_ID", "!room:example.org");
+    vi.stubEnv("OMC_NTFY_TOPIC", "omc");
+    vi.stubEnv("OMC_SMTP_HOST", "smtp.example.org");
+    vi.stubEnv("OMC_SMTP_PORT", "2525");
+    vi.stubEnv("OMC_EMAIL_FROM", "omc@example.org");
+    vi.stubEnv("OMC_EMAIL_TO", "a@example.org, b@example.org");
+    // Incomplete: Gotify needs both server and token
+    vi.stubEnv("OMC_GOTIFY_SERVER", "https://gotify.example.org");
+
+    const config = buildConfigFromEnv();
+    expect(config?.matrix).toEqual({
+      enabled: true,
+      homeserverUrl: "https://matrix.example.org",
+      accessToken: "syt_abc",
+      roomId: "!room:example.org",
+    });
+    expect(config?.ntfy).toEqual({ enabled: true, topic: "omc" });
+    expect(config?.email).toMatchObject({ port: 2525, to: ["a@example.org", "b@example.org"] });
+    expect(config?.gotify).toBeUndefined();
+  });
+
+  it("requires the launch flag for each platform", () => {
+    const config: NotificationConfig = {
+      enabled: true,
+      matrix: { enabled: true, homeserverUrl: "https://m.org", accessToken: "t", roomId: "!r:m.org" },
+      teams: { enabled: true, webhookUrl: TEAMS_URL },
+      email: { enabled: true, host: "smtp.example.org", from: "a@example.org", to: ["b@example.org"] },
+    };
+    expect(isEventEnabled(config, "session-end")).toBe(false);
+
+    vi.stubEnv("OMC_TEAMS", "1");
+    vi.stubEnv("OMC_EMAIL", "1");
+    expect(getEnabledPlatforms(config, "session-end")).toEqual(["teams", "email"]);
+    expect(isEventEnabled(config, "session-end")).toBe(true);
+  });
+});
+
+describe("dispatchNotifications with new platforms", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("sends to every enabled platform", async () => {
+    mockFetch({ event_id: "$e" });
+    const result = await dispatchNotifications(
+      {
+        enabled: true,
+        matrix: { enabled: true, homeserverUrl: "https://m.org", accessToken: "t", roomId: "!r:m.org" },
+        ntfy: { enabled: true, topic: "omc" },
+        gotify: { enabled: false, serverUrl: "https://g.org", appToken: "a" },
+      },
+      "session-end",
+      payload,
+    );
+    expect(result.results.map((r) => r.platform).sort()).toEqual(["matrix", "ntfy"]);
+    expect(result.anySuccess).toBe(true);
+  });
+});
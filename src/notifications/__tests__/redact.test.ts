@@ -104,6 +104,42 @@ describe('redactTokens', () => {
     expect(result).not.toContain('secret-123');
   });
 
+  // ── Matrix, ntfy, Gotify, Teams ───────────────────────────────────────
+
+  it('redacts Matrix access tokens', () => {
+    const result = redactTokens('token syt_Ym90_AbCdEfGhIjKlMnOp_1a2b3c rejected');
+    expect(result).not.toContain('AbCdEfGhIjKlMnOp');
+    expect(result).toContain('syt_****');
+  });
+
+  it('redacts ntfy access tokens', () => {
+    const result = redactTokens('Authorization failed for tk_AgQdq7mVBoFD37zQVN29RhuMzNIz2');
+    expect(result).not.toContain('AgQdq7mVBoFD37zQVN29RhuMzNIz2');
+    expect(result).toContain('tk_****');
+  });
+
+  it('redacts Gotify app tokens in headers', () => {
+    const result = redactTokens('{"X-Gotify-Key":"AbC.123secret"}');
+    expect(result).not.toContain('AbC.123secret');
+    expect(result).toContain('X-Gotify-Key":"****');
+  });
+
+  it('redacts secrets in query strings', () => {
+    const result = redactTokens(
+      'POST https://x.logic.azure.com/workflows/1/invoke?api-version=2016-06-01&sig=s3cr3t-SIG failed; ' +
+      'GET https://matrix.example.org/_matrix?access_token=abc123 failed',
+    );
+    expect(result).not.toContain('s3cr3t-SIG');
+    expect(result).not.toContain('abc123');
+    expect(result).toContain('api-version=2016-06-01&sig=****');
+    expect(result).toContain('access_token=****');
+  });
+
+  it('redacts Basic authorization values', () => {
+    const result = redactTokens('Authorization: Basic Ym90Omh1bnRlcjI=');
+    expect(result).toBe('Authorization: Basic ****');
+  });
+
   // ── Multiple tokens in one string ─────────────────────────────────────
 
   it('redacts multiple different tokens in one string', () => {
@@ -251,4 +251,24 @@ describe("reply config", () => {
     expect(runtime.discordBotToken).toBe("top-level-token");
     expect(runtime.discordChannelId).toBe("top-level-channel");
   });
+
+  it("warns once when remote approval has no authorized user IDs", async () => {
+    mockConfigFile({
+      notifications: {
+        enabled: true,
+        telegram: { enabled: true, botToken: "123456:tg-token", chatId: "tg-chat" },
+        reply: { enabled: true, remoteApproval: { enabled: true } },
+      },
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { getRemoteApprovalConfig } = await import("../config.js");
+    expect(getRemoteApprovalConfig()).toBeNull();
+    expect(getRemoteApprovalConfig()).toBeNull();
+
+    const approvalWarnings = warn.mock.calls.filter(([message]) =>
+      String(message).includes("Remote approval disabled"),
+    );
+    expect(approvalWarnings).toHaveLength(1);
+  });
 });
@@ -21,6 +21,12 @@ import {
   removeMessagesByPane,
   pruneStale,
   loadAllMappings,
+  registerApprovalRequest,
+  getApprovalRequest,
+  listPendingApprovals,
+  resolveApprovalRequest,
+  removeApprovalRequest,
+  type ApprovalRequest,
   type SessionMapping,
 } from "../session-registry.js";
 
@@ -602,4 +608,46 @@ describe("session-registry", () => {
       expect(mappings[0].messageId).toBe("123");
     });
   });
+
+  describe("approval requests", () => {
+    function approval(overrides: Partial<ApprovalRequest> = {}): ApprovalRequest {
+      return {
+        id: "a1b2c3",
+        sessionId: "session-1",
+        toolName: "Bash",
+        summary: "rm -rf dist",
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+        status: "pending",
+        ...overrides,
+      };
+    }
+
+    it("lists pending requests per session and drops expired ones", () => {
+      registerApprovalRequest(approval());
+      registerApprovalRequest(approval({ id: "other", sessionId: "session-2" }));
+      registerApprovalRequest(approval({ id: "old", expiresAt: new Date(Date.now() - 1000).toISOString() }));
+
+      expect(listPendingApprovals("session-1").map(r => r.id)).toEqual(["a1b2c3"]);
+      expect(listPendingApprovals().map(r => r.id)).toEqual(["a1b2c3", "other"]);
+
+      // Registering again prunes the expired entry from disk
+      registerApprovalRequest(approval({ id: "next" }));
+      expect(getApprovalRequest("old")).toBeNull();
+    });
+
+    it("records only the first decision", () => {
+      registerApprovalRequest(approval());
+
+      const approved = resolveApprovalRequest("a1b2c3", "approved", "slack:U123");
+      expect(approved).toMatchObject({ status: "approved", decidedBy: "slack:U123" });
+      expect(resolveApprovalRequest("a1b2c3", "denied", "telegram:42")).toBeNull();
+      expect(getApprovalRequest("a1b2c3")?.status).toBe("approved");
+      expect(listPendingApprovals()).toEqual([]);
+      expect(statSync(join(testDir, "reply-approvals.json")).mode & 0o777).toBe(0o600);
+
+      removeApprovalRequest("a1b2c3");
+      expect(getApprovalRequest("a1b2c3")).toBeNull();
+    });
+  });
 });
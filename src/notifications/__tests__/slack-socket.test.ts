@@ -363,6 +363,45 @@ describe("SlackSocketClient", () => {
         expect.stringContaining("handler error"),
       );
     });
+
+    it("dispatches block_actions button presses to the block action handler", async () => {
+      mockFetchSuccess();
+      const blockActionHandler = vi.fn();
+      const client = new SlackSocketClient(config, mockHandler, mockLog, blockActionHandler);
+      await client.start();
+      const messageCall = mockWsInstance.addEventListener.mock.calls.find(
+        (call: unknown[]) => call[0] === "message",
+      );
+      const handler = messageCall![1] as (event: { data?: unknown }) => void;
+      handler({ data: JSON.stringify({ envelope_id: "env_hello", type: "hello" }) });
+
+      handler({
+        data: JSON.stringify({
+          envelope_id: "env-action",
+          type: "interactive",
+          payload: {
+            type: "block_actions",
+            user: { id: "U123" },
+            channel: { id: "C123456" },
+            container: { message_ts: "1234567890.111" },
+            message: { text: "# Permission Needed" },
+            actions: [{ action_id: "omc-approval-approve", value: "omc-approval:approve:3f9a1c2e" }],
+          },
+        }),
+      });
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockWsInstance.send).toHaveBeenCalledWith(JSON.stringify({ envelope_id: "env-action" }));
+      expect(blockActionHandler).toHaveBeenCalledWith({
+        user: "U123",
+        channel: "C123456",
+        messageTs: "1234567890.111",
+        messageText: "# Permission Needed",
+        actionId: "omc-approval-approve",
+        value: "omc-approval:approve:3f9a1c2e",
+      });
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
   });
 
   describe("source code invariants", () => {
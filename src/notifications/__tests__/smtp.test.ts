@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+import { buildMimeMessage, sendMail, SmtpError } from '../smtp.js';
+
+/**
+ * Minimal SMTP server for one conversation. Records commands and the DATA
+ * section; `reply` can override the response to a command.
+ */
+function startServer(options: {
+  host?: string;
+  extensions?: string[];
+  reply?: (command: string) => string | undefined;
+} = {}): Promise<{ server: Server; port: number; commands: string[]; data: () => string }> {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+        const override = options.reply?.(line);
+        if (override) {
+          socket.write(`${override}\r\n`);
+        } else if (line.startsWith('EHLO')) {
+          const lines = ['test', ...(options.extensions ?? ['AUTH PLAIN LOGIN'])];
+          socket.write(lines.map((l, i) => `250${i === lines.length - 1 ? ' ' : '-'}${l}\r\n`).join(''));
+        } else if (line.startsWith('AUTH')) {
+          socket.write('235 ok\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, options.host ?? '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as AddressInfo).port, commands, data: () => data });
+    });
+  });
+}
+
+const message = {
+  from: 'omc@example.org',
+  to: ['a@example.org', 'b@example.org'],
+  subject: 'demo: session-end',
+  text: 'Done\n.\nstill here',
+};
+
+describe('smtp', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  it('authenticates and submits to a localhost relay', async () => {
+    const started = await startServer();
+    server = started.server;
+
+    await sendMail(
+      { host: '127.0.0.1', port: started.port, secure: false, username: 'bot', password: 'pw', timeoutMs: 5000 },
+      message,
+    );
+
+    expect(started.commands).toEqual([
+      'EHLO omc',
+      `AUTH PLAIN ${Buffer.from('\0bot\0pw').toString('base64')}`,
+      'MAIL FROM:<omc@example.org>',
+      'RCPT TO:<a@example.org>',
+      'RCPT TO:<b@example.org>',
+      'DATA',
+      'QUIT',
+    ]);
+    const body = started.data().split('\r\n\r\n')[1].replace(/\r\n/g, '');
+    expect(Buffer.from(body, 'base64').toString('utf-8')).toBe('Done\r\n.\r\nstill here');
+  });
+
+  it('falls back to AUTH LOGIN when PLAIN is not offered', async () => {
+    const started = await startServer({
+      extensions: ['AUTH LOGIN'],
+      reply: (command) => {
+        if (command === 'AUTH LOGIN' || command === Buffer.from('bot').toString('base64')) return '334 next';
+        if (command === Buffer.from('pw').toString('base64')) return '235 ok';
+        return undefined;
+      },
+    });
+    server = started.server;
+
+    await sendMail({ host: '127.0.0.1', port: started.port, secure: false, username: 'bot', password: 'pw', timeoutMs: 5000 }, message);
+    expect(started.commands.slice(1, 4)).toEqual([
+      'AUTH LOGIN',
+      Buffer.from('bot').toString('base64'),
+      Buffer.from('pw').toString('base64'),
+    ]);
+  });
+
+  it('surfaces rejected commands as SmtpError', async () => {
+    const started = await startServer({
+      reply: (command) => (command.startsWith('RCPT TO:<b@') ? '550 no such user' : undefined),
+    });
+    server = started.server;
+
+    const error = await sendMail({ host: '127.0.0.1', port: started.port, secure: false, timeoutMs: 5000 }, message)
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(SmtpError);
+    expect((error as SmtpError).code).toBe(550);
+    expect((error as SmtpError).message).toBe('RCPT TO failed: 550 no such user');
+  });
+
+  // 127.0.0.2 is only routable on Linux loopback
+  it.skipIf(process.platform !== 'linux')('refuses plaintext to non-local hosts without STARTTLS', async () => {
+    // Not one of the names treated as a local relay
+    const started = await startServer({ host: '127.0.0.2' });
+    server = started.server;
+    const error = await sendMail(
+      { host: '127.0.0.2', port: started.port, secure: false, username: 'bot', password: 'pw', timeoutMs: 5000 },
+      message,
+    ).catch((err: unknown) => err);
+    expect((error as SmtpError).message).toBe('Server does not support STARTTLS');
+    expect(started.commands).toEqual(['EHLO omc']);
+  });
+
+  it('encodes non-ASCII subjects and strips header line breaks', () => {
+    const mime = buildMimeMessage({ ...message, subject: 'Fertig ✓\r\nBcc: x@evil.test' }, new Date(0));
+    const subject = mime.split('\r\n').find((line) => line.startsWith('Subject: '))!;
+    expect(subject).toMatch(/^Subject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(mime).toContain('Date: Thu, 01 Jan 1970 00:00:00 GMT');
+    expect(buildMimeMessage({ ...message, subject: 'done\r\nBcc: x@evil.test' })).not.toContain('\r\nBcc:');
+  });
+});
@@ -8,6 +8,8 @@
  * - Computed variables (duration, time, modesDisplay, etc.)
  * - Default template parity with formatter.ts
  * - Template validation
+ * - {{#each}} loops, {{else}} and filters
+ * - Per-platform formats (Telegram HTML, Slack blocks, Discord embeds)
  */
 
 import { describe, it, expect } from "vitest";
@@ -16,6 +18,7 @@ import {
   getDefaultTemplate,
   validateTemplate,
   computeTemplateVariables,
+  renderPlatformTemplate,
 } from "../template-engine.js";
 import {
   formatSessionStart,
@@ -24,6 +27,8 @@ import {
   formatSessionIdle,
   formatAskUserQuestion,
   formatAgentCall,
+  formatTeamBudgetExceeded,
+  formatPermissionRequest,
 } from "../formatter.js";
 import type { NotificationPayload, NotificationEvent } from "../types.js";
 
@@ -311,6 +316,8 @@ describe("getDefaultTemplate", () => {
       "session-idle",
       "ask-user-question",
       "agent-call",
+      "team-budget-exceeded",
+      "permission-request",
     ];
     for (const event of events) {
       const template = getDefaultTemplate(event);
@@ -399,6 +406,39 @@ describe("default template parity with formatter.ts", () => {
     expect(fromTemplate).toBe(fromFormatter);
   });
 
+  it("team-budget-exceeded matches formatTeamBudgetExceeded", () => {
+    const p = {
+      ...fullPayload,
+      event: "team-budget-exceeded" as const,
+      teamName: "auth-review",
+      reason: "estimated cost $10.02 reached ceiling $10.00",
+    };
+    const fromFormatter = formatTeamBudgetExceeded(p);
+    const fromTemplate = interpolateTemplate(
+      getDefaultTemplate("team-budget-exceeded"),
+      p,
+    );
+    expect(fromTemplate).toBe(fromFormatter);
+    expect(fromTemplate).toContain("**Team:** `auth-review`");
+  });
+
+  it("permission-request matches formatPermissionRequest", () => {
+    const p = {
+      ...fullPayload,
+      event: "permission-request" as const,
+      toolName: "Bash",
+      toolSummary: "npm publish --access public",
+      approvalId: "3f9a1c2e",
+    };
+    const fromFormatter = formatPermissionRequest(p);
+    const fromTemplate = interpolateTemplate(
+      getDefaultTemplate("permission-request"),
+      p,
+    );
+    expect(fromTemplate).toBe(fromFormatter);
+    expect(fromTemplate).toContain("**Request ID:** `3f9a1c2e`");
+  });
+
   // Minimal payloads (no optional fields) - ensures conditionals work
   it("session-end minimal matches formatter", () => {
     const p = makePayload({
@@ -534,3 +574,209 @@ describe("reply channel template variables", () => {
     expect(interpolateTemplate(template, without)).toBe("");
   });
 });
+
+describe("{{#each}} loops", () => {
+  const payload = makePayload({
+    changedFiles: ["src/app.ts", "README.md"],
+    incompleteTodos: ["Write tests"],
+    agents: [
+      { type: "executor", status: "completed", durationMs: 90000 },
+      { type: "architect", status: "running" },
+    ],
+  });
+
+  it("iterates string lists with this and loop metadata", () => {
+    const template = "{{#each changedFiles}}{{@number}}. {{this}}{{#if @last}}.{{else}}, {{/if}}{{/each}}";
+    expect(interpolateTemplate(template, payload)).toBe("1. src/app.ts, 2. README.md.");
+  });
+
+  it("exposes agent fields through this.field and bare names", () => {
+    const template = "{{#each agents}}- {{this.type}} ({{status}}{{#if duration}}, {{duration}}{{/if}})\n{{/each}}";
+    expect(interpolateTemplate(template, payload)).toBe(
+      "- executor (completed, 1m 30s)\n- architect (running)",
+    );
+  });
+
+  it("falls back to outer variables inside loops", () => {
+    expect(interpolateTemplate("{{#each incompleteTodos}}{{projectName}}: {{this}}{{/each}}", makePayload({
+      projectName: "my-app",
+      incompleteTodos: ["a", "b"],
+    }))).toBe("my-app: amy-app: b");
+  });
+
+  it("renders nothing for missing lists and joins lists as plain variables", () => {
+    expect(interpolateTemplate("[{{#each changedFiles}}{{this}}{{/each}}]", makePayload())).toBe("[]");
+    expect(interpolateTemplate("{{changedFiles}} / {{agents}}", payload)).toBe(
+      "src/app.ts, README.md / executor, architect",
+    );
+  });
+
+  it("supports {{else}} in conditionals", () => {
+    const template = "{{#if changedFiles}}Changed{{else}}Clean{{/if}}";
+    expect(interpolateTemplate(template, payload)).toBe("Changed");
+    expect(interpolateTemplate(template, makePayload())).toBe("Clean");
+  });
+});
+
+describe("filters", () => {
+  it("truncates with an ellipsis", () => {
+    const payload = makePayload({ contextSummary: "abcdefghijklmnop" });
+    expect(interpolateTemplate("{{contextSummary | truncate:10}}", payload)).toBe("abcdefg...");
+    expect(interpolateTemplate("{{contextSummary | truncate:50}}", payload)).toBe("abcdefghijklmnop");
+  });
+
+  it("formats durations and code", () => {
+    const payload = makePayload({
+      agents: [{ type: "executor", status: "completed", durationMs: 3_720_000 }],
+    });
+    expect(interpolateTemplate("{{#each agents}}{{durationMs | duration}}{{/each}}", payload)).toBe("1h 2m 0s");
+    expect(interpolateTemplate("{{#each agents}}{{type | code}}{{/each}}", payload)).toBe("`executor`");
+    expect(interpolateTemplate("{{sessionId | codeblock:text}}", payload)).toBe(
+      "```text\ntest-session-123\n```",
+    );
+  });
+
+  it("formats timestamps relative to now", () => {
+    const fiveMinutesAgo = new Date(Date.now() - 5 * 60_000).toISOString();
+    expect(interpolateTemplate("{{timestamp | relative}}", makePayload({ timestamp: fiveMinutesAgo }))).toBe("5 min ago");
+  });
+
+  it("applies defaults and chains filters in order", () => {
+    expect(interpolateTemplate('{{reason | default:"unknown" | code}}', makePayload())).toBe("`unknown`");
+    expect(interpolateTemplate("{{reason | default:none}}", makePayload({ reason: "clear" }))).toBe("clear");
+  });
+
+  it("leaves malformed tags as literal text", () => {
+    expect(interpolateTemplate("{{projectName | }} {{/each}}", makePayload({ projectName: "x" }))).toBe(
+      "{{projectName | }} {{/each}}",
+    );
+  });
+});
+
+describe("template formats", () => {
+  const payload = makePayload({
+    projectName: "<app> & co",
+    contextSummary: 'Fixed "login"\nall green',
+    changedFiles: ["a<b>.ts"],
+  });
+
+  it("escapes variables but not template markup for html", () => {
+    expect(interpolateTemplate("<b>{{projectName}}</b> {{#each changedFiles}}{{this | code}}{{/each}}", payload, "html")).toBe(
+      "<b>&lt;app&gt; &amp; co</b> <code>a&lt;b&gt;.ts</code>",
+    );
+  });
+
+  it("keeps html markup intact when filters follow code", () => {
+    expect(interpolateTemplate("{{contextSummary | code | truncate:10}}", payload, "html")).toBe(
+      "<code>Fixed &quot;...</code>",
+    );
+  });
+
+  it("renders the footer and tmux tail as html", () => {
+    const withTmux = makePayload({ projectName: "my-app", tmuxSession: "omc<1>", tmuxTail: "$ npm test\nok" });
+    expect(interpolateTemplate("{{footer}}", withTmux, "html")).toBe(
+      "<b>tmux:</b> <code>omc&lt;1&gt;</code> | <b>project:</b> <code>my-app</code>",
+    );
+    expect(interpolateTemplate("x{{tmuxTailBlock}}", withTmux, "html")).toMatch(
+      /^x\n\n<b>Recent output:<\/b>\n<pre>[^<]*ok<\/pre>$/,
+    );
+    expect(interpolateTemplate("{{footer | truncate:20}}", withTmux, "html")).toBe("tmux: omc&lt;1&gt; | pr...");
+  });
+
+  it("escapes variables as JSON string content for blocks and embeds", () => {
+    const rendered = interpolateTemplate('{"text": "{{contextSummary}}"}', payload, "blocks");
+    expect(JSON.parse(rendered)).toEqual({ text: 'Fixed "login"\nall green' });
+  });
+});
+
+describe("renderPlatformTemplate", () => {
+  const payload = makePayload({ projectName: "my-app", message: "Session ended" });
+
+  it("renders Slack blocks and keeps the message as fallback text", () => {
+    const template = '[{"type": "section", "text": {"type": "mrkdwn", "text": "*{{projectName}}*"}}]';
+    expect(renderPlatformTemplate(template, "blocks", payload)).toEqual({
+      message: "Session ended",
+      slackBlocks: [{ type: "section", text: { type: "mrkdwn", text: "*my-app*" } }],
+    });
+  });
+
+  it("accepts a single Discord embed", () => {
+    const rendered = renderPlatformTemplate('{"title": "{{projectName}}", "color": 5763719}', "embed", payload);
+    expect(rendered?.discordEmbeds).toEqual([{ title: "my-app", color: 5763719 }]);
+  });
+
+  it("sets the Telegram parse mode for html", () => {
+    expect(renderPlatformTemplate("<b>{{projectName}}</b>", "html", payload)).toEqual({
+      message: "<b>my-app</b>",
+      telegramParseMode: "HTML",
+    });
+  });
+
+  it("returns null for invalid Telegram HTML", () => {
+    expect(renderPlatformTemplate("<b>{{projectName}}", "html", payload)).toBeNull();
+    expect(renderPlatformTemplate("<div>{{projectName}}</div>", "html", payload)).toBeNull();
+  });
+
+  it("returns null for unusable JSON", () => {
+    expect(renderPlatformTemplate('{"type": {{projectName}}}', "blocks", payload)).toBeNull();
+    expect(renderPlatformTemplate('[{"text": "no type"}]', "blocks", payload)).toBeNull();
+    expect(renderPlatformTemplate('{"color": 1}', "embed", payload)).toBeNull();
+  });
+});
+
+describe("validateTemplate syntax and formats", () => {
+  it("accepts loops, filters and list fields", () => {
+    const result = validateTemplate(
+      "{{#each agents}}{{this.type | code}} {{duration | default:\"-\"}}{{/each}} {{contextSummary | truncate:80}}",
+    );
+    expect(result).toEqual({ valid: true, unknownVars: [], errors: [] });
+  });
+
+  it("reports unbalanced blocks", () => {
+    expect(validateTemplate("{{#if reason}}x").errors).toEqual(["Unclosed {{#if reason}}"]);
+    expect(validateTemplate("x{{/each}}").errors).toEqual(["Unexpected {{/each}}"]);
+    expect(validateTemplate("{{#each changedFiles}}{{/if}}{{/each}}").valid).toBe(false);
+  });
+
+  it("reports bad filters and arguments", () => {
+    expect(validateTemplate("{{reason | shout}}").errors).toEqual(['Unknown filter "shout"']);
+    expect(validateTemplate("{{reason | truncate:0}}").errors).toEqual(['Filter "truncate" needs a positive number']);
+    expect(validateTemplate("{{reason | default}}").errors).toEqual(['Filter "default" needs an argument']);
+  });
+
+  it("reports loop misuse", () => {
+    expect(validateTemplate("{{this}}").errors).toEqual(["{{this}} is only available inside {{#each}}"]);
+    expect(validateTemplate("{{#each projectName}}x{{/each}}").errors).toEqual(['"projectName" is not a list']);
+    expect(validateTemplate("{{#each agents}}{{this.name}}{{/each}}").errors).toEqual([
+      'Unknown field "name" of "agents" items',
+    ]);
+    expect(validateTemplate("{{#each nope}}x{{/each}}").unknownVars).toEqual(["nope"]);
+  });
+
+  it("checks the format is supported by the platform", () => {
+    expect(validateTemplate("<b>x</b>", { format: "html", platform: "telegram" }).valid).toBe(true);
+    expect(validateTemplate("<b>x</b>", { format: "html", platform: "slack" }).errors).toEqual([
+      'Format "html" is not supported on slack',
+    ]);
+  });
+
+  it("checks rendered Telegram HTML", () => {
+    expect(validateTemplate("<b>{{projectName}}<i></b>", { format: "html" }).valid).toBe(false);
+    expect(validateTemplate("<div>{{projectName}}</div>", { format: "html" }).errors).toContain(
+      "Telegram HTML does not support <div>",
+    );
+  });
+
+  it("renders JSON formats with sample payloads, including empty values", () => {
+    const blocks = '[{{#each changedFiles}}{"type": "section", "text": {"type": "mrkdwn", "text": "{{this}}"}}{{#if @last}}{{else}},{{/if}}{{/each}}]';
+    expect(validateTemplate(blocks, { format: "blocks" }).errors).toEqual([
+      "Slack messages need 1-50 blocks, got 0",
+    ]);
+
+    const embed = '{"title": "{{projectName}}", "description": "{{contextSummary | truncate:4000}}"}';
+    expect(validateTemplate(embed, { format: "embed", platform: "discord-bot" }).valid).toBe(true);
+    expect(validateTemplate('{"title": {{projectName}}}', { format: "embed" }).errors[0]).toMatch(
+      /^Rendered template is not valid JSON/,
+    );
+  });
+});
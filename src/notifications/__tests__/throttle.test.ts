@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+vi.mock("../dispatcher.js", () => ({
+  dispatchNotifications: vi.fn(async (_config, event) => ({ event, results: [], anySuccess: true })),
+}));
+
+vi.mock("../config.js", async (importOriginal) => ({
+  ...await importOriginal<typeof import("../config.js")>(),
+  getNotificationConfig: vi.fn(),
+}));
+
+import {
+  applyDeliveryRules,
+  decideDelivery,
+  flushAllDueNotifications,
+  flushDueNotifications,
+  isQuietTime,
+  markSessionActive,
+  takeDueDeliveries,
+  withoutMentions,
+  type ProfileDeliveryState,
+} from "../throttle.js";
+import { getDeliveryRules, getNotificationConfig } from "../config.js";
+import { formatDigest } from "../formatter.js";
+import { dispatchNotifications } from "../dispatcher.js";
+import type { DeliveryRules, NotificationConfig, NotificationPayload } from "../types.js";
+
+const MINUTE = 60_000;
+
+function rules(overrides: Partial<DeliveryRules> = {}): DeliveryRules {
+  return {
+    throttleMs: {},
+    digestOnly: [],
+    digestIntervalMs: 10 * MINUTE,
+    quietHours: null,
+    escalation: null,
+    ...overrides,
+  };
+}
+
+function emptyState(): ProfileDeliveryState {
+  return { lastSent: {}, digest: null, idle: {} };
+}
+
+function payload(event: NotificationPayload["event"], extra: Partial<NotificationPayload> = {}): NotificationPayload {
+  return {
+    event,
+    sessionId: "session-1",
+    message: "",
+    timestamp: new Date().toISOString(),
+    projectName: "my-app",
+    ...extra,
+  };
+}
+
+/** Local time on 2026-03-02 (or a later day in March) */
+function at(hours: number, minutes = 0, day = 2): Date {
+  return new Date(2026, 2, day, hours, minutes);
+}
+
+describe("getDeliveryRules", () => {
+  it("returns null when no rule is configured", () => {
+    expect(getDeliveryRules({ enabled: true, events: { "agent-call": { enabled: true } } })).toBeNull();
+  });
+
+  it("collects per-event windows and digest settings", () => {
+    const config: NotificationConfig = {
+      enabled: true,
+      events: {
+        "agent-call": { enabled: true, throttleSeconds: 300 },
+        "session-idle": { enabled: true, digestOnly: true },
+      },
+      digest: { intervalMinutes: 15 },
+      escalation: { mentionAfterMinutes: 20 },
+    };
+    expect(getDeliveryRules(config)).toEqual({
+      throttleMs: { "agent-call": 300_000 },
+      digestOnly: ["session-idle"],
+      digestIntervalMs: 15 * MINUTE,
+      quietHours: null,
+      escalation: { mentionAfterMs: 20 * MINUTE, remind: true },
+    });
+  });
+
+  it("ignores invalid quiet hours with a warning", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(getDeliveryRules({ enabled: true, quietHours: { start: "25:00", end: "07:00" } })).toBeNull();
+    expect(getDeliveryRules({ enabled: true, quietHours: { start: "22:00", end: "07:00", timezone: "Mars/Olympus" } })).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe("isQuietTime", () => {
+  const overnight = { start: 22 * 60, end: 7 * 60, allowEvents: [] };
+
+  it("handles periods spanning midnight", () => {
+    expect(isQuietTime(overnight, at(23, 30))).toBe(true);
+    expect(isQuietTime(overnight, at(6, 59))).toBe(true);
+    expect(isQuietTime(overnight, at(7, 0))).toBe(false);
+    expect(isQuietTime({ ...overnight, start: 12 * 60, end: 13 * 60 }, at(12, 15))).toBe(true);
+  });
+
+  it("evaluates the configured time zone", () => {
+    const quiet = { ...overnight, timezone: "UTC" };
+    expect(isQuietTime(quiet, new Date("2026-03-02T23:00:00Z"))).toBe(true);
+    expect(isQuietTime(quiet, new Date("2026-03-02T12:00:00Z"))).toBe(false);
+  });
+});
+
+describe("decideDelivery", () => {
+  it("holds events inside the throttle window for the digest", () => {
+    const state = emptyState();
+    const throttled = rules({ throttleMs: { "agent-call": 5 * MINUTE } });
+
+    expect(decideDelivery(throttled, state, payload("agent-call", { agentName: "executor" }), at(10, 0)).action).toBe("send");
+    expect(decideDelivery(throttled, state, payload("agent-call", { agentName: "executor" }), at(10, 1))).toEqual({
+      action: "hold",
+      reason: "throttled",
+    });
+    expect(decideDelivery(throttled, state, payload("agent-call"), at(10, 6)).action).toBe("send");
+    expect(state.digest?.counts).toEqual({ "agent-call": 1 });
+    expect(state.digest?.agents).toEqual({ executor: 1 });
+  });
+
+  it("drops held events when digests are disabled", () => {
+    const decision = decideDelivery(
+      rules({ digestOnly: ["agent-call"], digestIntervalMs: null }),
+      emptyState(),
+      payload("agent-call"),
+      at(10),
+    );
+    expect(decision).toEqual({ action: "drop", reason: "digest-only" });
+  });
+
+  it("lets allowed events through quiet hours", () => {
+    const quiet = rules({ quietHours: { start: 22 * 60, end: 7 * 60, allowEvents: ["permission-request"] } });
+    const state = emptyState();
+    expect(decideDelivery(quiet, state, payload("session-idle"), at(23)).action).toBe("hold");
+    expect(decideDelivery(quiet, state, payload("permission-request"), at(23)).action).toBe("send");
+    expect(decideDelivery(quiet, state, payload("session-idle"), at(9)).action).toBe("send");
+  });
+
+  it("mentions on idle only after the escalation threshold", () => {
+    const escalating = rules({ escalation: { mentionAfterMs: 15 * MINUTE, remind: true } });
+    const state = emptyState();
+    expect(decideDelivery(escalating, state, payload("session-idle"), at(10, 0))).toEqual({ action: "send", mention: false });
+    expect(decideDelivery(escalating, state, payload("session-idle"), at(10, 20))).toEqual({ action: "send", mention: true });
+
+    // Activity resets the idle timer
+    decideDelivery(escalating, state, payload("agent-call"), at(10, 25));
+    expect(decideDelivery(escalating, state, payload("session-idle"), at(10, 30))).toEqual({ action: "send", mention: false });
+  });
+});
+
+describe("takeDueDeliveries", () => {
+  it("releases the digest once the interval has passed, outside quiet hours", () => {
+    const quiet = rules({ quietHours: { start: 22 * 60, end: 7 * 60, allowEvents: [] } });
+    const state = emptyState();
+    decideDelivery(quiet, state, payload("agent-call"), at(23));
+
+    expect(takeDueDeliveries(quiet, state, at(23, 30)).digest).toBeNull();
+    expect(takeDueDeliveries(quiet, state, at(7, 5, 3)).digest).toMatchObject({ counts: { "agent-call": 1 } });
+    expect(state.digest).toBeNull();
+  });
+
+  it("flushes early on request and reminds idle sessions once", () => {
+    const escalating = rules({ digestOnly: ["agent-call"], escalation: { mentionAfterMs: 15 * MINUTE, remind: true } });
+    const state = emptyState();
+    decideDelivery(escalating, state, payload("agent-call"), at(10, 0));
+    decideDelivery(escalating, state, payload("session-idle", { sessionId: "session-2" }), at(10, 0));
+
+    const due = takeDueDeliveries(escalating, state, at(10, 16), true);
+    expect(due.digest?.counts).toEqual({ "agent-call": 1 });
+    expect(due.reminders).toEqual([expect.objectContaining({ sessionId: "session-2", idleMs: 16 * MINUTE })]);
+    expect(takeDueDeliveries(escalating, state, at(10, 30)).reminders).toEqual([]);
+  });
+});
+
+describe("formatDigest", () => {
+  it("summarizes counts, agents and projects", () => {
+    const message = formatDigest(
+      {
+        since: at(10, 0).toISOString(),
+        counts: { "session-idle": 3, "agent-call": 12 },
+        agents: { executor: 7, architect: 3, explore: 2 },
+        projects: ["my-app"],
+        sessions: ["session-1", "session-2"],
+      },
+      at(10, 10),
+    );
+    expect(message).toContain("12 agent calls, 3 idle sessions in the last 10 min");
+    expect(message).toContain("**Agents:** `executor` ×7, `architect` ×3, `explore` ×2");
+    expect(message).toContain("**Sessions:** 2");
+  });
+});
+
+describe("delivery state", () => {
+  let stateDir: string;
+  const config: NotificationConfig = {
+    enabled: true,
+    "discord-bot": { enabled: true, botToken: "token", channelId: "123", mention: "<@1>" },
+    events: { "agent-call": { enabled: true, throttleSeconds: 600 } },
+    escalation: { mentionAfterMinutes: 15 },
+  };
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "omc-notification-delivery-"));
+    process.env.OMC_TEST_NOTIFICATION_STATE_DIR = stateDir;
+    vi.mocked(dispatchNotifications).mockClear();
+  });
+
+  afterEach(() => {
+    delete process.env.OMC_TEST_NOTIFICATION_STATE_DIR;
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("persists throttle windows across calls and sends the digest when due", async () => {
+    const deliveryRules = getDeliveryRules(config)!;
+    expect(applyDeliveryRules(deliveryRules, "default", payload("agent-call"), at(10, 0)).action).toBe("send");
+    expect(applyDeliveryRules(deliveryRules, "default", payload("agent-call"), at(10, 1)).action).toBe("hold");
+    expect(applyDeliveryRules(deliveryRules, "default", payload("agent-call"), at(10, 2)).action).toBe("hold");
+
+    await flushDueNotifications(config, "default", false, at(10, 5));
+    expect(dispatchNotifications).not.toHaveBeenCalled();
+
+    await flushDueNotifications(config, "default", false, at(10, 11));
+    expect(dispatchNotifications).toHaveBeenCalledTimes(1);
+    const [, event, sent] = vi.mocked(dispatchNotifications).mock.calls[0];
+    expect(event).toBe("agent-call");
+    expect(sent.message).toContain("2 agent calls in the last 10 min");
+  });
+
+  it("sends an idle reminder unless the user prompted in the meantime", async () => {
+    const deliveryRules = getDeliveryRules(config)!;
+    applyDeliveryRules(deliveryRules, "default", payload("session-idle", { sessionId: "a" }), at(10, 0));
+    applyDeliveryRules(deliveryRules, "default", payload("session-idle", { sessionId: "b" }), at(10, 0));
+    markSessionActive("b");
+
+    await flushDueNotifications(config, "default", false, at(10, 20));
+    expect(dispatchNotifications).toHaveBeenCalledTimes(1);
+    const [sentConfig, event, sent] = vi.mocked(dispatchNotifications).mock.calls[0];
+    expect(event).toBe("session-idle");
+    expect(sent.sessionId).toBe("a");
+    expect(sent.message).toContain("# Still Idle");
+    expect(sentConfig["discord-bot"]?.mention).toBe("<@1>");
+  });
+
+  it("sends pending digests of every profile when flushed at session end", async () => {
+    vi.mocked(getNotificationConfig).mockReturnValue(config);
+    const deliveryRules = getDeliveryRules(config)!;
+    applyDeliveryRules(deliveryRules, "default", payload("agent-call"));
+    applyDeliveryRules(deliveryRules, "default", payload("agent-call"));
+
+    await flushAllDueNotifications();
+    expect(dispatchNotifications).not.toHaveBeenCalled();
+
+    await flushAllDueNotifications(true);
+    expect(dispatchNotifications).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(dispatchNotifications).mock.calls[0][2].message).toContain("1 agent call");
+  });
+
+  it("strips mentions from top-level and per-event platform configs", () => {
+    const stripped = withoutMentions({
+      ...config,
+      events: { "session-idle": { enabled: true, "slack-bot": { enabled: true, mention: "<!here>" } } },
+    });
+    expect(stripped["discord-bot"]?.mention).toBeUndefined();
+    expect(stripped["discord-bot"]?.botToken).toBe("token");
+    expect(stripped.events?.["session-idle"]?.["slack-bot"]?.mention).toBeUndefined();
+    expect(config["discord-bot"]?.mention).toBe("<@1>");
+  });
+});
@@ -17,6 +17,13 @@ import type {
   DiscordBotNotificationConfig,
   TelegramNotificationConfig,
   SlackBotNotificationConfig,
+  MatrixNotificationConfig,
+  TeamsNotificationConfig,
+  NtfyNotificationConfig,
+  GotifyNotificationConfig,
+  EmailNotificationConfig,
+  RemoteApprovalConfig,
+  DeliveryRules,
   VerbosityLevel,
 } from "./types.js";
 import {
@@ -26,6 +33,21 @@ import {
 
 const CONFIG_FILE = join(getClaudeConfigDir(), ".omc-config.json");
 
+/** Every notification platform, in dispatch order */
+export const NOTIFICATION_PLATFORMS: readonly NotificationPlatform[] = [
+  "discord",
+  "discord-bot",
+  "telegram",
+  "slack",
+  "slack-bot",
+  "matrix",
+  "teams",
+  "ntfy",
+  "gotify",
+  "email",
+  "webhook",
+];
+
 /**
  * Read raw config from .omc-config.json
  */
@@ -167,6 +189,78 @@ export function parseMentionAllowedMentions(
   return {};
 }
 
+/** Platforms whose individual fields (e.g. secrets) can come from env vars */
+type EnvFilledPlatform = "matrix" | "teams" | "ntfy" | "gotify" | "email";
+
+interface EnvPlatformFields {
+  matrix: Partial<MatrixNotificationConfig>;
+  teams: Partial<TeamsNotificationConfig>;
+  ntfy: Partial<NtfyNotificationConfig>;
+  gotify: Partial<GotifyNotificationConfig>;
+  email: Partial<EmailNotificationConfig>;
+}
+
+/** Drop undefined values so spreading does not clobber set fields */
+function definedFields<T extends object>(fields: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * Read Matrix, Teams, ntfy, Gotify and email fields from env vars.
+ * Only fields that are set are returned.
+ */
+function readEnvPlatformFields(): EnvPlatformFields {
+  const env = process.env;
+  const port = env.OMC_SMTP_PORT ? parseInt(env.OMC_SMTP_PORT, 10) : undefined;
+  const to = env.OMC_EMAIL_TO
+    ?.split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  return {
+    matrix: definedFields({
+      homeserverUrl: normalizeOptional(env.OMC_MATRIX_HOMESERVER),
+      accessToken: normalizeOptional(env.OMC_MATRIX_ACCESS_TOKEN),
+      roomId: normalizeOptional(env.OMC_MATRIX_ROOM_ID),
+      mention: normalizeOptional(env.OMC_MATRIX_MENTION),
+    }),
+    teams: definedFields({
+      webhookUrl: normalizeOptional(env.OMC_TEAMS_WEBHOOK_URL),
+    }),
+    ntfy: definedFields({
+      serverUrl: normalizeOptional(env.OMC_NTFY_SERVER),
+      topic: normalizeOptional(env.OMC_NTFY_TOPIC),
+      token: normalizeOptional(env.OMC_NTFY_TOKEN),
+    }),
+    gotify: definedFields({
+      serverUrl: normalizeOptional(env.OMC_GOTIFY_SERVER),
+      appToken: normalizeOptional(env.OMC_GOTIFY_TOKEN),
+    }),
+    email: definedFields({
+      host: normalizeOptional(env.OMC_SMTP_HOST),
+      port: Number.isInteger(port) ? port : undefined,
+      secure: env.OMC_SMTP_SECURE
+        ? env.OMC_SMTP_SECURE === "1" || env.OMC_SMTP_SECURE === "true"
+        : undefined,
+      username: normalizeOptional(env.OMC_SMTP_USER),
+      password: normalizeOptional(env.OMC_SMTP_PASSWORD),
+      from: normalizeOptional(env.OMC_EMAIL_FROM),
+      to: to && to.length > 0 ? to : undefined,
+    }),
+  };
+}
+
+/** Fields env vars must provide for a platform to be configured from env alone */
+const ENV_REQUIRED_FIELDS: Record<EnvFilledPlatform, string[]> = {
+  matrix: ["homeserverUrl", "accessToken", "roomId"],
+  teams: ["webhookUrl"],
+  ntfy: ["topic"],
+  gotify: ["serverUrl", "appToken"],
+  email: ["host", "from", "to"],
+};
+
 /**
  * Build notification config from environment variables.
  * This enables zero-config notification setup - just set env vars in .zshrc.
@@ -243,6 +337,16 @@ export function buildConfigFromEnv(): NotificationConfig | null {
     hasAnyPlatform = true;
   }
 
+  // Matrix, Teams, ntfy, Gotify, email
+  const envFields = readEnvPlatformFields();
+  for (const platform of Object.keys(ENV_REQUIRED_FIELDS) as EnvFilledPlatform[]) {
+    const fields = envFields[platform] as Record<string, unknown>;
+    if (ENV_REQUIRED_FIELDS[platform].every((field) => fields[field] !== undefined)) {
+      Object.assign(config, { [platform]: { enabled: true, ...fields } });
+      hasAnyPlatform = true;
+    }
+  }
+
   if (!hasAnyPlatform) return null;
 
   config.enabled = true;
@@ -347,6 +451,33 @@ function mergeEnvIntoFileConfig(
     };
   }
 
+  // Merge Matrix, Teams, ntfy, Gotify, email (fields are filled later by
+  // mergeEnvPlatformFields)
+  for (const platform of Object.keys(ENV_REQUIRED_FIELDS) as EnvFilledPlatform[]) {
+    if (!merged[platform] && envConfig[platform]) {
+      Object.assign(merged, { [platform]: envConfig[platform] });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Fill fields missing from file-based Matrix, Teams, ntfy, Gotify and email
+ * configs from env vars, so secrets can stay out of .omc-config.json.
+ */
+function mergeEnvPlatformFields(config: NotificationConfig): NotificationConfig {
+  const envFields = readEnvPlatformFields();
+  let merged = config;
+  for (const platform of Object.keys(ENV_REQUIRED_FIELDS) as EnvFilledPlatform[]) {
+    const fileConfig = merged[platform];
+    if (fileConfig && Object.keys(envFields[platform]).length > 0) {
+      merged = {
+        ...merged,
+        [platform]: { ...envFields[platform], ...definedFields(fileConfig) },
+      };
+    }
+  }
   return merged;
 }
 
@@ -373,6 +504,7 @@ function applyEnvMerge(config: NotificationConfig): NotificationConfig {
   // Deep-merge: env platforms fill missing blocks in file config
   const envConfig = buildConfigFromEnv();
   let merged = envConfig ? mergeEnvIntoFileConfig(config, envConfig) : config;
+  merged = mergeEnvPlatformFields(merged);
 
   // Apply env mention to any Discord config that still lacks one.
   // This must run after mergeEnvIntoFileConfig so that file-only discord
@@ -409,12 +541,17 @@ const VALID_VERBOSITY_LEVELS: ReadonlySet<string> = new Set([
   "minimal",
 ]);
 
-/** Session events allowed at minimal/session verbosity */
+/**
+ * Session events (and alerts that halt a run until someone acts) allowed at
+ * minimal/session verbosity
+ */
 const SESSION_EVENTS: ReadonlySet<NotificationEvent> = new Set([
   "session-start",
   "session-stop",
   "session-end",
   "session-idle",
+  "team-budget-exceeded",
+  "permission-request",
 ]);
 
 /**
@@ -438,7 +575,8 @@ export function getVerbosity(config: NotificationConfig): VerbosityLevel {
  * Check if an event is allowed by the given verbosity level.
  *
  * Level matrix:
- * - minimal: session-start, session-stop, session-end, session-idle
+ * - minimal: session-start, session-stop, session-end, session-idle, team-budget-exceeded,
+ *            permission-request
  * - session: same as minimal (tmux tail handled separately)
  * - agent:   session events + agent-call
  * - verbose: all events
@@ -533,6 +671,11 @@ export function getNotificationConfig(profileName?: string): NotificationConfig
  *   --telegram  -> OMC_TELEGRAM=1
  *   --discord   -> OMC_DISCORD=1
  *   --slack     -> OMC_SLACK=1
+ *   --matrix    -> OMC_MATRIX=1
+ *   --teams     -> OMC_TEAMS=1
+ *   --ntfy      -> OMC_NTFY=1
+ *   --gotify    -> OMC_GOTIFY=1
+ *   --email     -> OMC_EMAIL=1
  *   --webhook   -> OMC_WEBHOOK=1
  */
 function isPlatformActivated(platform: NotificationPlatform): boolean {
@@ -541,10 +684,26 @@ function isPlatformActivated(platform: NotificationPlatform): boolean {
     return process.env.OMC_DISCORD === "1";
   if (platform === "slack" || platform === "slack-bot")
     return process.env.OMC_SLACK === "1";
+  if (platform === "matrix") return process.env.OMC_MATRIX === "1";
+  if (platform === "teams") return process.env.OMC_TEAMS === "1";
+  if (platform === "ntfy") return process.env.OMC_NTFY === "1";
+  if (platform === "gotify") return process.env.OMC_GOTIFY === "1";
+  if (platform === "email") return process.env.OMC_EMAIL === "1";
   if (platform === "webhook") return process.env.OMC_WEBHOOK === "1";
   return false;
 }
 
+/**
+ * Check if any activated platform is enabled in a (top-level or event) config.
+ */
+function hasActivatedPlatform(
+  config: NotificationConfig | EventNotificationConfig,
+): boolean {
+  return NOTIFICATION_PLATFORMS.some(
+    (platform) => isPlatformActivated(platform) && !!config[platform]?.enabled,
+  );
+}
+
 /**
  * Check if a specific event has any enabled platform.
  */
@@ -561,37 +720,11 @@ export function isEventEnabled(
 
   // If event has no specific config, check if any top-level platform is enabled
   if (!eventConfig) {
-    return !!(
-      (isPlatformActivated("discord") && config.discord?.enabled) ||
-      (isPlatformActivated("discord-bot") && config["discord-bot"]?.enabled) ||
-      (isPlatformActivated("telegram") && config.telegram?.enabled) ||
-      (isPlatformActivated("slack") && config.slack?.enabled) ||
-      (isPlatformActivated("slack-bot") && config["slack-bot"]?.enabled) ||
-      (isPlatformActivated("webhook") && config.webhook?.enabled)
-    );
+    return hasActivatedPlatform(config);
   }
 
-  // Check event-specific platform overrides
-  if (
-    (isPlatformActivated("discord") && eventConfig.discord?.enabled) ||
-    (isPlatformActivated("discord-bot") && eventConfig["discord-bot"]?.enabled) ||
-    (isPlatformActivated("telegram") && eventConfig.telegram?.enabled) ||
-    (isPlatformActivated("slack") && eventConfig.slack?.enabled) ||
-    (isPlatformActivated("slack-bot") && eventConfig["slack-bot"]?.enabled) ||
-    (isPlatformActivated("webhook") && eventConfig.webhook?.enabled)
-  ) {
-    return true;
-  }
-
-  // Fall back to top-level platforms
-  return !!(
-    (isPlatformActivated("discord") && config.discord?.enabled) ||
-    (isPlatformActivated("discord-bot") && config["discord-bot"]?.enabled) ||
-    (isPlatformActivated("telegram") && config.telegram?.enabled) ||
-    (isPlatformActivated("slack") && config.slack?.enabled) ||
-    (isPlatformActivated("slack-bot") && config["slack-bot"]?.enabled) ||
-    (isPlatformActivated("webhook") && config.webhook?.enabled)
-  );
+  // Check event-specific platform overrides, then fall back to top-level platforms
+  return hasActivatedPlatform(eventConfig) || hasActivatedPlatform(config);
 }
 
 /**
@@ -637,12 +770,9 @@ export function getEnabledPlatforms(
     }
   };
 
-  checkPlatform("discord");
-  checkPlatform("discord-bot");
-  checkPlatform("telegram");
-  checkPlatform("slack");
-  checkPlatform("slack-bot");
-  checkPlatform("webhook");
+  for (const platform of NOTIFICATION_PLATFORMS) {
+    checkPlatform(platform);
+  }
 
   return platforms;
 }
@@ -745,27 +875,36 @@ export function getReplyListenerPlatformConfig(
   };
 }
 
+/** Discord snowflake user IDs */
+const DISCORD_USER_ID_PATTERN = /^\d{17,20}$/;
+/** Telegram numeric user IDs */
+const TELEGRAM_USER_ID_PATTERN = /^\d{1,20}$/;
+/** Slack member IDs (U... or W... for Enterprise Grid) */
+const SLACK_USER_ID_PATTERN = /^[UW][A-Z0-9]{2,}$/;
+
 /**
- * Parse Discord user IDs from environment variable or config array.
+ * Parse platform user IDs from environment variable or config array.
+ * IDs not matching the platform's ID format are dropped.
  * Returns empty array if neither is valid.
  */
-function parseDiscordUserIds(
+function parseUserIds(
   envValue: string | undefined,
   configValue: unknown,
+  pattern: RegExp,
 ): string[] {
   // Try env var first (comma-separated list)
   if (envValue) {
     const ids = envValue
       .split(",")
       .map((id) => id.trim())
-      .filter((id) => /^\d{17,20}$/.test(id));
+      .filter((id) => pattern.test(id));
     if (ids.length > 0) return ids;
   }
 
   // Try config array
   if (Array.isArray(configValue)) {
     const ids = configValue
-      .filter((id) => typeof id === "string" && /^\d{17,20}$/.test(id));
+      .filter((id) => typeof id === "string" && pattern.test(id));
     if (ids.length > 0) return ids;
   }
 
@@ -786,6 +925,9 @@ function parseDiscordUserIds(
  * - OMC_REPLY_POLL_INTERVAL_MS: polling interval in ms (default: 3000)
  * - OMC_REPLY_RATE_LIMIT: max messages per minute (default: 10)
  * - OMC_REPLY_DISCORD_USER_IDS: comma-separated authorized Discord user IDs
+ * - OMC_REPLY_TELEGRAM_USER_IDS: comma-separated Telegram user IDs allowed to run control commands
+ * - OMC_REPLY_SLACK_USER_IDS: comma-separated Slack member IDs allowed to run control commands
+ * - OMC_REPLY_COMMANDS: handle /status, /cancel, ... commands (default: true)
  * - OMC_REPLY_INCLUDE_PREFIX: include visual prefix (default: true)
  *
  * SECURITY: Logs warning when Discord bot is enabled but authorizedDiscordUserIds is empty.
@@ -817,9 +959,10 @@ export function getReplyConfig(): import("./types.js").ReplyConfig | null {
   const enabled = process.env.OMC_REPLY_ENABLED === "true" || replyRaw?.enabled === true;
   if (!enabled) return null;
 
-  const authorizedDiscordUserIds = parseDiscordUserIds(
+  const authorizedDiscordUserIds = parseUserIds(
     process.env.OMC_REPLY_DISCORD_USER_IDS,
     replyRaw?.authorizedDiscordUserIds,
+    DISCORD_USER_ID_PATTERN,
   );
 
   // SECURITY: If Discord bot is enabled but no authorized user IDs, log warning
@@ -837,9 +980,176 @@ export function getReplyConfig(): import("./types.js").ReplyConfig | null {
     rateLimitPerMinute: parseInt(process.env.OMC_REPLY_RATE_LIMIT || "") || replyRaw?.rateLimitPerMinute || 10,
     includePrefix: process.env.OMC_REPLY_INCLUDE_PREFIX !== "false" && (replyRaw?.includePrefix !== false),
     authorizedDiscordUserIds,
+    authorizedTelegramUserIds: parseUserIds(
+      process.env.OMC_REPLY_TELEGRAM_USER_IDS,
+      replyRaw?.authorizedTelegramUserIds,
+      TELEGRAM_USER_ID_PATTERN,
+    ),
+    authorizedSlackUserIds: parseUserIds(
+      process.env.OMC_REPLY_SLACK_USER_IDS,
+      replyRaw?.authorizedSlackUserIds,
+      SLACK_USER_ID_PATTERN,
+    ),
+    commandsEnabled: process.env.OMC_REPLY_COMMANDS !== "false" && (replyRaw?.commandsEnabled !== false),
   };
 }
 
+/** Default wait for a remote Approve/Deny */
+const DEFAULT_REMOTE_APPROVAL_TIMEOUT_SECONDS = 300;
+
+/** The missing-authorized-IDs warning is printed once per process */
+let warnedNoApprovers = false;
+
+/**
+ * Upper bound on the wait. The PermissionRequest hook timeout in
+ * hooks/hooks.json (600s) must leave room for sending the prompt.
+ */
+const MAX_REMOTE_APPROVAL_TIMEOUT_SECONDS = 570;
+
+/**
+ * Get remote approval configuration for permission prompts.
+ *
+ * Returns null unless reply listening is configured (the reply listener
+ * daemon receives the button presses) and remote approval is enabled.
+ *
+ * Reads from .omc-config.json notifications.reply.remoteApproval.
+ * Environment variables override config file values:
+ * - OMC_REMOTE_APPROVAL: enable remote approval (default: false)
+ * - OMC_REMOTE_APPROVAL_TIMEOUT: seconds to wait for a decision (default: 300, max: 570)
+ */
+export function getRemoteApprovalConfig(): RemoteApprovalConfig | null {
+  const replyConfig = getReplyConfig();
+  if (!replyConfig) return null;
+
+  const raw = readRawConfig();
+  const approvalRaw = (
+    raw?.notifications as { reply?: { remoteApproval?: Partial<RemoteApprovalConfig> } } | undefined
+  )?.reply?.remoteApproval;
+
+  const enabled = process.env.OMC_REMOTE_APPROVAL === "true" || approvalRaw?.enabled === true;
+  if (!enabled) return null;
+
+  // Approve/Deny need an authorized user on at least one platform
+  if (
+    replyConfig.authorizedDiscordUserIds.length === 0 &&
+    replyConfig.authorizedTelegramUserIds.length === 0 &&
+    replyConfig.authorizedSlackUserIds.length === 0
+  ) {
+    if (!warnedNoApprovers) {
+      warnedNoApprovers = true;
+      console.warn(
+        "[notifications] Remote approval disabled: no authorized user IDs. " +
+        "Set OMC_REPLY_DISCORD_USER_IDS, OMC_REPLY_TELEGRAM_USER_IDS or OMC_REPLY_SLACK_USER_IDS"
+      );
+    }
+    return null;
+  }
+
+  const timeoutSeconds =
+    parseInt(process.env.OMC_REMOTE_APPROVAL_TIMEOUT || "") ||
+    (typeof approvalRaw?.timeoutSeconds === "number" ? Math.floor(approvalRaw.timeoutSeconds) : 0) ||
+    DEFAULT_REMOTE_APPROVAL_TIMEOUT_SECONDS;
+
+  return {
+    enabled: true,
+    timeoutSeconds: Math.min(Math.max(timeoutSeconds, 1), MAX_REMOTE_APPROVAL_TIMEOUT_SECONDS),
+    onTimeout: approvalRaw?.onTimeout === "deny" ? "deny" : "ask",
+  };
+}
+
+/** Default minutes between digests */
+const DEFAULT_DIGEST_INTERVAL_MINUTES = 10;
+
+/** Matches 24h "HH:MM" */
+const TIME_OF_DAY_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parse a 24h "HH:MM" string into minutes after midnight.
+ */
+function parseTimeOfDay(raw: unknown): number | null {
+  if (typeof raw !== "string") return null;
+  const match = TIME_OF_DAY_PATTERN.exec(raw.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Check that a time zone name is known to Intl.
+ */
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the throttle, digest, quiet-hours and escalation rules of a profile.
+ *
+ * Returns null when the profile configures none of them, so notify() can
+ * skip the delivery state file entirely. Invalid quiet hours are ignored
+ * with a warning; non-positive windows and intervals are ignored.
+ */
+export function getDeliveryRules(config: NotificationConfig): DeliveryRules | null {
+  const throttleMs: DeliveryRules["throttleMs"] = {};
+  const digestOnly: NotificationEvent[] = [];
+  for (const [event, eventConfig] of Object.entries(config.events ?? {}) as Array<
+    [NotificationEvent, EventNotificationConfig | undefined]
+  >) {
+    if (!eventConfig) continue;
+    if (typeof eventConfig.throttleSeconds === "number" && eventConfig.throttleSeconds > 0) {
+      throttleMs[event] = eventConfig.throttleSeconds * 1000;
+    }
+    if (eventConfig.digestOnly === true) {
+      digestOnly.push(event);
+    }
+  }
+
+  let quietHours: DeliveryRules["quietHours"] = null;
+  if (config.quietHours) {
+    const start = parseTimeOfDay(config.quietHours.start);
+    const end = parseTimeOfDay(config.quietHours.end);
+    const timezone = config.quietHours.timezone;
+    if (start === null || end === null || start === end) {
+      console.warn(
+        "[notifications] Ignoring quietHours: start and end must be different \"HH:MM\" times",
+      );
+    } else if (timezone && !isValidTimeZone(timezone)) {
+      console.warn(`[notifications] Ignoring quietHours: unknown time zone "${timezone}"`);
+    } else {
+      quietHours = {
+        start,
+        end,
+        timezone,
+        allowEvents: Array.isArray(config.quietHours.allowEvents)
+          ? config.quietHours.allowEvents
+          : ["permission-request"],
+      };
+    }
+  }
+
+  const mentionAfterMinutes = config.escalation?.mentionAfterMinutes;
+  const escalation: DeliveryRules["escalation"] =
+    typeof mentionAfterMinutes === "number" && mentionAfterMinutes > 0
+      ? { mentionAfterMs: mentionAfterMinutes * 60_000, remind: config.escalation?.remind !== false }
+      : null;
+
+  if (Object.keys(throttleMs).length === 0 && digestOnly.length === 0 && !quietHours && !escalation) {
+    return null;
+  }
+
+  const intervalMinutes = config.digest?.intervalMinutes;
+  const digestIntervalMs = config.digest?.enabled === false
+    ? null
+    : (typeof intervalMinutes === "number" && intervalMinutes > 0
+      ? intervalMinutes
+      : DEFAULT_DIGEST_INTERVAL_MINUTES) * 60_000;
+
+  return { throttleMs, digestOnly, digestIntervalMs, quietHours, escalation };
+}
+
 // ============================================================================
 // CUSTOM INTEGRATION CONFIG (Added for Notification Refactor)
 // ============================================================================
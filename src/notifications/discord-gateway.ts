@@ -0,0 +1,354 @@
+/**
+ * Discord Gateway Client
+ *
+ * Minimal Discord Gateway connection for receiving button presses (message
+ * component interactions). Discord only delivers interactions over the
+ * Gateway or to a public HTTPS endpoint, so the REST polling used for
+ * replies cannot see them.
+ *
+ * Protocol:
+ * 1. Connect to the Gateway WebSocket (v10, JSON encoding)
+ * 2. Receive HELLO, start heartbeating, send IDENTIFY (no intents needed for
+ *    interactions)
+ * 3. Dispatch INTERACTION_CREATE events for message components
+ * 4. Reconnect with exponential backoff on close, RECONNECT or INVALID_SESSION
+ *
+ * Interactions must be answered within 3 seconds via the callback endpoint
+ * (respondToDiscordInteraction).
+ *
+ * References:
+ * - https://discord.com/developers/docs/events/gateway
+ * - https://discord.com/developers/docs/interactions/receiving-and-responding
+ */
+
+import { redactTokens } from './redact.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Gateway configuration */
+export interface DiscordGatewayConfig {
+  botToken: string;
+  /** Only interactions from this channel are dispatched */
+  channelId: string;
+}
+
+/** A button press on a message sent by the bot */
+export interface DiscordComponentInteraction {
+  /** Interaction ID and token, used to respond */
+  id: string;
+  token: string;
+  channelId: string;
+  userId: string;
+  /** custom_id of the pressed button */
+  customId: string;
+  /** Message carrying the button */
+  messageId?: string;
+  messageContent?: string;
+}
+
+type InteractionHandler = (interaction: DiscordComponentInteraction) => void | Promise<void>;
+type LogFn = (message: string) => void;
+
+interface GatewayPayload {
+  op: number;
+  d?: unknown;
+  s?: number | null;
+  t?: string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GATEWAY_URL = 'wss://gateway.discord.gg/?v=10&encoding=json';
+
+/** Gateway opcodes used by this client */
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+
+/** Interaction type for message components (buttons) */
+const INTERACTION_MESSAGE_COMPONENT = 3;
+
+/** Timeout for interaction callbacks */
+const CALLBACK_TIMEOUT_MS = 5_000;
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Minimal Discord Gateway client.
+ *
+ * Identifies with the bot token, keeps the connection alive with heartbeats
+ * and dispatches button interactions from the configured channel.
+ */
+export class DiscordGatewayClient {
+  private ws: WebSocket | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private readonly maxReconnectAttempts = 10;
+  private readonly baseReconnectDelayMs = 1_000;
+  private readonly maxReconnectDelayMs = 30_000;
+  private lastSequence: number | null = null;
+  private isShuttingDown = false;
+
+  // Bound listener references for removal on cleanup
+  private onWsMessage: ((...args: unknown[]) => void) | null = null;
+  private onWsClose: ((...args: unknown[]) => void) | null = null;
+  private onWsError: ((...args: unknown[]) => void) | null = null;
+
+  private readonly log: LogFn;
+
+  constructor(
+    private readonly config: DiscordGatewayConfig,
+    private readonly onInteraction: InteractionHandler,
+    log: LogFn,
+  ) {
+    // Wrap the log function to automatically redact tokens from all messages
+    this.log = (msg: string) => log(redactTokens(msg));
+  }
+
+  /**
+   * Open the Gateway connection.
+   */
+  start(): void {
+    if (typeof WebSocket === 'undefined') {
+      this.log('WARN: WebSocket not available, Discord Gateway requires Node 20.10+');
+      return;
+    }
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting.
+   */
+  stop(): void {
+    this.isShuttingDown = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.cleanupWs();
+  }
+
+  /**
+   * Stop heartbeating, remove listeners and close the socket.
+   * Safe to call multiple times.
+   */
+  private cleanupWs(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    const ws = this.ws;
+    if (!ws) return;
+    this.ws = null;
+
+    if (this.onWsMessage) ws.removeEventListener('message', this.onWsMessage);
+    if (this.onWsClose) ws.removeEventListener('close', this.onWsClose);
+    if (this.onWsError) ws.removeEventListener('error', this.onWsError);
+    this.onWsMessage = null;
+    this.onWsClose = null;
+    this.onWsError = null;
+
+    try {
+      ws.close();
+    } catch {
+      // Ignore close errors on already-closed sockets
+    }
+  }
+
+  private connect(): void {
+    if (this.isShuttingDown) return;
+    this.cleanupWs();
+
+    try {
+      this.ws = new WebSocket(GATEWAY_URL);
+
+      this.onWsMessage = (event) => {
+        const ev = event as { data?: unknown };
+        this.handlePayload(String(ev.data));
+      };
+      this.onWsClose = (event) => {
+        const code = (event as { code?: number }).code;
+        this.cleanupWs();
+        if (!this.isShuttingDown) {
+          this.log(`Discord Gateway disconnected (code ${code ?? 'unknown'}), scheduling reconnect`);
+          this.scheduleReconnect();
+        }
+      };
+      this.onWsError = (e) => {
+        this.log(`Discord Gateway WebSocket error: ${e instanceof Error ? e.message : 'unknown'}`);
+      };
+
+      this.ws.addEventListener('message', this.onWsMessage);
+      this.ws.addEventListener('close', this.onWsClose);
+      this.ws.addEventListener('error', this.onWsError);
+    } catch (error) {
+      this.log(`Discord Gateway connection error: ${error instanceof Error ? error.message : String(error)}`);
+      this.scheduleReconnect();
+    }
+  }
+
+  private send(payload: GatewayPayload): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(payload));
+    }
+  }
+
+  /**
+   * Process one Gateway payload.
+   */
+  private handlePayload(raw: string): void {
+    let payload: GatewayPayload;
+    try {
+      payload = JSON.parse(raw) as GatewayPayload;
+    } catch {
+      this.log('REJECTED Discord Gateway payload: Invalid JSON');
+      return;
+    }
+
+    if (typeof payload.s === 'number') {
+      this.lastSequence = payload.s;
+    }
+
+    switch (payload.op) {
+      case OP_HELLO: {
+        const interval = (payload.d as { heartbeat_interval?: number } | undefined)?.heartbeat_interval;
+        if (typeof interval === 'number' && interval > 0) {
+          this.heartbeatTimer = setInterval(() => {
+            this.send({ op: OP_HEARTBEAT, d: this.lastSequence });
+          }, interval);
+        }
+        this.send({
+          op: OP_IDENTIFY,
+          d: {
+            token: this.config.botToken,
+            intents: 0,
+            properties: { os: process.platform, browser: 'oh-my-claudecode', device: 'oh-my-claudecode' },
+          },
+        });
+        return;
+      }
+      case OP_HEARTBEAT:
+        this.send({ op: OP_HEARTBEAT, d: this.lastSequence });
+        return;
+      case OP_RECONNECT:
+      case OP_INVALID_SESSION:
+        this.log(`Discord Gateway requested ${payload.op === OP_RECONNECT ? 'reconnect' : 'new session'}`);
+        this.ws?.close();
+        return;
+      case OP_DISPATCH:
+        if (payload.t === 'READY') {
+          this.reconnectAttempts = 0;
+          this.log('Discord Gateway ready');
+        } else if (payload.t === 'INTERACTION_CREATE') {
+          this.handleInteraction(payload.d);
+        }
+        return;
+    }
+  }
+
+  private handleInteraction(data: unknown): void {
+    const interaction = data as {
+      id?: string;
+      token?: string;
+      type?: number;
+      channel_id?: string;
+      member?: { user?: { id?: string } };
+      user?: { id?: string };
+      data?: { custom_id?: string };
+      message?: { id?: string; content?: string };
+    } | undefined;
+
+    if (
+      !interaction?.id ||
+      !interaction.token ||
+      interaction.type !== INTERACTION_MESSAGE_COMPONENT ||
+      interaction.channel_id !== this.config.channelId ||
+      typeof interaction.data?.custom_id !== 'string'
+    ) {
+      return;
+    }
+
+    const userId = interaction.member?.user?.id ?? interaction.user?.id;
+    if (!userId) return;
+
+    // Fire-and-forget: don't block the WebSocket handler
+    Promise.resolve(this.onInteraction({
+      id: interaction.id,
+      token: interaction.token,
+      channelId: interaction.channel_id,
+      userId,
+      customId: interaction.data.custom_id,
+      messageId: interaction.message?.id,
+      messageContent: interaction.message?.content,
+    })).catch(err => {
+      this.log(`Discord interaction handler error: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  }
+
+  /**
+   * Schedule a reconnection attempt with exponential backoff.
+   */
+  private scheduleReconnect(): void {
+    if (this.isShuttingDown) return;
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.log(`Discord Gateway max reconnect attempts (${this.maxReconnectAttempts}) reached`);
+      return;
+    }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const delay = Math.min(
+      this.baseReconnectDelayMs * Math.pow(2, this.reconnectAttempts),
+      this.maxReconnectDelayMs,
+    );
+    this.reconnectAttempts++;
+
+    this.log(`Discord Gateway reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
+
+// ============================================================================
+// Interaction Responses
+// ============================================================================
+
+/**
+ * Answer a component interaction.
+ *
+ * With `update`, the original message is edited: its content is replaced and
+ * the buttons are removed. Otherwise an ephemeral message only the presser
+ * sees is sent.
+ */
+export async function respondToDiscordInteraction(
+  interaction: Pick<DiscordComponentInteraction, 'id' | 'token'>,
+  content: string,
+  update: boolean,
+): Promise<void> {
+  const body = update
+    ? { type: 7, data: { content, components: [], allowed_mentions: { parse: [] } } }
+    : { type: 4, data: { content, flags: 64, allowed_mentions: { parse: [] } } };
+
+  await fetch(`https://discord.com/api/v10/interactions/${interaction.id}/${interaction.token}/callback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+  });
+}
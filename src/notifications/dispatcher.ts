@@ -1,18 +1,25 @@
 /**
  * Notification Dispatcher
  *
- * Sends notifications to configured platforms (Discord, Telegram, Slack, webhook).
+ * Sends notifications to configured platforms (Discord, Telegram, Slack,
+ * Matrix, Microsoft Teams, ntfy, Gotify, email, webhook).
  * All sends are non-blocking with timeouts. Failures are swallowed to avoid
  * blocking hooks.
  */
 
 import { request as httpsRequest } from "https";
+import { randomUUID } from "crypto";
 import type {
   DiscordNotificationConfig,
   DiscordBotNotificationConfig,
   TelegramNotificationConfig,
   SlackNotificationConfig,
   SlackBotNotificationConfig,
+  MatrixNotificationConfig,
+  TeamsNotificationConfig,
+  NtfyNotificationConfig,
+  GotifyNotificationConfig,
+  EmailNotificationConfig,
   WebhookNotificationConfig,
   NotificationPayload,
   NotificationResult,
@@ -20,6 +27,7 @@ import type {
   DispatchResult,
   NotificationConfig,
   NotificationEvent,
+  PlatformMessage,
 } from "./types.js";
 
 import {
@@ -28,6 +36,20 @@ import {
   validateSlackChannel,
   validateSlackUsername,
 } from "./config.js";
+import {
+  validateMatrixConfig,
+  validateTeamsConfig,
+  validateNtfyConfig,
+  validateGotifyConfig,
+  validateEmailConfig,
+} from "./validation.js";
+import { redactTokens } from "./redact.js";
+import { sendMail } from "./smtp.js";
+import {
+  buildDiscordApprovalComponents,
+  buildSlackApprovalBlocks,
+  buildTelegramApprovalKeyboard,
+} from "./remote-approval.js";
 
 /** Per-request timeout for individual platform sends */
 const SEND_TIMEOUT_MS = 10_000;
@@ -38,6 +60,12 @@ const DISPATCH_TIMEOUT_MS = 15_000;
 /** Discord maximum content length */
 const DISCORD_MAX_CONTENT_LENGTH = 2000;
 
+/** Teams rejects cards over ~28KB; keep the message well below that */
+const TEAMS_MAX_TEXT_LENGTH = 20_000;
+
+/** Default ntfy server */
+const DEFAULT_NTFY_SERVER = "https://ntfy.sh";
+
 /**
  * Compose Discord message content with mention prefix.
  * Enforces the 2000-char Discord content limit by truncating the message body.
@@ -153,11 +181,15 @@ export async function sendDiscord(
   }
 
   try {
+    // Embeds carry the message; content keeps only the mention
     const { content, allowed_mentions } = composeDiscordContent(
-      payload.message,
+      payload.discordEmbeds ? "" : payload.message,
       config.mention,
     );
     const body: Record<string, unknown> = { content, allowed_mentions };
+    if (payload.discordEmbeds) {
+      body.embeds = payload.discordEmbeds;
+    }
     if (config.username) {
       body.username = config.username;
     }
@@ -211,8 +243,9 @@ export async function sendDiscordBot(
   }
 
   try {
+    // Embeds carry the message; content keeps only the mention
     const { content, allowed_mentions } = composeDiscordContent(
-      payload.message,
+      payload.discordEmbeds ? "" : payload.message,
       config.mention,
     );
     const url = `https://discord.com/api/v10/channels/${channelId}/messages`;
@@ -222,7 +255,15 @@ export async function sendDiscordBot(
         "Content-Type": "application/json",
         Authorization: `Bot ${botToken}`,
       },
-      body: JSON.stringify({ content, allowed_mentions }),
+      body: JSON.stringify({
+        content,
+        allowed_mentions,
+        ...(payload.discordEmbeds && { embeds: payload.discordEmbeds }),
+        // Approve/Deny buttons for remote permission prompts
+        ...(payload.approvalId && {
+          components: buildDiscordApprovalComponents(payload.approvalId),
+        }),
+      }),
       signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
     });
 
@@ -277,7 +318,10 @@ export async function sendTelegram(
     const body = JSON.stringify({
       chat_id: config.chatId,
       text: payload.message,
-      parse_mode: config.parseMode || "Markdown",
+      parse_mode: payload.telegramParseMode ?? (config.parseMode || "Markdown"),
+      ...(payload.approvalId && {
+        reply_markup: buildTelegramApprovalKeyboard(payload.approvalId),
+      }),
     });
 
     const result = await new Promise<NotificationResult>((resolve) => {
@@ -366,6 +410,25 @@ function composeSlackText(
   return message;
 }
 
+/**
+ * Prepend the mention to template blocks as its own section. Slack shows
+ * blocks instead of the text, so a mention only in the fallback text would
+ * neither render nor notify.
+ */
+function composeSlackBlocks(
+  blocks: Record<string, unknown>[],
+  mention: string | undefined,
+): Record<string, unknown>[] {
+  const validatedMention = validateSlackMention(mention);
+  if (!validatedMention) {
+    return blocks;
+  }
+  return [
+    { type: "section", text: { type: "mrkdwn", text: validatedMention } },
+    ...blocks,
+  ];
+}
+
 /**
  * Send notification via Slack incoming webhook.
  */
@@ -384,6 +447,9 @@ export async function sendSlack(
   try {
     const text = composeSlackText(payload.message, config.mention);
     const body: Record<string, unknown> = { text };
+    if (payload.slackBlocks) {
+      body.blocks = composeSlackBlocks(payload.slackBlocks, config.mention);
+    }
     // Defense-in-depth: validate channel/username at point of use to guard
     // against crafted config values containing shell metacharacters or
     // path traversal sequences.
@@ -452,7 +518,14 @@ export async function sendSlackBot(
         "Authorization": `Bearer ${botToken}`,
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ channel: channelId, text }),
+      body: JSON.stringify({
+        channel: channelId,
+        text,
+        // Approval buttons replace template blocks; text stays the fallback
+        ...(payload.approvalId
+          ? { blocks: buildSlackApprovalBlocks(text, payload.approvalId) }
+          : payload.slackBlocks && { blocks: composeSlackBlocks(payload.slackBlocks, config.mention) }),
+      }),
       signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
     });
 
@@ -483,6 +556,322 @@ export async function sendSlackBot(
   }
 }
 
+/**
+ * Short title for platforms with a separate title or subject field.
+ */
+function notificationTitle(payload: NotificationPayload): string {
+  return payload.projectName
+    ? `${payload.projectName}: ${payload.event}`
+    : payload.event;
+}
+
+/** Join a server base URL and a path without doubling slashes */
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, "")}${path}`;
+}
+
+/**
+ * Send notification via the Matrix client-server API (m.room.message).
+ * Returns the event ID as messageId.
+ */
+export async function sendMatrix(
+  config: MatrixNotificationConfig,
+  payload: NotificationPayload,
+): Promise<NotificationResult> {
+  if (!config.enabled) {
+    return { platform: "matrix", success: false, error: "Not enabled" };
+  }
+
+  const validation = validateMatrixConfig(config);
+  if (!validation.valid) {
+    return { platform: "matrix", success: false, error: validation.errors.join("; ") };
+  }
+
+  try {
+    const body = config.mention
+      ? `${config.mention}\n${payload.message}`
+      : payload.message;
+    const url = joinUrl(
+      config.homeserverUrl!,
+      `/_matrix/client/v3/rooms/${encodeURIComponent(config.roomId!)}/send/m.room.message/${encodeURIComponent(`omc-${randomUUID()}`)}`,
+    );
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${config.accessToken}`,
+      },
+      body: JSON.stringify({
+        msgtype: "m.text",
+        body,
+        // Only the configured user is pinged, never @room
+        "m.mentions": config.mention ? { user_ids: [config.mention] } : {},
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        platform: "matrix",
+        success: false,
+        error: `HTTP ${response.status}`,
+      };
+    }
+
+    let messageId: string | undefined;
+    try {
+      const data = (await response.json()) as { event_id?: string };
+      messageId = data?.event_id;
+    } catch {
+      // Non-fatal: message was sent, we just can't track it
+    }
+
+    return { platform: "matrix", success: true, messageId };
+  } catch (error) {
+    return {
+      platform: "matrix",
+      success: false,
+      error: error instanceof Error ? redactTokens(error.message) : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Build the Adaptive Card posted to a Teams Workflows webhook.
+ */
+export function buildTeamsCard(
+  config: TeamsNotificationConfig,
+  payload: NotificationPayload,
+): Record<string, unknown> {
+  const text =
+    payload.message.length > TEAMS_MAX_TEXT_LENGTH
+      ? payload.message.slice(0, TEAMS_MAX_TEXT_LENGTH - 1) + "\u2026"
+      : payload.message;
+  const facts = [
+    { title: "Event", value: payload.event },
+    ...(payload.projectName ? [{ title: "Project", value: payload.projectName }] : []),
+    { title: "Session", value: payload.sessionId },
+  ];
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              text: config.title || "oh-my-claudecode",
+              weight: "Bolder",
+              size: "Medium",
+              wrap: true,
+            },
+            { type: "TextBlock", text, wrap: true },
+            { type: "FactSet", facts },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Send notification via a Microsoft Teams Workflows webhook (Adaptive Card).
+ */
+export async function sendTeams(
+  config: TeamsNotificationConfig,
+  payload: NotificationPayload,
+): Promise<NotificationResult> {
+  if (!config.enabled || !config.webhookUrl) {
+    return { platform: "teams", success: false, error: "Not configured" };
+  }
+
+  const validation = validateTeamsConfig(config);
+  if (!validation.valid) {
+    return { platform: "teams", success: false, error: validation.errors.join("; ") };
+  }
+
+  try {
+    const response = await fetch(config.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(buildTeamsCard(config, payload)),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        platform: "teams",
+        success: false,
+        error: `HTTP ${response.status}`,
+      };
+    }
+
+    return { platform: "teams", success: true };
+  } catch (error) {
+    return {
+      platform: "teams",
+      success: false,
+      error: error instanceof Error ? redactTokens(error.message) : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Send notification via ntfy (JSON publish to the server root).
+ */
+export async function sendNtfy(
+  config: NtfyNotificationConfig,
+  payload: NotificationPayload,
+): Promise<NotificationResult> {
+  if (!config.enabled || !config.topic) {
+    return { platform: "ntfy", success: false, error: "Not configured" };
+  }
+
+  const validation = validateNtfyConfig(config);
+  if (!validation.valid) {
+    return { platform: "ntfy", success: false, error: validation.errors.join("; ") };
+  }
+
+  try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.token) {
+      headers.Authorization = `Bearer ${config.token}`;
+    }
+
+    const response = await fetch(config.serverUrl || DEFAULT_NTFY_SERVER, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        topic: config.topic,
+        title: notificationTitle(payload),
+        message: payload.message,
+        priority: config.priority ?? 3,
+        ...(config.tags?.length && { tags: config.tags }),
+        markdown: true,
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        platform: "ntfy",
+        success: false,
+        error: `HTTP ${response.status}`,
+      };
+    }
+
+    return { platform: "ntfy", success: true };
+  } catch (error) {
+    return {
+      platform: "ntfy",
+      success: false,
+      error: error instanceof Error ? redactTokens(error.message) : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Send notification via Gotify (POST /message).
+ */
+export async function sendGotify(
+  config: GotifyNotificationConfig,
+  payload: NotificationPayload,
+): Promise<NotificationResult> {
+  if (!config.enabled || !config.serverUrl || !config.appToken) {
+    return { platform: "gotify", success: false, error: "Not configured" };
+  }
+
+  const validation = validateGotifyConfig(config);
+  if (!validation.valid) {
+    return { platform: "gotify", success: false, error: validation.errors.join("; ") };
+  }
+
+  try {
+    const response = await fetch(joinUrl(config.serverUrl, "/message"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Gotify-Key": config.appToken,
+      },
+      body: JSON.stringify({
+        title: notificationTitle(payload),
+        message: payload.message,
+        priority: config.priority ?? 5,
+        extras: { "client::display": { contentType: "text/markdown" } },
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        platform: "gotify",
+        success: false,
+        error: `HTTP ${response.status}`,
+      };
+    }
+
+    return { platform: "gotify", success: true };
+  } catch (error) {
+    return {
+      platform: "gotify",
+      success: false,
+      error: error instanceof Error ? redactTokens(error.message) : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Send notification via email (SMTP submission).
+ */
+export async function sendEmail(
+  config: EmailNotificationConfig,
+  payload: NotificationPayload,
+): Promise<NotificationResult> {
+  if (!config.enabled || !config.host) {
+    return { platform: "email", success: false, error: "Not configured" };
+  }
+
+  const validation = validateEmailConfig(config);
+  if (!validation.valid) {
+    return { platform: "email", success: false, error: validation.errors.join("; ") };
+  }
+
+  const secure = config.secure ?? config.port === 465;
+  const port = config.port ?? (secure ? 465 : 587);
+
+  try {
+    await sendMail(
+      {
+        host: config.host,
+        port,
+        secure,
+        username: config.username,
+        password: config.password,
+        timeoutMs: SEND_TIMEOUT_MS,
+      },
+      {
+        from: config.from,
+        to: config.to,
+        subject: `${config.subjectPrefix ?? "[omc]"} ${notificationTitle(payload)}`,
+        text: payload.message,
+      },
+    );
+    return { platform: "email", success: true };
+  } catch (error) {
+    return {
+      platform: "email",
+      success: false,
+      error: error instanceof Error ? redactTokens(error.message) : "Unknown error",
+    };
+  }
+}
+
 /**
  * Send notification via generic webhook (POST JSON).
  */
@@ -590,15 +979,18 @@ export async function dispatchNotifications(
   config: NotificationConfig,
   event: NotificationEvent,
   payload: NotificationPayload,
-  platformMessages?: Map<NotificationPlatform, string>,
+  platformMessages?: Map<NotificationPlatform, string | PlatformMessage>,
 ): Promise<DispatchResult> {
   const promises: Promise<NotificationResult>[] = [];
 
   /** Get payload for a platform, using per-platform message if available. */
-  const payloadFor = (platform: NotificationPlatform): NotificationPayload =>
-    platformMessages?.has(platform)
-      ? { ...payload, message: platformMessages.get(platform)! }
-      : payload;
+  const payloadFor = (platform: NotificationPlatform): NotificationPayload => {
+    const override = platformMessages?.get(platform);
+    if (override === undefined) return payload;
+    return typeof override === "string"
+      ? { ...payload, message: override }
+      : { ...payload, ...override };
+  };
 
   // Discord
   const discordConfig = getEffectivePlatformConfig<DiscordNotificationConfig>(
@@ -662,6 +1054,56 @@ export async function dispatchNotifications(
     promises.push(sendSlackBot(slackBotConfig, payloadFor("slack-bot")));
   }
 
+  // Matrix
+  const matrixConfig = getEffectivePlatformConfig<MatrixNotificationConfig>(
+    "matrix",
+    config,
+    event,
+  );
+  if (matrixConfig?.enabled) {
+    promises.push(sendMatrix(matrixConfig, payloadFor("matrix")));
+  }
+
+  // Microsoft Teams
+  const teamsConfig = getEffectivePlatformConfig<TeamsNotificationConfig>(
+    "teams",
+    config,
+    event,
+  );
+  if (teamsConfig?.enabled) {
+    promises.push(sendTeams(teamsConfig, payloadFor("teams")));
+  }
+
+  // ntfy
+  const ntfyConfig = getEffectivePlatformConfig<NtfyNotificationConfig>(
+    "ntfy",
+    config,
+    event,
+  );
+  if (ntfyConfig?.enabled) {
+    promises.push(sendNtfy(ntfyConfig, payloadFor("ntfy")));
+  }
+
+  // Gotify
+  const gotifyConfig = getEffectivePlatformConfig<GotifyNotificationConfig>(
+    "gotify",
+    config,
+    event,
+  );
+  if (gotifyConfig?.enabled) {
+    promises.push(sendGotify(gotifyConfig, payloadFor("gotify")));
+  }
+
+  // Email
+  const emailConfig = getEffectivePlatformConfig<EmailNotificationConfig>(
+    "email",
+    config,
+    event,
+  );
+  if (emailConfig?.enabled) {
+    promises.push(sendEmail(emailConfig, payloadFor("email")));
+  }
+
   if (promises.length === 0) {
     return { event, results: [], anySuccess: false };
   }
@@ -5,7 +5,11 @@
  * Supports markdown (Discord/Telegram) and plain text (Slack/webhook) formats.
  */
 
-import type { NotificationPayload } from "./types.js";
+import type {
+  NotificationDigest,
+  NotificationEvent,
+  NotificationPayload,
+} from "./types.js";
 import { basename } from "path";
 
 /**
@@ -283,6 +287,130 @@ export function formatAskUserQuestion(payload: NotificationPayload): string {
   return lines.join("\n");
 }
 
+/**
+ * Format team-budget-exceeded notification message.
+ * Sent when a team run crosses a wall-clock, retry or cost ceiling.
+ */
+export function formatTeamBudgetExceeded(payload: NotificationPayload): string {
+  const lines = [`# Team Budget Exceeded`];
+
+  if (payload.teamName) {
+    lines.push(`**Team:** \`${payload.teamName}\``);
+  }
+
+  lines.push(`**Limit:** ${payload.reason || "unknown"}`);
+
+  if (payload.contextSummary) {
+    lines.push(`**Usage:** ${payload.contextSummary}`);
+  }
+
+  lines.push("");
+  lines.push(`Dispatch is paused; in-flight tasks may finish.`);
+  lines.push("");
+  lines.push(buildFooter(payload, true));
+
+  return lines.join("\n");
+}
+
+/**
+ * Format permission-request notification message.
+ * Sent when a permission prompt is routed to chat for remote approval.
+ */
+export function formatPermissionRequest(payload: NotificationPayload): string {
+  const lines = [`# Permission Needed`];
+
+  if (payload.toolName) {
+    lines.push(`**Tool:** \`${payload.toolName}\``);
+  }
+
+  if (payload.toolSummary) {
+    lines.push(`**Request:** ${payload.toolSummary}`);
+  }
+
+  if (payload.approvalId) {
+    lines.push(`**Request ID:** \`${payload.approvalId}\``);
+  }
+
+  lines.push("");
+  lines.push(`Claude is waiting for your approval.`);
+  lines.push("");
+  lines.push(buildFooter(payload, true));
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the reminder sent when a session stays idle past the escalation
+ * threshold. Sent with the configured mention.
+ */
+export function formatIdleReminder(payload: NotificationPayload, idleMs: number): string {
+  const minutes = Math.max(1, Math.round(idleMs / 60_000));
+
+  const lines = [
+    `# Still Idle`,
+    "",
+    `Claude has been waiting for input for ${minutes} min.`,
+    "",
+    `**Session:** \`${payload.sessionId}\``,
+    "",
+    buildFooter(payload, true),
+  ];
+
+  return lines.join("\n");
+}
+
+/** Singular and plural digest labels per event */
+const DIGEST_LABELS: Record<NotificationEvent, [string, string]> = {
+  "session-start": ["session started", "sessions started"],
+  "session-stop": ["session continued", "sessions continued"],
+  "session-end": ["session ended", "sessions ended"],
+  "session-idle": ["idle session", "idle sessions"],
+  "ask-user-question": ["question", "questions"],
+  "agent-call": ["agent call", "agent calls"],
+  "team-budget-exceeded": ["budget warning", "budget warnings"],
+  "permission-request": ["permission request", "permission requests"],
+};
+
+/** Maximum number of agent names listed in a digest */
+const MAX_DIGEST_AGENTS = 5;
+
+/**
+ * Format a digest of held events, e.g.
+ * "12 agent calls, 3 idle sessions in the last 10 min".
+ */
+export function formatDigest(digest: NotificationDigest, now: Date = new Date()): string {
+  const counts = (Object.entries(digest.counts) as Array<[NotificationEvent, number]>)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+  const summary = counts
+    .map(([event, count]) => `${count} ${DIGEST_LABELS[event][count === 1 ? 0 : 1]}`)
+    .join(", ");
+  const minutes = Math.max(1, Math.round((now.getTime() - new Date(digest.since).getTime()) / 60_000));
+
+  const lines = [`# Notification Digest`, "", `${summary} in the last ${minutes} min`];
+
+  const agents = Object.entries(digest.agents).sort((a, b) => b[1] - a[1]);
+  if (agents.length > 0) {
+    const shown = agents
+      .slice(0, MAX_DIGEST_AGENTS)
+      .map(([name, count]) => (count > 1 ? `\`${name}\` ×${count}` : `\`${name}\``));
+    if (agents.length > MAX_DIGEST_AGENTS) {
+      shown.push(`+${agents.length - MAX_DIGEST_AGENTS} more`);
+    }
+    lines.push("", `**Agents:** ${shown.join(", ")}`);
+  }
+
+  if (digest.projects.length > 0) {
+    lines.push(`**Projects:** ${digest.projects.map((p) => `\`${p}\``).join(", ")}`);
+  }
+
+  if (digest.sessions.length > 1) {
+    lines.push(`**Sessions:** ${digest.sessions.length}`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format notification message based on event type.
  * Returns a markdown-formatted string suitable for Discord/Telegram.
@@ -301,6 +429,10 @@ export function formatNotification(payload: NotificationPayload): string {
       return formatAskUserQuestion(payload);
     case "agent-call":
       return formatAgentCall(payload);
+    case "team-budget-exceeded":
+      return formatTeamBudgetExceeded(payload);
+    case "permission-request":
+      return formatPermissionRequest(payload);
     default:
       return payload.message || `Event: ${payload.event}`;
   }
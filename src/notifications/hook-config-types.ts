@@ -17,6 +17,8 @@ export type TemplateVariable =
   | "question" | "incompleteTasks" | "agentName" | "agentType"
   | "tmuxTail" | "tmuxPaneId"
   | "replyChannel" | "replyTarget" | "replyThread"
+  // Lists (loop with {{#each}}; used as a variable they render comma-separated)
+  | "changedFiles" | "incompleteTodos" | "agents"
   // Computed variables (derived from payload, not direct fields)
   | "duration"          // human-readable from durationMs (e.g., "5m 23s")
   | "time"              // locale time string from timestamp
@@ -28,10 +30,25 @@ export type TemplateVariable =
   | "tmuxTailBlock"     // formatted tmux tail with code fence or empty string
   | "reasonDisplay";    // reason || "unknown" (for session-end)
 
+/**
+ * Output format of a template.
+ *
+ * - text: plain/markdown message (all platforms)
+ * - html: Telegram HTML (telegram)
+ * - blocks: Slack Block Kit JSON, an array of blocks or `{ "blocks": [...] }` (slack, slack-bot)
+ * - embed: Discord embed JSON, an embed, an array of embeds or `{ "embeds": [...] }` (discord, discord-bot)
+ *
+ * Variables are escaped for the format: HTML-escaped in html, JSON string
+ * escaped in blocks and embed.
+ */
+export type TemplateFormat = "text" | "html" | "blocks" | "embed";
+
 /** Per-platform message template override */
 export interface PlatformTemplateOverride {
   /** Message template with {{variable}} placeholders */
   template?: string;
+  /** Output format of the template (default: "text") */
+  format?: TemplateFormat;
   /** Whether to send this event to this platform (inherits from event-level if not set) */
   enabled?: boolean;
 }
@@ -60,6 +77,8 @@ export interface HookNotificationConfig {
     "session-idle"?: HookEventConfig;
     "ask-user-question"?: HookEventConfig;
     "agent-call"?: HookEventConfig;
+    "team-budget-exceeded"?: HookEventConfig;
+    "permission-request"?: HookEventConfig;
   };
   /** Global default template (fallback when event has no template) */
   defaultTemplate?: string;
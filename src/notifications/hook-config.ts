@@ -8,7 +8,7 @@
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { getClaudeConfigDir } from "../utils/paths.js";
-import type { HookNotificationConfig } from "./hook-config-types.js";
+import type { HookNotificationConfig, TemplateFormat } from "./hook-config-types.js";
 import type {
   NotificationConfig,
   NotificationEvent,
@@ -86,6 +86,22 @@ export function resolveEventTemplate(
   return hookConfig.defaultTemplate || null;
 }
 
+/**
+ * Resolve the output format of the template chosen by resolveEventTemplate.
+ *
+ * Only platform overrides can set a format; event-level and global templates
+ * are always plain text.
+ */
+export function resolveEventTemplateFormat(
+  hookConfig: HookNotificationConfig | null,
+  event: NotificationEvent,
+  platform: NotificationPlatform,
+): TemplateFormat {
+  const platformOverride = hookConfig?.events?.[event]?.platforms?.[platform];
+  if (platformOverride?.template) return platformOverride.format ?? "text";
+  return "text";
+}
+
 /**
  * Merge hook config event enabled/disabled flags into a NotificationConfig.
  *
@@ -2,8 +2,8 @@
  * Notification System - Public API
  *
  * Multi-platform lifecycle notifications for oh-my-claudecode.
- * Sends notifications to Discord, Telegram, Slack, and generic webhooks
- * on session lifecycle events.
+ * Sends notifications to Discord, Telegram, Slack, Matrix, Microsoft Teams,
+ * ntfy, Gotify, email, and generic webhooks on session lifecycle events.
  *
  * Usage:
  *   import { notify } from '../notifications/index.js';
@@ -23,13 +23,24 @@ export type {
   TelegramNotificationConfig,
   SlackNotificationConfig,
   SlackBotNotificationConfig,
+  MatrixNotificationConfig,
+  TeamsNotificationConfig,
+  NtfyNotificationConfig,
+  GotifyNotificationConfig,
+  EmailNotificationConfig,
   WebhookNotificationConfig,
   EventNotificationConfig,
+  NotificationDigestConfig,
+  QuietHoursConfig,
+  MentionEscalationConfig,
+  NotificationAgentSummary,
+  PlatformMessage,
 } from "./types.js";
 export type {
   HookNotificationConfig,
   HookEventConfig,
   PlatformTemplateOverride,
+  TemplateFormat,
   TemplateVariable,
 } from "./hook-config-types.js";
 
@@ -40,6 +51,11 @@ export {
   sendTelegram,
   sendSlack,
   sendSlackBot,
+  sendMatrix,
+  sendTeams,
+  sendNtfy,
+  sendGotify,
+  sendEmail,
   sendWebhook,
 } from "./dispatcher.js";
 export {
@@ -50,6 +66,8 @@ export {
   formatSessionIdle,
   formatAskUserQuestion,
   formatAgentCall,
+  formatDigest,
+  formatIdleReminder,
 } from "./formatter.js";
 export {
   getCurrentTmuxSession,
@@ -58,16 +76,19 @@ export {
   formatTmuxInfo,
 } from "./tmux.js";
 export {
+  NOTIFICATION_PLATFORMS,
   getNotificationConfig,
   isEventEnabled,
   getEnabledPlatforms,
   getVerbosity,
   isEventAllowedByVerbosity,
   shouldIncludeTmuxTail,
+  getDeliveryRules,
 } from "./config.js";
 export {
   getHookConfig,
   resolveEventTemplate,
+  resolveEventTemplateFormat,
   resetHookConfigCache,
   mergeHookConfigIntoNotificationConfig,
 } from "./hook-config.js";
@@ -76,6 +97,8 @@ export {
   getDefaultTemplate,
   validateTemplate,
   computeTemplateVariables,
+  computeTemplateLists,
+  renderPlatformTemplate,
 } from "./template-engine.js";
 export {
   verifySlackSignature,
@@ -90,25 +113,43 @@ export type {
   SlackSocketEnvelope,
 } from "./slack-socket.js";
 export { redactTokens } from "./redact.js";
+export {
+  flushAllDueNotifications,
+  markSessionActive,
+} from "./throttle.js";
+export type { DeliveryDecision } from "./throttle.js";
 
 import type {
   NotificationEvent,
   NotificationPlatform,
   NotificationPayload,
   DispatchResult,
+  PlatformMessage,
 } from "./types.js";
 import {
+  NOTIFICATION_PLATFORMS,
   getNotificationConfig,
   isEventEnabled,
   getVerbosity,
   isEventAllowedByVerbosity,
   shouldIncludeTmuxTail,
+  getDeliveryRules,
 } from "./config.js";
+import {
+  applyDeliveryRules,
+  flushDueNotifications,
+  getDeliveryProfileKey,
+  withoutMentions,
+} from "./throttle.js";
 import { formatNotification } from "./formatter.js";
 import { dispatchNotifications } from "./dispatcher.js";
 import { getCurrentTmuxSession } from "./tmux.js";
-import { getHookConfig, resolveEventTemplate } from "./hook-config.js";
-import { interpolateTemplate } from "./template-engine.js";
+import {
+  getHookConfig,
+  resolveEventTemplate,
+  resolveEventTemplateFormat,
+} from "./hook-config.js";
+import { interpolateTemplate, renderPlatformTemplate } from "./template-engine.js";
 import { basename } from "path";
 
 /**
@@ -170,11 +211,34 @@ export async function notify(
       incompleteTasks: data.incompleteTasks,
       agentName: data.agentName,
       agentType: data.agentType,
+      teamName: data.teamName,
+      toolName: data.toolName,
+      toolSummary: data.toolSummary,
+      approvalId: data.approvalId,
+      changedFiles: data.changedFiles,
+      incompleteTodos: data.incompleteTodos,
+      agents: data.agents,
       replyChannel: data.replyChannel ?? process.env.OPENCLAW_REPLY_CHANNEL ?? undefined,
       replyTarget: data.replyTarget ?? process.env.OPENCLAW_REPLY_TARGET ?? undefined,
       replyThread: data.replyThread ?? process.env.OPENCLAW_REPLY_THREAD ?? undefined,
     };
 
+    // Throttle, digest, quiet-hours and escalation rules (approval prompts are never held)
+    let dispatchConfig = config;
+    const deliveryRules = getDeliveryRules(config);
+    if (deliveryRules && !payload.approvalId) {
+      const profileKey = getDeliveryProfileKey(data.profileName);
+      await flushDueNotifications(config, profileKey, event === "session-end");
+
+      const decision = applyDeliveryRules(deliveryRules, profileKey, payload);
+      if (decision.action !== "send") {
+        return null;
+      }
+      if (!decision.mention) {
+        dispatchConfig = withoutMentions(config);
+      }
+    }
+
     // Capture tmux tail for events that benefit from it
     if (
       shouldIncludeTmuxTail(verbosity) &&
@@ -199,17 +263,25 @@ export async function notify(
     payload.message = defaultMessage;
 
     // Per-platform template resolution (only when hook config has overrides)
-    let platformMessages: Map<NotificationPlatform, string> | undefined;
+    let platformMessages: Map<NotificationPlatform, string | PlatformMessage> | undefined;
     if (!data.message) {
       const hookConfig = getHookConfig();
       if (hookConfig?.enabled) {
-        const platforms: NotificationPlatform[] = [
-          "discord", "discord-bot", "telegram", "slack", "slack-bot", "webhook",
-        ];
-        const map = new Map<NotificationPlatform, string>();
-        for (const platform of platforms) {
+        const map = new Map<NotificationPlatform, string | PlatformMessage>();
+        for (const platform of NOTIFICATION_PLATFORMS) {
           const template = resolveEventTemplate(hookConfig, event, platform);
-          if (template) {
+          if (!template) continue;
+
+          const format = resolveEventTemplateFormat(hookConfig, event, platform);
+          if (format !== "text") {
+            // Rich formats fall back to the default message when the output is unusable
+            const rendered = renderPlatformTemplate(template, format, payload);
+            if (rendered) {
+              map.set(platform, rendered);
+            } else {
+              console.warn(`[notifications] Ignoring invalid ${format} template for ${platform} (${event})`);
+            }
+          } else {
             const resolved = interpolateTemplate(template, payload);
             if (resolved !== defaultMessage) {
               map.set(platform, resolved);
@@ -224,7 +296,7 @@ export async function notify(
 
     // Dispatch to all enabled platforms
     const result = await dispatchNotifications(
-      config, event, payload, platformMessages,
+      dispatchConfig, event, payload, platformMessages,
     );
 
     // NEW: Register message IDs for reply correlation
@@ -310,6 +382,11 @@ export {
 
 export {
   validateCustomIntegration,
+  validateMatrixConfig,
+  validateTeamsConfig,
+  validateNtfyConfig,
+  validateGotifyConfig,
+  validateEmailConfig,
   checkDuplicateIds,
   sanitizeArgument,
   type ValidationResult,
@@ -2,7 +2,8 @@
  * Token Redaction Utility
  *
  * Masks sensitive tokens in strings to prevent exposure in logs, error messages,
- * and persisted state. Covers Slack, Telegram, and generic Bearer/Bot tokens.
+ * and persisted state. Covers Slack, Telegram, Matrix, ntfy, Gotify, Teams
+ * webhook signatures, and generic Bearer/Bot/Basic credentials.
  *
  * @see https://github.com/Yeachan-Heo/oh-my-claudecode/issues/1162
  */
@@ -16,7 +17,11 @@
  * - Slack user/workspace tokens: xoxp-..., xoxa-...
  * - Telegram bot tokens in URL paths: /bot123456:ABC.../method
  * - Telegram bot tokens standalone: 123456789:AAF-abc123...
- * - Bearer and Bot authorization values
+ * - Matrix access tokens: syt_...
+ * - ntfy access tokens: tk_...
+ * - Gotify app tokens in X-Gotify-Key headers
+ * - Secrets in URL query strings: access_token=, token=, sig= (Teams Workflows URLs)
+ * - Bearer, Bot and Basic authorization values
  */
 export function redactTokens(input: string): string {
   return input
@@ -27,7 +32,16 @@ export function redactTokens(input: string): string {
     .replace(/\/bot(\d+):[A-Za-z0-9_-]+/g, '/bot$1:****')
     // Telegram bot tokens standalone: 123456789:AAHfoo-bar_Baz
     .replace(/\b(\d{8,12}):[A-Za-z0-9_-]{20,}\b/g, '$1:****')
-    // Bearer/Bot authorization values in error strings
+    // Matrix access tokens: syt_<user>_<random>_<crc>
+    .replace(/\b(syt_)[A-Za-z0-9_-]+/g, '$1****')
+    // ntfy access tokens: tk_...
+    .replace(/\b(tk_)[A-Za-z0-9]+/g, '$1****')
+    // Gotify app tokens sent as headers
+    .replace(/(X-Gotify-Key["']?\s*[:=]\s*["']?)[^\s"',}]+/gi, '$1****')
+    // Secrets in query strings (Matrix access_token, Gotify token, Teams Workflows sig)
+    .replace(/([?&](?:access_token|token|sig)=)[^&\s"']+/gi, '$1****')
+    // Bearer/Bot/Basic authorization values in error strings
     .replace(/(Bearer\s+)\S+/gi, '$1****')
-    .replace(/(Bot\s+)\S+/gi, '$1****');
+    .replace(/(Bot\s+)\S+/gi, '$1****')
+    .replace(/(Basic\s+)[A-Za-z0-9+/=]{8,}/g, '$1****');
 }
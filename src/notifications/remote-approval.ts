@@ -0,0 +1,261 @@
+/**
+ * Remote Approval
+ *
+ * Routes a permission prompt to the notification bots with Approve/Deny
+ * buttons (Slack blocks, Discord components, Telegram inline keyboard) and
+ * waits for the answer.
+ *
+ * Flow:
+ * 1. The PermissionRequest hook registers an approval request in the
+ *    session registry and sends a `permission-request` notification
+ * 2. The reply listener daemon receives the button press (or `/approve`,
+ *    `/deny` reply) and records the decision in the registry
+ * 3. The hook polls the registry until a decision arrives or the timeout
+ *    passes
+ *
+ * Button payloads carry `omc-approval:<approve|deny>:<id>`, short enough for
+ * Telegram's 64-byte callback_data limit.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  getApprovalRequest,
+  registerApprovalRequest,
+  removeApprovalRequest,
+  type ApprovalDecision,
+} from './session-registry.js';
+import { redactTokens } from './redact.js';
+import type { NotificationPlatform, RemoteApprovalConfig } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A decoded Approve/Deny button press */
+export interface ApprovalAction {
+  decision: ApprovalDecision;
+  id: string;
+}
+
+export type RemoteApprovalOutcome =
+  | { status: ApprovalDecision; decidedBy?: string }
+  | { status: 'timeout' }
+  | { status: 'unavailable'; reason: string };
+
+export interface RemoteApprovalRequest {
+  sessionId: string;
+  projectPath?: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ACTION_PREFIX = 'omc-approval';
+
+/** How often the waiting hook re-reads the registry */
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+
+/** Longest tool summary shown in chat (commands are never shortened) */
+const MAX_SUMMARY_LENGTH = 200;
+
+/**
+ * Longest command offered for remote approval. The whole command must fit
+ * in one message (Discord caps content at 2000 characters, including the
+ * header and footer); longer commands stay with the terminal prompt.
+ */
+const MAX_REMOTE_COMMAND_LENGTH = 1500;
+
+/** Slack section blocks accept at most 3000 characters */
+const SLACK_SECTION_MAX_LENGTH = 3000;
+
+/** Platforms that render buttons and report presses to the reply listener */
+const BUTTON_PLATFORMS: ReadonlySet<NotificationPlatform> = new Set(['discord-bot', 'telegram', 'slack-bot']);
+
+// ============================================================================
+// Button Payloads
+// ============================================================================
+
+/**
+ * Encode a button payload (Discord custom_id, Telegram callback_data, Slack value).
+ */
+export function encodeApprovalAction(action: ApprovalAction): string {
+  return `${ACTION_PREFIX}:${action.decision === 'approved' ? 'approve' : 'deny'}:${action.id}`;
+}
+
+/**
+ * Decode a button payload. Returns null for anything OMC did not create.
+ */
+export function parseApprovalAction(data: unknown): ApprovalAction | null {
+  if (typeof data !== 'string') return null;
+  const match = /^omc-approval:(approve|deny):([a-z0-9]{1,32})$/.exec(data);
+  if (!match) return null;
+  return { decision: match[1] === 'approve' ? 'approved' : 'denied', id: match[2] };
+}
+
+/** Slack Block Kit blocks: the message text followed by Approve/Deny buttons */
+export function buildSlackApprovalBlocks(text: string, id: string): Record<string, unknown>[] {
+  return [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: text.slice(0, SLACK_SECTION_MAX_LENGTH) },
+    },
+    {
+      type: 'actions',
+      block_id: ACTION_PREFIX,
+      elements: [
+        {
+          type: 'button',
+          action_id: `${ACTION_PREFIX}-approve`,
+          text: { type: 'plain_text', text: 'Approve' },
+          style: 'primary',
+          value: encodeApprovalAction({ decision: 'approved', id }),
+        },
+        {
+          type: 'button',
+          action_id: `${ACTION_PREFIX}-deny`,
+          text: { type: 'plain_text', text: 'Deny' },
+          style: 'danger',
+          value: encodeApprovalAction({ decision: 'denied', id }),
+        },
+      ],
+    },
+  ];
+}
+
+/** Discord message components: one action row with success/danger buttons */
+export function buildDiscordApprovalComponents(id: string): Record<string, unknown>[] {
+  return [
+    {
+      type: 1,
+      components: [
+        { type: 2, style: 3, label: 'Approve', custom_id: encodeApprovalAction({ decision: 'approved', id }) },
+        { type: 2, style: 4, label: 'Deny', custom_id: encodeApprovalAction({ decision: 'denied', id }) },
+      ],
+    },
+  ];
+}
+
+/** Telegram inline keyboard with Approve/Deny on one row */
+export function buildTelegramApprovalKeyboard(id: string): { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> } {
+  return {
+    inline_keyboard: [[
+      { text: 'Approve', callback_data: encodeApprovalAction({ decision: 'approved', id }) },
+      { text: 'Deny', callback_data: encodeApprovalAction({ decision: 'denied', id }) },
+    ]],
+  };
+}
+
+// ============================================================================
+// Requesting a Decision
+// ============================================================================
+
+/**
+ * Description of a tool call for the approval registry and chat message.
+ * Bash shows the complete command (the approver must see every line), file
+ * tools their path, anything else its JSON input, shortened. Tokens are
+ * redacted.
+ */
+export function summarizeToolInput(toolName: string, toolInput: Record<string, unknown>): string {
+  let summary: string;
+  const command = toolInput.command;
+  const filePath = toolInput.file_path ?? toolInput.notebook_path ?? toolInput.path;
+  if (typeof command === 'string' && command.trim()) {
+    return redactTokens(command.trim());
+  } else if (typeof filePath === 'string' && filePath) {
+    summary = filePath;
+  } else {
+    summary = JSON.stringify(toolInput) ?? toolName;
+  }
+
+  summary = redactTokens(summary);
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary;
+}
+
+/**
+ * Chat rendering of a summary: multi-line commands go in a code block so
+ * each line shows as written. Returns null when a command cannot be shown
+ * in full.
+ */
+function formatSummaryForChat(toolInput: Record<string, unknown>, summary: string): string | null {
+  if (typeof toolInput.command !== 'string') return summary;
+  if (summary.length > MAX_REMOTE_COMMAND_LENGTH || summary.includes('```')) return null;
+  return summary.includes('\n') ? `\`\`\`\n${summary}\n\`\`\`` : summary;
+}
+
+/**
+ * Send a permission prompt to chat and wait for Approve/Deny.
+ *
+ * Resolves with:
+ * - approved/denied once someone answered
+ * - timeout when `config.timeoutSeconds` passed without an answer
+ * - unavailable when the reply listener is not running, the command is too
+ *   long to show in full, or no bot platform accepted the message (nobody
+ *   could answer)
+ */
+export async function requestRemoteApproval(
+  request: RemoteApprovalRequest,
+  config: RemoteApprovalConfig,
+  pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS,
+): Promise<RemoteApprovalOutcome> {
+  const { isDaemonRunning } = await import('./reply-listener.js');
+  if (!isDaemonRunning()) {
+    return { status: 'unavailable', reason: 'Reply listener is not running' };
+  }
+
+  const summary = summarizeToolInput(request.toolName, request.toolInput);
+  const toolSummary = formatSummaryForChat(request.toolInput, summary);
+  if (toolSummary === null) {
+    return { status: 'unavailable', reason: 'Command is too long to show in full in chat' };
+  }
+
+  const id = randomBytes(4).toString('hex');
+  const createdAt = Date.now();
+  const deadline = createdAt + config.timeoutSeconds * 1000;
+  registerApprovalRequest({
+    id,
+    sessionId: request.sessionId,
+    toolName: request.toolName,
+    summary,
+    createdAt: new Date(createdAt).toISOString(),
+    expiresAt: new Date(deadline).toISOString(),
+    status: 'pending',
+    projectPath: request.projectPath,
+  });
+
+  try {
+    const { notify } = await import('./index.js');
+    const result = await notify('permission-request', {
+      sessionId: request.sessionId,
+      projectPath: request.projectPath,
+      toolName: request.toolName,
+      toolSummary,
+      approvalId: id,
+    });
+    if (!result?.results.some((r) => r.success && BUTTON_PLATFORMS.has(r.platform))) {
+      return { status: 'unavailable', reason: 'No bot platform delivered the approval request' };
+    }
+
+    while (Date.now() < deadline) {
+      const current = getApprovalRequest(id);
+      if (!current) {
+        return { status: 'unavailable', reason: 'Approval request disappeared from the registry' };
+      }
+      if (current.status !== 'pending') {
+        return { status: current.status, decidedBy: current.decidedBy };
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0))));
+    }
+
+    // A decision can land between the last read and the deadline
+    const last = getApprovalRequest(id);
+    if (last && last.status !== 'pending') {
+      return { status: last.status, decidedBy: last.decidedBy };
+    }
+    return { status: 'timeout' };
+  } finally {
+    removeApprovalRequest(id);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Reply Commands
+ *
+ * Slash-style commands sent from Discord, Telegram or Slack (`/status`,
+ * `/cancel`, `/approve`, `/tasks`, `/logs 50`). The reply listener answers
+ * them in-thread instead of injecting the text into the tmux pane.
+ *
+ * Only known command names are intercepted; any other `/...` text (such as
+ * `/oh-my-claudecode:cancel`) is still injected as a normal reply.
+ *
+ * Authorization:
+ * - Read-only commands (help, status, tasks, logs) are available to anyone
+ *   already allowed to reply on the platform
+ * - Control commands (cancel, approve, deny) additionally require the sender
+ *   to be listed in the platform's authorized user IDs
+ *
+ * Approve/Deny buttons on permission prompts (see remote-approval.ts) are
+ * applied by executeApprovalAction() under the same rules.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import {
+  clearModeState,
+  getActiveModes,
+  getStateFilePath,
+  MODE_CONFIGS,
+  type ExecutionMode,
+} from '../hooks/mode-registry/index.js';
+import { resolveSessionStatePath } from '../lib/worktree-paths.js';
+import { atomicWriteJsonSync } from '../lib/atomic-write.js';
+import { capturePaneContent } from '../features/rate-limit-wait/tmux-detector.js';
+import {
+  getApprovalRequest,
+  listPendingApprovals,
+  resolveApprovalRequest,
+  type ApprovalRequest,
+  type SessionMapping,
+} from './session-registry.js';
+import { redactTokens } from './redact.js';
+import type { ApprovalAction } from './remote-approval.js';
+import type { ReplyConfig } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REPLY_COMMANDS = ['help', 'status', 'cancel', 'approve', 'deny', 'tasks', 'logs'] as const;
+export type ReplyCommandName = typeof REPLY_COMMANDS[number];
+
+/** Commands that change session state and need an explicitly authorized user */
+const CONTROL_COMMANDS: ReadonlySet<ReplyCommandName> = new Set(['cancel', 'approve', 'deny']);
+
+export type ReplyCommandPlatform = 'discord' | 'telegram' | 'slack';
+
+export interface ParsedReplyCommand {
+  name: ReplyCommandName;
+  args: string[];
+}
+
+/** Per-platform user allowlists consulted for control commands */
+type AuthorizedUsers = Pick<ReplyConfig, 'authorizedDiscordUserIds' | 'authorizedTelegramUserIds' | 'authorizedSlackUserIds'>;
+
+export interface ReplyCommandContext {
+  platform: ReplyCommandPlatform;
+  /** Platform user ID of the sender */
+  userId: string;
+  /** Session the command targets (replied-to message, or most recent session) */
+  mapping: SessionMapping | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default and maximum pane lines returned by /logs */
+const DEFAULT_LOG_LINES = 30;
+const MAX_LOG_LINES = 200;
+
+/** Keep answers under the smallest platform message limit (Discord: 2000) */
+const MAX_RESPONSE_LENGTH = 1900;
+
+/** Same window the state_clear tool uses for its cancel signal */
+const CANCEL_SIGNAL_TTL_MS = 30_000;
+
+const HELP_TEXT = [
+  'Commands:',
+  '/status - active modes for the session',
+  '/tasks - team task progress',
+  '/logs [lines] - recent pane output (default 30)',
+  '/cancel [mode] - cancel active modes',
+  '/approve [id] - approve a pending permission request',
+  '/deny [id] - deny a pending permission request',
+].join('\n');
+
+// ============================================================================
+// Parsing and Authorization
+// ============================================================================
+
+/**
+ * Parse a reply as a command. Returns null for ordinary text and for
+ * unknown `/...` names, which are injected as usual.
+ * Accepts Telegram's `/status@my_bot` form.
+ */
+export function parseReplyCommand(text: string): ParsedReplyCommand | null {
+  const match = /^\/([a-z]+)(?:@[\w.]+)?(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  if (!(REPLY_COMMANDS as readonly string[]).includes(name)) return null;
+
+  const args = (match[2] ?? '').split(/\s+/).filter(Boolean);
+  return { name: name as ReplyCommandName, args };
+}
+
+/**
+ * Check whether a user may run a command.
+ * Discord replies are already limited to authorizedDiscordUserIds by the listener.
+ */
+export function isReplyCommandAuthorized(
+  command: ParsedReplyCommand,
+  platform: ReplyCommandPlatform,
+  userId: string,
+  config: AuthorizedUsers,
+): boolean {
+  if (!CONTROL_COMMANDS.has(command.name)) return true;
+
+  const allowed = platform === 'discord'
+    ? config.authorizedDiscordUserIds
+    : platform === 'telegram'
+      ? config.authorizedTelegramUserIds
+      : config.authorizedSlackUserIds;
+  return allowed.includes(userId);
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+function truncateResponse(text: string): string {
+  return text.length > MAX_RESPONSE_LENGTH ? `${text.slice(0, MAX_RESPONSE_LENGTH - 3)}...` : text;
+}
+
+function sessionLabel(mapping: SessionMapping): string {
+  const project = mapping.projectPath ? ` (${basename(mapping.projectPath)})` : '';
+  return `${mapping.sessionId}${project}`;
+}
+
+function readModeState(projectPath: string, mode: ExecutionMode, sessionId?: string): Record<string, unknown> | null {
+  const statePath = getStateFilePath(projectPath, mode, sessionId);
+  if (!existsSync(statePath)) return null;
+  try {
+    return JSON.parse(readFileSync(statePath, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** One-line progress detail for a mode, from the fields its state file commonly carries */
+function describeModeState(state: Record<string, unknown> | null): string {
+  if (!state) return '';
+  const details: string[] = [];
+  if (typeof state.iteration === 'number') {
+    details.push(typeof state.max_iterations === 'number'
+      ? `iteration ${state.iteration}/${state.max_iterations}`
+      : `iteration ${state.iteration}`);
+  }
+  const phase = state.current_phase ?? state.phase ?? state.stage;
+  if (typeof phase === 'string') details.push(`phase ${phase}`);
+  return details.length > 0 ? ` - ${details.join(', ')}` : '';
+}
+
+function commandStatus(mapping: SessionMapping, projectPath: string): string {
+  const modes = getActiveModes(projectPath, mapping.sessionId);
+  const lines = [`Session ${sessionLabel(mapping)}`, `Last event: ${mapping.event}`];
+  if (modes.length === 0) {
+    lines.push('No active modes.');
+  } else {
+    lines.push('Active modes:');
+    for (const mode of modes) {
+      lines.push(`- ${MODE_CONFIGS[mode].name}${describeModeState(readModeState(projectPath, mode, mapping.sessionId))}`);
+    }
+  }
+  const pending = listPendingApprovals(mapping.sessionId);
+  if (pending.length > 0) {
+    lines.push(`Pending approvals: ${pending.length} (/approve or /deny)`);
+  }
+  return lines.join('\n');
+}
+
+function commandCancel(mapping: SessionMapping, projectPath: string, args: string[]): string {
+  const active = getActiveModes(projectPath, mapping.sessionId);
+  let modes: ExecutionMode[];
+  if (args[0]) {
+    const requested = args[0].toLowerCase() as ExecutionMode;
+    if (!MODE_CONFIGS[requested]) {
+      return `Unknown mode "${args[0]}". Modes: ${Object.keys(MODE_CONFIGS).join(', ')}`;
+    }
+    if (!active.includes(requested)) {
+      return `${MODE_CONFIGS[requested].name} is not active in session ${sessionLabel(mapping)}.`;
+    }
+    modes = [requested];
+  } else {
+    modes = active;
+  }
+
+  if (modes.length === 0) {
+    return `No active modes to cancel in session ${sessionLabel(mapping)}.`;
+  }
+
+  // Same signal state_clear writes, so the stop hook does not re-enforce the mode
+  const now = Date.now();
+  atomicWriteJsonSync(resolveSessionStatePath('cancel-signal', mapping.sessionId, projectPath), {
+    active: true,
+    requested_at: new Date(now).toISOString(),
+    expires_at: new Date(now + CANCEL_SIGNAL_TTL_MS).toISOString(),
+    mode: modes.join(','),
+    source: 'reply-command',
+  });
+
+  const failed = modes.filter((mode) => !clearModeState(mode, projectPath, mapping.sessionId));
+  const names = modes.map((mode) => MODE_CONFIGS[mode].name).join(', ');
+  if (failed.length > 0) {
+    return `Cancelled ${names}, but some state files for ${failed.join(', ')} could not be removed.`;
+  }
+  return `Cancelled ${names} in session ${sessionLabel(mapping)}.`;
+}
+
+function describeApproval(request: ApprovalRequest): string {
+  return `${request.id}: ${request.toolName} - ${request.summary}`;
+}
+
+function commandDecide(
+  mapping: SessionMapping,
+  context: ReplyCommandContext,
+  decision: 'approved' | 'denied',
+  args: string[],
+): string {
+  const pending = listPendingApprovals(mapping.sessionId);
+  if (pending.length === 0) {
+    return `No pending permission requests in session ${sessionLabel(mapping)}.`;
+  }
+
+  let target: ApprovalRequest | undefined;
+  if (args[0]) {
+    target = pending.find((request) => request.id === args[0]);
+    if (!target) return `No pending permission request with ID "${args[0]}".`;
+  } else if (pending.length === 1) {
+    target = pending[0];
+  } else {
+    const verb = decision === 'approved' ? '/approve' : '/deny';
+    return [`Several requests are pending; use ${verb} <id>:`, ...pending.map(describeApproval)].join('\n');
+  }
+
+  const resolved = resolveApprovalRequest(target.id, decision, `${context.platform}:${context.userId}`);
+  if (!resolved) {
+    return `Permission request ${target.id} was already decided or has expired.`;
+  }
+  return `${decision === 'approved' ? 'Approved' : 'Denied'} ${describeApproval(resolved)}`;
+}
+
+/**
+ * Apply an Approve/Deny button press. The button carries the request ID, so no
+ * session mapping is needed. `settled` is true when the buttons can be removed
+ * (decided now, earlier, or expired).
+ */
+export function executeApprovalAction(
+  action: ApprovalAction,
+  platform: ReplyCommandPlatform,
+  userId: string,
+  config: AuthorizedUsers,
+): { text: string; settled: boolean } {
+  const name = action.decision === 'approved' ? 'approve' : 'deny';
+  if (!isReplyCommandAuthorized({ name, args: [] }, platform, userId, config)) {
+    return { text: `Not authorized to ${name} permission requests.`, settled: false };
+  }
+
+  const resolved = resolveApprovalRequest(action.id, action.decision, `${platform}:${userId}`);
+  if (!resolved) {
+    const existing = getApprovalRequest(action.id);
+    const text = existing && existing.status !== 'pending'
+      ? `Permission request ${action.id} was already ${existing.status}${existing.decidedBy ? ` by ${existing.decidedBy}` : ''}.`
+      : `Permission request ${action.id} has expired.`;
+    return { text, settled: true };
+  }
+  return {
+    text: `${action.decision === 'approved' ? 'Approved' : 'Denied'} ${describeApproval(resolved)}`,
+    settled: true,
+  };
+}
+
+function readTeamName(projectPath: string, sessionId: string): string | null {
+  const state = readModeState(projectPath, 'team', sessionId) ?? readModeState(projectPath, 'team');
+  const name = state?.team_name ?? state?.teamName;
+  return typeof name === 'string' && name ? name : null;
+}
+
+async function commandTasks(mapping: SessionMapping, projectPath: string): Promise<string> {
+  const teamName = readTeamName(projectPath, mapping.sessionId);
+  if (!teamName) {
+    return `No active team in session ${sessionLabel(mapping)}.`;
+  }
+
+  const { teamGetSummary, teamListTasks } = await import('../team/team-ops.js');
+  const summary = await teamGetSummary(teamName, projectPath);
+  if (!summary) {
+    return `Team "${teamName}" has no config yet.`;
+  }
+
+  const { tasks: counts } = summary;
+  const lines = [
+    `Team ${teamName}: ${counts.completed}/${counts.total} tasks completed`,
+    `In progress: ${counts.in_progress}, pending: ${counts.pending}, blocked: ${counts.blocked}, failed: ${counts.failed}`,
+    `Workers: ${summary.workers.filter((w) => w.alive).length}/${summary.workerCount} alive`,
+  ];
+
+  const active = (await teamListTasks(teamName, projectPath)).filter((task) => task.status === 'in_progress');
+  for (const task of active) {
+    lines.push(`- #${task.id} ${task.subject}${task.owner ? ` (${task.owner})` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+function commandLogs(mapping: SessionMapping, args: string[]): string {
+  const requested = args[0] ? parseInt(args[0], 10) : DEFAULT_LOG_LINES;
+  const lines = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_LOG_LINES) : DEFAULT_LOG_LINES;
+  const content = redactTokens(capturePaneContent(mapping.tmuxPaneId, lines)).trimEnd();
+  if (!content.trim()) {
+    return `Pane ${mapping.tmuxPaneId} is empty or no longer exists.`;
+  }
+  // Keep the newest output when it does not fit
+  const budget = MAX_RESPONSE_LENGTH - 8;
+  const tail = content.length > budget ? content.slice(content.length - budget) : content;
+  return `\`\`\`\n${tail.replace(/```/g, "'''")}\n\`\`\``;
+}
+
+/**
+ * Run a parsed command and return the text to answer with.
+ * Never throws; failures are reported in the answer.
+ */
+export async function executeReplyCommand(
+  command: ParsedReplyCommand,
+  context: ReplyCommandContext,
+): Promise<string> {
+  if (command.name === 'help') return HELP_TEXT;
+
+  const { mapping } = context;
+  if (!mapping) {
+    return 'No OMC session found. Reply to a notification to target its session.';
+  }
+
+  if (command.name === 'logs') return commandLogs(mapping, command.args);
+
+  const projectPath = mapping.projectPath;
+  if (!projectPath) {
+    return `Session ${mapping.sessionId} has no project path recorded.`;
+  }
+
+  try {
+    switch (command.name) {
+      case 'status':
+        return truncateResponse(commandStatus(mapping, projectPath));
+      case 'cancel':
+        return commandCancel(mapping, projectPath, command.args);
+      case 'approve':
+        return truncateResponse(commandDecide(mapping, context, 'approved', command.args));
+      case 'deny':
+        return truncateResponse(commandDecide(mapping, context, 'denied', command.args));
+      case 'tasks':
+        return truncateResponse(await commandTasks(mapping, projectPath));
+    }
+  } catch (error) {
+    return `/${command.name} failed: ${redactTokens(error instanceof Error ? error.message : String(error))}`;
+  }
+}
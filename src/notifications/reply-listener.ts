@@ -5,12 +5,18 @@
  * listens for Slack messages via Socket Mode, sanitizes input, verifies the target pane,
  * and injects reply text via sendToPane().
  *
+ * Replies that are known commands (/status, /cancel, /approve, /tasks, /logs, ...) are
+ * executed by reply-commands.ts and answered in-thread instead of being injected.
+ * Approve/Deny buttons on permission prompts arrive as Telegram callback queries,
+ * Slack block actions and (over the Discord Gateway) Discord component interactions.
+ *
  * Security considerations:
  * - State/PID/log files use restrictive permissions (0600)
  * - Bot tokens stored in state file, NOT in environment variables
  * - Two-layer input sanitization (sanitizeReplyInput + sanitizeForTmux)
  * - Pane verification via empty-content check before every injection
  * - Authorization: only configured user IDs (Discord) / chat ID (Telegram) can inject
+ * - Control commands (/cancel, /approve, /deny) require an authorized user ID on every platform
  * - Rate limiting to prevent spam/abuse
  *
  * Follows the daemon pattern from src/features/rate-limit-wait/daemon.ts
@@ -34,6 +40,7 @@ import {
   removeMessagesByPane,
   pruneStale,
 } from './session-registry.js';
+import type { SessionMapping } from './session-registry.js';
 import type { ReplyConfig } from './types.js';
 import { parseMentionAllowedMentions } from './config.js';
 import { redactTokens } from './redact.js';
@@ -42,6 +49,16 @@ import {
   SlackConnectionStateTracker,
   type SlackValidationResult,
 } from './slack-socket.js';
+import {
+  executeApprovalAction,
+  executeReplyCommand,
+  isReplyCommandAuthorized,
+  parseReplyCommand,
+  type ParsedReplyCommand,
+  type ReplyCommandContext,
+  type ReplyCommandPlatform,
+} from './reply-commands.js';
+import { parseApprovalAction, type ApprovalAction } from './remote-approval.js';
 
 // ESM compatibility: __filename is not available in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -89,6 +106,8 @@ export interface ReplyListenerState {
   telegramLastUpdateId: number | null;
   discordLastMessageId: string | null;
   messagesInjected: number;
+  /** Reply commands answered (missing in state files from older versions) */
+  commandsExecuted?: number;
   errors: number;
   lastError?: string;
 }
@@ -110,6 +129,8 @@ export interface ReplyListenerDaemonConfig extends ReplyConfig {
   slackChannelId?: string;
   /** Slack signing secret for verifying incoming WebSocket messages */
   slackSigningSecret?: string;
+  /** Remote approval is enabled: listen for Approve/Deny button presses */
+  remoteApproval?: boolean;
 }
 
 /** Response from daemon operations */
@@ -233,12 +254,17 @@ function writeDaemonState(state: ReplyListenerState): void {
  */
 export async function buildDaemonConfig(): Promise<ReplyListenerDaemonConfig | null> {
   try {
-    const { getReplyConfig, getNotificationConfig, getReplyListenerPlatformConfig } = await import('./config.js');
+    const {
+      getReplyConfig,
+      getNotificationConfig,
+      getReplyListenerPlatformConfig,
+      getRemoteApprovalConfig,
+    } = await import('./config.js');
     const replyConfig = getReplyConfig();
     if (!replyConfig) return null;
     const notifConfig = getNotificationConfig();
     const platformConfig = getReplyListenerPlatformConfig(notifConfig);
-    return { ...replyConfig, ...platformConfig };
+    return { ...replyConfig, ...platformConfig, remoteApproval: !!getRemoteApprovalConfig() };
   } catch {
     return null;
   }
@@ -404,6 +430,68 @@ function injectReply(
   return success;
 }
 
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Most recently registered session, used when a command is not a reply to a
+ * notification.
+ */
+function findLatestMapping(): SessionMapping | null {
+  const mappings = loadAllMappings();
+  return mappings.length > 0 ? mappings[mappings.length - 1] : null;
+}
+
+/**
+ * Authorize and execute a reply command, then answer via `respond`.
+ * Never touches the tmux pane.
+ */
+async function runReplyCommand(
+  command: ParsedReplyCommand,
+  context: ReplyCommandContext,
+  config: ReplyListenerDaemonConfig,
+  state: ReplyListenerState,
+  respond: (text: string) => Promise<void>,
+): Promise<void> {
+  let answer: string;
+  if (!isReplyCommandAuthorized(command, context.platform, context.userId, config)) {
+    log(`REJECTED /${command.name} from unauthorized ${context.platform} user ${context.userId}`);
+    answer = `Not authorized to run /${command.name}.`;
+  } else {
+    answer = await executeReplyCommand(command, context);
+    state.commandsExecuted = (state.commandsExecuted ?? 0) + 1;
+    log(`Ran /${command.name} from ${context.platform} user ${context.userId}`);
+  }
+
+  try {
+    await respond(answer);
+  } catch (e) {
+    log(`WARN: Failed to answer /${command.name}: ${e}`);
+  }
+}
+
+/**
+ * Apply an Approve/Deny button press and log the outcome.
+ */
+function runApprovalAction(
+  action: ApprovalAction,
+  platform: ReplyCommandPlatform,
+  userId: string,
+  config: ReplyListenerDaemonConfig,
+  state: ReplyListenerState,
+): { text: string; settled: boolean } {
+  const result = executeApprovalAction(action, platform, userId, config);
+  if (!result.settled) {
+    log(`REJECTED ${action.decision} button for ${action.id} from unauthorized ${platform} user ${userId}`);
+  } else {
+    state.commandsExecuted = (state.commandsExecuted ?? 0) + 1;
+    writeDaemonState(state);
+    log(`Button press on ${action.id} from ${platform} user ${userId}: ${result.text}`);
+  }
+  return result;
+}
+
 // ============================================================================
 // Discord Polling
 // ============================================================================
@@ -411,6 +499,36 @@ function injectReply(
 /** Track when to back off Discord polling due to rate limits */
 let discordBackoffUntil = 0;
 
+/**
+ * Post a reply to a Discord message in the configured channel.
+ * The configured mention is prepended to the content.
+ */
+async function sendDiscordReply(
+  config: ReplyListenerDaemonConfig,
+  body: { content: string; message_reference: { message_id: string } },
+): Promise<void> {
+  const mentionPrefix = config.discordMention ? `${config.discordMention} ` : '';
+  const allowedMentions = config.discordMention
+    ? parseMentionAllowedMentions(config.discordMention)
+    : { parse: [] as string[] };
+  await fetch(
+    `https://discord.com/api/v10/channels/${config.discordChannelId}/messages`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bot ${config.discordBotToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...body,
+        content: `${mentionPrefix}${body.content}`,
+        allowed_mentions: allowedMentions,
+      }),
+      signal: AbortSignal.timeout(5000),
+    }
+  );
+}
+
 /**
  * Poll Discord for new replies and inject them.
  */
@@ -472,8 +590,11 @@ async function pollDiscord(
     const sorted = [...messages].reverse();
 
     for (const msg of sorted) {
+      // Commands are accepted with or without a reply reference
+      const command = config.commandsEnabled ? parseReplyCommand(msg.content) : null;
+
       // Filter: message has message_reference (it's a reply)
-      if (!msg.message_reference?.message_id) {
+      if (!msg.message_reference?.message_id && !command) {
         // Still advance the offset
         state.discordLastMessageId = msg.id;
         writeDaemonState(state);
@@ -488,8 +609,9 @@ async function pollDiscord(
       }
 
       // Filter: referenced message exists in session registry
-      const mapping = lookupByMessageId('discord-bot', msg.message_reference.message_id);
-      if (!mapping) {
+      const referencedId = msg.message_reference?.message_id;
+      const mapping = referencedId ? lookupByMessageId('discord-bot', referencedId) : findLatestMapping();
+      if (!mapping && !command) {
         state.discordLastMessageId = msg.id;
         writeDaemonState(state);
         continue;
@@ -508,8 +630,19 @@ async function pollDiscord(
       state.discordLastMessageId = msg.id;
       writeDaemonState(state);
 
+      if (command) {
+        await runReplyCommand(
+          command,
+          { platform: 'discord', userId: msg.author.id, mapping },
+          config,
+          state,
+          (content) => sendDiscordReply(config, { content, message_reference: { message_id: msg.id } }),
+        );
+        continue;
+      }
+
       // Inject reply
-      const success = injectReply(mapping.tmuxPaneId, msg.content, 'discord', config);
+      const success = injectReply(mapping!.tmuxPaneId, msg.content, 'discord', config);
       if (success) {
         state.messagesInjected++;
 
@@ -529,26 +662,10 @@ async function pollDiscord(
 
         // Send injection notification to channel (non-critical)
         try {
-          const mentionPrefix = config.discordMention ? `${config.discordMention} ` : '';
-          const feedbackAllowedMentions = config.discordMention
-            ? parseMentionAllowedMentions(config.discordMention)
-            : { parse: [] as string[] };
-          await fetch(
-            `https://discord.com/api/v10/channels/${config.discordChannelId}/messages`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bot ${config.discordBotToken}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                content: `${mentionPrefix}Injected into Claude Code session.`,
-                message_reference: { message_id: msg.id },
-                allowed_mentions: feedbackAllowedMentions,
-              }),
-              signal: AbortSignal.timeout(5000),
-            }
-          );
+          await sendDiscordReply(config, {
+            content: 'Injected into Claude Code session.',
+            message_reference: { message_id: msg.id },
+          });
         } catch (e) {
           log(`WARN: Failed to send injection channel notification: ${e}`);
         }
@@ -568,6 +685,94 @@ async function pollDiscord(
 // Telegram Polling
 // ============================================================================
 
+/**
+ * Call a Telegram Bot API method in the configured chat.
+ * Best-effort: resolves on network errors and timeouts.
+ */
+function callTelegramApi(
+  config: ReplyListenerDaemonConfig,
+  method: string,
+  body: Record<string, unknown>,
+): Promise<void> {
+  const replyBody = JSON.stringify({
+    chat_id: config.telegramChatId,
+    ...body,
+  });
+
+  return new Promise<void>((resolve) => {
+    const replyReq = httpsRequest(
+      {
+        hostname: 'api.telegram.org',
+        path: `/bot${config.telegramBotToken}/${method}`,
+        method: 'POST',
+        family: 4,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(replyBody),
+        },
+        timeout: 5000,
+      },
+      (res) => {
+        res.resume(); // Drain response
+        resolve();
+      }
+    );
+
+    replyReq.on('error', () => resolve());
+    replyReq.on('timeout', () => {
+      replyReq.destroy();
+      resolve();
+    });
+
+    replyReq.write(replyBody);
+    replyReq.end();
+  });
+}
+
+/**
+ * Send a reply to a Telegram message in the configured chat.
+ */
+function sendTelegramReply(
+  config: ReplyListenerDaemonConfig,
+  body: { text: string; reply_to_message_id: number },
+): Promise<void> {
+  return callTelegramApi(config, 'sendMessage', body);
+}
+
+/**
+ * Answer an Approve/Deny press from an inline keyboard. Once the request is
+ * settled the keyboard is removed and the outcome is posted as a reply.
+ */
+async function handleTelegramCallbackQuery(
+  config: ReplyListenerDaemonConfig,
+  state: ReplyListenerState,
+  query: {
+    id: string;
+    from?: { id?: number };
+    data?: string;
+    message?: { message_id: number; chat?: { id?: number | string } };
+  },
+): Promise<void> {
+  const action = parseApprovalAction(query.data);
+  const message = query.message;
+  if (!action || !message || String(message.chat?.id) !== config.telegramChatId) {
+    return;
+  }
+
+  const result = runApprovalAction(action, 'telegram', String(query.from?.id ?? ''), config, state);
+  await callTelegramApi(config, 'answerCallbackQuery', {
+    callback_query_id: query.id,
+    text: result.text.slice(0, 200),
+  });
+  if (result.settled) {
+    await callTelegramApi(config, 'editMessageReplyMarkup', {
+      message_id: message.message_id,
+      reply_markup: { inline_keyboard: [] },
+    });
+    await sendTelegramReply(config, { text: result.text, reply_to_message_id: message.message_id });
+  }
+}
+
 /**
  * Poll Telegram for new replies and inject them.
  * Uses httpsRequest with family:4 to match sendTelegram() pattern.
@@ -622,6 +827,19 @@ async function pollTelegram(
     });
 
     for (const update of updates) {
+      // Approve/Deny buttons on permission prompts
+      if (update.callback_query) {
+        state.telegramLastUpdateId = update.update_id;
+        writeDaemonState(state);
+        if (rateLimiter.canProceed()) {
+          await handleTelegramCallbackQuery(config, state, update.callback_query);
+        } else {
+          log(`WARN: Rate limit exceeded, dropping Telegram button press ${update.callback_query.id}`);
+          state.errors++;
+        }
+        continue;
+      }
+
       const msg = update.message;
       if (!msg) {
         // Always advance offset even for non-message updates
@@ -630,8 +848,12 @@ async function pollTelegram(
         continue;
       }
 
+      // Commands are accepted with or without reply_to_message
+      const text = msg.text || '';
+      const command = config.commandsEnabled ? parseReplyCommand(text) : null;
+
       // Filter: message has reply_to_message
-      if (!msg.reply_to_message?.message_id) {
+      if (!msg.reply_to_message?.message_id && !command) {
         state.telegramLastUpdateId = update.update_id;
         writeDaemonState(state);
         continue;
@@ -645,14 +867,15 @@ async function pollTelegram(
       }
 
       // Filter: referenced message exists in session registry
-      const mapping = lookupByMessageId('telegram', String(msg.reply_to_message.message_id));
-      if (!mapping) {
+      const mapping = msg.reply_to_message?.message_id
+        ? lookupByMessageId('telegram', String(msg.reply_to_message.message_id))
+        : findLatestMapping();
+      if (!mapping && !command) {
         state.telegramLastUpdateId = update.update_id;
         writeDaemonState(state);
         continue;
       }
 
-      const text = msg.text || '';
       if (!text) {
         state.telegramLastUpdateId = update.update_id;
         writeDaemonState(state);
@@ -672,47 +895,28 @@ async function pollTelegram(
       state.telegramLastUpdateId = update.update_id;
       writeDaemonState(state);
 
+      if (command) {
+        await runReplyCommand(
+          command,
+          { platform: 'telegram', userId: String(msg.from?.id ?? ''), mapping },
+          config,
+          state,
+          (text) => sendTelegramReply(config, { text, reply_to_message_id: msg.message_id }),
+        );
+        continue;
+      }
+
       // Inject reply
-      const success = injectReply(mapping.tmuxPaneId, text, 'telegram', config);
+      const success = injectReply(mapping!.tmuxPaneId, text, 'telegram', config);
       if (success) {
         state.messagesInjected++;
 
         // Send confirmation reply (non-critical)
         try {
-          const replyBody = JSON.stringify({
-            chat_id: config.telegramChatId,
+          await sendTelegramReply(config, {
             text: 'Injected into Claude Code session.',
             reply_to_message_id: msg.message_id,
           });
-
-          await new Promise<void>((resolve) => {
-            const replyReq = httpsRequest(
-              {
-                hostname: 'api.telegram.org',
-                path: `/bot${config.telegramBotToken}/sendMessage`,
-                method: 'POST',
-                family: 4,
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Content-Length': Buffer.byteLength(replyBody),
-                },
-                timeout: 5000,
-              },
-              (res) => {
-                res.resume(); // Drain response
-                resolve();
-              }
-            );
-
-            replyReq.on('error', () => resolve());
-            replyReq.on('timeout', () => {
-              replyReq.destroy();
-              resolve();
-            });
-
-            replyReq.write(replyBody);
-            replyReq.end();
-          });
         } catch (e) {
           log(`WARN: Failed to send confirmation reply: ${e}`);
         }
@@ -735,6 +939,9 @@ async function pollTelegram(
 /** Prune stale registry entries every hour */
 const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
+/** Interval for sending due notification digests and idle reminders */
+const DELIVERY_FLUSH_INTERVAL_MS = 60 * 1000;
+
 /**
  * Main daemon polling loop
  */
@@ -763,6 +970,7 @@ async function pollLoop(): Promise<void> {
 
   const rateLimiter = new RateLimiter(config.rateLimitPerMinute);
   let lastPruneAt = Date.now();
+  let lastDeliveryFlushAt = 0;
 
   // Start Slack Socket Mode listener if configured
   let slackSocket: import('./slack-socket.js').SlackSocketClient | null = null;
@@ -771,7 +979,7 @@ async function pollLoop(): Promise<void> {
       log('WARN: WebSocket not available (requires Node 20.10+), Slack Socket Mode disabled');
     } else {
       try {
-        const { SlackSocketClient, addSlackReaction } = await import('./slack-socket.js');
+        const { SlackSocketClient, addSlackReaction, replySlackThread, updateSlackMessage } = await import('./slack-socket.js');
         const slackChannelId = config.slackChannelId;
         const slackBotToken = config.slackBotToken;
 
@@ -789,25 +997,33 @@ async function pollLoop(): Promise<void> {
               return;
             }
 
-            // Find target pane for injection
-            let targetPaneId: string | null = null;
+            // Find target session
+            let mapping: SessionMapping | null = null;
 
             // Thread replies: look up parent message in session registry
             if (event.thread_ts && event.thread_ts !== event.ts) {
-              const mapping = lookupByMessageId('slack-bot', event.thread_ts);
-              if (mapping) {
-                targetPaneId = mapping.tmuxPaneId;
-              }
+              mapping = lookupByMessageId('slack-bot', event.thread_ts);
             }
 
-            // No thread match: use most recent registered pane
-            if (!targetPaneId) {
-              const mappings = loadAllMappings();
-              if (mappings.length > 0) {
-                targetPaneId = mappings[mappings.length - 1].tmuxPaneId;
-              }
+            // No thread match: use most recent registered session
+            if (!mapping) {
+              mapping = findLatestMapping();
+            }
+
+            const command = config.commandsEnabled ? parseReplyCommand(event.text) : null;
+            if (command) {
+              await runReplyCommand(
+                command,
+                { platform: 'slack', userId: event.user, mapping },
+                config,
+                state,
+                (answer) => replySlackThread(slackBotToken, slackChannelId, event.thread_ts ?? event.ts, answer),
+              );
+              writeDaemonState(state);
+              return;
             }
 
+            const targetPaneId = mapping?.tmuxPaneId ?? null;
             if (!targetPaneId) {
               log('WARN: No target pane found for Slack message, skipping');
               return;
@@ -831,6 +1047,23 @@ async function pollLoop(): Promise<void> {
             }
           },
           log,
+          async (press) => {
+            const action = parseApprovalAction(press.value);
+            if (!action) return;
+            if (!rateLimiter.canProceed()) {
+              log(`WARN: Rate limit exceeded, dropping Slack button press on ${press.messageTs}`);
+              state.errors++;
+              return;
+            }
+
+            const result = runApprovalAction(action, 'slack', press.user, config, state);
+            if (result.settled) {
+              const original = press.messageText ? `${press.messageText}\n\n` : '';
+              await updateSlackMessage(slackBotToken, slackChannelId, press.messageTs, `${original}${result.text}`);
+            } else {
+              await replySlackThread(slackBotToken, slackChannelId, press.messageTs, result.text);
+            }
+          },
         );
 
         await slackSocket.start();
@@ -842,6 +1075,38 @@ async function pollLoop(): Promise<void> {
     }
   }
 
+  // Discord button presses arrive over the Gateway; only needed for remote approval
+  let discordGateway: import('./discord-gateway.js').DiscordGatewayClient | null = null;
+  if (
+    config.remoteApproval &&
+    config.discordBotToken &&
+    config.discordChannelId &&
+    config.authorizedDiscordUserIds.length > 0
+  ) {
+    const { DiscordGatewayClient, respondToDiscordInteraction } = await import('./discord-gateway.js');
+    discordGateway = new DiscordGatewayClient(
+      { botToken: config.discordBotToken, channelId: config.discordChannelId },
+      async (interaction) => {
+        const action = parseApprovalAction(interaction.customId);
+        if (!action) return;
+        if (!rateLimiter.canProceed()) {
+          log(`WARN: Rate limit exceeded, dropping Discord button press ${interaction.id}`);
+          state.errors++;
+          return;
+        }
+
+        const result = runApprovalAction(action, 'discord', interaction.userId, config, state);
+        const content = result.settled && interaction.messageContent
+          ? `${interaction.messageContent.slice(0, 1800)}\n\n${result.text}`
+          : result.text;
+        await respondToDiscordInteraction(interaction, content.slice(0, 2000), result.settled);
+      },
+      log,
+    );
+    discordGateway.start();
+    log('Discord Gateway listener started');
+  }
+
   // Graceful shutdown handlers
   const shutdown = () => {
     log('Shutdown signal received');
@@ -850,6 +1115,10 @@ async function pollLoop(): Promise<void> {
       slackSocket.stop();
       slackSocket = null;
     }
+    if (discordGateway) {
+      discordGateway.stop();
+      discordGateway = null;
+    }
     writeDaemonState(state);
     removePidFile();
     process.exit(0);
@@ -885,6 +1154,17 @@ async function pollLoop(): Promise<void> {
         }
       }
 
+      // Digests and idle reminders fall due without a new notification to carry them
+      if (Date.now() - lastDeliveryFlushAt > DELIVERY_FLUSH_INTERVAL_MS) {
+        lastDeliveryFlushAt = Date.now();
+        try {
+          const { flushAllDueNotifications } = await import('./throttle.js');
+          await flushAllDueNotifications();
+        } catch (e) {
+          log(`WARN: Notification digest flush failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+
       writeDaemonState(state);
 
       // Wait for next poll
@@ -5,7 +5,10 @@
  * Uses JSONL append format for atomic writes, following the pattern from
  * session-replay.ts with secure file permissions from daemon.ts.
  *
+ * Also tracks permission requests awaiting a remote approve/deny decision.
+ *
  * Registry location: ~/.omc/state/reply-session-registry.jsonl (global, not worktree-local)
+ * Approvals location: ~/.omc/state/reply-approvals.json
  * File permissions: 0600 (owner read/write only)
  */
 
@@ -55,6 +58,11 @@ function getRegistryPath(): string {
   return join(getRegistryStateDir(), 'reply-session-registry.jsonl');
 }
 
+/** Pending/decided approval requests path */
+function getApprovalsPath(): string {
+  return join(getRegistryStateDir(), 'reply-approvals.json');
+}
+
 /** Lock file path for cross-process synchronization */
 function getLockPath(): string {
   return join(getRegistryStateDir(), 'reply-session-registry.lock');
@@ -89,6 +97,25 @@ export interface SessionMapping {
   projectPath?: string;
 }
 
+export type ApprovalDecision = 'approved' | 'denied';
+
+/** A permission request waiting for (or answered by) a remote decision */
+export interface ApprovalRequest {
+  /** Short random ID users can quote in `/approve <id>` */
+  id: string;
+  sessionId: string;
+  toolName: string;
+  /** One-line description of what is being requested */
+  summary: string;
+  createdAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  status: 'pending' | ApprovalDecision;
+  projectPath?: string;
+  decidedAt?: string;
+  /** "<platform>:<user id>" of whoever decided */
+  decidedBy?: string;
+}
+
 // ============================================================================
 // Core Functions
 // ============================================================================
@@ -479,3 +506,106 @@ function rewriteRegistryUnsafe(mappings: SessionMapping[]): void {
   const content = mappings.map(m => JSON.stringify(m)).join('\n') + '\n';
   writeFileSync(getRegistryPath(), content, { mode: SECURE_FILE_MODE });
 }
+
+// ============================================================================
+// Approval Requests
+// ============================================================================
+
+/**
+ * Read all approval requests without lock.
+ * Caller must already hold lock (or accept race risk).
+ */
+function readApprovalsUnsafe(): ApprovalRequest[] {
+  if (!existsSync(getApprovalsPath())) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(getApprovalsPath(), 'utf-8'));
+    return Array.isArray(parsed) ? parsed as ApprovalRequest[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeApprovalsUnsafe(requests: ApprovalRequest[]): void {
+  ensureRegistryDir();
+  writeFileSync(getApprovalsPath(), JSON.stringify(requests, null, 2), { mode: SECURE_FILE_MODE });
+}
+
+function isExpired(request: ApprovalRequest, now: number): boolean {
+  const expiresAt = new Date(request.expiresAt).getTime();
+  return !Number.isFinite(expiresAt) || expiresAt <= now;
+}
+
+/**
+ * Record a new approval request. Expired entries are dropped on each write.
+ */
+export function registerApprovalRequest(request: ApprovalRequest): void {
+  withRegistryLockOrWait(() => {
+    const now = Date.now();
+    const kept = readApprovalsUnsafe().filter(r => r.id !== request.id && !isExpired(r, now));
+    writeApprovalsUnsafe([...kept, request]);
+  });
+}
+
+/**
+ * Get an approval request by ID (null when unknown).
+ */
+export function getApprovalRequest(id: string): ApprovalRequest | null {
+  return withRegistryLockOrWait(() => readApprovalsUnsafe().find(r => r.id === id) ?? null);
+}
+
+/**
+ * List requests still waiting for a decision, oldest first.
+ * When sessionId is given, only that session's requests are returned.
+ */
+export function listPendingApprovals(sessionId?: string): ApprovalRequest[] {
+  const now = Date.now();
+  return withRegistryLockOrWait(() => readApprovalsUnsafe())
+    .filter(r => r.status === 'pending' && !isExpired(r, now))
+    .filter(r => !sessionId || r.sessionId === sessionId);
+}
+
+/**
+ * Record a decision for a pending request.
+ * Returns the updated request, or null when it is unknown, expired or already decided
+ * (the first decision wins).
+ */
+export function resolveApprovalRequest(
+  id: string,
+  decision: ApprovalDecision,
+  decidedBy: string,
+): ApprovalRequest | null {
+  return withRegistryLockOrWait(() => {
+    const requests = readApprovalsUnsafe();
+    const request = requests.find(r => r.id === id);
+    if (!request || request.status !== 'pending' || isExpired(request, Date.now())) {
+      return null;
+    }
+
+    request.status = decision;
+    request.decidedAt = new Date().toISOString();
+    request.decidedBy = decidedBy;
+    writeApprovalsUnsafe(requests);
+    return request;
+  });
+}
+
+/**
+ * Remove an approval request once the waiting hook has consumed it.
+ */
+export function removeApprovalRequest(id: string): void {
+  withRegistryLock(
+    () => {
+      const requests = readApprovalsUnsafe();
+      const filtered = requests.filter(r => r.id !== id);
+      if (filtered.length !== requests.length) {
+        writeApprovalsUnsafe(filtered);
+      }
+    },
+    () => {
+      // Best-effort cleanup: expired entries are dropped on the next write.
+    },
+  );
+}
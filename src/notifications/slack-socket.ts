@@ -389,6 +389,17 @@ export interface SlackMessageEvent {
   thread_ts?: string;
 }
 
+/** A button press from an interactive (block_actions) envelope */
+export interface SlackBlockAction {
+  user: string;
+  channel: string;
+  /** ts and text of the message carrying the button */
+  messageTs: string;
+  messageText?: string;
+  actionId: string;
+  value: string;
+}
+
 /** Socket Mode configuration */
 export interface SlackSocketConfig {
   appToken: string;
@@ -399,6 +410,7 @@ export interface SlackSocketConfig {
 }
 
 type MessageHandler = (event: SlackMessageEvent) => void | Promise<void>;
+type BlockActionHandler = (action: SlackBlockAction) => void | Promise<void>;
 type LogFn = (message: string) => void;
 
 import { redactTokens } from './redact.js';
@@ -414,7 +426,8 @@ const REACTION_TIMEOUT_MS = 5_000;
  *
  * Establishes a WebSocket connection to Slack's Socket Mode endpoint,
  * receives events, acknowledges them, and dispatches message events
- * to the registered handler.
+ * to the registered handler. Button presses (block_actions) go to the
+ * optional block action handler.
  */
 export class SlackSocketClient {
   private ws: WebSocket | null = null;
@@ -439,6 +452,7 @@ export class SlackSocketClient {
     private readonly config: SlackSocketConfig,
     private readonly onMessage: MessageHandler,
     log: LogFn,
+    private readonly onBlockAction?: BlockActionHandler,
   ) {
     // Wrap the log function to automatically redact tokens from all messages
     this.log = (msg: string) => log(redactTokens(msg));
@@ -571,6 +585,7 @@ export class SlackSocketClient {
    * - hello: connection established
    * - disconnect: server requesting reconnect
    * - events_api: contains event payloads (messages, etc.)
+   * - interactive: button presses (block_actions)
    */
   private handleEnvelope(raw: string): void {
     try {
@@ -594,6 +609,13 @@ export class SlackSocketClient {
         type: string;
         payload?: {
           event?: SlackMessageEvent & { subtype?: string };
+          // interactive (block_actions) payload fields
+          type?: string;
+          user?: { id?: string };
+          channel?: { id?: string };
+          container?: { message_ts?: string };
+          message?: { text?: string };
+          actions?: Array<{ action_id?: string; value?: string }>;
         };
         reason?: string;
       };
@@ -670,6 +692,30 @@ export class SlackSocketClient {
         }
       }
 
+      // Process button presses in our channel
+      if (envelope.type === 'interactive' && envelope.payload?.type === 'block_actions' && this.onBlockAction) {
+        const payload = envelope.payload;
+        const action = payload.actions?.[0];
+        if (
+          payload.channel?.id === this.config.channelId &&
+          payload.user?.id &&
+          payload.container?.message_ts &&
+          action?.action_id &&
+          typeof action.value === 'string'
+        ) {
+          Promise.resolve(this.onBlockAction({
+            user: payload.user.id,
+            channel: payload.channel.id,
+            messageTs: payload.container.message_ts,
+            messageText: payload.message?.text,
+            actionId: action.action_id,
+            value: action.value,
+          })).catch(err => {
+            this.log(`Slack block action handler error: ${err instanceof Error ? err.message : String(err)}`);
+          });
+        }
+      }
+
     } catch (error) {
       this.log(`Slack envelope parse error: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -772,3 +818,30 @@ export async function replySlackThread(
     signal: AbortSignal.timeout(REACTION_TIMEOUT_MS),
   });
 }
+
+/**
+ * Replace a message's text and blocks (used to swap approval buttons for the
+ * decision).
+ */
+export async function updateSlackMessage(
+  botToken: string,
+  channel: string,
+  ts: string,
+  text: string,
+): Promise<void> {
+  await fetch('https://slack.com/api/chat.update', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${botToken}`,
+      'Content-Type': 'application/json',
+    },
+    // Blocks must be sent explicitly, otherwise Slack keeps the old ones
+    body: JSON.stringify({
+      channel,
+      ts,
+      text,
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: text.slice(0, 3000) } }],
+    }),
+    signal: AbortSignal.timeout(REACTION_TIMEOUT_MS),
+  });
+}
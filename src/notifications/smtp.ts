@@ -0,0 +1,304 @@
+/**
+ * SMTP Client
+ *
+ * Minimal SMTP submission client for email notifications, built on Node.js
+ * net/tls to avoid adding a mail library dependency.
+ *
+ * Protocol:
+ * 1. Connect (implicit TLS when `secure`, otherwise plain TCP)
+ * 2. EHLO, then STARTTLS and EHLO again on plain connections
+ * 3. AUTH PLAIN (or AUTH LOGIN) when credentials are configured
+ * 4. MAIL FROM, RCPT TO for each recipient, DATA, QUIT
+ *
+ * Security:
+ * - Plain connections must upgrade with STARTTLS; only localhost relays may
+ *   be used without TLS
+ * - Credentials are only sent over TLS (or to a localhost relay)
+ * - The body is base64 encoded, so message content cannot end the DATA
+ *   section or inject headers
+ *
+ * References:
+ * - https://www.rfc-editor.org/rfc/rfc5321
+ * - https://www.rfc-editor.org/rfc/rfc3207
+ */
+
+import { connect as netConnect, type Socket } from 'net';
+import { connect as tlsConnect, type TLSSocket } from 'tls';
+import { randomUUID } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (SMTPS) */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  /** Overall timeout for the whole exchange */
+  timeoutMs: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/** A server reply: status code and text lines */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** Error raised when the server rejects a command or the connection fails */
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// ============================================================================
+// Message encoding
+// ============================================================================
+
+/** Encode a header value as an RFC 2047 encoded word when it is not ASCII */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Build the RFC 5322 message sent after DATA.
+ */
+export function buildMimeMessage(message: SmtpMessage, date: Date = new Date()): string {
+  const domain = message.from.split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf-8')
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+// ============================================================================
+// Session
+// ============================================================================
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '127.0.0.1' || host === '::1';
+}
+
+/**
+ * One SMTP conversation. Replies are queued as they arrive and read in
+ * order by the command sequence in sendMail().
+ */
+class SmtpSession {
+  private socket: Socket | TLSSocket | null = null;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private readonly onData = (chunk: Buffer) => this.handleData(chunk);
+  private readonly onError = (err: Error) => this.fail(new SmtpError(err.message));
+  private readonly onClose = () => this.fail(new SmtpError('Connection closed'));
+
+  constructor(private readonly options: SmtpConnectionOptions) {}
+
+  async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = await this.settle<Socket | TLSSocket>((resolve) => {
+      const s = secure
+        ? tlsConnect({ host, port, servername: host }, () => resolve(s))
+        : netConnect({ host, port }, () => resolve(s));
+      return s;
+    });
+    this.attach(socket);
+  }
+
+  /** Upgrade the current connection to TLS after STARTTLS was accepted */
+  async upgrade(): Promise<void> {
+    const plain = this.socket as Socket;
+    this.detach(plain);
+    const secured = await this.settle<TLSSocket>((resolve) => {
+      const s = tlsConnect({ socket: plain, servername: this.options.host }, () => resolve(s));
+      return s;
+    });
+    this.attach(secured);
+  }
+
+  /**
+   * Wait for a socket to connect. The socket is tracked right away so a
+   * timeout (fail()) can destroy it while connecting.
+   */
+  private settle<T extends Socket | TLSSocket>(open: (resolve: (socket: T) => void) => T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const socket = open((connected) => {
+        socket.removeAllListeners('error');
+        socket.removeAllListeners('close');
+        resolve(connected);
+      });
+      this.socket = socket;
+      socket.once('error', (err) => reject(new SmtpError(err.message)));
+      socket.once('close', () => reject(this.failure ?? new SmtpError('Connection closed')));
+    });
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    this.socket = socket;
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: Socket | TLSSocket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf-8');
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.length < 4 || line[3] === ' ') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines };
+        this.pendingLines = [];
+        if (this.waiter) {
+          this.waiter.resolve(reply);
+          this.waiter = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    this.waiter?.reject(err);
+    this.waiter = null;
+    this.socket?.destroy();
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /** Read the next reply and check its code */
+  async expect(codes: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${step} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code);
+    }
+    return reply;
+  }
+
+  /** Send a command and check the reply code */
+  async command(line: string, codes: number[], step: string = line.split(' ')[0]): Promise<SmtpReply> {
+    if (this.failure) throw this.failure;
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(codes, step);
+  }
+
+  write(data: string): void {
+    this.socket!.write(data);
+  }
+
+  close(): void {
+    if (!this.socket) return;
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+function extensionsOf(reply: SmtpReply): Set<string> {
+  return new Set(reply.lines.slice(1).map((line) => line.toUpperCase()));
+}
+
+function hasExtension(extensions: Set<string>, name: string): boolean {
+  return [...extensions].some((ext) => ext === name || ext.startsWith(`${name} `));
+}
+
+/**
+ * Send one message. Resolves when the server accepted it for delivery.
+ */
+export async function sendMail(options: SmtpConnectionOptions, message: SmtpMessage): Promise<void> {
+  const session = new SmtpSession(options);
+  const timer = setTimeout(() => session.fail(new SmtpError('SMTP timeout')), options.timeoutMs);
+
+  try {
+    await session.connect();
+    await session.expect([220], 'Greeting');
+
+    let extensions = extensionsOf(await session.command('EHLO omc', [250], 'EHLO'));
+
+    if (!options.secure) {
+      if (hasExtension(extensions, 'STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade();
+        extensions = extensionsOf(await session.command('EHLO omc', [250], 'EHLO'));
+      } else if (!isLoopbackHost(options.host)) {
+        throw new SmtpError('Server does not support STARTTLS');
+      }
+    }
+
+    if (options.username && options.password) {
+      const auth = [...extensions].find((ext) => ext.startsWith('AUTH ')) ?? '';
+      if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+        const credentials = Buffer.from(`\0${options.username}\0${options.password}`, 'utf-8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      } else {
+        await session.command('AUTH LOGIN', [334], 'AUTH');
+        await session.command(Buffer.from(options.username, 'utf-8').toString('base64'), [334], 'AUTH');
+        await session.command(Buffer.from(options.password, 'utf-8').toString('base64'), [235], 'AUTH');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${message.from}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+    session.write(`${buildMimeMessage(message)}\r\n.\r\n`);
+    await session.expect([250], 'DATA');
+
+    try {
+      await session.command('QUIT', [221]);
+    } catch {
+      // Message was accepted; a failed QUIT does not matter
+    }
+  } finally {
+    clearTimeout(timer);
+    session.close();
+  }
+}
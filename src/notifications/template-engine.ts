@@ -1,11 +1,30 @@
 /**
  * Template Interpolation Engine
  *
- * Lightweight {{variable}} interpolation with {{#if var}}...{{/if}} conditionals.
- * No external dependencies. Produces output matching current formatter.ts functions.
+ * Lightweight template language for notification messages. No external
+ * dependencies. Default templates produce output matching formatter.ts.
+ *
+ * Syntax:
+ * - {{var}}                          variable (unknown/missing → "")
+ * - {{var | truncate:80 | code}}     filters: truncate[:N], duration, relative,
+ *                                    code, codeblock[:lang], default:"text"
+ * - {{#if var}}...{{else}}...{{/if}} non-empty check, may nest
+ * - {{#each list}}...{{/each}}       loop over changedFiles, incompleteTodos or
+ *                                    agents; inside: {{this}}, {{this.field}},
+ *                                    {{@index}}, {{@number}}, {{@first}}, {{@last}}
+ *
+ * Per-platform formats (html, blocks, embed) escape variable output for HTML
+ * or JSON. validateTemplate() checks syntax, variables, filters and the
+ * rendered structure of a format without sending anything.
  */
 
-import type { NotificationPayload, NotificationEvent } from "./types.js";
+import type {
+  NotificationPayload,
+  NotificationEvent,
+  NotificationPlatform,
+  PlatformMessage,
+} from "./types.js";
+import type { TemplateFormat } from "./hook-config-types.js";
 import { parseTmuxTail } from "./formatter.js";
 import { basename } from "path";
 
@@ -16,15 +35,34 @@ const KNOWN_VARIABLES = new Set<string>([
   "projectPath", "projectName", "modesUsed", "contextSummary",
   "durationMs", "agentsSpawned", "agentsCompleted",
   "reason", "activeMode", "iteration", "maxIterations",
-  "question", "incompleteTasks", "agentName", "agentType",
+  "question", "incompleteTasks", "agentName", "agentType", "teamName",
+  "toolName", "toolSummary", "approvalId",
   "tmuxTail", "tmuxPaneId",
   "replyChannel", "replyTarget", "replyThread",
+  "changedFiles", "incompleteTodos", "agents",
   // Computed variables
   "duration", "time", "modesDisplay", "iterationDisplay",
   "agentDisplay", "projectDisplay", "footer", "tmuxTailBlock",
   "reasonDisplay",
 ]);
 
+/** A list item: a string, or an object with string fields */
+type TemplateListItem = string | Record<string, string>;
+
+/** Lists available to {{#each}}, with the fields of their object items (null = string items) */
+const LIST_FIELDS: Record<string, readonly string[] | null> = {
+  changedFiles: null,
+  incompleteTodos: null,
+  agents: ["type", "status", "durationMs", "duration"],
+};
+
+/** Platforms that accept each non-text format */
+const FORMAT_PLATFORMS: Record<Exclude<TemplateFormat, "text">, readonly NotificationPlatform[]> = {
+  html: ["telegram"],
+  blocks: ["slack", "slack-bot"],
+  embed: ["discord", "discord-bot"],
+};
+
 /**
  * Format duration from milliseconds to human-readable string.
  * Mirrors formatDuration() in formatter.ts.
@@ -54,29 +92,49 @@ function getProjectDisplay(payload: NotificationPayload): string {
   return "unknown";
 }
 
+/** Markup for the footer and tmux tail variables */
+type BlockStyle = "markdown" | "html" | "plain";
+
 /**
- * Build common footer with tmux and project info (markdown).
- * Mirrors buildFooter(payload, true) in formatter.ts.
+ * Build common footer with tmux and project info.
+ * The markdown style mirrors buildFooter(payload, true) in formatter.ts.
  */
-function buildFooterText(payload: NotificationPayload): string {
+function buildFooterText(payload: NotificationPayload, style: BlockStyle = "markdown"): string {
+  const field = (label: string, value: string) => {
+    switch (style) {
+      case "html":
+        return `<b>${label}:</b> <code>${escapeHtml(value)}</code>`;
+      case "plain":
+        return `${label}: ${value}`;
+      default:
+        return `**${label}:** \`${value}\``;
+    }
+  };
   const parts: string[] = [];
   if (payload.tmuxSession) {
-    parts.push(`**tmux:** \`${payload.tmuxSession}\``);
+    parts.push(field("tmux", payload.tmuxSession));
   }
-  parts.push(`**project:** \`${getProjectDisplay(payload)}\``);
+  parts.push(field("project", getProjectDisplay(payload)));
   return parts.join(" | ");
 }
 
 /**
  * Build tmux tail block with code fence, or empty string.
- * Mirrors appendTmuxTail() in formatter.ts.
+ * The markdown style mirrors appendTmuxTail() in formatter.ts.
  * Includes two leading newlines (blank line separator) to match formatter output.
  */
-function buildTmuxTailBlock(payload: NotificationPayload): string {
+function buildTmuxTailBlock(payload: NotificationPayload, style: BlockStyle = "markdown"): string {
   if (!payload.tmuxTail) return "";
   const parsed = parseTmuxTail(payload.tmuxTail);
   if (!parsed) return "";
-  return `\n\n**Recent output:**\n\`\`\`\n${parsed}\n\`\`\``;
+  switch (style) {
+    case "html":
+      return `\n\n<b>Recent output:</b>\n<pre>${escapeHtml(parsed)}</pre>`;
+    case "plain":
+      return `\n\nRecent output:\n${parsed}`;
+    default:
+      return `\n\n**Recent output:**\n\`\`\`\n${parsed}\n\`\`\``;
+  }
 }
 
 /**
@@ -119,11 +177,18 @@ export function computeTemplateVariables(
       : "";
   vars.agentName = payload.agentName || "";
   vars.agentType = payload.agentType || "";
+  vars.teamName = payload.teamName || "";
+  vars.toolName = payload.toolName || "";
+  vars.toolSummary = payload.toolSummary || "";
+  vars.approvalId = payload.approvalId || "";
   vars.tmuxTail = payload.tmuxTail || "";
   vars.tmuxPaneId = payload.tmuxPaneId || "";
   vars.replyChannel = payload.replyChannel || "";
   vars.replyTarget = payload.replyTarget || "";
   vars.replyThread = payload.replyThread || "";
+  vars.changedFiles = payload.changedFiles?.join(", ") || "";
+  vars.incompleteTodos = payload.incompleteTodos?.join(", ") || "";
+  vars.agents = payload.agents?.map((agent) => agent.type).join(", ") || "";
 
   // Computed variables
   vars.duration = formatDuration(payload.durationMs);
@@ -151,34 +216,347 @@ export function computeTemplateVariables(
 }
 
 /**
- * Process {{#if var}}...{{/if}} conditionals.
- * Only simple truthy checks (non-empty string). No nesting, no else.
+ * Build the lists available to {{#each}} from a notification payload.
  */
-function processConditionals(
-  template: string,
-  vars: Record<string, string>,
-): string {
-  return template.replace(
-    /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
-    (_match, varName: string, content: string) => {
-      const value = vars[varName] || "";
-      return value ? content : "";
+export function computeTemplateLists(
+  payload: NotificationPayload,
+): Record<string, TemplateListItem[]> {
+  return {
+    changedFiles: payload.changedFiles ?? [],
+    incompleteTodos: payload.incompleteTodos ?? [],
+    agents: (payload.agents ?? []).map((agent) => ({
+      type: agent.type,
+      status: agent.status,
+      durationMs: agent.durationMs != null ? String(agent.durationMs) : "",
+      duration: agent.durationMs != null ? formatDuration(agent.durationMs) : "",
+    })),
+  };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string; filters: FilterCall[] }
+  | { type: "if"; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "each"; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+/** Any {{...}} tag without nested braces */
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+/** Variable, loop item field or loop metadata */
+const PATH_PATTERN = /^(?:\w+|this(?:\.\w+)?|@(?:index|number|first|last))$/;
+
+/** filter, filter:arg or filter:"quoted arg" */
+const FILTER_PATTERN = /^(\w+)(?::(?:"([^"]*)"|([^\s"]+)))?$/;
+
+/**
+ * Parse a {{value | filter:arg}} tag body, or return null if it is not one.
+ */
+function parseValueTag(inner: string): Extract<TemplateNode, { type: "value" }> | null {
+  // Split on pipes outside quoted arguments
+  const segments = inner.split(/\|(?=(?:[^"]*"[^"]*")*[^"]*$)/).map((segment) => segment.trim());
+  const [path, ...filterSegments] = segments;
+  if (!path || !PATH_PATTERN.test(path)) return null;
+
+  const filters: FilterCall[] = [];
+  for (const segment of filterSegments) {
+    const match = FILTER_PATTERN.exec(segment);
+    if (!match) return null;
+    filters.push({ name: match[1], arg: match[2] ?? match[3] });
+  }
+  return { type: "value", path, filters };
+}
+
+/**
+ * Parse a template into nodes.
+ *
+ * Lenient: malformed tags and stray closing tags stay literal text and
+ * unclosed blocks end at the end of the template. Problems are reported to
+ * `errors` when given (used by validateTemplate).
+ */
+function parseTemplate(template: string, errors?: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const frames: Array<{ node: BlockNode; parent: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (value) target.push({ type: "text", value });
+  };
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const tag = match[0];
+    const inner = match[1].trim();
+    pushText(template.slice(last, match.index));
+    last = (match.index ?? 0) + tag.length;
+
+    const open = /^#(if|each)\s+(\S+)$/.exec(inner);
+    if (open) {
+      if (!PATH_PATTERN.test(open[2])) {
+        errors?.push(`Invalid block ${tag}`);
+        pushText(tag);
+        continue;
+      }
+      const node: BlockNode = open[1] === "if"
+        ? { type: "if", path: open[2], then: [], otherwise: [] }
+        : { type: "each", path: open[2], body: [] };
+      target.push(node);
+      frames.push({ node, parent: target });
+      target = node.type === "if" ? node.then : node.body;
+      continue;
+    }
+
+    const close = /^\/(if|each)$/.exec(inner);
+    if (close) {
+      const frame = frames[frames.length - 1];
+      if (!frame || frame.node.type !== close[1]) {
+        errors?.push(`Unexpected ${tag}`);
+        pushText(tag);
+        continue;
+      }
+      frames.pop();
+      target = frame.parent;
+      continue;
+    }
+
+    if (inner === "else") {
+      const frame = frames[frames.length - 1];
+      if (!frame || frame.node.type !== "if" || target === frame.node.otherwise) {
+        errors?.push(`Unexpected ${tag}`);
+        pushText(tag);
+        continue;
+      }
+      target = frame.node.otherwise;
+      continue;
+    }
+
+    const value = parseValueTag(inner);
+    if (value) {
+      target.push(value);
+    } else {
+      errors?.push(`Invalid tag ${tag}`);
+      pushText(tag);
+    }
+  }
+
+  pushText(template.slice(last));
+  for (const frame of frames) {
+    errors?.push(`Unclosed {{#${frame.node.type} ${frame.node.path}}}`);
+  }
+  return root;
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+interface FilterSpec {
+  /** none: no argument; number: optional positive integer; optional/required: any text */
+  arg: "none" | "number" | "optional" | "required";
+  apply(value: string, arg: string | undefined, format: TemplateFormat): string;
+}
+
+/** Default length for truncate without an argument */
+const DEFAULT_TRUNCATE_LENGTH = 100;
+
+/** Filters whose html output is already escaped markup */
+const MARKUP_FILTERS = new Set(["code", "codeblock"]);
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Escape variable output for a format. Template text itself is never escaped.
+ */
+function escapeForFormat(value: string, format: TemplateFormat): string {
+  switch (format) {
+    case "html":
+      return escapeHtml(value);
+    case "blocks":
+    case "embed":
+      // JSON string content (the template supplies the quotes)
+      return JSON.stringify(value).slice(1, -1);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Format an ISO timestamp relative to now, e.g. "5 min ago" or "in 2h".
+ */
+function formatRelativeTime(value: string, now: number = Date.now()): string {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return value;
+
+  const diffMs = now - time;
+  const seconds = Math.round(Math.abs(diffMs) / 1000);
+  if (seconds < 45) return "just now";
+
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.round(minutes / 60);
+  const days = Math.round(hours / 24);
+  const text = minutes < 60 ? `${minutes} min` : hours < 24 ? `${hours}h` : `${days}d`;
+  return diffMs >= 0 ? `${text} ago` : `in ${text}`;
+}
+
+const FILTERS: Record<string, FilterSpec> = {
+  truncate: {
+    arg: "number",
+    apply: (value, arg) => {
+      const max = arg ? parseInt(arg, 10) : DEFAULT_TRUNCATE_LENGTH;
+      return value.length > max ? `${value.slice(0, Math.max(max - 3, 0))}...` : value;
+    },
+  },
+  duration: {
+    arg: "none",
+    apply: (value) => (value && !Number.isNaN(Number(value)) ? formatDuration(Number(value)) : value),
+  },
+  relative: {
+    arg: "none",
+    apply: (value) => (value ? formatRelativeTime(value) : value),
+  },
+  code: {
+    arg: "none",
+    apply: (value, _arg, format) => {
+      if (!value) return value;
+      return format === "html" ? `<code>${escapeHtml(value)}</code>` : `\`${value}\``;
     },
-  );
+  },
+  codeblock: {
+    arg: "optional",
+    apply: (value, lang, format) => {
+      if (!value) return value;
+      if (format === "html") {
+        return lang
+          ? `<pre><code class="language-${escapeHtml(lang)}">${escapeHtml(value)}</code></pre>`
+          : `<pre>${escapeHtml(value)}</pre>`;
+      }
+      return `\`\`\`${lang ?? ""}\n${value}\n\`\`\``;
+    },
+  },
+  default: {
+    arg: "required",
+    apply: (value, fallback) => value || (fallback ?? ""),
+  },
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+interface RenderScope {
+  vars: Record<string, string>;
+  /** Pre-rendered markup for variables used without filters (html only) */
+  markup?: Record<string, string>;
+  lists: Record<string, TemplateListItem[]>;
+  /** Innermost {{#each}} item and position */
+  item?: TemplateListItem;
+  index?: number;
+  count?: number;
 }
 
 /**
- * Replace {{variable}} placeholders with values.
- * Unknown/missing variables become empty string.
+ * Resolve a variable, loop item field or loop metadata to a string.
  */
-function replaceVariables(
-  template: string,
-  vars: Record<string, string>,
+function lookup(path: string, scope: RenderScope): string {
+  const { item, index, count } = scope;
+
+  if (path === "this") {
+    return typeof item === "string" ? item : "";
+  }
+  if (path.startsWith("this.")) {
+    return item && typeof item === "object" ? item[path.slice(5)] ?? "" : "";
+  }
+  if (path.startsWith("@")) {
+    if (index === undefined || count === undefined) return "";
+    switch (path) {
+      case "@index":
+        return String(index);
+      case "@number":
+        return String(index + 1);
+      case "@first":
+        return index === 0 ? "true" : "";
+      case "@last":
+        return index === count - 1 ? "true" : "";
+      default:
+        return "";
+    }
+  }
+  // Bare names inside a loop over objects resolve to item fields first
+  if (item && typeof item === "object" && Object.hasOwn(item, path)) {
+    return item[path];
+  }
+  return Object.hasOwn(scope.vars, path) ? scope.vars[path] : "";
+}
+
+function renderValue(
+  node: Extract<TemplateNode, { type: "value" }>,
+  scope: RenderScope,
+  format: TemplateFormat,
 ): string {
-  return template.replace(
-    /\{\{(\w+)\}\}/g,
-    (_match, varName: string) => vars[varName] ?? "",
-  );
+  if (node.filters.length === 0 && scope.markup && Object.hasOwn(scope.markup, node.path)) {
+    return scope.markup[node.path];
+  }
+  let value = lookup(node.path, scope);
+  // In html, markup filters escape and wrap the final value, so filters
+  // after them (e.g. truncate) work on the text and never cut a tag
+  const wrappers: FilterCall[] = [];
+  for (const filter of node.filters) {
+    const spec = FILTERS[filter.name];
+    if (!spec) continue;
+    if (format === "html" && MARKUP_FILTERS.has(filter.name)) {
+      wrappers.push(filter);
+      continue;
+    }
+    value = spec.apply(value, filter.arg, format);
+  }
+  if (wrappers.length === 0) {
+    return escapeForFormat(value, format);
+  }
+  for (const filter of wrappers) {
+    value = FILTERS[filter.name].apply(value, filter.arg, format);
+  }
+  return value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: RenderScope, format: TemplateFormat): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "value":
+        out += renderValue(node, scope, format);
+        break;
+      case "if":
+        out += renderNodes(lookup(node.path, scope) ? node.then : node.otherwise, scope, format);
+        break;
+      case "each": {
+        const items = Object.hasOwn(scope.lists, node.path) ? scope.lists[node.path] : [];
+        items.forEach((item, index) => {
+          out += renderNodes(node.body, { ...scope, item, index, count: items.length }, format);
+        });
+        break;
+      }
+    }
+  }
+  return out;
 }
 
 /**
@@ -192,48 +570,347 @@ function postProcess(text: string): string {
   return text.trimEnd();
 }
 
+function render(template: string, payload: NotificationPayload, format: TemplateFormat): string {
+  const scope: RenderScope = {
+    vars: computeTemplateVariables(payload),
+    lists: computeTemplateLists(payload),
+  };
+  if (format === "html") {
+    // Markdown markup would show up literally in Telegram HTML
+    scope.vars.footer = buildFooterText(payload, "plain");
+    scope.vars.tmuxTailBlock = buildTmuxTailBlock(payload, "plain");
+    scope.markup = {
+      footer: buildFooterText(payload, "html"),
+      tmuxTailBlock: buildTmuxTailBlock(payload, "html"),
+    };
+  }
+  return postProcess(renderNodes(parseTemplate(template), scope, format));
+}
+
 /**
  * Interpolate a template string with payload values.
  *
- * 1. Process {{#if var}}...{{/if}} conditionals
- * 2. Replace {{variable}} placeholders
- * 3. Post-process to normalize blank lines
+ * 1. Parse variables, filters, {{#if}} and {{#each}} blocks
+ * 2. Render against the payload, escaping variables for the format
+ * 3. Post-process to trim trailing whitespace
  */
 export function interpolateTemplate(
   template: string,
   payload: NotificationPayload,
+  format: TemplateFormat = "text",
 ): string {
-  const vars = computeTemplateVariables(payload);
-  let result = processConditionals(template, vars);
-  result = replaceVariables(result, vars);
-  result = postProcess(result);
-  return result;
+  return render(template, payload, format);
+}
+
+// ============================================================================
+// Platform Formats
+// ============================================================================
+
+/** Slack and Discord limits checked for rendered JSON */
+const MAX_SLACK_BLOCKS = 50;
+const MAX_DISCORD_EMBEDS = 10;
+const MAX_EMBED_TITLE = 256;
+const MAX_EMBED_DESCRIPTION = 4096;
+const MAX_EMBED_FIELDS = 25;
+
+/** Tags Telegram accepts with parse_mode HTML */
+const TELEGRAM_HTML_TAGS = new Set([
+  "b", "strong", "i", "em", "u", "ins", "s", "strike", "del",
+  "span", "tg-spoiler", "a", "code", "pre", "blockquote", "tg-emoji",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 /**
- * Validate a template string for unknown variables.
- * Returns { valid, unknownVars }.
+ * Extract Slack blocks from parsed template output.
  */
-export function validateTemplate(
+function toSlackBlocks(value: unknown): { items: Record<string, unknown>[] | null; errors: string[] } {
+  const list = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.blocks) ? value.blocks : null;
+  if (!list) {
+    return { items: null, errors: ['Slack blocks must be an array of blocks or { "blocks": [...] }'] };
+  }
+
+  const errors: string[] = [];
+  if (list.length === 0 || list.length > MAX_SLACK_BLOCKS) {
+    errors.push(`Slack messages need 1-${MAX_SLACK_BLOCKS} blocks, got ${list.length}`);
+  }
+  list.forEach((block, i) => {
+    if (!isRecord(block) || typeof block.type !== "string") {
+      errors.push(`Block ${i + 1} has no "type"`);
+    }
+  });
+  return { items: errors.length === 0 ? (list as Record<string, unknown>[]) : null, errors };
+}
+
+/**
+ * Extract Discord embeds from parsed template output.
+ */
+function toDiscordEmbeds(value: unknown): { items: Record<string, unknown>[] | null; errors: string[] } {
+  const list = Array.isArray(value)
+    ? value
+    : isRecord(value) && Array.isArray(value.embeds)
+      ? value.embeds
+      : isRecord(value) ? [value] : null;
+  if (!list) {
+    return { items: null, errors: ['Discord embeds must be an embed, an array of embeds or { "embeds": [...] }'] };
+  }
+
+  const errors: string[] = [];
+  if (list.length === 0 || list.length > MAX_DISCORD_EMBEDS) {
+    errors.push(`Discord messages need 1-${MAX_DISCORD_EMBEDS} embeds, got ${list.length}`);
+  }
+  list.forEach((embed, i) => {
+    if (!isRecord(embed)) {
+      errors.push(`Embed ${i + 1} is not an object`);
+      return;
+    }
+    if (embed.title === undefined && embed.description === undefined && embed.fields === undefined) {
+      errors.push(`Embed ${i + 1} needs a title, description or fields`);
+    }
+    if (typeof embed.title === "string" && embed.title.length > MAX_EMBED_TITLE) {
+      errors.push(`Embed ${i + 1} title is longer than ${MAX_EMBED_TITLE} characters`);
+    }
+    if (typeof embed.description === "string" && embed.description.length > MAX_EMBED_DESCRIPTION) {
+      errors.push(`Embed ${i + 1} description is longer than ${MAX_EMBED_DESCRIPTION} characters`);
+    }
+    if (embed.fields !== undefined && (!Array.isArray(embed.fields) || embed.fields.length > MAX_EMBED_FIELDS)) {
+      errors.push(`Embed ${i + 1} fields must be an array of at most ${MAX_EMBED_FIELDS}`);
+    }
+  });
+  return { items: errors.length === 0 ? (list as Record<string, unknown>[]) : null, errors };
+}
+
+/**
+ * Check that rendered Telegram HTML only uses supported, balanced tags.
+ */
+function checkTelegramHtml(html: string): string[] {
+  const errors: string[] = [];
+  const open: string[] = [];
+  for (const match of html.matchAll(/<(\/?)([a-zA-Z][\w-]*)[^>]*>/g)) {
+    const [, closing, name] = match;
+    const tag = name.toLowerCase();
+    if (!TELEGRAM_HTML_TAGS.has(tag)) {
+      errors.push(`Telegram HTML does not support <${tag}>`);
+    } else if (!closing) {
+      open.push(tag);
+    } else if (open.pop() !== tag) {
+      errors.push(`Unbalanced </${tag}>`);
+    }
+  }
+  for (const tag of open) {
+    errors.push(`Unclosed <${tag}>`);
+  }
+  return errors;
+}
+
+/**
+ * Check rendered output against the structure its format requires.
+ */
+function checkRendered(output: string, format: TemplateFormat): string[] {
+  if (format === "html") {
+    return checkTelegramHtml(output);
+  }
+  if (format === "blocks" || format === "embed") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(output);
+    } catch (error) {
+      return [`Rendered template is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+    return (format === "blocks" ? toSlackBlocks(parsed) : toDiscordEmbeds(parsed)).errors;
+  }
+  return [];
+}
+
+/**
+ * Render a per-platform template.
+ *
+ * Block Kit and embed templates keep `payload.message` as the plain-text
+ * fallback. Returns null when the rendered HTML or JSON is unusable, so the
+ * caller can fall back to the default message.
+ */
+export function renderPlatformTemplate(
   template: string,
-): { valid: boolean; unknownVars: string[] } {
-  const unknownVars: string[] = [];
+  format: TemplateFormat,
+  payload: NotificationPayload,
+): PlatformMessage | null {
+  const output = render(template, payload, format);
 
-  // Check {{#if var}} conditionals
-  for (const m of template.matchAll(/\{\{#if\s+(\w+)\}\}/g)) {
-    if (!KNOWN_VARIABLES.has(m[1]) && !unknownVars.includes(m[1])) {
-      unknownVars.push(m[1]);
+  switch (format) {
+    case "html":
+      return checkTelegramHtml(output).length === 0
+        ? { message: output, telegramParseMode: "HTML" }
+        : null;
+    case "blocks":
+    case "embed": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(output);
+      } catch {
+        return null;
+      }
+      if (format === "blocks") {
+        const { items } = toSlackBlocks(parsed);
+        return items ? { message: payload.message, slackBlocks: items } : null;
+      }
+      const { items } = toDiscordEmbeds(parsed);
+      return items ? { message: payload.message, discordEmbeds: items } : null;
     }
+    default:
+      return { message: output };
   }
+}
 
-  // Check {{variable}} placeholders (skip {{#if}}, {{/if}})
-  for (const m of template.matchAll(/\{\{(?!#if\s|\/if)(\w+)\}\}/g)) {
-    if (!KNOWN_VARIABLES.has(m[1]) && !unknownVars.includes(m[1])) {
-      unknownVars.push(m[1]);
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Payload with every field set, including characters that need escaping,
+ * so that validation renders every {{#if}} branch and loop body.
+ */
+const SAMPLE_PAYLOAD: NotificationPayload = {
+  event: "session-end",
+  sessionId: "sample-session",
+  message: "Sample message",
+  timestamp: "2026-01-01T12:00:00.000Z",
+  tmuxSession: "omc-main",
+  tmuxPaneId: "%1",
+  projectPath: "/home/user/my-app",
+  projectName: "my-app",
+  modesUsed: ["ralph", "ultrawork"],
+  contextSummary: "Fixed \"login\" <form> & tests\nall green",
+  durationMs: 323000,
+  agentsSpawned: 3,
+  agentsCompleted: 2,
+  reason: "user_request",
+  activeMode: "ralph",
+  iteration: 2,
+  maxIterations: 10,
+  question: "Deploy to \"prod\"?",
+  incompleteTasks: 1,
+  agentName: "executor",
+  agentType: "oh-my-claudecode:executor",
+  teamName: "alpha",
+  toolName: "Bash",
+  toolSummary: "npm publish --tag \"next\"",
+  approvalId: "3f9a1c2e",
+  changedFiles: ["src/app.ts", "README.md"],
+  incompleteTodos: ["Write \"e2e\" tests"],
+  agents: [{ type: "executor", status: "completed", durationMs: 60000 }],
+  tmuxTail: "$ npm test\n12 passed",
+  replyChannel: "#dev",
+  replyTarget: "@bot",
+  replyThread: "1",
+};
+
+/** Payload with only required fields, rendering every {{else}} branch */
+const EMPTY_SAMPLE_PAYLOAD: NotificationPayload = {
+  event: "session-end",
+  sessionId: "sample-session",
+  message: "Sample message",
+  timestamp: "2026-01-01T12:00:00.000Z",
+};
+
+/**
+ * Check variables, loop targets and filters of parsed nodes.
+ *
+ * @param list - Name of the list of the innermost {{#each}}, if any
+ */
+function checkNodes(
+  nodes: TemplateNode[],
+  list: string | null,
+  errors: string[],
+  unknownVars: string[],
+): void {
+  const fields = list ? LIST_FIELDS[list] : null;
+
+  const checkPath = (path: string) => {
+    if (path === "this" || path.startsWith("this.") || path.startsWith("@")) {
+      if (!list) {
+        errors.push(`{{${path}}} is only available inside {{#each}}`);
+      } else if (path === "this" && fields) {
+        errors.push(`Items of "${list}" are objects; use {{this.${fields[0]}}}`);
+      } else if (path.startsWith("this.") && !fields?.includes(path.slice(5))) {
+        errors.push(`Unknown field "${path.slice(5)}" of "${list}" items`);
+      }
+      return;
+    }
+    if (fields?.includes(path)) return;
+    if (!KNOWN_VARIABLES.has(path) && !unknownVars.includes(path)) {
+      unknownVars.push(path);
+    }
+  };
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "value":
+        checkPath(node.path);
+        for (const filter of node.filters) {
+          const spec = FILTERS[filter.name];
+          if (!spec) {
+            errors.push(`Unknown filter "${filter.name}"`);
+          } else if (spec.arg === "none" && filter.arg !== undefined) {
+            errors.push(`Filter "${filter.name}" takes no argument`);
+          } else if (spec.arg === "required" && filter.arg === undefined) {
+            errors.push(`Filter "${filter.name}" needs an argument`);
+          } else if (spec.arg === "number" && filter.arg !== undefined && !/^[1-9]\d*$/.test(filter.arg)) {
+            errors.push(`Filter "${filter.name}" needs a positive number`);
+          }
+        }
+        break;
+      case "if":
+        checkPath(node.path);
+        checkNodes(node.then, list, errors, unknownVars);
+        checkNodes(node.otherwise, list, errors, unknownVars);
+        break;
+      case "each":
+        if (Object.hasOwn(LIST_FIELDS, node.path)) {
+          checkNodes(node.body, node.path, errors, unknownVars);
+        } else if (KNOWN_VARIABLES.has(node.path)) {
+          errors.push(`"${node.path}" is not a list`);
+        } else if (!unknownVars.includes(node.path)) {
+          unknownVars.push(node.path);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Validate a template without sending it.
+ *
+ * Checks block syntax, unknown variables, loop targets and filters. For
+ * html, blocks and embed formats the template is also rendered with sample
+ * payloads and the output checked (Telegram tags, JSON shape and limits).
+ * With `platform`, the format must be supported there.
+ */
+export function validateTemplate(
+  template: string,
+  options: { format?: TemplateFormat; platform?: NotificationPlatform } = {},
+): { valid: boolean; unknownVars: string[]; errors: string[] } {
+  const format = options.format ?? "text";
+  const errors: string[] = [];
+  const unknownVars: string[] = [];
+
+  const nodes = parseTemplate(template, errors);
+  checkNodes(nodes, null, errors, unknownVars);
+
+  if (format !== "text" && !Object.hasOwn(FORMAT_PLATFORMS, format)) {
+    errors.push(`Unknown format "${format}"`);
+  } else if (format !== "text" && options.platform && !FORMAT_PLATFORMS[format].includes(options.platform)) {
+    errors.push(`Format "${format}" is not supported on ${options.platform}`);
+  } else if (format !== "text" && errors.length === 0) {
+    for (const sample of [SAMPLE_PAYLOAD, EMPTY_SAMPLE_PAYLOAD]) {
+      for (const error of checkRendered(render(template, sample, format), format)) {
+        if (!errors.includes(error)) errors.push(error);
+      }
     }
   }
 
-  return { valid: unknownVars.length === 0, unknownVars };
+  return { valid: unknownVars.length === 0 && errors.length === 0, unknownVars, errors };
 }
 
 /**
@@ -287,6 +964,22 @@ const DEFAULT_TEMPLATES: Record<NotificationEvent, string> = {
     "{{#if agentName}}\n**Agent:** `{{agentName}}`{{/if}}" +
     "{{#if agentType}}\n**Type:** `{{agentType}}`{{/if}}" +
     "\n\n{{footer}}",
+
+  "team-budget-exceeded":
+    "# Team Budget Exceeded" +
+    "{{#if teamName}}\n**Team:** `{{teamName}}`{{/if}}" +
+    "\n**Limit:** {{reasonDisplay}}" +
+    "{{#if contextSummary}}\n**Usage:** {{contextSummary}}{{/if}}" +
+    "\n\nDispatch is paused; in-flight tasks may finish." +
+    "\n\n{{footer}}",
+
+  "permission-request":
+    "# Permission Needed" +
+    "{{#if toolName}}\n**Tool:** `{{toolName}}`{{/if}}" +
+    "{{#if toolSummary}}\n**Request:** {{toolSummary}}{{/if}}" +
+    "{{#if approvalId}}\n**Request ID:** `{{approvalId}}`{{/if}}" +
+    "\n\nClaude is waiting for your approval." +
+    "\n\n{{footer}}",
 };
 
 /**
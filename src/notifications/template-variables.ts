@@ -64,17 +64,32 @@ export const TEMPLATE_VARIABLES: Record<string, TemplateVariable> = {
     example: '4',
     availableIn: ['session-end']
   },
+  changedFiles: {
+    description: 'Files with uncommitted changes (list for {{#each}}, comma-separated otherwise)',
+    example: 'src/app.ts, README.md',
+    availableIn: ['session-end']
+  },
+  incompleteTodos: {
+    description: 'Todos left unfinished (list for {{#each}}, comma-separated otherwise)',
+    example: 'Write e2e tests',
+    availableIn: ['session-end']
+  },
+  agents: {
+    description: 'Agents run in the session (list of {{this.type}}, {{this.status}}, {{this.duration}} for {{#each}})',
+    example: 'executor, architect',
+    availableIn: ['session-end']
+  },
   reason: {
-    description: 'Session end reason',
+    description: 'Session end reason (or crossed limit for team-budget-exceeded)',
     example: 'completed',
-    availableIn: ['session-end', 'session-stop']
+    availableIn: ['session-end', 'session-stop', 'team-budget-exceeded']
   },
 
   // Context info
   contextSummary: {
     description: 'Summary of session context',
     example: 'Task completed successfully',
-    availableIn: ['session-end']
+    availableIn: ['session-end', 'team-budget-exceeded']
   },
   tmuxSession: {
     description: 'tmux session name',
@@ -87,6 +102,30 @@ export const TEMPLATE_VARIABLES: Record<string, TemplateVariable> = {
     availableIn: ['*']
   },
 
+  // Team runs
+  teamName: {
+    description: 'Team name',
+    example: 'auth-review',
+    availableIn: ['team-budget-exceeded']
+  },
+
+  // Permission requests
+  toolName: {
+    description: 'Tool waiting for permission',
+    example: 'Bash',
+    availableIn: ['permission-request']
+  },
+  toolSummary: {
+    description: 'One-line description of the tool call',
+    example: 'npm publish --access public',
+    availableIn: ['permission-request']
+  },
+  approvalId: {
+    description: 'Approval request ID (for /approve <id> and /deny <id>)',
+    example: '3f9a1c2e',
+    availableIn: ['permission-request']
+  },
+
   // Ask user question
   question: {
     description: 'Question text when input is needed',
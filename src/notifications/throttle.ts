@@ -0,0 +1,476 @@
+/**
+ * Notification Throttling and Digests
+ *
+ * Applies a profile's delivery rules before dispatch: per-event throttle
+ * windows, digest-only events, quiet hours and mention escalation for idle
+ * sessions. Notifications are sent from short-lived hook processes, so the
+ * rule state (last send per event, held events, idle sessions) is persisted
+ * and shared across processes under a file lock.
+ *
+ * Held events are summarized into a digest once the digest interval has
+ * passed. Digests and idle reminders are sent by flushDueNotifications(),
+ * which runs before every notification, from the stop and session-end hooks,
+ * and once a minute in the reply listener daemon.
+ *
+ * State location: ~/.omc/state/notification-delivery.json (global, keyed by profile)
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { atomicWriteJsonSync } from "../lib/atomic-write.js";
+import { lockPathFor, withFileLockSync } from "../lib/file-lock.js";
+import type {
+  DeliveryRules,
+  NotificationConfig,
+  NotificationDigest,
+  NotificationEvent,
+  NotificationPayload,
+} from "./types.js";
+import {
+  NOTIFICATION_PLATFORMS,
+  getDeliveryRules,
+  getNotificationConfig,
+} from "./config.js";
+import { formatDigest, formatIdleReminder } from "./formatter.js";
+import { dispatchNotifications } from "./dispatcher.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Why an event was not sent right away */
+export type HoldReason = "throttled" | "digest-only" | "quiet-hours";
+
+/**
+ * Outcome of the delivery rules for one event.
+ * Held events are added to the digest; dropped events are discarded
+ * (digests disabled).
+ */
+export type DeliveryDecision =
+  | { action: "send"; mention: boolean }
+  | { action: "hold"; reason: HoldReason }
+  | { action: "drop"; reason: HoldReason };
+
+/** A session waiting for input, tracked for mention escalation */
+interface IdleSession {
+  /** ISO timestamp of the first idle notification */
+  since: string;
+  /** Whether the escalation reminder was sent */
+  reminded: boolean;
+  projectPath?: string;
+  projectName?: string;
+  tmuxSession?: string;
+}
+
+/** Rule state of one notification profile */
+export interface ProfileDeliveryState {
+  /** ISO timestamp of the last message sent per event */
+  lastSent: Partial<Record<NotificationEvent, string>>;
+  /** Events held for the next digest */
+  digest: NotificationDigest | null;
+  /** Idle sessions by session ID */
+  idle: Record<string, IdleSession>;
+}
+
+interface DeliveryState {
+  profiles: Record<string, ProfileDeliveryState>;
+}
+
+/** Digests and reminders ready to be sent */
+export interface DueDeliveries {
+  digest: NotificationDigest | null;
+  reminders: Array<IdleSession & { sessionId: string; idleMs: number }>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** State key for the default (unnamed) profile */
+const DEFAULT_PROFILE_KEY = "default";
+
+/** Events that show a session is working again, ending its idle period */
+const ACTIVITY_EVENTS: ReadonlySet<NotificationEvent> = new Set([
+  "session-start",
+  "session-stop",
+  "session-end",
+  "agent-call",
+]);
+
+/** Maximum projects and sessions listed in a digest */
+const MAX_DIGEST_LIST = 20;
+
+/** Idle sessions are forgotten after a day */
+const IDLE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** How long to wait for another process holding the state lock */
+const LOCK_TIMEOUT_MS = 2000;
+
+// ============================================================================
+// State File
+// ============================================================================
+
+/**
+ * Return the delivery state directory.
+ * OMC_TEST_NOTIFICATION_STATE_DIR overrides the default (~/.omc/state) so
+ * that tests can redirect all I/O to a temporary directory.
+ */
+function getStateDir(): string {
+  return process.env["OMC_TEST_NOTIFICATION_STATE_DIR"] ?? join(homedir(), ".omc", "state");
+}
+
+function getStatePath(): string {
+  return join(getStateDir(), "notification-delivery.json");
+}
+
+function emptyProfileState(): ProfileDeliveryState {
+  return { lastSent: {}, digest: null, idle: {} };
+}
+
+function readState(): DeliveryState {
+  try {
+    const parsed = JSON.parse(readFileSync(getStatePath(), "utf-8")) as Partial<DeliveryState>;
+    if (parsed && typeof parsed.profiles === "object" && parsed.profiles !== null) {
+      return { profiles: parsed.profiles };
+    }
+  } catch {
+    // Missing or corrupt state starts over
+  }
+  return { profiles: {} };
+}
+
+/**
+ * Read-modify-write one profile's state under the state file lock.
+ */
+function updateProfileState<T>(profileKey: string, fn: (state: ProfileDeliveryState) => T): T {
+  const statePath = getStatePath();
+  return withFileLockSync(
+    lockPathFor(statePath),
+    () => {
+      const state = readState();
+      const profile = { ...emptyProfileState(), ...state.profiles[profileKey] };
+      const result = fn(profile);
+      state.profiles[profileKey] = profile;
+      atomicWriteJsonSync(statePath, state);
+      return result;
+    },
+    { timeoutMs: LOCK_TIMEOUT_MS },
+  );
+}
+
+/**
+ * State key for a profile name (falls back to OMC_NOTIFY_PROFILE, like
+ * getNotificationConfig).
+ */
+export function getDeliveryProfileKey(profileName?: string): string {
+  return profileName || process.env.OMC_NOTIFY_PROFILE || DEFAULT_PROFILE_KEY;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Minutes after midnight in the given time zone (default: system time zone).
+ */
+function minutesOfDay(now: Date, timezone?: string): number {
+  if (!timezone) {
+    return now.getHours() * 60 + now.getMinutes();
+  }
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return part("hour") * 60 + part("minute");
+}
+
+/**
+ * Check whether `now` falls inside quiet hours. Periods whose end is
+ * earlier than their start span midnight.
+ */
+export function isQuietTime(quietHours: DeliveryRules["quietHours"], now: Date): boolean {
+  if (!quietHours) return false;
+  const minutes = minutesOfDay(now, quietHours.timezone);
+  return quietHours.start < quietHours.end
+    ? minutes >= quietHours.start && minutes < quietHours.end
+    : minutes >= quietHours.start || minutes < quietHours.end;
+}
+
+/**
+ * Add an event to the pending digest.
+ */
+function addToDigest(state: ProfileDeliveryState, payload: NotificationPayload, at: string): void {
+  if (!state.digest) {
+    state.digest = { since: at, counts: {}, agents: {}, projects: [], sessions: [] };
+  }
+  const digest = state.digest;
+  digest.counts[payload.event] = (digest.counts[payload.event] ?? 0) + 1;
+
+  if (payload.event === "agent-call" && payload.agentName) {
+    digest.agents[payload.agentName] = (digest.agents[payload.agentName] ?? 0) + 1;
+  }
+  if (payload.projectName && !digest.projects.includes(payload.projectName) && digest.projects.length < MAX_DIGEST_LIST) {
+    digest.projects.push(payload.projectName);
+  }
+  if (!digest.sessions.includes(payload.sessionId) && digest.sessions.length < MAX_DIGEST_LIST) {
+    digest.sessions.push(payload.sessionId);
+  }
+}
+
+/**
+ * Decide whether to send, hold or drop an event, updating the state.
+ *
+ * Order: quiet hours, digest-only events, throttle windows. Sent
+ * session-idle messages carry a mention only once the session has been
+ * idle for the escalation threshold.
+ */
+export function decideDelivery(
+  rules: DeliveryRules,
+  state: ProfileDeliveryState,
+  payload: NotificationPayload,
+  now: Date,
+): DeliveryDecision {
+  const { event, sessionId } = payload;
+  const at = now.toISOString();
+
+  if (rules.escalation) {
+    if (event === "session-idle") {
+      state.idle[sessionId] = state.idle[sessionId] ?? {
+        since: at,
+        reminded: false,
+        projectPath: payload.projectPath,
+        projectName: payload.projectName,
+        tmuxSession: payload.tmuxSession,
+      };
+    } else if (ACTIVITY_EVENTS.has(event)) {
+      delete state.idle[sessionId];
+    }
+  }
+
+  let reason: HoldReason | null = null;
+  if (rules.quietHours && !rules.quietHours.allowEvents.includes(event) && isQuietTime(rules.quietHours, now)) {
+    reason = "quiet-hours";
+  } else if (rules.digestOnly.includes(event)) {
+    reason = "digest-only";
+  } else {
+    const windowMs = rules.throttleMs[event];
+    const lastSent = state.lastSent[event];
+    if (windowMs && lastSent && now.getTime() - Date.parse(lastSent) < windowMs) {
+      reason = "throttled";
+    }
+  }
+
+  if (reason) {
+    if (rules.digestIntervalMs === null) {
+      return { action: "drop", reason };
+    }
+    addToDigest(state, payload, at);
+    return { action: "hold", reason };
+  }
+
+  state.lastSent[event] = at;
+
+  const idle = state.idle[sessionId];
+  const mention = !(
+    event === "session-idle" &&
+    rules.escalation &&
+    idle &&
+    now.getTime() - Date.parse(idle.since) < rules.escalation.mentionAfterMs
+  );
+  return { action: "send", mention };
+}
+
+/**
+ * Take the digest and idle reminders that are due, removing them from the
+ * state. Nothing is due during quiet hours.
+ *
+ * @param flushDigest - Send the pending digest even if its interval has not passed
+ */
+export function takeDueDeliveries(
+  rules: DeliveryRules,
+  state: ProfileDeliveryState,
+  now: Date,
+  flushDigest = false,
+): DueDeliveries {
+  const due: DueDeliveries = { digest: null, reminders: [] };
+
+  for (const [sessionId, idle] of Object.entries(state.idle)) {
+    if (now.getTime() - Date.parse(idle.since) > IDLE_MAX_AGE_MS) {
+      delete state.idle[sessionId];
+    }
+  }
+
+  if (rules.digestIntervalMs === null) {
+    state.digest = null;
+  }
+
+  if (isQuietTime(rules.quietHours, now)) {
+    return due;
+  }
+
+  if (
+    state.digest &&
+    rules.digestIntervalMs !== null &&
+    (flushDigest || now.getTime() - Date.parse(state.digest.since) >= rules.digestIntervalMs)
+  ) {
+    due.digest = state.digest;
+    state.digest = null;
+  }
+
+  if (rules.escalation?.remind) {
+    for (const [sessionId, idle] of Object.entries(state.idle)) {
+      const idleMs = now.getTime() - Date.parse(idle.since);
+      if (!idle.reminded && idleMs >= rules.escalation.mentionAfterMs) {
+        idle.reminded = true;
+        due.reminders.push({ ...idle, sessionId, idleMs });
+      }
+    }
+  }
+
+  return due;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Apply delivery rules to an event about to be sent.
+ *
+ * Fails open: if the state file cannot be locked or written, the event is
+ * sent with its mention.
+ */
+export function applyDeliveryRules(
+  rules: DeliveryRules,
+  profileKey: string,
+  payload: NotificationPayload,
+  now: Date = new Date(),
+): DeliveryDecision {
+  try {
+    return updateProfileState(profileKey, (state) => decideDelivery(rules, state, payload, now));
+  } catch {
+    return { action: "send", mention: true };
+  }
+}
+
+/**
+ * Copy of a config with every platform mention removed, top-level and per event.
+ */
+export function withoutMentions(config: NotificationConfig): NotificationConfig {
+  const strip = <T>(platformConfig: T): T =>
+    platformConfig && typeof platformConfig === "object" && "mention" in platformConfig
+      ? { ...platformConfig, mention: undefined }
+      : platformConfig;
+
+  const result = { ...config } as Record<string, unknown>;
+  for (const platform of NOTIFICATION_PLATFORMS) {
+    result[platform] = strip(result[platform]);
+  }
+
+  if (config.events) {
+    const events: Record<string, unknown> = {};
+    for (const [event, eventConfig] of Object.entries(config.events)) {
+      const stripped = { ...eventConfig } as Record<string, unknown>;
+      for (const platform of NOTIFICATION_PLATFORMS) {
+        stripped[platform] = strip(stripped[platform]);
+      }
+      events[event] = stripped;
+    }
+    result.events = events;
+  }
+
+  return result as unknown as NotificationConfig;
+}
+
+/**
+ * Send the digest and idle reminders that are due for a profile.
+ * Best-effort: errors are swallowed.
+ *
+ * @param flushDigest - Send the pending digest now (used on session-end)
+ */
+export async function flushDueNotifications(
+  config: NotificationConfig,
+  profileKey: string,
+  flushDigest = false,
+  now: Date = new Date(),
+): Promise<void> {
+  const rules = getDeliveryRules(config);
+  if (!rules || !existsSync(getStatePath())) return;
+
+  try {
+    const due = updateProfileState(profileKey, (state) => takeDueDeliveries(rules, state, now, flushDigest));
+    const sends: Promise<unknown>[] = [];
+
+    if (due.digest) {
+      // Digests use the platform settings of their most frequent event
+      const [event] = (Object.entries(due.digest.counts) as Array<[NotificationEvent, number]>)
+        .sort((a, b) => b[1] - a[1])[0];
+      const payload: NotificationPayload = {
+        event,
+        sessionId: due.digest.sessions[due.digest.sessions.length - 1] ?? "",
+        message: formatDigest(due.digest, now),
+        timestamp: now.toISOString(),
+        projectName: due.digest.projects.length === 1 ? due.digest.projects[0] : undefined,
+      };
+      sends.push(dispatchNotifications(config, event, payload));
+    }
+
+    for (const reminder of due.reminders) {
+      const payload: NotificationPayload = {
+        event: "session-idle",
+        sessionId: reminder.sessionId,
+        message: "",
+        timestamp: now.toISOString(),
+        projectPath: reminder.projectPath,
+        projectName: reminder.projectName,
+        tmuxSession: reminder.tmuxSession,
+      };
+      payload.message = formatIdleReminder(payload, reminder.idleMs);
+      sends.push(dispatchNotifications(config, "session-idle", payload));
+    }
+
+    await Promise.all(sends);
+  } catch {
+    // Non-blocking: a late digest is sent on the next flush
+  }
+}
+
+/**
+ * Send due digests and reminders for every profile with pending state.
+ * Called by the stop and session-end hooks and periodically by the reply
+ * listener daemon.
+ *
+ * @param flushDigest - Send pending digests now (used on session-end)
+ */
+export async function flushAllDueNotifications(flushDigest = false): Promise<void> {
+  if (!existsSync(getStatePath())) return;
+
+  for (const profileKey of Object.keys(readState().profiles)) {
+    const config = getNotificationConfig(profileKey === DEFAULT_PROFILE_KEY ? undefined : profileKey);
+    if (config?.enabled) {
+      await flushDueNotifications(config, profileKey, flushDigest);
+    }
+  }
+}
+
+/**
+ * End a session's idle period (the user submitted a prompt), so its next
+ * idle notification starts a fresh escalation timer.
+ */
+export function markSessionActive(sessionId: string): void {
+  if (!existsSync(getStatePath())) return;
+
+  const profileKeys = Object.entries(readState().profiles)
+    .filter(([, profile]) => profile.idle?.[sessionId])
+    .map(([key]) => key);
+
+  for (const profileKey of profileKeys) {
+    updateProfileState(profileKey, (state) => {
+      delete state.idle[sessionId];
+    });
+  }
+}
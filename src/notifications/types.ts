@@ -2,8 +2,10 @@
  * Notification System Types
  *
  * Defines types for the multi-platform lifecycle notification system.
- * Supports Discord, Telegram, Slack, and generic webhooks across
- * session lifecycle events (start, stop, end, ask-user-question).
+ * Supports Discord, Telegram, Slack, Matrix, Microsoft Teams, ntfy, Gotify,
+ * email (SMTP), and generic webhooks across session lifecycle events
+ * (start, stop, end, ask-user-question), plus permission prompts that can be
+ * approved remotely.
  */
 
 /** Verbosity levels for notification filtering (ordered most to least verbose) */
@@ -16,7 +18,9 @@ export type NotificationEvent =
   | "session-end"
   | "session-idle"
   | "ask-user-question"
-  | "agent-call";
+  | "agent-call"
+  | "team-budget-exceeded"
+  | "permission-request";
 
 /** Supported notification platforms */
 export type NotificationPlatform =
@@ -25,6 +29,11 @@ export type NotificationPlatform =
   | "telegram"
   | "slack"
   | "slack-bot"
+  | "matrix"
+  | "teams"
+  | "ntfy"
+  | "gotify"
+  | "email"
   | "webhook";
 
 /** Discord webhook configuration */
@@ -99,6 +108,75 @@ export interface WebhookNotificationConfig {
   method?: "POST" | "PUT";
 }
 
+/** Matrix client-server API configuration */
+export interface MatrixNotificationConfig {
+  enabled: boolean;
+  /** Homeserver base URL, e.g. https://matrix.example.org (or env var: OMC_MATRIX_HOMESERVER) */
+  homeserverUrl?: string;
+  /** Access token of the bot account (or env var: OMC_MATRIX_ACCESS_TOKEN) */
+  accessToken?: string;
+  /** Room ID to send to, e.g. !abc123:example.org (or env var: OMC_MATRIX_ROOM_ID) */
+  roomId?: string;
+  /** Optional Matrix user ID to mention, e.g. @alice:example.org */
+  mention?: string;
+}
+
+/** Microsoft Teams configuration (Workflows webhook posting an Adaptive Card) */
+export interface TeamsNotificationConfig {
+  enabled: boolean;
+  /** Workflows "When a Teams webhook request is received" URL (or env var: OMC_TEAMS_WEBHOOK_URL) */
+  webhookUrl: string;
+  /** Optional card title (default: "oh-my-claudecode") */
+  title?: string;
+}
+
+/** ntfy push configuration */
+export interface NtfyNotificationConfig {
+  enabled: boolean;
+  /** Server base URL (default: https://ntfy.sh, or env var: OMC_NTFY_SERVER) */
+  serverUrl?: string;
+  /** Topic to publish to (or env var: OMC_NTFY_TOPIC) */
+  topic: string;
+  /** Access token for protected topics (or env var: OMC_NTFY_TOKEN) */
+  token?: string;
+  /** Message priority 1-5 (default: 3) */
+  priority?: number;
+  /** Optional tags (emoji shortcodes or labels) */
+  tags?: string[];
+}
+
+/** Gotify push configuration */
+export interface GotifyNotificationConfig {
+  enabled: boolean;
+  /** Server base URL (or env var: OMC_GOTIFY_SERVER) */
+  serverUrl: string;
+  /** Application token (or env var: OMC_GOTIFY_TOKEN) */
+  appToken: string;
+  /** Message priority 0-10 (default: 5) */
+  priority?: number;
+}
+
+/** Email (SMTP) configuration */
+export interface EmailNotificationConfig {
+  enabled: boolean;
+  /** SMTP server host (or env var: OMC_SMTP_HOST) */
+  host: string;
+  /** SMTP port (default: 465 when secure, otherwise 587) */
+  port?: number;
+  /** Connect over TLS from the start (default: true for port 465). Otherwise STARTTLS is required */
+  secure?: boolean;
+  /** SMTP username (or env var: OMC_SMTP_USER) */
+  username?: string;
+  /** SMTP password (or env var: OMC_SMTP_PASSWORD) */
+  password?: string;
+  /** Sender address (or env var: OMC_EMAIL_FROM) */
+  from: string;
+  /** Recipient addresses (or env var: OMC_EMAIL_TO, comma-separated) */
+  to: string[];
+  /** Optional subject prefix (default: "[omc]") */
+  subjectPrefix?: string;
+}
+
 /** Platform config union */
 export type PlatformConfig =
   | DiscordNotificationConfig
@@ -106,6 +184,11 @@ export type PlatformConfig =
   | TelegramNotificationConfig
   | SlackNotificationConfig
   | SlackBotNotificationConfig
+  | MatrixNotificationConfig
+  | TeamsNotificationConfig
+  | NtfyNotificationConfig
+  | GotifyNotificationConfig
+  | EmailNotificationConfig
   | WebhookNotificationConfig;
 
 /** Per-event notification configuration */
@@ -118,7 +201,44 @@ export interface EventNotificationConfig {
   telegram?: TelegramNotificationConfig;
   slack?: SlackNotificationConfig;
   "slack-bot"?: SlackBotNotificationConfig;
+  matrix?: MatrixNotificationConfig;
+  teams?: TeamsNotificationConfig;
+  ntfy?: NtfyNotificationConfig;
+  gotify?: GotifyNotificationConfig;
+  email?: EmailNotificationConfig;
   webhook?: WebhookNotificationConfig;
+  /** Send at most one message per this many seconds; later events in the window go to the digest */
+  throttleSeconds?: number;
+  /** Never send individually; always collect into the digest */
+  digestOnly?: boolean;
+}
+
+/** Batching of held (throttled, digest-only or quiet-hours) events */
+export interface NotificationDigestConfig {
+  /** Collect held events into digests; when false they are dropped (default: true) */
+  enabled?: boolean;
+  /** Minutes between digests (default: 10) */
+  intervalMinutes?: number;
+}
+
+/** Period in which only allowed events are sent; the rest are held for the digest */
+export interface QuietHoursConfig {
+  /** Start of the quiet period, 24h "HH:MM" */
+  start: string;
+  /** End of the quiet period, 24h "HH:MM" (may be earlier than start to span midnight) */
+  end: string;
+  /** IANA time zone, e.g. "Europe/Berlin" (default: system time zone) */
+  timezone?: string;
+  /** Events still sent during quiet hours (default: ["permission-request"]) */
+  allowEvents?: NotificationEvent[];
+}
+
+/** Mention escalation for idle sessions */
+export interface MentionEscalationConfig {
+  /** Idle notifications mention nobody until the session has been idle this long */
+  mentionAfterMinutes: number;
+  /** Send a reminder with the mention once the threshold passes (default: true) */
+  remind?: boolean;
 }
 
 /** Top-level notification configuration (stored in .omc-config.json) */
@@ -135,6 +255,11 @@ export interface NotificationConfig {
   telegram?: TelegramNotificationConfig;
   slack?: SlackNotificationConfig;
   "slack-bot"?: SlackBotNotificationConfig;
+  matrix?: MatrixNotificationConfig;
+  teams?: TeamsNotificationConfig;
+  ntfy?: NtfyNotificationConfig;
+  gotify?: GotifyNotificationConfig;
+  email?: EmailNotificationConfig;
   webhook?: WebhookNotificationConfig;
 
   /** Per-event configuration */
@@ -145,7 +270,16 @@ export interface NotificationConfig {
     "session-idle"?: EventNotificationConfig;
     "ask-user-question"?: EventNotificationConfig;
     "agent-call"?: EventNotificationConfig;
+    "team-budget-exceeded"?: EventNotificationConfig;
+    "permission-request"?: EventNotificationConfig;
   };
+
+  /** Digest batching for held events */
+  digest?: NotificationDigestConfig;
+  /** Quiet hours */
+  quietHours?: QuietHoursConfig;
+  /** Mention escalation for session-idle */
+  escalation?: MentionEscalationConfig;
 }
 
 /** Payload sent with each notification */
@@ -192,6 +326,20 @@ export interface NotificationPayload {
   agentName?: string;
   /** Agent type for agent-call events (e.g., "oh-my-claudecode:executor") */
   agentType?: string;
+  /** Team name for team-budget-exceeded events */
+  teamName?: string;
+  /** Tool waiting for permission (for permission-request events) */
+  toolName?: string;
+  /** One-line description of the tool call (for permission-request events) */
+  toolSummary?: string;
+  /** Approval request ID; bot platforms attach Approve/Deny buttons when set */
+  approvalId?: string;
+  /** Files changed in the working tree (session-end) */
+  changedFiles?: string[];
+  /** Incomplete todo items (session-end) */
+  incompleteTodos?: string[];
+  /** Agents spawned during the session (session-end) */
+  agents?: NotificationAgentSummary[];
   /** Captured tmux pane content (last N lines) */
   tmuxTail?: string;
   /** Reply channel name (from OPENCLAW_REPLY_CHANNEL env var) */
@@ -200,8 +348,27 @@ export interface NotificationPayload {
   replyTarget?: string;
   /** Reply thread ID (from OPENCLAW_REPLY_THREAD env var) */
   replyThread?: string;
+  /** Slack Block Kit blocks rendered from a "blocks" template (slack, slack-bot) */
+  slackBlocks?: Record<string, unknown>[];
+  /** Discord embeds rendered from an "embed" template (discord, discord-bot) */
+  discordEmbeds?: Record<string, unknown>[];
+  /** Telegram parse mode set by an "html" template (overrides parseMode) */
+  telegramParseMode?: "HTML";
+}
+
+/** One spawned agent, as listed in notification payloads */
+export interface NotificationAgentSummary {
+  type: string;
+  status: "running" | "completed" | "failed";
+  durationMs?: number;
 }
 
+/** Message rendered from a per-platform template */
+export type PlatformMessage = Pick<
+  NotificationPayload,
+  "message" | "slackBlocks" | "discordEmbeds" | "telegramParseMode"
+>;
+
 /** Named notification profiles (keyed by profile name) */
 export type NotificationProfilesConfig = Record<string, NotificationConfig>;
 
@@ -234,6 +401,55 @@ export interface ReplyConfig {
   includePrefix: boolean;
   /** Authorized Discord user IDs (REQUIRED for Discord, empty = Discord disabled) */
   authorizedDiscordUserIds: string[];
+  /** Telegram user IDs allowed to run control commands like /cancel (empty = read-only commands) */
+  authorizedTelegramUserIds: string[];
+  /** Slack member IDs allowed to run control commands like /cancel (empty = read-only commands) */
+  authorizedSlackUserIds: string[];
+  /** Handle /status, /cancel, /approve, ... replies as commands instead of injecting them (default: true) */
+  commandsEnabled: boolean;
+}
+
+/** Remote approval of permission prompts (notifications.reply.remoteApproval) */
+export interface RemoteApprovalConfig {
+  enabled: boolean;
+  /** Seconds to wait for Approve/Deny before giving up (default: 300) */
+  timeoutSeconds: number;
+  /** Decision when nobody answers in time: fall back to the terminal prompt (default) or deny */
+  onTimeout: "ask" | "deny";
+}
+
+/** Events held back by delivery rules, summarized in a digest message */
+export interface NotificationDigest {
+  /** ISO timestamp of the first held event */
+  since: string;
+  /** Held events by type */
+  counts: Partial<Record<NotificationEvent, number>>;
+  /** Spawned agents by name (from agent-call) */
+  agents: Record<string, number>;
+  /** Projects and sessions the held events came from */
+  projects: string[];
+  sessions: string[];
+}
+
+/** Validated throttle, digest, quiet-hours and escalation rules of one profile */
+export interface DeliveryRules {
+  /** Per-event throttle windows in milliseconds */
+  throttleMs: Partial<Record<NotificationEvent, number>>;
+  /** Events that are only ever sent as part of a digest */
+  digestOnly: NotificationEvent[];
+  /** Digest interval in milliseconds, or null when held events are dropped */
+  digestIntervalMs: number | null;
+  quietHours: {
+    /** Minutes after midnight */
+    start: number;
+    end: number;
+    timezone?: string;
+    allowEvents: NotificationEvent[];
+  } | null;
+  escalation: {
+    mentionAfterMs: number;
+    remind: boolean;
+  } | null;
 }
 
 // ============================================================================
@@ -1,10 +1,20 @@
 /**
- * Custom Integration Validation
+ * Notification Config Validation
  * 
- * Validates custom integration configurations for security and correctness.
+ * Validates custom integration and native platform (Matrix, Teams, ntfy,
+ * Gotify, email) configurations for security and correctness.
  */
 
-import type { CustomIntegration, WebhookIntegrationConfig, CliIntegrationConfig } from './types.js';
+import type {
+  CustomIntegration,
+  WebhookIntegrationConfig,
+  CliIntegrationConfig,
+  MatrixNotificationConfig,
+  TeamsNotificationConfig,
+  NtfyNotificationConfig,
+  GotifyNotificationConfig,
+  EmailNotificationConfig,
+} from './types.js';
 
 export interface ValidationResult {
   valid: boolean;
@@ -195,3 +205,177 @@ export function sanitizeArgument(arg: string): string {
   
   return sanitized;
 }
+
+// ============================================================================
+// NATIVE PLATFORM VALIDATION
+// ============================================================================
+
+/** Hosts that serve Teams Workflows and legacy connector webhooks */
+const TEAMS_WEBHOOK_HOST_SUFFIXES = ['.logic.azure.com', '.api.powerplatform.com', '.webhook.office.com'];
+const MATRIX_ROOM_ID_PATTERN = /^![^:\s]+:[^\s]+$/;
+const MATRIX_USER_ID_PATTERN = /^@[^:\s]+:[^\s]+$/;
+const NTFY_TOPIC_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const NTFY_TAG_PATTERN = /^[A-Za-z0-9_+-]{1,64}$/;
+const TOKEN_PATTERN = /^[A-Za-z0-9_.~+/=-]+$/;
+const HOSTNAME_PATTERN = /^[A-Za-z0-9.-]+$/;
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>,;"]+@[A-Za-z0-9.-]+$/;
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+}
+
+/**
+ * Validate a platform server URL. HTTPS is required except for localhost.
+ */
+function validateServerUrl(value: string | undefined, label: string): string[] {
+  if (!value) return [`${label} is required`];
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopbackHost(url.hostname))) {
+      return [`${label} must use HTTPS (except localhost for development)`];
+    }
+    if (url.username || url.password) {
+      return [`${label} must not contain credentials`];
+    }
+    return [];
+  } catch {
+    return [`Invalid ${label}`];
+  }
+}
+
+function validateToken(value: string | undefined, label: string): string[] {
+  if (!value) return [`${label} is required`];
+  if (!TOKEN_PATTERN.test(value)) return [`${label} contains invalid characters`];
+  return [];
+}
+
+function validatePriority(value: number | undefined, min: number, max: number): string[] {
+  if (value === undefined) return [];
+  if (!Number.isInteger(value) || value < min || value > max) {
+    return [`Priority must be an integer between ${min} and ${max}`];
+  }
+  return [];
+}
+
+function result(errors: string[]): ValidationResult {
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validate a Matrix configuration.
+ */
+export function validateMatrixConfig(config: MatrixNotificationConfig): ValidationResult {
+  const errors = [
+    ...validateServerUrl(config.homeserverUrl, 'Matrix homeserver URL'),
+    ...validateToken(config.accessToken, 'Matrix access token'),
+  ];
+  if (!config.roomId) {
+    errors.push('Matrix room ID is required');
+  } else if (!MATRIX_ROOM_ID_PATTERN.test(config.roomId)) {
+    errors.push('Matrix room ID must look like !room:server');
+  }
+  if (config.mention && !MATRIX_USER_ID_PATTERN.test(config.mention)) {
+    errors.push('Matrix mention must be a user ID like @user:server');
+  }
+  return result(errors);
+}
+
+/**
+ * Validate a Microsoft Teams configuration.
+ * The webhook must be a Workflows (Power Automate) or Office webhook URL.
+ */
+export function validateTeamsConfig(config: TeamsNotificationConfig): ValidationResult {
+  const errors: string[] = [];
+  if (!config.webhookUrl) {
+    errors.push('Teams webhook URL is required');
+  } else {
+    try {
+      const url = new URL(config.webhookUrl);
+      if (url.protocol !== 'https:') {
+        errors.push('Teams webhook URL must use HTTPS');
+      } else if (!TEAMS_WEBHOOK_HOST_SUFFIXES.some((suffix) => url.hostname.endsWith(suffix))) {
+        errors.push('Teams webhook URL must be a Workflows or Office webhook URL');
+      }
+    } catch {
+      errors.push('Invalid Teams webhook URL');
+    }
+  }
+  if (config.title !== undefined && /[\r\n\0]/.test(config.title)) {
+    errors.push('Teams title contains invalid characters');
+  }
+  return result(errors);
+}
+
+/**
+ * Validate an ntfy configuration.
+ */
+export function validateNtfyConfig(config: NtfyNotificationConfig): ValidationResult {
+  const errors = config.serverUrl ? validateServerUrl(config.serverUrl, 'ntfy server URL') : [];
+  if (!config.topic) {
+    errors.push('ntfy topic is required');
+  } else if (!NTFY_TOPIC_PATTERN.test(config.topic)) {
+    errors.push('ntfy topic must be 1-64 letters, digits, hyphens or underscores');
+  }
+  if (config.token !== undefined) {
+    errors.push(...validateToken(config.token, 'ntfy token'));
+  }
+  errors.push(...validatePriority(config.priority, 1, 5));
+  for (const tag of config.tags ?? []) {
+    if (!NTFY_TAG_PATTERN.test(tag)) {
+      errors.push(`ntfy tag contains invalid characters: "${tag}"`);
+    }
+  }
+  return result(errors);
+}
+
+/**
+ * Validate a Gotify configuration.
+ */
+export function validateGotifyConfig(config: GotifyNotificationConfig): ValidationResult {
+  return result([
+    ...validateServerUrl(config.serverUrl, 'Gotify server URL'),
+    ...validateToken(config.appToken, 'Gotify app token'),
+    ...validatePriority(config.priority, 0, 10),
+  ]);
+}
+
+/**
+ * Validate an email (SMTP) configuration.
+ * Addresses and the subject prefix end up in message headers, so line
+ * breaks are rejected to prevent header injection.
+ */
+export function validateEmailConfig(config: EmailNotificationConfig): ValidationResult {
+  const errors: string[] = [];
+  if (!config.host) {
+    errors.push('SMTP host is required');
+  } else if (!HOSTNAME_PATTERN.test(config.host)) {
+    errors.push('SMTP host contains invalid characters');
+  }
+  if (config.port !== undefined && (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535)) {
+    errors.push('SMTP port must be between 1 and 65535');
+  }
+  if (!config.from) {
+    errors.push('Sender address is required');
+  } else if (!EMAIL_ADDRESS_PATTERN.test(config.from)) {
+    errors.push(`Invalid sender address: "${config.from}"`);
+  }
+  if (!Array.isArray(config.to) || config.to.length === 0) {
+    errors.push('At least one recipient address is required');
+  } else {
+    for (const address of config.to) {
+      if (!EMAIL_ADDRESS_PATTERN.test(address)) {
+        errors.push(`Invalid recipient address: "${address}"`);
+      }
+    }
+  }
+  if (Boolean(config.username) !== Boolean(config.password)) {
+    errors.push('SMTP username and password must be set together');
+  }
+  if (config.username !== undefined && /[\r\n\0]/.test(config.username)) {
+    errors.push('SMTP username contains invalid characters');
+  }
+  if (config.subjectPrefix !== undefined && /[\r\n\0]/.test(config.subjectPrefix)) {
+    errors.push('Subject prefix contains invalid characters');
+  }
+  return result(errors);
+}
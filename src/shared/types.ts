@@ -176,6 +176,168 @@ export interface PluginConfig {
     /** Suppress heavy orchestration modes (ralph/autopilot/team/ultrawork) for small tasks. Default: true */
     suppressHeavyModesForSmallTasks?: boolean;
   };
+
+  // Shared token budget for injected context (rules, READMEs, memory, notepad, skills)
+  contextBudget?: {
+    /** Plan injections against the budget. Default: true */
+    enabled?: boolean;
+    /** Tokens a single injection may add. Default: 6000 */
+    maxTokensPerInjection?: number;
+    /** Tokens all injectors may add between compactions. Default: 40000 */
+    maxSessionTokens?: number;
+    /** Context usage ratio at which compaction is expected. Default: 0.85 */
+    compactionThreshold?: number;
+    /** Below this many predicted turns before compaction, inject only critical and high priority context. Default: 5 */
+    lowHeadroomTurns?: number;
+  };
+
+  // User-defined magic keywords for the keyword-detector hook
+  keywords?: KeywordRegistryConfig;
+
+  // Autopilot pipeline stage order and user-defined stages
+  pipeline?: PipelineStagesConfig;
+
+  // Additional CLI worker contracts for /team (keyed by agent type, e.g. "aider")
+  cliWorkers?: Record<string, CliWorkerContractConfig>;
+
+  // Team cost accounting (token estimates and model price overrides)
+  costAccounting?: {
+    /** Characters per token used when a CLI does not report usage. Default: 4 */
+    charsPerToken?: number;
+    /** Per-model prices in USD per million tokens, keyed by model name or prefix */
+    prices?: Record<string, ModelPriceConfig>;
+  };
+
+  // Policy-driven autoscaling of omc team workers
+  teamAutoscale?: TeamAutoscaleConfig;
+}
+
+/**
+ * Autoscaling defaults for omc team. Policy fields override the built-in
+ * policy; per-team `autoscale` settings override these.
+ */
+export interface TeamAutoscaleConfig {
+  /** Autoscale every team started with omc team start or omc_run_team_start. Default: false */
+  enabled?: boolean;
+  minWorkers?: number;
+  maxWorkers?: number;
+  /** Ready tasks per healthy worker before adding capacity */
+  tasksPerWorker?: number;
+  scaleUpStep?: number;
+  idleDrainAfterMs?: number;
+  cooldownMs?: number;
+  /** Estimated cost of one running worker per hour (USD) */
+  workerHourlyCostUsd?: number;
+  /** Hourly budget for the whole team (USD); requires workerHourlyCostUsd */
+  maxHourlyCostUsd?: number;
+}
+
+/** Custom magic keywords and built-in keyword toggles */
+export interface KeywordRegistryConfig {
+  /** Built-in keywords to turn off (e.g. ["tdd", "deepsearch"]) */
+  disabled?: string[];
+  /** Custom keywords keyed by name; project entries override user entries field by field */
+  custom?: Record<string, CustomKeywordConfig>;
+}
+
+/**
+ * A user-defined magic keyword. Set one of `triggers` / `pattern` and
+ * exactly one of `skill`, `prompt` or `mode`.
+ */
+export interface CustomKeywordConfig {
+  /** Literal words or phrases, matched case-insensitively on word boundaries */
+  triggers?: string[];
+  /** Regular expression source (case-insensitive), instead of triggers */
+  pattern?: string;
+  /** Skill to invoke, e.g. "hotfix" or "oh-my-claudecode:ralph" */
+  skill?: string;
+  /** Arguments passed with the skill invocation */
+  args?: string;
+  /** Text injected into context */
+  prompt?: string;
+  /** Built-in mode to activate (e.g. "ralph"), as if its own keyword matched */
+  mode?: string;
+  /** Lower wins; built-ins are 10, 20, 30, ... in priority order. Default: 500 */
+  priority?: number;
+  /** Suppress for small tasks like heavy built-in modes. Default: false (mode keywords follow their mode) */
+  heavy?: boolean;
+  /** Suppress every lower-priority keyword when this one matches. Default: false */
+  exclusive?: boolean;
+  /** Set false to turn off a keyword inherited from user config. Default: true */
+  enabled?: boolean;
+  description?: string;
+}
+
+/** Autopilot pipeline layout */
+export interface PipelineStagesConfig {
+  /**
+   * Ordered stage ids, built-in (ralplan, execution, ralph, qa) or custom.
+   * Default: built-ins in canonical order followed by custom stages in definition order.
+   */
+  stages?: string[];
+  /** Custom stages keyed by id (lowercase, e.g. "security-review") */
+  custom?: Record<string, CustomStageConfig>;
+}
+
+/**
+ * A user-defined pipeline stage, run by the generic stage adapter.
+ * `prompt` may reference {{idea}}, {{directory}}, {{specPath}} and {{planPath}}.
+ */
+export interface CustomStageConfig {
+  /** Display name. Default: the id */
+  name?: string;
+  /** Stage instructions injected while the stage is active */
+  prompt: string;
+  /** Completion signal (UPPER_SNAKE_CASE). Default: PIPELINE_<ID>_COMPLETE */
+  signal?: string;
+  /** Skip the stage when any condition holds */
+  skipIf?: {
+    /** Environment variable that is set and non-empty */
+    env?: string;
+    /** Project-relative file that does not exist */
+    missingFile?: string;
+  };
+  /** Command that must exit 0 before the stage may complete */
+  verify?: {
+    command: string;
+    /** Default: 600 */
+    timeoutSeconds?: number;
+  };
+}
+
+/** Model price in USD per million tokens */
+export interface ModelPriceConfig {
+  input: number;
+  output: number;
+  /** Defaults to the input price */
+  cacheRead?: number;
+  /** Defaults to the input price */
+  cacheWrite?: number;
+}
+
+/**
+ * Declarative contract for a custom team worker CLI.
+ * Built-in agents (claude, codex, gemini) cannot be overridden.
+ */
+export interface CliWorkerContractConfig {
+  /** Binary name on PATH or absolute path */
+  binary: string;
+  /** Shown when the binary is missing */
+  installInstructions?: string;
+  /** Arguments always passed at launch (e.g. ["--yes-always"]) */
+  launchArgs?: string[];
+  /** Flag used to pass a model (e.g. "--model"). Model is ignored when unset. */
+  modelFlag?: string;
+  /** Whether the CLI accepts its task as a launch argument instead of TUI input */
+  supportsPromptMode?: boolean;
+  /** Flag preceding the prompt in prompt mode; positional when unset */
+  promptModeFlag?: string;
+  /** How to extract the final answer from raw output. Default: "text" */
+  outputParser?: 'text' | 'jsonl-last-message' | 'json-field';
+  /** Field read by the "json-field" parser. Default: "result" */
+  outputField?: string;
+  /** Worker capabilities used for task routing. Default: ["general"] */
+  capabilities?: string[];
 }
 
 export interface SessionState {
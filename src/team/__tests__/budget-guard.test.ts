@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const { notifyMock } = vi.hoisted(() => ({
+  notifyMock: vi.fn(async () => null),
+}));
+vi.mock('../../notifications/index.js', () => ({
+  notify: notifyMock,
+}));
+
+import {
+  validateBudgetLimits,
+  evaluateBudget,
+  initTeamBudget,
+  readTeamBudget,
+  isTeamBudgetPaused,
+  clearBudgetPause,
+  countTaskRetries,
+  checkTeamBudget,
+  describeBudgetBreach,
+} from '../budget-guard.js';
+import { readAuditLog } from '../audit-log.js';
+import { teamClaimTask } from '../team-ops.js';
+
+const STARTED = new Date('2026-03-01T00:00:00.000Z');
+
+describe('validateBudgetLimits', () => {
+  it('accepts empty and positive limits', () => {
+    expect(validateBudgetLimits(undefined)).toEqual([]);
+    expect(validateBudgetLimits({ maxWallClockMs: 60_000, maxTaskRetries: 3, maxCostUsd: 12.5 })).toEqual([]);
+  });
+
+  it('rejects negative, non-numeric and fractional retry limits', () => {
+    const errors = validateBudgetLimits({ maxWallClockMs: -1, maxTaskRetries: 1.5, maxCostUsd: 'ten' });
+    expect(errors).toEqual([
+      'maxWallClockMs must be a non-negative number',
+      'maxCostUsd must be a non-negative number',
+      'maxTaskRetries must be an integer',
+    ]);
+  });
+});
+
+describe('evaluateBudget', () => {
+  const usage = { elapsedMs: 10_000, taskRetries: 2, costUsd: 4 };
+
+  it('returns null under every ceiling', () => {
+    expect(evaluateBudget({ maxWallClockMs: 20_000, maxTaskRetries: 2, maxCostUsd: 5 }, usage)).toBeNull();
+  });
+
+  it('reports wall clock before retries and cost', () => {
+    expect(evaluateBudget({ maxWallClockMs: 10_000, maxTaskRetries: 0, maxCostUsd: 1 }, usage))
+      .toEqual({ limit: 'wall_clock', observed: 10_000, ceiling: 10_000 });
+    expect(evaluateBudget({ maxTaskRetries: 1, maxCostUsd: 1 }, usage))
+      .toEqual({ limit: 'task_retries', observed: 2, ceiling: 1 });
+    expect(evaluateBudget({ maxCostUsd: 4 }, usage))
+      .toEqual({ limit: 'cost', observed: 4, ceiling: 4 });
+  });
+
+  it('describes breaches for humans', () => {
+    expect(describeBudgetBreach({ limit: 'cost', observed: 12.345, ceiling: 10 }))
+      .toBe('estimated cost $12.35 reached ceiling $10.00');
+    expect(describeBudgetBreach({ limit: 'wall_clock', observed: 7_260_000, ceiling: 7_200_000 }))
+      .toBe('wall clock 121m reached ceiling 120m');
+  });
+});
+
+describe('budget state and watchdog', () => {
+  let cwd: string;
+  const teamName = 'budget-team';
+  const root = () => join(cwd, '.omc', 'state', 'team', teamName);
+
+  function writeJson(relPath: string, data: unknown): void {
+    const full = join(root(), relPath);
+    mkdirSync(join(full, '..'), { recursive: true });
+    writeFileSync(full, JSON.stringify(data));
+  }
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omc-budget-guard-'));
+    notifyMock.mockClear();
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('does not write state when no limit is configured', () => {
+    expect(initTeamBudget(teamName, cwd, {})).toBeNull();
+    expect(existsSync(join(root(), 'budget.json'))).toBe(false);
+    expect(() => initTeamBudget(teamName, cwd, { maxCostUsd: -5 })).toThrow('Invalid team budget');
+  });
+
+  it('sums retry counts from failure sidecars', () => {
+    writeJson('tasks/1.failure.json', { taskId: '1', retryCount: 2 });
+    writeJson('tasks/2.failure.json', { taskId: '2', retryCount: 1 });
+    writeJson('tasks/task-3.json', { id: '3', status: 'pending' });
+    expect(countTaskRetries(teamName, cwd)).toBe(3);
+  });
+
+  it('pauses once, audits and notifies when a ceiling is crossed', async () => {
+    initTeamBudget(teamName, cwd, { maxTaskRetries: 2 }, STARTED);
+    writeJson('tasks/1.failure.json', { taskId: '1', retryCount: 3 });
+
+    const now = STARTED.getTime() + 60_000;
+    const first = await checkTeamBudget(teamName, cwd, now);
+    expect(first).toMatchObject({
+      newlyPaused: true,
+      breach: { limit: 'task_retries', observed: 3, ceiling: 2 },
+      usage: { elapsedMs: 60_000, taskRetries: 3, costUsd: 0 },
+    });
+    expect(isTeamBudgetPaused(teamName, cwd)).toBe(true);
+
+    const audit = readAuditLog(cwd, teamName, { eventType: 'budget_exceeded' });
+    expect(audit).toHaveLength(1);
+    expect(audit[0].details).toMatchObject({ limit: 'task_retries', observed: 3 });
+    expect(notifyMock).toHaveBeenCalledWith('team-budget-exceeded', expect.objectContaining({
+      teamName,
+      reason: 'task retries 3 exceeded ceiling 2',
+    }));
+
+    const second = await checkTeamBudget(teamName, cwd, now + 5_000);
+    expect(second?.newlyPaused).toBe(false);
+    expect(second?.breach?.limit).toBe('task_retries');
+    expect(readAuditLog(cwd, teamName, { eventType: 'budget_exceeded' })).toHaveLength(1);
+    expect(notifyMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses task claims while paused and resumes after the pause is cleared', async () => {
+    writeJson('config.json', { name: teamName, workers: [{ name: 'worker-1' }] });
+    writeJson('tasks/task-1.json', { id: '1', subject: 'a', description: 'a', status: 'pending', version: 1 });
+    initTeamBudget(teamName, cwd, { maxWallClockMs: 1_000 }, STARTED);
+    await checkTeamBudget(teamName, cwd, STARTED.getTime() + 2_000);
+
+    expect(await teamClaimTask(teamName, '1', 'worker-1', null, cwd))
+      .toEqual({ ok: false, error: 'budget_paused' });
+
+    expect(clearBudgetPause(teamName, cwd, { maxWallClockMs: 60 * 60_000 })).toBe(true);
+    expect(readTeamBudget(teamName, cwd)).toEqual({
+      limits: { maxWallClockMs: 3_600_000 },
+      started_at: STARTED.toISOString(),
+    });
+    const claim = await teamClaimTask(teamName, '1', 'worker-1', null, cwd);
+    expect(claim.ok).toBe(true);
+  });
+
+  it('returns null for teams without a budget', async () => {
+    expect(await checkTeamBudget('no-budget', cwd)).toBeNull();
+    expect(clearBudgetPause('no-budget', cwd)).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  validateCliContractConfig,
+  buildCliContract,
+  registerCliContract,
+  registerCliContractsFromConfig,
+  getCustomCliContract,
+  resetCliContractRegistry,
+} from '../cli-contract-registry.js';
+import {
+  getContract,
+  buildWorkerArgv,
+  getPromptModeArgs,
+  isKnownCliAgentType,
+  listCliAgentTypes,
+  parseCliOutput,
+  resolveValidatedBinaryPath,
+} from '../model-contract.js';
+import { getDefaultCapabilities } from '../capabilities.js';
+
+// Keep the developer's real config out of the registry
+vi.mock('../../config/loader.js', () => ({
+  loadConfig: () => ({}),
+}));
+
+describe('cli-contract-registry', () => {
+  beforeEach(() => {
+    resetCliContractRegistry();
+  });
+
+  afterEach(() => {
+    resetCliContractRegistry();
+  });
+
+  describe('validateCliContractConfig', () => {
+    it('accepts a minimal contract', () => {
+      expect(validateCliContractConfig('aider', { binary: 'aider' })).toEqual([]);
+    });
+
+    it('rejects built-in agent types', () => {
+      const errors = validateCliContractConfig('codex', { binary: 'my-codex' });
+      expect(errors.join()).toContain('built in');
+    });
+
+    it('rejects unsafe binaries and malformed fields', () => {
+      const errors = validateCliContractConfig('Bad Type', {
+        binary: 'aider; rm -rf /',
+        launchArgs: 'not-an-array',
+        modelFlag: 'model',
+        outputParser: 'xml',
+        capabilities: ['code-edit', 'mind-reading'],
+      });
+      expect(errors).toHaveLength(6);
+      expect(errors.join('\n')).toContain('unknown capabilities: mind-reading');
+    });
+
+    it('allows absolute binary paths', () => {
+      expect(validateCliContractConfig('tool', { binary: '/opt/tools/bin/tool' })).toEqual([]);
+    });
+  });
+
+  describe('buildCliContract', () => {
+    it('appends the model flag and extra flags after launch args', () => {
+      const contract = buildCliContract('aider', {
+        binary: 'aider',
+        launchArgs: ['--yes-always', '--no-auto-commits'],
+        modelFlag: '--model',
+      });
+      expect(contract.buildLaunchArgs('sonnet', ['--verbose'])).toEqual([
+        '--yes-always', '--no-auto-commits', '--model', 'sonnet', '--verbose',
+      ]);
+      expect(contract.buildLaunchArgs()).toEqual(['--yes-always', '--no-auto-commits']);
+    });
+
+    it('parses jsonl output by taking the last assistant message', () => {
+      const contract = buildCliContract('opencode', { binary: 'opencode', outputParser: 'jsonl-last-message' });
+      const raw = [
+        JSON.stringify({ role: 'assistant', content: 'first' }),
+        JSON.stringify({ role: 'assistant', content: 'final answer' }),
+        'trailing noise',
+      ].join('\n');
+      expect(contract.parseOutput(raw)).toBe('final answer');
+    });
+
+    it('parses a named field from JSON output', () => {
+      const contract = buildCliContract('tool', { binary: 'tool', outputParser: 'json-field', outputField: 'answer' });
+      expect(contract.parseOutput('{"answer":"42"}')).toBe('42');
+      expect(contract.parseOutput('  plain text  ')).toBe('plain text');
+    });
+
+    it('throws on invalid config', () => {
+      expect(() => buildCliContract('claude', { binary: 'claude' })).toThrow('Invalid CLI worker contract "claude"');
+    });
+  });
+
+  describe('registerCliContractsFromConfig', () => {
+    it('registers valid entries and reports invalid ones', () => {
+      const rejected = registerCliContractsFromConfig({
+        cliWorkers: {
+          aider: { binary: 'aider' },
+          gemini: { binary: 'gemini' },
+        },
+      });
+      expect(rejected.map(r => r.agentType)).toEqual(['gemini']);
+      expect(getCustomCliContract('aider')?.binary).toBe('aider');
+      expect(getCustomCliContract('gemini')).toBeUndefined();
+    });
+  });
+
+  describe('integration with model-contract', () => {
+    beforeEach(() => {
+      registerCliContract('aider', {
+        binary: '/opt/aider/bin/aider',
+        launchArgs: ['--yes-always'],
+        modelFlag: '--model',
+        supportsPromptMode: true,
+        promptModeFlag: '--message',
+        capabilities: ['code-edit', 'refactoring'],
+      });
+    });
+
+    it('resolves custom contracts through getContract', () => {
+      expect(getContract('aider').binary).toBe('/opt/aider/bin/aider');
+      expect(isKnownCliAgentType('aider')).toBe(true);
+      expect(isKnownCliAgentType('unknown-cli')).toBe(false);
+      expect(listCliAgentTypes()).toEqual(['claude', 'codex', 'gemini', 'aider']);
+    });
+
+    it('lists custom types in the unknown agent error', () => {
+      expect(() => getContract('unknown-cli')).toThrow('Supported: claude, codex, gemini, aider');
+    });
+
+    it('builds worker argv and prompt-mode args from the custom contract', () => {
+      expect(buildWorkerArgv('aider', { teamName: 'my-team', workerName: 'worker-1', cwd: '/tmp', model: 'sonnet' }))
+        .toEqual(['/opt/aider/bin/aider', '--yes-always', '--model', 'sonnet']);
+      expect(getPromptModeArgs('aider', 'do the thing')).toEqual(['--message', 'do the thing']);
+      expect(parseCliOutput('aider', '  done \n')).toBe('done');
+    });
+
+    it('pins absolute binaries in team preflight', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(resolveValidatedBinaryPath('aider')).toBe('/opt/aider/bin/aider');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('non-standard path'));
+      warn.mockRestore();
+
+      registerCliContract('dropper', { binary: '/tmp/dropper/bin/dropper' });
+      expect(() => resolveValidatedBinaryPath('dropper')).toThrow('untrusted location');
+    });
+
+    it('uses contract capabilities for the tmux backend', () => {
+      expect(getDefaultCapabilities('tmux-aider')).toEqual(['code-edit', 'refactoring']);
+      expect(getDefaultCapabilities('tmux-unregistered')).toEqual(['general']);
+    });
+  });
+});
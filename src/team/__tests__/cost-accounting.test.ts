@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseClaudeUsage,
+  parseCodexUsage,
+  parseGeminiUsage,
+  parseReportedUsage,
+  estimateTokenUsage,
+  resolveModelPrice,
+  computeCostUsd,
+  formatUsd,
+  DEFAULT_MODEL_PRICES,
+} from '../cost-accounting.js';
+
+describe('cost-accounting', () => {
+  describe('parseClaudeUsage', () => {
+    it('sums transcript usage once per message id', () => {
+      const usage = { input_tokens: 10, output_tokens: 20, cache_read_input_tokens: 300, cache_creation_input_tokens: 40 };
+      const transcript = [
+        JSON.stringify({ type: 'user', message: { role: 'user', content: 'hi' } }),
+        JSON.stringify({ type: 'assistant', message: { id: 'msg_1', usage } }),
+        // Same message streamed as a second content block
+        JSON.stringify({ type: 'assistant', message: { id: 'msg_1', usage } }),
+        JSON.stringify({ type: 'assistant', message: { id: 'msg_2', usage } }),
+      ].join('\n');
+      expect(parseClaudeUsage(transcript)).toEqual({
+        inputTokens: 20,
+        outputTokens: 40,
+        cacheReadTokens: 600,
+        cacheWriteTokens: 80,
+        source: 'reported',
+      });
+    });
+
+    it('reads a --output-format json result', () => {
+      const result = JSON.stringify({ type: 'result', result: 'done', usage: { input_tokens: 5, output_tokens: 7 } });
+      expect(parseClaudeUsage(result)).toMatchObject({ inputTokens: 5, outputTokens: 7 });
+    });
+
+    it('returns null without usage', () => {
+      expect(parseClaudeUsage('plain text answer')).toBeNull();
+    });
+  });
+
+  describe('parseCodexUsage', () => {
+    it('sums turn.completed usage and separates cached input', () => {
+      const stream = [
+        JSON.stringify({ type: 'thread.started', thread_id: 't' }),
+        JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'ok' } }),
+        JSON.stringify({ type: 'turn.completed', usage: { input_tokens: 1000, cached_input_tokens: 400, output_tokens: 50 } }),
+        JSON.stringify({ type: 'turn.completed', usage: { input_tokens: 500, cached_input_tokens: 0, output_tokens: 25 } }),
+      ].join('\n');
+      expect(parseCodexUsage(stream)).toEqual({
+        inputTokens: 1100,
+        outputTokens: 75,
+        cacheReadTokens: 400,
+        cacheWriteTokens: 0,
+        source: 'reported',
+      });
+    });
+
+    it('prefers the last running token_count total', () => {
+      const stream = [
+        JSON.stringify({ type: 'event_msg', payload: { type: 'token_count', info: { total_token_usage: { input_tokens: 10, output_tokens: 1 } } } }),
+        JSON.stringify({ type: 'event_msg', payload: { type: 'token_count', info: { total_token_usage: { input_tokens: 90, cached_input_tokens: 30, output_tokens: 9 } } } }),
+      ].join('\n');
+      expect(parseCodexUsage(stream)).toMatchObject({ inputTokens: 60, cacheReadTokens: 30, outputTokens: 9 });
+    });
+  });
+
+  describe('parseGeminiUsage', () => {
+    it('reads pretty-printed stats output', () => {
+      const output = JSON.stringify({
+        response: 'done',
+        stats: { models: { 'gemini-2.5-pro': { tokens: { prompt: 800, cached: 200, candidates: 100, thoughts: 50 } } } },
+      }, null, 2);
+      expect(parseGeminiUsage(output)).toMatchObject({ inputTokens: 600, cacheReadTokens: 200, outputTokens: 150 });
+      expect(parseReportedUsage('gemini', 'plain text')).toBeNull();
+    });
+  });
+
+  it('estimates tokens from character counts', () => {
+    expect(estimateTokenUsage(401, 80)).toEqual({
+      inputTokens: 101,
+      outputTokens: 20,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      source: 'estimated',
+    });
+    expect(estimateTokenUsage(300, 300, 3).inputTokens).toBe(100);
+  });
+
+  describe('resolveModelPrice', () => {
+    it('uses the longest matching key', () => {
+      expect(resolveModelPrice('claude-opus-4-6')).toBe(DEFAULT_MODEL_PRICES['claude-opus-4-6']);
+      expect(resolveModelPrice('claude-opus-4-1-20250805')).toBe(DEFAULT_MODEL_PRICES['claude-opus-4']);
+      expect(resolveModelPrice('us.anthropic.claude-sonnet-4-6-v1:0')).toBe(DEFAULT_MODEL_PRICES['claude-sonnet-4']);
+      expect(resolveModelPrice('gpt-5.3-codex')).toBe(DEFAULT_MODEL_PRICES['gpt-5']);
+    });
+
+    it('returns null for unknown models and honours overrides', () => {
+      expect(resolveModelPrice('mystery-model')).toBeNull();
+      const prices = { ...DEFAULT_MODEL_PRICES, 'mystery-model': { input: 1, output: 2 } };
+      expect(resolveModelPrice('mystery-model', prices)).toEqual({ input: 1, output: 2 });
+    });
+  });
+
+  it('computes cost with cache prices defaulting to input', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 0, source: 'reported' as const };
+    expect(computeCostUsd(usage, { input: 3, output: 15, cacheRead: 0.3 })).toBeCloseTo(3 + 1.5 + 0.3, 10);
+    expect(computeCostUsd(usage, { input: 2, output: 10 })).toBeCloseTo(2 + 1 + 2, 10);
+    expect(formatUsd(0.01234)).toBe('$0.0123');
+    expect(formatUsd(12.345)).toBe('$12.35');
+  });
+});
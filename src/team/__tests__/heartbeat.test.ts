@@ -4,7 +4,7 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   writeHeartbeat, readHeartbeat, listHeartbeats,
-  isWorkerAlive, deleteHeartbeat, cleanupTeamHeartbeats
+  isWorkerAlive, deleteHeartbeat, cleanupTeamHeartbeats, getWorkerIdleMs
 } from '../heartbeat.js';
 import type { HeartbeatData } from '../types.js';
 
@@ -46,6 +46,30 @@ describe('writeHeartbeat / readHeartbeat', () => {
   });
 });
 
+describe('idle tracking', () => {
+  it('keeps idleSince from the first idle poll', () => {
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ lastPollAt: '2026-01-01T00:00:00.000Z' }));
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ lastPollAt: '2026-01-01T00:01:00.000Z' }));
+    const read = readHeartbeat(TEST_DIR, TEST_TEAM, 'w1');
+    expect(read?.idleSince).toBe('2026-01-01T00:00:00.000Z');
+    expect(getWorkerIdleMs(read, new Date('2026-01-01T00:02:00.000Z').getTime())).toBe(120_000);
+  });
+
+  it('resets idleSince after the worker executes a task', () => {
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ lastPollAt: '2026-01-01T00:00:00.000Z' }));
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ status: 'executing', currentTaskId: '1', lastPollAt: '2026-01-01T00:01:00.000Z' }));
+    expect(getWorkerIdleMs(readHeartbeat(TEST_DIR, TEST_TEAM, 'w1'))).toBeNull();
+
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ lastPollAt: '2026-01-01T00:05:00.000Z' }));
+    expect(readHeartbeat(TEST_DIR, TEST_TEAM, 'w1')?.idleSince).toBe('2026-01-01T00:05:00.000Z');
+  });
+
+  it('treats quarantined workers as not idle', () => {
+    writeHeartbeat(TEST_DIR, makeHeartbeat({ status: 'quarantined', consecutiveErrors: 3 }));
+    expect(getWorkerIdleMs(readHeartbeat(TEST_DIR, TEST_TEAM, 'w1'))).toBeNull();
+  });
+});
+
 describe('listHeartbeats', () => {
   it('lists all heartbeats for a team', () => {
     writeHeartbeat(TEST_DIR, makeHeartbeat({ workerName: 'w1' }));
@@ -3,8 +3,9 @@ import { mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { execFileSync } from 'child_process';
-import { checkMergeConflicts, mergeWorkerBranch, mergeAllWorkerBranches } from '../merge-coordinator.js';
+import { checkMergeConflicts, mergeWorkerBranch, mergeAllWorkerBranches, retryResolvedMerges } from '../merge-coordinator.js';
 import { createWorkerWorktree, cleanupTeamWorktrees } from '../git-worktree.js';
+import { readTask, listTaskIds, updateTask } from '../task-file-ops.js';
 
 describe('merge-coordinator', () => {
   let repoDir: string;
@@ -112,7 +113,103 @@ describe('merge-coordinator', () => {
     });
   });
 
+  describe('conflict resolution mode', () => {
+    function commitIn(dir: string, file: string, content: string, message: string): void {
+      writeFileSync(join(dir, file), content);
+      // Stage only the file: worktree metadata under .omc/ must stay untracked
+      execFileSync('git', ['add', file], { cwd: dir, stdio: 'pipe' });
+      execFileSync('git', ['commit', '-m', message], { cwd: dir, stdio: 'pipe' });
+    }
+
+    function makeConflict() {
+      const main = getMainBranch();
+      const wt = createWorkerWorktree(teamName, 'worker1', repoDir);
+      commitIn(wt.path, 'file1.ts', 'export const x = 100;\n', 'Worker change file1');
+      commitIn(repoDir, 'file1.ts', 'export const x = 200;\n', 'Main change file1');
+      return { main, wt };
+    }
+
+    it('creates a resolution task with the conflicting hunks', () => {
+      const { main, wt } = makeConflict();
+
+      const result = mergeWorkerBranch(wt.branch, main, repoDir, { conflictStrategy: 'resolve', teamName });
+      expect(result.success).toBe(false);
+      expect(result.resolutionTaskId).toBeDefined();
+
+      const task = readTask(teamName, result.resolutionTaskId!, { cwd: repoDir });
+      expect(task?.owner).toBe('worker1');
+      expect(task?.status).toBe('pending');
+      expect(task?.description).toContain('### file1.ts');
+      expect(task?.description).toContain('<<<<<<<');
+      expect(task?.metadata).toMatchObject({
+        kind: 'merge_conflict', branch: wt.branch, baseBranch: main, conflicts: ['file1.ts'], attempt: 1,
+        mergeStatus: 'awaiting_resolution',
+      });
+    });
+
+    it('does not open a second task while one is pending', () => {
+      const { main, wt } = makeConflict();
+      mergeWorkerBranch(wt.branch, main, repoDir, { conflictStrategy: 'resolve', teamName });
+      const second = mergeWorkerBranch(wt.branch, main, repoDir, { conflictStrategy: 'resolve', teamName });
+      expect(second.resolutionTaskId).toBeUndefined();
+      expect(listTaskIds(teamName, { cwd: repoDir })).toHaveLength(1);
+    });
+
+    it('retries the merge once the resolution task is completed', () => {
+      const { main, wt } = makeConflict();
+      const first = mergeWorkerBranch(wt.branch, main, repoDir, { conflictStrategy: 'resolve', teamName, resolver: 'lead' });
+      expect(readTask(teamName, first.resolutionTaskId!, { cwd: repoDir })?.owner).toBe('lead');
+
+      // Resolver merges base into the worker branch and commits the resolution
+      try {
+        execFileSync('git', ['merge', main], { cwd: wt.path, stdio: 'pipe' });
+      } catch { /* expected conflict */ }
+      commitIn(wt.path, 'file1.ts', 'export const x = 300;\n', 'Resolve conflict');
+      updateTask(teamName, first.resolutionTaskId!, { status: 'completed' }, { cwd: repoDir });
+
+      const results = retryResolvedMerges(teamName, repoDir);
+      expect(results).toHaveLength(1);
+      expect(results[0].success).toBe(true);
+      const task = readTask(teamName, first.resolutionTaskId!, { cwd: repoDir });
+      expect(task?.metadata).toMatchObject({ mergeStatus: 'merged', mergeCommit: results[0].mergeCommit });
+
+      // Already merged tasks are not retried again
+      expect(retryResolvedMerges(teamName, repoDir)).toEqual([]);
+    });
+
+    it('keeps merging other branches after a delegated conflict', () => {
+      const { main } = makeConflict();
+      const wt2 = createWorkerWorktree(teamName, 'worker2', repoDir);
+      commitIn(wt2.path, 'worker2-file.ts', 'export const b = 2;\n', 'Worker 2 change');
+
+      const results = mergeAllWorkerBranches(teamName, repoDir, main, { conflictStrategy: 'resolve' });
+      expect(results).toHaveLength(2);
+      expect(results[0].resolutionTaskId).toBeDefined();
+      expect(results[1].success).toBe(true);
+    });
+  });
+
   describe('mergeAllWorkerBranches', () => {
+    it('merges least-overlapping branches first', () => {
+      const main = getMainBranch();
+      const wt1 = createWorkerWorktree(teamName, 'worker1', repoDir);
+      const wt2 = createWorkerWorktree(teamName, 'worker2', repoDir);
+      const wt3 = createWorkerWorktree(teamName, 'worker3', repoDir);
+
+      // worker1 and worker2 both touch shared.ts; worker3 is independent
+      for (const [wt, value] of [[wt1, 1], [wt2, 2]] as const) {
+        writeFileSync(join(wt.path, 'shared.ts'), `export const s = ${value};\n`);
+        execFileSync('git', ['add', '.'], { cwd: wt.path, stdio: 'pipe' });
+        execFileSync('git', ['commit', '-m', `Shared change ${value}`], { cwd: wt.path, stdio: 'pipe' });
+      }
+      writeFileSync(join(wt3.path, 'own.ts'), 'export const o = 3;\n');
+      execFileSync('git', ['add', '.'], { cwd: wt3.path, stdio: 'pipe' });
+      execFileSync('git', ['commit', '-m', 'Own change'], { cwd: wt3.path, stdio: 'pipe' });
+
+      const results = mergeAllWorkerBranches(teamName, repoDir, main, { ordering: 'least-overlap' });
+      expect(results[0].branch).toBe(wt3.branch);
+    });
+
     it('returns empty for team with no worktrees', () => {
       const results = mergeAllWorkerBranches(teamName, repoDir);
       expect(results).toEqual([]);
@@ -1,12 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
+import { homedir, tmpdir } from 'os';
 import {
   readNewOutboxMessages,
   readAllTeamOutboxMessages,
   resetOutboxCursor,
 } from '../outbox-reader.js';
+import { createTask, readTaskResult } from '../task-file-ops.js';
 import type { OutboxMessage } from '../types.js';
 
 const TEST_TEAM = 'test-team-outbox-reader';
@@ -166,6 +167,52 @@ describe('readAllTeamOutboxMessages', () => {
   });
 });
 
+describe('task result ingestion', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'outbox-result-'));
+    createTask(TEST_TEAM, { subject: 's', description: 'd', status: 'completed', owner: 'w1', blocks: [], blockedBy: [] }, { cwd });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('stores a valid result artifact beside the task file', () => {
+    const msg = {
+      type: 'task_complete', taskId: '1', summary: 'done', timestamp: '2026-01-01T00:00:00Z',
+      result: { changedFiles: ['src/a.ts'], commits: ['abc1234'], testCommands: [{ command: 'npm test', exitCode: 0 }] },
+    };
+    writeFileSync(join(TEAMS_DIR, 'outbox', 'w1.jsonl'), JSON.stringify(msg) + '\n');
+
+    const [ingested] = readNewOutboxMessages(TEST_TEAM, 'w1', { cwd });
+    expect(ingested.result).toMatchObject({ taskId: '1', changedFiles: ['src/a.ts'], followUpTasks: [] });
+    expect(ingested.resultErrors).toBeUndefined();
+    expect(readTaskResult(TEST_TEAM, '1', { cwd })).toMatchObject({
+      taskId: '1',
+      commits: ['abc1234'],
+      testCommands: [{ command: 'npm test', exitCode: 0 }],
+    });
+  });
+
+  it('drops an invalid artifact and reports why', () => {
+    const msg = {
+      type: 'task_complete', taskId: '1', timestamp: '2026-01-01T00:00:00Z',
+      result: { changedFiles: ['/etc/passwd'], testCommands: [{ command: 'npm test' }] },
+    };
+    writeFileSync(join(TEAMS_DIR, 'outbox', 'w1.jsonl'), JSON.stringify(msg) + '\n');
+
+    const [ingested] = readNewOutboxMessages(TEST_TEAM, 'w1', { cwd });
+    expect(ingested.result).toBeUndefined();
+    expect(ingested.resultErrors).toEqual([
+      'changedFiles[0] must be a path relative to the working directory',
+      'testCommands[0].exitCode must be an integer',
+    ]);
+    expect(readTaskResult(TEST_TEAM, '1', { cwd })).toBeNull();
+  });
+});
+
 describe('resetOutboxCursor', () => {
   it('resets cursor to 0', () => {
     const outbox = join(TEAMS_DIR, 'outbox', 'w1.jsonl');
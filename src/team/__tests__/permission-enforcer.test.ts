@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  beginEnforcementWindow,
+  captureWorktreeSnapshot,
+  diffCommittedPaths,
+  diffWorktreeSnapshots,
+  endEnforcementWindow,
+  enforceWorkerPermissions,
+  formatViolationFeedback,
+  getOverlappingWindows,
+} from '../permission-enforcer.js';
+import { getEffectivePermissions } from '../permissions.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+describe('permission-enforcer', () => {
+  let repo: string;
+  let configDir: string;
+  let originalConfigDir: string | undefined;
+
+  const write = (rel: string, content: string) => {
+    mkdirSync(join(repo, rel, '..'), { recursive: true });
+    writeFileSync(join(repo, rel), content);
+  };
+  const read = (rel: string) => readFileSync(join(repo, rel), 'utf-8');
+
+  const perms = getEffectivePermissions({
+    workerName: 'worker-1',
+    allowedPaths: ['src/**'],
+  });
+
+  beforeEach(() => {
+    originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+    configDir = mkdtempSync(join(tmpdir(), 'omc-perm-config-'));
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+    repo = mkdtempSync(join(tmpdir(), 'omc-perm-enforcer-'));
+    git(repo, 'init', '-q');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'user.name', 'Test');
+    write('src/app.ts', 'app v1\n');
+    write('config/settings.json', '{"a":1}\n');
+    write('README.md', 'readme v1\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+    rmSync(configDir, { recursive: true, force: true });
+    if (originalConfigDir === undefined) {
+      delete process.env.CLAUDE_CONFIG_DIR;
+    } else {
+      process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    }
+  });
+
+  it('returns an empty snapshot outside a git worktree', () => {
+    const plain = mkdtempSync(join(tmpdir(), 'omc-perm-plain-'));
+    try {
+      const snapshot = captureWorktreeSnapshot(plain);
+      expect(snapshot.root).toBeNull();
+      expect(enforceWorkerPermissions(plain, snapshot, perms).changedPaths).toEqual([]);
+    } finally {
+      rmSync(plain, { recursive: true, force: true });
+    }
+  });
+
+  it('detects re-edits of already-dirty files and ignores .omc state', () => {
+    write('README.md', 'readme dirty\n');
+    const before = captureWorktreeSnapshot(repo);
+    write('README.md', 'readme dirtier\n');
+    write('.omc/state/team/t/outputs/1.md', 'bridge output');
+    const after = captureWorktreeSnapshot(repo);
+    expect(diffWorktreeSnapshots(before, after)).toEqual(['README.md']);
+  });
+
+  it('reverts out-of-scope edits, deletions and new files but keeps allowed changes', () => {
+    write('README.md', 'readme dirty before task\n');
+    const before = captureWorktreeSnapshot(repo);
+
+    write('src/app.ts', 'app v2\n');
+    write('src/new.ts', 'new\n');
+    write('README.md', 'readme clobbered\n');
+    write('config/settings.json', '{"a":2}\n');
+    write('scripts/evil.sh', 'rm -rf /\n');
+    git(repo, 'add', 'scripts/evil.sh');
+    unlinkSync(join(repo, 'config', 'settings.json'));
+
+    const result = enforceWorkerPermissions(repo, before, perms);
+
+    expect(result.changedPaths.sort()).toEqual([
+      'README.md', 'config/settings.json', 'scripts/evil.sh', 'src/app.ts', 'src/new.ts',
+    ]);
+    expect(result.violations.map(v => v.path).sort()).toEqual([
+      'README.md', 'config/settings.json', 'scripts/evil.sh',
+    ]);
+    expect(result.reverted.sort()).toEqual(['README.md', 'config/settings.json', 'scripts/evil.sh']);
+    expect(result.revertFailures).toEqual([]);
+
+    // Pre-task dirty content is restored, not the committed version
+    expect(read('README.md')).toBe('readme dirty before task\n');
+    expect(read('config/settings.json')).toBe('{"a":1}\n');
+    expect(existsSync(join(repo, 'scripts', 'evil.sh'))).toBe(false);
+    expect(git(repo, 'ls-files', 'scripts')).toBe('');
+
+    // In-scope work is untouched
+    expect(read('src/app.ts')).toBe('app v2\n');
+    expect(read('src/new.ts')).toBe('new\n');
+  });
+
+  it('reverts out-of-scope changes the worker committed', () => {
+    const before = captureWorktreeSnapshot(repo);
+    expect(before.head).toMatch(/^[0-9a-f]{40}$/);
+
+    write('src/app.ts', 'app v2\n');
+    write('README.md', 'committed outside scope\n');
+    write('scripts/evil.sh', 'rm -rf /\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'sneaky');
+
+    expect(diffCommittedPaths(before, captureWorktreeSnapshot(repo))).toEqual([
+      'README.md', 'scripts/evil.sh', 'src/app.ts',
+    ]);
+
+    const result = enforceWorkerPermissions(repo, before, perms);
+    expect(result.violations.map(v => v.path)).toEqual(['README.md', 'scripts/evil.sh']);
+    expect(result.reverted).toEqual(['README.md', 'scripts/evil.sh']);
+    expect(read('README.md')).toBe('readme v1\n');
+    expect(existsSync(join(repo, 'scripts', 'evil.sh'))).toBe(false);
+    expect(read('src/app.ts')).toBe('app v2\n');
+  });
+
+  it('resolves paths relative to a subdirectory working directory', () => {
+    const sub = join(repo, 'src');
+    const before = captureWorktreeSnapshot(sub);
+    write('src/app.ts', 'app v2\n');
+    write('README.md', 'outside\n');
+
+    const result = enforceWorkerPermissions(sub, before, getEffectivePermissions({
+      workerName: 'worker-1',
+      allowedPaths: ['*.ts'],
+    }));
+
+    expect(result.violations.map(v => v.path)).toEqual(['../README.md']);
+    expect(read('README.md')).toBe('readme v1\n');
+    expect(read('src/app.ts')).toBe('app v2\n');
+  });
+
+  it('reverts edits to .omc files outside bridge state', () => {
+    write('.omc/permissions.json', '{"rules":[]}\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'policy');
+    const before = captureWorktreeSnapshot(repo);
+
+    write('.omc/permissions.json', '{"rules":[{"allow":"*"}]}\n');
+    write('.omc/state/team-bridge/t/worker-1.heartbeat.json', '{}');
+    const result = enforceWorkerPermissions(repo, before, perms);
+
+    expect(result.changedPaths).toEqual(['.omc/permissions.json']);
+    expect(result.reverted).toEqual(['.omc/permissions.json']);
+    expect(read('.omc/permissions.json')).toBe('{"rules":[]}\n');
+  });
+
+  it('attributes changes in scope of an overlapping worker to that worker', () => {
+    const docsWorker = getEffectivePermissions({ workerName: 'worker-2', allowedPaths: ['docs/**'] });
+    beginEnforcementWindow(repo, 'team-a', { workerName: 'worker-1', workingDirectory: repo, permissions: perms }, 1000);
+    beginEnforcementWindow(repo, 'team-a', { workerName: 'worker-2', workingDirectory: repo, permissions: docsWorker }, 1500);
+    const before = captureWorktreeSnapshot(repo);
+
+    write('docs/guide.md', 'worker-2 docs\n');
+    endEnforcementWindow(repo, 'team-a', 'worker-2', 2000);
+    write('src/app.ts', 'app v2\n');
+    write('README.md', 'nobody may change this\n');
+
+    const concurrent = getOverlappingWindows(repo, 'team-a', 'worker-1', 1000);
+    expect(concurrent.map(w => w.workerName)).toEqual(['worker-2']);
+    // Window files live outside the worktree, where workers cannot rewrite them
+    expect(existsSync(join(repo, '.omc'))).toBe(false);
+    expect(existsSync(join(configDir, 'teams', 'team-a', 'enforcement-windows'))).toBe(true);
+
+    const result = enforceWorkerPermissions(repo, before, perms, { concurrent });
+    expect(result.attributed).toEqual([{ path: 'docs/guide.md', workerName: 'worker-2' }]);
+    expect(result.reverted).toEqual(['README.md']);
+    expect(read('docs/guide.md')).toBe('worker-2 docs\n');
+
+    // Windows that ended before a task started do not overlap it
+    expect(getOverlappingWindows(repo, 'team-a', 'worker-1', 2500)).toEqual([]);
+  });
+
+  it('only reports violations when revert is disabled', () => {
+    const before = captureWorktreeSnapshot(repo);
+    write('README.md', 'changed\n');
+    const result = enforceWorkerPermissions(repo, before, perms, { revert: false });
+    expect(result.violations).toHaveLength(1);
+    expect(result.reverted).toEqual([]);
+    expect(read('README.md')).toBe('changed\n');
+  });
+
+  it('formats violation feedback for a re-queued task', () => {
+    const feedback = formatViolationFeedback([{ path: 'README.md', reason: 'not in allowed paths' }]);
+    expect(feedback).toContain('- README.md: not in allowed paths');
+    expect(feedback).toContain('Redo the task');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadReplayTimeline,
+  createInitialReplayState,
+  replayTeamState,
+  diffReplayPoints,
+  openTeamReplay,
+  formatReplayState,
+  formatReplayDiff,
+} from '../replay.js';
+
+const TEAM = 'replay-team';
+
+function at(seconds: number): string {
+  return new Date(Date.UTC(2026, 2, 1, 0, 0, seconds)).toISOString();
+}
+
+describe('team replay', () => {
+  let cwd: string;
+
+  function writeLines(path: string, entries: unknown[]): void {
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, entries.map((e) => JSON.stringify(e)).join('\n') + '\n');
+  }
+
+  function audit(seconds: number, eventType: string, workerName: string, taskId?: string, details?: Record<string, unknown>) {
+    return { timestamp: at(seconds), eventType, teamName: TEAM, workerName, ...(taskId ? { taskId } : {}), ...(details ? { details } : {}) };
+  }
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omc-replay-'));
+    const teamRoot = join(cwd, '.omc', 'state', 'team', TEAM);
+    mkdirSync(teamRoot, { recursive: true });
+    writeFileSync(join(teamRoot, 'config.json'), JSON.stringify({ name: TEAM, workers: [{ name: 'worker-1' }] }));
+    mkdirSync(join(teamRoot, 'tasks'), { recursive: true });
+    for (const id of ['1', '2']) {
+      writeFileSync(join(teamRoot, 'tasks', `task-${id}.json`), JSON.stringify({ id, subject: `t${id}`, description: 'd', status: 'completed' }));
+    }
+
+    writeLines(join(cwd, '.omc', 'logs', `team-bridge-${TEAM}.jsonl`), [
+      audit(1, 'bridge_start', 'worker-1'),
+      audit(2, 'task_claimed', 'worker-1', '1'),
+      audit(4, 'task_failed', 'worker-1', '1'),
+      audit(5, 'task_claimed', 'worker-1', '1'),
+      audit(6, 'task_completed', 'worker-1', '1'),
+      audit(7, 'task_claimed', 'worker-2', '2'),
+      audit(9, 'worker_quarantined', 'worker-2'),
+      audit(10, 'budget_exceeded', 'leader-fixed', undefined, { limit: 'cost' }),
+    ]);
+    writeLines(join(teamRoot, 'events.jsonl'), [
+      { event_id: 'e1', team: TEAM, type: 'message_received', worker: 'worker-1', created_at: at(3) },
+      { event_id: 'e2', team: TEAM, type: 'task_failed', worker: 'leader-fixed', task_id: '2', reason: 'status_transition:in_progress->failed', created_at: at(8) },
+    ]);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('merges event and audit logs in timestamp order', async () => {
+    const timeline = await loadReplayTimeline(TEAM, cwd);
+    expect(timeline.map((e) => `${e.source}:${e.type}`)).toEqual([
+      'audit:bridge_start',
+      'audit:task_claimed',
+      'event:message_received',
+      'audit:task_failed',
+      'audit:task_claimed',
+      'audit:task_completed',
+      'audit:task_claimed',
+      'event:task_failed',
+      'audit:worker_quarantined',
+      'audit:budget_exceeded',
+    ]);
+    expect(timeline.map((e) => e.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('reconstructs task, worker and phase state at any index', async () => {
+    const timeline = await loadReplayTimeline(TEAM, cwd);
+    const initial = createInitialReplayState(['1', '2']);
+
+    expect(replayTeamState(timeline, -1, initial).phase).toBe('planning');
+
+    const claimed = replayTeamState(timeline, 1, initial);
+    expect(claimed.phase).toBe('executing');
+    expect(claimed.tasks['1']).toEqual({ status: 'in_progress', owner: 'worker-1', retryCount: 0 });
+    expect(claimed.workers['worker-1']).toEqual({ status: 'working', currentTaskId: '1' });
+
+    const retried = replayTeamState(timeline, 3, initial);
+    expect(retried.tasks['1']).toMatchObject({ status: 'pending', retryCount: 1 });
+    expect(retried.workers['worker-1'].status).toBe('idle');
+
+    const end = replayTeamState(timeline, 99, initial);
+    expect(end.index).toBe(9);
+    expect(end.tasks['1'].status).toBe('completed');
+    expect(end.tasks['2'].status).toBe('failed');
+    expect(end.workers['worker-2'].status).toBe('quarantined');
+    expect(end.budgetPaused).toBe(true);
+    expect(end.phase).toBe('fixing');
+
+    // Reconstruction never mutates the initial state
+    expect(initial.tasks['1']).toEqual({ status: 'pending', retryCount: 0 });
+  });
+
+  it('diffs two points in either order', async () => {
+    const timeline = await loadReplayTimeline(TEAM, cwd);
+    const initial = createInitialReplayState(['1', '2']);
+    const diff = diffReplayPoints(timeline, 9, 5, initial);
+
+    expect(diff.fromIndex).toBe(5);
+    expect(diff.toIndex).toBe(9);
+    expect(diff.entries.map((e) => e.type)).toEqual(['task_claimed', 'task_failed', 'worker_quarantined', 'budget_exceeded']);
+    expect(diff.changes).toEqual([
+      { kind: 'phase', from: 'executing', to: 'fixing' },
+      { kind: 'budget', from: 'running', to: 'paused' },
+      { kind: 'task', id: '2', from: 'pending', to: 'failed' },
+      { kind: 'worker', id: 'worker-2', from: 'unknown', to: 'quarantined' },
+    ]);
+    expect(formatReplayDiff(diff)).toContain('task 2: pending → failed');
+  });
+
+  it('steps forward and back through a team opened from disk', async () => {
+    const cursor = await openTeamReplay(TEAM, cwd);
+    expect(cursor.index).toBe(9);
+
+    cursor.seek(-5);
+    expect(cursor.index).toBe(-1);
+    expect(Object.keys(cursor.state.tasks).sort()).toEqual(['1', '2']);
+
+    expect(cursor.forward(2).tasks['1'].status).toBe('in_progress');
+    expect(cursor.entry?.type).toBe('task_claimed');
+    expect(cursor.back().index).toBe(0);
+    expect(cursor.forward(100).index).toBe(9);
+
+    const text = formatReplayState(cursor.state, cursor.timeline.length);
+    expect(text).toContain('Phase: fixing (budget paused)');
+    expect(text).toContain('1: completed owner=worker-1 retries=1');
+  });
+
+  it('returns an empty timeline for unknown teams', async () => {
+    const cursor = await openTeamReplay('missing-team', cwd);
+    expect(cursor.timeline).toEqual([]);
+    expect(cursor.state.phase).toBe('initializing');
+  });
+});
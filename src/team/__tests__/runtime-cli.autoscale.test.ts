@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { Readable } from 'stream';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const mocks = vi.hoisted(() => ({
+  startTeamV2: vi.fn(),
+  monitorTeamV2: vi.fn(),
+  shutdownTeamV2: vi.fn(),
+  runAutoscaleCycle: vi.fn(),
+  loadConfig: vi.fn(),
+}));
+
+vi.mock('../runtime-v2.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../runtime-v2.js')>(),
+  isRuntimeV2Enabled: () => true,
+  startTeamV2: mocks.startTeamV2,
+  monitorTeamV2: mocks.monitorTeamV2,
+  shutdownTeamV2: mocks.shutdownTeamV2,
+}));
+
+vi.mock('../scaling-policy.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../scaling-policy.js')>(),
+  runAutoscaleCycle: mocks.runAutoscaleCycle,
+}));
+
+vi.mock('../../config/loader.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../config/loader.js')>(),
+  loadConfig: mocks.loadConfig,
+}));
+
+function snapshot(overrides: Record<string, unknown> = {}) {
+  return {
+    phase: 'team-exec',
+    tasks: { total: 1, pending: 0, blocked: 0, in_progress: 1, completed: 0, failed: 0, items: [] },
+    deadWorkers: [],
+    performance: { total_ms: 1 },
+    allTasksTerminal: false,
+    ...overrides,
+  };
+}
+
+describe('runtime-cli autoscaling', () => {
+  let cwd: string;
+  let originalScaling: string | undefined;
+
+  beforeEach(() => {
+    for (const mock of Object.values(mocks)) mock.mockReset();
+    cwd = mkdtempSync(join(tmpdir(), 'omc-runtime-cli-autoscale-'));
+    originalScaling = process.env.OMC_TEAM_SCALING_ENABLED;
+    process.env.OMC_TEAM_SCALING_ENABLED = '1';
+
+    mocks.startTeamV2.mockResolvedValue({
+      teamName: 'scale-team',
+      sessionName: 'scale-session',
+      config: { leader_pane_id: '%0', workers: [{ name: 'worker-1', pane_id: '%1' }] },
+    });
+    mocks.monitorTeamV2
+      .mockResolvedValueOnce(snapshot())
+      .mockResolvedValue(snapshot({
+        allTasksTerminal: true,
+        tasks: { total: 1, pending: 0, blocked: 0, in_progress: 0, completed: 0, failed: 1, items: [] },
+      }));
+    mocks.shutdownTeamV2.mockResolvedValue(undefined);
+    mocks.runAutoscaleCycle.mockResolvedValue({ decision: { action: 'none', reason: 'steady' } });
+    mocks.loadConfig.mockReturnValue({ teamAutoscale: { cooldownMs: 1000 } });
+
+    vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.removeAllListeners('SIGINT');
+    process.removeAllListeners('SIGTERM');
+    if (originalScaling === undefined) {
+      delete process.env.OMC_TEAM_SCALING_ENABLED;
+    } else {
+      process.env.OMC_TEAM_SCALING_ENABLED = originalScaling;
+    }
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const runWithInput = async (input: Record<string, unknown>) => {
+    vi.spyOn(process, 'stdin', 'get').mockReturnValue(
+      Readable.from([Buffer.from(JSON.stringify(input))]) as unknown as typeof process.stdin,
+    );
+    const { main } = await import('../runtime-cli.js');
+    await main();
+  };
+
+  const baseInput = () => ({
+    teamName: 'scale-team',
+    agentTypes: ['claude'],
+    tasks: [{ subject: 'Task 1', description: 'work' }],
+    cwd,
+    pollIntervalMs: 1,
+  });
+
+  it('runs autoscale cycles for a team started with autoscale enabled', async () => {
+    await runWithInput({ ...baseInput(), autoscale: { maxWorkers: 4 } });
+
+    expect(mocks.runAutoscaleCycle).toHaveBeenCalledTimes(1);
+    expect(mocks.runAutoscaleCycle).toHaveBeenCalledWith('scale-team', cwd, { cooldownMs: 1000, maxWorkers: 4 });
+    expect(mocks.shutdownTeamV2).toHaveBeenCalled();
+  });
+
+  it('autoscales teams when enabled in config', async () => {
+    mocks.loadConfig.mockReturnValue({ teamAutoscale: { enabled: true, minWorkers: 2 } });
+    await runWithInput(baseInput());
+    expect(mocks.runAutoscaleCycle).toHaveBeenCalledWith('scale-team', cwd, { minWorkers: 2 });
+  });
+
+  it('does not autoscale by default or when the start call opts out', async () => {
+    await runWithInput(baseInput());
+    mocks.loadConfig.mockReturnValue({ teamAutoscale: { enabled: true } });
+    mocks.monitorTeamV2.mockResolvedValueOnce(snapshot());
+    await runWithInput({ ...baseInput(), autoscale: false });
+    expect(mocks.runAutoscaleCycle).not.toHaveBeenCalled();
+  });
+});
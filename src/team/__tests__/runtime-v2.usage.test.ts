@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { tmpdir } from 'os';
+
+import { generateUsageReport } from '../usage-tracker.js';
+import { checkTeamBudget, isTeamBudgetPaused } from '../budget-guard.js';
+
+const mocks = vi.hoisted(() => ({
+  buildWorkerArgv: vi.fn(),
+  createTeamSession: vi.fn(),
+  spawnWorkerInPane: vi.fn(),
+  sendToWorker: vi.fn(),
+  waitForPaneReady: vi.fn(),
+  execFile: vi.fn(),
+  notify: vi.fn(async () => null),
+}));
+
+vi.mock('../../notifications/index.js', () => ({
+  notify: mocks.notify,
+}));
+
+vi.mock('child_process', async (importOriginal) => ({
+  ...await importOriginal<typeof import('child_process')>(),
+  execFile: mocks.execFile,
+}));
+
+vi.mock('../model-contract.js', () => ({
+  buildWorkerArgv: mocks.buildWorkerArgv,
+  resolveValidatedBinaryPath: vi.fn(() => '/usr/bin/claude'),
+  getWorkerEnv: vi.fn(() => ({ OMC_TEAM_WORKER: 'usage-team/worker-1' })),
+  isPromptModeAgent: vi.fn(() => false),
+  getPromptModeArgs: vi.fn(() => []),
+}));
+
+vi.mock('../tmux-session.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../tmux-session.js')>(),
+  createTeamSession: mocks.createTeamSession,
+  spawnWorkerInPane: mocks.spawnWorkerInPane,
+  sendToWorker: mocks.sendToWorker,
+  waitForPaneReady: mocks.waitForPaneReady,
+}));
+
+describe('runtime v2 usage capture', () => {
+  let cwd: string;
+  let claudeDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    for (const mock of Object.values(mocks)) mock.mockReset();
+
+    cwd = await mkdtemp(join(tmpdir(), 'omc-runtime-v2-usage-'));
+    claudeDir = join(cwd, 'claude-config');
+    originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+    process.env.CLAUDE_CONFIG_DIR = claudeDir;
+
+    mocks.buildWorkerArgv.mockImplementation((_agentType: string, config: { extraFlags?: string[] }) => [
+      '/usr/bin/claude', '--dangerously-skip-permissions', ...(config.extraFlags ?? []),
+    ]);
+    mocks.createTeamSession.mockResolvedValue({
+      sessionName: 'usage-session',
+      leaderPaneId: '%1',
+      workerPaneIds: [],
+    });
+    mocks.spawnWorkerInPane.mockResolvedValue(undefined);
+    mocks.waitForPaneReady.mockResolvedValue(true);
+    mocks.sendToWorker.mockResolvedValue(true);
+    mocks.execFile.mockImplementation((_file: string, args: string[], cb: (err: Error | null, stdout: string, stderr: string) => void) => {
+      cb(null, args[0] === 'split-window' ? '%2\n' : '', '');
+    });
+    (mocks.execFile as unknown as Record<PropertyKey, unknown>)[promisify.custom] = async (_file: string, args: string[]) => {
+      if (args[0] === 'split-window') return { stdout: '%2\n', stderr: '' };
+      if (args[0] === 'display-message') return { stdout: '0\n', stderr: '' };
+      return { stdout: '', stderr: '' };
+    };
+  });
+
+  afterEach(async () => {
+    if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+    else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  /** The worker's Claude session writes its transcript under the config dir. */
+  async function writeTranscript(sessionId: string, usage: Record<string, number>): Promise<void> {
+    const projectDir = join(claudeDir, 'projects', cwd.replace(/[^A-Za-z0-9]/g, '-'));
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(join(projectDir, `${sessionId}.jsonl`), [
+      { type: 'user', message: { role: 'user', content: 'Read your inbox' } },
+      { type: 'assistant', message: { id: 'msg_1', model: 'claude-opus-4-6', usage } },
+    ].map(entry => JSON.stringify(entry)).join('\n') + '\n');
+  }
+
+  /** Complete a task the way the worker does through the CLI API. */
+  async function completeTask(taskId: string, owner: string): Promise<void> {
+    const taskPath = join(cwd, '.omc', 'state', 'team', 'usage-team', 'tasks', `task-${taskId}.json`);
+    const task = JSON.parse(await readFile(taskPath, 'utf-8'));
+    await writeFile(taskPath, JSON.stringify({
+      ...task,
+      status: 'completed',
+      owner,
+      result: 'Done',
+      completed_at: new Date().toISOString(),
+    }));
+  }
+
+  it('records Claude worker tokens and cost from its session transcript when the task completes', async () => {
+    const { startTeamV2, monitorTeamV2 } = await import('../runtime-v2.js');
+
+    const runtime = await startTeamV2({
+      teamName: 'usage-team',
+      workerCount: 1,
+      agentTypes: ['claude'],
+      tasks: [{ subject: 'Usage test', description: 'Implement the feature' }],
+      cwd,
+    });
+
+    const sessionId = runtime.config.workers[0]?.session_id;
+    expect(sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(mocks.buildWorkerArgv).toHaveBeenCalledWith('claude', expect.objectContaining({
+      extraFlags: ['--session-id', sessionId],
+    }));
+    expect(mocks.spawnWorkerInPane).toHaveBeenCalledWith('usage-session', '%2', expect.objectContaining({
+      launchArgs: expect.arrayContaining(['--session-id', sessionId]),
+    }));
+
+    await writeTranscript(sessionId!, { input_tokens: 20_000, output_tokens: 4_000, cache_read_input_tokens: 100_000 });
+    await completeTask('1', 'worker-1');
+
+    await monitorTeamV2('usage-team', cwd);
+    await monitorTeamV2('usage-team', cwd);
+
+    const report = generateUsageReport(cwd, 'usage-team');
+    expect(report.taskCount).toBe(1);
+    expect(report.tasks[0]).toMatchObject({
+      taskId: '1',
+      workerName: 'worker-1',
+      model: 'claude-opus-4-6',
+      tokens: { inputTokens: 20_000, outputTokens: 4_000, cacheReadTokens: 100_000, source: 'reported' },
+    });
+    expect(report.totalCostUsd).toBeCloseTo(20_000 * 5e-6 + 4_000 * 25e-6 + 100_000 * 0.5e-6, 8);
+  });
+
+  it('trips the cost ceiling from recorded worker usage', async () => {
+    const { startTeamV2, monitorTeamV2 } = await import('../runtime-v2.js');
+
+    const runtime = await startTeamV2({
+      teamName: 'usage-team',
+      workerCount: 1,
+      agentTypes: ['claude'],
+      tasks: [
+        { subject: 'First', description: 'Implement the feature' },
+        { subject: 'Second', description: 'Write the docs' },
+      ],
+      cwd,
+      budget: { maxCostUsd: 1 },
+    });
+
+    expect((await checkTeamBudget('usage-team', cwd))?.breach).toBeNull();
+
+    // 150k output tokens at opus 4.6 prices cost $3.75
+    await writeTranscript(runtime.config.workers[0]!.session_id!, { input_tokens: 10_000, output_tokens: 150_000 });
+    await completeTask('1', 'worker-1');
+    await monitorTeamV2('usage-team', cwd);
+
+    const check = await checkTeamBudget('usage-team', cwd);
+    expect(check?.usage.costUsd).toBeCloseTo(10_000 * 5e-6 + 150_000 * 25e-6, 8);
+    expect(check).toMatchObject({ newlyPaused: true, breach: { limit: 'cost', ceiling: 1 } });
+    expect(isTeamBudgetPaused('usage-team', cwd)).toBe(true);
+    expect(mocks.notify).toHaveBeenCalledWith('team-budget-exceeded', expect.objectContaining({
+      teamName: 'usage-team',
+      reason: 'estimated cost $3.80 reached ceiling $1.00',
+    }));
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  DEFAULT_AUTOSCALE_POLICY,
+  resolveAutoscalePolicy,
+  resolveAutoscaleRequest,
+  evaluateAutoscalePolicy,
+  collectAutoscaleSnapshot,
+  runAutoscaleCycle,
+  type AutoscaleSnapshot,
+  type AutoscaleWorkerSnapshot,
+} from '../scaling-policy.js';
+import { writeHeartbeat } from '../heartbeat.js';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z').getTime();
+
+function worker(name: string, overrides: Partial<AutoscaleWorkerSnapshot> = {}): AutoscaleWorkerSnapshot {
+  return { name, state: 'working', idleMs: null, quarantined: false, ...overrides };
+}
+
+function snapshot(overrides: Partial<AutoscaleSnapshot> = {}): AutoscaleSnapshot {
+  return { readyTasks: 0, inProgressTasks: 0, workers: [worker('worker-1')], now: NOW, ...overrides };
+}
+
+describe('resolveAutoscalePolicy', () => {
+  it('caps maxWorkers by the team limit and keeps min within max', () => {
+    const policy = resolveAutoscalePolicy({ minWorkers: 8, maxWorkers: 30 }, 5);
+    expect(policy.maxWorkers).toBe(5);
+    expect(policy.minWorkers).toBe(5);
+    expect(policy.tasksPerWorker).toBe(DEFAULT_AUTOSCALE_POLICY.tasksPerWorker);
+  });
+});
+
+describe('resolveAutoscaleRequest', () => {
+  it('is off unless requested or enabled in config', () => {
+    expect(resolveAutoscaleRequest(undefined, {})).toBeNull();
+    expect(resolveAutoscaleRequest(undefined, { enabled: true, maxWorkers: 8 })).toEqual({ maxWorkers: 8 });
+    expect(resolveAutoscaleRequest(false, { enabled: true })).toBeNull();
+  });
+
+  it('layers the request over the configured policy', () => {
+    expect(resolveAutoscaleRequest(true, { maxWorkers: 8, cooldownMs: 1000 })).toEqual({ maxWorkers: 8, cooldownMs: 1000 });
+    expect(resolveAutoscaleRequest({ maxWorkers: 3 }, { maxWorkers: 8, cooldownMs: 1000 })).toEqual({ maxWorkers: 3, cooldownMs: 1000 });
+  });
+
+  it('drops fields that are not non-negative numbers', () => {
+    const configured = { enabled: true, minWorkers: '2', maxWorkers: -1, scaleUpStep: 1 } as unknown as Parameters<typeof resolveAutoscaleRequest>[1];
+    expect(resolveAutoscaleRequest(undefined, configured)).toEqual({ scaleUpStep: 1 });
+  });
+});
+
+describe('evaluateAutoscalePolicy', () => {
+  const policy = resolveAutoscalePolicy({ maxWorkers: 6, tasksPerWorker: 2, scaleUpStep: 3 });
+
+  it('scales up when ready work exceeds capacity, limited by step', () => {
+    const decision = evaluateAutoscalePolicy(snapshot({ readyTasks: 10, inProgressTasks: 1 }), policy);
+    expect(decision).toMatchObject({ action: 'scale_up', count: 3 });
+  });
+
+  it('respects max workers', () => {
+    const workers = ['worker-1', 'worker-2', 'worker-3', 'worker-4', 'worker-5'].map(n => worker(n));
+    const decision = evaluateAutoscalePolicy(snapshot({ readyTasks: 20, workers }), policy);
+    expect(decision).toMatchObject({ action: 'scale_up', count: 1 });
+
+    const full = [...workers, worker('worker-6')];
+    expect(evaluateAutoscalePolicy(snapshot({ readyTasks: 20, workers: full }), policy).action).toBe('none');
+  });
+
+  it('stops at the hourly cost budget', () => {
+    const budgeted = resolveAutoscalePolicy({ ...policy, workerHourlyCostUsd: 4, maxHourlyCostUsd: 10 });
+    const workers = [worker('worker-1'), worker('worker-2')];
+    const decision = evaluateAutoscalePolicy(snapshot({ readyTasks: 10, workers }), budgeted);
+    expect(decision).toEqual({ action: 'none', reason: 'cost budget allows at most 2 worker(s)' });
+  });
+
+  it('drains quarantined workers before anything else', () => {
+    const workers = [worker('worker-1', { quarantined: true }), worker('worker-2')];
+    const decision = evaluateAutoscalePolicy(snapshot({ readyTasks: 10, workers }), policy);
+    expect(decision).toMatchObject({ action: 'scale_down', workerNames: ['worker-1'] });
+  });
+
+  it('drains the longest-idle workers without going below min', () => {
+    const minTwo = resolveAutoscalePolicy({ ...policy, minWorkers: 2, idleDrainAfterMs: 60_000 });
+    const workers = [
+      worker('worker-1', { state: 'idle', idleMs: 120_000 }),
+      worker('worker-2', { state: 'idle', idleMs: 600_000 }),
+      worker('worker-3', { state: 'idle', idleMs: 30_000 }),
+      worker('worker-4', { state: 'idle', idleMs: 300_000 }),
+    ];
+    const decision = evaluateAutoscalePolicy(snapshot({ workers }), minTwo);
+    expect(decision).toMatchObject({ action: 'scale_down', workerNames: ['worker-2', 'worker-4'] });
+  });
+
+  it('keeps idle workers that have not passed the drain threshold', () => {
+    const workers = [worker('worker-1'), worker('worker-2', { state: 'idle', idleMs: 1_000 })];
+    expect(evaluateAutoscalePolicy(snapshot({ workers }), policy).action).toBe('none');
+  });
+
+  it('does nothing during cooldown', () => {
+    const decision = evaluateAutoscalePolicy(snapshot({ readyTasks: 10, lastActionAt: NOW - 1_000 }), policy);
+    expect(decision).toEqual({ action: 'none', reason: 'cooldown' });
+  });
+});
+
+describe('collectAutoscaleSnapshot', () => {
+  let cwd: string;
+  const teamName = 'scale-team';
+
+  function writeJson(relPath: string, data: unknown): void {
+    const full = join(cwd, relPath);
+    mkdirSync(join(full, '..'), { recursive: true });
+    writeFileSync(full, JSON.stringify(data));
+  }
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'omc-scaling-policy-'));
+    const root = `.omc/state/team/${teamName}`;
+    writeJson(`${root}/config.json`, {
+      name: teamName,
+      agent_type: 'claude',
+      max_workers: 4,
+      workers: [{ name: 'worker-1' }, { name: 'worker-2' }, { name: 'worker-3' }],
+    });
+    writeJson(`${root}/tasks/task-1.json`, { id: '1', subject: 'a', status: 'completed' });
+    writeJson(`${root}/tasks/task-2.json`, { id: '2', subject: 'b', status: 'pending', depends_on: ['1'] });
+    writeJson(`${root}/tasks/task-3.json`, { id: '3', subject: 'c', status: 'pending', depends_on: ['2'] });
+    writeJson(`${root}/tasks/task-4.json`, { id: '4', subject: 'd', status: 'in_progress', owner: 'worker-1' });
+    writeJson(`${root}/workers/worker-1/status.json`, { state: 'working', updated_at: new Date(NOW).toISOString() });
+    writeJson(`${root}/workers/worker-2/status.json`, { state: 'idle', updated_at: new Date(NOW - 90_000).toISOString() });
+    writeHeartbeat(cwd, {
+      workerName: 'worker-3',
+      teamName,
+      provider: 'claude',
+      pid: 1,
+      lastPollAt: new Date(NOW).toISOString(),
+      consecutiveErrors: 3,
+      status: 'quarantined',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('counts ready tasks and reads idle and quarantine state', async () => {
+    const snap = await collectAutoscaleSnapshot(teamName, cwd, NOW);
+    expect(snap).not.toBeNull();
+    expect(snap!.readyTasks).toBe(1);
+    expect(snap!.inProgressTasks).toBe(1);
+    expect(snap!.workers).toEqual([
+      { name: 'worker-1', state: 'working', idleMs: null, quarantined: false },
+      { name: 'worker-2', state: 'idle', idleMs: 90_000, quarantined: false },
+      { name: 'worker-3', state: 'unknown', idleMs: null, quarantined: true },
+    ]);
+    expect(snap!.lastActionAt).toBeUndefined();
+  });
+
+  it('returns null for a missing team', async () => {
+    expect(await collectAutoscaleSnapshot('no-such-team', cwd, NOW)).toBeNull();
+  });
+
+  it('does not act when scaling is disabled', async () => {
+    const result = await runAutoscaleCycle(teamName, cwd, {}, {});
+    expect(result).toEqual({ decision: { action: 'none', reason: 'scaling disabled' } });
+  });
+});
@@ -5,6 +5,7 @@ import { tmpdir } from 'os';
 import { generateTeamReport, saveTeamReport } from '../summary-report.js';
 import { logAuditEvent } from '../audit-log.js';
 import { recordTaskUsage } from '../usage-tracker.js';
+import { createTask, writeTaskResult } from '../task-file-ops.js';
 
 describe('summary-report', () => {
   let testDir: string;
@@ -69,6 +70,10 @@ describe('summary-report', () => {
       expect(report).toContain('## Usage Totals');
       expect(report).toContain('1 completed');
       expect(report).toContain('worker1');
+      expect(report).toContain('## Task Costs');
+      // 1250 input + 2500 output estimated tokens at gpt-5 prices
+      expect(report).toContain('| task1 | worker1 | gpt-5.3-codex | 1,250/2,500 | estimated | $0.0266 |');
+      expect(report).toContain('- Total cost: $0.0266');
     });
 
     it('handles multiple workers', () => {
@@ -176,6 +181,32 @@ describe('summary-report', () => {
       const report = generateTeamReport(testDir, teamName);
       expect(report).toMatch(/\*Generated at \d{4}-\d{2}-\d{2}T.*Z\*/);
     });
+
+    it('verifies completed tasks from their result artifacts', () => {
+      const base = { description: 'd', owner: 'worker1', blocks: [], blockedBy: [] };
+      createTask(teamName, { ...base, subject: 'passing', status: 'completed' }, { cwd: testDir });
+      createTask(teamName, { ...base, subject: 'failing check', status: 'completed' }, { cwd: testDir });
+      createTask(teamName, { ...base, subject: 'no artifact', status: 'completed' }, { cwd: testDir });
+      createTask(teamName, { ...base, subject: 'still running', status: 'in_progress' }, { cwd: testDir });
+      writeTaskResult(teamName, {
+        taskId: '1', changedFiles: ['src/a.ts', 'src/b.ts'], commits: ['abc1234'],
+        testCommands: [{ command: 'npm test', exitCode: 0 }],
+        followUpTasks: [{ subject: 'Document a', description: 'README section' }],
+      }, { cwd: testDir });
+      writeTaskResult(teamName, {
+        taskId: '2', changedFiles: [], commits: [],
+        testCommands: [{ command: 'npm run lint', exitCode: 1 }], followUpTasks: [],
+      }, { cwd: testDir });
+
+      const report = generateTeamReport(testDir, teamName);
+      expect(report).toContain('## Task Verification');
+      expect(report).toContain('- Verified: 1 of 3 completed task(s)');
+      expect(report).toContain('| 1 | 2 | 1 | 1/1 passed | 1 | Yes |');
+      expect(report).toContain('| 2 | 0 | 0 | 0/1 passed | 0 | No (`npm run lint` exited 1) |');
+      expect(report).toContain('| 3 | - | - | - | - | No (no result artifact) |');
+      expect(report).not.toMatch(/^\| 4 \|/m);
+      expect(report).toContain('- [1] Document a: README section');
+    });
   });
 
   describe('saveTeamReport', () => {
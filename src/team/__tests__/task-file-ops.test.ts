@@ -3,7 +3,7 @@ import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, readdirSync
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
-  readTask, updateTask, findNextTask, areBlockersResolved,
+  readTask, createTask, updateTask, findNextTask, areBlockersResolved,
   writeTaskFailure, readTaskFailure, listTaskIds, isTaskRetryExhausted,
   acquireTaskLock, releaseTaskLock, withTaskLock,
 } from '../task-file-ops.js';
@@ -64,6 +64,24 @@ describe('readTask', () => {
   });
 });
 
+describe('createTask', () => {
+  it('assigns the next numeric ID and persists the task', () => {
+    writeTask({ id: '3', subject: 'T3', description: 'D', status: 'pending', owner: 'w1', blocks: [], blockedBy: [] });
+    const created = createTask(TEST_TEAM, {
+      subject: 'New', description: 'D', status: 'pending', owner: 'w2', blocks: [], blockedBy: ['3'],
+    }, { cwd: TEST_CWD });
+    expect(created.id).toBe('4');
+    expect(readTask(TEST_TEAM, '4', { cwd: TEST_CWD })).toEqual(created);
+  });
+
+  it('starts at 1 for an empty team', () => {
+    const created = createTask(TEST_TEAM, {
+      subject: 'First', description: 'D', status: 'pending', owner: '', blocks: [], blockedBy: [],
+    }, { cwd: TEST_CWD });
+    expect(created.id).toBe('1');
+  });
+});
+
 describe('updateTask', () => {
   it('updates status while preserving other fields', () => {
     const task: TaskFile = {
@@ -152,6 +170,14 @@ describe('findNextTask', () => {
     expect(await findNextTask(TEST_TEAM, 'w1', { cwd: TEST_CWD })).toBeNull();
   });
 
+  it('prefers the task that heads the longest dependency chain', async () => {
+    writeTask({ id: '1', subject: 'T1', description: 'D', status: 'pending', owner: 'w1', blocks: [], blockedBy: [] });
+    writeTask({ id: '2', subject: 'T2', description: 'D', status: 'pending', owner: 'w1', blocks: ['3'], blockedBy: [] });
+    writeTask({ id: '3', subject: 'T3', description: 'D', status: 'pending', owner: 'w2', blocks: [], blockedBy: ['2'] });
+    const result = await findNextTask(TEST_TEAM, 'w1', { cwd: TEST_CWD });
+    expect(result?.id).toBe('2');
+  });
+
   it('writes claim marker with claimedBy and claimPid', async () => {
     writeTask({ id: '1', subject: 'T1', description: 'D', status: 'pending', owner: 'w1', blocks: [], blockedBy: [] });
     const result = await findNextTask(TEST_TEAM, 'w1', { cwd: TEST_CWD });
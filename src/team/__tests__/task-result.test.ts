@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TASK_RESULT_FENCE,
+  validateTaskResult,
+  extractTaskResult,
+  verifyTaskResult,
+} from '../task-result.js';
+
+describe('task-result', () => {
+  describe('validateTaskResult', () => {
+    it('normalizes a minimal artifact', () => {
+      expect(validateTaskResult({ changedFiles: ['src/a.ts'] }, '3')).toEqual({
+        ok: true,
+        result: { taskId: '3', changedFiles: ['src/a.ts'], commits: [], testCommands: [], followUpTasks: [] },
+      });
+    });
+
+    it('collects every problem', () => {
+      const validation = validateTaskResult({
+        taskId: '9',
+        changedFiles: ['../outside.ts'],
+        commits: ['not-a-sha'],
+        testCommands: [{ command: 'npm test', exitCode: 1.5 }],
+        followUpTasks: [{ description: 'missing subject' }],
+        notes: 42,
+      }, '3');
+      expect(validation).toEqual({
+        ok: false,
+        errors: [
+          'taskId "9" does not match task "3"',
+          'changedFiles[0] must be a path relative to the working directory',
+          'commits[0] must be a commit SHA',
+          'testCommands[0].exitCode must be an integer',
+          'followUpTasks[0].subject must be a non-empty string',
+          'notes must be a string',
+        ],
+      });
+    });
+
+    it('rejects non-objects', () => {
+      expect(validateTaskResult('done')).toEqual({ ok: false, errors: ['result must be an object'] });
+    });
+  });
+
+  describe('extractTaskResult', () => {
+    it('uses the last result block in the output', () => {
+      const output = [
+        'Example from the docs:',
+        '```' + TASK_RESULT_FENCE,
+        '{"changedFiles": ["example.ts"]}',
+        '```',
+        'Done. Final result:',
+        '```' + TASK_RESULT_FENCE,
+        '{"changedFiles": ["src/real.ts"], "testCommands": [{"command": "npm test", "exitCode": 0}]}',
+        '```',
+      ].join('\n');
+      expect(extractTaskResult(output, '1').result).toMatchObject({
+        taskId: '1',
+        changedFiles: ['src/real.ts'],
+        testCommands: [{ command: 'npm test', exitCode: 0 }],
+      });
+    });
+
+    it('returns no result and no errors when the worker emitted none', () => {
+      expect(extractTaskResult('All done, changed src/a.ts', '1')).toEqual({ result: null, errors: [] });
+    });
+
+    it('reports malformed JSON', () => {
+      const { result, errors } = extractTaskResult('```' + TASK_RESULT_FENCE + '\n{nope}\n```', '1');
+      expect(result).toBeNull();
+      expect(errors[0]).toMatch(/^result block is not valid JSON/);
+    });
+  });
+
+  describe('verifyTaskResult', () => {
+    const base = { taskId: '1', changedFiles: [], commits: [], followUpTasks: [] };
+
+    it('passes when every check exited 0', () => {
+      expect(verifyTaskResult({ ...base, testCommands: [{ command: 'npm test', exitCode: 0 }] }))
+        .toEqual({ verified: true, problems: [] });
+    });
+
+    it('fails on missing or failing checks', () => {
+      expect(verifyTaskResult({ ...base, testCommands: [] }).problems).toEqual(['no verification commands recorded']);
+      expect(verifyTaskResult({ ...base, testCommands: [{ command: 'tsc', exitCode: 2 }] }).problems)
+        .toEqual(['`tsc` exited 2']);
+    });
+  });
+});
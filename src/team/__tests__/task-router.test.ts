@@ -127,6 +127,23 @@ describe('task-router', () => {
       expect(decisions).toHaveLength(0);
     });
 
+    it('routes critical-path tasks to the best-fit worker first', () => {
+      registerWorker('codex-1', 'codex');
+      registerWorker('codex-2', 'codex', 'executing');
+
+      const side = makeTask('t1', 'Side review');
+      const head = { ...makeTask('t2', 'Review core'), blocks: ['t3'] };
+      const tail = { ...makeTask('t3', 'Follow-up'), blockedBy: ['t2'] };
+      const decisions = routeTasks(teamName, testDir, [side, head], {
+        t1: ['code-review'],
+        t2: ['code-review'],
+      }, [side, head, tail]);
+
+      expect(decisions.map(d => d.taskId)).toEqual(['t2', 't1']);
+      expect(decisions[0].onCriticalPath).toBe(true);
+      expect(decisions[1].onCriticalPath).toBe(false);
+    });
+
     it('includes routing reason and confidence', () => {
       registerWorker('codex-1', 'codex');
 
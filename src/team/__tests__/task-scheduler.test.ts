@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateTaskGraph,
+  assertValidTaskGraph,
+  detectTaskCycles,
+  computeCriticalPath,
+  prioritizeTasks,
+  getTaskDuration,
+  type SchedulableTask,
+} from '../task-scheduler.js';
+
+function task(id: string, blockedBy: string[] = [], extra: Partial<SchedulableTask> = {}): SchedulableTask {
+  return { id, status: 'pending', blockedBy, ...extra };
+}
+
+describe('validateTaskGraph', () => {
+  it('accepts an acyclic graph', () => {
+    const result = validateTaskGraph([task('1'), task('2', ['1']), task('3', ['1', '2'])]);
+    expect(result).toEqual({ valid: true, cycles: [], missingDependencies: [] });
+  });
+
+  it('reports cycles in execution order', () => {
+    const result = validateTaskGraph([task('1', ['3']), task('2', ['1']), task('3', ['2'])]);
+    expect(result.valid).toBe(false);
+    expect(result.cycles).toEqual([['1', '2', '3', '1']]);
+  });
+
+  it('reports self-dependencies as cycles', () => {
+    expect(detectTaskCycles([task('1', ['1'])])).toEqual([['1', '1']]);
+  });
+
+  it('reports dependencies on unknown tasks', () => {
+    const result = validateTaskGraph([task('1', ['9'])]);
+    expect(result.valid).toBe(false);
+    expect(result.missingDependencies).toEqual([{ taskId: '1', dependency: '9' }]);
+  });
+
+  it('reads v2 depends_on / blocked_by fields', () => {
+    const result = validateTaskGraph([
+      { id: '1', status: 'pending', depends_on: ['2'] },
+      { id: '2', status: 'pending', blocked_by: ['1'] },
+    ]);
+    expect(result.cycles).toHaveLength(1);
+  });
+
+  it('assertValidTaskGraph throws with a readable message', () => {
+    expect(() => assertValidTaskGraph([task('1', ['2']), task('2', ['1'])]))
+      .toThrow(/Invalid task graph: dependency cycle: /);
+    expect(() => assertValidTaskGraph([task('1')])).not.toThrow();
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('computes slack and the critical chain', () => {
+    // 1 -> 2 -> 4 (length 3), 3 -> 4 (3 has slack 1)
+    const analysis = computeCriticalPath([task('1'), task('2', ['1']), task('3'), task('4', ['2', '3'])]);
+    expect(analysis.totalDuration).toBe(3);
+    expect(analysis.criticalPath).toEqual(['1', '2', '4']);
+    expect(analysis.entries.get('3')?.slack).toBe(1);
+    expect(analysis.entries.get('1')?.remainingChain).toBe(3);
+    expect(analysis.entries.get('4')?.earliestStart).toBe(2);
+  });
+
+  it('uses metadata.estimate as duration', () => {
+    const analysis = computeCriticalPath([
+      task('1', [], { metadata: { estimate: 5 } }),
+      task('2'),
+      task('3', ['1', '2']),
+    ]);
+    expect(analysis.criticalPath).toEqual(['1', '3']);
+    expect(analysis.entries.get('2')?.slack).toBe(4);
+  });
+
+  it('treats completed tasks as zero remaining work', () => {
+    expect(getTaskDuration(task('1', [], { status: 'completed' }))).toBe(0);
+    const analysis = computeCriticalPath([task('1', [], { status: 'completed' }), task('2', ['1'])]);
+    expect(analysis.totalDuration).toBe(1);
+  });
+
+  it('throws on cyclic graphs', () => {
+    expect(() => computeCriticalPath([task('1', ['2']), task('2', ['1'])])).toThrow(/dependency cycle/);
+  });
+});
+
+describe('prioritizeTasks', () => {
+  it('keeps ID order for independent tasks', () => {
+    expect(prioritizeTasks([task('10'), task('2'), task('1')]).map(t => t.id)).toEqual(['1', '2', '10']);
+  });
+
+  it('puts zero-slack, longest-chain tasks first', () => {
+    const ordered = prioritizeTasks([task('1'), task('2'), task('3', ['2']), task('4', ['3'])]);
+    expect(ordered.map(t => t.id)).toEqual(['2', '3', '4', '1']);
+  });
+
+  it('returns input order for cyclic graphs', () => {
+    const tasks = [task('2', ['1']), task('1', ['2'])];
+    expect(prioritizeTasks(tasks).map(t => t.id)).toEqual(['2', '1']);
+  });
+});
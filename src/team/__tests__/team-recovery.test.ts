@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { tmpdir } from 'os';
+
+const mocks = vi.hoisted(() => ({
+  createTeamSession: vi.fn(),
+  spawnWorkerInPane: vi.fn(),
+  sendToWorker: vi.fn(),
+  waitForPaneReady: vi.fn(),
+  execFile: vi.fn(),
+}));
+
+vi.mock('child_process', () => ({
+  execFile: mocks.execFile,
+}));
+
+vi.mock('../model-contract.js', () => ({
+  buildWorkerArgv: vi.fn(() => ['/usr/bin/claude']),
+  resolveValidatedBinaryPath: vi.fn(() => '/usr/bin/claude'),
+  getWorkerEnv: vi.fn(() => ({ OMC_TEAM_WORKER: 'recover-team/worker-1' })),
+  isPromptModeAgent: vi.fn(() => false),
+  getPromptModeArgs: vi.fn(() => []),
+}));
+
+vi.mock('../tmux-session.js', () => ({
+  sanitizeName: (name: string) => name.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 50),
+  createTeamSession: mocks.createTeamSession,
+  spawnWorkerInPane: mocks.spawnWorkerInPane,
+  sendToWorker: mocks.sendToWorker,
+  waitForPaneReady: mocks.waitForPaneReady,
+}));
+
+const TEAM = 'recover-team';
+
+/** Every pane, session and pid is dead — the leader session crashed. */
+const crashedDeps = {
+  isPaneAlive: async () => false,
+  isSessionAlive: async () => false,
+  isPidAlive: () => false,
+};
+
+describe('team crash recovery', () => {
+  let cwd: string;
+  const taskPath = (id: string) => join(cwd, '.omc', 'state', 'team', TEAM, 'tasks', `task-${id}.json`);
+
+  async function readJson<T>(path: string): Promise<T> {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  }
+
+  async function patchTask(id: string, patch: Record<string, unknown>): Promise<void> {
+    const task = await readJson<Record<string, unknown>>(taskPath(id));
+    await writeFile(taskPath(id), JSON.stringify({ ...task, ...patch }, null, 2));
+  }
+
+  async function startTeam(): Promise<void> {
+    const { startTeamV2 } = await import('../runtime-v2.js');
+    await startTeamV2({
+      teamName: TEAM,
+      workerCount: 2,
+      agentTypes: ['claude', 'claude'],
+      tasks: [
+        { subject: 'First', description: 'first task' },
+        { subject: 'Second', description: 'second task' },
+        { subject: 'Third', description: 'depends on first', blocked_by: ['1'] },
+      ],
+      cwd,
+    });
+  }
+
+  beforeEach(async () => {
+    vi.resetModules();
+    cwd = await mkdtemp(join(tmpdir(), 'omc-team-recovery-'));
+    for (const mock of Object.values(mocks)) mock.mockReset();
+
+    let nextPane = 2;
+    mocks.createTeamSession
+      .mockResolvedValueOnce({ sessionName: 'original-session', leaderPaneId: '%1', workerPaneIds: [] })
+      .mockResolvedValue({ sessionName: 'resumed-session', leaderPaneId: '%50', workerPaneIds: [] });
+    mocks.spawnWorkerInPane.mockResolvedValue(undefined);
+    mocks.waitForPaneReady.mockResolvedValue(true);
+    mocks.sendToWorker.mockResolvedValue(true);
+    (mocks.execFile as unknown as Record<PropertyKey, unknown>)[promisify.custom] = async (_file: string, args: string[]) => {
+      if (args[0] === 'split-window') return { stdout: `%${nextPane++}\n`, stderr: '' };
+      return { stdout: '', stderr: '' };
+    };
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('dry run reports orphaned claims, stale dispatch and missing worktrees without writing', async () => {
+    await startTeam();
+    await patchTask('1', { status: 'in_progress', owner: 'worker-1', claim: { owner: 'worker-1', token: 't', leased_until: '2026-01-01T00:00:00.000Z' } });
+    await patchTask('2', { status: 'completed', owner: 'worker-2' });
+
+    const metaDir = join(cwd, '.omc', 'state', 'team-bridge', TEAM);
+    await mkdir(metaDir, { recursive: true });
+    await writeFile(join(metaDir, 'worktrees.json'), JSON.stringify([
+      { path: join(cwd, 'gone'), branch: 'omc-team/recover-team/worker-1', workerName: 'worker-1', teamName: TEAM, createdAt: '' },
+    ]));
+
+    const { reconcileTeamState } = await import('../team-recovery.js');
+    const report = await reconcileTeamState(TEAM, cwd, { dryRun: true, deps: crashedDeps });
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      sessionName: 'original-session',
+      sessionAlive: false,
+      aliveWorkers: [],
+      missingWorkers: ['worker-1', 'worker-2', 'worker-3'],
+      releasedClaims: [{ taskId: '1', owner: 'worker-1', reason: 'owner_dead' }],
+      worktrees: [{ workerName: 'worker-1', present: false }],
+      phase: 'executing',
+    });
+    expect(report?.failedDispatchRequests).toHaveLength(2);
+    expect((await readJson<{ status: string }>(taskPath('1'))).status).toBe('in_progress');
+  });
+
+  it('keeps claims of live workers and releases claims held by dead processes', async () => {
+    await startTeam();
+    await writeFile(
+      join(cwd, '.omc', 'state', 'team', TEAM, 'workers', 'worker-2', 'heartbeat.json'),
+      JSON.stringify({ pid: 4242, last_turn_at: '', turn_count: 3, alive: true }),
+    );
+    await patchTask('1', { status: 'in_progress', owner: 'worker-1', claimPid: 999 });
+    await patchTask('2', { status: 'in_progress', owner: 'worker-2' });
+
+    const { reconcileTeamState } = await import('../team-recovery.js');
+    const report = await reconcileTeamState(TEAM, cwd, {
+      deps: {
+        isPaneAlive: async (paneId) => paneId === '%2',
+        isSessionAlive: async () => true,
+        isPidAlive: (pid) => pid === 4242,
+      },
+    });
+
+    expect(report?.aliveWorkers).toEqual(['worker-1', 'worker-2']);
+    expect(report?.releasedClaims).toEqual([{ taskId: '1', owner: 'worker-1', reason: 'claim_pid_dead' }]);
+    const released = await readJson<Record<string, unknown>>(taskPath('1'));
+    expect(released.status).toBe('pending');
+    expect(released).not.toHaveProperty('owner');
+    expect(released).not.toHaveProperty('claimPid');
+    expect((await readJson<{ status: string }>(taskPath('2'))).status).toBe('in_progress');
+  });
+
+  it('recreates the session and respawns missing workers onto ready tasks', async () => {
+    await startTeam();
+    await patchTask('1', { status: 'in_progress', owner: 'worker-1' });
+
+    const { recoverTeamV2 } = await import('../runtime-v2.js');
+    const result = await recoverTeamV2(TEAM, cwd, { deps: crashedDeps });
+
+    expect(result?.releasedClaims.map(c => c.taskId)).toEqual(['1']);
+    expect(result?.newSessionName).toBe('resumed-session');
+    // Task 3 depends on task 1, so only tasks 1 and 2 are ready
+    expect(result?.respawned.map(r => [r.workerName, r.taskId])).toEqual([['worker-1', '1'], ['worker-2', '2']]);
+    expect(result?.failedDispatchRequests).toHaveLength(2);
+
+    const config = await readJson<{ tmux_session: string; leader_pane_id: string; workers: Array<{ name: string; pane_id?: string }> }>(
+      join(cwd, '.omc', 'state', 'team', TEAM, 'config.json'),
+    );
+    expect(config.tmux_session).toBe('resumed-session');
+    expect(config.leader_pane_id).toBe('%50');
+    // worker-3 has nothing ready to pick up, so it stays without a pane
+    expect(config.workers.map(w => w.pane_id)).toEqual(['%4', '%5', undefined]);
+
+    const phaseState = await readJson<{ current_phase: string }>(join(cwd, '.omc', 'state', 'team', TEAM, 'phase-state.json'));
+    expect(phaseState.current_phase).toBe('planning');
+  });
+
+  it('does not respawn workers for a finished team', async () => {
+    await startTeam();
+    for (const id of ['1', '2', '3']) await patchTask(id, { status: 'completed' });
+
+    const { recoverTeamV2 } = await import('../runtime-v2.js');
+    const result = await recoverTeamV2(TEAM, cwd, { deps: crashedDeps });
+
+    expect(result?.phase).toBe('completed');
+    expect(result?.respawned).toEqual([]);
+    expect(mocks.createTeamSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for unknown teams', async () => {
+    const { recoverTeamV2 } = await import('../runtime-v2.js');
+    expect(await recoverTeamV2('missing-team', cwd, { deps: crashedDeps })).toBeNull();
+  });
+});
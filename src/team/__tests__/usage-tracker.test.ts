@@ -1,13 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, writeFileSync, existsSync, readFileSync, statSync } from 'fs';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, appendFileSync, existsSync, readFileSync, statSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   recordTaskUsage,
   measureCharCounts,
   generateUsageReport,
+  recordCompletedTaskUsage,
 } from '../usage-tracker.js';
 import type { TaskUsageRecord } from '../usage-tracker.js';
+import type { TeamTask, WorkerInfo } from '../types.js';
 
 describe('usage-tracker', () => {
   let testDir: string;
@@ -119,6 +121,24 @@ describe('usage-tracker', () => {
       expect(w1!.totalResponseChars).toBe(4000);
     });
 
+    it('prices reported tokens and estimates legacy records', () => {
+      recordTaskUsage(testDir, 'test-team', {
+        ...makeRecord('worker1', 'task1'),
+        tokens: { inputTokens: 100_000, outputTokens: 10_000, cacheReadTokens: 0, cacheWriteTokens: 0, source: 'reported' },
+        costUsd: 0.225,
+      });
+      recordTaskUsage(testDir, 'test-team', makeRecord('worker1', 'task2'));
+
+      const report = generateUsageReport(testDir, 'test-team');
+      const w1 = report.workers[0];
+      // task2: 1000/4 input + 2000/4 output tokens at gpt-5 prices
+      expect(w1.totalInputTokens).toBe(100_250);
+      expect(w1.totalOutputTokens).toBe(10_500);
+      expect(w1.estimatedTaskCount).toBe(1);
+      expect(report.tasks.map(t => t.tokens.source)).toEqual(['reported', 'estimated']);
+      expect(report.totalCostUsd).toBeCloseTo(0.225 + 250 * 1.25e-6 + 500 * 10e-6, 8);
+    });
+
     it('handles single worker', () => {
       recordTaskUsage(testDir, 'test-team', makeRecord('worker1', 'task1'));
 
@@ -127,4 +147,93 @@ describe('usage-tracker', () => {
       expect(report.workers).toHaveLength(1);
     });
   });
+
+  describe('recordCompletedTaskUsage', () => {
+    const sessionId = '7c1f2d9e-0000-4000-8000-000000000001';
+    let originalConfigDir: string | undefined;
+    let transcriptPath: string;
+
+    beforeEach(() => {
+      originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+      process.env.CLAUDE_CONFIG_DIR = join(testDir, 'claude');
+      const projectDir = join(testDir, 'claude', 'projects', '-tmp-project');
+      mkdirSync(projectDir, { recursive: true });
+      transcriptPath = join(projectDir, `${sessionId}.jsonl`);
+    });
+
+    afterEach(() => {
+      if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+      else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    });
+
+    function appendTurn(id: string, inputTokens: number, outputTokens: number): void {
+      appendFileSync(transcriptPath, JSON.stringify({
+        type: 'assistant',
+        message: { id, model: 'claude-sonnet-4-6', usage: { input_tokens: inputTokens, output_tokens: outputTokens } },
+      }) + '\n');
+    }
+
+    function completedTask(id: string, owner: string, completedAt: string): TeamTask {
+      return {
+        id,
+        subject: `Task ${id}`,
+        description: 'x'.repeat(400),
+        status: 'completed',
+        owner,
+        result: 'y'.repeat(800),
+        created_at: '2026-01-01T10:00:00Z',
+        completed_at: completedAt,
+      };
+    }
+
+    const workers: WorkerInfo[] = [
+      { name: 'worker-1', index: 1, role: 'claude', assigned_tasks: [], session_id: sessionId },
+      { name: 'worker-2', index: 2, role: 'codex', assigned_tasks: [] },
+    ];
+    const config = { workers, agent_type: 'claude', created_at: '2026-01-01T10:00:00Z' };
+
+    it('charges each claude task the session growth since the last record', () => {
+      appendTurn('msg_1', 1000, 200);
+      const task1 = completedTask('1', 'worker-1', '2026-01-01T10:02:00Z');
+      expect(recordCompletedTaskUsage(testDir, 'test-team', config, [task1])).toHaveLength(1);
+
+      appendTurn('msg_2', 3000, 500);
+      const task2 = completedTask('2', 'worker-1', '2026-01-01T10:05:00Z');
+      const written = recordCompletedTaskUsage(testDir, 'test-team', config, [task1, task2]);
+      expect(written).toHaveLength(1);
+      expect(written[0]).toMatchObject({
+        taskId: '2',
+        model: 'claude-sonnet-4-6',
+        sessionId,
+        startedAt: '2026-01-01T10:02:00Z',
+        wallClockMs: 180_000,
+        tokens: { inputTokens: 3000, outputTokens: 500, source: 'reported' },
+      });
+
+      const report = generateUsageReport(testDir, 'test-team');
+      expect(report.taskCount).toBe(2);
+      expect(report.workers[0].totalInputTokens).toBe(4000);
+      expect(report.totalCostUsd).toBeCloseTo(4000 * 3e-6 + 700 * 15e-6, 8);
+    });
+
+    it('estimates codex tasks and skips tasks already recorded', () => {
+      const task = completedTask('3', 'worker-2', '2026-01-01T10:01:00Z');
+      recordCompletedTaskUsage(testDir, 'test-team', config, [task]);
+      recordCompletedTaskUsage(testDir, 'test-team', config, [task]);
+
+      const report = generateUsageReport(testDir, 'test-team');
+      expect(report.taskCount).toBe(1);
+      expect(report.workers[0]).toMatchObject({
+        provider: 'codex',
+        totalInputTokens: 100,
+        totalOutputTokens: 200,
+        estimatedTaskCount: 1,
+      });
+    });
+
+    it('ignores tasks that are not completed', () => {
+      const task: TeamTask = { ...completedTask('4', 'worker-1', ''), status: 'in_progress' };
+      expect(recordCompletedTaskUsage(testDir, 'test-team', config, [task])).toEqual([]);
+    });
+  });
 });
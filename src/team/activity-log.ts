@@ -40,6 +40,7 @@ const CATEGORY_MAP: Record<AuditEventType, ActivityEntry['category']> = {
   shutdown_ack: 'lifecycle',
   permission_violation: 'error',
   permission_audit: 'task',
+  budget_exceeded: 'error',
 };
 
 /** Map audit event types to human-readable action descriptions */
@@ -64,6 +65,7 @@ function describeEvent(event: AuditEvent): string {
     case 'shutdown_ack': return 'Acknowledged shutdown';
     case 'permission_violation': return `Permission violation on task ${event.taskId || '(unknown)'}`;
     case 'permission_audit': return `Permission audit warning on task ${event.taskId || '(unknown)'}`;
+    case 'budget_exceeded': return `Budget ceiling crossed (${String(event.details?.limit ?? 'unknown')}), dispatch paused`;
     default: return event.eventType;
   }
 }
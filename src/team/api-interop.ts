@@ -46,6 +46,7 @@ import { queueBroadcastMailboxMessage, queueDirectMailboxMessage, type DispatchO
 import { injectToLeaderPane, sendToWorker } from './tmux-session.js';
 import { listDispatchRequests, markDispatchRequestDelivered, markDispatchRequestNotified } from './dispatch-queue.js';
 import { generateMailboxTriggerMessage } from './worker-bootstrap.js';
+import { validateTaskGraph, formatTaskGraphErrors } from './task-scheduler.js';
 
 const TEAM_UPDATE_TASK_MUTABLE_FIELDS = new Set(['subject', 'description', 'blocked_by', 'requires_code_change']);
 const TEAM_UPDATE_TASK_REQUEST_FIELDS = new Set(['team_name', 'task_id', 'workingDirectory', ...TEAM_UPDATE_TASK_MUTABLE_FIELDS]);
@@ -624,11 +625,28 @@ export async function executeTeamApiOperation(
           updates.requires_code_change = args.requires_code_change;
         }
         if ('blocked_by' in args) {
+          let blockedBy: string[];
           try {
-            updates.blocked_by = parseValidatedTaskIdArray(args.blocked_by, 'blocked_by');
+            blockedBy = parseValidatedTaskIdArray(args.blocked_by, 'blocked_by');
           } catch (error) {
             return { ok: false, operation, error: { code: 'invalid_input', message: (error as Error).message } };
           }
+          // Reject edits that would introduce a dependency cycle or point at unknown tasks
+          const graph = (await teamListTasks(teamName, cwd)).map((t) =>
+            t.id === taskId ? { ...t, depends_on: blockedBy } : t,
+          );
+          const validation = validateTaskGraph(graph);
+          const missingDependencies = validation.missingDependencies.filter((m) => m.taskId === taskId);
+          const problems = formatTaskGraphErrors({
+            valid: validation.cycles.length === 0 && missingDependencies.length === 0,
+            cycles: validation.cycles,
+            missingDependencies,
+          });
+          if (problems) {
+            return { ok: false, operation, error: { code: 'invalid_input', message: problems } };
+          }
+          updates.blocked_by = blockedBy;
+          updates.depends_on = blockedBy;
         }
         const task = await teamUpdateTask(teamName, taskId, updates, cwd);
         return task
@@ -30,7 +30,8 @@ export type AuditEventType =
   | 'shutdown_received'
   | 'shutdown_ack'
   | 'permission_violation'
-  | 'permission_audit';
+  | 'permission_audit'
+  | 'budget_exceeded';
 
 export interface AuditEvent {
   timestamp: string;
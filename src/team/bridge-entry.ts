@@ -150,6 +150,11 @@ function main(): void {
       process.exit(1);
     }
 
+    if (config.requeueOnPermissionViolation !== undefined && typeof config.requeueOnPermissionViolation !== 'boolean') {
+      console.error('requeueOnPermissionViolation must be a boolean');
+      process.exit(1);
+    }
+
     // Validate permissions shape when enforcement is active
     if (config.permissionEnforcement !== 'off' && config.permissions) {
       const p = config.permissions;
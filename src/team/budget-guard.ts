@@ -0,0 +1,280 @@
+// src/team/budget-guard.ts
+
+/**
+ * Hard budget guards for team runs.
+ *
+ * A team can be started with ceilings on wall-clock time, total task retries
+ * and estimated spend (usage-tracker cost accounting). The leader's poll loop
+ * calls checkTeamBudget() each cycle; the first time a ceiling is crossed the
+ * team is paused, a `budget_exceeded` audit event is written and a
+ * `team-budget-exceeded` notification is sent.
+ *
+ * Budget state lives at .omc/state/team/{team}/budget.json so the v2 claim
+ * path and v1 bridge workers can honour the pause without asking the leader.
+ * While paused no new task is claimed; in-flight tasks are allowed to finish.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { atomicWriteJson, validateResolvedPath } from './fs-utils.js';
+import { logAuditEvent } from './audit-log.js';
+import { generateUsageReport } from './usage-tracker.js';
+import { formatUsd } from './cost-accounting.js';
+import { TeamPaths, absPath, getTaskStoragePath } from './state-paths.js';
+import { sanitizeName } from './tmux-session.js';
+
+export interface TeamBudgetLimits {
+  /** Maximum wall-clock time since the team started. */
+  maxWallClockMs?: number;
+  /** Maximum task retries across the team (sum of failure sidecar retry counts). */
+  maxTaskRetries?: number;
+  /** Maximum estimated spend in USD across all workers. */
+  maxCostUsd?: number;
+}
+
+export type BudgetLimitKind = 'wall_clock' | 'task_retries' | 'cost';
+
+export interface BudgetUsage {
+  elapsedMs: number;
+  taskRetries: number;
+  costUsd: number;
+}
+
+export interface BudgetBreach {
+  limit: BudgetLimitKind;
+  observed: number;
+  ceiling: number;
+}
+
+export interface TeamBudgetState {
+  limits: TeamBudgetLimits;
+  started_at: string;
+  /** Set when a ceiling was crossed; claims are refused while present. */
+  paused_at?: string;
+  breach?: BudgetBreach;
+}
+
+export interface BudgetCheckResult {
+  state: TeamBudgetState;
+  usage: BudgetUsage;
+  breach: BudgetBreach | null;
+  /** True only on the cycle that paused the team (audit + notify happened). */
+  newlyPaused: boolean;
+}
+
+const LIMIT_FIELDS = ['maxWallClockMs', 'maxTaskRetries', 'maxCostUsd'] as const;
+
+function budgetPath(teamName: string, cwd: string): string {
+  return absPath(cwd, TeamPaths.budget(sanitizeName(teamName)));
+}
+
+/** Validate budget limits. Returns human-readable problems (empty when valid). */
+export function validateBudgetLimits(limits: unknown): string[] {
+  if (limits === undefined) return [];
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) return ['budget must be an object'];
+  const errors: string[] = [];
+  const l = limits as Record<string, unknown>;
+  for (const field of LIMIT_FIELDS) {
+    const value = l[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number`);
+    }
+  }
+  if (typeof l.maxTaskRetries === 'number' && !Number.isInteger(l.maxTaskRetries)) {
+    errors.push('maxTaskRetries must be an integer');
+  }
+  return errors;
+}
+
+/** Whether any ceiling is configured. */
+export function hasBudgetLimits(limits: TeamBudgetLimits | null | undefined): limits is TeamBudgetLimits {
+  return !!limits && LIMIT_FIELDS.some(field => typeof limits[field] === 'number');
+}
+
+/**
+ * Persist budget limits for a team. No-op (returns null) when no limit is set.
+ * Throws on invalid limits so misconfigured runs fail before spawning workers.
+ */
+export function initTeamBudget(
+  teamName: string,
+  cwd: string,
+  limits: TeamBudgetLimits | undefined,
+  startedAt: Date = new Date(),
+): TeamBudgetState | null {
+  const errors = validateBudgetLimits(limits);
+  if (errors.length > 0) throw new Error(`Invalid team budget: ${errors.join('; ')}`);
+  if (!hasBudgetLimits(limits)) return null;
+
+  const state: TeamBudgetState = { limits: { ...limits }, started_at: startedAt.toISOString() };
+  writeTeamBudget(teamName, cwd, state);
+  return state;
+}
+
+/** Read persisted budget state, or null when the team has no budget. */
+export function readTeamBudget(teamName: string, cwd: string): TeamBudgetState | null {
+  const path = budgetPath(teamName, cwd);
+  if (!existsSync(path)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as TeamBudgetState;
+    return parsed && typeof parsed === 'object' && parsed.limits ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeTeamBudget(teamName: string, cwd: string, state: TeamBudgetState): void {
+  const path = budgetPath(teamName, cwd);
+  validateResolvedPath(path, join(cwd, '.omc', 'state', 'team'));
+  atomicWriteJson(path, state);
+}
+
+/** True when a budget ceiling has paused dispatch for this team. */
+export function isTeamBudgetPaused(teamName: string, cwd: string): boolean {
+  return !!readTeamBudget(teamName, cwd)?.paused_at;
+}
+
+/**
+ * Clear a budget pause, optionally replacing the limits (e.g. after raising
+ * the ceiling). Returns false when the team has no budget state.
+ */
+export function clearBudgetPause(teamName: string, cwd: string, limits?: TeamBudgetLimits): boolean {
+  const state = readTeamBudget(teamName, cwd);
+  if (!state) return false;
+  if (limits) {
+    const errors = validateBudgetLimits(limits);
+    if (errors.length > 0) throw new Error(`Invalid team budget: ${errors.join('; ')}`);
+  }
+  writeTeamBudget(teamName, cwd, {
+    limits: limits ? { ...limits } : state.limits,
+    started_at: state.started_at,
+  });
+  return true;
+}
+
+/**
+ * Pure check of usage against limits. Wall clock is checked first, then
+ * retries, then cost, so the reported limit is stable across cycles.
+ */
+export function evaluateBudget(limits: TeamBudgetLimits, usage: BudgetUsage): BudgetBreach | null {
+  if (typeof limits.maxWallClockMs === 'number' && usage.elapsedMs >= limits.maxWallClockMs) {
+    return { limit: 'wall_clock', observed: usage.elapsedMs, ceiling: limits.maxWallClockMs };
+  }
+  if (typeof limits.maxTaskRetries === 'number' && usage.taskRetries > limits.maxTaskRetries) {
+    return { limit: 'task_retries', observed: usage.taskRetries, ceiling: limits.maxTaskRetries };
+  }
+  if (typeof limits.maxCostUsd === 'number' && usage.costUsd >= limits.maxCostUsd) {
+    return { limit: 'cost', observed: usage.costUsd, ceiling: limits.maxCostUsd };
+  }
+  return null;
+}
+
+/** Sum retry counts from task failure sidecars ({id}.failure.json). */
+export function countTaskRetries(teamName: string, cwd: string): number {
+  const dir = getTaskStoragePath(cwd, sanitizeName(teamName));
+  if (!existsSync(dir)) return 0;
+  let total = 0;
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.failure.json')) continue;
+    try {
+      const sidecar = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as { retryCount?: unknown };
+      if (typeof sidecar.retryCount === 'number' && sidecar.retryCount > 0) total += sidecar.retryCount;
+    } catch {
+      // Malformed sidecar — skip
+    }
+  }
+  return total;
+}
+
+/**
+ * Read current elapsed time, retries and spend for a team. Spend comes from
+ * the team usage log, which both runtimes append to as tasks complete.
+ */
+export function collectBudgetUsage(
+  teamName: string,
+  cwd: string,
+  startedAt: string,
+  now: number = Date.now(),
+): BudgetUsage {
+  const started = Date.parse(startedAt);
+  return {
+    elapsedMs: Number.isFinite(started) ? Math.max(0, now - started) : 0,
+    taskRetries: countTaskRetries(teamName, cwd),
+    costUsd: generateUsageReport(cwd, sanitizeName(teamName)).totalCostUsd,
+  };
+}
+
+function formatMinutes(ms: number): string {
+  return `${Math.floor(ms / 60_000)}m`;
+}
+
+/** One-line description of a breach for logs and notifications. */
+export function describeBudgetBreach(breach: BudgetBreach): string {
+  switch (breach.limit) {
+    case 'wall_clock':
+      return `wall clock ${formatMinutes(breach.observed)} reached ceiling ${formatMinutes(breach.ceiling)}`;
+    case 'task_retries':
+      return `task retries ${breach.observed} exceeded ceiling ${breach.ceiling}`;
+    case 'cost':
+      return `estimated cost ${formatUsd(breach.observed)} reached ceiling ${formatUsd(breach.ceiling)}`;
+  }
+}
+
+async function notifyBudgetExceeded(
+  teamName: string,
+  cwd: string,
+  breach: BudgetBreach,
+  usage: BudgetUsage,
+): Promise<void> {
+  try {
+    const { notify } = await import('../notifications/index.js');
+    await notify('team-budget-exceeded', {
+      sessionId: `team-${teamName}`,
+      projectPath: cwd,
+      teamName,
+      reason: describeBudgetBreach(breach),
+      durationMs: usage.elapsedMs,
+      contextSummary: `elapsed ${formatMinutes(usage.elapsedMs)}, retries ${usage.taskRetries}, cost ${formatUsd(usage.costUsd)}`,
+      profileName: process.env.OMC_NOTIFY_PROFILE,
+    });
+  } catch {
+    // Notification failures never block the guard
+  }
+}
+
+/**
+ * Watchdog cycle: compare current usage to the team's ceilings and pause
+ * dispatch on the first breach. Returns null when the team has no budget.
+ */
+export async function checkTeamBudget(
+  teamName: string,
+  cwd: string,
+  now: number = Date.now(),
+): Promise<BudgetCheckResult | null> {
+  const sanitized = sanitizeName(teamName);
+  const state = readTeamBudget(sanitized, cwd);
+  if (!state) return null;
+
+  const usage = collectBudgetUsage(sanitized, cwd, state.started_at, now);
+  if (state.paused_at) {
+    return { state, usage, breach: state.breach ?? null, newlyPaused: false };
+  }
+
+  const breach = evaluateBudget(state.limits, usage);
+  if (!breach) return { state, usage, breach: null, newlyPaused: false };
+
+  const paused: TeamBudgetState = { ...state, paused_at: new Date(now).toISOString(), breach };
+  writeTeamBudget(sanitized, cwd, paused);
+
+  logAuditEvent(cwd, {
+    timestamp: paused.paused_at!,
+    eventType: 'budget_exceeded',
+    teamName: sanitized,
+    workerName: 'leader-fixed',
+    details: { ...breach, usage, limits: state.limits },
+  });
+
+  await notifyBudgetExceeded(sanitized, cwd, breach, usage);
+
+  return { state: paused, usage, breach, newlyPaused: true };
+}
@@ -9,9 +9,10 @@
 
 import type { WorkerBackend, WorkerCapability } from './types.js';
 import type { UnifiedTeamMember } from './unified-team.js';
+import { getCustomCliContract } from './cli-contract-registry.js';
 
 /** Default capabilities by worker backend */
-const DEFAULT_CAPABILITIES: Record<WorkerBackend, WorkerCapability[]> = {
+const DEFAULT_CAPABILITIES: Record<string, WorkerCapability[]> = {
   'claude-native': ['code-edit', 'testing', 'general'],
   'mcp-codex': ['code-review', 'security-review', 'architecture', 'refactoring'],
   'mcp-gemini': ['ui-design', 'documentation', 'research', 'code-edit'],
@@ -22,9 +23,16 @@ const DEFAULT_CAPABILITIES: Record<WorkerBackend, WorkerCapability[]> = {
 
 /**
  * Get default capabilities for a worker backend.
+ * Custom tmux backends use the capabilities declared in their CLI contract.
  */
 export function getDefaultCapabilities(backend: WorkerBackend): WorkerCapability[] {
-  return [...(DEFAULT_CAPABILITIES[backend] || ['general'])];
+  const builtin = DEFAULT_CAPABILITIES[backend];
+  if (builtin) return [...builtin];
+  if (backend.startsWith('tmux-')) {
+    const custom = getCustomCliContract(backend.slice('tmux-'.length));
+    if (custom) return [...custom.capabilities];
+  }
+  return ['general'];
 }
 
 /**
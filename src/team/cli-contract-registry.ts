@@ -0,0 +1,209 @@
+// src/team/cli-contract-registry.ts
+
+/**
+ * Registry of custom CLI worker contracts.
+ *
+ * Built-in contracts (claude, codex, gemini) live in model-contract.ts.
+ * Additional CLIs (aider, opencode, in-house tools) are declared under
+ * `cliWorkers` in the user or project config:
+ *   ~/.config/claude-omc/config.jsonc
+ *   .claude/omc.jsonc
+ *
+ * Contracts are loaded lazily on first lookup; project entries override
+ * user entries with the same agent type.
+ */
+
+import { isAbsolute } from 'path';
+import { loadConfig } from '../config/loader.js';
+import type { CliWorkerContractConfig, PluginConfig } from '../shared/types.js';
+import type { WorkerCapability } from './types.js';
+import type { CliAgentContract } from './model-contract.js';
+
+export const BUILTIN_CLI_AGENT_TYPES = ['claude', 'codex', 'gemini'] as const;
+
+const AGENT_TYPE_RE = /^[a-z][a-z0-9-]{0,31}$/;
+const SAFE_BINARY_RE = /^[A-Za-z0-9._-]+$/;
+const OUTPUT_PARSERS = new Set(['text', 'jsonl-last-message', 'json-field']);
+const KNOWN_CAPABILITIES = new Set<WorkerCapability>([
+  'code-edit', 'code-review', 'security-review', 'architecture', 'testing',
+  'documentation', 'ui-design', 'refactoring', 'research', 'general',
+]);
+
+/** A registered custom contract plus its routing capabilities */
+export interface CustomCliContract extends CliAgentContract {
+  capabilities: WorkerCapability[];
+}
+
+const customContracts = new Map<string, CustomCliContract>();
+let configLoaded = false;
+
+function isBuiltinAgentType(agentType: string): boolean {
+  return (BUILTIN_CLI_AGENT_TYPES as readonly string[]).includes(agentType);
+}
+
+/**
+ * Validate a custom contract definition.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateCliContractConfig(agentType: string, config: unknown): string[] {
+  const errors: string[] = [];
+  if (!AGENT_TYPE_RE.test(agentType)) {
+    errors.push(`agent type "${agentType}" must match ${AGENT_TYPE_RE}`);
+  }
+  if (isBuiltinAgentType(agentType)) {
+    errors.push(`agent type "${agentType}" is built in and cannot be redefined`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    errors.push('contract must be an object');
+    return errors;
+  }
+
+  const c = config as Record<string, unknown>;
+  if (typeof c.binary !== 'string' || !c.binary) {
+    errors.push('binary is required');
+  } else if (!isAbsolute(c.binary) && !SAFE_BINARY_RE.test(c.binary)) {
+    errors.push(`binary "${c.binary}" must be a plain command name or absolute path`);
+  }
+  if (c.launchArgs !== undefined && (!Array.isArray(c.launchArgs) || c.launchArgs.some(a => typeof a !== 'string'))) {
+    errors.push('launchArgs must be an array of strings');
+  }
+  for (const field of ['installInstructions', 'modelFlag', 'promptModeFlag', 'outputField'] as const) {
+    if (c[field] !== undefined && typeof c[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  for (const field of ['modelFlag', 'promptModeFlag'] as const) {
+    if (typeof c[field] === 'string' && !(c[field] as string).startsWith('-')) {
+      errors.push(`${field} must start with "-"`);
+    }
+  }
+  if (c.supportsPromptMode !== undefined && typeof c.supportsPromptMode !== 'boolean') {
+    errors.push('supportsPromptMode must be a boolean');
+  }
+  if (c.outputParser !== undefined && !OUTPUT_PARSERS.has(c.outputParser as string)) {
+    errors.push(`outputParser must be one of: ${[...OUTPUT_PARSERS].join(', ')}`);
+  }
+  if (c.capabilities !== undefined) {
+    if (!Array.isArray(c.capabilities)) {
+      errors.push('capabilities must be an array');
+    } else {
+      const unknown = c.capabilities.filter(cap => !KNOWN_CAPABILITIES.has(cap as WorkerCapability));
+      if (unknown.length > 0) errors.push(`unknown capabilities: ${unknown.join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+function parseJsonlLastMessage(rawOutput: string): string {
+  const lines = rawOutput.trim().split('\n').filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const parsed = JSON.parse(lines[i]);
+      if (parsed.role === 'assistant' && typeof parsed.content === 'string') return parsed.content;
+      if (typeof parsed.result === 'string') return parsed.result;
+      if (typeof parsed.output === 'string') return parsed.output;
+    } catch {
+      // not JSON, skip
+    }
+  }
+  return rawOutput.trim();
+}
+
+function parseJsonField(rawOutput: string, field: string): string {
+  try {
+    const parsed = JSON.parse(rawOutput);
+    const value = parsed?.[field];
+    if (typeof value === 'string') return value;
+  } catch {
+    // not a single JSON document
+  }
+  return rawOutput.trim();
+}
+
+/** Build a runtime contract from a validated config entry */
+export function buildCliContract(agentType: string, config: CliWorkerContractConfig): CustomCliContract {
+  const errors = validateCliContractConfig(agentType, config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid CLI worker contract "${agentType}": ${errors.join('; ')}`);
+  }
+
+  const parser = config.outputParser ?? 'text';
+  const capabilities = (config.capabilities ?? ['general']) as WorkerCapability[];
+
+  return {
+    agentType,
+    binary: config.binary,
+    installInstructions: config.installInstructions ?? `Install the "${config.binary}" CLI and make sure it is on PATH`,
+    supportsPromptMode: config.supportsPromptMode ?? false,
+    promptModeFlag: config.promptModeFlag,
+    capabilities,
+    buildLaunchArgs(model?: string, extraFlags: string[] = []): string[] {
+      const args = [...(config.launchArgs ?? [])];
+      if (model && config.modelFlag) args.push(config.modelFlag, model);
+      return [...args, ...extraFlags];
+    },
+    parseOutput(rawOutput: string): string {
+      if (parser === 'jsonl-last-message') return parseJsonlLastMessage(rawOutput);
+      if (parser === 'json-field') return parseJsonField(rawOutput, config.outputField ?? 'result');
+      return rawOutput.trim();
+    },
+  };
+}
+
+/** Register (or replace) a custom contract. Built-in agent types are rejected. */
+export function registerCliContract(agentType: string, config: CliWorkerContractConfig): CustomCliContract {
+  const contract = buildCliContract(agentType, config);
+  customContracts.set(agentType, contract);
+  return contract;
+}
+
+/**
+ * Register every valid `cliWorkers` entry from a config object.
+ * Invalid entries are skipped and returned so callers can report them.
+ */
+export function registerCliContractsFromConfig(
+  config: Pick<PluginConfig, 'cliWorkers'> | null | undefined,
+): Array<{ agentType: string; errors: string[] }> {
+  const rejected: Array<{ agentType: string; errors: string[] }> = [];
+  for (const [agentType, entry] of Object.entries(config?.cliWorkers ?? {})) {
+    const errors = validateCliContractConfig(agentType, entry);
+    if (errors.length > 0) {
+      rejected.push({ agentType, errors });
+      continue;
+    }
+    registerCliContract(agentType, entry);
+  }
+  return rejected;
+}
+
+/** Load `cliWorkers` from user + project config once per process. */
+export function ensureCliContractsLoaded(): void {
+  if (configLoaded) return;
+  configLoaded = true;
+  try {
+    const rejected = registerCliContractsFromConfig(loadConfig());
+    for (const { agentType, errors } of rejected) {
+      console.warn(`[omc:team] Ignoring invalid CLI worker contract "${agentType}": ${errors.join('; ')}`);
+    }
+  } catch {
+    // Config unavailable — only built-in contracts are usable
+  }
+}
+
+/** Look up a custom contract (loads config on first use). */
+export function getCustomCliContract(agentType: string): CustomCliContract | undefined {
+  ensureCliContractsLoaded();
+  return customContracts.get(agentType);
+}
+
+/** All registered custom contracts (loads config on first use). */
+export function listCustomCliContracts(): CustomCliContract[] {
+  ensureCliContractsLoaded();
+  return [...customContracts.values()];
+}
+
+/** Clear registered contracts and force a config reload on next lookup (tests). */
+export function resetCliContractRegistry(): void {
+  customContracts.clear();
+  configLoaded = false;
+}
@@ -2,6 +2,7 @@
 // and additional CLI detection utilities
 export { isCliAvailable, validateCliAvailable, getContract, type CliAgentType } from './model-contract.js';
 import { spawnSync } from 'child_process';
+import { listCustomCliContracts } from './cli-contract-registry.js';
 
 export interface CliInfo {
   available: boolean;
@@ -27,9 +28,13 @@ export function detectCli(binary: string): CliInfo {
 }
 
 export function detectAllClis(): Record<string, CliInfo> {
-  return {
+  const result: Record<string, CliInfo> = {
     claude: detectCli('claude'),
     codex: detectCli('codex'),
     gemini: detectCli('gemini'),
   };
+  for (const contract of listCustomCliContracts()) {
+    result[contract.agentType] = detectCli(contract.binary);
+  }
+  return result;
 }
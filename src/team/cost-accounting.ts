@@ -0,0 +1,249 @@
+// src/team/cost-accounting.ts
+
+/**
+ * Token and dollar accounting for team workers.
+ *
+ * Parses real token usage from CLI output where the CLI reports it:
+ * - Claude: transcript JSONL `message.usage` blocks, or `--output-format json` results
+ * - Codex: `exec --json` event stream (`turn.completed` / `token_count` events)
+ * - Gemini: `--output-format json` stats
+ * Falls back to a characters-per-token estimate otherwise, then prices the
+ * usage with a per-model table (overridable via `costAccounting` in config).
+ */
+
+import { loadConfig } from '../config/loader.js';
+import type { ModelPriceConfig } from '../shared/types.js';
+
+export type UsageProvider = 'claude' | 'codex' | 'gemini';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** 'reported' when parsed from CLI output, 'estimated' when derived from character counts */
+  source: 'reported' | 'estimated';
+}
+
+export type ModelPrice = ModelPriceConfig;
+
+export const DEFAULT_CHARS_PER_TOKEN = 4;
+
+/**
+ * Built-in prices in USD per million tokens.
+ * Keys match a model name exactly or as a substring; the longest match wins,
+ * so `claude-opus-4-6` beats `claude-opus-4` and Bedrock IDs still resolve.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4-6': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  opus: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  sonnet: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  haiku: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.03 },
+  'gemini-3': { input: 2, output: 12, cacheRead: 0.2 },
+  'gemini-3.1-pro': { input: 2, output: 12, cacheRead: 0.2 },
+};
+
+export interface CostAccountingSettings {
+  charsPerToken: number;
+  prices: Record<string, ModelPrice>;
+}
+
+/** Resolve settings from user/project config, falling back to defaults. */
+export function loadCostAccountingSettings(): CostAccountingSettings {
+  let configured: ReturnType<typeof loadConfig>['costAccounting'];
+  try {
+    configured = loadConfig().costAccounting;
+  } catch {
+    configured = undefined;
+  }
+  const charsPerToken = configured?.charsPerToken;
+  return {
+    charsPerToken: typeof charsPerToken === 'number' && charsPerToken > 0 ? charsPerToken : DEFAULT_CHARS_PER_TOKEN,
+    prices: { ...DEFAULT_MODEL_PRICES, ...(configured?.prices ?? {}) },
+  };
+}
+
+function emptyUsage(source: TokenUsage['source']): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, source };
+}
+
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function hasTokens(usage: TokenUsage): boolean {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens > 0;
+}
+
+/** Parse output as one JSON document, else as JSON lines (non-JSON lines skipped). */
+function parseJsonLines(output: string): Record<string, unknown>[] {
+  try {
+    const whole = JSON.parse(output);
+    if (whole && typeof whole === 'object' && !Array.isArray(whole)) return [whole];
+  } catch { /* not a single document */ }
+
+  const parsed: Record<string, unknown>[] = [];
+  for (const line of output.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+    try {
+      parsed.push(JSON.parse(trimmed));
+    } catch { /* skip non-JSON lines */ }
+  }
+  return parsed;
+}
+
+/** Add an Anthropic-style usage block (input_tokens, cache_*_input_tokens, output_tokens). */
+function addAnthropicUsage(total: TokenUsage, usage: Record<string, unknown>): void {
+  total.inputTokens += num(usage.input_tokens);
+  total.outputTokens += num(usage.output_tokens);
+  total.cacheReadTokens += num(usage.cache_read_input_tokens);
+  total.cacheWriteTokens += num(usage.cache_creation_input_tokens);
+}
+
+/**
+ * Parse usage from Claude output: a transcript JSONL (one `message.usage`
+ * per assistant message, repeated across streamed content blocks) or a
+ * single `--output-format json` result with a top-level `usage`.
+ */
+export function parseClaudeUsage(output: string): TokenUsage | null {
+  const total = emptyUsage('reported');
+  const seenMessageIds = new Set<string>();
+  for (const entry of parseJsonLines(output)) {
+    const message = entry.message as Record<string, unknown> | undefined;
+    if (message?.usage && typeof message.usage === 'object') {
+      const id = typeof message.id === 'string' ? message.id : undefined;
+      if (id && seenMessageIds.has(id)) continue;
+      if (id) seenMessageIds.add(id);
+      addAnthropicUsage(total, message.usage as Record<string, unknown>);
+    } else if (entry.type === 'result' && entry.usage && typeof entry.usage === 'object') {
+      addAnthropicUsage(total, entry.usage as Record<string, unknown>);
+    }
+  }
+  return hasTokens(total) ? total : null;
+}
+
+/** Model of the last assistant message in a Claude transcript, if any. */
+export function parseClaudeModel(output: string): string | null {
+  let model: string | null = null;
+  for (const entry of parseJsonLines(output)) {
+    const message = entry.message as Record<string, unknown> | undefined;
+    if (typeof message?.model === 'string' && message.model && message.model !== '<synthetic>') {
+      model = message.model;
+    }
+  }
+  return model;
+}
+
+/**
+ * Parse usage from a Codex `exec --json` event stream.
+ * `turn.completed` events carry per-turn usage; `token_count` events carry
+ * a running total, so the last one wins when present.
+ */
+export function parseCodexUsage(output: string): TokenUsage | null {
+  const turns = emptyUsage('reported');
+  let lastTotal: TokenUsage | null = null;
+
+  for (const event of parseJsonLines(output)) {
+    if (event.type === 'turn.completed' && event.usage && typeof event.usage === 'object') {
+      const usage = event.usage as Record<string, unknown>;
+      const cached = num(usage.cached_input_tokens);
+      turns.inputTokens += Math.max(0, num(usage.input_tokens) - cached);
+      turns.cacheReadTokens += cached;
+      turns.outputTokens += num(usage.output_tokens);
+      continue;
+    }
+    const payload = (event.payload ?? event.msg ?? event) as Record<string, unknown>;
+    const info = payload?.type === 'token_count' ? payload.info as Record<string, unknown> | undefined : undefined;
+    const totalUsage = info?.total_token_usage as Record<string, unknown> | undefined;
+    if (totalUsage) {
+      const cached = num(totalUsage.cached_input_tokens);
+      lastTotal = {
+        inputTokens: Math.max(0, num(totalUsage.input_tokens) - cached),
+        outputTokens: num(totalUsage.output_tokens),
+        cacheReadTokens: cached,
+        cacheWriteTokens: 0,
+        source: 'reported',
+      };
+    }
+  }
+
+  if (lastTotal && hasTokens(lastTotal)) return lastTotal;
+  return hasTokens(turns) ? turns : null;
+}
+
+/** Parse usage from Gemini `--output-format json` stats (`stats.models.*.tokens`). */
+export function parseGeminiUsage(output: string): TokenUsage | null {
+  const total = emptyUsage('reported');
+  for (const entry of parseJsonLines(output)) {
+    const models = (entry.stats as Record<string, unknown> | undefined)?.models as Record<string, unknown> | undefined;
+    if (!models) continue;
+    for (const model of Object.values(models)) {
+      const tokens = (model as Record<string, unknown>)?.tokens as Record<string, unknown> | undefined;
+      if (!tokens) continue;
+      const cached = num(tokens.cached);
+      total.inputTokens += Math.max(0, num(tokens.prompt) - cached);
+      total.cacheReadTokens += cached;
+      total.outputTokens += num(tokens.candidates) + num(tokens.thoughts);
+    }
+  }
+  return hasTokens(total) ? total : null;
+}
+
+/** Parse reported usage for a provider, or null when the output carries none. */
+export function parseReportedUsage(provider: UsageProvider, output: string): TokenUsage | null {
+  if (provider === 'claude') return parseClaudeUsage(output);
+  if (provider === 'codex') return parseCodexUsage(output);
+  return parseGeminiUsage(output);
+}
+
+/** Estimate usage from prompt/response character counts. */
+export function estimateTokenUsage(
+  promptChars: number,
+  responseChars: number,
+  charsPerToken: number = DEFAULT_CHARS_PER_TOKEN,
+): TokenUsage {
+  return {
+    inputTokens: Math.ceil(promptChars / charsPerToken),
+    outputTokens: Math.ceil(responseChars / charsPerToken),
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    source: 'estimated',
+  };
+}
+
+/** Look up the price for a model (exact key, else longest substring key). */
+export function resolveModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES,
+): ModelPrice | null {
+  const normalized = model.trim().toLowerCase();
+  if (prices[normalized]) return prices[normalized];
+  let best: string | null = null;
+  for (const key of Object.keys(prices)) {
+    if (normalized.includes(key.toLowerCase()) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? prices[best] : null;
+}
+
+/** Dollar cost of a usage record at the given price. */
+export function computeCostUsd(usage: TokenUsage, price: ModelPrice): number {
+  const perToken = (usdPerMillion: number) => usdPerMillion / 1_000_000;
+  return usage.inputTokens * perToken(price.input)
+    + usage.outputTokens * perToken(price.output)
+    + usage.cacheReadTokens * perToken(price.cacheRead ?? price.input)
+    + usage.cacheWriteTokens * perToken(price.cacheWrite ?? price.input);
+}
+
+/** Format a dollar amount for reports ("$0.0123", "$12.34"). */
+export function formatUsd(amount: number): string {
+  return amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
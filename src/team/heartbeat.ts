@@ -24,13 +24,28 @@ function heartbeatDir(workingDirectory: string, teamName: string): string {
   return join(workingDirectory, '.omc', 'state', 'team-bridge', sanitizeName(teamName));
 }
 
-/** Write/update heartbeat. Called every poll cycle by the bridge. */
+/** Whether a heartbeat describes a worker waiting for work */
+function isIdleHeartbeat(data: HeartbeatData): boolean {
+  return (data.status === 'ready' || data.status === 'polling') && !data.currentTaskId;
+}
+
+/**
+ * Write/update heartbeat. Called every poll cycle by the bridge.
+ * Tracks `idleSince` across writes so idle time survives the poll loop.
+ */
 export function writeHeartbeat(
   workingDirectory: string,
   data: HeartbeatData
 ): void {
   const filePath = heartbeatPath(workingDirectory, data.teamName, data.workerName);
-  atomicWriteJson(filePath, data);
+  let idleSince: string | undefined;
+  if (isIdleHeartbeat(data)) {
+    const previous = readHeartbeat(workingDirectory, data.teamName, data.workerName);
+    idleSince = data.idleSince
+      ?? (previous && isIdleHeartbeat(previous) ? previous.idleSince : undefined)
+      ?? data.lastPollAt;
+  }
+  atomicWriteJson(filePath, { ...data, idleSince });
 }
 
 /** Read heartbeat for a specific worker. Returns null if not found. */
@@ -95,6 +110,17 @@ export function isWorkerAlive(
   }
 }
 
+/**
+ * Milliseconds a worker has been idle according to its heartbeat.
+ * Returns null when the worker is busy, quarantined, or has no idle marker.
+ */
+export function getWorkerIdleMs(heartbeat: HeartbeatData | null, now: number = Date.now()): number | null {
+  if (!heartbeat || !isIdleHeartbeat(heartbeat) || !heartbeat.idleSince) return null;
+  const since = new Date(heartbeat.idleSince).getTime();
+  if (isNaN(since)) return null;
+  return Math.max(0, now - since);
+}
+
 /** Delete heartbeat file (called during cleanup) */
 export function deleteHeartbeat(
   workingDirectory: string,
@@ -20,20 +20,36 @@ export type {
   ConfigProbeResult,
   TaskModeMap,
   TaskFailureSidecar,
+  TaskResultArtifact,
+  TaskTestRun,
+  TaskFollowUp,
   WorkerBackend,
   WorkerCapability,
 } from './types.js';
 
 export {
   readTask,
+  createTask,
   updateTask,
   findNextTask,
   areBlockersResolved,
   writeTaskFailure,
   readTaskFailure,
+  writeTaskResult,
+  readTaskResult,
   listTaskIds,
 } from './task-file-ops.js';
 
+export {
+  TASK_RESULT_FENCE,
+  validateTaskResult,
+  extractTaskResult,
+  formatTaskResultInstructions,
+  verifyTaskResult,
+} from './task-result.js';
+
+export type { TaskResultValidation } from './task-result.js';
+
 export {
   validateTmux,
   sanitizeName,
@@ -132,6 +148,21 @@ export {
 export { routeTasks } from './task-router.js';
 export type { TaskRoutingDecision } from './task-router.js';
 
+export {
+  validateTaskGraph,
+  assertValidTaskGraph,
+  detectTaskCycles,
+  computeCriticalPath,
+  prioritizeTasks,
+} from './task-scheduler.js';
+
+export type {
+  SchedulableTask,
+  TaskGraphValidation,
+  TaskScheduleEntry,
+  CriticalPathAnalysis,
+} from './task-scheduler.js';
+
 export {
   createWorkerWorktree,
   removeWorkerWorktree,
@@ -147,18 +178,46 @@ export type { ActivityEntry } from './activity-log.js';
 export {
   recordTaskUsage,
   measureCharCounts,
+  priceTaskUsage,
   generateUsageReport,
+  recordCompletedTaskUsage,
+  findClaudeTranscript,
 } from './usage-tracker.js';
 
-export type { TaskUsageRecord, WorkerUsageSummary, TeamUsageReport } from './usage-tracker.js';
+export type { TaskUsageRecord, WorkerUsageSummary, TaskCostSummary, TeamUsageReport } from './usage-tracker.js';
+
+export {
+  DEFAULT_MODEL_PRICES,
+  DEFAULT_CHARS_PER_TOKEN,
+  loadCostAccountingSettings,
+  parseClaudeUsage,
+  parseClaudeModel,
+  parseCodexUsage,
+  parseGeminiUsage,
+  parseReportedUsage,
+  estimateTokenUsage,
+  resolveModelPrice,
+  computeCostUsd,
+  formatUsd,
+} from './cost-accounting.js';
+
+export type { TokenUsage, ModelPrice, UsageProvider, CostAccountingSettings } from './cost-accounting.js';
 
 export {
   checkMergeConflicts,
   mergeWorkerBranch,
   mergeAllWorkerBranches,
+  retryResolvedMerges,
 } from './merge-coordinator.js';
 
-export type { MergeResult } from './merge-coordinator.js';
+export type {
+  MergeResult,
+  MergeOptions,
+  MergeAllOptions,
+  MergeConflictStrategy,
+  MergeOrdering,
+  MergeConflictTaskMetadata,
+} from './merge-coordinator.js';
 
 export { generateTeamReport, saveTeamReport } from './summary-report.js';
 
@@ -171,6 +230,16 @@ export {
 
 export type { WorkerPermissions } from './permissions.js';
 
+export {
+  captureWorktreeSnapshot,
+  diffCommittedPaths,
+  diffWorktreeSnapshots,
+  enforceWorkerPermissions,
+  formatViolationFeedback,
+} from './permission-enforcer.js';
+
+export type { WorktreeSnapshot, PermissionEnforcementResult } from './permission-enforcer.js';
+
 export { TeamPaths, absPath, teamStateRoot } from './state-paths.js';
 
 export {
@@ -187,9 +256,11 @@ export type {
 
 // New tmux-based multi-CLI team modules
 // model-contract: getWorkerEnv is exported via worker-bootstrap (single source of truth)
-export type { CliAgentType, CliAgentContract, WorkerLaunchConfig } from './model-contract.js';
+export type { BuiltinCliAgentType, CliAgentType, CliAgentContract, WorkerLaunchConfig } from './model-contract.js';
 export {
   getContract,
+  isKnownCliAgentType,
+  listCliAgentTypes,
   isCliAvailable as isCliAvailableForAgent,
   validateCliAvailable as validateCliAvailableForAgent,
   buildLaunchArgs,
@@ -203,6 +274,18 @@ export {
 } from './model-contract.js';
 export type { CliBinaryValidation } from './model-contract.js';
 
+// cli-contract-registry
+export type { CustomCliContract } from './cli-contract-registry.js';
+export {
+  BUILTIN_CLI_AGENT_TYPES,
+  validateCliContractConfig,
+  buildCliContract,
+  registerCliContract,
+  registerCliContractsFromConfig,
+  getCustomCliContract,
+  listCustomCliContracts,
+} from './cli-contract-registry.js';
+
 // cli-detection: only export symbols not already covered by model-contract
 export type { CliInfo } from './cli-detection.js';
 export { detectCli, detectAllClis } from './cli-detection.js';
@@ -267,6 +350,85 @@ export {
 
 export type { ScaleUpResult, ScaleDownResult, ScaleError, ScaleDownOptions } from './scaling.js';
 
+// scaling-policy (autoscaling)
+export {
+  DEFAULT_AUTOSCALE_POLICY,
+  resolveAutoscalePolicy,
+  resolveAutoscaleRequest,
+  evaluateAutoscalePolicy,
+  collectAutoscaleSnapshot,
+  runAutoscaleCycle,
+} from './scaling-policy.js';
+
+export type {
+  AutoscalePolicy,
+  AutoscaleSnapshot,
+  AutoscaleWorkerSnapshot,
+  AutoscaleDecision,
+  AutoscaleCycleResult,
+  AutoscaleRequest,
+} from './scaling-policy.js';
+
+// budget-guard (hard wall-clock / retry / cost ceilings)
+export {
+  validateBudgetLimits,
+  hasBudgetLimits,
+  initTeamBudget,
+  readTeamBudget,
+  isTeamBudgetPaused,
+  clearBudgetPause,
+  evaluateBudget,
+  countTaskRetries,
+  collectBudgetUsage,
+  describeBudgetBreach,
+  checkTeamBudget,
+} from './budget-guard.js';
+
+export type {
+  TeamBudgetLimits,
+  TeamBudgetState,
+  BudgetLimitKind,
+  BudgetUsage,
+  BudgetBreach,
+  BudgetCheckResult,
+} from './budget-guard.js';
+
+// replay (timeline reconstruction from events + audit logs)
+export {
+  loadReplayTimeline,
+  createInitialReplayState,
+  replayTeamState,
+  diffReplayStates,
+  diffReplayPoints,
+  ReplayCursor,
+  openTeamReplay,
+  formatReplayEntry,
+  formatReplayState,
+  formatReplayDiff,
+} from './replay.js';
+
+export type {
+  ReplaySource,
+  ReplayEntry,
+  ReplayTaskStatus,
+  ReplayWorkerStatus,
+  ReplayTaskState,
+  ReplayWorkerState,
+  ReplayState,
+  ReplayChange,
+  ReplayDiff,
+} from './replay.js';
+
+// team-recovery (resume after a crashed leader session)
+export { detectLiveWorkers, reconcileTeamState } from './team-recovery.js';
+
+export type {
+  TeamRecoveryDeps,
+  ReleasedClaimReason,
+  ReleasedClaim,
+  TeamRecoveryReport,
+} from './team-recovery.js';
+
 // team-leader-nudge-hook
 export { checkLeaderStaleness, maybeNudgeLeader } from '../hooks/team-leader-nudge-hook.js';
 export type { TmuxRunner } from '../hooks/team-leader-nudge-hook.js';
@@ -20,6 +20,7 @@ import type {
   TaskFile,
   HeartbeatData,
   InboxMessage,
+  OutboxMessage,
 } from "./types.js";
 import { findNextTask, updateTask, writeTaskFailure } from "./task-file-ops.js";
 import {
@@ -39,12 +40,24 @@ import { logAuditEvent } from "./audit-log.js";
 import type { AuditEvent } from "./audit-log.js";
 import {
   getEffectivePermissions,
-  findPermissionViolations,
+  formatPermissionInstructions,
 } from "./permissions.js";
 import { getBuiltinExternalDefaultModel } from "../config/models.js";
 import type { WorkerPermissions, PermissionViolation } from "./permissions.js";
+import {
+  beginEnforcementWindow,
+  captureWorktreeSnapshot,
+  endEnforcementWindow,
+  enforceWorkerPermissions,
+  formatViolationFeedback,
+  getOverlappingWindows,
+  type WorktreeSnapshot,
+} from "./permission-enforcer.js";
 import { getTeamStatus } from "./team-status.js";
-import { measureCharCounts, recordTaskUsage } from "./usage-tracker.js";
+import { measureCharCounts, priceTaskUsage, recordTaskUsage } from "./usage-tracker.js";
+import { parseReportedUsage, type TokenUsage } from "./cost-accounting.js";
+import { isTeamBudgetPaused } from "./budget-guard.js";
+import { extractTaskResult, formatTaskResultInstructions } from "./task-result.js";
 
 /** Simple logger */
 function log(message: string): void {
@@ -158,20 +171,6 @@ export function captureFileSnapshot(cwd: string): Set<string> {
   return files;
 }
 
-/**
- * Diff two file snapshots to find newly changed/created files.
- * Returns paths that are in `after` but not in `before` (new or newly modified files).
- */
-function diffSnapshots(before: Set<string>, after: Set<string>): string[] {
-  const changed: string[] = [];
-  for (const path of after) {
-    if (!before.has(path)) {
-      changed.push(path);
-    }
-  }
-  return changed;
-}
-
 /**
  * Build effective WorkerPermissions from BridgeConfig.
  * Merges config.permissions with secure deny-defaults.
@@ -304,6 +303,8 @@ OUTPUT EXPECTATIONS:
 - Document all files you modified
 - Include verification results (build/test output)
 - Note any issues or follow-up work needed
+
+${formatTaskResultInstructions()}
 `;
 }
 
@@ -330,6 +331,16 @@ function buildTaskPrompt(
     inboxContext = "\nCONTEXT FROM TEAM LEAD:\n" + inboxParts.join("\n") + "\n";
   }
 
+  // Permission scope (and feedback from a reverted attempt) when enforcement is on
+  if ((config.permissionEnforcement || "off") !== "off") {
+    inboxContext +=
+      "\n" + formatPermissionInstructions(buildEffectivePermissions(config)) + "\n";
+    const feedback = task.metadata?.permissionFeedback;
+    if (typeof feedback === "string" && feedback) {
+      inboxContext += "\n" + sanitizePromptContent(feedback, 5000) + "\n";
+    }
+  }
+
   let result = formatPromptTemplate(
     sanitizedSubject,
     sanitizedDescription,
@@ -418,6 +429,16 @@ function readOutputSummary(outputFile: string): string {
   }
 }
 
+/** Structured result fields for a task_complete message, parsed from the CLI response */
+function taskResultFields(
+  response: string,
+  taskId: string,
+): Pick<OutboxMessage, "result" | "resultErrors"> {
+  const { result, errors } = extractTaskResult(response, taskId);
+  if (result) return { result };
+  return errors.length > 0 ? { resultErrors: errors } : {};
+}
+
 export function recordTaskCompletionUsage(args: {
   config: BridgeConfig;
   taskId: string;
@@ -426,23 +447,26 @@ export function recordTaskCompletionUsage(args: {
   provider: "codex" | "gemini";
   startedAt: number;
   startedAtIso: string;
+  /** Token usage parsed from CLI output; estimated from char counts when absent */
+  reportedUsage?: TokenUsage | null;
 }): void {
   const completedAt = new Date().toISOString();
   const wallClockMs = Math.max(0, Date.now() - args.startedAt);
-  const { promptChars, responseChars } = measureCharCounts(
-    args.promptFile,
-    args.outputFile,
-  );
+  const chars = measureCharCounts(args.promptFile, args.outputFile);
+  const model = args.config.model ?? getBuiltinExternalDefaultModel(args.provider);
+  const { tokens, costUsd } = priceTaskUsage(model, chars, args.reportedUsage);
   recordTaskUsage(args.config.workingDirectory, args.config.teamName, {
     taskId: args.taskId,
     workerName: args.config.workerName,
     provider: args.provider,
-    model: args.config.model ?? "default",
+    model,
     startedAt: args.startedAtIso,
     completedAt,
     wallClockMs,
-    promptChars,
-    responseChars,
+    promptChars: chars.promptChars,
+    responseChars: chars.responseChars,
+    tokens,
+    ...(costUsd !== null ? { costUsd } : {}),
   });
 }
 
@@ -508,7 +532,7 @@ function spawnCliProcess(
   model: string | undefined,
   cwd: string,
   timeoutMs: number,
-): { child: ChildProcess; result: Promise<string> } {
+): { child: ChildProcess; result: Promise<{ response: string; usage: TokenUsage | null }> } {
   // Validate inputs to prevent shell injection
   validateProvider(provider);
   validateModelName(model);
@@ -538,7 +562,7 @@ function spawnCliProcess(
     cwd,
   });
 
-  const result = new Promise<string>((resolve, reject) => {
+  const result = new Promise<{ response: string; usage: TokenUsage | null }>((resolve, reject) => {
     let stdout = "";
     let stderr = "";
     let settled = false;
@@ -565,7 +589,7 @@ function spawnCliProcess(
         if (code === 0) {
           const response =
             provider === "codex" ? parseCodexOutput(stdout) : stdout.trim();
-          resolve(response);
+          resolve({ response, usage: parseReportedUsage(provider, stdout) });
         } else {
           const detail = stderr || stdout.trim() || "No output";
           reject(new Error(`CLI exited with code ${code}: ${detail}`));
@@ -783,8 +807,10 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
       // --- 4. Read inbox ---
       const messages = readNewInboxMessages(teamName, workerName);
 
-      // --- 5. Find next task ---
-      const task = await findNextTask(teamName, workerName);
+      // --- 5. Find next task (none while a budget ceiling has paused dispatch) ---
+      const task = isTeamBudgetPaused(teamName, workingDirectory)
+        ? null
+        : await findNextTask(teamName, workerName);
 
       if (task) {
         idleNotified = false;
@@ -816,16 +842,29 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
         const prompt = buildTaskPrompt(task, messages, config);
         const promptFile = writePromptFile(config, task.id, prompt);
         const outputFile = getOutputPath(config, task.id);
+        let reportedUsage: TokenUsage | null = null;
 
         log(`[bridge] Executing task ${task.id}: ${task.subject}`);
 
         // --- 8. Execute CLI (with permission enforcement) ---
+        // Repo root of an open enforcement window, closed after the check or on error
+        let enforcementRoot: string | null = null;
         try {
           // 8a. Capture pre-execution file snapshot (for permission enforcement)
           const enforcementMode = config.permissionEnforcement || "off";
-          let preSnapshot: Set<string> | null = null;
+          const permissions = buildEffectivePermissions(config);
+          let preSnapshot: WorktreeSnapshot | null = null;
           if (enforcementMode !== "off") {
-            preSnapshot = captureFileSnapshot(workingDirectory);
+            preSnapshot = captureWorktreeSnapshot(workingDirectory);
+            if (preSnapshot.root) {
+              beginEnforcementWindow(
+                preSnapshot.root,
+                teamName,
+                { workerName, workingDirectory, permissions },
+                taskStartedAt,
+              );
+              enforcementRoot = preSnapshot.root;
+            }
           }
 
           const { child, result } = spawnCliProcess(
@@ -841,25 +880,32 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
             model: config.model,
           });
 
-          const response = await result;
+          const { response, usage } = await result;
           activeChild = null;
+          reportedUsage = usage;
 
           // Write response to output file
           writeFileWithMode(outputFile, response);
 
-          // 8b. Post-execution permission check
+          // 8b. Post-execution permission check (enforce mode reverts violations)
           let violations: PermissionViolation[] = [];
+          let reverted: string[] = [];
+          let revertFailures: Array<{ path: string; error: string }> = [];
           if (enforcementMode !== "off" && preSnapshot) {
-            const postSnapshot = captureFileSnapshot(workingDirectory);
-            const changedPaths = diffSnapshots(preSnapshot, postSnapshot);
-
-            if (changedPaths.length > 0) {
-              const effectivePerms = buildEffectivePermissions(config);
-              violations = findPermissionViolations(
-                changedPaths,
-                effectivePerms,
-                workingDirectory,
-              );
+            // Changes that a concurrently running worker may make are its own
+            const concurrent = enforcementRoot
+              ? getOverlappingWindows(enforcementRoot, teamName, workerName, taskStartedAt)
+              : [];
+            const enforcement = enforceWorkerPermissions(
+              workingDirectory,
+              preSnapshot,
+              permissions,
+              { revert: enforcementMode === "enforce", concurrent },
+            );
+            ({ violations, reverted, revertFailures } = enforcement);
+            if (enforcementRoot) {
+              endEnforcementWindow(enforcementRoot, teamName, workerName);
+              enforcementRoot = null;
             }
           }
 
@@ -870,34 +916,62 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
               .join("\n");
 
             if (enforcementMode === "enforce") {
-              // ENFORCE: fail the task, audit, report error
+              // ENFORCE: out-of-scope changes were reverted; fail (or re-queue) the task
+              const failure = writeTaskFailure(
+                teamName,
+                task.id,
+                `Permission violations:\n${violationSummary}`,
+                { cwd: workingDirectory },
+              );
+              const requeue =
+                config.requeueOnPermissionViolation === true &&
+                failure.retryCount < (config.maxRetries ?? 5);
+
               audit(config, "permission_violation", task.id, {
                 violations: violations.map((v) => ({
                   path: v.path,
                   reason: v.reason,
                 })),
+                reverted,
+                revertFailures,
                 mode: "enforce",
+                requeued: requeue,
               });
 
-              updateTask(teamName, task.id, {
-                status: "completed",
-                metadata: {
-                  ...(task.metadata || {}),
-                  error: `Permission violations detected (enforce mode)`,
-                  permissionViolations: violations,
-                  permanentlyFailed: true,
-                },
-              });
+              if (requeue) {
+                updateTask(teamName, task.id, {
+                  status: "pending",
+                  metadata: {
+                    ...(task.metadata || {}),
+                    permissionViolations: violations,
+                    permissionFeedback: formatViolationFeedback(violations),
+                  },
+                });
+              } else {
+                updateTask(teamName, task.id, {
+                  status: "completed",
+                  metadata: {
+                    ...(task.metadata || {}),
+                    error: `Permission violations detected (enforce mode)`,
+                    permissionViolations: violations,
+                    permanentlyFailed: true,
+                    failedAttempts: failure.retryCount,
+                  },
+                });
+              }
 
+              const revertNote = revertFailures.length > 0
+                ? `\nCould not revert: ${revertFailures.map((f) => `${f.path} (${f.error})`).join(", ")}`
+                : "";
               appendOutbox(teamName, workerName, {
                 type: "error",
                 taskId: task.id,
-                error: `Permission violation (enforce mode):\n${violationSummary}`,
+                error: `Permission violation (enforce mode), ${requeue ? "task re-queued" : "task failed"}; ${reverted.length} change(s) reverted:\n${violationSummary}${revertNote}`,
                 timestamp: new Date().toISOString(),
               });
 
               log(
-                `[bridge] Task ${task.id} failed: permission violations (enforce mode)`,
+                `[bridge] Task ${task.id} ${requeue ? "re-queued" : "failed"}: permission violations (enforce mode), ${reverted.length} reverted`,
               );
               try {
                 recordTaskCompletionUsage({
@@ -908,6 +982,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
                   provider,
                   startedAt: taskStartedAt,
                   startedAtIso: taskStartedAtIso,
+                  reportedUsage,
                 });
               } catch (usageErr) {
                 log(
@@ -940,6 +1015,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
                 type: "task_complete",
                 taskId: task.id,
                 summary: `${summary}\n[AUDIT WARNING: ${violations.length} permission violation(s) detected]`,
+                ...taskResultFields(response, task.id),
                 timestamp: new Date().toISOString(),
               });
 
@@ -952,6 +1028,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
                   provider,
                   startedAt: taskStartedAt,
                   startedAtIso: taskStartedAtIso,
+                  reportedUsage,
                 });
               } catch (usageErr) {
                 log(
@@ -975,6 +1052,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
               type: "task_complete",
               taskId: task.id,
               summary,
+              ...taskResultFields(response, task.id),
               timestamp: new Date().toISOString(),
             });
 
@@ -987,6 +1065,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
                 provider,
                 startedAt: taskStartedAt,
                 startedAtIso: taskStartedAtIso,
+                reportedUsage,
               });
             } catch (usageErr) {
               log(
@@ -999,6 +1078,13 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
         } catch (err) {
           activeChild = null;
           consecutiveErrors++;
+          if (enforcementRoot) {
+            try {
+              endEnforcementWindow(enforcementRoot, teamName, workerName);
+            } catch {
+              // Expires with the retention period
+            }
+          }
 
           // --- Failure state policy ---
           const errorMsg = (err as Error).message;
@@ -1049,6 +1135,7 @@ export async function runBridge(config: BridgeConfig): Promise<void> {
                 provider,
                 startedAt: taskStartedAt,
                 startedAtIso: taskStartedAtIso,
+                reportedUsage,
               });
             } catch (usageErr) {
               log(
@@ -6,10 +6,17 @@
  * Provides conflict detection and branch merging for worker worktrees.
  * All merge operations use --no-ff for clear history.
  * Failed merges are always aborted to prevent leaving the repo dirty.
+ *
+ * Conflict resolution mode ('resolve'): instead of only reporting a
+ * conflict, the conflicting hunks are captured before the abort and
+ * materialized as a team task assigned to the branch owner (or the lead).
+ * Once that task is completed, retryResolvedMerges() merges the branch again.
  */
 
 import { execFileSync } from 'node:child_process';
 import { listTeamWorktrees } from './git-worktree.js';
+import { createTask, listTaskIds, readTask, updateTask } from './task-file-ops.js';
+import type { TaskFile } from './types.js';
 
 const BRANCH_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9/_.-]*$/;
 
@@ -26,8 +33,53 @@ export interface MergeResult {
   success: boolean;
   conflicts: string[];
   mergeCommit?: string;
+  /** Task created to resolve the conflict (conflictStrategy 'resolve' only) */
+  resolutionTaskId?: string;
+}
+
+/** What to do when a merge conflicts */
+export type MergeConflictStrategy = 'abort' | 'resolve';
+
+/** Order in which mergeAllWorkerBranches processes worker branches */
+export type MergeOrdering = 'worktree' | 'least-overlap';
+
+export interface MergeOptions {
+  /** Default 'abort': report the conflict and leave resolution to a human */
+  conflictStrategy?: MergeConflictStrategy;
+  /** Team that owns resolution tasks (required for 'resolve') */
+  teamName?: string;
+  /** Worker assigned resolution tasks. Defaults to the branch's worker. */
+  resolver?: string;
+  /** Max resolution tasks per branch before giving up. Default 3. */
+  maxResolutionAttempts?: number;
+}
+
+export interface MergeAllOptions extends MergeOptions {
+  /** Default 'worktree' (creation order) */
+  ordering?: MergeOrdering;
+}
+
+/** Conflicting hunk text for one file, captured from the in-progress merge */
+export interface ConflictHunk {
+  file: string;
+  diff: string;
 }
 
+/** Metadata stored on merge-conflict resolution tasks */
+export interface MergeConflictTaskMetadata {
+  kind: 'merge_conflict';
+  branch: string;
+  baseBranch: string;
+  conflicts: string[];
+  attempt: number;
+  mergeStatus: 'awaiting_resolution' | 'merged' | 'conflict' | 'abandoned';
+  mergeCommit?: string;
+}
+
+const DEFAULT_MAX_RESOLUTION_ATTEMPTS = 3;
+/** Per-file cap on hunk text embedded in a task description */
+const MAX_HUNK_CHARS = 4000;
+
 /**
  * Check for merge conflicts between a worker branch and the base branch.
  * Does NOT actually merge -- uses git merge-tree for non-destructive check.
@@ -76,12 +128,14 @@ export function checkMergeConflicts(
 export function mergeWorkerBranch(
   workerBranch: string,
   baseBranch: string,
-  repoRoot: string
+  repoRoot: string,
+  options?: MergeOptions
 ): MergeResult {
   validateBranchName(workerBranch);
   validateBranchName(baseBranch);
 
   const workerName = workerBranch.split('/').pop() || workerBranch;
+  let hunks: ConflictHunk[] = [];
 
   try {
     // Abort if working tree has uncommitted changes to tracked files to prevent clobbering.
@@ -117,6 +171,11 @@ export function mergeWorkerBranch(
       mergeCommit,
     };
   } catch (_err) {
+    // Capture conflict markers before the abort discards them
+    if (options?.conflictStrategy === 'resolve') {
+      hunks = captureConflictHunks(repoRoot);
+    }
+
     // Abort the failed merge
     try {
       execFileSync('git', ['merge', '--abort'], { cwd: repoRoot, stdio: 'pipe' });
@@ -125,23 +184,229 @@ export function mergeWorkerBranch(
     // Try to detect conflicting files
     const conflicts = checkMergeConflicts(workerBranch, baseBranch, repoRoot);
 
-    return {
+    const result: MergeResult = {
       workerName,
       branch: workerBranch,
       success: false,
       conflicts,
     };
+
+    if (options?.conflictStrategy === 'resolve' && hunks.length > 0) {
+      const task = createConflictResolutionTask(result, baseBranch, hunks, repoRoot, options);
+      if (task) result.resolutionTaskId = task.id;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Read the conflicting hunks of an in-progress (failed) merge.
+ * Returns one entry per unmerged file; empty if not in a conflicted merge.
+ */
+function captureConflictHunks(repoRoot: string): ConflictHunk[] {
+  let unmerged: string[];
+  try {
+    unmerged = execFileSync('git', ['diff', '--name-only', '--diff-filter=U'], {
+      cwd: repoRoot, encoding: 'utf-8', stdio: 'pipe'
+    }).split('\n').filter(f => f);
+  } catch {
+    return [];
+  }
+
+  return unmerged.map(file => {
+    let diff = '';
+    try {
+      diff = execFileSync('git', ['diff', '--', file], {
+        cwd: repoRoot, encoding: 'utf-8', stdio: 'pipe'
+      });
+    } catch { /* binary or unreadable — file name alone is still useful */ }
+    if (diff.length > MAX_HUNK_CHARS) {
+      diff = `${diff.slice(0, MAX_HUNK_CHARS)}\n... (truncated)`;
+    }
+    return { file, diff };
+  });
+}
+
+/** Merge-conflict resolution tasks for a branch, oldest first */
+function listConflictTasks(teamName: string, branch: string, repoRoot: string): TaskFile[] {
+  return listTaskIds(teamName, { cwd: repoRoot })
+    .map(id => readTask(teamName, id, { cwd: repoRoot }))
+    .filter((t): t is TaskFile => {
+      const meta = t?.metadata as Partial<MergeConflictTaskMetadata> | undefined;
+      return meta?.kind === 'merge_conflict' && meta.branch === branch;
+    });
+}
+
+function buildResolutionDescription(
+  branch: string,
+  baseBranch: string,
+  hunks: ConflictHunk[],
+): string {
+  return [
+    `Merging \`${branch}\` into \`${baseBranch}\` produced conflicts in ${hunks.length} file(s).`,
+    '',
+    'To resolve:',
+    `1. In the worktree for \`${branch}\`, run \`git merge ${baseBranch}\`.`,
+    '2. Resolve every conflict below, keeping the intent of both sides.',
+    '3. Commit the merge on the worker branch. Do not push or merge into the base branch.',
+    '4. Mark this task completed; the lead will retry the merge.',
+    '',
+    ...hunks.flatMap(h => [
+      `### ${h.file}`,
+      '```diff',
+      h.diff.trimEnd() || '(no textual diff available)',
+      '```',
+      '',
+    ]),
+  ].join('\n');
+}
+
+/**
+ * Create a team task asking a worker to resolve a merge conflict.
+ * Returns null when an open resolution task already exists for the branch,
+ * when attempts are exhausted, or when no team name was provided.
+ */
+function createConflictResolutionTask(
+  result: MergeResult,
+  baseBranch: string,
+  hunks: ConflictHunk[],
+  repoRoot: string,
+  options: MergeOptions,
+): TaskFile | null {
+  if (!options.teamName) return null;
+
+  const existing = listConflictTasks(options.teamName, result.branch, repoRoot);
+  if (existing.some(t => t.status === 'pending' || t.status === 'in_progress')) return null;
+
+  const maxAttempts = options.maxResolutionAttempts ?? DEFAULT_MAX_RESOLUTION_ATTEMPTS;
+  const attempt = existing.length + 1;
+  if (attempt > maxAttempts) return null;
+
+  const metadata: MergeConflictTaskMetadata = {
+    kind: 'merge_conflict',
+    branch: result.branch,
+    baseBranch,
+    conflicts: hunks.map(h => h.file),
+    attempt,
+    mergeStatus: 'awaiting_resolution',
+  };
+
+  return createTask(options.teamName, {
+    subject: `Resolve merge conflicts: ${result.branch} -> ${baseBranch}`,
+    description: buildResolutionDescription(result.branch, baseBranch, hunks),
+    status: 'pending',
+    owner: options.resolver ?? result.workerName,
+    blocks: [],
+    blockedBy: [],
+    metadata: metadata as unknown as Record<string, unknown>,
+  }, { cwd: repoRoot });
+}
+
+/**
+ * Retry merges whose resolution task has been completed.
+ *
+ * For each completed merge_conflict task still awaiting resolution, merges
+ * the branch again. A clean merge marks the task 'merged'; a repeat conflict
+ * marks it 'conflict' and opens a new resolution task (up to
+ * maxResolutionAttempts, after which it is marked 'abandoned').
+ */
+export function retryResolvedMerges(
+  teamName: string,
+  repoRoot: string,
+  options?: Omit<MergeOptions, 'teamName' | 'conflictStrategy'>
+): MergeResult[] {
+  const results: MergeResult[] = [];
+
+  for (const id of listTaskIds(teamName, { cwd: repoRoot })) {
+    const task = readTask(teamName, id, { cwd: repoRoot });
+    const meta = task?.metadata as MergeConflictTaskMetadata | undefined;
+    if (!task || meta?.kind !== 'merge_conflict') continue;
+    if (task.status !== 'completed' || meta.mergeStatus !== 'awaiting_resolution') continue;
+
+    const result = mergeWorkerBranch(meta.branch, meta.baseBranch, repoRoot, {
+      ...options,
+      teamName,
+      conflictStrategy: 'resolve',
+      resolver: options?.resolver ?? task.owner,
+    });
+    results.push(result);
+
+    const maxAttempts = options?.maxResolutionAttempts ?? DEFAULT_MAX_RESOLUTION_ATTEMPTS;
+    let mergeStatus: MergeConflictTaskMetadata['mergeStatus'];
+    if (result.success) mergeStatus = 'merged';
+    else if (result.resolutionTaskId) mergeStatus = 'conflict';
+    else if (meta.attempt >= maxAttempts) mergeStatus = 'abandoned';
+    else continue; // failed for another reason (e.g. dirty tree) — retry next time
+
+    updateTask(teamName, task.id, {
+      metadata: { ...task.metadata, mergeStatus, ...(result.mergeCommit ? { mergeCommit: result.mergeCommit } : {}) },
+    }, { cwd: repoRoot });
   }
+
+  return results;
+}
+
+/** Files changed on a branch since it diverged from base */
+function changedFilesSinceBase(branch: string, baseBranch: string, repoRoot: string): Set<string> {
+  try {
+    const mergeBase = execFileSync('git', ['merge-base', baseBranch, branch], {
+      cwd: repoRoot, encoding: 'utf-8', stdio: 'pipe'
+    }).trim();
+    const diff = execFileSync('git', ['diff', '--name-only', mergeBase, branch], {
+      cwd: repoRoot, encoding: 'utf-8', stdio: 'pipe'
+    });
+    return new Set(diff.split('\n').filter(f => f));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Pick the remaining branch with the least overlap: files that conflict with
+ * the current base (checkMergeConflicts) plus files also touched by other
+ * pending branches. Ties keep worktree order.
+ */
+function pickLeastOverlapping(branches: string[], baseBranch: string, repoRoot: string): number {
+  const changed = branches.map(b => changedFilesSinceBase(b, baseBranch, repoRoot));
+  let bestIndex = 0;
+  let bestScore = Infinity;
+
+  branches.forEach((branch, i) => {
+    let score: number;
+    try {
+      score = checkMergeConflicts(branch, baseBranch, repoRoot).length;
+    } catch {
+      score = 0;
+    }
+    for (const file of changed[i]) {
+      score += changed.filter((other, j) => j !== i && other.has(file)).length;
+    }
+    if (score < bestScore) {
+      bestScore = score;
+      bestIndex = i;
+    }
+  });
+
+  return bestIndex;
 }
 
 /**
  * Merge all completed worker branches for a team.
- * Processes worktrees in order.
+ *
+ * Processes worktrees in creation order, or with ordering 'least-overlap'
+ * greedily merges the branch with the fewest overlapping files first,
+ * re-evaluating after each merge as the base moves.
+ *
+ * With conflictStrategy 'abort' the run stops at the first failure. With
+ * 'resolve' a conflicting branch gets a resolution task and the remaining
+ * branches are still merged.
  */
 export function mergeAllWorkerBranches(
   teamName: string,
   repoRoot: string,
-  baseBranch?: string
+  baseBranch?: string,
+  options?: MergeAllOptions
 ): MergeResult[] {
   const worktrees = listTeamWorktrees(teamName, repoRoot);
   if (worktrees.length === 0) return [];
@@ -153,14 +418,25 @@ export function mergeAllWorkerBranches(
 
   validateBranchName(base);
 
+  const resolve = options?.conflictStrategy === 'resolve';
+  const mergeOptions: MergeOptions = {
+    ...options,
+    teamName: options?.teamName ?? teamName,
+  };
+  const remaining = worktrees.map(wt => wt.branch);
   const results: MergeResult[] = [];
 
-  for (const wt of worktrees) {
-    const result = mergeWorkerBranch(wt.branch, base, repoRoot);
+  while (remaining.length > 0) {
+    const index = options?.ordering === 'least-overlap'
+      ? pickLeastOverlapping(remaining, base, repoRoot)
+      : 0;
+    const [branch] = remaining.splice(index, 1);
+
+    const result = mergeWorkerBranch(branch, base, repoRoot, mergeOptions);
     results.push(result);
 
-    // Stop on first failure to prevent cascading issues
-    if (!result.success) break;
+    // Stop on first failure to prevent cascading issues (unless delegating resolution)
+    if (!result.success && !resolve) break;
   }
 
   return results;
@@ -1,8 +1,16 @@
 import { spawnSync } from 'child_process';
 import { isAbsolute, normalize, win32 as win32Path } from 'path';
 import { validateTeamName } from './team-name.js';
+import { getCustomCliContract, listCustomCliContracts } from './cli-contract-registry.js';
 
-export type CliAgentType = 'claude' | 'codex' | 'gemini';
+/** Agent types with hardcoded contracts */
+export type BuiltinCliAgentType = 'claude' | 'codex' | 'gemini';
+
+/**
+ * Any worker CLI: a built-in type or a custom type registered from
+ * `cliWorkers` config (see cli-contract-registry.ts).
+ */
+export type CliAgentType = BuiltinCliAgentType | (string & {});
 
 export interface CliAgentContract {
   agentType: CliAgentType;
@@ -112,6 +120,12 @@ export function resolveCliBinaryPath(binary: string): string {
     throw new Error(`Resolved CLI binary '${binary}' to relative path`);
   }
 
+  assertResolvedPathAllowed(binary, resolvedPath);
+  resolvedPathCache.set(binary, resolvedPath);
+  return resolvedPath;
+}
+
+function assertResolvedPathAllowed(binary: string, resolvedPath: string): void {
   if (UNTRUSTED_PATH_PATTERNS.some(pattern => pattern.test(resolvedPath))) {
     throw new Error(`Resolved CLI binary '${binary}' to untrusted location: ${resolvedPath}`);
   }
@@ -119,9 +133,6 @@ export function resolveCliBinaryPath(binary: string): string {
   if (!isTrustedPrefix(resolvedPath)) {
     console.warn(`[omc:cli-security] CLI binary '${binary}' resolved to non-standard path: ${resolvedPath}`);
   }
-
-  resolvedPathCache.set(binary, resolvedPath);
-  return resolvedPath;
 }
 
 /** @deprecated Backward-compat shim retained for API compatibility. */
@@ -148,7 +159,7 @@ export const _testInternals = {
   getTrustedPrefixes,
 };
 
-const CONTRACTS: Record<CliAgentType, CliAgentContract> = {
+const CONTRACTS: Record<BuiltinCliAgentType, CliAgentContract> = {
   claude: {
     agentType: 'claude',
     binary: 'claude',
@@ -210,10 +221,22 @@ const CONTRACTS: Record<CliAgentType, CliAgentContract> = {
   },
 };
 
+/** Built-in agent types followed by registered custom ones */
+export function listCliAgentTypes(): CliAgentType[] {
+  return [...Object.keys(CONTRACTS), ...listCustomCliContracts().map(c => c.agentType)];
+}
+
+/** Whether a contract exists (built-in or custom) for the agent type */
+export function isKnownCliAgentType(agentType: string): agentType is CliAgentType {
+  return Object.hasOwn(CONTRACTS, agentType) || getCustomCliContract(agentType) !== undefined;
+}
+
 export function getContract(agentType: CliAgentType): CliAgentContract {
-  const contract = CONTRACTS[agentType];
+  const contract = Object.hasOwn(CONTRACTS, agentType)
+    ? CONTRACTS[agentType as BuiltinCliAgentType]
+    : getCustomCliContract(agentType);
   if (!contract) {
-    throw new Error(`Unknown agent type: ${agentType}. Supported: ${Object.keys(CONTRACTS).join(', ')}`);
+    throw new Error(`Unknown agent type: ${agentType}. Supported: ${listCliAgentTypes().join(', ')}`);
   }
   return contract;
 }
@@ -274,6 +297,12 @@ export function validateCliAvailable(agentType: CliAgentType): void {
 
 export function resolveValidatedBinaryPath(agentType: CliAgentType): string {
   const contract = getContract(agentType);
+  // Custom contracts may pin an absolute path instead of a PATH lookup
+  if (isAbsolute(contract.binary)) {
+    const resolvedPath = normalize(contract.binary);
+    assertResolvedPathAllowed(contract.binary, resolvedPath);
+    return resolvedPath;
+  }
   return resolveCliBinaryPath(contract.binary);
 }
 
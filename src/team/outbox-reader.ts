@@ -5,6 +5,10 @@
  *
  * Reads outbox messages (worker -> lead) using byte-offset cursor,
  * mirroring the inbox cursor pattern from inbox-outbox.ts.
+ *
+ * task_complete messages carrying a structured result artifact are validated
+ * on ingestion: valid artifacts are stored as a sidecar next to the task file,
+ * invalid ones are dropped from the message and reported in `resultErrors`.
  */
 
 import {
@@ -15,6 +19,8 @@ import { join } from 'path';
 import { getClaudeConfigDir } from '../utils/paths.js';
 import { validateResolvedPath, writeFileWithMode, atomicWriteJson, ensureDirWithMode } from './fs-utils.js';
 import { sanitizeName } from './tmux-session.js';
+import { readTask, writeTaskResult } from './task-file-ops.js';
+import { validateTaskResult } from './task-result.js';
 import type { OutboxMessage } from './types.js';
 
 /** Outbox cursor stored alongside outbox files */
@@ -28,13 +34,28 @@ function teamsDir(): string {
   return join(getClaudeConfigDir(), 'teams');
 }
 
+/** Validate a task_complete result artifact and persist it beside its task file. */
+function ingestTaskResult(teamName: string, message: OutboxMessage, cwd?: string): OutboxMessage {
+  if (message.type !== 'task_complete' || message.result === undefined) return message;
+  const { result, ...rest } = message;
+  const validation = validateTaskResult(result, message.taskId);
+  if (!validation.ok) return { ...rest, resultErrors: validation.errors };
+  try {
+    if (readTask(teamName, validation.result.taskId, { cwd })) {
+      return { ...rest, result: writeTaskResult(teamName, validation.result, { cwd }) };
+    }
+  } catch { /* unsafe task id or unwritable tasks dir — keep the validated result in the message */ }
+  return { ...rest, result: validation.result };
+}
+
 /**
  * Read new outbox messages for a worker using byte-offset cursor.
  * Mirror of readNewInboxMessages() but for the outbox direction.
  */
 export function readNewOutboxMessages(
   teamName: string,
-  workerName: string
+  workerName: string,
+  opts?: { cwd?: string }
 ): OutboxMessage[] {
   const safeName = sanitizeName(teamName);
   const safeWorker = sanitizeName(workerName);
@@ -77,7 +98,7 @@ export function readNewOutboxMessages(
   const messages: OutboxMessage[] = [];
   for (const line of lines) {
     try {
-      messages.push(JSON.parse(line));
+      messages.push(ingestTaskResult(teamName, JSON.parse(line) as OutboxMessage, opts?.cwd));
     } catch { /* skip malformed lines */ }
   }
 
@@ -104,7 +125,8 @@ export function readNewOutboxMessages(
  * Read new outbox messages from ALL workers in a team.
  */
 export function readAllTeamOutboxMessages(
-  teamName: string
+  teamName: string,
+  opts?: { cwd?: string }
 ): { workerName: string; messages: OutboxMessage[] }[] {
   const safeName = sanitizeName(teamName);
   const outboxDir = join(teamsDir(), safeName, 'outbox');
@@ -116,7 +138,7 @@ export function readAllTeamOutboxMessages(
 
   for (const file of files) {
     const workerName = file.replace('.jsonl', '');
-    const messages = readNewOutboxMessages(teamName, workerName);
+    const messages = readNewOutboxMessages(teamName, workerName, opts);
     if (messages.length > 0) {
       results.push({ workerName, messages });
     }
@@ -0,0 +1,363 @@
+// src/team/permission-enforcer.ts
+
+/**
+ * Mechanical enforcement of worker filesystem permissions.
+ *
+ * permissions.ts decides whether a path is in scope; this module makes that
+ * decision stick. Before a task runs the bridge snapshots the worktree
+ * (HEAD, plus every dirty or untracked file with a content hash and a
+ * backup of its bytes). After the task it diffs a second snapshot against
+ * the first, including files changed by commits made during the task,
+ * checks each changed path against the worker's permissions and reverts
+ * out-of-scope changes:
+ * - files that were dirty before the task are restored from the backup
+ * - files tracked at the pre-task HEAD are checked out from it
+ * - new files are deleted
+ * Reverting a committed change leaves the commit in place and undoes it in
+ * the worktree and index.
+ *
+ * Bridge-owned state (.omc/state, prompts, outputs, logs, worktrees) is
+ * never treated as a worker change; the rest of .omc/ (permissions.json,
+ * config, skills) is enforced like any other path.
+ *
+ * Workers of a team share one worktree, so a diff also contains the changes
+ * of workers running at the same time. Each bridge records its task window
+ * and permissions in an enforcement window file; an out-of-scope path that
+ * an overlapping worker is allowed to change is attributed to that worker
+ * (and checked by its own bridge) instead of being reverted. The window file
+ * lives in the team's config directory, outside the worktree, so a worker
+ * cannot rewrite it to have its changes attributed to another worker.
+ */
+
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import { existsSync, lstatSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { withFileLockSync, lockPathFor } from '../lib/file-lock.js';
+import { atomicWriteJson, ensureDirWithMode, validateResolvedPath } from './fs-utils.js';
+import {
+  findPermissionViolations,
+  isPathAllowed,
+  type PermissionViolation,
+  type WorkerPermissions,
+} from './permissions.js';
+import { sanitizeName } from './tmux-session.js';
+import { getClaudeConfigDir } from '../utils/paths.js';
+
+/** Files larger than this are hashed but not backed up (and cannot be restored). */
+const MAX_BACKUP_BYTES = 5 * 1024 * 1024;
+const GIT_TIMEOUT_MS = 10_000;
+/** Finished task windows are kept this long so later finishers still see them */
+const WINDOW_RETENTION_MS = 60 * 60 * 1000;
+const WINDOW_LOCK_TIMEOUT_MS = 5_000;
+
+/** Bridge-owned directories under .omc/, at the repo root or a nested working directory */
+const BRIDGE_STATE_PATH = /(^|\/)\.omc\/(state|prompts|outputs|logs|worktrees)(\/|$)/;
+
+interface SnapshotEntry {
+  /** sha1 of file content; null when the path is deleted in the worktree */
+  hash: string | null;
+  /** Backup of file content; null when deleted or too large to keep */
+  content: Buffer | null;
+}
+
+export interface WorktreeSnapshot {
+  /** Absolute repository root; null when cwd is not inside a git worktree */
+  root: string | null;
+  /** Commit checked out when the snapshot was taken; null before the first commit */
+  head: string | null;
+  /** Dirty and untracked files keyed by repo-root-relative path */
+  entries: Map<string, SnapshotEntry>;
+}
+
+export interface PermissionEnforcementResult {
+  /** Changed paths, relative to the working directory */
+  changedPaths: string[];
+  violations: PermissionViolation[];
+  /** Violating paths that were restored to their pre-task state */
+  reverted: string[];
+  /** Violating paths that could not be restored */
+  revertFailures: Array<{ path: string; error: string }>;
+  /** Out-of-scope paths left alone because an overlapping worker may change them */
+  attributed: Array<{ path: string; workerName: string }>;
+}
+
+/** One worker's task window, recorded for attribution between concurrent workers */
+export interface EnforcementWindow {
+  workerName: string;
+  workingDirectory: string;
+  permissions: WorkerPermissions;
+  startedAt: number;
+  /** Unset while the task is still running */
+  endedAt?: number;
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', timeout: GIT_TIMEOUT_MS, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+function isBridgeStatePath(repoPath: string): boolean {
+  return BRIDGE_STATE_PATH.test(repoPath);
+}
+
+/** Parse `git status --porcelain=v1 -z` output into repo-relative paths. */
+function parsePorcelainZ(output: string): string[] {
+  const fields = output.split('\0');
+  const paths: string[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const status = field.slice(0, 2);
+    paths.push(field.slice(3));
+    // Renames and copies carry the original path in the next field
+    if (status[0] === 'R' || status[0] === 'C') {
+      const original = fields[i + 1];
+      if (original) paths.push(original);
+      i++;
+    }
+  }
+  return paths;
+}
+
+function readEntry(absPath: string): SnapshotEntry {
+  try {
+    const stat = lstatSync(absPath);
+    if (!stat.isFile()) return { hash: `non-file:${stat.mode}`, content: null };
+    const content = readFileSync(absPath);
+    const hash = createHash('sha1').update(content).digest('hex');
+    return { hash, content: content.length <= MAX_BACKUP_BYTES ? content : null };
+  } catch {
+    return { hash: null, content: null };
+  }
+}
+
+function readHead(root: string): string | null {
+  try {
+    return git(root, ['rev-parse', '--verify', '--quiet', 'HEAD']).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snapshot dirty and untracked files under the git worktree containing cwd.
+ * Returns an empty snapshot (root null) when cwd is not a git worktree.
+ */
+export function captureWorktreeSnapshot(cwd: string): WorktreeSnapshot {
+  const entries = new Map<string, SnapshotEntry>();
+  let root: string;
+  let head: string | null;
+  try {
+    root = git(cwd, ['rev-parse', '--show-toplevel']).trim();
+    head = readHead(root);
+    const status = git(root, ['status', '--porcelain=v1', '-z', '--untracked-files=all']);
+    for (const repoPath of parsePorcelainZ(status)) {
+      if (isBridgeStatePath(repoPath) || entries.has(repoPath)) continue;
+      entries.set(repoPath, readEntry(join(root, repoPath)));
+    }
+  } catch {
+    return { root: null, head: null, entries };
+  }
+  return { root, head, entries };
+}
+
+/**
+ * Repo-relative paths whose state differs between two snapshots: newly
+ * dirty, changed again, or returned to the committed state.
+ */
+export function diffWorktreeSnapshots(before: WorktreeSnapshot, after: WorktreeSnapshot): string[] {
+  const changed: string[] = [];
+  for (const [path, entry] of after.entries) {
+    const previous = before.entries.get(path);
+    if (!previous || previous.hash !== entry.hash) changed.push(path);
+  }
+  for (const path of before.entries.keys()) {
+    if (!after.entries.has(path)) changed.push(path);
+  }
+  return changed.sort();
+}
+
+/**
+ * Repo-relative paths changed by commits made between two snapshots
+ * (new commits, amends or resets moving HEAD).
+ */
+export function diffCommittedPaths(before: WorktreeSnapshot, after: WorktreeSnapshot): string[] {
+  if (!after.root || !after.head || before.head === after.head) return [];
+  try {
+    const output = before.head
+      ? git(after.root, ['diff', '--name-only', '--no-renames', '-z', before.head, after.head])
+      : git(after.root, ['ls-tree', '-r', '--name-only', '-z', after.head]);
+    return output.split('\0').filter(p => p && !isBridgeStatePath(p)).sort();
+  } catch {
+    return [];
+  }
+}
+
+function existsAtCommit(root: string, commit: string | null, repoPath: string): boolean {
+  if (!commit) return false;
+  try {
+    git(root, ['cat-file', '-e', `${commit}:${repoPath}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Restore one repo-relative path to its state in the `before` snapshot. */
+function revertPath(root: string, repoPath: string, before: WorktreeSnapshot): void {
+  const absPath = join(root, repoPath);
+  const previous = before.entries.get(repoPath);
+
+  if (previous) {
+    if (previous.hash === null) {
+      if (existsSync(absPath)) unlinkSync(absPath);
+      return;
+    }
+    if (!previous.content) {
+      throw new Error('pre-task content was not backed up (file too large or not a regular file)');
+    }
+    mkdirSync(dirname(absPath), { recursive: true });
+    writeFileSync(absPath, previous.content);
+    return;
+  }
+
+  if (existsAtCommit(root, before.head, repoPath)) {
+    git(root, ['checkout', before.head!, '--', repoPath]);
+    return;
+  }
+
+  // New file: drop it from the index if the worker staged it, then delete
+  git(root, ['rm', '--cached', '--quiet', '--ignore-unmatch', '--', repoPath]);
+  if (existsSync(absPath)) unlinkSync(absPath);
+}
+
+/** Window file of a team's worktree, keyed by a hash of the repository root */
+function getWindowsPath(root: string, teamName: string): string {
+  const teamsDir = join(getClaudeConfigDir(), 'teams');
+  const rootKey = createHash('sha1').update(resolve(root)).digest('hex').slice(0, 16);
+  const path = join(teamsDir, sanitizeName(teamName), 'enforcement-windows', `${rootKey}.json`);
+  validateResolvedPath(path, teamsDir);
+  return path;
+}
+
+function readWindows(path: string): EnforcementWindow[] {
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Apply `update` to the team's window file under its lock, dropping expired windows. */
+function updateWindows(
+  root: string,
+  teamName: string,
+  now: number,
+  update: (windows: EnforcementWindow[]) => EnforcementWindow[],
+): void {
+  const path = getWindowsPath(root, teamName);
+  ensureDirWithMode(dirname(path));
+  withFileLockSync(lockPathFor(path), () => {
+    const live = readWindows(path).filter(w => w.endedAt === undefined || now - w.endedAt < WINDOW_RETENTION_MS);
+    atomicWriteJson(path, update(live));
+  }, { timeoutMs: WINDOW_LOCK_TIMEOUT_MS });
+}
+
+/** Record that a worker started a task under enforcement. */
+export function beginEnforcementWindow(
+  root: string,
+  teamName: string,
+  window: Omit<EnforcementWindow, 'startedAt' | 'endedAt'>,
+  now: number = Date.now(),
+): void {
+  updateWindows(root, teamName, now, windows => [
+    ...windows.filter(w => w.workerName !== window.workerName),
+    { ...window, startedAt: now },
+  ]);
+}
+
+/** Mark a worker's current task window as finished. */
+export function endEnforcementWindow(root: string, teamName: string, workerName: string, now: number = Date.now()): void {
+  updateWindows(root, teamName, now, windows =>
+    windows.map(w => (w.workerName === workerName && w.endedAt === undefined ? { ...w, endedAt: now } : w)),
+  );
+}
+
+/** Windows of other workers that overlap a task started at `since`. */
+export function getOverlappingWindows(
+  root: string,
+  teamName: string,
+  workerName: string,
+  since: number,
+): EnforcementWindow[] {
+  return readWindows(getWindowsPath(root, teamName)).filter(
+    w => w.workerName !== workerName && (w.endedAt === undefined || w.endedAt >= since),
+  );
+}
+
+/**
+ * Check worktree changes made since `before` against a worker's permissions
+ * and revert every out-of-scope change. With `revert: false` violations are
+ * only reported (audit mode). Paths that a worker in `concurrent` may change
+ * are attributed to that worker and neither reported nor reverted.
+ */
+export function enforceWorkerPermissions(
+  cwd: string,
+  before: WorktreeSnapshot,
+  permissions: WorkerPermissions,
+  options: { revert?: boolean; concurrent?: EnforcementWindow[] } = {},
+): PermissionEnforcementResult {
+  const result: PermissionEnforcementResult = {
+    changedPaths: [],
+    violations: [],
+    reverted: [],
+    revertFailures: [],
+    attributed: [],
+  };
+  if (!before.root) return result;
+
+  const root = before.root;
+  const after = captureWorktreeSnapshot(cwd);
+  const changedRepoPaths = [...new Set([
+    ...diffWorktreeSnapshots(before, after),
+    ...diffCommittedPaths(before, after),
+  ])].sort();
+  if (changedRepoPaths.length === 0) return result;
+
+  const workingDirectory = resolve(cwd);
+  const toCwdRelative = (repoPath: string) => relative(workingDirectory, join(root, repoPath)).split(sep).join('/');
+  const repoPathByCwdPath = new Map(changedRepoPaths.map(p => [toCwdRelative(p), p] as const));
+
+  result.changedPaths = [...repoPathByCwdPath.keys()];
+  result.violations = findPermissionViolations(result.changedPaths, permissions, workingDirectory).filter(violation => {
+    const absPath = join(root, repoPathByCwdPath.get(violation.path) ?? violation.path);
+    const owner = options.concurrent?.find(w => isPathAllowed(w.permissions, absPath, w.workingDirectory));
+    if (!owner) return true;
+    result.attributed.push({ path: violation.path, workerName: owner.workerName });
+    return false;
+  });
+  if (options.revert === false) return result;
+
+  for (const violation of result.violations) {
+    const repoPath = repoPathByCwdPath.get(violation.path);
+    if (!repoPath) continue;
+    try {
+      revertPath(root, repoPath, before);
+      result.reverted.push(violation.path);
+    } catch (err) {
+      result.revertFailures.push({ path: violation.path, error: (err as Error).message });
+    }
+  }
+  return result;
+}
+
+/** Explain violations to a worker that gets the task again. */
+export function formatViolationFeedback(violations: PermissionViolation[]): string {
+  const lines = [
+    'Your previous attempt changed files outside your permitted scope. These changes were reverted:',
+    ...violations.map(v => `- ${v.path}: ${v.reason}`),
+    'Redo the task without modifying those paths.',
+  ];
+  return lines.join('\n');
+}
@@ -1,11 +1,12 @@
 // src/team/permissions.ts
 
 /**
- * RBAC-compatible advisory permission scoping for workers.
+ * RBAC-compatible permission scoping for workers.
  *
- * NOTE: This is an advisory layer only. MCP workers run in full-auto mode
- * and cannot be mechanically restricted. Permissions are injected into
- * prompts as instructions for the LLM to follow.
+ * Workers run in full-auto mode and cannot be sandboxed while a task runs.
+ * Permissions are injected into prompts as instructions, and in the bridge's
+ * 'enforce' mode permission-enforcer.ts diffs the worktree after each task
+ * and reverts out-of-scope changes.
  */
 
 import { relative, resolve } from 'node:path';
@@ -0,0 +1,395 @@
+// src/team/replay.ts
+
+/**
+ * Team run replay.
+ *
+ * Merges the team event log (.omc/state/team/{team}/events.jsonl) and the
+ * bridge audit log (.omc/logs/team-bridge-{team}.jsonl) into one ordered
+ * timeline, then reconstructs task status, worker status and team phase
+ * (via inferPhase) at any point of that timeline.
+ *
+ * Index semantics: the state "at index i" is the state after applying
+ * timeline entries 0..i. Index -1 is the initial state (every known task
+ * pending, every worker unknown).
+ */
+
+import { readTeamEvents } from './events.js';
+import { readAuditLog } from './audit-log.js';
+import { teamListTasks } from './team-ops.js';
+import { inferPhase, type TeamPhase } from './phase-controller.js';
+
+export type ReplaySource = 'event' | 'audit';
+
+export interface ReplayEntry {
+  index: number;
+  timestamp: string;
+  source: ReplaySource;
+  type: string;
+  worker: string;
+  taskId?: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+export type ReplayTaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type ReplayWorkerStatus = 'unknown' | 'idle' | 'working' | 'quarantined' | 'stopped';
+
+export interface ReplayTaskState {
+  status: ReplayTaskStatus;
+  owner?: string;
+  retryCount: number;
+  permanentlyFailed?: boolean;
+}
+
+export interface ReplayWorkerState {
+  status: ReplayWorkerStatus;
+  currentTaskId?: string;
+}
+
+export interface ReplayState {
+  index: number;
+  timestamp: string | null;
+  phase: TeamPhase;
+  tasks: Record<string, ReplayTaskState>;
+  workers: Record<string, ReplayWorkerState>;
+  budgetPaused: boolean;
+}
+
+export interface ReplayChange {
+  kind: 'phase' | 'task' | 'worker' | 'budget';
+  id?: string;
+  from: string;
+  to: string;
+}
+
+export interface ReplayDiff {
+  fromIndex: number;
+  toIndex: number;
+  changes: ReplayChange[];
+  /** Timeline entries applied between the two points */
+  entries: ReplayEntry[];
+}
+
+const LEADER_WORKER = 'leader-fixed';
+
+/** Load and merge event + audit logs into a single timeline ordered by time. */
+export async function loadReplayTimeline(teamName: string, cwd: string): Promise<ReplayEntry[]> {
+  const events = await readTeamEvents(teamName, cwd);
+  const audits = readAuditLog(cwd, teamName);
+
+  const merged: Omit<ReplayEntry, 'index'>[] = [
+    ...events.map((e) => ({
+      timestamp: e.created_at,
+      source: 'event' as const,
+      type: e.type,
+      worker: e.worker,
+      ...(e.task_id ? { taskId: e.task_id } : {}),
+      ...(e.reason ? { reason: e.reason } : {}),
+    })),
+    ...audits.map((a) => ({
+      timestamp: a.timestamp,
+      source: 'audit' as const,
+      type: a.eventType,
+      worker: a.workerName,
+      ...(a.taskId ? { taskId: a.taskId } : {}),
+      ...(a.details ? { details: a.details } : {}),
+    })),
+  ];
+
+  // Array.prototype.sort is stable, so same-timestamp entries keep file order
+  merged.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+  return merged.map((entry, index) => ({ index, ...entry }));
+}
+
+/** Build the index -1 state from the tasks that currently exist on disk. */
+export function createInitialReplayState(taskIds: string[] = []): ReplayState {
+  const tasks: Record<string, ReplayTaskState> = {};
+  for (const id of taskIds) tasks[id] = { status: 'pending', retryCount: 0 };
+  return { index: -1, timestamp: null, phase: inferPhase(toPhaseable(tasks)), tasks, workers: {}, budgetPaused: false };
+}
+
+function toPhaseable(tasks: Record<string, ReplayTaskState>) {
+  return Object.values(tasks).map((t) => ({
+    status: t.status,
+    metadata: { permanentlyFailed: t.permanentlyFailed, retryCount: t.retryCount },
+  }));
+}
+
+function cloneState(state: ReplayState): ReplayState {
+  const tasks: Record<string, ReplayTaskState> = {};
+  for (const [id, t] of Object.entries(state.tasks)) tasks[id] = { ...t };
+  const workers: Record<string, ReplayWorkerState> = {};
+  for (const [name, w] of Object.entries(state.workers)) workers[name] = { ...w };
+  return { ...state, tasks, workers };
+}
+
+/** Apply one timeline entry to a state (mutates and returns `state`). */
+function applyEntry(state: ReplayState, entry: ReplayEntry): ReplayState {
+  const task = (id: string): ReplayTaskState =>
+    (state.tasks[id] ??= { status: 'pending', retryCount: 0 });
+  const worker = (name: string): ReplayWorkerState | null => {
+    if (!name || name === LEADER_WORKER) return null;
+    return (state.workers[name] ??= { status: 'unknown' });
+  };
+  const releaseWorker = (name: string, taskId?: string) => {
+    const w = worker(name);
+    if (w && (!taskId || w.currentTaskId === taskId)) {
+      w.status = 'idle';
+      delete w.currentTaskId;
+    }
+  };
+
+  const id = entry.taskId;
+  switch (entry.type) {
+    case 'bridge_start':
+    case 'worker_ready':
+    case 'worker_idle':
+      releaseWorker(entry.worker);
+      break;
+    case 'task_claimed':
+    case 'task_started':
+      if (id) {
+        const t = task(id);
+        t.status = 'in_progress';
+        if (entry.worker !== LEADER_WORKER) t.owner = entry.worker;
+        const w = worker(entry.worker);
+        if (w) {
+          w.status = 'working';
+          w.currentTaskId = id;
+        }
+      }
+      break;
+    case 'task_completed':
+      if (id) {
+        const t = task(id);
+        if (!t.permanentlyFailed) t.status = 'completed';
+        releaseWorker(t.owner ?? entry.worker, id);
+      }
+      break;
+    case 'task_failed':
+      if (id) {
+        const t = task(id);
+        if (entry.source === 'audit') {
+          // Bridge failure with retries left: the task goes back to pending
+          t.status = 'pending';
+          t.retryCount += 1;
+        } else {
+          t.status = 'failed';
+        }
+        releaseWorker(t.owner ?? entry.worker, id);
+      }
+      break;
+    case 'task_permanently_failed':
+      if (id) {
+        const t = task(id);
+        t.status = 'completed';
+        t.permanentlyFailed = true;
+        t.retryCount += 1;
+        releaseWorker(t.owner ?? entry.worker, id);
+      }
+      break;
+    case 'permission_violation':
+      if (id) {
+        const t = task(id);
+        t.retryCount += 1;
+        if (entry.details?.requeued === true) {
+          t.status = 'pending';
+        } else {
+          t.status = 'completed';
+          t.permanentlyFailed = true;
+        }
+        releaseWorker(t.owner ?? entry.worker, id);
+      }
+      break;
+    case 'worker_quarantined': {
+      const w = worker(entry.worker);
+      if (w) w.status = 'quarantined';
+      break;
+    }
+    case 'worker_stopped':
+    case 'bridge_shutdown':
+    case 'shutdown_ack': {
+      const w = worker(entry.worker);
+      if (w) {
+        w.status = 'stopped';
+        delete w.currentTaskId;
+      }
+      break;
+    }
+    case 'budget_exceeded':
+      state.budgetPaused = true;
+      break;
+    default:
+      // Informational entries (cli_spawned, messages, nudges, ...) carry no state
+      break;
+  }
+
+  state.index = entry.index;
+  state.timestamp = entry.timestamp;
+  state.phase = inferPhase(toPhaseable(state.tasks));
+  return state;
+}
+
+/**
+ * Reconstruct team state at `index` (clamped to the timeline). Pure: the
+ * initial state is not modified.
+ */
+export function replayTeamState(
+  timeline: ReplayEntry[],
+  index: number,
+  initial: ReplayState = createInitialReplayState(),
+): ReplayState {
+  const target = Math.min(Math.max(index, -1), timeline.length - 1);
+  const state = cloneState(initial);
+  for (let i = 0; i <= target; i++) applyEntry(state, timeline[i]);
+  return state;
+}
+
+/** List what changed between two reconstructed states. */
+export function diffReplayStates(a: ReplayState, b: ReplayState): ReplayChange[] {
+  const changes: ReplayChange[] = [];
+  if (a.phase !== b.phase) changes.push({ kind: 'phase', from: a.phase, to: b.phase });
+  if (a.budgetPaused !== b.budgetPaused) {
+    changes.push({ kind: 'budget', from: a.budgetPaused ? 'paused' : 'running', to: b.budgetPaused ? 'paused' : 'running' });
+  }
+
+  const describeTask = (t?: ReplayTaskState) =>
+    !t ? 'absent' : t.permanentlyFailed ? 'failed (permanent)' : t.status;
+  for (const id of new Set([...Object.keys(a.tasks), ...Object.keys(b.tasks)])) {
+    const from = describeTask(a.tasks[id]);
+    const to = describeTask(b.tasks[id]);
+    if (from !== to) changes.push({ kind: 'task', id, from, to });
+  }
+
+  const describeWorker = (w?: ReplayWorkerState) =>
+    !w ? 'unknown' : w.currentTaskId ? `${w.status} (task ${w.currentTaskId})` : w.status;
+  for (const name of new Set([...Object.keys(a.workers), ...Object.keys(b.workers)])) {
+    const from = describeWorker(a.workers[name]);
+    const to = describeWorker(b.workers[name]);
+    if (from !== to) changes.push({ kind: 'worker', id: name, from, to });
+  }
+  return changes;
+}
+
+/** Diff the states at two timeline indices (order-insensitive). */
+export function diffReplayPoints(
+  timeline: ReplayEntry[],
+  fromIndex: number,
+  toIndex: number,
+  initial?: ReplayState,
+): ReplayDiff {
+  const [lo, hi] = fromIndex <= toIndex ? [fromIndex, toIndex] : [toIndex, fromIndex];
+  const a = replayTeamState(timeline, lo, initial);
+  const b = replayTeamState(timeline, hi, initial);
+  return {
+    fromIndex: a.index,
+    toIndex: b.index,
+    changes: diffReplayStates(a, b),
+    entries: timeline.slice(a.index + 1, b.index + 1),
+  };
+}
+
+/**
+ * Step-through cursor over a timeline. States are rebuilt from the start on
+ * every move, which keeps stepping back trivially correct.
+ */
+export class ReplayCursor {
+  private position: number;
+
+  constructor(
+    readonly timeline: ReplayEntry[],
+    private readonly initial: ReplayState = createInitialReplayState(),
+    start = timeline.length - 1,
+  ) {
+    this.position = this.clamp(start);
+  }
+
+  get index(): number {
+    return this.position;
+  }
+
+  get state(): ReplayState {
+    return replayTeamState(this.timeline, this.position, this.initial);
+  }
+
+  get entry(): ReplayEntry | null {
+    return this.timeline[this.position] ?? null;
+  }
+
+  forward(steps = 1): ReplayState {
+    this.position = this.clamp(this.position + steps);
+    return this.state;
+  }
+
+  back(steps = 1): ReplayState {
+    this.position = this.clamp(this.position - steps);
+    return this.state;
+  }
+
+  seek(index: number): ReplayState {
+    this.position = this.clamp(index);
+    return this.state;
+  }
+
+  diff(fromIndex: number, toIndex: number): ReplayDiff {
+    return diffReplayPoints(this.timeline, fromIndex, toIndex, this.initial);
+  }
+
+  private clamp(index: number): number {
+    return Math.min(Math.max(index, -1), this.timeline.length - 1);
+  }
+}
+
+/** Load the timeline plus an initial state seeded from current task files. */
+export async function openTeamReplay(teamName: string, cwd: string): Promise<ReplayCursor> {
+  const [timeline, tasks] = await Promise.all([
+    loadReplayTimeline(teamName, cwd),
+    teamListTasks(teamName, cwd).catch(() => []),
+  ]);
+  return new ReplayCursor(timeline, createInitialReplayState(tasks.map((t) => t.id)));
+}
+
+/** One-line description of a timeline entry. */
+export function formatReplayEntry(entry: ReplayEntry): string {
+  const parts = [`#${entry.index}`, entry.timestamp, `[${entry.source}]`, entry.type, entry.worker];
+  if (entry.taskId) parts.push(`task=${entry.taskId}`);
+  if (entry.reason) parts.push(`(${entry.reason})`);
+  return parts.join(' ');
+}
+
+/** Multi-line rendering of a reconstructed state. */
+export function formatReplayState(state: ReplayState, total: number): string {
+  const lines = [
+    `Index ${state.index} of ${total - 1}${state.timestamp ? ` @ ${state.timestamp}` : ' (initial state)'}`,
+    `Phase: ${state.phase}${state.budgetPaused ? ' (budget paused)' : ''}`,
+    'Tasks:',
+  ];
+  const taskIds = Object.keys(state.tasks).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (taskIds.length === 0) lines.push('  (none)');
+  for (const id of taskIds) {
+    const t = state.tasks[id];
+    const status = t.permanentlyFailed ? 'failed (permanent)' : t.status;
+    const extras = [t.owner ? `owner=${t.owner}` : '', t.retryCount > 0 ? `retries=${t.retryCount}` : '']
+      .filter(Boolean).join(' ');
+    lines.push(`  ${id}: ${status}${extras ? ` ${extras}` : ''}`);
+  }
+  lines.push('Workers:');
+  const workerNames = Object.keys(state.workers).sort();
+  if (workerNames.length === 0) lines.push('  (none)');
+  for (const name of workerNames) {
+    const w = state.workers[name];
+    lines.push(`  ${name}: ${w.status}${w.currentTaskId ? ` (task ${w.currentTaskId})` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+/** Multi-line rendering of a diff between two points. */
+export function formatReplayDiff(diff: ReplayDiff): string {
+  const lines = [`Diff ${diff.fromIndex} → ${diff.toIndex} (${diff.entries.length} event(s))`];
+  if (diff.changes.length === 0) lines.push('  (no state changes)');
+  for (const change of diff.changes) {
+    const label = change.id ? `${change.kind} ${change.id}` : change.kind;
+    lines.push(`  ${label}: ${change.from} → ${change.to}`);
+  }
+  return lines.join('\n');
+}
@@ -14,6 +14,10 @@ import type { TeamConfig, TeamRuntime } from './runtime.js';
 import { waitForSentinelReadiness } from './sentinel-gate.js';
 import { isRuntimeV2Enabled, startTeamV2, monitorTeamV2, shutdownTeamV2 } from './runtime-v2.js';
 import type { TeamSnapshotV2 } from './runtime-v2.js';
+import { resolveAutoscaleRequest, runAutoscaleCycle, type AutoscaleRequest } from './scaling-policy.js';
+import { isScalingEnabled } from './scaling.js';
+import { teamReadConfig } from './team-ops.js';
+import { checkTeamBudget, describeBudgetBreach, initTeamBudget, isTeamBudgetPaused, type TeamBudgetLimits } from './budget-guard.js';
 
 interface CliInput {
   teamName: string;
@@ -24,6 +28,13 @@ interface CliInput {
   pollIntervalMs?: number;
   sentinelGateTimeoutMs?: number;
   sentinelGatePollIntervalMs?: number;
+  /**
+   * Autoscaling request; unset defers to `teamAutoscale` in config.
+   * Autoscaling runs on the v2 runtime with OMC_TEAM_SCALING_ENABLED set.
+   */
+  autoscale?: AutoscaleRequest;
+  /** Hard ceilings; crossing one pauses dispatch and halts the run once in-flight work drains. */
+  budget?: TeamBudgetLimits;
 }
 
 interface TaskResult {
@@ -163,7 +174,27 @@ function collectTaskResults(stateRoot: string): TaskResult[] {
   }
 }
 
-async function main(): Promise<void> {
+/**
+ * Run the budget watchdog for one poll cycle.
+ * Returns true when the team is paused by a budget ceiling and no task is
+ * still in flight, i.e. the run should halt.
+ */
+async function shouldHaltForBudget(teamName: string, cwd: string, inProgress: number, logPrefix: string): Promise<boolean> {
+  let check;
+  try {
+    check = await checkTeamBudget(teamName, cwd);
+  } catch (err) {
+    process.stderr.write(`${logPrefix} budget check error: ${err}\n`);
+    return false;
+  }
+  if (!check?.breach) return false;
+  if (check.newlyPaused) {
+    process.stderr.write(`${logPrefix} Budget exceeded (${describeBudgetBreach(check.breach)}) — dispatch paused\n`);
+  }
+  return inProgress === 0;
+}
+
+export async function main(): Promise<void> {
   const startTime = Date.now();
 
   // Read stdin
@@ -203,6 +234,10 @@ async function main(): Promise<void> {
   } = input;
 
   const workerCount = input.workerCount ?? agentTypes.length;
+  const autoscale = resolveAutoscaleRequest(input.autoscale);
+  if (autoscale && !isScalingEnabled()) {
+    process.stderr.write('[runtime-cli] Autoscaling requested but OMC_TEAM_SCALING_ENABLED is not set — not scaling\n');
+  }
   const stateRoot = join(cwd, `.omc/state/team/${teamName}`);
 
   const config: TeamConfig = {
@@ -296,6 +331,7 @@ async function main(): Promise<void> {
         agentTypes,
         tasks,
         cwd,
+        budget: input.budget,
       });
       const v2PaneIds = v2Runtime.config.workers
         .map(w => w.pane_id)
@@ -312,6 +348,7 @@ async function main(): Promise<void> {
       };
     } else {
       runtime = await startTeam(config);
+      initTeamBudget(teamName, cwd, input.budget);
     }
   } catch (err) {
     process.stderr.write(`[runtime-cli] startTeam failed: ${err}\n`);
@@ -408,6 +445,34 @@ async function main(): Promise<void> {
         await doShutdown('failed');
         return;
       }
+
+      if (await shouldHaltForBudget(teamName, cwd, snap.tasks.in_progress, '[runtime-cli/v2]')) {
+        process.stderr.write('[runtime-cli/v2] Budget ceiling reached and in-flight work drained — halting\n');
+        await doShutdown('failed');
+        return;
+      }
+
+      if (autoscale && !isTeamBudgetPaused(teamName, cwd)) {
+        try {
+          const { decision, result } = await runAutoscaleCycle(teamName, cwd, autoscale);
+          if (decision.action !== 'none') {
+            process.stderr.write(
+              `[runtime-cli/v2] autoscale ${decision.action}: ${decision.reason}${result && !result.ok ? ` (failed: ${result.error})` : ''}\n`,
+            );
+          }
+          if (result?.ok) {
+            const scaledConfig = await teamReadConfig(teamName, cwd);
+            if (scaledConfig) {
+              runtime.workerNames = scaledConfig.workers.map(w => w.name);
+              runtime.workerPaneIds = scaledConfig.workers
+                .map(w => w.pane_id)
+                .filter((p): p is string => typeof p === 'string');
+            }
+          }
+        } catch (err) {
+          process.stderr.write(`[runtime-cli/v2] autoscale error: ${err}\n`);
+        }
+      }
     }
     return;
   }
@@ -503,6 +568,12 @@ async function main(): Promise<void> {
       await doShutdown('failed');
       return;
     }
+
+    if (await shouldHaltForBudget(teamName, cwd, snap.taskCounts.inProgress, '[runtime-cli]')) {
+      process.stderr.write('[runtime-cli] Budget ceiling reached and in-flight work drained — halting\n');
+      await doShutdown('failed');
+      return;
+    }
   }
 
 }
@@ -20,6 +20,7 @@ import { join, resolve } from 'path';
 import { existsSync } from 'fs';
 import { mkdir, rm, readdir, writeFile } from 'fs/promises';
 import { performance } from 'perf_hooks';
+import { randomUUID } from 'crypto';
 import { TeamPaths, absPath, teamStateRoot } from './state-paths.js';
 import {
   readTeamConfig,
@@ -39,7 +40,11 @@ import {
   cleanupTeamState,
 } from './monitor.js';
 import { appendTeamEvent, emitMonitorDerivedEvents } from './events.js';
-import { inferPhase } from './phase-controller.js';
+import { inferPhase, isTerminalPhase } from './phase-controller.js';
+import { assertValidTaskGraph, getTaskDependencies, prioritizeTasks } from './task-scheduler.js';
+import { reconcileTeamState, type TeamRecoveryDeps, type TeamRecoveryReport } from './team-recovery.js';
+import { initTeamBudget, validateBudgetLimits, type TeamBudgetLimits } from './budget-guard.js';
+import { recordCompletedTaskUsage } from './usage-tracker.js';
 import type {
   TeamConfig,
   TeamManifestV2,
@@ -184,6 +189,8 @@ export interface StartTeamV2Config {
   cwd: string;
   roleName?: string;
   rolePrompt?: string;
+  /** Hard ceilings on wall clock, task retries and estimated cost (see budget-guard.ts). */
+  budget?: TeamBudgetLimits;
 }
 
 // ---------------------------------------------------------------------------
@@ -271,6 +278,8 @@ interface SpawnV2WorkerOptions {
   taskId: string;
   cwd: string;
   resolvedBinaryPaths: Partial<Record<CliAgentType, string>>;
+  /** Claude session ID to launch with, so usage can be read from its transcript */
+  sessionId?: string;
 }
 
 interface SpawnV2WorkerResult {
@@ -346,6 +355,7 @@ async function spawnV2Worker(opts: SpawnV2WorkerOptions): Promise<SpawnV2WorkerR
     cwd: opts.cwd,
     resolvedBinaryPath,
     model: modelForAgent,
+    ...(opts.sessionId ? { extraFlags: ['--session-id', opts.sessionId] } : {}),
   });
 
   // For prompt-mode agents (codex, gemini), pass instruction via CLI flag
@@ -443,6 +453,19 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
   const leaderCwd = resolve(config.cwd);
   validateTeamName(sanitized);
 
+  // Reject cyclic or dangling dependency graphs before creating any state
+  const taskGraph = config.tasks.map((t, i) => ({
+    id: String(i + 1),
+    status: 'pending',
+    depends_on: t.blocked_by ?? [],
+  }));
+  assertValidTaskGraph(taskGraph);
+
+  const budgetErrors = validateBudgetLimits(config.budget);
+  if (budgetErrors.length > 0) {
+    throw new Error(`Invalid team budget: ${budgetErrors.join('; ')}`);
+  }
+
   // Validate CLIs and pin absolute binary paths
   const agentTypes = config.agentTypes as CliAgentType[];
   const resolvedBinaryPaths: Partial<Record<CliAgentType, string>> = {};
@@ -454,6 +477,7 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
   await mkdir(absPath(leaderCwd, TeamPaths.tasks(sanitized)), { recursive: true });
   await mkdir(absPath(leaderCwd, TeamPaths.workers(sanitized)), { recursive: true });
   await mkdir(join(leaderCwd, '.omc', 'state', 'team', sanitized, 'mailbox'), { recursive: true });
+  initTeamBudget(sanitized, leaderCwd, config.budget);
 
   // Write task files
   for (let i = 0; i < config.tasks.length; i++) {
@@ -467,6 +491,7 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
       status: 'pending',
       owner: null,
       result: null,
+      ...(config.tasks[i].blocked_by?.length ? { depends_on: config.tasks[i].blocked_by } : {}),
       created_at: new Date().toISOString(),
     }, null, 2), 'utf-8');
   }
@@ -495,13 +520,17 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
   const workerPaneIds: string[] = [];
 
   // Build workers info for config
-  const workersInfo: WorkerInfo[] = workerNames.map((wName, i) => ({
-    name: wName,
-    index: i + 1,
-    role: (agentTypes[i % agentTypes.length] ?? agentTypes[0] ?? 'claude') as string,
-    assigned_tasks: [] as string[],
-    working_dir: leaderCwd,
-  }));
+  const workersInfo: WorkerInfo[] = workerNames.map((wName, i) => {
+    const role = (agentTypes[i % agentTypes.length] ?? agentTypes[0] ?? 'claude') as string;
+    return {
+      name: wName,
+      index: i + 1,
+      role,
+      assigned_tasks: [] as string[],
+      working_dir: leaderCwd,
+      ...(role === 'claude' ? { session_id: randomUUID() } : {}),
+    };
+  });
 
   // Write initial v2 config
   const teamConfig: TeamConfig = {
@@ -524,12 +553,16 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
   };
   await saveTeamConfig(teamConfig, leaderCwd);
 
-  // Spawn workers for initial tasks (up to workerCount concurrent)
-  const maxConcurrent = Math.min(agentTypes.length, config.tasks.length);
+  // Spawn workers for initial tasks (up to workerCount concurrent).
+  // Only dependency-free tasks can start; critical-path tasks go first.
+  const startupTaskIds = prioritizeTasks(taskGraph)
+    .filter(t => t.depends_on.length === 0)
+    .map(t => t.id);
+  const maxConcurrent = Math.min(agentTypes.length, startupTaskIds.length);
   for (let i = 0; i < maxConcurrent; i++) {
     const wName = workerNames[i];
-    const taskId = String(i + 1);
-    const task = config.tasks[i];
+    const taskId = startupTaskIds[i];
+    const task = config.tasks[Number(taskId) - 1];
     if (!task) break;
 
     const workerLaunch = await spawnV2Worker({
@@ -544,6 +577,7 @@ export async function startTeamV2(config: StartTeamV2Config): Promise<TeamRuntim
       taskId,
       cwd: leaderCwd,
       resolvedBinaryPaths,
+      sessionId: workersInfo[i]?.session_id,
     });
 
     if (workerLaunch.paneId) {
@@ -665,15 +699,18 @@ export async function requeueDeadWorkerTasks(
     if (task.status !== 'in_progress') continue;
     if (!task.owner || !deadSet.has(task.owner)) continue;
 
-    // Write failure sidecar
+    // Write failure sidecar (retry count feeds the budget guard's retry ceiling)
     const sidecarPath = absPath(cwd, `${TeamPaths.tasks(sanitized)}/${task.id}.failure.json`);
+    const { readFile, writeFile } = await import('fs/promises');
+    const previousRetries = await readFile(sidecarPath, 'utf-8')
+      .then((raw) => Number((JSON.parse(raw) as { retryCount?: unknown }).retryCount) || 0)
+      .catch(() => 0);
     const sidecar = {
       taskId: task.id,
       lastError: `worker_dead:${task.owner}`,
-      retryCount: 0,
+      retryCount: previousRetries + 1,
       lastFailedAt: new Date().toISOString(),
     };
-    const { writeFile } = await import('fs/promises');
     await mkdir(absPath(cwd, TeamPaths.tasks(sanitized)), { recursive: true });
     await writeFile(sidecarPath, JSON.stringify(sidecar, null, 2), 'utf-8');
 
@@ -726,6 +763,13 @@ export async function monitorTeamV2(
   const allTasks = await listTasksFromFiles(sanitized, cwd);
   const listTasksMs = performance.now() - listTasksStartMs;
 
+  // Record tokens/cost for newly completed tasks (feeds reports and budget checks)
+  try {
+    recordCompletedTaskUsage(cwd, sanitized, config, allTasks);
+  } catch (err) {
+    process.stderr.write(`[team/runtime-v2] usage recording failed: ${err}\n`);
+  }
+
   const taskById = new Map(allTasks.map((task) => [task.id, task] as const));
   const inProgressByOwner = new Map<string, TeamTask[]>();
   for (const task of allTasks) {
@@ -1054,6 +1098,116 @@ export async function resumeTeamV2(
   }
 }
 
+// ---------------------------------------------------------------------------
+// recoverTeam — reconcile crashed state, respawn missing workers
+// ---------------------------------------------------------------------------
+
+export interface TeamRecoveryResultV2 extends TeamRecoveryReport {
+  /** Set when the leader session was recreated */
+  newSessionName?: string;
+  respawned: Array<{ workerName: string; taskId: string; paneId: string | null; startupFailureReason?: string }>;
+}
+
+/**
+ * Resume a team whose leader session died. Reconciles persisted state (see
+ * team-recovery.ts), recreates the tmux session when it is gone, and respawns
+ * missing workers onto ready pending tasks, continuing from the inferred
+ * phase. Terminal phases are reconciled but nothing is respawned.
+ */
+export async function recoverTeamV2(
+  teamName: string,
+  cwd: string,
+  options: { dryRun?: boolean; deps?: TeamRecoveryDeps } = {},
+): Promise<TeamRecoveryResultV2 | null> {
+  const sanitized = sanitizeTeamName(teamName);
+  const leaderCwd = resolve(cwd);
+  const report = await reconcileTeamState(sanitized, leaderCwd, options);
+  if (!report) return null;
+
+  const result: TeamRecoveryResultV2 = { ...report, respawned: [] };
+  if (report.dryRun || isTerminalPhase(report.phase) || report.missingWorkers.length === 0) {
+    return result;
+  }
+
+  const config = await readTeamConfig(sanitized, leaderCwd);
+  if (!config) return result;
+
+  // Ready = pending with every dependency completed; critical-path tasks first
+  const tasks = await listTasksFromFiles(sanitized, leaderCwd);
+  const statusById = new Map(tasks.map(t => [t.id, t.status] as const));
+  const readyTasks = prioritizeTasks(tasks).filter(t =>
+    t.status === 'pending' && getTaskDependencies(t).every(dep => statusById.get(dep) === 'completed'),
+  );
+  if (readyTasks.length === 0) return result;
+
+  let sessionName = report.sessionName;
+  let leaderPaneId = config.leader_pane_id ?? '';
+  if (!report.sessionAlive || !leaderPaneId) {
+    const session = await createTeamSession(sanitized, 0, leaderCwd);
+    sessionName = session.sessionName;
+    leaderPaneId = session.leaderPaneId;
+    config.tmux_session = sessionName;
+    config.leader_pane_id = leaderPaneId;
+    result.newSessionName = sessionName;
+  }
+
+  const missing = new Set(report.missingWorkers);
+  const workerPaneIds = config.workers
+    .filter(w => !missing.has(w.name) && w.pane_id)
+    .map(w => w.pane_id as string);
+  const resolvedBinaryPaths: Partial<Record<CliAgentType, string>> = {};
+
+  for (const worker of config.workers) {
+    if (!missing.has(worker.name)) continue;
+    worker.pane_id = undefined;
+    worker.assigned_tasks = [];
+
+    const task = readyTasks.shift();
+    if (!task) continue;
+
+    const agentType = (worker.role || config.agent_type || 'claude') as CliAgentType;
+    resolvedBinaryPaths[agentType] ??= resolveValidatedBinaryPath(agentType);
+    // A respawned worker starts a fresh Claude session
+    worker.session_id = agentType === 'claude' ? randomUUID() : undefined;
+
+    const launch = await spawnV2Worker({
+      sessionName,
+      leaderPaneId,
+      existingWorkerPaneIds: workerPaneIds,
+      teamName: sanitized,
+      workerName: worker.name,
+      workerIndex: worker.index - 1,
+      agentType,
+      task: { subject: task.subject, description: task.description },
+      taskId: task.id,
+      cwd: leaderCwd,
+      resolvedBinaryPaths,
+      sessionId: worker.session_id,
+    });
+
+    if (launch.paneId) {
+      workerPaneIds.push(launch.paneId);
+      worker.pane_id = launch.paneId;
+      worker.assigned_tasks = launch.startupAssigned ? [task.id] : [];
+    }
+    result.respawned.push({
+      workerName: worker.name,
+      taskId: task.id,
+      paneId: launch.paneId,
+      ...(launch.startupFailureReason ? { startupFailureReason: launch.startupFailureReason } : {}),
+    });
+  }
+
+  await saveTeamConfig(config, leaderCwd);
+  await appendTeamEvent(sanitized, {
+    type: 'team_leader_nudge',
+    worker: 'leader-fixed',
+    reason: `resume_team_v2: respawned=${result.respawned.length} phase=${report.phase}${result.newSessionName ? ' new_session' : ''}`,
+  }, leaderCwd).catch(() => {});
+
+  return result;
+}
+
 // ---------------------------------------------------------------------------
 // findActiveTeams — discover running teams
 // ---------------------------------------------------------------------------
@@ -0,0 +1,371 @@
+/**
+ * Autoscaling policy for team mode — Phase 2: Policy-driven Scaling.
+ *
+ * Watches queue depth (ready pending tasks), worker idle time (heartbeat.ts
+ * and worker status files) and quarantine state (worker-health.ts), then
+ * scales up or drains workers within min/max bounds and an hourly cost budget.
+ *
+ * Split into:
+ * - evaluateAutoscalePolicy(): pure decision function (easy to test)
+ * - collectAutoscaleSnapshot(): reads team state from disk
+ * - runAutoscaleCycle(): one observe → decide → act pass via scaleUp/scaleDown
+ *
+ * Applying decisions uses the manual scaling primitives, so it is gated
+ * behind OMC_TEAM_SCALING_ENABLED as well.
+ */
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import {
+  teamReadConfig,
+  teamListTasks,
+  teamReadWorkerStatus,
+  teamAppendEvent,
+  writeAtomic,
+  type WorkerStatus,
+} from './team-ops.js';
+import { readHeartbeat, getWorkerIdleMs } from './heartbeat.js';
+import { listQuarantinedWorkers } from './worker-health.js';
+import { getTaskDependencies } from './task-scheduler.js';
+import { sanitizeName } from './tmux-session.js';
+import { TeamPaths, absPath } from './state-paths.js';
+import { isScalingEnabled, scaleUp, scaleDown, type ScaleUpResult, type ScaleDownResult, type ScaleError } from './scaling.js';
+import { loadConfig } from '../config/loader.js';
+import type { TeamAutoscaleConfig } from '../shared/types.js';
+
+// ── Policy ────────────────────────────────────────────────────────────────────
+
+export interface AutoscalePolicy {
+  /** Never drain below this many healthy workers. */
+  minWorkers: number;
+  /** Never grow beyond this many workers (also capped by the team's max_workers). */
+  maxWorkers: number;
+  /** Target number of ready tasks per healthy worker before adding capacity. */
+  tasksPerWorker: number;
+  /** Maximum workers added in a single cycle. */
+  scaleUpStep: number;
+  /** Drain a worker once it has been idle this long with no ready work. */
+  idleDrainAfterMs: number;
+  /** Minimum time between two scaling actions. */
+  cooldownMs: number;
+  /** Estimated cost of one running worker per hour (USD). */
+  workerHourlyCostUsd?: number;
+  /** Hourly budget for the whole team (USD). Requires workerHourlyCostUsd. */
+  maxHourlyCostUsd?: number;
+}
+
+export const DEFAULT_AUTOSCALE_POLICY: AutoscalePolicy = {
+  minWorkers: 1,
+  maxWorkers: 20,
+  tasksPerWorker: 2,
+  scaleUpStep: 2,
+  idleDrainAfterMs: 5 * 60_000,
+  cooldownMs: 60_000,
+};
+
+/**
+ * Merge a partial policy with defaults and normalize bounds.
+ * `teamMaxWorkers` (config.max_workers) is a hard ceiling.
+ */
+export function resolveAutoscalePolicy(
+  overrides: Partial<AutoscalePolicy> = {},
+  teamMaxWorkers?: number,
+): AutoscalePolicy {
+  const policy = { ...DEFAULT_AUTOSCALE_POLICY, ...overrides };
+  const ceiling = teamMaxWorkers ?? policy.maxWorkers;
+  policy.maxWorkers = Math.max(1, Math.min(Math.floor(policy.maxWorkers), ceiling));
+  policy.minWorkers = Math.max(1, Math.min(Math.floor(policy.minWorkers), policy.maxWorkers));
+  policy.tasksPerWorker = Math.max(1, policy.tasksPerWorker);
+  policy.scaleUpStep = Math.max(1, Math.floor(policy.scaleUpStep));
+  return policy;
+}
+
+/**
+ * Per-team autoscale request from the CLI or MCP start call: policy
+ * overrides, true for the configured policy, or false to opt out.
+ */
+export type AutoscaleRequest = boolean | Partial<AutoscalePolicy>;
+
+const AUTOSCALE_POLICY_KEYS: ReadonlyArray<keyof AutoscalePolicy> = [
+  'minWorkers', 'maxWorkers', 'tasksPerWorker', 'scaleUpStep', 'idleDrainAfterMs', 'cooldownMs',
+  'workerHourlyCostUsd', 'maxHourlyCostUsd',
+];
+
+/** Numeric policy fields of a config or request object; anything else is dropped. */
+function pickPolicyFields(raw: object | undefined): Partial<AutoscalePolicy> {
+  const picked: Partial<AutoscalePolicy> = {};
+  for (const key of AUTOSCALE_POLICY_KEYS) {
+    const value = (raw as Record<string, unknown> | undefined)?.[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) picked[key] = value;
+  }
+  return picked;
+}
+
+function loadTeamAutoscaleConfig(): TeamAutoscaleConfig | undefined {
+  try {
+    return loadConfig().teamAutoscale;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decide whether a team autoscales, and with which policy overrides.
+ * An explicit request wins over `teamAutoscale.enabled` in config; the
+ * configured policy fields apply either way, overridden by the request.
+ * Returns null when autoscaling is off.
+ */
+export function resolveAutoscaleRequest(
+  request: AutoscaleRequest | undefined,
+  configured: TeamAutoscaleConfig | undefined = loadTeamAutoscaleConfig(),
+): Partial<AutoscalePolicy> | null {
+  if (request === false) return null;
+  if (request === undefined && !configured?.enabled) return null;
+  const base = pickPolicyFields(configured);
+  return typeof request === 'object' && request !== null ? { ...base, ...pickPolicyFields(request) } : base;
+}
+
+// ── Snapshot & decision ───────────────────────────────────────────────────────
+
+export interface AutoscaleWorkerSnapshot {
+  name: string;
+  state: WorkerStatus['state'];
+  /** Milliseconds idle, or null if busy / unknown. */
+  idleMs: number | null;
+  quarantined: boolean;
+}
+
+export interface AutoscaleSnapshot {
+  /** Unclaimed pending tasks whose dependencies are all completed. */
+  readyTasks: number;
+  inProgressTasks: number;
+  workers: AutoscaleWorkerSnapshot[];
+  /** Epoch ms of the last scaling action, if any. */
+  lastActionAt?: number;
+  now: number;
+}
+
+export type AutoscaleDecision =
+  | { action: 'none'; reason: string }
+  | { action: 'scale_up'; count: number; reason: string }
+  | { action: 'scale_down'; workerNames: string[]; reason: string };
+
+/** Workers the budget allows in total, or Infinity when no budget is set. */
+function budgetWorkerLimit(policy: AutoscalePolicy): number {
+  if (policy.maxHourlyCostUsd === undefined || !policy.workerHourlyCostUsd || policy.workerHourlyCostUsd <= 0) {
+    return Infinity;
+  }
+  return Math.floor(policy.maxHourlyCostUsd / policy.workerHourlyCostUsd);
+}
+
+/**
+ * Decide the next scaling action. Pure function.
+ *
+ * Order of precedence:
+ * 1. Cooldown — no action shortly after the previous one
+ * 2. Replace quarantined workers — drain them first (they hold no capacity)
+ * 3. Scale up — when ready work exceeds healthy capacity, within max and budget
+ * 4. Drain — long-idle workers beyond the desired count, never below min
+ */
+export function evaluateAutoscalePolicy(
+  snapshot: AutoscaleSnapshot,
+  policy: AutoscalePolicy,
+): AutoscaleDecision {
+  if (snapshot.lastActionAt !== undefined && snapshot.now - snapshot.lastActionAt < policy.cooldownMs) {
+    return { action: 'none', reason: 'cooldown' };
+  }
+
+  const total = snapshot.workers.length;
+  const quarantined = snapshot.workers.filter(w => w.quarantined);
+  if (quarantined.length > 0 && total > 1) {
+    // scaleDown always keeps at least one worker
+    const workerNames = quarantined.slice(0, total - 1).map(w => w.name);
+    return {
+      action: 'scale_down',
+      workerNames,
+      reason: `draining quarantined worker(s): ${workerNames.join(', ')}`,
+    };
+  }
+
+  const healthy = snapshot.workers.filter(w => !w.quarantined);
+  const demand = snapshot.readyTasks + snapshot.inProgressTasks;
+  const desired = Math.min(
+    policy.maxWorkers,
+    Math.max(policy.minWorkers, Math.ceil(demand / policy.tasksPerWorker)),
+  );
+
+  if (healthy.length < desired && snapshot.readyTasks > 0) {
+    const ceiling = Math.min(policy.maxWorkers, budgetWorkerLimit(policy));
+    const count = Math.min(desired - healthy.length, policy.scaleUpStep, ceiling - total);
+    if (count <= 0) {
+      return {
+        action: 'none',
+        reason: ceiling < policy.maxWorkers
+          ? `cost budget allows at most ${ceiling} worker(s)`
+          : `at max_workers (${policy.maxWorkers})`,
+      };
+    }
+    return {
+      action: 'scale_up',
+      count,
+      reason: `${snapshot.readyTasks} ready task(s) for ${healthy.length} healthy worker(s) (target ${desired})`,
+    };
+  }
+
+  if (healthy.length > desired) {
+    const removable = Math.min(healthy.length - desired, healthy.length - policy.minWorkers);
+    const idleCandidates = healthy
+      .filter(w => w.idleMs !== null && w.idleMs >= policy.idleDrainAfterMs)
+      .sort((a, b) => (b.idleMs ?? 0) - (a.idleMs ?? 0))
+      .slice(0, Math.max(0, removable));
+    if (idleCandidates.length > 0) {
+      const workerNames = idleCandidates.map(w => w.name);
+      return {
+        action: 'scale_down',
+        workerNames,
+        reason: `idle beyond ${Math.round(policy.idleDrainAfterMs / 1000)}s: ${workerNames.join(', ')} (target ${desired})`,
+      };
+    }
+  }
+
+  return { action: 'none', reason: `steady at ${healthy.length} healthy worker(s) (target ${desired})` };
+}
+
+// ── State collection ──────────────────────────────────────────────────────────
+
+const IDLE_STATES: ReadonlySet<WorkerStatus['state']> = new Set(['idle', 'done']);
+
+/**
+ * Idle time from the worker status file, falling back to the bridge heartbeat.
+ */
+function resolveIdleMs(
+  status: WorkerStatus,
+  heartbeatIdleMs: number | null,
+  now: number,
+): number | null {
+  if (IDLE_STATES.has(status.state)) {
+    const since = new Date(status.updated_at).getTime();
+    if (!isNaN(since)) return Math.max(0, now - since);
+  }
+  if (status.state === 'unknown') return heartbeatIdleMs;
+  return null;
+}
+
+/**
+ * Read everything the policy needs from team state on disk.
+ * Returns null when the team does not exist.
+ */
+export async function collectAutoscaleSnapshot(
+  teamName: string,
+  cwd: string,
+  now: number = Date.now(),
+): Promise<AutoscaleSnapshot | null> {
+  const sanitized = sanitizeName(teamName);
+  const leaderCwd = resolve(cwd);
+  const config = await teamReadConfig(sanitized, leaderCwd);
+  if (!config) return null;
+
+  const tasks = await teamListTasks(sanitized, leaderCwd);
+  const completed = new Set(tasks.filter(t => t.status === 'completed').map(t => t.id));
+  const readyTasks = tasks.filter(t =>
+    t.status === 'pending' && !t.owner && getTaskDependencies(t).every(dep => completed.has(dep)),
+  ).length;
+  const inProgressTasks = tasks.filter(t => t.status === 'in_progress').length;
+
+  const workerNames = config.workers.map(w => w.name);
+  const quarantined = new Set(listQuarantinedWorkers(sanitized, workerNames, leaderCwd));
+  const workers = await Promise.all(workerNames.map(async (name): Promise<AutoscaleWorkerSnapshot> => {
+    const status = await teamReadWorkerStatus(sanitized, name, leaderCwd);
+    const heartbeatIdleMs = getWorkerIdleMs(readHeartbeat(leaderCwd, sanitized, name), now);
+    return {
+      name,
+      state: status.state,
+      idleMs: resolveIdleMs(status, heartbeatIdleMs, now),
+      quarantined: quarantined.has(name),
+    };
+  }));
+
+  const state = await readAutoscaleState(sanitized, leaderCwd);
+  return {
+    readyTasks,
+    inProgressTasks,
+    workers,
+    lastActionAt: state?.last_action_at ? new Date(state.last_action_at).getTime() : undefined,
+    now,
+  };
+}
+
+interface AutoscaleState {
+  last_action_at: string;
+  last_action: AutoscaleDecision['action'];
+  reason: string;
+}
+
+async function readAutoscaleState(teamName: string, cwd: string): Promise<AutoscaleState | null> {
+  try {
+    return JSON.parse(await readFile(absPath(cwd, TeamPaths.autoscaleState(teamName)), 'utf-8')) as AutoscaleState;
+  } catch {
+    return null;
+  }
+}
+
+async function writeAutoscaleState(teamName: string, cwd: string, state: AutoscaleState): Promise<void> {
+  await writeAtomic(absPath(cwd, TeamPaths.autoscaleState(teamName)), JSON.stringify(state, null, 2));
+}
+
+// ── Cycle ─────────────────────────────────────────────────────────────────────
+
+export interface AutoscaleCycleResult {
+  decision: AutoscaleDecision;
+  /** Result of the scaling call, when an action was attempted. */
+  result?: ScaleUpResult | ScaleDownResult | ScaleError;
+}
+
+/**
+ * Run one observe → decide → act pass.
+ *
+ * Intended to be called from the leader's monitor loop. Returns a 'none'
+ * decision (without touching tmux) when scaling is disabled or the team
+ * is missing.
+ */
+export async function runAutoscaleCycle(
+  teamName: string,
+  cwd: string,
+  overrides: Partial<AutoscalePolicy> = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<AutoscaleCycleResult> {
+  if (!isScalingEnabled(env)) {
+    return { decision: { action: 'none', reason: 'scaling disabled' } };
+  }
+
+  const sanitized = sanitizeName(teamName);
+  const leaderCwd = resolve(cwd);
+  const config = await teamReadConfig(sanitized, leaderCwd);
+  const snapshot = config ? await collectAutoscaleSnapshot(sanitized, leaderCwd) : null;
+  if (!config || !snapshot) {
+    return { decision: { action: 'none', reason: `team ${sanitized} not found` } };
+  }
+
+  const policy = resolveAutoscalePolicy(overrides, config.max_workers);
+  const decision = evaluateAutoscalePolicy(snapshot, policy);
+  if (decision.action === 'none') return { decision };
+
+  const result = decision.action === 'scale_up'
+    ? await scaleUp(sanitized, decision.count, config.agent_type, [], leaderCwd, env)
+    : await scaleDown(sanitized, leaderCwd, { workerNames: decision.workerNames }, env);
+
+  if (result.ok) {
+    await writeAutoscaleState(sanitized, leaderCwd, {
+      last_action_at: new Date().toISOString(),
+      last_action: decision.action,
+      reason: decision.reason,
+    });
+    await teamAppendEvent(sanitized, {
+      type: 'team_leader_nudge',
+      worker: 'leader-fixed',
+      reason: `autoscale ${decision.action}: ${decision.reason}`,
+    }, leaderCwd);
+  }
+
+  return { decision, result };
+}
@@ -8,11 +8,14 @@
  * - Monotonic worker index counter (next_worker_index in config) ensures unique names
  * - File-based scaling lock prevents concurrent scale operations
  * - 'draining' worker status for graceful transitions during scale_down
+ *
+ * Policy-driven autoscaling on top of these primitives lives in scaling-policy.ts.
  */
 
 import { resolve } from 'path';
 import { mkdir } from 'fs/promises';
 import { execFileSync, spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
 import {
   teamReadConfig,
   teamWriteWorkerIdentity,
@@ -161,11 +164,13 @@ export async function scaleUp(
         OMC_TEAM_WORKER: `${sanitized}/${workerName}`,
       };
 
+      // Fixed session ID so usage can be read from the worker's transcript
+      const sessionId = randomUUID();
       const cmd = buildWorkerStartCommand({
         teamName: sanitized,
         workerName,
         envVars: extraEnv,
-        launchArgs: [],
+        launchArgs: ['--session-id', sessionId],
         launchBinary: 'claude',
         launchCmd: '',
         cwd: leaderCwd,
@@ -213,6 +218,7 @@ export async function scaleUp(
         assigned_tasks: [],
         pid: panePid,
         pane_id: paneId,
+        session_id: sessionId,
         working_dir: leaderCwd,
         team_state_root: teamStateRoot,
       };
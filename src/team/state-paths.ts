@@ -110,6 +110,12 @@ export const TeamPaths = {
   scalingLock: (teamName: string) =>
     `.omc/state/team/${teamName}/.scaling-lock`,
 
+  autoscaleState: (teamName: string) =>
+    `.omc/state/team/${teamName}/autoscale-state.json`,
+
+  budget: (teamName: string) =>
+    `.omc/state/team/${teamName}/budget.json`,
+
   workerIdentity: (teamName: string, workerName: string) =>
     `.omc/state/team/${teamName}/workers/${workerName}/identity.json`,
 
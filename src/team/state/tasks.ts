@@ -45,6 +45,8 @@ interface ClaimTaskDeps extends TaskReadDeps {
   isTerminalTaskStatus: (status: TeamTaskStatus) => boolean;
   taskFilePath: (teamName: string, taskId: string, cwd: string) => string;
   writeAtomic: (path: string, data: string) => Promise<void>;
+  /** When true, no new claims are granted (e.g. a budget ceiling was crossed). */
+  isDispatchPaused?: (teamName: string, cwd: string) => boolean;
 }
 
 export async function claimTask(
@@ -55,6 +57,7 @@ export async function claimTask(
 ): Promise<ClaimTaskResult> {
   const cfg = await deps.readTeamConfig(deps.teamName, deps.cwd);
   if (!cfg || !cfg.workers.some((w) => w.name === workerName)) return { ok: false, error: 'worker_not_found' };
+  if (deps.isDispatchPaused?.(deps.teamName, deps.cwd)) return { ok: false, error: 'budget_paused' };
 
   const existing = await deps.readTask(deps.teamName, taskId, deps.cwd);
   if (!existing) return { ok: false, error: 'task_not_found' };
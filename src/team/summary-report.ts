@@ -7,13 +7,18 @@
  * - Activity log
  * - Usage statistics
  * - Audit event history
+ * - Structured task results ({id}.result.json), verified mechanically
  */
 
 import { join } from 'node:path';
 import { writeFileWithMode, ensureDirWithMode, validateResolvedPath } from './fs-utils.js';
 import { getActivityLog, formatActivityTimeline } from './activity-log.js';
 import { generateUsageReport } from './usage-tracker.js';
+import { formatUsd } from './cost-accounting.js';
 import { readAuditLog } from './audit-log.js';
+import { listTaskIds, readTask, readTaskResult } from './task-file-ops.js';
+import { verifyTaskResult } from './task-result.js';
+import type { TaskFile } from './types.js';
 
 /**
  * Generate a markdown summary report for a team session.
@@ -72,14 +77,66 @@ export function generateTeamReport(
     lines.push('');
   }
 
+  // Structured results for completed tasks
+  const taskResults = listTaskIds(teamName, { cwd: workingDirectory })
+    .map(id => readTask(teamName, id, { cwd: workingDirectory }))
+    .filter((t): t is TaskFile => t !== null && t.status === 'completed' && !t.metadata?.permanentlyFailed)
+    .map(task => ({ taskId: task.id, result: readTaskResult(teamName, task.id, { cwd: workingDirectory }) }));
+  if (taskResults.length > 0) {
+    let verifiedCount = 0;
+    const rows: string[] = [];
+    for (const { taskId, result } of taskResults) {
+      if (!result) {
+        rows.push(`| ${taskId} | - | - | - | - | No (no result artifact) |`);
+        continue;
+      }
+      const { verified, problems } = verifyTaskResult(result);
+      if (verified) verifiedCount++;
+      const passed = result.testCommands.filter(r => r.exitCode === 0).length;
+      rows.push(`| ${taskId} | ${result.changedFiles.length} | ${result.commits.length} | ${passed}/${result.testCommands.length} passed | ${result.followUpTasks.length} | ${verified ? 'Yes' : `No (${problems.join('; ')})`} |`);
+    }
+    lines.push('## Task Verification');
+    lines.push(`- Verified: ${verifiedCount} of ${taskResults.length} completed task(s)`);
+    lines.push('');
+    lines.push('| Task | Files Changed | Commits | Checks | Follow-ups | Verified |');
+    lines.push('|------|---------------|---------|--------|------------|----------|');
+    lines.push(...rows);
+    lines.push('');
+
+    const followUps = taskResults.flatMap(({ taskId, result }) =>
+      (result?.followUpTasks ?? []).map(f => `- [${taskId}] ${f.subject}${f.description ? `: ${f.description}` : ''}`),
+    );
+    if (followUps.length > 0) {
+      lines.push('## Proposed Follow-ups');
+      lines.push(...followUps);
+      lines.push('');
+    }
+  }
+
   // Worker performance table
   if (usage.workers.length > 0) {
     lines.push('## Worker Performance');
-    lines.push('| Worker | Tasks | Wall-Clock Time | Prompt Chars | Response Chars |');
-    lines.push('|--------|-------|-----------------|--------------|----------------|');
+    lines.push('| Worker | Model | Tasks | Wall-Clock Time | Prompt Chars | Response Chars | Input Tokens | Output Tokens | Cost |');
+    lines.push('|--------|-------|-------|-----------------|--------------|----------------|--------------|---------------|------|');
     for (const w of usage.workers) {
       const timeStr = `${Math.round(w.totalWallClockMs / 1000)}s`;
-      lines.push(`| ${w.workerName} | ${w.taskCount} | ${timeStr} | ${w.totalPromptChars.toLocaleString()} | ${w.totalResponseChars.toLocaleString()} |`);
+      const inputTokens = w.totalInputTokens + w.totalCacheReadTokens + w.totalCacheWriteTokens;
+      const estimated = w.estimatedTaskCount > 0 ? '~' : '';
+      const cost = w.unpricedTaskCount === w.taskCount ? 'n/a' : `${estimated}${formatUsd(w.costUsd)}`;
+      lines.push(`| ${w.workerName} | ${w.model} | ${w.taskCount} | ${timeStr} | ${w.totalPromptChars.toLocaleString()} | ${w.totalResponseChars.toLocaleString()} | ${estimated}${inputTokens.toLocaleString()} | ${estimated}${w.totalOutputTokens.toLocaleString()} | ${cost} |`);
+    }
+    lines.push('');
+  }
+
+  // Per-task cost table
+  if (usage.tasks.length > 0) {
+    lines.push('## Task Costs');
+    lines.push('| Task | Worker | Model | Tokens (in/out) | Source | Cost |');
+    lines.push('|------|--------|-------|-----------------|--------|------|');
+    for (const t of usage.tasks) {
+      const inputTokens = t.tokens.inputTokens + t.tokens.cacheReadTokens + t.tokens.cacheWriteTokens;
+      const cost = t.costUsd === null ? 'n/a' : formatUsd(t.costUsd);
+      lines.push(`| ${t.taskId} | ${t.workerName} | ${t.model} | ${inputTokens.toLocaleString()}/${t.tokens.outputTokens.toLocaleString()} | ${t.tokens.source} | ${cost} |`);
     }
     lines.push('');
   }
@@ -94,6 +151,15 @@ export function generateTeamReport(
   lines.push('## Usage Totals');
   lines.push(`- Total wall-clock time: ${Math.round(usage.totalWallClockMs / 1000)}s`);
   lines.push(`- Total tasks: ${usage.taskCount}`);
+  lines.push(`- Total cost: ${formatUsd(usage.totalCostUsd)}`);
+  const estimatedTasks = usage.workers.reduce((sum, w) => sum + w.estimatedTaskCount, 0);
+  const unpricedTasks = usage.workers.reduce((sum, w) => sum + w.unpricedTaskCount, 0);
+  if (estimatedTasks > 0) {
+    lines.push(`- ${estimatedTasks} task(s) use token estimates from character counts (marked ~)`);
+  }
+  if (unpricedTasks > 0) {
+    lines.push(`- ${unpricedTasks} task(s) excluded from cost: no price for model (set costAccounting.prices)`);
+  }
   lines.push('');
 
   lines.push('---');
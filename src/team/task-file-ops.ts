@@ -19,10 +19,11 @@
 import { readFileSync, readdirSync, existsSync, openSync, closeSync, unlinkSync, writeSync, statSync, constants as fsConstants } from 'fs';
 import { join } from 'path';
 import { getClaudeConfigDir } from '../utils/paths.js';
-import type { TaskFile, TaskFileUpdate, TaskFailureSidecar } from './types.js';
+import type { TaskFile, TaskFileUpdate, TaskFailureSidecar, TaskResultArtifact } from './types.js';
 import { sanitizeName } from './tmux-session.js';
 import { atomicWriteJson, validateResolvedPath, ensureDirWithMode } from './fs-utils.js';
 import { getTaskStoragePath, getLegacyTaskStoragePath } from './state-paths.js';
+import { prioritizeTasks } from './task-scheduler.js';
 
 // ─── Lock-based atomic claiming ────────────────────────────────────────────
 
@@ -239,6 +240,10 @@ function failureSidecarPath(teamName: string, taskId: string, cwd?: string): str
   return join(canonicalTasksDir(teamName, cwd), `${sanitizeTaskId(taskId)}.failure.json`);
 }
 
+function resultSidecarPath(teamName: string, taskId: string, cwd?: string): string {
+  return join(canonicalTasksDir(teamName, cwd), `${sanitizeTaskId(taskId)}.result.json`);
+}
+
 // ─── Public API ────────────────────────────────────────────────────────────
 
 /** Read a single task file. Returns null if not found or malformed. */
@@ -253,6 +258,42 @@ export function readTask(teamName: string, taskId: string, opts?: { cwd?: string
   }
 }
 
+/**
+ * Create a new task file with the next free numeric ID.
+ * Returns the persisted task. Always writes to the canonical path.
+ */
+export function createTask(
+  teamName: string,
+  task: Omit<TaskFile, 'id'>,
+  opts?: { cwd?: string },
+): TaskFile {
+  const dir = canonicalTasksDir(teamName, opts?.cwd);
+  ensureDirWithMode(dir);
+  const numericIds = listTaskIds(teamName, opts)
+    .map(id => parseInt(id, 10))
+    .filter(n => !isNaN(n));
+  let next = numericIds.length > 0 ? Math.max(...numericIds) + 1 : 1;
+
+  // O_EXCL on the ID lock guards against two creators picking the same ID
+  for (;;) {
+    const id = String(next);
+    const handle = acquireTaskLock(teamName, id, { cwd: opts?.cwd });
+    if (handle) {
+      try {
+        const filePath = resolveTaskPathForWrite(teamName, id, opts?.cwd);
+        if (!existsSync(filePath)) {
+          const created: TaskFile = { ...task, id };
+          atomicWriteJson(filePath, created);
+          return created;
+        }
+      } finally {
+        releaseTaskLock(handle);
+      }
+    }
+    next++;
+  }
+}
+
 /**
  * Atomic update: reads full task JSON, patches specified fields, writes back.
  * Preserves unknown fields to avoid data loss.
@@ -322,7 +363,8 @@ export function updateTask(
  *   - owner === workerName
  *   - status === 'pending'
  *   - all blockedBy tasks have status 'completed'
- * Sorted by ID ascending.
+ * Candidates are tried in critical-path order (least slack, then longest
+ * remaining dependency chain), falling back to ID ascending on ties.
  *
  * Uses O_EXCL lock files for atomic claiming — no sleep/jitter needed.
  * The kernel guarantees only one worker can create the lock file.
@@ -331,12 +373,13 @@ export async function findNextTask(teamName: string, workerName: string, opts?:
   const dir = canonicalTasksDir(teamName, opts?.cwd);
   if (!existsSync(dir)) return null;
 
-  const taskIds = listTaskIds(teamName, opts);
+  const allTasks = listTaskIds(teamName, opts)
+    .map(id => readTask(teamName, id, opts))
+    .filter((t): t is TaskFile => t !== null);
 
-  for (const id of taskIds) {
+  for (const task of prioritizeTasks(allTasks)) {
+    const id = task.id;
     // Quick pre-check without lock (avoid lock overhead for obvious skips)
-    const task = readTask(teamName, id, opts);
-    if (!task) continue;
     if (task.status !== 'pending') continue;
     if (task.owner !== workerName) continue;
     if (!areBlockersResolved(teamName, task.blockedBy, opts)) continue;
@@ -424,6 +467,28 @@ export function readTaskFailure(teamName: string, taskId: string, opts?: { cwd?:
   }
 }
 
+/**
+ * Write the structured result sidecar for a task ({id}.result.json).
+ * Callers validate the artifact first (see task-result.ts).
+ */
+export function writeTaskResult(teamName: string, result: TaskResultArtifact, opts?: { cwd?: string }): TaskResultArtifact {
+  const sidecar: TaskResultArtifact = { ...result, recordedAt: result.recordedAt ?? new Date().toISOString() };
+  atomicWriteJson(resultSidecarPath(teamName, result.taskId, opts?.cwd), sidecar);
+  return sidecar;
+}
+
+/** Read result sidecar if it exists */
+export function readTaskResult(teamName: string, taskId: string, opts?: { cwd?: string }): TaskResultArtifact | null {
+  const filePath = resultSidecarPath(teamName, taskId, opts?.cwd);
+  if (!existsSync(filePath)) return null;
+  try {
+    const raw = readFileSync(filePath, 'utf-8');
+    return JSON.parse(raw) as TaskResultArtifact;
+  } catch {
+    return null;
+  }
+}
+
 /** Default maximum retries before a task is permanently failed */
 export const DEFAULT_MAX_TASK_RETRIES = 5;
 
@@ -446,7 +511,7 @@ export function listTaskIds(teamName: string, opts?: { cwd?: string }): string[]
     if (!existsSync(dir)) return [];
     try {
       return readdirSync(dir)
-        .filter(f => f.endsWith('.json') && !f.includes('.tmp.') && !f.includes('.failure.') && !f.endsWith('.lock'))
+        .filter(f => f.endsWith('.json') && !f.includes('.tmp.') && !f.includes('.failure.') && !f.includes('.result.') && !f.endsWith('.lock'))
         .map(f => f.replace('.json', ''));
     } catch {
       return [];
@@ -0,0 +1,190 @@
+// src/team/task-result.ts
+
+/**
+ * Structured task result artifacts.
+ *
+ * Instead of trusting a free-text summary, workers end their output with a
+ * fenced JSON block describing what they did:
+ *
+ *   ```omc-task-result
+ *   { "changedFiles": ["src/a.ts"], "commits": ["abc1234"],
+ *     "testCommands": [{ "command": "npm test", "exitCode": 0 }],
+ *     "followUpTasks": [{ "subject": "Add docs" }] }
+ *   ```
+ *
+ * The bridge extracts the block and attaches it to the task_complete outbox
+ * message; outbox-reader validates it on ingestion and stores it as a
+ * sidecar next to the task file, where the lead and summary-report can
+ * verify completion mechanically.
+ */
+
+import type { TaskResultArtifact, TaskTestRun, TaskFollowUp } from './types.js';
+
+/** Info string of the fenced block workers emit */
+export const TASK_RESULT_FENCE = 'omc-task-result';
+
+const MAX_LIST_ITEMS = 500;
+const MAX_STRING_LENGTH = 2000;
+const COMMIT_SHA_RE = /^[0-9a-f]{7,40}$/i;
+
+export type TaskResultValidation =
+  | { ok: true; result: TaskResultArtifact }
+  | { ok: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_STRING_LENGTH;
+}
+
+function validateList<T>(
+  raw: unknown,
+  field: string,
+  errors: string[],
+  item: (value: unknown, path: string) => T | null,
+): T[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+  if (raw.length > MAX_LIST_ITEMS) {
+    errors.push(`${field} has more than ${MAX_LIST_ITEMS} entries`);
+    return [];
+  }
+  const out: T[] = [];
+  raw.forEach((value, i) => {
+    const parsed = item(value, `${field}[${i}]`);
+    if (parsed !== null) out.push(parsed);
+  });
+  return out;
+}
+
+/**
+ * Validate an untrusted result artifact. Lists default to empty; the taskId
+ * must match `expectedTaskId` when both are present.
+ */
+export function validateTaskResult(raw: unknown, expectedTaskId?: string): TaskResultValidation {
+  if (!isRecord(raw)) return { ok: false, errors: ['result must be an object'] };
+  const errors: string[] = [];
+
+  const taskId = raw.taskId ?? expectedTaskId;
+  if (!validString(taskId)) {
+    errors.push('taskId must be a non-empty string');
+  } else if (expectedTaskId !== undefined && taskId !== expectedTaskId) {
+    errors.push(`taskId "${taskId}" does not match task "${expectedTaskId}"`);
+  }
+
+  const changedFiles = validateList(raw.changedFiles, 'changedFiles', errors, (value, path) => {
+    if (!validString(value)) { errors.push(`${path} must be a non-empty string`); return null; }
+    if (value.startsWith('/') || value.split(/[\\/]/).includes('..')) {
+      errors.push(`${path} must be a path relative to the working directory`);
+      return null;
+    }
+    return value;
+  });
+
+  const commits = validateList(raw.commits, 'commits', errors, (value, path) => {
+    if (typeof value !== 'string' || !COMMIT_SHA_RE.test(value)) {
+      errors.push(`${path} must be a commit SHA`);
+      return null;
+    }
+    return value;
+  });
+
+  const testCommands = validateList<TaskTestRun>(raw.testCommands, 'testCommands', errors, (value, path) => {
+    if (!isRecord(value) || !validString(value.command)) {
+      errors.push(`${path}.command must be a non-empty string`);
+      return null;
+    }
+    if (typeof value.exitCode !== 'number' || !Number.isInteger(value.exitCode)) {
+      errors.push(`${path}.exitCode must be an integer`);
+      return null;
+    }
+    return { command: value.command, exitCode: value.exitCode };
+  });
+
+  const followUpTasks = validateList<TaskFollowUp>(raw.followUpTasks, 'followUpTasks', errors, (value, path) => {
+    if (!isRecord(value) || !validString(value.subject)) {
+      errors.push(`${path}.subject must be a non-empty string`);
+      return null;
+    }
+    if (value.description !== undefined && typeof value.description !== 'string') {
+      errors.push(`${path}.description must be a string`);
+      return null;
+    }
+    return {
+      subject: value.subject,
+      ...(value.description ? { description: value.description } : {}),
+    };
+  });
+
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    result: {
+      taskId: taskId as string,
+      changedFiles,
+      commits,
+      testCommands,
+      followUpTasks,
+      ...(typeof raw.notes === 'string' && raw.notes ? { notes: raw.notes.slice(0, MAX_STRING_LENGTH) } : {}),
+      ...(typeof raw.recordedAt === 'string' ? { recordedAt: raw.recordedAt } : {}),
+    },
+  };
+}
+
+/**
+ * Extract the last ```omc-task-result block from worker output.
+ * Returns `{ result: null, errors: [] }` when the worker emitted none.
+ */
+export function extractTaskResult(
+  output: string,
+  taskId: string,
+): { result: TaskResultArtifact | null; errors: string[] } {
+  const fence = new RegExp('```' + TASK_RESULT_FENCE + '[^\\n]*\\n([\\s\\S]*?)```', 'g');
+  let body: string | null = null;
+  for (const match of output.matchAll(fence)) body = match[1];
+  if (body === null) return { result: null, errors: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch (err) {
+    return { result: null, errors: [`result block is not valid JSON: ${(err as Error).message}`] };
+  }
+  const validation = validateTaskResult(parsed, taskId);
+  return validation.ok
+    ? { result: validation.result, errors: [] }
+    : { result: null, errors: validation.errors };
+}
+
+/** Prompt lines asking the worker to emit a result block. */
+export function formatTaskResultInstructions(): string {
+  return [
+    `End your output with a fenced \`${TASK_RESULT_FENCE}\` JSON block:`,
+    '```' + TASK_RESULT_FENCE,
+    '{"changedFiles": ["relative/path.ts"], "commits": ["<sha>"], "testCommands": [{"command": "npm test", "exitCode": 0}], "followUpTasks": [{"subject": "...", "description": "..."}], "notes": "..."}',
+    '```',
+    'List every file you changed, every commit you made and every verification command you ran with its real exit code.',
+  ].join('\n');
+}
+
+/**
+ * Mechanical completion check: the task is verified when every recorded
+ * verification command exited 0 and at least one was run.
+ */
+export function verifyTaskResult(result: TaskResultArtifact): { verified: boolean; problems: string[] } {
+  const problems: string[] = [];
+  if (result.testCommands.length === 0) problems.push('no verification commands recorded');
+  for (const run of result.testCommands) {
+    if (run.exitCode !== 0) problems.push(`\`${run.command}\` exited ${run.exitCode}`);
+  }
+  return { verified: problems.length === 0, problems };
+}
@@ -7,11 +7,15 @@
  * - Capability fitness scoring
  * - Worker availability (not dead, not quarantined)
  * - Current load (prefer idle workers)
+ *
+ * Tasks are routed in critical-path order so that zero-slack, longest-chain
+ * tasks get first pick of the best-fit workers.
  */
 
 import type { TaskFile, WorkerCapability, WorkerBackend } from './types.js';
 import { getTeamMembers } from './unified-team.js';
 import { scoreWorkerFitness } from './capabilities.js';
+import { computeCriticalPath, prioritizeTasks, type CriticalPathAnalysis } from './task-scheduler.js';
 
 export interface TaskRoutingDecision {
   taskId: string;
@@ -19,6 +23,7 @@ export interface TaskRoutingDecision {
   backend: WorkerBackend;
   reason: string;
   confidence: number; // 0-1
+  onCriticalPath?: boolean;
 }
 
 /**
@@ -29,13 +34,16 @@ export interface TaskRoutingDecision {
  * @param workingDirectory - Working directory for team data
  * @param unassignedTasks - Tasks without an owner
  * @param requiredCapabilities - Optional map of taskId -> required capabilities
+ * @param graphTasks - Optional full task list used for critical-path analysis
+ *   (defaults to unassignedTasks)
  * @returns Array of routing decisions
  */
 export function routeTasks(
   teamName: string,
   workingDirectory: string,
   unassignedTasks: TaskFile[],
-  requiredCapabilities?: Record<string, WorkerCapability[]>
+  requiredCapabilities?: Record<string, WorkerCapability[]>,
+  graphTasks?: TaskFile[]
 ): TaskRoutingDecision[] {
   if (unassignedTasks.length === 0) return [];
 
@@ -56,7 +64,21 @@ export function routeTasks(
     assignmentCounts.set(m.name, m.currentTaskId ? 1 : 0);
   }
 
-  for (const task of unassignedTasks) {
+  // Rank by slack / remaining chain over the whole graph, not just the unassigned subset
+  const graph = graphTasks ?? unassignedTasks;
+  let analysis: CriticalPathAnalysis | null = null;
+  try {
+    analysis = computeCriticalPath(graph);
+  } catch {
+    // Cyclic graph — keep caller order
+  }
+  const rank = new Map(prioritizeTasks(graph).map((t, i) => [t.id, i]));
+  const position = (id: string) => rank.get(id) ?? rank.size;
+  const orderedTasks = analysis
+    ? [...unassignedTasks].sort((a, b) => position(a.id) - position(b.id))
+    : unassignedTasks;
+
+  for (const task of orderedTasks) {
     const caps = requiredCapabilities?.[task.id] || ['general'];
 
     // Score each available worker
@@ -84,6 +106,7 @@ export function routeTasks(
         backend: best.worker.backend,
         reason: `Best fitness score (${best.fitnessScore.toFixed(2)}) for capabilities [${caps.join(', ')}]`,
         confidence: best.score,
+        onCriticalPath: analysis?.entries.get(task.id)?.slack === 0,
       });
 
       // Track the assignment
@@ -0,0 +1,281 @@
+// src/team/task-scheduler.ts
+
+/**
+ * Dependency-aware task scheduling for team task graphs.
+ *
+ * Treats the blockedBy / depends_on edges of a team's tasks as a DAG and
+ * provides:
+ * - Graph validation (cycles, dangling dependency references)
+ * - Critical-path analysis (earliest/latest start, slack, remaining chain)
+ * - A priority ordering that puts zero-slack, longest-chain tasks first
+ *
+ * Works with both v1 TaskFile (`blockedBy`) and v2 TeamTask
+ * (`depends_on` / `blocked_by`) shapes. All functions are pure.
+ */
+
+/** Minimal task shape the scheduler needs. */
+export interface SchedulableTask {
+  id: string;
+  status: string;
+  blockedBy?: string[];
+  depends_on?: string[];
+  blocked_by?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/** A dependency that points at a task ID not present in the graph. */
+export interface MissingTaskDependency {
+  taskId: string;
+  dependency: string;
+}
+
+export interface TaskGraphValidation {
+  valid: boolean;
+  /** Each cycle as an ordered list of task IDs; the first ID is repeated at the end. */
+  cycles: string[][];
+  missingDependencies: MissingTaskDependency[];
+}
+
+/** Per-task schedule computed by the critical path method. */
+export interface TaskScheduleEntry {
+  taskId: string;
+  duration: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  /** latestStart - earliestStart; 0 means the task is on the critical path. */
+  slack: number;
+  /** This task's duration plus the longest chain of work that depends on it. */
+  remainingChain: number;
+}
+
+export interface CriticalPathAnalysis {
+  entries: Map<string, TaskScheduleEntry>;
+  /** Task IDs along the longest dependency chain, in execution order. */
+  criticalPath: string[];
+  /** Length of the remaining schedule (sum of durations on the critical path). */
+  totalDuration: number;
+}
+
+/** Default relative duration for tasks without an estimate. */
+export const DEFAULT_TASK_DURATION = 1;
+
+/**
+ * Return the dependency IDs of a task, accepting either task shape.
+ * v1 `blockedBy` wins; v2 fields follow computeTaskReadiness precedence
+ * (depends_on, then blocked_by).
+ */
+export function getTaskDependencies(task: SchedulableTask): string[] {
+  return task.blockedBy ?? task.depends_on ?? task.blocked_by ?? [];
+}
+
+/**
+ * Estimated duration of a task in relative units.
+ * Reads `metadata.estimate` when it is a positive number; completed tasks
+ * contribute no remaining work.
+ */
+export function getTaskDuration(task: SchedulableTask): number {
+  if (task.status === 'completed') return 0;
+  const estimate = task.metadata?.estimate;
+  if (typeof estimate === 'number' && Number.isFinite(estimate) && estimate > 0) return estimate;
+  return DEFAULT_TASK_DURATION;
+}
+
+function compareTaskIds(a: string, b: string): number {
+  const numA = parseInt(a, 10);
+  const numB = parseInt(b, 10);
+  if (!isNaN(numA) && !isNaN(numB) && numA !== numB) return numA - numB;
+  return a.localeCompare(b);
+}
+
+/** Dependency edges restricted to tasks present in the graph, keyed by task ID. */
+function buildDependencyMap(tasks: SchedulableTask[]): Map<string, string[]> {
+  const ids = new Set(tasks.map(t => t.id));
+  const deps = new Map<string, string[]>();
+  for (const task of tasks) {
+    deps.set(task.id, [...new Set(getTaskDependencies(task))].filter(d => ids.has(d)));
+  }
+  return deps;
+}
+
+/**
+ * Find dependency cycles using a depth-first search with colour marking.
+ * Each reported cycle starts and ends with the same task ID.
+ */
+export function detectTaskCycles(tasks: SchedulableTask[]): string[][] {
+  const deps = buildDependencyMap(tasks);
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string): void => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of deps.get(id) ?? []) {
+      const depState = state.get(dep);
+      if (depState === 'visiting') {
+        const start = stack.indexOf(dep);
+        // Stack runs dependent -> dependency; reverse so the cycle reads in execution order
+        cycles.push([...stack.slice(start), dep].reverse());
+      } else if (depState === undefined) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of [...deps.keys()].sort(compareTaskIds)) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/** Validate a task graph: no cycles and every dependency refers to a known task. */
+export function validateTaskGraph(tasks: SchedulableTask[]): TaskGraphValidation {
+  const ids = new Set(tasks.map(t => t.id));
+  const missingDependencies: MissingTaskDependency[] = [];
+  for (const task of tasks) {
+    for (const dependency of getTaskDependencies(task)) {
+      if (dependency === task.id) continue; // reported as a cycle
+      if (!ids.has(dependency)) missingDependencies.push({ taskId: task.id, dependency });
+    }
+  }
+  const cycles = detectTaskCycles(tasks);
+  return {
+    valid: cycles.length === 0 && missingDependencies.length === 0,
+    cycles,
+    missingDependencies,
+  };
+}
+
+/** Human-readable summary of validation problems, or null if the graph is valid. */
+export function formatTaskGraphErrors(validation: TaskGraphValidation): string | null {
+  if (validation.valid) return null;
+  const parts: string[] = [];
+  for (const cycle of validation.cycles) {
+    parts.push(`dependency cycle: ${cycle.join(' -> ')}`);
+  }
+  for (const { taskId, dependency } of validation.missingDependencies) {
+    parts.push(`task ${taskId} depends on unknown task ${dependency}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Throw if the task graph contains a cycle or a dangling dependency.
+ * Intended for use when tasks are created or their dependencies change.
+ */
+export function assertValidTaskGraph(tasks: SchedulableTask[]): void {
+  const message = formatTaskGraphErrors(validateTaskGraph(tasks));
+  if (message) throw new Error(`Invalid task graph: ${message}`);
+}
+
+/**
+ * Compute the critical path over the remaining work in a task graph.
+ *
+ * Dependencies on unknown tasks are ignored here (see validateTaskGraph).
+ * Throws if the graph contains a cycle, since no schedule exists.
+ */
+export function computeCriticalPath(tasks: SchedulableTask[]): CriticalPathAnalysis {
+  const deps = buildDependencyMap(tasks);
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const dependents = new Map<string, string[]>();
+  const inDegree = new Map<string, number>();
+  for (const [id, taskDeps] of deps) {
+    inDegree.set(id, taskDeps.length);
+    for (const dep of taskDeps) {
+      const list = dependents.get(dep) ?? [];
+      list.push(id);
+      dependents.set(dep, list);
+    }
+  }
+
+  // Kahn's algorithm for a deterministic topological order
+  const order: string[] = [];
+  const ready = [...inDegree.entries()].filter(([, d]) => d === 0).map(([id]) => id).sort(compareTaskIds);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const next of dependents.get(id) ?? []) {
+      const remaining = (inDegree.get(next) ?? 0) - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) {
+        ready.push(next);
+        ready.sort(compareTaskIds);
+      }
+    }
+  }
+  if (order.length !== deps.size) {
+    const cycles = detectTaskCycles(tasks);
+    throw new Error(`Cannot schedule task graph: ${cycles.map(c => `dependency cycle: ${c.join(' -> ')}`).join('; ')}`);
+  }
+
+  // Forward pass: earliest start/finish
+  const entries = new Map<string, TaskScheduleEntry>();
+  let totalDuration = 0;
+  for (const id of order) {
+    const duration = getTaskDuration(byId.get(id)!);
+    const earliestStart = Math.max(0, ...(deps.get(id) ?? []).map(d => entries.get(d)!.earliestFinish));
+    const earliestFinish = earliestStart + duration;
+    totalDuration = Math.max(totalDuration, earliestFinish);
+    entries.set(id, {
+      taskId: id,
+      duration,
+      earliestStart,
+      earliestFinish,
+      latestStart: 0,
+      latestFinish: 0,
+      slack: 0,
+      remainingChain: 0,
+    });
+  }
+
+  // Backward pass: latest start/finish and slack
+  for (const id of [...order].reverse()) {
+    const entry = entries.get(id)!;
+    const successors = dependents.get(id) ?? [];
+    entry.latestFinish = Math.min(totalDuration, ...successors.map(s => entries.get(s)!.latestStart));
+    entry.latestStart = entry.latestFinish - entry.duration;
+    entry.slack = entry.latestStart - entry.earliestStart;
+    entry.remainingChain = entry.duration + Math.max(0, ...successors.map(s => entries.get(s)!.remainingChain));
+  }
+
+  // Walk the zero-slack chain from its longest root
+  const criticalPath: string[] = [];
+  const pickNext = (candidates: string[]): string | undefined =>
+    candidates
+      .filter(id => entries.get(id)!.slack === 0)
+      .sort((a, b) => entries.get(b)!.remainingChain - entries.get(a)!.remainingChain || compareTaskIds(a, b))[0];
+  let current = pickNext(order.filter(id => (deps.get(id) ?? []).length === 0));
+  while (current) {
+    criticalPath.push(current);
+    const finish = entries.get(current)!.earliestFinish;
+    current = pickNext((dependents.get(current) ?? []).filter(s => entries.get(s)!.earliestStart === finish));
+  }
+
+  return { entries, criticalPath, totalDuration };
+}
+
+/**
+ * Order tasks by scheduling priority: least slack first, then longest
+ * remaining chain, then task ID. Tasks with no dependencies and no
+ * estimates therefore keep ascending ID order.
+ *
+ * If the graph contains a cycle the input order is returned unchanged so
+ * callers degrade to their previous behaviour instead of failing.
+ */
+export function prioritizeTasks<T extends SchedulableTask>(tasks: T[]): T[] {
+  let analysis: CriticalPathAnalysis;
+  try {
+    analysis = computeCriticalPath(tasks);
+  } catch {
+    return [...tasks];
+  }
+  return [...tasks].sort((a, b) => {
+    const ea = analysis.entries.get(a.id)!;
+    const eb = analysis.entries.get(b.id)!;
+    return ea.slack - eb.slack || eb.remainingChain - ea.remainingChain || compareTaskIds(a.id, b.id);
+  });
+}
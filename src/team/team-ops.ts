@@ -52,6 +52,7 @@ import {
   listTasks as listTasksImpl,
   computeTaskReadiness as computeTaskReadinessImpl,
 } from './state/tasks.js';
+import { isTeamBudgetPaused } from './budget-guard.js';
 
 // Re-export types for consumers
 export type {
@@ -377,6 +378,7 @@ export async function teamClaimTask(
     isTerminalTaskStatus: isTerminalTeamTaskStatus,
     taskFilePath: (tn: string, tid: string, c: string) => canonicalTaskFilePath(tn, tid, c),
     writeAtomic,
+    isDispatchPaused: isTeamBudgetPaused,
   });
 }
 
@@ -0,0 +1,236 @@
+// src/team/team-recovery.ts
+
+/**
+ * Crash recovery for v2 teams.
+ *
+ * When the leader's tmux session dies (laptop sleep, SSH drop, terminal
+ * closed) the persisted team state outlives it: tasks stay `in_progress`
+ * with claims held by workers that no longer exist, dispatch requests wait
+ * for panes that are gone, and worktree metadata may point at directories
+ * that were removed.
+ *
+ * reconcileTeamState() inspects that state and repairs it so the team can be
+ * continued rather than restarted:
+ * - workers are alive if their pane is alive or their heartbeat pid is alive
+ * - in_progress tasks owned by dead workers (or claimed by a dead process)
+ *   are released back to `pending`
+ * - pending/notified dispatch requests addressed to dead workers are failed
+ * - worktrees from listTeamWorktrees() are checked for presence
+ * - the phase is re-inferred from the repaired task set and persisted
+ *
+ * Respawning workers is left to the runtime (runtime-v2 recoverTeamV2), which
+ * owns tmux pane creation.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { TeamPaths, absPath } from './state-paths.js';
+import {
+  readTeamConfig,
+  readWorkerHeartbeat,
+  readTeamPhaseState,
+  writeTeamPhaseState,
+  listTasksFromFiles,
+} from './monitor.js';
+import { appendTeamEvent } from './events.js';
+import { inferPhase, type TeamPhase } from './phase-controller.js';
+import { listTeamWorktrees } from './git-worktree.js';
+import { listDispatchRequests, transitionDispatchRequest } from './dispatch-queue.js';
+import { atomicWriteJson } from './fs-utils.js';
+import { isProcessAlive } from '../platform/process-utils.js';
+import type { TeamConfig, TeamTask } from './types.js';
+
+export interface TeamRecoveryDeps {
+  isPaneAlive: (paneId: string) => Promise<boolean>;
+  isSessionAlive: (sessionName: string) => Promise<boolean>;
+  isPidAlive: (pid: number) => boolean;
+}
+
+export type ReleasedClaimReason = 'owner_dead' | 'claim_pid_dead' | 'unowned';
+
+export interface ReleasedClaim {
+  taskId: string;
+  owner?: string;
+  reason: ReleasedClaimReason;
+}
+
+export interface TeamRecoveryReport {
+  teamName: string;
+  dryRun: boolean;
+  sessionName: string;
+  sessionAlive: boolean;
+  aliveWorkers: string[];
+  missingWorkers: string[];
+  releasedClaims: ReleasedClaim[];
+  failedDispatchRequests: string[];
+  worktrees: Array<{ workerName: string; path: string; present: boolean }>;
+  previousPhase: TeamPhase | null;
+  phase: TeamPhase;
+}
+
+async function defaultIsSessionAlive(sessionName: string): Promise<boolean> {
+  try {
+    const { execFile } = await import('child_process');
+    const { promisify } = await import('util');
+    await promisify(execFile)('tmux', ['has-session', '-t', sessionName.split(':')[0]]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function defaultIsPaneAlive(paneId: string): Promise<boolean> {
+  try {
+    const { isWorkerAlive } = await import('./tmux-session.js');
+    return await isWorkerAlive(paneId);
+  } catch {
+    return false;
+  }
+}
+
+const DEFAULT_DEPS: TeamRecoveryDeps = {
+  isPaneAlive: defaultIsPaneAlive,
+  isSessionAlive: defaultIsSessionAlive,
+  isPidAlive: isProcessAlive,
+};
+
+/** Liveness of every configured worker: pane alive, or heartbeat pid alive. */
+export async function detectLiveWorkers(
+  config: TeamConfig,
+  cwd: string,
+  deps: TeamRecoveryDeps = DEFAULT_DEPS,
+): Promise<Map<string, boolean>> {
+  const entries = await Promise.all(config.workers.map(async (worker) => {
+    if (worker.pane_id && await deps.isPaneAlive(worker.pane_id)) return [worker.name, true] as const;
+    const heartbeat = await readWorkerHeartbeat(config.name, worker.name, cwd);
+    const pidAlive = !!heartbeat && heartbeat.alive !== false
+      && Number.isInteger(heartbeat.pid) && deps.isPidAlive(heartbeat.pid);
+    return [worker.name, pidAlive] as const;
+  }));
+  return new Map(entries);
+}
+
+function orphanReason(
+  task: TeamTask & { claimPid?: number },
+  liveness: Map<string, boolean>,
+  deps: TeamRecoveryDeps,
+): ReleasedClaimReason | null {
+  const owner = task.owner ?? task.claim?.owner;
+  if (!owner) return 'unowned';
+  if (liveness.get(owner) !== true) return 'owner_dead';
+  if (typeof task.claimPid === 'number' && !deps.isPidAlive(task.claimPid)) return 'claim_pid_dead';
+  return null;
+}
+
+/** Reset an in_progress task file to pending and drop every claim field. */
+function releaseTaskClaim(teamName: string, taskId: string, cwd: string): boolean {
+  const taskPath = absPath(cwd, TeamPaths.taskFile(teamName, taskId));
+  if (!existsSync(taskPath)) return false;
+  try {
+    const data = JSON.parse(readFileSync(taskPath, 'utf-8')) as Record<string, unknown>;
+    if (data.status !== 'in_progress') return false;
+    data.status = 'pending';
+    for (const key of ['owner', 'claim', 'claimedBy', 'claimedAt', 'claimPid']) delete data[key];
+    if (typeof data.version === 'number') data.version += 1;
+    atomicWriteJson(taskPath, data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reconcile persisted team state after a crash. With `dryRun` nothing is
+ * written and the report describes what would change. Returns null when the
+ * team has no config.
+ */
+export async function reconcileTeamState(
+  teamName: string,
+  cwd: string,
+  options: { dryRun?: boolean; deps?: TeamRecoveryDeps } = {},
+): Promise<TeamRecoveryReport | null> {
+  const dryRun = options.dryRun === true;
+  const deps = options.deps ?? DEFAULT_DEPS;
+  const config = await readTeamConfig(teamName, cwd);
+  if (!config) return null;
+
+  const sessionName = config.tmux_session || `omc-team-${teamName}`;
+  const sessionAlive = await deps.isSessionAlive(sessionName);
+  const liveness = await detectLiveWorkers(config, cwd, deps);
+  const aliveWorkers = config.workers.filter(w => liveness.get(w.name)).map(w => w.name);
+  const missingWorkers = config.workers.filter(w => !liveness.get(w.name)).map(w => w.name);
+
+  // 1. Release orphaned claims
+  const tasks = await listTasksFromFiles(teamName, cwd);
+  const releasedClaims: ReleasedClaim[] = [];
+  for (const task of tasks) {
+    if (task.status !== 'in_progress') continue;
+    const reason = orphanReason(task, liveness, deps);
+    if (!reason) continue;
+    if (!dryRun && !releaseTaskClaim(teamName, task.id, cwd)) continue;
+    const owner = task.owner ?? task.claim?.owner;
+    releasedClaims.push({ taskId: task.id, ...(owner ? { owner } : {}), reason });
+    task.status = 'pending';
+  }
+
+  // 2. Fail undelivered dispatch requests addressed to dead workers
+  const failedDispatchRequests: string[] = [];
+  const missingSet = new Set(missingWorkers);
+  const requests = await listDispatchRequests(teamName, cwd).catch(() => []);
+  for (const request of requests) {
+    if (request.status !== 'pending' && request.status !== 'notified') continue;
+    if (!missingSet.has(request.to_worker)) continue;
+    if (!dryRun) {
+      const updated = await transitionDispatchRequest(
+        teamName, request.request_id, request.status, 'failed',
+        { last_reason: 'resume:worker_missing' }, cwd,
+      ).catch(() => null);
+      if (!updated) continue;
+    }
+    failedDispatchRequests.push(request.request_id);
+  }
+
+  // 3. Worktree presence
+  const worktrees = listTeamWorktrees(teamName, cwd).map(w => ({
+    workerName: w.workerName,
+    path: w.path,
+    present: existsSync(w.path),
+  }));
+
+  // 4. Re-infer and persist phase
+  const previousState = await readTeamPhaseState(teamName, cwd);
+  const previousPhase = previousState?.current_phase ?? null;
+  const phase = inferPhase(tasks.map(t => ({ status: t.status })));
+  if (!dryRun) {
+    const now = new Date().toISOString();
+    await writeTeamPhaseState(teamName, {
+      current_phase: phase,
+      max_fix_attempts: previousState?.max_fix_attempts ?? 3,
+      current_fix_attempt: previousState?.current_fix_attempt ?? 0,
+      transitions: [
+        ...(previousState?.transitions ?? []),
+        ...(previousPhase && previousPhase !== phase ? [{ from: previousPhase, to: phase, at: now, reason: 'resume' }] : []),
+      ],
+      updated_at: now,
+    }, cwd);
+
+    await appendTeamEvent(teamName, {
+      type: 'team_leader_nudge',
+      worker: 'leader-fixed',
+      reason: `resume_reconcile: released=${releasedClaims.length} missing_workers=${missingWorkers.length} dispatch_failed=${failedDispatchRequests.length} phase=${phase}`,
+    }, cwd).catch(() => {});
+  }
+
+  return {
+    teamName,
+    dryRun,
+    sessionName,
+    sessionAlive,
+    aliveWorkers,
+    missingWorkers,
+    releasedClaims,
+    failedDispatchRequests,
+    worktrees,
+    previousPhase,
+    phase,
+  };
+}
@@ -22,7 +22,9 @@ function emptyUsageReport(teamName: string): ReturnType<typeof generateUsageRepo
     teamName,
     totalWallClockMs: 0,
     taskCount: 0,
+    totalCostUsd: 0,
     workers: [],
+    tasks: [],
   };
 }
 
@@ -23,6 +23,7 @@ export interface BridgeConfig {
   maxRetries?: number;          // default: 5 — max task retry attempts
   permissionEnforcement?: 'off' | 'audit' | 'enforce'; // default: 'off'
   permissions?: BridgeWorkerPermissions;
+  requeueOnPermissionViolation?: boolean; // default: false — enforce mode re-queues with feedback while retries remain
 }
 
 /** Permission scoping embedded in BridgeConfig (mirrors WorkerPermissions shape) */
@@ -67,9 +68,41 @@ export interface OutboxMessage {
   message?: string;
   error?: string;
   requestId?: string;
+  /** Structured result for task_complete (validated on ingestion by outbox-reader) */
+  result?: TaskResultArtifact;
+  /** Validation errors for a result artifact that was rejected on ingestion */
+  resultErrors?: string[];
   timestamp: string;
 }
 
+/** A verification command a worker ran, with its exit code */
+export interface TaskTestRun {
+  command: string;
+  exitCode: number;
+}
+
+/** Follow-up work a worker proposes to the lead */
+export interface TaskFollowUp {
+  subject: string;
+  description?: string;
+}
+
+/**
+ * Typed result of a completed task. Workers emit it at the end of their
+ * output; it is stored as a sidecar ({id}.result.json) next to the task file.
+ */
+export interface TaskResultArtifact {
+  taskId: string;
+  /** Paths relative to the working directory */
+  changedFiles: string[];
+  /** Commit SHAs created for the task */
+  commits: string[];
+  testCommands: TaskTestRun[];
+  followUpTasks: TaskFollowUp[];
+  notes?: string;
+  recordedAt?: string;
+}
+
 /** Shutdown signal file content */
 export interface ShutdownSignal {
   requestId: string;
@@ -107,6 +140,7 @@ export interface HeartbeatData {
   currentTaskId?: string;   // task being executed, if any
   consecutiveErrors: number;
   status: 'ready' | 'polling' | 'executing' | 'shutdown' | 'quarantined';
+  idleSince?: string;       // ISO timestamp the worker last became idle (set by writeHeartbeat)
 }
 
 /** Offset cursor for JSONL consumption */
@@ -136,7 +170,10 @@ export interface TaskFailureSidecar {
 }
 
 /** Worker backend type */
-export type WorkerBackend = 'claude-native' | 'mcp-codex' | 'mcp-gemini' | 'tmux-claude' | 'tmux-codex' | 'tmux-gemini';
+export type WorkerBackend =
+  | 'claude-native' | 'mcp-codex' | 'mcp-gemini' | 'tmux-claude' | 'tmux-codex' | 'tmux-gemini'
+  /** tmux worker running a custom CLI contract (see cli-contract-registry.ts) */
+  | `tmux-${string}`;
 
 /** Worker capability tag */
 export type WorkerCapability =
@@ -246,6 +283,8 @@ export interface WorkerInfo {
   assigned_tasks: string[];
   pid?: number;
   pane_id?: string;
+  /** Claude session ID the worker was launched with (v2 claude workers) */
+  session_id?: string;
   working_dir?: string;
   worktree_path?: string;
   worktree_branch?: string;
@@ -374,7 +413,7 @@ export type TaskReadiness =
 /** Result of claiming a task */
 export type ClaimTaskResult =
   | { ok: true; task: TeamTaskV2; claimToken: string }
-  | { ok: false; error: 'claim_conflict' | 'blocked_dependency' | 'task_not_found' | 'already_terminal' | 'worker_not_found'; dependencies?: string[] };
+  | { ok: false; error: 'claim_conflict' | 'blocked_dependency' | 'task_not_found' | 'already_terminal' | 'worker_not_found' | 'budget_paused'; dependencies?: string[] };
 
 /** Result of transitioning a task status */
 export type TransitionTaskResult =
@@ -83,6 +83,7 @@ export function getTeamMembers(
       else if (worker.agentType === 'tmux-claude') backend = 'tmux-claude';
       else if (worker.agentType === 'tmux-codex') backend = 'tmux-codex';
       else if (worker.agentType === 'tmux-gemini') backend = 'tmux-gemini';
+      else if (worker.agentType.startsWith('tmux-')) backend = worker.agentType as WorkerBackend;
       else backend = 'mcp-codex';
       const capabilities = getDefaultCapabilities(backend);
 
@@ -3,44 +3,88 @@
 /**
  * Usage tracker for team sessions.
  *
- * Tracks wall-clock time and prompt/response character counts per task.
- * NOTE: Token counts are not available from Codex/Gemini CLI output.
- * Character counts serve as a rough proxy for usage estimation.
+ * Tracks wall-clock time, prompt/response character counts, token usage and
+ * estimated dollar cost per task. Tokens come from the CLI's own usage report
+ * when available (see cost-accounting.ts); otherwise they are estimated from
+ * character counts and flagged as such.
+ *
+ * The v1 MCP bridge records each task as it finishes; the v2 (tmux) runtime
+ * records completed tasks on every monitor snapshot (recordCompletedTaskUsage).
  *
  * Storage: append-only JSONL at .omc/logs/team-usage-{team}.jsonl
  */
 
-import { existsSync, readFileSync, statSync } from 'node:fs';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { join } from 'node:path';
+import { getBuiltinExternalDefaultModel } from '../config/models.js';
+import { getClaudeConfigDir } from '../utils/paths.js';
 import { appendFileWithMode, ensureDirWithMode, validateResolvedPath } from './fs-utils.js';
+import type { TeamConfig, TeamTask } from './types.js';
+import {
+  computeCostUsd,
+  estimateTokenUsage,
+  loadCostAccountingSettings,
+  parseClaudeModel,
+  parseClaudeUsage,
+  resolveModelPrice,
+  type CostAccountingSettings,
+  type TokenUsage,
+  type UsageProvider,
+} from './cost-accounting.js';
 
 export interface TaskUsageRecord {
   taskId: string;
   workerName: string;
-  provider: 'codex' | 'gemini';
+  provider: UsageProvider;
   model: string;
   startedAt: string;
   completedAt: string;
   wallClockMs: number;
   promptChars: number;
   responseChars: number;
+  /** Token usage; absent in records written before cost accounting existed */
+  tokens?: TokenUsage;
+  /** Cost at record time; absent when the model has no known price */
+  costUsd?: number;
+  /** Claude session the tokens were read from (v2 workers) */
+  sessionId?: string;
 }
 
 export interface WorkerUsageSummary {
   workerName: string;
-  provider: 'codex' | 'gemini';
+  provider: UsageProvider;
   model: string;
   taskCount: number;
   totalWallClockMs: number;
   totalPromptChars: number;
   totalResponseChars: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheWriteTokens: number;
+  /** Tasks whose tokens were estimated from character counts */
+  estimatedTaskCount: number;
+  /** Sum of priced task costs */
+  costUsd: number;
+  /** Tasks excluded from costUsd because the model has no price */
+  unpricedTaskCount: number;
+}
+
+export interface TaskCostSummary {
+  taskId: string;
+  workerName: string;
+  model: string;
+  tokens: TokenUsage;
+  costUsd: number | null;
 }
 
 export interface TeamUsageReport {
   teamName: string;
   totalWallClockMs: number;
   taskCount: number;
+  totalCostUsd: number;
   workers: WorkerUsageSummary[];
+  tasks: TaskCostSummary[];
 }
 
 function getUsageLogPath(workingDirectory: string, teamName: string): string {
@@ -62,6 +106,21 @@ export function recordTaskUsage(
   appendFileWithMode(logPath, JSON.stringify(record) + '\n');
 }
 
+/**
+ * Resolve tokens and cost for a task: reported usage when provided,
+ * otherwise an estimate from character counts.
+ */
+export function priceTaskUsage(
+  model: string,
+  chars: { promptChars: number; responseChars: number },
+  reported: TokenUsage | null | undefined,
+  settings: CostAccountingSettings = loadCostAccountingSettings(),
+): { tokens: TokenUsage; costUsd: number | null } {
+  const tokens = reported ?? estimateTokenUsage(chars.promptChars, chars.responseChars, settings.charsPerToken);
+  const price = resolveModelPrice(model, settings.prices);
+  return { tokens, costUsd: price ? computeCostUsd(tokens, price) : null };
+}
+
 /**
  * Compute character counts from prompt and output files.
  * Returns { promptChars, responseChars }. Returns 0 for missing files.
@@ -117,28 +176,50 @@ export function generateUsageReport(
   teamName: string
 ): TeamUsageReport {
   const records = readUsageRecords(workingDirectory, teamName);
+  const settings = records.length > 0 ? loadCostAccountingSettings() : null;
 
   // Aggregate per worker
   const workerMap = new Map<string, WorkerUsageSummary>();
+  const tasks: TaskCostSummary[] = [];
 
   for (const r of records) {
-    const existing = workerMap.get(r.workerName);
-    if (existing) {
-      existing.taskCount++;
-      existing.totalWallClockMs += r.wallClockMs;
-      existing.totalPromptChars += r.promptChars;
-      existing.totalResponseChars += r.responseChars;
-    } else {
-      workerMap.set(r.workerName, {
+    // Legacy records have no tokens: estimate and price them now
+    const { tokens, costUsd } = r.tokens
+      ? { tokens: r.tokens, costUsd: r.costUsd ?? priceTaskUsage(r.model, r, r.tokens, settings!).costUsd }
+      : priceTaskUsage(r.model, r, null, settings!);
+    tasks.push({ taskId: r.taskId, workerName: r.workerName, model: r.model, tokens, costUsd });
+
+    let summary = workerMap.get(r.workerName);
+    if (!summary) {
+      summary = {
         workerName: r.workerName,
         provider: r.provider,
         model: r.model,
-        taskCount: 1,
-        totalWallClockMs: r.wallClockMs,
-        totalPromptChars: r.promptChars,
-        totalResponseChars: r.responseChars,
-      });
+        taskCount: 0,
+        totalWallClockMs: 0,
+        totalPromptChars: 0,
+        totalResponseChars: 0,
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        totalCacheReadTokens: 0,
+        totalCacheWriteTokens: 0,
+        estimatedTaskCount: 0,
+        costUsd: 0,
+        unpricedTaskCount: 0,
+      };
+      workerMap.set(r.workerName, summary);
     }
+    summary.taskCount++;
+    summary.totalWallClockMs += r.wallClockMs;
+    summary.totalPromptChars += r.promptChars;
+    summary.totalResponseChars += r.responseChars;
+    summary.totalInputTokens += tokens.inputTokens;
+    summary.totalOutputTokens += tokens.outputTokens;
+    summary.totalCacheReadTokens += tokens.cacheReadTokens;
+    summary.totalCacheWriteTokens += tokens.cacheWriteTokens;
+    if (tokens.source === 'estimated') summary.estimatedTaskCount++;
+    if (costUsd === null) summary.unpricedTaskCount++;
+    else summary.costUsd += costUsd;
   }
 
   const workers = Array.from(workerMap.values());
@@ -147,6 +228,127 @@ export function generateUsageReport(
     teamName,
     totalWallClockMs: workers.reduce((sum, w) => sum + w.totalWallClockMs, 0),
     taskCount: workers.reduce((sum, w) => sum + w.taskCount, 0),
+    totalCostUsd: workers.reduce((sum, w) => sum + w.costUsd, 0),
     workers,
+    tasks,
   };
 }
+
+/**
+ * Locate the transcript Claude writes for a session:
+ * {claudeConfigDir}/projects/{encoded-cwd}/{sessionId}.jsonl
+ */
+export function findClaudeTranscript(sessionId: string): string | null {
+  if (!/^[A-Za-z0-9-]+$/.test(sessionId)) return null;
+  const projectsDir = join(getClaudeConfigDir(), 'projects');
+  let projects: string[];
+  try {
+    projects = readdirSync(projectsDir);
+  } catch {
+    return null;
+  }
+  for (const project of projects) {
+    const candidate = join(projectsDir, project, `${sessionId}.jsonl`);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+function resolveExternalWorkerModel(provider: 'codex' | 'gemini'): string {
+  const configured = provider === 'codex'
+    ? process.env.OMC_EXTERNAL_MODELS_DEFAULT_CODEX_MODEL || process.env.OMC_CODEX_DEFAULT_MODEL
+    : process.env.OMC_EXTERNAL_MODELS_DEFAULT_GEMINI_MODEL || process.env.OMC_GEMINI_DEFAULT_MODEL;
+  return configured || getBuiltinExternalDefaultModel(provider);
+}
+
+function sumTokens(records: TaskUsageRecord[]): Omit<TokenUsage, 'source'> {
+  const total = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+  for (const r of records) {
+    if (!r.tokens) continue;
+    total.inputTokens += r.tokens.inputTokens;
+    total.outputTokens += r.tokens.outputTokens;
+    total.cacheReadTokens += r.tokens.cacheReadTokens;
+    total.cacheWriteTokens += r.tokens.cacheWriteTokens;
+  }
+  return total;
+}
+
+/**
+ * Record usage for v2 (tmux) tasks that completed since the last call.
+ *
+ * Claude workers are launched with a fixed `--session-id`, so their tokens
+ * are read from the session transcript; a worker's session spans several
+ * tasks, so each task is charged the growth since the previous record.
+ * Codex/Gemini workers run interactively without a usage report and are
+ * estimated from the task description and result. Idempotent per task.
+ * Returns the records written.
+ */
+export function recordCompletedTaskUsage(
+  workingDirectory: string,
+  teamName: string,
+  config: Pick<TeamConfig, 'workers' | 'agent_type' | 'created_at'>,
+  tasks: TeamTask[],
+): TaskUsageRecord[] {
+  const existing = readUsageRecords(workingDirectory, teamName);
+  const recordedTaskIds = new Set(existing.map(r => r.taskId));
+  const completed = tasks
+    .filter(t => t.status === 'completed' && t.owner && !recordedTaskIds.has(t.id))
+    .sort((a, b) => (a.completed_at ?? '').localeCompare(b.completed_at ?? ''));
+  if (completed.length === 0) return [];
+
+  const settings = loadCostAccountingSettings();
+  const written: TaskUsageRecord[] = [];
+
+  for (const task of completed) {
+    const worker = config.workers.find(w => w.name === task.owner);
+    if (!worker) continue;
+    // Workers with a session ID run the claude binary whatever their role label
+    const provider = (worker.session_id ? 'claude' : worker.role || config.agent_type || 'claude') as UsageProvider;
+    if (provider !== 'claude' && provider !== 'codex' && provider !== 'gemini') continue;
+
+    const workerRecords = [...existing, ...written].filter(r => r.workerName === worker.name);
+    const completedAt = task.completed_at ?? new Date().toISOString();
+    const startedAt = workerRecords[workerRecords.length - 1]?.completedAt ?? config.created_at;
+    const chars = { promptChars: task.description.length, responseChars: (task.result ?? '').length };
+
+    let model = provider === 'claude' ? 'claude' : resolveExternalWorkerModel(provider);
+    let reported: TokenUsage | null = null;
+    if (provider === 'claude' && worker.session_id) {
+      const transcriptPath = findClaudeTranscript(worker.session_id);
+      if (transcriptPath) {
+        const transcript = readFileSync(transcriptPath, 'utf-8');
+        model = parseClaudeModel(transcript) ?? model;
+        const total = parseClaudeUsage(transcript);
+        if (total) {
+          const prior = sumTokens(workerRecords.filter(r => r.sessionId === worker.session_id));
+          reported = {
+            inputTokens: Math.max(0, total.inputTokens - prior.inputTokens),
+            outputTokens: Math.max(0, total.outputTokens - prior.outputTokens),
+            cacheReadTokens: Math.max(0, total.cacheReadTokens - prior.cacheReadTokens),
+            cacheWriteTokens: Math.max(0, total.cacheWriteTokens - prior.cacheWriteTokens),
+            source: 'reported',
+          };
+        }
+      }
+    }
+
+    const { tokens, costUsd } = priceTaskUsage(model, chars, reported, settings);
+    const record: TaskUsageRecord = {
+      taskId: task.id,
+      workerName: worker.name,
+      provider,
+      model,
+      startedAt,
+      completedAt,
+      wallClockMs: Math.max(0, Date.parse(completedAt) - Date.parse(startedAt)) || 0,
+      ...chars,
+      tokens,
+      ...(costUsd !== null ? { costUsd } : {}),
+      ...(reported && worker.session_id ? { sessionId: worker.session_id } : {}),
+    };
+    recordTaskUsage(workingDirectory, teamName, record);
+    written.push(record);
+  }
+
+  return written;
+}
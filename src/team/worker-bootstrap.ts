@@ -115,6 +115,7 @@ Use the CLI API for all task lifecycle operations. Do NOT directly edit task fil
 - Complete task: \`omc team api transition-task-status --input "{\"team_name\":\"${teamName}\",\"task_id\":\"<id>\",\"from\":\"in_progress\",\"to\":\"completed\",\"claim_token\":\"<claim_token>\"}" --json\`
 - Fail task: \`omc team api transition-task-status --input "{\"team_name\":\"${teamName}\",\"task_id\":\"<id>\",\"from\":\"in_progress\",\"to\":\"failed\",\"claim_token\":\"<claim_token>\"}" --json\`
 - Release claim (rollback): \`omc team api release-task-claim --input "{\"team_name\":\"${teamName}\",\"task_id\":\"<id>\",\"claim_token\":\"<claim_token>\",\"worker\":\"${workerName}\"}" --json\`
+- If claim-task returns \`budget_paused\`, the team hit a budget ceiling: do not start new work, set your status to "idle" and wait for leader instructions.
 
 ## Communication Protocol
 - **Inbox**: Read ${inboxPath} for new instructions
@@ -114,6 +114,19 @@ export function getWorkerHealthReports(
   return reports;
 }
 
+/**
+ * Return the subset of workers that have self-quarantined.
+ * Quarantined workers stay alive but stop claiming tasks, so they provide
+ * no capacity and are the first candidates for replacement.
+ */
+export function listQuarantinedWorkers(
+  teamName: string,
+  workerNames: string[],
+  workingDirectory: string
+): string[] {
+  return workerNames.filter(name => readHeartbeat(workingDirectory, teamName, name)?.status === 'quarantined');
+}
+
 /**
  * Check if a specific worker needs intervention.
  * Returns reason string if intervention needed, null otherwise.